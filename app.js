@@ -20,6 +20,7 @@ const { fetchProjectDoc } = require('./dist/backend/services/project-docs-servic
 const { projectsRepository } = require('./dist/backend/services/repositories/projects-repository');
 const { findProjectByKey } = require('./dist/backend/services/data-layer');
 const { resolveOgMeta, buildOgHeadTags } = require('./dist/backend/services/og-meta');
+const { startNightlyWatchdog } = require('./dist/backend/services/nightly-runs');
 const axios = require('axios');
 
 const isDev = process.env.NODE_ENV === 'development';
@@ -95,7 +96,12 @@ app.use((req, res, next) => {
     res.redirect(301, `${TRACKER_CANONICAL_ORIGIN}${suffix}${query}`);
 });
 
-app.use(express.json());
+app.use(express.json({
+    // Keep the exact bytes for webhook signature checks (JSON.stringify of req.body won't match)
+    verify: (req, res, buf) => {
+        if (req.url.startsWith('/api/eventbrite/webhook')) req.rawBody = buf;
+    }
+}));
 app.use(cookieParser());
 
 // Session management (used for DTV account auth and returnTo during login flows)
@@ -279,6 +285,8 @@ if (!isDev) {
 
 // Start server — async to support Vite middleware in dev mode
 const port = process.env.PORT || 3000;
+// Hourly check that the nightly update is still running (alerts NIGHTLY_ALERT_EMAIL)
+startNightlyWatchdog();
 (async () => {
     if (isDev) {
         // Load Vite from frontend/node_modules (it's installed there, not at root)
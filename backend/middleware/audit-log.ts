@@ -0,0 +1,159 @@
+import { Request, Response, NextFunction } from 'express';
+/// <reference path="../types/express-session.d.ts" />
+import { listStore } from '../services/list-store';
+import { sessionsRepository } from '../services/repositories/sessions-repository';
+import { profileReviewsRepository } from '../services/repositories/profile-reviews-repository';
+import { profileIdFromSlug } from '../services/data-layer';
+import { diffFields, recordAuditEvent, type AuditEntityType, type AuditEvent } from '../services/audit-log';
+
+const AUDITED_METHODS = new Set(['POST', 'PATCH', 'PUT', 'DELETE']);
+
+const LIST_ENV: Record<AuditEntityType, string> = {
+  entry:   'ENTRIES_LIST_GUID',
+  profile: 'PROFILES_LIST_GUID',
+  record:  'RECORDS_LIST_GUID',
+  regular: 'REGULARS_LIST_GUID',
+  session: 'SESSIONS_LIST_GUID',
+};
+
+interface AuditTarget {
+  entityType: AuditEntityType;
+  /** Resolves the existing item's ID for updates/deletes; undefined for creates and bulk writes */
+  resolveId?: (match: RegExpMatchArray) => Promise<number | undefined>;
+  /** The write creates one item whose ID comes back as `data.id` */
+  creates?: boolean;
+  /** Record the ID but not the field diff — the "before" values are the personal data being removed */
+  omitChanges?: boolean;
+}
+
+const numericId = async (match: RegExpMatchArray) => parseInt(match[1], 10);
+const profileSlugId = async (match: RegExpMatchArray) => profileIdFromSlug(match[1]);
+const sessionSlugId = async (match: RegExpMatchArray) =>
+  (await sessionsRepository.getBySlug(match[1].toLowerCase(), match[2]))?.ID;
+/** A review is resolved onto its matched profile — that's the one merges and splits change */
+const reviewProfileId = async (match: RegExpMatchArray) =>
+  (await profileReviewsRepository.getById(parseInt(match[1], 10)))?.ProfileID ?? undefined;
+
+// First match wins — specific single-item routes before the per-entity catch-alls.
+// Paths are relative to the /api mount, as in require-admin.ts.
+const AUDIT_TARGETS: { pattern: RegExp; target: AuditTarget }[] = [
+  { pattern: /^\/entries\/(\d+)$/,                          target: { entityType: 'entry',   resolveId: numericId } },
+  { pattern: /^\/entries\/(\d+)\/[^/]+$/,                  target: { entityType: 'entry',   resolveId: numericId } },
+  { pattern: /^\/rsvp\/(\d+)-[0-9a-f]+$/,                  target: { entityType: 'entry',   resolveId: numericId } },
+  { pattern: /^\/sessions\/[^/]+\/[^/]+\/entries$/,         target: { entityType: 'entry',   creates: true } },
+  { pattern: /^\/sessions\/[^/]+\/[^/]+\/booking$/,         target: { entityType: 'entry' } },
+  { pattern: /^\/sessions\/[^/]+\/[^/]+\/team-booking$/,    target: { entityType: 'entry' } },
+  { pattern: /^\/records\/(\d+)$/,                          target: { entityType: 'record',  resolveId: numericId } },
+  { pattern: /^\/profiles\/\d+\/records$/,                  target: { entityType: 'record',  creates: true } },
+  { pattern: /^\/regulars\/(\d+)$/,                         target: { entityType: 'regular', resolveId: numericId } },
+  { pattern: /^\/profiles\/[^/]+\/regulars$/,               target: { entityType: 'regular', creates: true } },
+  { pattern: /^\/profiles$/,                                target: { entityType: 'profile', creates: true } },
+  { pattern: /^\/profiles\/(\d+)\/consent$/,                target: { entityType: 'profile', resolveId: numericId } },
+  { pattern: /^\/profiles\/([^/]+-\d+)\/erase$/,            target: { entityType: 'profile', resolveId: profileSlugId, omitChanges: true } },
+  { pattern: /^\/profiles\/([^/]+-\d+)(\/transfer)?$/,      target: { entityType: 'profile', resolveId: profileSlugId } },
+  { pattern: /^\/profile-reviews\/(\d+)\/resolve$/,          target: { entityType: 'profile', resolveId: reviewProfileId } },
+  { pattern: /^\/sessions$/,                                target: { entityType: 'session', creates: true } },
+  { pattern: /^\/sessions\/([^/]+)\/(\d{4}-\d{2}-\d{2})(\/[^/]+)?$/, target: { entityType: 'session', resolveId: sessionSlugId } },
+  { pattern: /^\/entries(\/|$)/,                            target: { entityType: 'entry' } },
+  { pattern: /^\/records(\/|$)/,                            target: { entityType: 'record' } },
+  { pattern: /^\/regulars(\/|$)/,                           target: { entityType: 'regular' } },
+  { pattern: /^\/profiles(\/|$)/,                           target: { entityType: 'profile' } },
+  { pattern: /^\/sessions(\/|$)/,                           target: { entityType: 'session' } },
+];
+
+function findTarget(path: string): { target: AuditTarget; match: RegExpMatchArray } | undefined {
+  for (const { pattern, target } of AUDIT_TARGETS) {
+    const match = path.match(pattern);
+    if (match) return { target, match };
+  }
+  return undefined;
+}
+
+async function loadItem(entityType: AuditEntityType, id: number): Promise<Record<string, any> | null> {
+  const listGuid = process.env[LIST_ENV[entityType]];
+  if (!listGuid) return null;
+  try {
+    // Straight from the store, not the repository caches, so the snapshot is current
+    return await listStore.getListItem(listGuid, id);
+  } catch {
+    return null; // deleted, or never existed
+  }
+}
+
+/** IDs named in a bulk request body, e.g. { profileIds: [...] } or { sessionIds: [...] } */
+function bodyIds(body: unknown): number[] {
+  if (!body || typeof body !== 'object') return [];
+  const ids: number[] = [];
+  for (const [key, value] of Object.entries(body as Record<string, unknown>)) {
+    if (!/ids?$/i.test(key)) continue;
+    const values = Array.isArray(value) ? value : [value];
+    for (const v of values) if (typeof v === 'number' && Number.isInteger(v)) ids.push(v);
+  }
+  return ids;
+}
+
+function actorOf(req: Request): { actor: string; role?: string } {
+  const user = req.session.user;
+  if (user) return { actor: user.email || user.displayName || user.id, role: user.role };
+  if (req.headers['x-api-key']) return { actor: 'api-key' };
+  return { actor: 'anonymous' };
+}
+
+// Records an audit event for every write on entries, profiles, records, regulars and sessions.
+// Mounted straight after requireAdmin, so only requests that passed the role checks get this far
+// (writes the handler itself rejects are still logged, with their status). Before/after snapshots cost one extra
+// list read each, for single-item writes only.
+export async function auditLog(req: Request, res: Response, next: NextFunction): Promise<void> {
+  if (!AUDITED_METHODS.has(req.method)) { next(); return; }
+  const found = findTarget(req.path);
+  if (!found) { next(); return; }
+
+  const { target, match } = found;
+  const route = req.path;
+  let entityId: number | undefined;
+  let before: Record<string, any> | null = null;
+  try {
+    entityId = target.resolveId ? await target.resolveId(match) : undefined;
+    if (entityId !== undefined && !target.omitChanges) before = await loadItem(target.entityType, entityId);
+  } catch (err: any) {
+    console.error(`[Audit] Failed to snapshot ${req.method} ${route}:`, err.message);
+  }
+
+  let responseBody: any;
+  const originalJson = res.json.bind(res);
+  res.json = (body: any) => {
+    responseBody = body;
+    return originalJson(body);
+  };
+
+  res.on('finish', () => {
+    void (async () => {
+      const succeeded = res.statusCode < 400;
+      const event: AuditEvent = {
+        timestamp: new Date().toISOString(),
+        ...actorOf(req),
+        method: req.method,
+        route,
+        status: res.statusCode,
+        entityType: target.entityType,
+        entityIds: [],
+      };
+
+      const createdId = target.creates && typeof responseBody?.data?.id === 'number' ? responseBody.data.id : undefined;
+      const id = entityId ?? createdId;
+      if (id !== undefined) {
+        event.entityIds = [id];
+        if (succeeded && !target.omitChanges) {
+          const after = await loadItem(target.entityType, id); // null once deleted
+          event.changes = diffFields(before, after);
+        }
+      } else {
+        event.entityIds = bodyIds(req.body);
+      }
+
+      await recordAuditEvent(event);
+    })().catch(err => console.error(`[Audit] Failed to record ${req.method} ${route}:`, err.message));
+  });
+
+  next();
+}
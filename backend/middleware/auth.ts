@@ -4,6 +4,7 @@ import { validateAuthToken } from '../services/auth-store';
 import { profilesRepository } from '../services/repositories/profiles-repository';
 import { profileSlug, parseEmails } from '../services/data-layer';
 import { PROFILE_STATS } from '../services/field-names';
+import { childProfileIds } from '../services/guardianship';
 
 // Populates req.session.user from the dtv-auth cookie for self-service volunteers.
 // DTV account (MSAL) users already have req.session.user set by their own auth flow — skip them.
@@ -52,6 +53,7 @@ export async function authMiddleware(req: Request, _res: Response, next: NextFun
       profileSlug: profileSlug(profile.Title, profile.ID),
       profileId: profile.ID,
       profileIds,
+      childProfileIds: childProfileIds(profiles, profileIds),
       trustedRole,
       profileStats,
       freshAuthAt: record.createdAt,
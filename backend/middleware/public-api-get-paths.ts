@@ -14,6 +14,8 @@ export const PUBLIC_API_GET_PATH_PREFIXES: readonly string[] = [
   '/api/media',
   '/api/docs',
   '/api/email/sandbox',
+  '/api/calendar',      // .ics feeds; personal feeds are token-addressed
+  '/api/rsvp',          // regulars' RSVP links — token-addressed
 ];
 
 function fullApiPath(req: Pick<Request, 'path' | 'baseUrl'>): string {
@@ -10,6 +10,9 @@ const CHECKIN_ALLOWED_PATTERNS = [
   { method: 'PATCH', pattern: /^\/regulars\/\d+$/ },          // update regular (e.g. accompanying adult)
   { method: 'DELETE', pattern: /^\/regulars\/\d+$/ },         // remove regular
   { method: 'POST',  pattern: /^\/sessions\/[^/]+\/[^/]+\/entries$/ }, // add entry
+  { method: 'POST',  pattern: /^\/sessions\/[^/]+\/[^/]+\/booking$/ }, // book an adult with their children
+  { method: 'POST',  pattern: /^\/sessions\/[^/]+\/[^/]+\/team-booking$/ }, // book unnamed places for a CSR team
+  { method: 'POST',  pattern: /^\/entries\/\d+\/place$/ },    // name a team place
   { method: 'POST',  pattern: /^\/sessions\/[^/]+\/[^/]+\/refresh$/ }, // refresh session
   { method: 'POST',  pattern: /^\/sessions\/[^/]+\/[^/]+\/stats$/ },   // recompute session stats
   { method: 'DELETE', pattern: /^\/sessions\/[^/]+\/[^/]+\/unchecked-entries$/ }, // remove no-shows
@@ -23,14 +26,15 @@ const CHECKIN_ALLOWED_PATTERNS = [
 
 const SELFSERVICE_ALLOWED_PATTERNS = [
   { method: 'POST',   pattern: /^\/sessions\/[^/]+\/[^/]+\/entries$/ }, // self-register for a session
-  { method: 'POST',   pattern: /^\/entries\/\d+\/photos$/ },            // upload photos to own entry
-  { method: 'PATCH',  pattern: /^\/entries\/\d+$/ },                   // cancel own booking only; handler enforces
-  { method: 'POST',   pattern: /^\/profiles\/\d+\/consent$/ },          // submit own consent; handler enforces ownership
+  { method: 'POST',   pattern: /^\/sessions\/[^/]+\/[^/]+\/booking$/ }, // book self and linked children; handler enforces
+  { method: 'POST',   pattern: /^\/entries\/\d+\/photos$/ },            // upload photos to own or linked child's entry
+  { method: 'PATCH',  pattern: /^\/entries\/\d+$/ },                   // cancel own or linked child's booking only; handler enforces
+  { method: 'POST',   pattern: /^\/profiles\/\d+\/consent$/ },          // submit own or linked child's consent; handler enforces (child needs step-up)
 ];
 
 // GET paths self-service users can access — mirrors the public (unauthenticated) allowlist in
-// require-auth.ts plus own profile, own entry detail, and upload context. All other GETs are
-// blocked to protect other volunteers' personal data (GDPR).
+// require-auth.ts plus own profile, own entry detail, and upload context (or a linked child's — see
+// services/guardianship.ts). All other GETs are blocked to protect other volunteers' personal data (GDPR).
 const SELFSERVICE_ALLOWED_GET_PATTERNS = [
   /^\/stats/,
   /^\/sessions(?!\/export)/,            // session list + detail — handler filters entries to own-only; excludes /sessions/export
@@ -39,14 +43,21 @@ const SELFSERVICE_ALLOWED_GET_PATTERNS = [
   /^\/tags/,
   /^\/media/,
   /^\/docs/,
-  /^\/entries\/\d+$/,                  // own entry detail by ID; handler enforces ownership
-  /^\/entries\/\d+\/upload-context$/, // own entry upload context; handler enforces ownership
+  /^\/entries\/\d+$/,                  // own or child's entry detail by ID; handler enforces ownership
+  /^\/entries\/\d+\/upload-context$/, // own or child's entry upload context; handler enforces ownership
 ];
 
 const ADMIN_ONLY_GET_PATTERNS = [
   /^\/sessions\/export\/?$/,
   /^\/records\/export\/?$/,
   /^\/entries\/?$/,
+  /^\/audit\/?$/,
+  /^\/webhooks(\/|$)/,
+  /^\/backup(\/|$)/,
+  /^\/eventbrite\/nightly-runs\/?$/,
+  /^\/eventbrite\/questions\/?$/,
+  /^\/profile-reviews\/?$/,
+  /^\/profiles\/[^/]+\/subject-access$/,
 ];
 
 export function requireAdmin(req: Request, res: Response, next: NextFunction): void {
@@ -58,6 +69,18 @@ export function requireAdmin(req: Request, res: Response, next: NextFunction): v
     return;
   }
 
+  // Eventbrite webhook — signature-verified in the route (see require-auth.ts)
+  if (!req.session.user && req.method === 'POST' && req.path === '/eventbrite/webhook') {
+    next();
+    return;
+  }
+
+  // Regulars' RSVP answers — token-verified in the route, whoever (if anyone) is logged in
+  if (req.method === 'POST' && /^\/rsvp\/[^/]+$/.test(req.path)) {
+    next();
+    return;
+  }
+
   // Anonymous (or post-logout) public reads — same paths as require-auth; must not require a role
   if (isPublicApiGet(req)) {
     next();
@@ -83,8 +106,8 @@ export function requireAdmin(req: Request, res: Response, next: NextFunction): v
         next();
         return;
       }
-      // Own profile detail — profile slugs always end in a numeric ID (e.g. john-doe-123).
-      // Excludes word-only paths like /profiles/export. Ownership enforced in the route handler.
+      // Own (or linked child's) profile detail — profile slugs always end in a numeric ID (e.g. john-doe-123).
+      // Excludes word-only paths like /profiles/export. Ownership and step-up enforced in the route handler.
       if (/^\/profiles\/[^/]+-\d+$/.test(req.path)) {
         next();
         return;
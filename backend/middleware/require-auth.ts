@@ -13,9 +13,22 @@ export function requireAuth(req: Request, res: Response, next: NextFunction): vo
     return;
   }
 
-  // API key auth for scheduled sync calls (Eventbrite sync + stats refresh)
+  // Eventbrite webhook — no session or API key; the route verifies the request signature
+  if (req.method === 'POST' && req.path === '/api/eventbrite/webhook') {
+    next();
+    return;
+  }
+
+  // Regulars' RSVP answers — no session; the route verifies the token
+  if (req.method === 'POST' && /^\/api\/rsvp\/[^/]+$/.test(req.path)) {
+    next();
+    return;
+  }
+
+  // API key auth for scheduled sync calls (Eventbrite sync + stats refresh + backup export).
+  // Backup restore and the snapshot list need an admin session — the sync key can't overwrite lists.
   const apiKey = process.env.API_SYNC_KEY;
-  const API_KEY_PATHS = ['/api/eventbrite/', '/api/sessions/refresh-stats', '/api/profiles/refresh-stats', '/api/backup/'];
+  const API_KEY_PATHS = ['/api/eventbrite/', '/api/sessions/refresh-stats', '/api/profiles/refresh-stats', '/api/backup/export-all'];
   if (apiKey && req.headers['x-api-key'] === apiKey && API_KEY_PATHS.some(p => req.path.startsWith(p))) {
     next();
     return;
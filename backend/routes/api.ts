@@ -4,35 +4,53 @@
 
 import express, { Router } from 'express';
 import { requireAdmin } from '../middleware/require-admin';
+import { auditLog } from '../middleware/audit-log';
 import groupsRoutes = require('./groups');
 import projectsRoutes = require('./projects');
 import sessionsRoutes = require('./sessions');
 import entriesRoutes = require('./entries');
+import bookingsRoutes = require('./bookings');
+import organisationsRoutes = require('./organisations');
 import profilesRoutes = require('./profiles');
 import regularsRoutes = require('./regulars');
 import statsRoutes = require('./stats');
 import eventbriteRoutes = require('./eventbrite');
+import eventbriteQuestionsRoutes = require('./eventbrite-questions');
 import mediaRoutes = require('./media');
 import tagsRoutes = require('./tags');
 import backupRoutes = require('./backup');
 import docsRoutes = require('./docs');
 import emailRoutes = require('./email');
+import calendarRoutes = require('./calendar');
+import auditRoutes = require('./audit');
+import webhooksRoutes = require('./webhooks');
+import profileReviewsRoutes = require('./profile-reviews');
+import rsvpRoutes = require('./rsvp');
 
 const router: Router = express.Router();
 
 router.use(requireAdmin);
+router.use(auditLog);
 router.use(groupsRoutes);
 router.use(projectsRoutes);
 router.use(sessionsRoutes);
 router.use(entriesRoutes);
+router.use(bookingsRoutes);
+router.use(organisationsRoutes);
 router.use(profilesRoutes);
 router.use(regularsRoutes);
 router.use(statsRoutes);
 router.use(eventbriteRoutes);
+router.use(eventbriteQuestionsRoutes);
 router.use(mediaRoutes);
 router.use(tagsRoutes);
 router.use(backupRoutes);
 router.use(docsRoutes);
+router.use(calendarRoutes);
+router.use(auditRoutes);
+router.use(webhooksRoutes);
+router.use(profileReviewsRoutes);
+router.use(rsvpRoutes);
 router.use('/email', emailRoutes);
 
 export = router;
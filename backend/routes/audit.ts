@@ -0,0 +1,71 @@
+import express, { Request, Response, Router } from 'express';
+import { auditSink, type AuditEntityType, type AuditQuery } from '../services/audit-log';
+import type { ApiResponse } from '../../types/sharepoint';
+import type { AuditEventResponse } from '../../types/api-responses';
+
+const router: Router = express.Router();
+
+const ENTITY_TYPES: AuditEntityType[] = ['entry', 'profile', 'record', 'regular', 'session'];
+const MAX_LIMIT = 1000;
+
+// GET /api/audit — admin only (ADMIN_ONLY_GET_PATTERNS in require-admin.ts)
+// Filters: ?actor=email&entityType=entry&entityId=123&method=PATCH&from=2026-01-01&to=2026-01-31&limit=200
+router.get('/audit', async (req: Request, res: Response) => {
+  try {
+    const q: AuditQuery = {};
+    const str = (key: string) => (typeof req.query[key] === 'string' && req.query[key] ? String(req.query[key]) : undefined);
+
+    q.actor = str('actor');
+    q.method = str('method');
+    q.from = str('from');
+    q.to = str('to');
+
+    const entityType = str('entityType');
+    if (entityType) {
+      if (!ENTITY_TYPES.includes(entityType as AuditEntityType)) {
+        res.status(400).json({ success: false, error: `entityType must be one of ${ENTITY_TYPES.join(', ')}` });
+        return;
+      }
+      q.entityType = entityType as AuditEntityType;
+    }
+
+    const entityId = str('entityId');
+    if (entityId) {
+      const parsed = parseInt(entityId, 10);
+      if (isNaN(parsed)) {
+        res.status(400).json({ success: false, error: 'entityId must be a number' });
+        return;
+      }
+      q.entityId = parsed;
+    }
+
+    const limit = str('limit');
+    if (limit) {
+      const parsed = parseInt(limit, 10);
+      if (isNaN(parsed) || parsed < 1) {
+        res.status(400).json({ success: false, error: 'limit must be a positive number' });
+        return;
+      }
+      q.limit = Math.min(parsed, MAX_LIMIT);
+    }
+
+    for (const key of ['from', 'to'] as const) {
+      if (q[key] && isNaN(Date.parse(q[key]!))) {
+        res.status(400).json({ success: false, error: `${key} must be an ISO date` });
+        return;
+      }
+    }
+
+    const data: AuditEventResponse[] = await auditSink().query(q);
+    res.json({ success: true, count: data.length, data } as ApiResponse<AuditEventResponse[]>);
+  } catch (error: any) {
+    console.error('Error fetching audit log:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch audit log',
+      message: error.message
+    });
+  }
+});
+
+export = router;
@@ -2,6 +2,7 @@
 /// <reference path="../../types/express-session.d.ts" />
 import dtvRouter from './dtv';
 import verifyRouter from './verify';
+import { isMailConfigured } from '../../services/mail-transport';
 
 const router: Router = express.Router();
 
@@ -20,7 +21,7 @@ router.get('/logout', (req: Request, res: Response) => {
 
 // GET /auth/providers — whether self-service email login is configured
 router.get('/providers', (_req: Request, res: Response) => {
-  res.json({ selfService: !!process.env.MAIL_SENDER });
+  res.json({ selfService: isMailConfigured() });
 });
 
 // GET /auth/me — return current user info (no auth required)
@@ -1,15 +1,14 @@
 ﻿import { randomInt } from 'crypto';
 import express, { Request, Response, Router } from 'express';
 /// <reference path="../../types/express-session.d.ts" />
-import { sendEmail } from '../../services/graph-mail';
+import { sendEmail, isMailConfigured, EmailRateLimitError } from '../../services/mail-transport';
 import { resolvePersonalSession } from '../../services/personal-auth';
 import { createAuthToken } from '../../services/auth-store';
-import { isEmailRateLimited, recordEmailSent } from '../../services/email-rate-limiter';
+import { isEmailRateLimited } from '../../services/email-rate-limiter';
+import { verificationStore, hashVerificationCode } from '../../services/verification-store';
 
 const router: Router = express.Router();
 
-interface CodeEntry { code: string; expires: number; attempts: number }
-const codeStore = new Map<string, CodeEntry>();
 const MAX_ATTEMPTS = 5;
 const CODE_TTL_MS = 15 * 60 * 1000;
 const AUTH_TTL_MS = parseInt(process.env.AUTH_BASIC_TTL_HOURS || '72', 10) * 60 * 60 * 1000;
@@ -28,23 +27,25 @@ type CodeCheckResult =
   | { ok: false; status: number; error: string };
 
 async function resolveVerifyCode(email: string, code: string, userAgent?: string, res?: Response): Promise<CodeCheckResult> {
-  const entry = codeStore.get(email);
+  const store = verificationStore();
+  const entry = await store.getCode(email);
   if (!entry || Date.now() > entry.expires) {
-    codeStore.delete(email);
+    if (entry) await store.deleteCode(email);
     return { ok: false, status: 401, error: 'That code has expired or could not be found. Request a new code and try again.' };
   }
 
-  entry.attempts++;
-  if (entry.attempts > MAX_ATTEMPTS) {
-    codeStore.delete(email);
+  const attempts = entry.attempts + 1;
+  if (attempts > MAX_ATTEMPTS) {
+    await store.deleteCode(email);
     return { ok: false, status: 401, error: 'Too many incorrect attempts. Request a new code to continue.' };
   }
 
-  if (entry.code !== code) {
+  if (entry.codeHash !== hashVerificationCode(email, code)) {
+    await store.setAttempts(email, attempts);
     return { ok: false, status: 401, error: 'That code does not match. Check the 4 digits and try again.' };
   }
 
-  codeStore.delete(email);
+  await store.deleteCode(email);
 
   const result = await resolvePersonalSession(email, '', '');
   if (!result.ok) {
@@ -75,23 +76,28 @@ router.post('/verify/send', async (req: Request, res: Response) => {
     return;
   }
 
-  if (!process.env.MAIL_SENDER) {
+  if (!isMailConfigured()) {
     res.status(503).json({ error: 'Verification code login is not configured on this server' });
     return;
   }
 
-  if (isEmailRateLimited()) {
-    res.status(429).json({ error: "We've sent too many sign-in emails recently. Please wait a while and try again." });
+  // Limited per address and per client IP, so one abuser can't lock everyone else out.
+  // Checked before storing so a refused request doesn't replace a code already sent.
+  const quota = { email, ip: req.ip };
+  const code = String(randomInt(1000, 10000));
+  try {
+    if (await isEmailRateLimited(quota)) {
+      res.status(429).json({ error: "We've sent too many sign-in emails recently. Please wait a while and try again." });
+      return;
+    }
+    // One code per email â€” replaces any previous one. Leftovers are pruned by the nightly run.
+    await verificationStore().putCode(email, hashVerificationCode(email, code), Date.now() + CODE_TTL_MS);
+  } catch (err: any) {
+    console.error('[Verify] verification store error:', err.message);
+    res.status(500).json({ error: 'Failed to send verification email. Please try again.' });
     return;
   }
 
-  const code = String(randomInt(1000, 10000));
-  // One code per email â€” delete any previous entry (expired or not) before storing the new one.
-  // Expired entries for abandoned requests stay in the map until the same email sends again or
-  // /check is called; at volunteer-app scale this is acceptable without a sweep timer.
-  codeStore.delete(email);
-  codeStore.set(email, { code, expires: Date.now() + CODE_TTL_MS, attempts: 0 });
-
   const returnTo = req.body?.returnTo;
   const safeReturnTo = typeof returnTo === 'string' && returnTo.startsWith('/') && returnTo.length <= 200
     ? returnTo : null;
@@ -110,10 +116,13 @@ router.post('/verify/send', async (req: Request, res: Response) => {
                   <p><a href="${callbackUrl}" style="display:inline-block;padding:12px 24px;background:#4FAF4A;color:white;border-radius:6px;text-decoration:none;font-weight:600;">Log in with ${code}</a></p>
                   <p style="color:#888;font-size:0.85em">If you did not request this, you can safely ignore this email.</p>`;
     const text = `Your verification code is ${code}\n\nThis code expires in 15 minutes. Return to DTV Tracker and enter your code, or use this link:\n\n${callbackUrl}\n\nIf you did not request this, you can safely ignore this email.`;
-    await sendEmail({ to: email, subject: `DTV Tracker verification code ${code}`, html, text });
-    recordEmailSent();
+    await sendEmail({ to: email, subject: `DTV Tracker verification code ${code}`, html, text }, quota);
     res.json({ ok: true });
   } catch (err: any) {
+    if (err instanceof EmailRateLimitError) {
+      res.status(429).json({ error: "We've sent too many sign-in emails recently. Please wait a while and try again." });
+      return;
+    }
     console.error('[Verify] sendEmail error:', err.message);
     res.status(500).json({ error: 'Failed to send verification email. Please try again.' });
   }
@@ -130,8 +139,18 @@ router.post('/verify/check', async (req: Request, res: Response) => {
     return;
   }
 
-  const result = await resolveVerifyCode(email, code, req.headers['user-agent'], res);
+  let result: CodeCheckResult;
+  try {
+    result = await resolveVerifyCode(email, code, req.headers['user-agent'], res);
+  } catch (err: any) {
+    console.error('[Verify] verification store error:', err.message);
+    res.status(500).json({ error: 'Login failed. Please try again.' });
+    return;
+  }
   if (result.ok) {
+    // A volunteer re-verifying while signed in (step-up for child data) — rebuild the session user from the
+    // new token on the next request so freshAuthAt moves forward
+    if (req.session.user?.role === 'selfservice') req.session.user = undefined;
     res.json({ ok: true, flashName: result.displayName });
   } else {
     res.status(result.status).json({ error: result.error });
@@ -1,14 +1,53 @@
 import express, { Request, Response, Router } from 'express';
 import { runBackupExport } from '../services/backup-export';
+import { restoreBackup, listBackupSnapshots, BackupRestoreError } from '../services/backup-restore';
 
 const router: Router = express.Router();
 
 // POST /api/backup/export-all
 // Exports all SharePoint lists plus taxonomy and schema metadata to Backups/ in Shared Documents.
 // Skips files that haven't changed to keep SharePoint version history clean.
+// Also writes today's snapshot folder and prunes old ones (see backup-export.ts).
 router.post('/backup/export-all', async (req: Request, res: Response) => {
   const result = await runBackupExport();
   res.json({ success: true, data: { ...result, timestamp: new Date().toISOString() } });
 });
 
+// GET /api/backup/snapshots — admin only (ADMIN_ONLY_GET_PATTERNS in require-admin.ts)
+router.get('/backup/snapshots', async (req: Request, res: Response) => {
+  try {
+    res.json({ success: true, data: await listBackupSnapshots() });
+  } catch (error: any) {
+    console.error('Error listing backup snapshots:', error);
+    res.status(500).json({ success: false, error: 'Failed to list backup snapshots', message: error.message });
+  }
+});
+
+// POST /api/backup/restore — admin session only (not in require-auth.ts API_KEY_PATHS)
+// Body: { snapshot?: 'latest' | 'YYYY-MM-DD', lists?: string[], dryRun?: boolean (default true), target?: 'live' | 'local' }
+// Returns a per-list diff; writes only when dryRun is explicitly false.
+router.post('/backup/restore', async (req: Request, res: Response) => {
+  try {
+    const { snapshot, lists, dryRun, target } = req.body ?? {};
+    if (lists !== undefined && (!Array.isArray(lists) || lists.some((l: unknown) => typeof l !== 'string'))) {
+      res.status(400).json({ success: false, error: 'lists must be an array of list names' });
+      return;
+    }
+    if (target !== undefined && target !== 'live' && target !== 'local') {
+      res.status(400).json({ success: false, error: 'target must be "live" or "local"' });
+      return;
+    }
+
+    const result = await restoreBackup({ snapshot, lists, dryRun: dryRun !== false, target });
+    res.json({ success: true, data: result });
+  } catch (error: any) {
+    if (error instanceof BackupRestoreError) {
+      res.status(error.statusCode).json({ success: false, error: error.message });
+      return;
+    }
+    console.error('Error restoring backup:', error);
+    res.status(500).json({ success: false, error: 'Failed to restore backup', message: error.message });
+  }
+});
+
 export = router;
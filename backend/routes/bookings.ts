@@ -0,0 +1,106 @@
+import express, { Request, Response, Router } from 'express';
+import { groupsRepository } from '../services/repositories/groups-repository';
+import { sessionsRepository } from '../services/repositories/sessions-repository';
+import { profilesRepository } from '../services/repositories/profiles-repository';
+import { findGroupByKey, findSessionByGroupAndDate } from '../services/data-layer';
+import { SESSION_STATS } from '../services/field-names';
+import { BookingError, bookingOptions, bookFamily, parseBookingRequest } from '../services/booking';
+import { ownProfileIds } from '../services/guardianship';
+import { OrganisationError } from '../services/organisations';
+import { computeAndSaveProfileStats } from '../services/profile-stats';
+import { computeAndSaveSessionStats, preservedMediaFromStats } from '../services/session-stats';
+import { emitEntryEvent } from '../services/webhooks';
+import type { ApiResponse, SharePointProfile } from '../../types/sharepoint';
+import type { SharePointSession } from '../../types/session';
+import type { BookingOptionsResponse, BookingResponse } from '../../types/api-responses';
+
+const router: Router = express.Router();
+
+/**
+ * Session and booking adult for a booking request.
+ * Self-service users book as their own profile (or another profile sharing their login email);
+ * admin and check-in users name the adult with profileId.
+ */
+async function resolveBooking(req: Request, requestedId: unknown): Promise<{ spSession: SharePointSession; adult: SharePointProfile }> {
+  const user = req.session.user;
+  if (!user) throw new BookingError('Log in to book', 401);
+
+  const [rawGroups, rawSessions, rawProfiles] = await Promise.all([
+    groupsRepository.getAll(),
+    sessionsRepository.getAll(),
+    profilesRepository.getAll()
+  ]);
+  const spGroup = findGroupByKey(rawGroups, String(req.params.group).toLowerCase());
+  if (!spGroup) throw new BookingError('Group not found', 404);
+  const spSession = findSessionByGroupAndDate(rawSessions, spGroup.ID, String(req.params.date));
+  if (!spSession) throw new BookingError('Session not found', 404);
+
+  const profileId = requestedId === undefined || requestedId === '' ? undefined : Number(requestedId);
+  if (profileId !== undefined && !Number.isInteger(profileId)) throw new BookingError('profileId must be a number');
+
+  let adultId: number | undefined;
+  if (user.role === 'selfservice') {
+    adultId = profileId ?? user.profileId;
+    if (adultId === undefined || !ownProfileIds(user).includes(adultId)) throw new BookingError('You can only book for yourself and your children', 403);
+  } else {
+    if (profileId === undefined) throw new BookingError('profileId is required');
+    adultId = profileId;
+  }
+
+  const adult = rawProfiles.find(p => p.ID === adultId);
+  if (!adult) throw new BookingError('Volunteer not found', 404);
+  return { spSession, adult };
+}
+
+// GET /api/sessions/:group/:date/booking — who the booker can bring and what still needs asking
+// ?profileId= required for admin and check-in users
+router.get('/sessions/:group/:date/booking', async (req: Request, res: Response) => {
+  try {
+    const { spSession, adult } = await resolveBooking(req, req.query.profileId);
+    const data = await bookingOptions(spSession, adult);
+    res.json({ success: true, data } as ApiResponse<BookingOptionsResponse>);
+  } catch (error: any) {
+    if (error instanceof BookingError) {
+      res.status(error.statusCode).json({ success: false, error: error.message });
+      return;
+    }
+    console.error('Error fetching booking options:', error);
+    res.status(500).json({ success: false, error: 'Failed to fetch booking options', message: error.message });
+  }
+});
+
+// POST /api/sessions/:group/:date/booking — { profileId?, includeSelf, childIds, newChildren, notes,
+//   privacyAccepted, photoConsent, childPhotoConsent, guardianConfirmed, supervisionAcknowledged, csr, organisation }
+router.post('/sessions/:group/:date/booking', async (req: Request, res: Response) => {
+  try {
+    const request = parseBookingRequest(req.body);
+    const { spSession, adult } = await resolveBooking(req, req.body?.profileId);
+    const preservedMedia = preservedMediaFromStats(spSession[SESSION_STATS]);
+
+    // Limits apply to self-service bookings only, as for POST /sessions/:group/:date/entries
+    const data = await bookFamily(spSession, adult, request, { enforceLimits: req.session.user?.role === 'selfservice' });
+
+    for (const entry of data.entries) {
+      emitEntryEvent('entry.booked', { entryId: entry.id, sessionId: spSession.ID, profileId: entry.profileId, waitlisted: data.waitlisted });
+    }
+    computeAndSaveSessionStats(spSession.ID, preservedMedia).catch(err =>
+      console.error(`[Stats] Failed session stats for booking on session ${spSession.ID}:`, err)
+    );
+    for (const profileId of new Set([adult.ID, ...data.entries.map(e => e.profileId)])) {
+      computeAndSaveProfileStats(profileId).catch(err =>
+        console.error(`[Stats] Failed targeted profile update for profile ${profileId}:`, err)
+      );
+    }
+
+    res.json({ success: true, data } as ApiResponse<BookingResponse>);
+  } catch (error: any) {
+    if (error instanceof BookingError || error instanceof OrganisationError) {
+      res.status(error.statusCode).json({ success: false, error: error.message });
+      return;
+    }
+    console.error('Error creating booking:', error);
+    res.status(500).json({ success: false, error: 'Failed to create booking', message: error.message });
+  }
+});
+
+export = router;
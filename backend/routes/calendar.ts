@@ -0,0 +1,158 @@
+import express, { Request, Response, Router } from 'express';
+import { groupsRepository } from '../services/repositories/groups-repository';
+import { projectsRepository } from '../services/repositories/projects-repository';
+import { sessionsRepository } from '../services/repositories/sessions-repository';
+import { entriesRepository } from '../services/repositories/entries-repository';
+import { profilesRepository } from '../services/repositories/profiles-repository';
+import { findGroupByKey, findProjectByKey, isSessionCancelled, safeParseLookupId } from '../services/data-layer';
+import { GROUP_LOOKUP, PROJECT_LOOKUP, SESSION_LOOKUP, SESSION_CANCELLED, ENTRY_CANCELLED, ENTRY_WAITLISTED } from '../services/field-names';
+import { buildCalendar, sessionToCalendarEvent, verifyCalendarFeedToken, type CalendarEvent } from '../services/calendar-feed';
+import type { SharePointSession } from '../../types/session';
+import type { SharePointGroup } from '../../types/group';
+
+const router: Router = express.Router();
+
+/** Feeds include the last year of sessions plus everything upcoming — enough history without growing forever */
+const FEED_HISTORY_DAYS = 365;
+
+function feedCutoffDate(): string {
+  return new Date(Date.now() - FEED_HISTORY_DAYS * 86_400_000).toISOString().slice(0, 10);
+}
+
+function feedBase(req: Request): { baseUrl: string; host: string } {
+  const baseUrl = (process.env.FRONTEND_URL || `${req.protocol}://${req.get('host')}`).replace(/\/$/, '');
+  return { baseUrl, host: new URL(baseUrl).hostname };
+}
+
+function sessionEvents(
+  sessions: SharePointSession[],
+  groups: SharePointGroup[],
+  req: Request,
+  waitlistedSessionIds: Set<number> = new Set()
+): CalendarEvent[] {
+  const { baseUrl, host } = feedBase(req);
+  const groupMap = new Map(groups.map(g => [g.ID, g]));
+  const cutoff = feedCutoffDate();
+  return sessions
+    .filter(s => s.Date && s.Date >= cutoff)
+    .sort((a, b) => a.Date!.localeCompare(b.Date!))
+    .flatMap(s => {
+      const group = groupMap.get(safeParseLookupId(s[GROUP_LOOKUP]) ?? -1);
+      if (!group) return [];
+      const key = (group.Title || '').toLowerCase();
+      const event = sessionToCalendarEvent(s, key, group.Name || group.Title || key, baseUrl, host);
+      if (!waitlistedSessionIds.has(s.ID)) return [event];
+      return [{ ...event, summary: `Waitlist: ${event.summary}`, status: 'TENTATIVE' as const }];
+    });
+}
+
+function sendCalendar(res: Response, filename: string, body: string, isPrivate = false): void {
+  res.set('Content-Type', 'text/calendar; charset=utf-8');
+  res.set('Content-Disposition', `inline; filename="${filename}.ics"`);
+  res.set('Cache-Control', isPrivate ? 'private, max-age=900' : 'public, max-age=3600');
+  res.send(body);
+}
+
+router.get('/calendar/sessions.ics', async (req: Request, res: Response) => {
+  try {
+    const [rawSessions, rawGroups] = await Promise.all([
+      sessionsRepository.getAll(),
+      groupsRepository.getAll(),
+    ]);
+    const events = sessionEvents(rawSessions, rawGroups, req);
+    sendCalendar(res, 'dtv-sessions', buildCalendar('DTV Sessions', events));
+  } catch (error: any) {
+    console.error('Error building sessions calendar:', error);
+    res.status(500).json({ success: false, error: 'Failed to build calendar', message: error.message });
+  }
+});
+
+router.get('/calendar/groups/:key.ics', async (req: Request, res: Response) => {
+  try {
+    const key = String(req.params.key).toLowerCase();
+    const [rawSessions, rawGroups] = await Promise.all([
+      sessionsRepository.getAll(),
+      groupsRepository.getAll(),
+    ]);
+    const spGroup = findGroupByKey(rawGroups, key);
+    if (!spGroup) {
+      res.status(404).json({ success: false, error: 'Group not found' });
+      return;
+    }
+    const groupSessions = rawSessions.filter(s => safeParseLookupId(s[GROUP_LOOKUP]) === spGroup.ID);
+    const events = sessionEvents(groupSessions, rawGroups, req);
+    sendCalendar(res, `dtv-${key}`, buildCalendar(`DTV ${spGroup.Name || spGroup.Title}`, events));
+  } catch (error: any) {
+    console.error('Error building group calendar:', error);
+    res.status(500).json({ success: false, error: 'Failed to build calendar', message: error.message });
+  }
+});
+
+router.get('/calendar/projects/:key.ics', async (req: Request, res: Response) => {
+  try {
+    const key = String(req.params.key).toLowerCase();
+    const [rawSessions, rawGroups, rawProjects] = await Promise.all([
+      sessionsRepository.getAll(),
+      groupsRepository.getAll(),
+      projectsRepository.getAll(),
+    ]);
+    const spProject = findProjectByKey(rawProjects, key);
+    if (!spProject) {
+      res.status(404).json({ success: false, error: 'Project not found' });
+      return;
+    }
+    const projectSessions = rawSessions.filter(s => safeParseLookupId(s[PROJECT_LOOKUP]) === spProject.ID);
+    const events = sessionEvents(projectSessions, rawGroups, req);
+    sendCalendar(res, `dtv-${key}`, buildCalendar(`DTV ${spProject.Name || spProject.Title}`, events));
+  } catch (error: any) {
+    console.error('Error building project calendar:', error);
+    res.status(500).json({ success: false, error: 'Failed to build calendar', message: error.message });
+  }
+});
+
+// Personal feed — the volunteer's own bookings. Token-addressed (no login); cancelled entries
+// drop out, waitlisted ones are marked TENTATIVE. A booking cancelled because the whole session
+// was called off stays in, marked CANCELLED.
+router.get('/calendar/profiles/:token.ics', async (req: Request, res: Response) => {
+  try {
+    const profileId = verifyCalendarFeedToken(String(req.params.token));
+    if (profileId === undefined) {
+      res.status(404).json({ success: false, error: 'Calendar not found' });
+      return;
+    }
+
+    const [rawProfiles, rawSessions, rawGroups, rawEntries] = await Promise.all([
+      profilesRepository.getAll(),
+      sessionsRepository.getAll(),
+      groupsRepository.getAll(),
+      entriesRepository.getByProfileId(profileId),
+    ]);
+    const spProfile = rawProfiles.find(p => p.ID === profileId);
+    if (!spProfile) {
+      res.status(404).json({ success: false, error: 'Calendar not found' });
+      return;
+    }
+
+    const activeEntries = rawEntries.filter(e => !e[ENTRY_CANCELLED]);
+    const sessionIdOf = (e: typeof activeEntries[number]) => safeParseLookupId(e[SESSION_LOOKUP]) ?? -1;
+    const bookedSessionIds = new Set(activeEntries.map(sessionIdOf));
+    const waitlistedSessionIds = new Set(activeEntries.filter(e => e[ENTRY_WAITLISTED]).map(sessionIdOf));
+    const sessionMap = new Map(rawSessions.map(s => [s.ID, s]));
+    for (const e of rawEntries) {
+      const spSession = sessionMap.get(sessionIdOf(e));
+      if (e[ENTRY_CANCELLED] && spSession && isSessionCancelled(spSession) &&
+          Date.parse(e[ENTRY_CANCELLED]) >= Date.parse(spSession[SESSION_CANCELLED])) {
+        bookedSessionIds.add(spSession.ID);
+      }
+    }
+    const bookedSessions = rawSessions.filter(s => bookedSessionIds.has(s.ID));
+
+    const events = sessionEvents(bookedSessions, rawGroups, req, waitlistedSessionIds);
+    sendCalendar(res, 'dtv-my-sessions', buildCalendar('My DTV Sessions', events), true);
+  } catch (error: any) {
+    console.error('Error building personal calendar:', error);
+    res.status(500).json({ success: false, error: 'Failed to build calendar', message: error.message });
+  }
+});
+
+export = router;
@@ -19,7 +19,7 @@ import {
   parseHours,
   profileSlug,
   parseEmails,
-  calculateSessionStats
+  isSessionCancelled
 } from '../services/data-layer';
 import { syncAttendeesForSession } from '../services/eventbrite-sync';
 import {
@@ -28,78 +28,34 @@ import {
   SESSION_STATS,
   PROFILE_LOOKUP, PROFILE_DISPLAY, PROFILE_STATS,
   ENTRY_CANCELLED,
+  ENTRY_WAITLISTED,
   ENTRY_LABELS,
   ENTRY_EVENTBRITE_ATTENDEE_ID,
+  ENTRY_ORGANISATION_LOOKUP,
   ACCOMPANYING_ADULT_LOOKUP
 } from '../services/field-names';
+import { OrganisationError, findOrCreateOrganisation, parseOrganisationName } from '../services/organisations';
 import { getAttendees, getCancelledAttendees } from '../services/eventbrite-client';
-import { sendEmail } from '../services/graph-mail';
+import { sendEmail } from '../services/mail-transport';
 import { renderEmail } from '../services/email-renderer';
 import { buildPreSessionVars, buildPostSessionVars } from '../services/email-vars';
+import { markSessionEmailSent } from '../services/session-email-scheduler';
 
 import { computeAndSaveProfileStats } from '../services/profile-stats';
-import { refreshSessionMediaStats } from '../services/session-stats';
+import { bookingFits, promoteFromWaitlist } from '../services/waitlist';
+import { emitEntryEvent } from '../services/webhooks';
+import { isGuardianOf } from '../services/guardianship';
+import { refreshSessionMediaStats, computeAndSaveSessionStats, preservedMediaFromStats } from '../services/session-stats';
 import multer from 'multer';
 import { sharePointClient } from '../services/sharepoint-client';
 import { mediaDriveId, exifDate, mediaFilename } from '../services/media-upload';
 
-import type { MediaStatus, EntryDetailResponse, EntryListItemResponse, RecentSignupResponse, EntryUploadContextResponse } from '../../types/api-responses';
+import type { MediaStatus, EntryDetailResponse, EntryListItemResponse, RecentSignupResponse, EntryUploadContextResponse, EntryVersionResponse } from '../../types/api-responses';
 import { trackerAccessForProfileUser } from '../services/tracker-access';
-import type { ApiResponse } from '../../types/sharepoint';
+import type { ApiResponse, SharePointEntry } from '../../types/sharepoint';
 
 const router: Router = express.Router();
 
-// Recomputes and saves the Stats field for a single session after an entry change.
-// Called as fire-and-forget after entry writes so the response isn't delayed.
-// preservedMedia is extracted from cached session Stats before the write clears the cache.
-async function computeAndSaveSessionStats(
-  sessionId: number,
-  preservedMedia: { media?: number; mediaStatus?: MediaStatus } = {},
-): Promise<void> {
-  const start = Date.now();
-  const [sessionEntries, profilesRaw] = await Promise.all([
-    entriesRepository.getBySessionIds([sessionId]),
-    profilesRepository.getAll()
-  ]);
-
-  const profileFirstSessionMap = new Map<number, number>();
-  for (const p of profilesRaw) {
-    try {
-      const ps = JSON.parse(p.Stats || '{}');
-      if (Array.isArray(ps.sessionIds) && ps.sessionIds.length > 0)
-        profileFirstSessionMap.set(p.ID, ps.sessionIds[0]);
-    } catch { /* malformed */ }
-  }
-
-  const statsMap = calculateSessionStats(sessionEntries, profileFirstSessionMap);
-  const entryStats = statsMap.get(String(sessionId));
-  const cancelledRegular = sessionEntries.filter(e => e[ENTRY_CANCELLED] && e.Labels?.includes('Regular')).length;
-  const statsPayload: Record<string, number | MediaStatus | undefined> = {
-    count: entryStats?.registrations || 0,
-    hours: entryStats ? Math.round(entryStats.hours * 10) / 10 : 0,
-    media: preservedMedia.media ?? 0,
-    new: entryStats?.newCount || 0,
-    child: entryStats?.childCount || 0,
-    regular: entryStats?.regularCount || 0,
-    cancelledRegular,
-    eventbrite: entryStats?.eventbriteCount || 0,
-  };
-  if (preservedMedia.mediaStatus !== undefined) {
-    statsPayload.mediaStatus = preservedMedia.mediaStatus;
-  }
-  await sessionsRepository.updateStats(sessionId, statsPayload);
-  console.log(`[Stats] Session ${sessionId} targeted stats update in ${Date.now() - start}ms`);
-}
-
-function preservedMediaFromStats(raw: string | undefined): { media?: number; mediaStatus?: MediaStatus } {
-  try {
-    const p = JSON.parse(raw || '{}');
-    return { media: p.media, mediaStatus: p.mediaStatus };
-  } catch {
-    return {};
-  }
-}
-
 const upload = multer({
   storage: multer.memoryStorage(),
   limits: { fileSize: 15 * 1024 * 1024, files: 10 }
@@ -110,19 +66,17 @@ const ALLOWED_MIME_TYPES = new Set([
   'video/mp4', 'video/quicktime', 'video/x-m4v'
 ]);
 
-async function entryProfileEmailsIncludeSessionEmail(
+/** A self-service user's own entry, or their linked child's (see services/guardianship.ts) */
+async function entryBelongsToSelfServiceUser(
   entryProfileId: number | undefined,
-  sessionEmail: string | undefined
+  user: NonNullable<Request['session']['user']>
 ): Promise<boolean> {
   if (entryProfileId === undefined) return false;
-  const normalized = sessionEmail?.trim().toLowerCase();
-  if (!normalized) return false;
   const profile = await profilesRepository.getById(entryProfileId);
-  if (!profile) return false;
-  return parseEmails(profile.Email).includes(normalized);
+  return entryBelongsToSelfServiceUserSync(profile ?? undefined, user);
 }
 
-/** When we already have the SharePoint profile row (e.g. from getAll), avoid an extra lookup */
+/** Whether the profile's Email list contains the session's login email */
 function entryProfileEmailsIncludeSessionEmailSync(
   rawProfile: { Email?: string } | undefined,
   sessionEmail: string | undefined
@@ -133,6 +87,22 @@ function entryProfileEmailsIncludeSessionEmailSync(
   return parseEmails(rawProfile.Email).includes(normalized);
 }
 
+/** When we already have the SharePoint profile row (e.g. from getAll), avoid an extra lookup */
+function entryBelongsToSelfServiceUserSync(
+  rawProfile: { Email?: string; GuardianLookupId?: number } | undefined,
+  user: NonNullable<Request['session']['user']>
+): boolean {
+  return entryProfileEmailsIncludeSessionEmailSync(rawProfile, user.email) || isGuardianOf(user, rawProfile);
+}
+
+function entryVersion(spEntry: SharePointEntry): EntryVersionResponse {
+  return {
+    modified: spEntry.Modified,
+    checkedIn: spEntry.Checked || false,
+    hours: parseHours(spEntry.Hours),
+    labels: spEntry[ENTRY_LABELS] || [],
+  };
+}
 
 router.get('/entries/recent', async (req: Request, res: Response) => {
   try {
@@ -353,6 +323,10 @@ router.post('/entries/bulk', async (req: Request, res: Response) => {
       res.status(400).json({ success: false, error: 'Session has already passed' });
       return;
     }
+    if (isSessionCancelled(spSession)) {
+      res.status(400).json({ success: false, error: 'Session has been cancelled' });
+      return;
+    }
 
     const profiles = validateArray(rawProfiles, validateProfile, 'Profile');
     const profileMap = new Map(profiles.map(p => [p.ID, p]));
@@ -368,8 +342,8 @@ router.post('/entries/bulk', async (req: Request, res: Response) => {
     );
 
     const preservedMedia = preservedMediaFromStats(spSession[SESSION_STATS]);
-    let created = 0;
     let skipped = 0;
+    const toBook: number[] = [];
 
     for (const profileId of requestedIds) {
       const profile = profileMap.get(profileId);
@@ -381,22 +355,34 @@ router.post('/entries/bulk', async (req: Request, res: Response) => {
         skipped++;
         continue;
       }
-      await entriesRepository.create({
-        [SESSION_LOOKUP]: String(sid),
-        [PROFILE_LOOKUP]: String(profileId),
-      });
       existingProfileIds.add(profileId);
+      toBook.push(profileId);
+    }
+
+    const results = await entriesRepository.createMany(toBook.map(profileId => ({
+      [SESSION_LOOKUP]: String(sid),
+      [PROFILE_LOOKUP]: String(profileId),
+    })));
+    let created = 0;
+    let failed = 0;
+    results.forEach((result, i) => {
+      const profileId = toBook[i];
+      if (!result.ok) {
+        failed++;
+        return;
+      }
       created++;
+      emitEntryEvent('entry.booked', { entryId: result.id, sessionId: sid, profileId, waitlisted: false });
       computeAndSaveProfileStats(profileId).catch(err =>
         console.error(`[Stats] Failed targeted profile update for profile ${profileId}:`, err)
       );
-    }
+    });
 
     computeAndSaveSessionStats(sid, preservedMedia).catch(err =>
       console.error(`[Stats] Failed session stats for bulk entries on session ${sid}:`, err)
     );
 
-    res.json({ success: true, data: { created, skipped } } as ApiResponse<{ created: number; skipped: number }>);
+    res.json({ success: true, data: { created, skipped, failed } } as ApiResponse<{ created: number; skipped: number; failed: number }>);
   } catch (error: any) {
     console.error('Error bulk creating entries:', error);
     res.status(500).json({ success: false, error: 'Failed to bulk create entries', message: error.message });
@@ -426,13 +412,14 @@ router.get('/entries/:id', async (req: Request, res: Response) => {
       return;
     }
 
-    // Self-service users may only view entries whose profile Email list contains their login email
+    // Self-service users may only view entries whose profile Email list contains their login email,
+    // or entries for a child they are the guardian of
     if (req.session.user?.role === 'selfservice') {
       const entryProfileId = safeParseLookupId(spEntry[PROFILE_LOOKUP]);
       const rawProfile = entryProfileId !== undefined
         ? (rawProfiles as any[]).find((p: any) => p.ID === entryProfileId)
         : undefined;
-      if (!entryProfileEmailsIncludeSessionEmailSync(rawProfile, req.session.user.email)) {
+      if (!entryBelongsToSelfServiceUserSync(rawProfile, req.session.user)) {
         res.status(403).json({ success: false, error: 'Not your entry' });
         return;
       }
@@ -524,7 +511,7 @@ router.patch('/entries/:id', async (req: Request, res: Response) => {
       return;
     }
 
-    const { checkedIn, count, hours, notes, accompanyingAdultId, cancelled, labels, eventbriteAttendeeId } = req.body;
+    const { checkedIn, count, hours, notes, accompanyingAdultId, cancelled, waitlisted, labels, eventbriteAttendeeId, organisation, expectedModified } = req.body;
 
     if (req.session.user?.role === 'selfservice') {
       for (const k of Object.keys(req.body ?? {})) {
@@ -544,7 +531,7 @@ router.patch('/entries/:id', async (req: Request, res: Response) => {
         return;
       }
       const entryProfileId = safeParseLookupId(spEntrySelf[PROFILE_LOOKUP]);
-      if (!(await entryProfileEmailsIncludeSessionEmail(entryProfileId, req.session.user.email))) {
+      if (!(await entryBelongsToSelfServiceUser(entryProfileId, req.session.user))) {
         res.status(403).json({ success: false, error: 'Not your entry' });
         return;
       }
@@ -575,6 +562,17 @@ router.patch('/entries/:id', async (req: Request, res: Response) => {
 
       if (Object.keys(selfFields).length > 0) {
         await entriesRepository.updateFields(entryId, selfFields);
+        emitEntryEvent('entry.cancelled', { entryId, sessionId: sessionIdSelf, profileId: entryProfileId });
+      }
+
+      // A confirmed place was freed — offer it to the waitlist before stats are recomputed
+      if (selfFields[ENTRY_CANCELLED] !== undefined && !spEntrySelf[ENTRY_WAITLISTED]) {
+        const base = process.env.FRONTEND_URL || `${req.protocol}://${req.get('host')}`;
+        try {
+          await promoteFromWaitlist(sessionIdSelf, base);
+        } catch (err: any) {
+          console.error(`[Waitlist] Promotion failed for session ${sessionIdSelf}:`, err.message);
+        }
       }
 
       if (sessionIdSelf !== undefined) {
@@ -617,6 +615,11 @@ router.patch('/entries/:id', async (req: Request, res: Response) => {
       }
     }
 
+    if (typeof waitlisted === 'boolean') {
+      // Manual waitlist moves bypass limits — staff can confirm someone over the limit
+      fields[ENTRY_WAITLISTED] = waitlisted ? new Date().toISOString() : null;
+    }
+
     if (typeof checkedIn === 'boolean') {
       fields.Checked = checkedIn;
     }
@@ -654,6 +657,11 @@ router.patch('/entries/:id', async (req: Request, res: Response) => {
         fields.AccompanyingAdultLookupId = null;
       }
     }
+    if (organisation !== undefined) {
+      // Employer for a CSR / work booking — named, so new organisations are created as they're typed
+      const name = parseOrganisationName(organisation);
+      fields[ENTRY_ORGANISATION_LOOKUP] = name ? (await findOrCreateOrganisation(name)).ID : null;
+    }
 
     const hasLabels = Array.isArray(labels);
     if (Object.keys(fields).length === 0 && !hasLabels) {
@@ -663,6 +671,19 @@ router.patch('/entries/:id', async (req: Request, res: Response) => {
 
     // Read session ID + existing media count — direct Graph calls, bypass cache entirely
     const spEntry = await entriesRepository.getById(entryId);
+
+    // Optimistic concurrency: the check-in page sends the Modified it last saw (offline replays
+    // in particular) and gets a 409 with the current state if someone else has changed the entry since.
+    const checkVersion = typeof expectedModified === 'string';
+    if (checkVersion && spEntry && spEntry.Modified !== expectedModified) {
+      res.status(409).json({
+        success: false,
+        error: 'Entry has been changed by someone else',
+        data: entryVersion(spEntry)
+      });
+      return;
+    }
+
     const sessionId = spEntry ? safeParseLookupId(spEntry[SESSION_LOOKUP]) : undefined;
     let preservedMedia: { media?: number; mediaStatus?: MediaStatus } = {};
     if (sessionId !== undefined) {
@@ -680,20 +701,45 @@ router.patch('/entries/:id', async (req: Request, res: Response) => {
       await entriesRepository.updateLabels(entryId, labels);
     }
 
+    const eventInput = { entryId, sessionId, profileId };
+    if (typeof fields[ENTRY_CANCELLED] === 'string') emitEntryEvent('entry.cancelled', eventInput);
+    if (fields.Checked === true && !spEntry?.Checked) emitEntryEvent('entry.checked_in', eventInput);
+
+    // Same as a self-service cancel: a freed confirmed place goes to the waitlist before stats are recomputed
+    if (sessionId !== undefined && typeof fields[ENTRY_CANCELLED] === 'string' && !spEntry?.[ENTRY_WAITLISTED] && !fields[ENTRY_WAITLISTED]) {
+      const base = process.env.FRONTEND_URL || `${req.protocol}://${req.get('host')}`;
+      try {
+        await promoteFromWaitlist(sessionId, base);
+      } catch (err: any) {
+        console.error(`[Waitlist] Promotion failed for session ${sessionId}:`, err.message);
+      }
+    }
+
     if (sessionId !== undefined) {
       computeAndSaveSessionStats(sessionId, preservedMedia).catch(err =>
         console.error(`[Stats] Failed session stats for entry ${entryId}:`, err)
       );
     }
-    // Hours changes and cancellations affect profile stats
-    if (profileId !== undefined && (fields.Hours !== undefined || fields[ENTRY_CANCELLED] !== undefined)) {
+    // Hours changes, cancellations and waitlist moves affect profile stats
+    if (profileId !== undefined && (fields.Hours !== undefined || fields[ENTRY_CANCELLED] !== undefined || fields[ENTRY_WAITLISTED] !== undefined)) {
       computeAndSaveProfileStats(profileId).catch(err =>
         console.error(`[Stats] Failed targeted profile update for profile ${profileId}:`, err)
       );
     }
 
+    if (checkVersion) {
+      const updated = await entriesRepository.getById(entryId);
+      if (updated) {
+        res.json({ success: true, data: entryVersion(updated) } as ApiResponse<EntryVersionResponse>);
+        return;
+      }
+    }
     res.json({ success: true } as ApiResponse<void>);
   } catch (error: any) {
+    if (error instanceof OrganisationError) {
+      res.status(error.statusCode).json({ success: false, error: error.message });
+      return;
+    }
     console.error('Error updating entry:', error);
     res.status(500).json({
       success: false,
@@ -740,6 +786,7 @@ router.delete('/entries/:id', async (req: Request, res: Response) => {
     const profileId = safeParseLookupId(entry[PROFILE_LOOKUP]);
 
     await entriesRepository.delete(entryId);
+    emitEntryEvent('entry.deleted', { entryId, sessionId, profileId });
 
     if (sessionId !== undefined) {
       computeAndSaveSessionStats(sessionId, preservedMedia).catch(err =>
@@ -792,6 +839,10 @@ router.post('/sessions/:group/:date/entries', async (req: Request, res: Response
       res.status(404).json({ success: false, error: 'Session not found' });
       return;
     }
+    if (isSessionCancelled(spSession)) {
+      res.status(400).json({ success: false, error: 'Session has been cancelled' });
+      return;
+    }
 
     const profiles = validateArray(rawProfiles, validateProfile, 'Profile');
     const profile = profiles.find(p => p.ID === volunteerId);
@@ -800,6 +851,8 @@ router.post('/sessions/:group/:date/entries', async (req: Request, res: Response
       return;
     }
 
+    // Limits are enforced on self-service bookings only — admin and check-in can always add people
+    let waitlisted = false;
     if (req.session.user?.role === 'selfservice') {
       // Self-service users may only create entries for a Profile whose Email list contains their login email
       if (!entryProfileEmailsIncludeSessionEmailSync(profile as any, req.session.user.email)) {
@@ -819,6 +872,8 @@ router.post('/sessions/:group/:date/entries', async (req: Request, res: Response
         res.status(409).json({ success: false, error: 'Already registered for this session' });
         return;
       }
+      // Over the session's limits: still accept the booking, but on the waitlist
+      waitlisted = !(await bookingFits(spSession, volunteerId, sessionEntries));
     }
 
     const fields: Record<string, any> = {
@@ -827,10 +882,12 @@ router.post('/sessions/:group/:date/entries', async (req: Request, res: Response
     };
     const entryNotes = typeof notes === 'string' && notes.trim() ? notes : undefined;
     if (entryNotes) fields.Notes = entryNotes;
+    if (waitlisted) fields[ENTRY_WAITLISTED] = new Date().toISOString();
 
     const preservedMedia = preservedMediaFromStats(spSession[SESSION_STATS]);
 
     const id = await entriesRepository.create(fields);
+    emitEntryEvent('entry.booked', { entryId: id, sessionId: spSession.ID, profileId: volunteerId, waitlisted });
 
     computeAndSaveSessionStats(spSession.ID, preservedMedia).catch(err =>
       console.error(`[Stats] Failed session stats for entry ${id}:`, err)
@@ -839,7 +896,7 @@ router.post('/sessions/:group/:date/entries', async (req: Request, res: Response
       console.error(`[Stats] Failed targeted profile update for profile ${volunteerId}:`, err)
     );
 
-    res.json({ success: true, data: { id } });
+    res.json({ success: true, data: { id, waitlisted } });
   } catch (error: any) {
     console.error('Error creating entry:', error);
     res.status(500).json({
@@ -881,6 +938,11 @@ router.post('/sessions/:group/:date/refresh', async (req: Request, res: Response
       res.status(400).json({ success: false, error: 'Cannot refresh a past session' });
       return;
     }
+    // Regulars and Eventbrite attendees would be booked back onto a called-off session
+    if (isSessionCancelled(spSession)) {
+      res.status(400).json({ success: false, error: 'Session has been cancelled' });
+      return;
+    }
 
     const entries = validateArray(rawEntries, validateEntry, 'Entry');
     const profiles = validateArray(rawProfiles, validateProfile, 'Profile');
@@ -909,7 +971,8 @@ router.post('/sessions/:group/:date/refresh', async (req: Request, res: Response
         const regularAdultId = safeParseLookupId(regular.AccompanyingAdultLookupId);
         if (regularAdultId !== undefined) entryFields[ACCOMPANYING_ADULT_LOOKUP] = String(regularAdultId);
         if (isFutureSession) entryFields[ENTRY_LABELS] = ['Regular'];
-        await entriesRepository.create(entryFields);
+        const entryId = await entriesRepository.create(entryFields);
+        emitEntryEvent('entry.booked', { entryId, sessionId: spSession.ID, profileId: vid, waitlisted: false });
         existingVolunteerIds.add(vid);
         addedRegulars++;
       } else {
@@ -1050,6 +1113,9 @@ router.delete('/sessions/:group/:date/unchecked-entries', async (req: Request, r
       .filter((id): id is number => id !== undefined);
 
     await Promise.all(unchecked.map(e => entriesRepository.delete(e.ID)));
+    for (const e of unchecked) {
+      emitEntryEvent('entry.deleted', { entryId: e.ID, sessionId: spSession.ID, profileId: safeParseLookupId(e[PROFILE_LOOKUP]) });
+    }
 
     if (unchecked.length > 0) {
       computeAndSaveSessionStats(spSession.ID, preservedMedia).catch(err =>
@@ -1097,7 +1163,7 @@ router.get('/entries/:id/upload-context', async (req: Request, res: Response) =>
       : undefined;
 
     if (req.session.user?.role === 'selfservice') {
-      if (!entryProfileEmailsIncludeSessionEmailSync(rawProfileRow, req.session.user.email)) {
+      if (!entryBelongsToSelfServiceUserSync(rawProfileRow, req.session.user)) {
         res.status(403).json({ success: false, error: 'Not your entry' });
         return;
       }
@@ -1167,7 +1233,7 @@ router.post('/entries/:id/photos', upload.array('photos', 10), async (req: Reque
       : undefined;
 
     if (req.session.user?.role === 'selfservice') {
-      if (!entryProfileEmailsIncludeSessionEmailSync(rawProfileRowPhotos, req.session.user.email)) {
+      if (!entryBelongsToSelfServiceUserSync(rawProfileRowPhotos, req.session.user)) {
         res.status(403).json({ success: false, error: 'Not your entry' });
         return;
       }
@@ -1305,6 +1371,13 @@ router.post('/entries/:entryId/notify', async (req: Request, res: Response) => {
 
     await sendEmail({ to: toEmail, subject, html, text });
 
+    // Stops the nightly scheduler sending the same email again
+    if (!preview) {
+      await markSessionEmailSent(spEntry, templateName).catch(err =>
+        console.error(`[Session Emails] Failed to record ${templateName} on entry ${entryId}:`, err.message)
+      );
+    }
+
     res.json({ success: true, data: { sent: 1 } } as ApiResponse<{ sent: number }>);
   } catch (error: any) {
     console.error('Error sending entry notify email:', error);
@@ -0,0 +1,106 @@
+import express, { Request, Response, Router } from 'express';
+import { eventbriteQuestionsRepository } from '../services/repositories/eventbrite-questions-repository';
+import {
+  EventbriteQuestionError,
+  loadQuestionMappings,
+  questionMappingFields,
+  toQuestionMapping
+} from '../services/eventbrite-questions';
+import type { ApiResponse } from '../../types/sharepoint';
+import type { EventbriteQuestionMappingResponse } from '../../types/api-responses';
+
+const router: Router = express.Router();
+
+function requireConfigured(res: Response): boolean {
+  if (eventbriteQuestionsRepository.configured) return true;
+  res.status(503).json({ success: false, error: 'Eventbrite question mappings are not configured (EVENTBRITE_QUESTIONS_LIST_GUID)' });
+  return false;
+}
+
+function parseId(req: Request, res: Response): number | undefined {
+  const id = parseInt(String(req.params.id), 10);
+  if (isNaN(id)) {
+    res.status(400).json({ success: false, error: 'Invalid mapping ID' });
+    return undefined;
+  }
+  return id;
+}
+
+// GET /api/eventbrite/questions — admin only (ADMIN_ONLY_GET_PATTERNS in require-admin.ts)
+// The mappings the sync uses; the built-in consent questions (no IDs) when the list isn't configured.
+router.get('/eventbrite/questions', async (req: Request, res: Response) => {
+  try {
+    const data = await loadQuestionMappings();
+    res.json({ success: true, count: data.length, data, configured: eventbriteQuestionsRepository.configured } as ApiResponse<EventbriteQuestionMappingResponse[]> & { configured: boolean });
+  } catch (error: any) {
+    console.error('Error fetching Eventbrite question mappings:', error);
+    res.status(500).json({ success: false, error: 'Failed to fetch question mappings', message: error.message });
+  }
+});
+
+// POST /api/eventbrite/questions — { title, questionId?, target, recordType | fieldName | label, yesAnswers?, required? }
+router.post('/eventbrite/questions', async (req: Request, res: Response) => {
+  try {
+    if (!requireConfigured(res)) return;
+    const id = await eventbriteQuestionsRepository.create(questionMappingFields(req.body));
+    const created = await eventbriteQuestionsRepository.getById(id);
+    res.status(201).json({ success: true, data: toQuestionMapping(created!) } as ApiResponse<EventbriteQuestionMappingResponse>);
+  } catch (error: any) {
+    if (error instanceof EventbriteQuestionError) {
+      res.status(error.statusCode).json({ success: false, error: error.message });
+      return;
+    }
+    console.error('Error creating Eventbrite question mapping:', error);
+    res.status(500).json({ success: false, error: 'Failed to create question mapping', message: error.message });
+  }
+});
+
+// PATCH /api/eventbrite/questions/:id — any of the POST fields
+router.patch('/eventbrite/questions/:id', async (req: Request, res: Response) => {
+  try {
+    if (!requireConfigured(res)) return;
+    const id = parseId(req, res);
+    if (id === undefined) return;
+    const item = await eventbriteQuestionsRepository.getById(id);
+    if (!item) {
+      res.status(404).json({ success: false, error: 'Mapping not found' });
+      return;
+    }
+    const fields = questionMappingFields(req.body, toQuestionMapping(item));
+    if (Object.keys(fields).length === 0) {
+      res.status(400).json({ success: false, error: 'No valid fields to update' });
+      return;
+    }
+
+    await eventbriteQuestionsRepository.update(id, fields);
+    const updated = await eventbriteQuestionsRepository.getById(id);
+    res.json({ success: true, data: toQuestionMapping(updated!) } as ApiResponse<EventbriteQuestionMappingResponse>);
+  } catch (error: any) {
+    if (error instanceof EventbriteQuestionError) {
+      res.status(error.statusCode).json({ success: false, error: error.message });
+      return;
+    }
+    console.error('Error updating Eventbrite question mapping:', error);
+    res.status(500).json({ success: false, error: 'Failed to update question mapping', message: error.message });
+  }
+});
+
+router.delete('/eventbrite/questions/:id', async (req: Request, res: Response) => {
+  try {
+    if (!requireConfigured(res)) return;
+    const id = parseId(req, res);
+    if (id === undefined) return;
+    if (!(await eventbriteQuestionsRepository.getById(id))) {
+      res.status(404).json({ success: false, error: 'Mapping not found' });
+      return;
+    }
+
+    await eventbriteQuestionsRepository.delete(id);
+    res.json({ success: true } as ApiResponse<void>);
+  } catch (error: any) {
+    console.error('Error deleting Eventbrite question mapping:', error);
+    res.status(500).json({ success: false, error: 'Failed to delete question mapping', message: error.message });
+  }
+});
+
+export = router;
@@ -5,20 +5,35 @@ import { entriesRepository } from '../services/repositories/entries-repository';
 import { profilesRepository } from '../services/repositories/profiles-repository';
 import { recordsRepository } from '../services/repositories/records-repository';
 import { regularsRepository } from '../services/repositories/regulars-repository';
-import { validateArray, validateSession, validateEntry, validateProfile, validateGroup, safeParseLookupId } from '../services/data-layer';
+import { validateArray, validateSession, validateEntry, validateProfile, validateGroup, safeParseLookupId, isSessionCancelled } from '../services/data-layer';
 import { GROUP_LOOKUP, SESSION_LOOKUP } from '../services/field-names';
 import { getAttendees, getOrgEvents, getEventConfigCheck, getCancelledAttendees, EventbriteConfigCheck } from '../services/eventbrite-client';
-import { syncAttendeesForSession } from '../services/eventbrite-sync';
+import { syncAttendeesForSession, EventbriteSyncPlan } from '../services/eventbrite-sync';
+import {
+  EventSyncQueue, syncEventbriteEvent, verifyWebhookRequest, resolveWebhookEventId, isWebhookConfigured,
+  HANDLED_WEBHOOK_ACTIONS, type EventbriteWebhookAction, type EventbriteWebhookPayload
+} from '../services/eventbrite-webhook';
 import { runSessionStatsRefresh } from '../services/session-stats';
+import { sessionEventConflicts } from '../services/eventbrite-push';
+import { loadQuestionMappings } from '../services/eventbrite-questions';
 import { runProfileStatsRefresh } from '../services/profile-stats';
 import { runBackupExport } from '../services/backup-export';
+import { runScheduledSessionEmails, type ScheduledEmailResult } from '../services/session-email-scheduler';
+import { runRegularRsvpEmails, type RsvpEmailResult } from '../services/regular-rsvp';
+import { pruneVerificationStore } from '../services/verification-store';
 import { sharePointClient } from '../services/sharepoint-client';
+import { NightlyRunRecorder, recordNightlyRun, nightlyRunLog } from '../services/nightly-runs';
+import type { ApiResponse } from '../../types/sharepoint';
+import type { NightlyRunResponse, EventbriteSyncDryRunResponse } from '../../types/api-responses';
 
 const router: Router = express.Router();
 
 // Prevent concurrent sync runs (e.g. Logic App retry arriving while first run still in progress)
 let syncInProgress = false;
 
+// Webhook-triggered per-event syncs wait while a full sync runs; full syncs wait for running ones to finish
+const webhookQueue = new EventSyncQueue(syncEventbriteEvent, { isBlocked: () => syncInProgress });
+
 interface SyncSessionsResult {
   totalEvents: number;
   matchedEvents: number;
@@ -29,12 +44,16 @@ interface SyncAttendeesResult {
   sessionsProcessed: number;
   newProfiles: number;
   newEntries: number;
+  updatedEntries: number;
   newRecords: number;
   updatedRecords: number;
   cancelledEntries: number;
+  clashProfiles: number;
+  updatedProfiles: number;
 }
 
-async function runSyncSessions(): Promise<SyncSessionsResult> {
+// With a plan (?dryRun=true) nothing is written — the sessions that would be created are collected in it
+async function runSyncSessions(plan?: EventbriteSyncPlan): Promise<SyncSessionsResult> {
   const [orgEvents, rawGroups, rawSessions] = await Promise.all([
     getOrgEvents(),
     groupsRepository.getAll(),
@@ -69,21 +88,27 @@ async function runSyncSessions(): Promise<SyncSessionsResult> {
     if (!dateStr) continue;
 
     const title = `${dateStr} ${group.Title || ''}`.trim();
-    await sessionsRepository.create({
-      Title: title,
-      Date: `${dateStr}T12:00:00Z`,
-      [GROUP_LOOKUP]: String(group.ID),
-      EventbriteEventID: event.id
-    });
+    if (plan) {
+      plan.add({ action: 'create-session', eventId: event.id, date: dateStr, name: title });
+    } else {
+      await sessionsRepository.create({
+        Title: title,
+        Date: `${dateStr}T12:00:00Z`,
+        [GROUP_LOOKUP]: String(group.ID),
+        EventbriteEventID: event.id
+      });
+    }
     existingEventIds.add(event.id);
     newSessions++;
   }
 
-  console.log(`[Eventbrite Sync] Sessions: ${orgEvents.length} total events, ${matchedEvents} matched, ${newSessions} new sessions`);
+  console.log(`[Eventbrite Sync]${plan ? ' Dry run —' : ''} Sessions: ${orgEvents.length} total events, ${matchedEvents} matched, ${newSessions} new sessions`);
   return { totalEvents: orgEvents.length, matchedEvents, newSessions };
 }
 
-async function runSyncAttendees(): Promise<SyncAttendeesResult> {
+// With a plan (?dryRun=true) nothing is written; the sync works on copies of the cached lists,
+// which it mutates as it goes, and collects the intended writes in the plan
+async function runSyncAttendees(plan?: EventbriteSyncPlan): Promise<SyncAttendeesResult> {
   const [sessionsRaw, entriesRaw, profilesRaw] = await Promise.all([
     sessionsRepository.getAll(),
     entriesRepository.getAll(),
@@ -91,19 +116,20 @@ async function runSyncAttendees(): Promise<SyncAttendeesResult> {
   ]);
 
   const sessions = validateArray(sessionsRaw, validateSession, 'Session');
-  const entries = validateArray(entriesRaw, validateEntry, 'Entry');
-  const profiles = validateArray(profilesRaw, validateProfile, 'Profile');
+  const entries = validateArray(plan ? structuredClone(entriesRaw) : entriesRaw, validateEntry, 'Entry');
+  const profiles = validateArray(plan ? structuredClone(profilesRaw) : profilesRaw, validateProfile, 'Profile');
 
   const sessionDateMap = new Map<number, string>(
     sessions.map(s => [s.ID, (s.Date || '').substring(0, 10)])
   );
 
-  // Process sessions with Eventbrite IDs that are today or future, chronologically
+  // Process sessions with Eventbrite IDs that are today or future, chronologically.
+  // Called-off sessions are skipped so their attendees aren't booked back on.
   const today = new Date();
   today.setHours(0, 0, 0, 0);
   const liveSessions = sessions
     .filter(s => {
-      if (!s.EventbriteEventID || !s.Date) return false;
+      if (!s.EventbriteEventID || !s.Date || isSessionCancelled(s)) return false;
       const d = new Date(s.Date);
       d.setHours(0, 0, 0, 0);
       return d >= today;
@@ -114,11 +140,15 @@ async function runSyncAttendees(): Promise<SyncAttendeesResult> {
 
   let newProfiles = 0;
   let newEntries = 0;
+  let updatedEntries = 0;
   let newRecords = 0;
   let updatedRecords = 0;
   let cancelledEntries = 0;
+  let clashProfiles = 0;
+  let updatedProfiles = 0;
 
-  const allRecords = await recordsRepository.getAll();
+  const cachedRecords = await recordsRepository.getAll();
+  const allRecords = plan ? structuredClone(cachedRecords) : cachedRecords;
 
   for (const session of liveSessions) {
     const attendees = await getAttendees(session.EventbriteEventID!);
@@ -129,16 +159,19 @@ async function runSyncAttendees(): Promise<SyncAttendeesResult> {
     if (cancelledAttendees.length > 0)
       console.log(`[Eventbrite Sync] Session ${session.ID}: ${cancelledAttendees.length} cancelled attendees to check`);
 
-    const result = await syncAttendeesForSession(session.ID, attendees, sessionEntries, profiles, allRecords, sessionDateMap, cancelledAttendees);
+    const result = await syncAttendeesForSession(session.ID, attendees, sessionEntries, profiles, allRecords, sessionDateMap, cancelledAttendees, plan);
     newProfiles += result.newProfiles;
     newEntries += result.newEntries;
+    updatedEntries += result.updatedEntries;
     newRecords += result.newRecords;
     updatedRecords += result.updatedRecords;
     cancelledEntries += result.cancelledEntries;
+    clashProfiles += result.clashProfiles;
+    updatedProfiles += result.updatedProfiles;
   }
 
-  console.log(`[Eventbrite Sync] Done: ${liveSessions.length} sessions, ${newProfiles} new profiles, ${newEntries} new entries, ${cancelledEntries} cancelled, ${newRecords} new records, ${updatedRecords} updated records`);
-  return { sessionsProcessed: liveSessions.length, newProfiles, newEntries, newRecords, updatedRecords, cancelledEntries };
+  console.log(`[Eventbrite Sync]${plan ? ' Dry run —' : ''} Done: ${liveSessions.length} sessions, ${newProfiles} new profiles (${clashProfiles} name clash), ${newEntries} new entries, ${updatedEntries} updated entries, ${cancelledEntries} cancelled, ${newRecords} new records, ${updatedRecords} updated records, ${updatedProfiles} profiles given answers`);
+  return { sessionsProcessed: liveSessions.length, newProfiles, newEntries, updatedEntries, newRecords, updatedRecords, cancelledEntries, clashProfiles, updatedProfiles };
 }
 
 const WARMUP_KEYS = ['groups', 'sessions', 'profiles', 'regulars'] as const;
@@ -164,19 +197,44 @@ async function handleNightlyUpdate(req: Request, res: Response): Promise<void> {
   }
   syncInProgress = true;
   const cacheBeforeSync = snapshotCacheState();
+  const run = new NightlyRunRecorder();
   try {
-    const sessionResult = await runSyncSessions();
-    const attendeeResult = await runSyncAttendees();
-    const profileStatsResult = await runProfileStatsRefresh();
-    const sessionStatsResult = await runSessionStatsRefresh();
-    const backupResult = await runBackupExport();
+    await webhookQueue.idle();
+    const sessionResult = await run.step('sync-sessions', runSyncSessions, r => ({ newSessions: r.newSessions }));
+    const attendeeResult = await run.step('sync-attendees', runSyncAttendees, r => ({
+      newProfiles: r.newProfiles,
+      clashProfiles: r.clashProfiles,
+      newEntries: r.newEntries,
+      updatedEntries: r.updatedEntries,
+      cancelledEntries: r.cancelledEntries,
+      newRecords: r.newRecords,
+      updatedRecords: r.updatedRecords,
+      updatedProfiles: r.updatedProfiles,
+    }));
+    const profileStatsResult = await run.step('profile-stats', runProfileStatsRefresh, r => ({ profileStatsUpdated: r.updated, errors: r.errors.length }));
+    const sessionStatsResult = await run.step('session-stats', runSessionStatsRefresh, r => ({ sessionStatsUpdated: r.updated, errors: r.errors.length }));
+
+    // After the attendee sync and stats so tonight's new bookings and hours are included
+    const emailResult: ScheduledEmailResult | null = await run.optionalStep('session-emails',
+      () => runScheduledSessionEmails(process.env.FRONTEND_URL || `${req.protocol}://${req.get('host')}`),
+      r => ({ emailsSent: r.sent, errors: r.failed })
+    );
+
+    const rsvpResult: RsvpEmailResult | null = await run.optionalStep('regular-rsvp',
+      () => runRegularRsvpEmails(process.env.FRONTEND_URL || `${req.protocol}://${req.get('host')}`),
+      r => ({ emailsSent: r.sent, regularsBooked: r.booked, errors: r.failed })
+    );
+
+    await run.optionalStep('prune-verification', async () => {
+      const pruned = await pruneVerificationStore();
+      if (pruned) console.log(`[Nightly Update] Pruned ${pruned} expired sign-in code / email limit record(s)`);
+      return pruned;
+    });
+
+    const backupResult = await run.step('backup', runBackupExport, r => ({ backupFilesUpdated: r.updated.length, snapshotsPruned: r.pruned.length }));
 
     const cacheBeforeWarmup = snapshotCacheState();
-    try {
-      await runCacheWarmup();
-    } catch (warmupError: any) {
-      console.warn('[Nightly Update] Cache warmup failed (non-fatal):', warmupError.message);
-    }
+    await run.optionalStep('cache-warmup', runCacheWarmup);
 
     const cacheStateLine = [
       `before sync: ${WARMUP_KEYS.map(k => `${k} ${cacheBeforeSync[k] ? 'warm' : 'cold'}`).join(', ')}`,
@@ -186,18 +244,27 @@ async function handleNightlyUpdate(req: Request, res: Response): Promise<void> {
     const profileIdsStr = profileStatsResult.updatedIds.length ? ` (${profileStatsResult.updatedIds.join(', ')})` : '';
     const parts = [
       `${sessionResult.totalEvents} events, ${sessionResult.matchedEvents} matched, ${sessionResult.newSessions} new sessions / ${attendeeResult.sessionsProcessed} sessions`,
-      `${attendeeResult.newProfiles} new profiles, ${attendeeResult.newEntries} new entries, ${attendeeResult.cancelledEntries} cancelled, ${attendeeResult.newRecords} new consent records, ${attendeeResult.updatedRecords} updated consent records`,
+      `${attendeeResult.newProfiles} new profiles${attendeeResult.clashProfiles ? ` (${attendeeResult.clashProfiles} name clash)` : ''}, ${attendeeResult.newEntries} new entries, ${attendeeResult.updatedEntries} updated entries, ${attendeeResult.cancelledEntries} cancelled, ${attendeeResult.newRecords} new records, ${attendeeResult.updatedRecords} updated records${attendeeResult.updatedProfiles ? `, ${attendeeResult.updatedProfiles} profiles given answers` : ''}`,
       `Profile stats: ${profileStatsResult.updated}/${profileStatsResult.total} updated${profileStatsResult.errors.length ? `, ${profileStatsResult.errors.length} error(s)` : ''}${profileIdsStr}`,
       `Session stats: ${sessionStatsResult.updated}/${sessionStatsResult.total} updated${sessionStatsResult.errors.length ? `, ${sessionStatsResult.errors.length} error(s)` : ''}${sessionIdsStr}`,
-      backupResult.updated.length ? `Backup: ${backupResult.updated.join(', ')} updated` : 'Backup: no changes',
+      emailResult
+        ? `Session emails: ${emailResult.sent} sent${emailResult.failed ? `, ${emailResult.failed} failed` : ''}`
+        : 'Session emails: failed',
+      rsvpResult
+        ? `Regular RSVPs: ${rsvpResult.sent} sent${rsvpResult.booked ? `, ${rsvpResult.booked} regulars booked` : ''}${rsvpResult.failed ? `, ${rsvpResult.failed} failed` : ''}`
+        : 'Regular RSVPs: failed',
+      `${backupResult.updated.length ? `Backup: ${backupResult.updated.join(', ')} updated` : 'Backup: no changes'}, snapshot ${backupResult.snapshot}${backupResult.pruned.length ? `, ${backupResult.pruned.length} old snapshot(s) pruned` : ''}`,
       `Cache at start: ${cacheStateLine}`
     ];
     const summary = parts.join('<br>\n');
 
     console.log(`[Nightly Update] ${summary}`);
-    res.json({ success: true, data: { summary, sessions: sessionResult, attendees: attendeeResult, profileStats: profileStatsResult, sessionStats: sessionStatsResult, backup: backupResult, cache: { beforeSync: cacheBeforeSync, beforeWarmup: cacheBeforeWarmup } } });
+    const record = run.finish(summary);
+    await recordNightlyRun(record);
+    res.json({ success: true, data: { runId: record.id, status: record.status, summary, sessions: sessionResult, attendees: attendeeResult, profileStats: profileStatsResult, sessionStats: sessionStatsResult, sessionEmails: emailResult, regularRsvps: rsvpResult, backup: backupResult, cache: { beforeSync: cacheBeforeSync, beforeWarmup: cacheBeforeWarmup } } });
   } catch (error: any) {
     console.error('Error running nightly update:', error);
+    await recordNightlyRun(run.finish(undefined, error.message || 'Failed to run nightly update'));
     res.status(500).json({
       success: false,
       error: error.message || 'Failed to run nightly update'
@@ -209,7 +276,86 @@ async function handleNightlyUpdate(req: Request, res: Response): Promise<void> {
 
 router.post('/eventbrite/nightly-update', handleNightlyUpdate);
 
+// GET /api/eventbrite/nightly-runs?limit=30 — admin only (ADMIN_ONLY_GET_PATTERNS in require-admin.ts)
+// Recent nightly runs, newest first, with per-step timings and counts.
+router.get('/eventbrite/nightly-runs', async (req: Request, res: Response) => {
+  try {
+    let limit = 30;
+    if (typeof req.query.limit === 'string' && req.query.limit) {
+      limit = parseInt(req.query.limit, 10);
+      if (isNaN(limit) || limit < 1) {
+        res.status(400).json({ success: false, error: 'limit must be a positive number' });
+        return;
+      }
+      limit = Math.min(limit, 365);
+    }
+    const data = await nightlyRunLog().recent(limit);
+    res.json({ success: true, count: data.length, data } as ApiResponse<NightlyRunResponse[]>);
+  } catch (error: any) {
+    console.error('Error fetching nightly runs:', error);
+    res.status(500).json({ success: false, error: 'Failed to fetch nightly runs', message: error.message });
+  }
+});
+
+// POST /api/eventbrite/webhook — called by Eventbrite, no session or API key.
+// Verified by EVENTBRITE_WEBHOOK_SECRET (signature header or ?token=); see services/eventbrite-webhook.ts.
+// Responds as soon as the sync is queued; other actions (including Eventbrite's test ping) get 200 and are ignored.
+router.post('/eventbrite/webhook', async (req: Request, res: Response) => {
+  if (!isWebhookConfigured()) {
+    res.status(503).json({ success: false, error: 'Eventbrite webhook is not configured (EVENTBRITE_WEBHOOK_SECRET)' });
+    return;
+  }
+  const rawBody = (req as Request & { rawBody?: Buffer }).rawBody;
+  const signature = req.get('x-eventbrite-signature');
+  const token = typeof req.query.token === 'string' ? req.query.token : undefined;
+  if (!verifyWebhookRequest(rawBody, signature, token)) {
+    console.warn('[Eventbrite Webhook] Rejected request with missing or invalid signature');
+    res.status(401).json({ success: false, error: 'Invalid signature' });
+    return;
+  }
+
+  const payload = (req.body ?? {}) as EventbriteWebhookPayload;
+  const action = payload.config?.action;
+  if (!action || !HANDLED_WEBHOOK_ACTIONS.includes(action as EventbriteWebhookAction) || !payload.api_url) {
+    res.json({ success: true, data: { action: action ?? null, ignored: true } });
+    return;
+  }
+
+  try {
+    const eventId = await resolveWebhookEventId(payload.api_url);
+    if (!eventId) {
+      res.status(400).json({ success: false, error: `Unrecognised api_url: ${payload.api_url}` });
+      return;
+    }
+    const queued = webhookQueue.schedule(eventId);
+    console.log(`[Eventbrite Webhook] ${action} for event ${eventId}${queued ? '' : ' (merged into pending sync)'}`);
+    res.json({ success: true, data: { action, eventId, queued } });
+  } catch (error: any) {
+    console.error('Error handling Eventbrite webhook:', error);
+    res.status(500).json({ success: false, error: 'Failed to handle Eventbrite webhook', message: error.message });
+  }
+});
+
+function isDryRun(req: Request): boolean {
+  return req.query.dryRun === 'true';
+}
+
+// POST /api/eventbrite/sync-attendees[?dryRun=true]
+// A dry run writes nothing and skips the stats refresh; it returns the intended changes instead.
+// It doesn't take the sync lock, so it can run alongside the nightly update.
 router.post('/eventbrite/sync-attendees', async (req: Request, res: Response) => {
+  if (isDryRun(req)) {
+    try {
+      const plan = new EventbriteSyncPlan();
+      const result = await runSyncAttendees(plan);
+      const data: EventbriteSyncDryRunResponse<SyncAttendeesResult> = { dryRun: true, result, changes: plan.changes };
+      res.json({ success: true, data });
+    } catch (error: any) {
+      console.error('Error planning Eventbrite attendee sync:', error);
+      res.status(500).json({ success: false, error: error.message || 'Failed to plan attendee sync' });
+    }
+    return;
+  }
   if (syncInProgress) {
     console.warn('[Eventbrite Sync] Rejected concurrent request — sync already in progress');
     res.status(409).json({ success: false, error: 'Sync already in progress' });
@@ -217,6 +363,7 @@ router.post('/eventbrite/sync-attendees', async (req: Request, res: Response) =>
   }
   syncInProgress = true;
   try {
+    await webhookQueue.idle();
     const attendees = await runSyncAttendees();
     const profileStatsResult = await runProfileStatsRefresh();
     const sessionStatsResult = await runSessionStatsRefresh();
@@ -232,7 +379,20 @@ router.post('/eventbrite/sync-attendees', async (req: Request, res: Response) =>
   }
 });
 
+// POST /api/eventbrite/sync-sessions[?dryRun=true] — a dry run returns the sessions that would be created
 router.post('/eventbrite/sync-sessions', async (req: Request, res: Response) => {
+  if (isDryRun(req)) {
+    try {
+      const plan = new EventbriteSyncPlan();
+      const result = await runSyncSessions(plan);
+      const data: EventbriteSyncDryRunResponse<SyncSessionsResult> = { dryRun: true, result, changes: plan.changes };
+      res.json({ success: true, data });
+    } catch (error: any) {
+      console.error('Error planning Eventbrite session sync:', error);
+      res.status(500).json({ success: false, error: error.message || 'Failed to plan session sync' });
+    }
+    return;
+  }
   if (syncInProgress) {
     console.warn('[Eventbrite Sync] Rejected concurrent request — sync already in progress');
     res.status(409).json({ success: false, error: 'Sync already in progress' });
@@ -294,31 +454,40 @@ router.get('/eventbrite/unmatched-events', async (req: Request, res: Response) =
 
 router.get('/eventbrite/event-config-check', async (req: Request, res: Response) => {
   try {
-    const [orgEvents, rawGroups] = await Promise.all([
+    const [orgEvents, rawGroups, rawSessions, mappings] = await Promise.all([
       getOrgEvents(),
-      groupsRepository.getAll()
+      groupsRepository.getAll(),
+      sessionsRepository.getAll(),
+      loadQuestionMappings()
     ]);
 
     const groups = validateArray(rawGroups, validateGroup, 'Group');
+    const sessionByEventId = new Map(
+      validateArray(rawSessions, validateSession, 'Session')
+        .filter(s => s.EventbriteEventID)
+        .map(s => [s.EventbriteEventID!, s])
+    );
 
     // Build seriesId → group map
     const seriesMap = new Map(
       groups.filter(g => g.EventbriteSeriesID).map(g => [g.EventbriteSeriesID!, g])
     );
 
-    // One representative event per series (series config is shared across all events)
-    const seriesChecked = new Set<string>();
-    const results: EventbriteConfigCheck[] = [];
+    // One representative event per series (series config is shared across all events);
+    // conflicts are checked for every event in the series that has a session
+    const results = new Map<string, EventbriteConfigCheck>();
     for (const event of orgEvents) {
       if (!event.seriesId || !seriesMap.has(event.seriesId)) continue;
-      if (seriesChecked.has(event.seriesId)) continue;
-      seriesChecked.add(event.seriesId);
       const group = seriesMap.get(event.seriesId)!;
       const label = group.Name || group.Title;
-      results.push(await getEventConfigCheck(event.id, label));
+      if (!results.has(event.seriesId)) {
+        results.set(event.seriesId, { ...await getEventConfigCheck(event.id, label, mappings), conflicts: [] });
+      }
+      const spSession = sessionByEventId.get(event.id);
+      if (spSession) results.get(event.seriesId)!.conflicts!.push(...sessionEventConflicts(spSession, group.Name || group.Title || '', event));
     }
 
-    res.json({ success: true, data: results });
+    res.json({ success: true, data: [...results.values()] });
   } catch (error: any) {
     console.error('Error checking event config:', error);
     res.status(500).json({ success: false, error: error.message || 'Failed to check event config' });
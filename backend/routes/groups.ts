@@ -24,13 +24,24 @@ import {
   parseHours,
   profileSlug,
   extractMetadataTags,
-  parseSessionStats
+  parseSessionStats,
+  sessionCancellationFields
 } from '../services/data-layer';
-import { GROUP_LOOKUP, SESSION_LOOKUP, PROFILE_LOOKUP, SESSION_STATS, SESSION_NOTES, SESSION_METADATA, SESSION_COVER_MEDIA } from '../services/field-names';
-import type { GroupResponse, GroupDetailResponse, SessionResponse } from '../../types/api-responses';
+import { GROUP_LOOKUP, SESSION_LOOKUP, PROFILE_LOOKUP, SESSION_STATS, SESSION_NOTES, SESSION_METADATA, SESSION_COVER_MEDIA, GROUP_EMAIL_SCHEDULE, GROUP_RECURRENCE } from '../services/field-names';
+import type { GroupResponse, GroupDetailResponse, SessionResponse, SessionSeriesDeleteResponse, SessionSeriesResponse } from '../../types/api-responses';
 import type { ApiResponse } from '../../types/sharepoint';
 import { sharePointClient } from '../services/sharepoint-client';
 import { aggregateSessionStatsForScope } from '../services/session-entity-stats';
+import { parseEmailSchedule, emailScheduleField } from '../services/session-email-scheduler';
+import { groupSessionRsvps } from '../services/regular-rsvp';
+import { projectsRepository } from '../services/repositories/projects-repository';
+import {
+  SessionSeriesError,
+  deleteUnbookedSeries,
+  generateSeries,
+  parseRecurrence,
+  recurrenceField
+} from '../services/session-series';
 
 const router: Router = express.Router();
 
@@ -223,6 +234,7 @@ router.get('/groups/:key', async (req: Request, res: Response) => {
           coverUrl: s[SESSION_COVER_MEDIA] ? `/media/${key}/${date}/${s[SESSION_COVER_MEDIA]}` : undefined,
           financialYear: `FY${calculateFinancialYear(new Date(date))}`,
           isBookable: date >= today,
+          ...sessionCancellationFields(s),
           eventbriteEventId: s.EventbriteEventID,
           metadata: tags.length ? tags : undefined
         };
@@ -323,7 +335,12 @@ router.get('/groups/:key', async (req: Request, res: Response) => {
       displayName: group.displayName,
       description: group.description,
       eventbriteSeriesId: group.eventbriteSeriesId,
+      ...(isTrusted && { emailSchedule: parseEmailSchedule(spGroup[GROUP_EMAIL_SCHEDULE]) ?? undefined }),
+      ...(isTrusted && { recurrence: parseRecurrence(spGroup[GROUP_RECURRENCE]) ?? undefined }),
       regulars: isTrusted ? rollingRegulars : [],
+      ...(isTrusted && parseEmailSchedule(spGroup[GROUP_EMAIL_SCHEDULE])?.rsvpDaysBefore !== undefined && {
+        rsvps: groupSessionRsvps(today, spGroup, groupSessions, rawEntries, rawRegulars, profiles)
+      }),
       ...(isCurrentUserRegular !== undefined && { isCurrentUserRegular }),
       financialYear: `${fy.startYear}-${fy.endYear}`,
       stats: {
@@ -350,12 +367,33 @@ router.get('/groups/:key', async (req: Request, res: Response) => {
 router.patch('/groups/:key', async (req: Request, res: Response) => {
   try {
     const key = String(req.params.key).toLowerCase();
-    const { displayName, description, eventbriteSeriesId, key: newKeyRaw } = req.body;
+    const { displayName, description, eventbriteSeriesId, emailSchedule, recurrence, key: newKeyRaw } = req.body;
 
     const fields: Record<string, any> = {};
     if (typeof displayName === 'string') fields.Name = displayName;
     if (typeof description === 'string') fields.Description = description;
     if (typeof eventbriteSeriesId === 'string') fields.EventbriteSeriesID = eventbriteSeriesId;
+    if (emailSchedule !== undefined) {
+      const parsed = emailScheduleField(emailSchedule);
+      if ('error' in parsed) {
+        res.status(400).json({ success: false, error: parsed.error });
+        return;
+      }
+      fields[GROUP_EMAIL_SCHEDULE] = parsed.value;
+    }
+    if (recurrence !== undefined) {
+      const parsed = recurrenceField(recurrence);
+      if ('error' in parsed) {
+        res.status(400).json({ success: false, error: parsed.error });
+        return;
+      }
+      const projectId = parseRecurrence(parsed.value)?.projectId;
+      if (projectId !== undefined && !(await projectsRepository.getAll()).some(p => p.ID === projectId)) {
+        res.status(404).json({ success: false, error: 'Project not found' });
+        return;
+      }
+      fields[GROUP_RECURRENCE] = parsed.value;
+    }
     if (typeof newKeyRaw === 'string' && newKeyRaw.trim()) {
       if (/\s/.test(newKeyRaw.trim())) {
         res.status(400).json({ success: false, error: 'Key Name cannot contain spaces' });
@@ -412,6 +450,62 @@ router.patch('/groups/:key', async (req: Request, res: Response) => {
   }
 });
 
+// POST /api/groups/:key/series/generate — { weeks?, from?, skipDates?, dryRun? }
+// Creates the group's recurring sessions that don't exist yet; dryRun previews without writing.
+router.post('/groups/:key/series/generate', async (req: Request, res: Response) => {
+  try {
+    const spGroup = findGroupByKey(await groupsRepository.getAll(), String(req.params.key).toLowerCase());
+    if (!spGroup) {
+      res.status(404).json({ success: false, error: 'Group not found' });
+      return;
+    }
+    const { weeks, from, skipDates, dryRun } = req.body ?? {};
+    if (skipDates !== undefined && !Array.isArray(skipDates)) {
+      res.status(400).json({ success: false, error: 'skipDates must be a list of YYYY-MM-DD dates' });
+      return;
+    }
+    const data = await generateSeries(spGroup, {
+      weeks: weeks === undefined ? undefined : Number(weeks),
+      from: from === undefined ? undefined : String(from),
+      skipDates,
+      dryRun: dryRun === true,
+    });
+    res.json({ success: true, data } as ApiResponse<SessionSeriesResponse>);
+  } catch (error: any) {
+    if (error instanceof SessionSeriesError) {
+      res.status(error.statusCode).json({ success: false, error: error.message });
+      return;
+    }
+    console.error('Error generating session series:', error);
+    res.status(500).json({ success: false, error: 'Failed to generate sessions', message: error.message });
+  }
+});
+
+// POST /api/groups/:key/series/delete-unbooked — { from?, dryRun? }
+// Deletes the group's future sessions with no entries (cancelled ones count); Eventbrite-linked sessions are kept.
+router.post('/groups/:key/series/delete-unbooked', async (req: Request, res: Response) => {
+  try {
+    const spGroup = findGroupByKey(await groupsRepository.getAll(), String(req.params.key).toLowerCase());
+    if (!spGroup) {
+      res.status(404).json({ success: false, error: 'Group not found' });
+      return;
+    }
+    const { from, dryRun } = req.body ?? {};
+    const data = await deleteUnbookedSeries(spGroup, {
+      from: from === undefined ? undefined : String(from),
+      dryRun: dryRun === true,
+    });
+    res.json({ success: true, data } as ApiResponse<SessionSeriesDeleteResponse>);
+  } catch (error: any) {
+    if (error instanceof SessionSeriesError) {
+      res.status(error.statusCode).json({ success: false, error: error.message });
+      return;
+    }
+    console.error('Error deleting unbooked sessions:', error);
+    res.status(500).json({ success: false, error: 'Failed to delete sessions', message: error.message });
+  }
+});
+
 router.delete('/groups/:key', async (req: Request, res: Response) => {
   try {
     const key = String(req.params.key).toLowerCase();
@@ -0,0 +1,158 @@
+import express, { Request, Response, Router } from 'express';
+import { organisationsRepository } from '../services/repositories/organisations-repository';
+import { groupsRepository } from '../services/repositories/groups-repository';
+import { sessionsRepository } from '../services/repositories/sessions-repository';
+import { entriesRepository } from '../services/repositories/entries-repository';
+import { calculateCurrentFY, findGroupByKey, findSessionByGroupAndDate } from '../services/data-layer';
+import { SESSION_STATS } from '../services/field-names';
+import {
+  OrganisationError,
+  bookTeam,
+  buildOrganisationReport,
+  fillTeamPlace,
+  parseOrganisationName,
+  type TeamPlaceVolunteer
+} from '../services/organisations';
+import { computeAndSaveProfileStats } from '../services/profile-stats';
+import { computeAndSaveSessionStats, preservedMediaFromStats } from '../services/session-stats';
+import { emitEntryEvent } from '../services/webhooks';
+import type { ApiResponse } from '../../types/sharepoint';
+import type { OrganisationReportResponse, OrganisationResponse, TeamBookingResponse, TeamPlaceResponse } from '../../types/api-responses';
+
+const router: Router = express.Router();
+
+// GET /api/organisations — names offered when booking a team or a CSR place
+router.get('/organisations', async (req: Request, res: Response) => {
+  try {
+    const organisations = await organisationsRepository.getAll();
+    const data: OrganisationResponse[] = organisations
+      .map(o => ({ id: o.ID, name: o.Title || '' }))
+      .sort((a, b) => a.name.localeCompare(b.name));
+    res.json({ success: true, count: data.length, data, configured: organisationsRepository.configured } as ApiResponse<OrganisationResponse[]> & { configured: boolean });
+  } catch (error: any) {
+    console.error('Error fetching organisations:', error);
+    res.status(500).json({ success: false, error: 'Failed to fetch organisations', message: error.message });
+  }
+});
+
+// GET /api/organisations/report?fy=FY2025 — sessions, headcount and hours per organisation (default this FY)
+router.get('/organisations/report', async (req: Request, res: Response) => {
+  try {
+    const fy = typeof req.query.fy === 'string' && req.query.fy ? req.query.fy : calculateCurrentFY().key;
+    if (!/^FY\d{4}$/.test(fy)) {
+      res.status(400).json({ success: false, error: 'fy must look like FY2025' });
+      return;
+    }
+
+    const [organisations, fySessions, groups] = await Promise.all([
+      organisationsRepository.getAll(),
+      sessionsRepository.getByFinancialYear(fy),
+      groupsRepository.getAll(),
+    ]);
+    const entries = fySessions.length ? await entriesRepository.getBySessionIds(fySessions.map(s => s.ID)) : [];
+    const data = buildOrganisationReport(fy, organisations, fySessions, groups, entries);
+    res.json({ success: true, data } as ApiResponse<OrganisationReportResponse>);
+  } catch (error: any) {
+    console.error('Error building organisation report:', error);
+    res.status(500).json({ success: false, error: 'Failed to build organisation report', message: error.message });
+  }
+});
+
+// POST /api/sessions/:group/:date/team-booking — { organisation, size }
+// Books unnamed places for a team; names are filled in with POST /entries/:id/place
+router.post('/sessions/:group/:date/team-booking', async (req: Request, res: Response) => {
+  try {
+    const organisation = parseOrganisationName(req.body?.organisation);
+    if (!organisation) {
+      res.status(400).json({ success: false, error: 'organisation is required' });
+      return;
+    }
+
+    const [rawGroups, rawSessions] = await Promise.all([groupsRepository.getAll(), sessionsRepository.getAll()]);
+    const spGroup = findGroupByKey(rawGroups, String(req.params.group).toLowerCase());
+    if (!spGroup) {
+      res.status(404).json({ success: false, error: 'Group not found' });
+      return;
+    }
+    const spSession = findSessionByGroupAndDate(rawSessions, spGroup.ID, String(req.params.date));
+    if (!spSession) {
+      res.status(404).json({ success: false, error: 'Session not found' });
+      return;
+    }
+    const preservedMedia = preservedMediaFromStats(spSession[SESSION_STATS]);
+
+    const data = await bookTeam(spSession, organisation, Number(req.body?.size));
+
+    for (const entry of data.entries) {
+      emitEntryEvent('entry.booked', { entryId: entry.id, sessionId: spSession.ID, profileId: entry.profileId, waitlisted: false });
+    }
+    computeAndSaveSessionStats(spSession.ID, preservedMedia).catch(err =>
+      console.error(`[Stats] Failed session stats for team booking on session ${spSession.ID}:`, err)
+    );
+
+    res.status(201).json({ success: true, data } as ApiResponse<TeamBookingResponse>);
+  } catch (error: any) {
+    if (error instanceof OrganisationError) {
+      res.status(error.statusCode).json({ success: false, error: error.message });
+      return;
+    }
+    console.error('Error creating team booking:', error);
+    res.status(500).json({ success: false, error: 'Failed to create team booking', message: error.message });
+  }
+});
+
+// POST /api/entries/:id/place — { profileId } or { name, email? } names an unnamed team place
+router.post('/entries/:id/place', async (req: Request, res: Response) => {
+  try {
+    const entryId = parseInt(String(req.params.id), 10);
+    if (isNaN(entryId)) {
+      res.status(400).json({ success: false, error: 'Invalid entry ID' });
+      return;
+    }
+
+    let volunteer: TeamPlaceVolunteer;
+    if (req.body?.profileId !== undefined) {
+      const profileId = Number(req.body.profileId);
+      if (!Number.isInteger(profileId) || profileId <= 0) {
+        res.status(400).json({ success: false, error: 'profileId must be a positive integer' });
+        return;
+      }
+      volunteer = { profileId };
+    } else {
+      const name = typeof req.body?.name === 'string' ? req.body.name.trim().replace(/\s+/g, ' ') : '';
+      if (!name) {
+        res.status(400).json({ success: false, error: 'name or profileId is required' });
+        return;
+      }
+      const email = typeof req.body?.email === 'string' && req.body.email.trim() ? req.body.email.trim().toLowerCase() : undefined;
+      if (email && !email.includes('@')) {
+        res.status(400).json({ success: false, error: 'email is not valid' });
+        return;
+      }
+      volunteer = { name, email };
+    }
+
+    const spEntry = await entriesRepository.getById(entryId);
+    if (!spEntry) {
+      res.status(404).json({ success: false, error: 'Entry not found' });
+      return;
+    }
+
+    const data = await fillTeamPlace(spEntry, volunteer);
+
+    computeAndSaveProfileStats(data.profileId).catch(err =>
+      console.error(`[Stats] Failed targeted profile update for profile ${data.profileId}:`, err)
+    );
+
+    res.json({ success: true, data } as ApiResponse<TeamPlaceResponse>);
+  } catch (error: any) {
+    if (error instanceof OrganisationError) {
+      res.status(error.statusCode).json({ success: false, error: error.message });
+      return;
+    }
+    console.error('Error naming team place:', error);
+    res.status(500).json({ success: false, error: 'Failed to name team place', message: error.message });
+  }
+});
+
+export = router;
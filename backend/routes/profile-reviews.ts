@@ -0,0 +1,65 @@
+import express, { Request, Response, Router } from 'express';
+import { profileReviewsRepository } from '../services/repositories/profile-reviews-repository';
+import {
+  PROFILE_REVIEW_ACTIONS,
+  ProfileReviewError,
+  listProfileReviews,
+  resolveProfileReview
+} from '../services/profile-reviews';
+import { ProfileTransferError } from '../services/profile-transfer';
+import type { ApiResponse } from '../../types/sharepoint';
+import type { ProfileReviewAction, ProfileReviewResponse, ProfileReviewStatus } from '../../types/api-responses';
+
+const router: Router = express.Router();
+
+const STATUSES: ProfileReviewStatus[] = ['pending', 'merged', 'separate', 'alias'];
+
+// GET /api/profile-reviews — admin only (ADMIN_ONLY_GET_PATTERNS in require-admin.ts)
+// ?status=pending (default) | merged | separate | alias | all
+router.get('/profile-reviews', async (req: Request, res: Response) => {
+  try {
+    const statusParam = req.query.status ? String(req.query.status) : 'pending';
+    if (statusParam !== 'all' && !(STATUSES as string[]).includes(statusParam)) {
+      res.status(400).json({ success: false, error: `status must be all or one of ${STATUSES.join(', ')}` });
+      return;
+    }
+    if (!profileReviewsRepository.configured) {
+      res.json({ success: true, count: 0, data: [], configured: false });
+      return;
+    }
+    const data = await listProfileReviews(statusParam === 'all' ? undefined : statusParam as ProfileReviewStatus);
+    res.json({ success: true, count: data.length, data, configured: true } as ApiResponse<ProfileReviewResponse[]> & { configured: boolean });
+  } catch (error: any) {
+    console.error('Error fetching profile reviews:', error);
+    res.status(500).json({ success: false, error: 'Failed to fetch profile reviews', message: error.message });
+  }
+});
+
+// POST /api/profile-reviews/:id/resolve — { action: 'merge' | 'separate' | 'alias' }
+router.post('/profile-reviews/:id/resolve', async (req: Request, res: Response) => {
+  try {
+    const id = parseInt(String(req.params.id), 10);
+    if (isNaN(id)) {
+      res.status(400).json({ success: false, error: 'Invalid review ID' });
+      return;
+    }
+    const action = req.body?.action as ProfileReviewAction;
+    if (!PROFILE_REVIEW_ACTIONS.includes(action)) {
+      res.status(400).json({ success: false, error: `action must be one of ${PROFILE_REVIEW_ACTIONS.join(', ')}` });
+      return;
+    }
+
+    const resolvedBy = req.session.user?.email || 'api-key';
+    const data = await resolveProfileReview(id, action, resolvedBy);
+    res.json({ success: true, data });
+  } catch (error: any) {
+    if (error instanceof ProfileReviewError || error instanceof ProfileTransferError) {
+      res.status(error.statusCode).json({ success: false, error: error.message });
+      return;
+    }
+    console.error('Error resolving profile review:', error);
+    res.status(500).json({ success: false, error: 'Failed to resolve profile review', message: error.message });
+  }
+});
+
+export = router;
@@ -1,5 +1,5 @@
 import express, { Request, Response, Router } from 'express';
-import { sharePointClient } from '../services/sharepoint-client';
+import { listStore, type BatchWriteOp } from '../services/list-store';
 import { runProfileStatsRefresh, computeAndSaveProfileStats } from '../services/profile-stats';
 import { groupsRepository } from '../services/repositories/groups-repository';
 import { sessionsRepository } from '../services/repositories/sessions-repository';
@@ -27,7 +27,7 @@ import {
 } from '../services/data-layer';
 import { renderEmail } from '../services/email-renderer';
 import { buildProfileTemplateVars, PROFILE_EMAIL_TEMPLATES, type ProfileEmailTemplate } from '../services/email-vars';
-import { sendEmail } from '../services/graph-mail';
+import { sendEmail, isMailConfigured, EmailRateLimitError } from '../services/mail-transport';
 import {
   GROUP_LOOKUP,
   SESSION_LOOKUP,
@@ -37,8 +37,13 @@ import {
   ENTRY_EVENTBRITE_ATTENDEE_ID,
   PROFILE_STATS
 } from '../services/field-names';
-import type { ProfileResponse, ProfileDetailResponse, ProfileEntryResponse, ProfileGroupHours, ConsentRecordResponse } from '../../types/api-responses';
+import type { ProfileResponse, ProfileDetailResponse, ProfileEntryResponse, ProfileGroupHours, ConsentRecordResponse, ProfileEraseResponse } from '../../types/api-responses';
 import { trackerAccessForProfileUser } from '../services/tracker-access';
+import { calendarFeedToken } from '../services/calendar-feed';
+import { buildSubjectAccessBundle, eraseProfile } from '../services/gdpr';
+import { transferProfile, ProfileTransferError } from '../services/profile-transfer';
+import { aliasProfileIds } from '../services/profile-reviews';
+import { childProfileIds, hasFreshAuth, isGuardianOf, ownProfileIds, stepUpRequired } from '../services/guardianship';
 import type { ApiResponse, SharePointProfile } from '../../types/sharepoint';
 
 const router: Router = express.Router();
@@ -353,8 +358,8 @@ router.get('/profiles/records/options', async (req: Request, res: Response) => {
   try {
     const listGuid = process.env.RECORDS_LIST_GUID!;
     const [types, statuses] = await Promise.all([
-      sharePointClient.getColumnChoices(listGuid, 'Type'),
-      sharePointClient.getColumnChoices(listGuid, 'Status')
+      listStore.getColumnChoices(listGuid, 'Type'),
+      listStore.getColumnChoices(listGuid, 'Status')
     ]);
     res.json({ success: true, data: { types, statuses } });
   } catch (error: any) {
@@ -466,9 +471,7 @@ router.post('/records/bulk', async (req: Request, res: Response) => {
 
     const allRecords = await recordsRepository.getAll();
     const recordDate = date || new Date().toISOString();
-    let created = 0;
-    let updated = 0;
-
+    const ops: BatchWriteOp[] = [];
     for (const profileId of profileIds) {
       const id = parseInt(String(profileId), 10);
       if (isNaN(id)) continue;
@@ -477,15 +480,16 @@ router.post('/records/bulk', async (req: Request, res: Response) => {
         r => safeParseLookupId(r.ProfileLookupId as unknown as string) === id && r.Type === type
       );
 
-      if (existing) {
-        await recordsRepository.update(existing.ID, { Status: status, Date: recordDate });
-        updated++;
-      } else {
-        await recordsRepository.create({ ProfileLookupId: id, Type: type, Status: status, Date: recordDate });
-        created++;
-      }
+      ops.push(existing
+        ? { op: 'update', id: existing.ID, fields: { Status: status, Date: recordDate } }
+        : { op: 'create', fields: { ProfileLookupId: id, Type: type, Status: status, Date: recordDate } });
     }
 
+    const results = await recordsRepository.batchWrite(ops);
+    const created = results.filter((r, i) => r.ok && ops[i].op === 'create').length;
+    const updated = results.filter((r, i) => r.ok && ops[i].op === 'update').length;
+    const failed = results.filter(r => !r.ok).length;
+
     // Fire profile stats update for all affected profiles
     for (const profileId of profileIds) {
       const id = parseInt(String(profileId), 10);
@@ -496,7 +500,7 @@ router.post('/records/bulk', async (req: Request, res: Response) => {
       }
     }
 
-    res.json({ success: true, data: { created, updated } } as ApiResponse<{ created: number; updated: number }>);
+    res.json({ success: true, data: { created, updated, failed } } as ApiResponse<{ created: number; updated: number; failed: number }>);
   } catch (error: any) {
     console.error('Error bulk updating records:', error);
     res.status(500).json({ success: false, error: 'Failed to bulk update records', message: error.message });
@@ -505,8 +509,8 @@ router.post('/records/bulk', async (req: Request, res: Response) => {
 
 router.post('/profiles/bulk-email', async (req: Request, res: Response) => {
   try {
-    if (!process.env.MAIL_SENDER) {
-      res.status(503).json({ success: false, error: 'MAIL_SENDER env var is not set' });
+    if (!isMailConfigured()) {
+      res.status(503).json({ success: false, error: 'Email is not configured (MAIL_SENDER or MAIL_TRANSPORT)' });
       return;
     }
 
@@ -584,7 +588,13 @@ router.post('/profiles/bulk-email', async (req: Request, res: Response) => {
 
     let sent = 0;
     for (const { profile, email } of targets) {
-      await renderAndSend(profile, email);
+      try {
+        await renderAndSend(profile, email);
+      } catch (err) {
+        if (!(err instanceof EmailRateLimitError)) throw err;
+        res.status(429).json({ success: false, error: `Hourly email limit reached after ${sent} of ${targets.length} sent`, data: { sent, skipped } });
+        return;
+      }
       sent++;
     }
 
@@ -602,15 +612,17 @@ router.post('/profiles/:id/consent', async (req: Request, res: Response) => {
       res.status(400).json({ success: false, error: 'Invalid profile ID' });
       return;
     }
-    // Self-service users may only submit consent for their own profile
-    if (req.session.user?.role === 'selfservice') {
-      const ownIds = req.session.user.profileIds?.length
-        ? req.session.user.profileIds
-        : (req.session.user.profileId ? [req.session.user.profileId] : []);
-      if (!ownIds.includes(profileId)) {
+    // Self-service users may only submit consent for their own profile, or for a linked child after a fresh sign-in
+    if (req.session.user?.role === 'selfservice' && !ownProfileIds(req.session.user).includes(profileId)) {
+      const spProfile = await profilesRepository.getById(profileId);
+      if (!isGuardianOf(req.session.user, spProfile ?? undefined)) {
         res.status(403).json({ success: false, error: 'Not permitted' });
         return;
       }
+      if (!hasFreshAuth(req.session.user)) {
+        res.status(401).json(stepUpRequired(req.session.user));
+        return;
+      }
     }
 
     const { privacyConsent, photoConsent } = req.body;
@@ -711,12 +723,18 @@ router.get('/profiles/:slug', async (req: Request, res: Response) => {
       return;
     }
 
-    // Self-service users may only view their own profile(s).
+    // Self-service users may only view their own profile(s), or a linked child's after a fresh sign-in.
     if (req.session.user?.role === 'selfservice') {
       const allowedIds = req.session.user.profileIds || [];
       if (!allowedIds.includes(spProfile.ID)) {
-        res.status(403).json({ success: false, error: 'Not permitted' });
-        return;
+        if (!isGuardianOf(req.session.user, spProfile)) {
+          res.status(403).json({ success: false, error: 'Not permitted' });
+          return;
+        }
+        if (!hasFreshAuth(req.session.user)) {
+          res.status(401).json(stepUpRequired(req.session.user));
+          return;
+        }
       }
     }
 
@@ -871,6 +889,11 @@ router.get('/profiles/:slug', async (req: Request, res: Response) => {
 
     const isSelfService = req.session.user?.role === 'selfservice';
     const trustedMicrosoft = req.session.user?.role === 'admin' || req.session.user?.role === 'checkin';
+    const aliasIds = isSelfService ? [] : await aliasProfileIds(spProfile.ID);
+    // Guardian links are visible to anyone who can see this profile — for self-service that is the parent themselves
+    const childIds = childProfileIds(profiles, [spProfile.ID]);
+    const guardianId = safeParseLookupId(spProfile.GuardianLookupId);
+    const guardianProfile = guardianId !== undefined ? profiles.find(p => p.ID === guardianId) : undefined;
 
     const data: ProfileDetailResponse = {
       id: profile.id,
@@ -896,7 +919,24 @@ router.get('/profiles/:slug', async (req: Request, res: Response) => {
             .filter((p: any) => p.ID !== spProfile.ID && parseEmails(p.Email).some((e: string) => currentEmails.includes(e)))
             .map((p: any) => ({ id: p.ID, slug: profileSlug(p.Title, p.ID), name: p.Title || '' }))
         : undefined),
-      warnings: (!isSelfService && profileWarnings.length) ? profileWarnings : undefined
+      children: childIds.length
+        ? profiles
+            .filter(p => childIds.includes(p.ID))
+            .map(p => ({ id: p.ID, slug: profileSlug(p.Title, p.ID), name: p.Title || '' }))
+        : undefined,
+      guardian: guardianProfile
+        ? { id: guardianProfile.ID, slug: profileSlug(guardianProfile.Title, guardianProfile.ID), name: guardianProfile.Title || '' }
+        : undefined,
+      aliasProfiles: aliasIds.length
+        ? (rawProfiles as any[])
+            .filter((p: any) => aliasIds.includes(p.ID))
+            .map((p: any) => ({ id: p.ID, slug: profileSlug(p.Title, p.ID), name: p.Title || '' }))
+        : undefined,
+      warnings: (!isSelfService && profileWarnings.length) ? profileWarnings : undefined,
+      // Personal feed token grants read access to bookings — only the volunteer themselves (or an admin) sees it
+      calendarFeedUrl: (isSelfService || req.session.user?.role === 'admin')
+        ? `/api/calendar/profiles/${calendarFeedToken(spProfile.ID)}.ics`
+        : undefined
     };
 
     res.json({ success: true, data } as ApiResponse<ProfileDetailResponse>);
@@ -967,147 +1007,84 @@ router.post('/profiles/:slug/transfer', async (req: Request, res: Response) => {
       return;
     }
 
-    const [rawProfiles, rawEntries, rawRegulars, rawRecords] = await Promise.all([
-      profilesRepository.getAll(),
-      entriesRepository.getAll(),
-      regularsRepository.getAll(),
-      recordsRepository.getAll()
-    ]);
-
-    const profiles = validateArray(rawProfiles, validateProfile, 'Profile');
     const profileId = profileIdFromSlug(slug);
     if (profileId === undefined) {
       res.status(404).json({ success: false, error: 'Invalid profile slug' });
       return;
     }
-    const sourceProfile = profiles.find(p => p.ID === profileId);
-    if (!sourceProfile) {
-      res.status(404).json({ success: false, error: 'Source profile not found' });
-      return;
-    }
 
-    const targetProfile = profiles.find(p => p.ID === targetProfileId);
-    if (!targetProfile) {
-      res.status(404).json({ success: false, error: 'Target profile not found' });
+    const data = await transferProfile(profileId, targetProfileId, { deleteAfter: !!deleteAfter, addEmail: !!addEmail });
+    res.json({ success: true, data });
+  } catch (error: any) {
+    if (error instanceof ProfileTransferError) {
+      res.status(error.statusCode).json({ success: false, error: error.message });
       return;
     }
+    console.error('Error transferring profile:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to transfer profile',
+      message: error.message
+    });
+  }
+});
 
-    if (sourceProfile.ID === targetProfile.ID) {
-      res.status(400).json({ success: false, error: 'Source and target profiles must be different' });
+// GET /api/profiles/:slug/subject-access — admin only (ADMIN_ONLY_GET_PATTERNS in require-admin.ts)
+// GDPR subject access request: everything held about the volunteer as a JSON download.
+router.get('/profiles/:slug/subject-access', async (req: Request, res: Response) => {
+  try {
+    const slug = String(req.params.slug).toLowerCase();
+    const profileId = profileIdFromSlug(slug);
+    if (profileId === undefined) {
+      res.status(404).json({ success: false, error: 'Invalid profile slug' });
       return;
     }
 
-    const entries = validateArray(rawEntries, validateEntry, 'Entry');
-    const sourceEntries = entries.filter(e => safeParseLookupId(e[PROFILE_LOOKUP]) === sourceProfile.ID);
-    const entriesListGuid = process.env.ENTRIES_LIST_GUID!;
-
-    // Transfer entries
-    let entriesTransferred = 0;
-    for (const entry of sourceEntries) {
-      await sharePointClient.updateListItem(entriesListGuid, entry.ID, {
-        [PROFILE_LOOKUP]: String(targetProfile.ID)
-      });
-      entriesTransferred++;
-    }
-
-    // Transfer regulars (skip if target already has the same group)
-    const sourceRegulars = rawRegulars.filter(r => safeParseLookupId(r[PROFILE_LOOKUP]) === sourceProfile.ID);
-    const targetRegularGroups = new Set(
-      rawRegulars
-        .filter(r => safeParseLookupId(r[PROFILE_LOOKUP]) === targetProfile.ID)
-        .map(r => safeParseLookupId(r[GROUP_LOOKUP]))
-        .filter((id): id is number => id !== undefined)
-    );
-    const regularsListGuid = process.env.REGULARS_LIST_GUID!;
-
-    let regularsTransferred = 0;
-    for (const regular of sourceRegulars) {
-      const groupId = safeParseLookupId(regular[GROUP_LOOKUP]);
-      if (groupId !== undefined && !targetRegularGroups.has(groupId)) {
-        await sharePointClient.updateListItem(regularsListGuid, regular.ID, {
-          [PROFILE_LOOKUP]: String(targetProfile.ID)
-        });
-        regularsTransferred++;
-      } else {
-        await regularsRepository.delete(regular.ID);
-      }
-    }
-
-    // Transfer records (skip if target already has the same type)
-    let recordsTransferred = 0;
-    const sourceRecords = rawRecords.filter(r =>
-      safeParseLookupId(r.ProfileLookupId as unknown as string) === sourceProfile.ID
-    );
-    const targetRecordTypes = new Set(
-      rawRecords
-        .filter(r => safeParseLookupId(r.ProfileLookupId as unknown as string) === targetProfile.ID)
-        .map(r => r.Type)
-    );
-    const recordsListGuid = process.env.RECORDS_LIST_GUID!;
-
-    for (const record of sourceRecords) {
-      if (!targetRecordTypes.has(record.Type)) {
-        await sharePointClient.updateListItem(recordsListGuid, record.ID, {
-          ProfileLookupId: String(targetProfile.ID)
-        });
-        recordsTransferred++;
-      } else {
-        await sharePointClient.deleteListItem(recordsListGuid, record.ID);
-      }
-    }
-
-    // Add source primary email to target if requested — non-fatal: transfer already committed above
-    let emailAdded: string | null = null;
-    let emailAddError: string | null = null;
-    if (addEmail) {
-      try {
-        const sourceEmails = (sourceProfile.Email ?? '').split(',').map((e: string) => e.trim()).filter(Boolean);
-        const sourceEmail = sourceEmails[0];
-        if (sourceEmail) {
-          const targetEmails = (targetProfile.Email ?? '').split(',').map((e: string) => e.trim()).filter(Boolean);
-          if (!targetEmails.includes(sourceEmail)) {
-            await profilesRepository.updateFields(targetProfile.ID, {
-              Email: [...targetEmails, sourceEmail].join(',')
-            });
-            emailAdded = sourceEmail;
-          }
-        }
-      } catch (err: any) {
-        console.error('[Transfer] addEmail step failed (transfer already committed):', err);
-        emailAddError = 'Email could not be added — please add it manually on the target profile';
-      }
+    const generatedBy = req.session.user?.email || (req.headers['x-api-key'] ? 'api-key' : 'unknown');
+    const bundle = await buildSubjectAccessBundle(profileId, generatedBy);
+    if (!bundle) {
+      res.status(404).json({ success: false, error: 'Profile not found' });
+      return;
     }
 
-    sharePointClient.clearCache();
+    res.setHeader('Content-Disposition', `attachment; filename="subject-access-${slug}.json"`);
+    res.setHeader('Cache-Control', 'no-store');
+    res.json(bundle);
+  } catch (error: any) {
+    console.error('Error building subject access export:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to build subject access export',
+      message: error.message
+    });
+  }
+});
 
-    // Delete source profile if requested
-    const deleted = !!deleteAfter;
-    if (deleted) {
-      await profilesRepository.delete(sourceProfile.ID);
+// POST /api/profiles/:slug/erase — admin only. Body: { dryRun?: boolean }
+// Right to be forgotten: anonymises the profile, keeping its entries so hours and session Stats
+// stay correct. Use this instead of DELETE, which refuses profiles with entries.
+router.post('/profiles/:slug/erase', async (req: Request, res: Response) => {
+  try {
+    const profileId = profileIdFromSlug(String(req.params.slug).toLowerCase());
+    if (profileId === undefined) {
+      res.status(404).json({ success: false, error: 'Invalid profile slug' });
+      return;
     }
 
-    // Update stats for target (all entries now belong to it); also source if kept
-    computeAndSaveProfileStats(targetProfile.ID).catch(err =>
-      console.error(`[Stats] Failed targeted profile update for target profile ${targetProfile.ID}:`, err)
-    );
-    if (!deleted) {
-      computeAndSaveProfileStats(sourceProfile.ID).catch(err =>
-        console.error(`[Stats] Failed targeted profile update for source profile ${sourceProfile.ID}:`, err)
-      );
+    const dryRun = req.body?.dryRun === true;
+    const baseUrl = process.env.FRONTEND_URL || `${req.protocol}://${req.get('host')}`;
+    const result = await eraseProfile(profileId, { dryRun, baseUrl });
+    if (!result) {
+      res.status(404).json({ success: false, error: 'Profile not found' });
+      return;
     }
 
-    const targetSlug = profileSlug(targetProfile.Title, targetProfile.ID);
-    console.log(`[Transfer] ${sourceProfile.Title} → ${targetProfile.Title}: ${entriesTransferred} entries, ${regularsTransferred} regulars, ${recordsTransferred} records${emailAdded ? `, email ${emailAdded} added` : ''}${deleted ? ', deleted source' : ''}`);
-
-    res.json({
-      success: true,
-      data: { entriesTransferred, regularsTransferred, recordsTransferred, emailAdded, emailAddError, deleted, targetSlug }
-    });
+    res.json({ success: true, data: result } as ApiResponse<ProfileEraseResponse>);
   } catch (error: any) {
-    console.error('Error transferring profile:', error);
+    console.error('Error erasing profile:', error);
     res.status(500).json({
       success: false,
-      error: 'Failed to transfer profile',
+      error: 'Failed to erase profile',
       message: error.message
     });
   }
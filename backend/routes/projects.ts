@@ -18,6 +18,7 @@ import {
   safeParseLookupId,
   extractMetadataTags,
   parseSessionStats,
+  sessionCancellationFields,
 } from '../services/data-layer';
 import {
   GROUP_LOOKUP,
@@ -154,6 +155,7 @@ function mapSessionsToResponses(
             : undefined,
         financialYear: `FY${calculateFinancialYear(new Date(date))}`,
         isBookable: date >= today,
+        ...sessionCancellationFields(s),
         eventbriteEventId: s.EventbriteEventID,
         metadata: (() => {
           const tags = extractMetadataTags(s[SESSION_METADATA]);
@@ -0,0 +1,42 @@
+import express, { Request, Response, Router } from 'express';
+import { RsvpError, answerRsvp, getRsvp, parseRsvpAnswer } from '../services/regular-rsvp';
+import type { ApiResponse } from '../../types/sharepoint';
+import type { RsvpResponse } from '../../types/api-responses';
+
+const router: Router = express.Router();
+
+// GET /api/rsvp/:token — the booking a regular's RSVP link points at. No login: the token is
+// signed for the entry (see services/regular-rsvp.ts); allowed in public-api-get-paths.ts.
+router.get('/rsvp/:token', async (req: Request, res: Response) => {
+  try {
+    const data = await getRsvp(String(req.params.token));
+    res.json({ success: true, data } as ApiResponse<RsvpResponse>);
+  } catch (error: any) {
+    if (error instanceof RsvpError) {
+      res.status(error.statusCode).json({ success: false, error: error.message });
+      return;
+    }
+    console.error('Error fetching RSVP:', error);
+    res.status(500).json({ success: false, error: 'Failed to fetch RSVP', message: error.message });
+  }
+});
+
+// POST /api/rsvp/:token { answer: 'coming' | 'declined' } — record the answer; token-verified, no login
+// (require-auth.ts / require-admin.ts let it through like the Eventbrite webhook).
+router.post('/rsvp/:token', async (req: Request, res: Response) => {
+  try {
+    const answer = parseRsvpAnswer(req.body?.answer);
+    const base = process.env.FRONTEND_URL || `${req.protocol}://${req.get('host')}`;
+    const data = await answerRsvp(String(req.params.token), answer, base);
+    res.json({ success: true, data } as ApiResponse<RsvpResponse>);
+  } catch (error: any) {
+    if (error instanceof RsvpError) {
+      res.status(error.statusCode).json({ success: false, error: error.message });
+      return;
+    }
+    console.error('Error recording RSVP:', error);
+    res.status(500).json({ success: false, error: 'Failed to record RSVP', message: error.message });
+  }
+});
+
+export = router;
@@ -31,21 +31,28 @@ import {
   parseSessionLength,
   DEFAULT_SESSION_TIME,
   DEFAULT_SESSION_LENGTH,
+  sessionCancellationFields,
+  isSessionCancelled,
 } from '../services/data-layer';
 import { parseSessionStats } from '../services/data-layer';
 import {
   GROUP_LOOKUP, GROUP_DISPLAY, PROJECT_LOOKUP,
   SESSION_LOOKUP, SESSION_NOTES, SESSION_METADATA, SESSION_COVER_MEDIA, SESSION_STATS, SESSION_LIMITS,
   SESSION_TIME, SESSION_LENGTH,
-  PROFILE_LOOKUP, PROFILE_DISPLAY, PROFILE_STATS, ENTRY_CANCELLED, ENTRY_EVENTBRITE_ATTENDEE_ID
+  PROFILE_LOOKUP, PROFILE_DISPLAY, PROFILE_STATS, ENTRY_CANCELLED, ENTRY_WAITLISTED, ENTRY_EVENTBRITE_ATTENDEE_ID,
+  ENTRY_ORGANISATION_DISPLAY, PROFILE_PLACEHOLDER
 } from '../services/field-names';
-import type { SessionResponse, SessionDetailResponse, EntryResponse } from '../../types/api-responses';
+import type { SessionResponse, SessionDetailResponse, EntryResponse, SessionCancelResponse } from '../../types/api-responses';
 import type { ApiResponse } from '../../types/sharepoint';
 import { sharePointClient } from '../services/sharepoint-client';
 import { trackerAccessForProfileUser } from '../services/tracker-access';
 import { taxonomyClient } from '../services/taxonomy-client';
-import { runSessionStatsRefresh, refreshSessionMediaStats } from '../services/session-stats';
+import { runSessionStatsRefresh, refreshSessionMediaStats, computeAndSaveSessionStats, preservedMediaFromStats } from '../services/session-stats';
+import { computeAndSaveProfileStats } from '../services/profile-stats';
 import { mediaDriveId } from '../services/media-upload';
+import { pushSessionToEventbrite, type EventbritePushResult } from '../services/eventbrite-push';
+import { cancelSession, parseCancelReason, SessionCancellationError } from '../services/session-cancellation';
+import { emitEntryEvent } from '../services/webhooks';
 
 const router: Router = express.Router();
 
@@ -141,6 +148,7 @@ router.get('/sessions', async (req: Request, res: Response) => {
           regularsCount: groupId !== undefined ? groupRegularsCountMap.get(groupId) : undefined,
           financialYear: `FY${calculateFinancialYear(new Date(s.Date!))}`,
           isBookable: date >= today,
+          ...sessionCancellationFields(s),
           eventbriteEventId: s.EventbriteEventID,
           metadata: tags.length ? tags : undefined,
         };
@@ -158,9 +166,22 @@ router.get('/sessions', async (req: Request, res: Response) => {
   }
 });
 
+type EventbritePushFields = { eventbrite?: EventbritePushResult; eventbriteError?: string };
+
+// Push to Eventbrite after a session save. A failed push doesn't undo the save — it's
+// reported as eventbriteError alongside the saved session.
+async function pushToEventbriteForResponse(sessionId: number): Promise<EventbritePushFields> {
+  try {
+    return { eventbrite: await pushSessionToEventbrite(sessionId) };
+  } catch (err: any) {
+    console.error(`[Eventbrite Push] Session ${sessionId}:`, err.message);
+    return { eventbriteError: err.message };
+  }
+}
+
 router.post('/sessions', async (req: Request, res: Response) => {
   try {
-    const { groupId, date, name, description, projectId, time, length } = req.body;
+    const { groupId, date, name, description, projectId, time, length, pushToEventbrite } = req.body;
 
     if (!groupId || !date) {
       res.status(400).json({ success: false, error: 'groupId and date are required' });
@@ -225,9 +246,10 @@ router.post('/sessions', async (req: Request, res: Response) => {
     }
 
     const id = await sessionsRepository.create(fields);
+    const eventbrite = pushToEventbrite === true ? await pushToEventbriteForResponse(id) : {};
     res.json({
       success: true,
-      data: { id, groupKey, date: dateStr }
+      data: { id, groupKey, date: dateStr, ...eventbrite }
     });
   } catch (error: any) {
     console.error('Error creating session:', error);
@@ -415,7 +437,7 @@ router.post('/sessions/bulk-tag', async (req: Request, res: Response) => {
     }
 
     const rawSessions = await sessionsRepository.getAll();
-    let updated = 0;
+    const updates: Array<{ itemId: number; tags: Array<{ label: string; termGuid: string }> }> = [];
 
     for (const rawId of sessionIds) {
       const id = parseInt(String(rawId), 10);
@@ -429,11 +451,14 @@ router.post('/sessions/bulk-tag', async (req: Request, res: Response) => {
       const existingGuids = new Set(existing.map(t => t.termGuid));
       const merged = [...existing, ...newTags.filter(t => !existingGuids.has(t.termGuid))];
 
-      await taxonomyClient.updateManagedMetadataField(listGuid, id, SESSION_METADATA, merged);
-      updated++;
+      updates.push({ itemId: id, tags: merged });
     }
 
-    res.json({ success: true, data: { updated } } as ApiResponse<{ updated: number }>);
+    const results = await taxonomyClient.updateManagedMetadataFields(listGuid, SESSION_METADATA, updates);
+    const updated = results.filter(r => r.ok).length;
+    const failed = results.length - updated;
+
+    res.json({ success: true, data: { updated, failed } } as ApiResponse<{ updated: number; failed: number }>);
   } catch (error: any) {
     console.error('Error bulk tagging sessions:', error);
     res.status(500).json({
@@ -467,15 +492,12 @@ router.post('/sessions/bulk-project', async (req: Request, res: Response) => {
       return;
     }
 
-    let updated = 0;
-    for (const rawId of sessionIds) {
-      const id = parseInt(String(rawId), 10);
-      if (isNaN(id)) continue;
-      await sessionsRepository.updateFields(id, { [PROJECT_LOOKUP]: lookupValue });
-      updated++;
-    }
+    const ids = sessionIds.map((rawId: unknown) => parseInt(String(rawId), 10)).filter((id: number) => !isNaN(id));
+    const results = await sessionsRepository.updateMany(ids.map((id: number) => ({ id, fields: { [PROJECT_LOOKUP]: lookupValue } })));
+    const updated = results.filter(r => r.ok).length;
+    const failed = results.length - updated;
 
-    res.json({ success: true, data: { updated } } as ApiResponse<{ updated: number }>);
+    res.json({ success: true, data: { updated, failed } } as ApiResponse<{ updated: number; failed: number }>);
   } catch (error: any) {
     console.error('Error bulk updating session projects:', error);
     res.status(500).json({
@@ -626,6 +648,7 @@ router.get('/sessions/:group/:date', async (req: Request, res: Response) => {
         stats: storedStats,
         financialYear: `FY${calculateFinancialYear(new Date(spSession.Date))}`,
         isBookable: spSession.Date >= today,
+        ...sessionCancellationFields(spSession),
         eventbriteEventId: spSession.EventbriteEventID,
         groupEventbriteSeriesId: spGroup.EventbriteSeriesID || undefined,
         metadata: metadata.length ? metadata : undefined,
@@ -677,19 +700,24 @@ router.get('/sessions/:group/:date', async (req: Request, res: Response) => {
         notes: e.Notes,
         accompanyingAdultId: safeParseLookupId(e.AccompanyingAdultLookupId),
         cancelled: e[ENTRY_CANCELLED] || undefined,
+        waitlisted: e[ENTRY_WAITLISTED] || undefined,
         email: hasCheckInTier ? (profile ? parseEmails(profile.Email)[0] : undefined) : undefined,
         ...(hasCheckInTier ? { trackerAccess: trackerAccessForProfileUser(profile?.User) } : {}),
         labels: e.Labels,
         isNew: isNew || undefined,
         noPhoto: pStats.noPhoto === true || undefined,
         isFirstAiderAvailable: pStats.isFirstAider === true || undefined,
-        eventbriteAttendeeId: e[ENTRY_EVENTBRITE_ATTENDEE_ID] || undefined
+        eventbriteAttendeeId: e[ENTRY_EVENTBRITE_ATTENDEE_ID] || undefined,
+        organisation: e[ENTRY_ORGANISATION_DISPLAY] || undefined,
+        placeholder: profile?.[PROFILE_PLACEHOLDER] === true || undefined,
+        modified: e.Modified
       };
     });
 
     // Per-user personalised flags — from profile stats (all roles) with live entry fallback for admin/checkin
     // For self-service: also look up their own entry to return userEntryId (needed for cancel flow)
     let isRegistered: boolean | undefined;
+    let isWaitlisted: boolean | undefined;
     let isAttended: boolean | undefined;
     let isRegular: boolean | undefined;
     let isRepeat: boolean | undefined;
@@ -718,7 +746,9 @@ router.get('/sessions/:group/:date', async (req: Request, res: Response) => {
         if (ownEntry) {
           userEntryId = ownEntry.ID;
           // Cancelled entry: not registered (can re-book), but userEntryId still returned for cancel admin flows
-          isRegistered = !ownEntry[ENTRY_CANCELLED];
+          // Waitlisted entry: not registered yet, but userEntryId lets them leave the waitlist
+          isWaitlisted = !ownEntry[ENTRY_CANCELLED] && !!ownEntry[ENTRY_WAITLISTED];
+          isRegistered = !ownEntry[ENTRY_CANCELLED] && !isWaitlisted;
           isAttended = attendedAny;
         } else {
           isRegistered = selfProfileStats?.sessionIds?.includes(spSession.ID) ?? false;
@@ -737,6 +767,8 @@ router.get('/sessions/:group/:date', async (req: Request, res: Response) => {
         userEntryId = ownEntry?.id;
         // If the own entry is cancelled, not registered
         if (ownEntry?.cancelled) isRegistered = false;
+        isWaitlisted = !!ownEntry && !ownEntry.cancelled && !!ownEntry.waitlisted;
+        if (isWaitlisted) isRegistered = false;
         isRegular = isRegular ?? false;
       }
     }
@@ -760,6 +792,7 @@ router.get('/sessions/:group/:date', async (req: Request, res: Response) => {
       stats: storedStats,
       financialYear: `FY${calculateFinancialYear(new Date(spSession.Date))}`,
       isBookable: spSession.Date >= today,
+      ...sessionCancellationFields(spSession),
       eventbriteEventId: spSession.EventbriteEventID,
       groupEventbriteSeriesId: spGroup.EventbriteSeriesID || undefined,
       metadata: metadata.length ? metadata : undefined,
@@ -769,6 +802,7 @@ router.get('/sessions/:group/:date', async (req: Request, res: Response) => {
       nextSession,
       ...(selfProfileId !== undefined && {
         isRegistered,
+        isWaitlisted,
         isAttended,
         isRegular,
         isRepeat,
@@ -792,7 +826,13 @@ router.patch('/sessions/:group/:date', async (req: Request, res: Response) => {
   try {
     const groupKey = String(req.params.group).toLowerCase();
     const dateParam = String(req.params.date);
-    const { displayName, description, eventbriteEventId, date, groupId, projectId, metadata, coverMediaId, limits, time, length } = req.body;
+    const { displayName, description, eventbriteEventId, date, groupId, projectId, metadata, coverMediaId, limits, time, length, pushToEventbrite } = req.body;
+
+    // Check-in users may edit sessions (CHECKIN_ALLOWED_PATTERNS) but not write to Eventbrite
+    if (pushToEventbrite === true && req.session.user && req.session.user.role !== 'admin') {
+      res.status(403).json({ success: false, error: 'Admin access required to update Eventbrite' });
+      return;
+    }
 
     const [rawGroups, rawProjects, spSession] = await Promise.all([
       groupsRepository.getAll(),
@@ -845,7 +885,7 @@ router.patch('/sessions/:group/:date', async (req: Request, res: Response) => {
         ? metadata.map((t: any) => ({ label: t.label ?? t, termGuid: t.termGuid ?? '' })).filter(t => t.label)
         : null;
 
-    if (Object.keys(fields).length === 0 && metadataTags === null) {
+    if (Object.keys(fields).length === 0 && metadataTags === null && pushToEventbrite !== true) {
       res.status(400).json({ success: false, error: 'No valid fields to update' });
       return;
     }
@@ -897,8 +937,11 @@ router.patch('/sessions/:group/:date', async (req: Request, res: Response) => {
       }
     }
 
+    // After the save so the event gets the new date/time/limits
+    const eventbrite = pushToEventbrite === true ? await pushToEventbriteForResponse(spSession.ID) : {};
+
     const newDate = fields.Date || dateParam;
-    res.json({ success: true, data: { date: newDate, groupKey: newGroupKey } } as ApiResponse<{ date: string; groupKey: string }>);
+    res.json({ success: true, data: { date: newDate, groupKey: newGroupKey, ...eventbrite } } as ApiResponse<{ date: string; groupKey: string } & EventbritePushFields>);
   } catch (error: any) {
     console.error('Error updating session:', error);
     res.status(500).json({
@@ -909,6 +952,61 @@ router.patch('/sessions/:group/:date', async (req: Request, res: Response) => {
   }
 });
 
+// POST /api/sessions/:group/:date/cancel — { reason, notify? }
+// Calls off the whole session: every active booking is cancelled and emailed (unless notify: false).
+// Repeating it on a cancelled session finishes what an earlier call left; reason isn't needed then.
+router.post('/sessions/:group/:date/cancel', async (req: Request, res: Response) => {
+  try {
+    const groupKey = String(req.params.group).toLowerCase();
+    const dateParam = String(req.params.date);
+    const notify = req.body?.notify !== false;
+
+    const [rawGroups, spSession] = await Promise.all([
+      groupsRepository.getAll(),
+      sessionsRepository.getBySlug(groupKey, dateParam)
+    ]);
+    if (!findGroupByKey(rawGroups, groupKey)) {
+      res.status(404).json({ success: false, error: 'Group not found' });
+      return;
+    }
+    if (!spSession) {
+      res.status(404).json({ success: false, error: 'Session not found' });
+      return;
+    }
+    const reason = isSessionCancelled(spSession) ? '' : parseCancelReason(req.body?.reason);
+    const preservedMedia = preservedMediaFromStats(spSession[SESSION_STATS]);
+
+    const base = process.env.FRONTEND_URL || `${req.protocol}://${req.get('host')}`;
+    const { response, entries } = await cancelSession(spSession, reason, base, { notify });
+
+    for (const e of entries) {
+      emitEntryEvent('entry.cancelled', { entryId: e.ID, sessionId: spSession.ID, profileId: safeParseLookupId(e[PROFILE_LOOKUP]) });
+    }
+    computeAndSaveSessionStats(spSession.ID, preservedMedia).catch(err =>
+      console.error(`[Stats] Failed session stats after cancelling session ${spSession.ID}:`, err)
+    );
+    const profileIds = new Set(entries.map(e => safeParseLookupId(e[PROFILE_LOOKUP])).filter((id): id is number => id !== undefined));
+    for (const vid of profileIds) {
+      computeAndSaveProfileStats(vid).catch(err =>
+        console.error(`[Stats] Failed targeted profile update for profile ${vid}:`, err)
+      );
+    }
+
+    res.json({ success: true, data: response } as ApiResponse<SessionCancelResponse>);
+  } catch (error: any) {
+    if (error instanceof SessionCancellationError) {
+      res.status(error.statusCode).json({ success: false, error: error.message });
+      return;
+    }
+    console.error('Error cancelling session:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to cancel session',
+      message: error.message
+    });
+  }
+});
+
 // Full refresh of Stats field on all Sessions — admin or API key auth.
 // Fetches sessions + entries + groups in one pass, then media counts per group,
 // then patches Stats JSON to each session item in batches of 10.
@@ -9,7 +9,7 @@ import { clearGovernanceDocsCache } from '../services/governance-docs-cache';
 import { clearGovernanceDocsTreeCache } from '../services/governance-docs-service';
 import { sessionsRepository } from '../services/repositories/sessions-repository';
 import { profilesRepository } from '../services/repositories/profiles-repository';
-import { calculateCurrentFY, calculateFinancialYear, safeParseLookupId } from '../services/data-layer';
+import { calculateCurrentFY, calculateFinancialYear, isSessionCancelled, safeParseLookupId } from '../services/data-layer';
 import { SESSION_STATS, PROFILE_STATS, GROUP_LOOKUP } from '../services/field-names';
 import type { StatsResponse, FYStatsResponse } from '../../types/api-responses';
 import type { ApiResponse } from '../../types/sharepoint';
@@ -74,11 +74,14 @@ router.get('/stats', async (req: Request, res: Response) => {
     const lastFYStartYear = fy.startYear - 1;
     const lastFYKey = `FY${lastFYStartYear}`;
 
-    const [sessionsThisFY, sessionsLastFY, rawProfiles] = await Promise.all([
+    const [fySessions, lastFYSessions, rawProfiles] = await Promise.all([
       sessionsRepository.getByFinancialYear(fy.key),
       sessionsRepository.getByFinancialYear(lastFYKey),
       profilesRepository.getAll()
     ]);
+    // Called-off sessions didn't run — they don't count as sessions or active groups
+    const sessionsThisFY = fySessions.filter(s => !isSessionCancelled(s));
+    const sessionsLastFY = lastFYSessions.filter(s => !isSessionCancelled(s));
 
     const thisFYProfiles = volunteersFromStats(rawProfiles, fy.key);
     const lastFYProfiles = volunteersFromStats(rawProfiles, lastFYKey);
@@ -131,7 +134,7 @@ router.get('/stats/history', async (req: Request, res: Response) => {
     // Group sessions by FY start year, skipping the historical-totals placeholder
     const sessionsByFY = new Map<number, typeof allSessions>();
     for (const session of allSessions) {
-      if (!session.Date || session.Date.startsWith('2020-01-01')) continue;
+      if (!session.Date || session.Date.startsWith('2020-01-01') || isSessionCancelled(session)) continue;
       const fyYear = calculateFinancialYear(new Date(session.Date));
       if (!sessionsByFY.has(fyYear)) sessionsByFY.set(fyYear, []);
       sessionsByFY.get(fyYear)!.push(session);
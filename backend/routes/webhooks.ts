@@ -0,0 +1,220 @@
+import express, { Request, Response, Router } from 'express';
+import { webhooksRepository } from '../services/repositories/webhooks-repository';
+import {
+  WEBHOOK_EVENT_TYPES,
+  buildWebhookEvent,
+  deliverWebhook,
+  generateWebhookSecret,
+  toWebhookResponse,
+  webhookDeliveryLog,
+  type WebhookDeliveryQuery
+} from '../services/webhooks';
+import type { ApiResponse } from '../../types/sharepoint';
+import type { WebhookDeliveryResponse, WebhookSubscriptionResponse } from '../../types/api-responses';
+
+const router: Router = express.Router();
+
+const MAX_LIMIT = 1000;
+
+function requireConfigured(res: Response): boolean {
+  if (webhooksRepository.configured) return true;
+  res.status(503).json({ success: false, error: 'Webhooks are not configured (WEBHOOKS_LIST_GUID)' });
+  return false;
+}
+
+function parseId(req: Request, res: Response): number | undefined {
+  const id = parseInt(String(req.params.id), 10);
+  if (isNaN(id)) {
+    res.status(400).json({ success: false, error: 'Invalid webhook ID' });
+    return undefined;
+  }
+  return id;
+}
+
+/** Validates name/url/events/enabled from a create or update body into list fields */
+function webhookFields(body: any, creating: boolean): { fields: Record<string, any> } | { error: string } {
+  const fields: Record<string, any> = {};
+  const { name, url, events, enabled } = body ?? {};
+
+  if (name !== undefined || creating) {
+    if (typeof name !== 'string' || !name.trim()) return { error: 'name is required' };
+    fields.Title = name.trim().slice(0, 255);
+  }
+  if (url !== undefined || creating) {
+    let parsed: URL;
+    try {
+      parsed = new URL(String(url));
+    } catch {
+      return { error: 'url must be an absolute URL' };
+    }
+    if (parsed.protocol !== 'https:' && !(parsed.protocol === 'http:' && parsed.hostname === 'localhost')) {
+      return { error: 'url must use https' };
+    }
+    fields.Url = parsed.toString();
+  }
+  if (events !== undefined || creating) {
+    const list = events === undefined ? ['*'] : events;
+    if (!Array.isArray(list) || list.length === 0) return { error: 'events must be a non-empty array' };
+    const unknown = list.filter((e: unknown) => e !== '*' && !(WEBHOOK_EVENT_TYPES as unknown[]).includes(e));
+    if (unknown.length) return { error: `Unknown events: ${unknown.join(', ')}. Use * or ${WEBHOOK_EVENT_TYPES.join(', ')}` };
+    fields.Events = list.includes('*') ? '*' : list.join(',');
+  }
+  if (enabled !== undefined) {
+    if (typeof enabled !== 'boolean') return { error: 'enabled must be true or false' };
+    fields.Enabled = enabled;
+  } else if (creating) {
+    fields.Enabled = true;
+  }
+  return { fields };
+}
+
+// GET /api/webhooks — admin only (ADMIN_ONLY_GET_PATTERNS in require-admin.ts)
+router.get('/webhooks', async (req: Request, res: Response) => {
+  try {
+    const items = await webhooksRepository.getAll();
+    const data: WebhookSubscriptionResponse[] = items.map(w => toWebhookResponse(w));
+    res.json({ success: true, count: data.length, data } as ApiResponse<WebhookSubscriptionResponse[]>);
+  } catch (error: any) {
+    console.error('Error fetching webhooks:', error);
+    res.status(500).json({ success: false, error: 'Failed to fetch webhooks', message: error.message });
+  }
+});
+
+// GET /api/webhooks/deliveries?subscriptionId=1&deliveryId=…&limit=200 — newest attempt first
+router.get('/webhooks/deliveries', async (req: Request, res: Response) => {
+  try {
+    const q: WebhookDeliveryQuery = {};
+    if (typeof req.query.subscriptionId === 'string' && req.query.subscriptionId) {
+      const id = parseInt(req.query.subscriptionId, 10);
+      if (isNaN(id)) {
+        res.status(400).json({ success: false, error: 'subscriptionId must be a number' });
+        return;
+      }
+      q.subscriptionId = id;
+    }
+    if (typeof req.query.deliveryId === 'string' && req.query.deliveryId) q.deliveryId = req.query.deliveryId;
+    if (typeof req.query.limit === 'string' && req.query.limit) {
+      const limit = parseInt(req.query.limit, 10);
+      if (isNaN(limit) || limit < 1) {
+        res.status(400).json({ success: false, error: 'limit must be a positive number' });
+        return;
+      }
+      q.limit = Math.min(limit, MAX_LIMIT);
+    }
+
+    const data = await webhookDeliveryLog().query(q);
+    res.json({ success: true, count: data.length, data } as ApiResponse<WebhookDeliveryResponse[]>);
+  } catch (error: any) {
+    console.error('Error fetching webhook deliveries:', error);
+    res.status(500).json({ success: false, error: 'Failed to fetch webhook deliveries', message: error.message });
+  }
+});
+
+// POST /api/webhooks — { name, url, events?: string[], enabled? }; the secret is returned once
+router.post('/webhooks', async (req: Request, res: Response) => {
+  try {
+    if (!requireConfigured(res)) return;
+    const parsed = webhookFields(req.body, true);
+    if ('error' in parsed) {
+      res.status(400).json({ success: false, error: parsed.error });
+      return;
+    }
+
+    const id = await webhooksRepository.create({ ...parsed.fields, Secret: generateWebhookSecret() });
+    const created = await webhooksRepository.getById(id);
+    res.status(201).json({ success: true, data: toWebhookResponse(created!, true) } as ApiResponse<WebhookSubscriptionResponse>);
+  } catch (error: any) {
+    console.error('Error creating webhook:', error);
+    res.status(500).json({ success: false, error: 'Failed to create webhook', message: error.message });
+  }
+});
+
+// PATCH /api/webhooks/:id — any of { name, url, events, enabled }
+router.patch('/webhooks/:id', async (req: Request, res: Response) => {
+  try {
+    if (!requireConfigured(res)) return;
+    const id = parseId(req, res);
+    if (id === undefined) return;
+    const parsed = webhookFields(req.body, false);
+    if ('error' in parsed) {
+      res.status(400).json({ success: false, error: parsed.error });
+      return;
+    }
+    if (Object.keys(parsed.fields).length === 0) {
+      res.status(400).json({ success: false, error: 'No valid fields to update' });
+      return;
+    }
+    if (!(await webhooksRepository.getById(id))) {
+      res.status(404).json({ success: false, error: 'Webhook not found' });
+      return;
+    }
+
+    await webhooksRepository.update(id, parsed.fields);
+    const updated = await webhooksRepository.getById(id);
+    res.json({ success: true, data: toWebhookResponse(updated!) } as ApiResponse<WebhookSubscriptionResponse>);
+  } catch (error: any) {
+    console.error('Error updating webhook:', error);
+    res.status(500).json({ success: false, error: 'Failed to update webhook', message: error.message });
+  }
+});
+
+// POST /api/webhooks/:id/rotate-secret — new secret, returned once; the old one stops working immediately
+router.post('/webhooks/:id/rotate-secret', async (req: Request, res: Response) => {
+  try {
+    if (!requireConfigured(res)) return;
+    const id = parseId(req, res);
+    if (id === undefined) return;
+    if (!(await webhooksRepository.getById(id))) {
+      res.status(404).json({ success: false, error: 'Webhook not found' });
+      return;
+    }
+
+    await webhooksRepository.update(id, { Secret: generateWebhookSecret() });
+    const updated = await webhooksRepository.getById(id);
+    res.json({ success: true, data: toWebhookResponse(updated!, true) } as ApiResponse<WebhookSubscriptionResponse>);
+  } catch (error: any) {
+    console.error('Error rotating webhook secret:', error);
+    res.status(500).json({ success: false, error: 'Failed to rotate webhook secret', message: error.message });
+  }
+});
+
+// POST /api/webhooks/:id/test — sends a webhook.test event and returns the first attempt
+router.post('/webhooks/:id/test', async (req: Request, res: Response) => {
+  try {
+    if (!requireConfigured(res)) return;
+    const id = parseId(req, res);
+    if (id === undefined) return;
+    const item = await webhooksRepository.getById(id);
+    if (!item) {
+      res.status(404).json({ success: false, error: 'Webhook not found' });
+      return;
+    }
+
+    const event = buildWebhookEvent('webhook.test', { subscriptionId: id, name: item.Title });
+    const data = await deliverWebhook(item, event);
+    res.json({ success: true, data } as ApiResponse<WebhookDeliveryResponse>);
+  } catch (error: any) {
+    console.error('Error testing webhook:', error);
+    res.status(500).json({ success: false, error: 'Failed to test webhook', message: error.message });
+  }
+});
+
+router.delete('/webhooks/:id', async (req: Request, res: Response) => {
+  try {
+    if (!requireConfigured(res)) return;
+    const id = parseId(req, res);
+    if (id === undefined) return;
+    if (!(await webhooksRepository.getById(id))) {
+      res.status(404).json({ success: false, error: 'Webhook not found' });
+      return;
+    }
+
+    await webhooksRepository.delete(id);
+    res.json({ success: true } as ApiResponse<void>);
+  } catch (error: any) {
+    console.error('Error deleting webhook:', error);
+    res.status(500).json({ success: false, error: 'Failed to delete webhook', message: error.message });
+  }
+});
+
+export = router;
@@ -0,0 +1,144 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+import { diffFields, matchesAuditQuery, redactAuditEvent, FileAuditSink, type AuditEvent, type AuditRedaction } from './audit-log'
+
+function event(overrides: Partial<AuditEvent> = {}): AuditEvent {
+  return {
+    timestamp: '2026-03-01T10:00:00.000Z',
+    actor: 'admin@dtv.org.uk',
+    role: 'admin',
+    method: 'PATCH',
+    route: '/entries/12',
+    status: 200,
+    entityType: 'entry',
+    entityIds: [12],
+    ...overrides,
+  }
+}
+
+describe('diffFields', () => {
+  it('lists only changed fields with before and after', () => {
+    expect(diffFields(
+      { ID: 12, Hours: 3, Checked: false, Notes: 'x' },
+      { ID: 12, Hours: 3, Checked: true, Notes: 'x' }
+    )).toEqual({ Checked: { before: false, after: true } })
+  })
+
+  it('treats null, undefined and empty string as unset', () => {
+    expect(diffFields({ Notes: '' }, { Notes: null })).toEqual({})
+    expect(diffFields({ Cancelled: null }, { Cancelled: '2026-03-01T10:00:00Z' })).toEqual({
+      Cancelled: { before: null, after: '2026-03-01T10:00:00Z' },
+    })
+  })
+
+  it('ignores Modified, Stats and SharePoint system columns', () => {
+    expect(diffFields(
+      { Modified: 'a', Stats: '{}', _UIVersionString: '1.0', EditorLookupId: '1' },
+      { Modified: 'b', Stats: '{"count":1}', _UIVersionString: '2.0', EditorLookupId: '2' }
+    )).toEqual({})
+  })
+
+  it('covers creates and deletes', () => {
+    expect(diffFields(null, { Title: 'New' })).toEqual({ Title: { before: null, after: 'New' } })
+    expect(diffFields({ Title: 'Old' }, null)).toEqual({ Title: { before: 'Old', after: null } })
+  })
+
+  it('compares arrays by value', () => {
+    expect(diffFields({ Labels: ['Regular'] }, { Labels: ['Regular'] })).toEqual({})
+    expect(Object.keys(diffFields({ Labels: ['Regular'] }, { Labels: ['Regular', 'CSR'] }))).toEqual(['Labels'])
+  })
+})
+
+describe('matchesAuditQuery', () => {
+  it('filters by actor case-insensitively', () => {
+    expect(matchesAuditQuery(event(), { actor: 'ADMIN@dtv.org.uk' })).toBe(true)
+    expect(matchesAuditQuery(event(), { actor: 'other@dtv.org.uk' })).toBe(false)
+  })
+
+  it('filters by entity type and ID', () => {
+    expect(matchesAuditQuery(event(), { entityType: 'entry', entityId: 12 })).toBe(true)
+    expect(matchesAuditQuery(event(), { entityType: 'profile' })).toBe(false)
+    expect(matchesAuditQuery(event(), { entityId: 13 })).toBe(false)
+  })
+
+  it('filters by any of several entity IDs', () => {
+    expect(matchesAuditQuery(event(), { entityType: 'entry', entityIds: [11, 12] })).toBe(true)
+    expect(matchesAuditQuery(event(), { entityIds: [11, 13] })).toBe(false)
+  })
+
+  it('treats a date-only "to" as the end of that day', () => {
+    expect(matchesAuditQuery(event(), { from: '2026-03-01', to: '2026-03-01' })).toBe(true)
+    expect(matchesAuditQuery(event(), { to: '2026-02-28' })).toBe(false)
+    expect(matchesAuditQuery(event(), { from: '2026-03-02' })).toBe(false)
+  })
+})
+
+const JANE: AuditRedaction = { entities: { entry: [12], profile: [5] }, emails: ['jane@example.com'] }
+
+describe('redactAuditEvent', () => {
+  it('drops the diff of events about their items', () => {
+    const redacted = redactAuditEvent(event({ changes: { Notes: { before: '', after: 'Knee injury' } } }), JANE)
+    expect(redacted).toEqual(event())
+  })
+
+  it('replaces their email as actor and in diffs of other items', () => {
+    const redacted = redactAuditEvent(event({
+      actor: 'Jane@example.com',
+      entityIds: [13],
+      changes: { BookedBy: { before: null, after: 'jane@example.com' }, Hours: { before: 2, after: 3 } },
+    }), JANE)
+    expect(redacted).toMatchObject({
+      actor: 'erased',
+      entityIds: [13],
+      changes: { BookedBy: { before: null, after: 'erased' }, Hours: { before: 2, after: 3 } },
+    })
+  })
+
+  it('returns null when the event holds nothing of theirs', () => {
+    expect(redactAuditEvent(event({ entityIds: [13], changes: { Hours: { before: 2, after: 3 } } }), JANE)).toBeNull()
+    expect(redactAuditEvent(event(), JANE)).toBeNull()
+  })
+})
+
+describe('FileAuditSink', () => {
+  let dir: string
+  let sink: FileAuditSink
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'audit-'))
+    sink = new FileAuditSink(path.join(dir, 'nested', 'audit.jsonl'))
+  })
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true })
+  })
+
+  it('returns nothing before the first write', async () => {
+    expect(await sink.query({})).toEqual([])
+  })
+
+  it('appends one JSON line per event and queries newest first', async () => {
+    await Promise.all([
+      sink.write(event({ timestamp: '2026-03-01T10:00:00.000Z', entityIds: [1] })),
+      sink.write(event({ timestamp: '2026-03-01T11:00:00.000Z', entityIds: [2] })),
+      sink.write(event({ timestamp: '2026-03-01T12:00:00.000Z', entityIds: [3], entityType: 'profile' })),
+    ])
+
+    const lines = fs.readFileSync(path.join(dir, 'nested', 'audit.jsonl'), 'utf8').trim().split('\n')
+    expect(lines).toHaveLength(3)
+
+    expect((await sink.query({})).map(e => e.entityIds[0])).toEqual([3, 2, 1])
+    expect((await sink.query({ entityType: 'entry', limit: 1 })).map(e => e.entityIds[0])).toEqual([2])
+  })
+
+  it('redacts events in place and keeps the rest', async () => {
+    await sink.write(event({ entityIds: [12], changes: { Notes: { before: '', after: 'Knee injury' } } }))
+    await sink.write(event({ entityIds: [13], changes: { Hours: { before: 2, after: 3 } } }))
+
+    expect(await sink.redact(JANE)).toBe(1)
+    const events = await sink.query({})
+    expect(events.map(e => e.changes)).toEqual([{ Hours: { before: 2, after: 3 } }, undefined])
+  })
+})
@@ -0,0 +1,318 @@
+/**
+ * Audit Log
+ *
+ * Records who changed what through the API (GDPR access logging). One AuditEvent per
+ * write request on entries, profiles, records, regulars and sessions — see
+ * middleware/audit-log.ts for how events are captured.
+ *
+ * Events go to a pluggable sink, chosen by AUDIT_SINK:
+ *
+ *   AUDIT_SINK=list — the Audit list via listStore (AUDIT_LIST_GUID); default when AUDIT_LIST_GUID is set
+ *   AUDIT_SINK=file — JSON lines appended to AUDIT_LOG_FILE (default logs/audit.jsonl)
+ *
+ * Writes are best-effort: a sink failure is logged and never fails the request.
+ *
+ * Erasing a volunteer (gdpr.ts) redacts their events in place: field diffs are dropped from events
+ * about their profile, entries, records and regulars, their email is replaced as actor and in any
+ * other diff. Who acted, when and on which item stays.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { listStore, type BatchWriteOp } from './list-store';
+
+export type AuditEntityType = 'entry' | 'profile' | 'record' | 'regular' | 'session';
+
+export interface AuditChange {
+  before: unknown;
+  after: unknown;
+}
+
+export interface AuditEvent {
+  /** ISO datetime the request finished */
+  timestamp: string;
+  /** Signed-in email, or 'api-key' for scheduled sync calls */
+  actor: string;
+  role?: string;
+  method: string;
+  /** API path, e.g. /entries/123 */
+  route: string;
+  status: number;
+  entityType: AuditEntityType;
+  entityIds: number[];
+  /** Field-level before/after for single-item writes; omitted for bulk operations */
+  changes?: Record<string, AuditChange>;
+}
+
+export interface AuditQuery {
+  actor?: string;
+  entityType?: AuditEntityType;
+  entityId?: number;
+  /** Events about any of these IDs */
+  entityIds?: number[];
+  method?: string;
+  /** Inclusive ISO date or datetime bounds */
+  from?: string;
+  to?: string;
+  limit?: number;
+}
+
+/** What to redact for an erased volunteer — see redactAuditEvent */
+export interface AuditRedaction {
+  /** Their items, by type: events about them lose their field diffs */
+  entities: Partial<Record<AuditEntityType, number[]>>;
+  /** Their emails (lower case): replaced as actor and wherever a diff holds one */
+  emails: string[];
+}
+
+export interface AuditSink {
+  write(event: AuditEvent): Promise<void>;
+  /** Newest first */
+  query(q: AuditQuery): Promise<AuditEvent[]>;
+  /** Rewrite matching events in place; returns how many changed */
+  redact(r: AuditRedaction): Promise<number>;
+}
+
+export const REDACTED = 'erased';
+
+const DEFAULT_QUERY_LIMIT = 200;
+
+/** Fields that change on every write or carry no business meaning — left out of diffs */
+const IGNORED_DIFF_FIELDS = new Set([
+  'ID', 'Created', 'Modified', '@odata.etag', 'ContentType', 'Attachments', 'Edit', 'LinkTitle', 'LinkTitleNoMenu',
+  'AuthorLookupId', 'EditorLookupId', 'ItemChildCount', 'FolderChildCount', 'AppAuthorLookupId', 'AppEditorLookupId',
+  'Stats',
+]);
+
+/**
+ * Field-level diff of two list items. null/undefined/'' are treated as equal (all mean "unset").
+ * SharePoint system columns (leading underscore, author/editor, version) are skipped.
+ */
+export function diffFields(
+  before: Record<string, any> | null | undefined,
+  after: Record<string, any> | null | undefined
+): Record<string, AuditChange> {
+  const changes: Record<string, AuditChange> = {};
+  const keys = new Set([...Object.keys(before ?? {}), ...Object.keys(after ?? {})]);
+  const normalise = (v: unknown) => (v === undefined || v === null || v === '' ? null : v);
+  for (const key of keys) {
+    if (IGNORED_DIFF_FIELDS.has(key) || key.startsWith('_')) continue;
+    const b = normalise(before?.[key]);
+    const a = normalise(after?.[key]);
+    if (JSON.stringify(b) === JSON.stringify(a)) continue;
+    changes[key] = { before: b, after: a };
+  }
+  return changes;
+}
+
+/** In-memory filter shared by both sinks (the list sink pre-filters by date in OData). */
+export function matchesAuditQuery(event: AuditEvent, q: AuditQuery): boolean {
+  if (q.actor && event.actor.toLowerCase() !== q.actor.toLowerCase()) return false;
+  if (q.entityType && event.entityType !== q.entityType) return false;
+  if (q.entityId !== undefined && !event.entityIds.includes(q.entityId)) return false;
+  if (q.entityIds && !event.entityIds.some(id => q.entityIds!.includes(id))) return false;
+  if (q.method && event.method !== q.method.toUpperCase()) return false;
+  if (q.from && event.timestamp < q.from) return false;
+  if (q.to) {
+    // Date-only upper bound covers the whole day
+    const to = /^\d{4}-\d{2}-\d{2}$/.test(q.to) ? `${q.to}T23:59:59.999Z` : q.to;
+    if (event.timestamp > to) return false;
+  }
+  return true;
+}
+
+/** The event with the volunteer's personal data taken out, or null when it holds none */
+export function redactAuditEvent(event: AuditEvent, r: AuditRedaction): AuditEvent | null {
+  const isEmail = (value: unknown) => typeof value === 'string' && r.emails.includes(value.trim().toLowerCase());
+  const about = !!r.entities[event.entityType]?.some(id => event.entityIds.includes(id));
+  let changed = false;
+  const redacted: AuditEvent = { ...event };
+
+  if (isEmail(event.actor)) {
+    redacted.actor = REDACTED;
+    changed = true;
+  }
+  if (event.changes && about) {
+    delete redacted.changes;
+    changed = true;
+  } else if (event.changes) {
+    const changes: Record<string, AuditChange> = {};
+    for (const [field, { before, after }] of Object.entries(event.changes)) {
+      if (isEmail(before) || isEmail(after)) changed = true;
+      changes[field] = { before: isEmail(before) ? REDACTED : before, after: isEmail(after) ? REDACTED : after };
+    }
+    redacted.changes = changes;
+  }
+  return changed ? redacted : null;
+}
+
+// ---------------------------------------------------------------------------
+// Sinks
+// ---------------------------------------------------------------------------
+
+export class FileAuditSink implements AuditSink {
+  private writing: Promise<void> = Promise.resolve();
+
+  constructor(private readonly filePath: string) {}
+
+  write(event: AuditEvent): Promise<void> {
+    // Serialise appends so concurrent requests can't interleave partial lines
+    this.writing = this.writing.then(async () => {
+      await fs.promises.mkdir(path.dirname(this.filePath), { recursive: true });
+      await fs.promises.appendFile(this.filePath, JSON.stringify(event) + '\n', 'utf8');
+    });
+    return this.writing;
+  }
+
+  async query(q: AuditQuery): Promise<AuditEvent[]> {
+    let content: string;
+    try {
+      content = await fs.promises.readFile(this.filePath, 'utf8');
+    } catch (err: any) {
+      if (err.code === 'ENOENT') return [];
+      throw err;
+    }
+    const events: AuditEvent[] = [];
+    for (const line of content.split('\n')) {
+      if (!line.trim()) continue;
+      try {
+        const event = JSON.parse(line) as AuditEvent;
+        if (matchesAuditQuery(event, q)) events.push(event);
+      } catch {
+        // Skip a torn line rather than failing the whole query
+      }
+    }
+    return events.reverse().slice(0, q.limit ?? DEFAULT_QUERY_LIMIT);
+  }
+
+  redact(r: AuditRedaction): Promise<number> {
+    // Queued behind appends so none is lost while the file is rewritten
+    let count = 0;
+    const done = this.writing.then(async () => {
+      let content: string;
+      try {
+        content = await fs.promises.readFile(this.filePath, 'utf8');
+      } catch (err: any) {
+        if (err.code === 'ENOENT') return;
+        throw err;
+      }
+      const lines = content.split('\n').map(line => {
+        if (!line.trim()) return line;
+        try {
+          const redacted = redactAuditEvent(JSON.parse(line) as AuditEvent, r);
+          if (!redacted) return line;
+          count++;
+          return JSON.stringify(redacted);
+        } catch {
+          return line;
+        }
+      });
+      if (count) await fs.promises.writeFile(this.filePath, lines.join('\n'), 'utf8');
+    });
+    this.writing = done.catch(() => {});
+    return done.then(() => count);
+  }
+}
+
+// SharePoint Audit list — one item per event.
+// Title = "{METHOD} {route}"; EntityIds = comma-separated; Changes = JSON.
+// Created is the list's own timestamp; Timestamp is kept so file and list events compare the same.
+export class ListAuditSink implements AuditSink {
+  constructor(private readonly listGuid: string) {}
+
+  async write(event: AuditEvent): Promise<void> {
+    await listStore.createListItem(this.listGuid, {
+      Title: `${event.method} ${event.route}`.slice(0, 255),
+      Timestamp: event.timestamp,
+      Actor: event.actor,
+      Role: event.role ?? null,
+      Method: event.method,
+      Route: event.route.slice(0, 255),
+      Status: event.status,
+      EntityType: event.entityType,
+      EntityIds: event.entityIds.join(','),
+      Changes: event.changes ? JSON.stringify(event.changes) : null,
+    });
+  }
+
+  async query(q: AuditQuery): Promise<AuditEvent[]> {
+    // Only Created is filtered server-side (same pattern as the Logins list); Graph orderby
+    // on custom columns is unreliable, so sorting and the remaining filters run in memory.
+    const items = await listStore.getListItems(
+      this.listGuid,
+      'ID,Timestamp,Actor,Role,Method,Route,Status,EntityType,EntityIds,Changes,Created',
+      q.from ? `fields/Created ge '${q.from}'` : null
+    );
+    return items
+      .map(listItemToEvent)
+      .filter(event => matchesAuditQuery(event, q))
+      .sort((a, b) => b.timestamp.localeCompare(a.timestamp))
+      .slice(0, q.limit ?? DEFAULT_QUERY_LIMIT);
+  }
+
+  async redact(r: AuditRedaction): Promise<number> {
+    const items = await listStore.getListItems(
+      this.listGuid,
+      'ID,Timestamp,Actor,Role,Method,Route,Status,EntityType,EntityIds,Changes,Created'
+    );
+    const ops: BatchWriteOp[] = [];
+    for (const item of items) {
+      const redacted = redactAuditEvent(listItemToEvent(item), r);
+      if (!redacted) continue;
+      ops.push({
+        op: 'update',
+        id: item.ID,
+        fields: { Actor: redacted.actor, Changes: redacted.changes ? JSON.stringify(redacted.changes) : null },
+      });
+    }
+    const results = await listStore.batchWrite(this.listGuid, ops);
+    const failed = results.filter(result => !result.ok).length;
+    if (failed) throw new Error(`${failed} audit event(s) could not be redacted`);
+    return results.length;
+  }
+}
+
+function listItemToEvent(item: Record<string, any>): AuditEvent {
+  let changes: Record<string, AuditChange> | undefined;
+  if (item.Changes) {
+    try { changes = JSON.parse(item.Changes); } catch { /* leave undefined */ }
+  }
+  return {
+    timestamp: item.Timestamp || item.Created,
+    actor: item.Actor || '',
+    role: item.Role || undefined,
+    method: item.Method || '',
+    route: item.Route || '',
+    status: Number(item.Status) || 0,
+    entityType: item.EntityType,
+    entityIds: String(item.EntityIds || '').split(',').filter(Boolean).map(Number),
+    changes,
+  };
+}
+
+function createAuditSink(): AuditSink {
+  const configured = (process.env.AUDIT_SINK || '').toLowerCase();
+  const listGuid = process.env.AUDIT_LIST_GUID;
+  if (configured === 'list' || (!configured && listGuid)) {
+    if (!listGuid) throw new Error('AUDIT_SINK=list requires AUDIT_LIST_GUID');
+    return new ListAuditSink(listGuid);
+  }
+  return new FileAuditSink(process.env.AUDIT_LOG_FILE || path.join('logs', 'audit.jsonl'));
+}
+
+let sink: AuditSink | undefined;
+
+/** Created on first use so AUDIT_* env vars can be set after import (tests, scripts) */
+export function auditSink(): AuditSink {
+  if (!sink) sink = createAuditSink();
+  return sink;
+}
+
+/** Record an event; failures are logged, never thrown. */
+export async function recordAuditEvent(event: AuditEvent): Promise<void> {
+  try {
+    await auditSink().write(event);
+  } catch (err: any) {
+    console.error(`[Audit] Failed to record ${event.method} ${event.route}:`, err.message);
+  }
+}
@@ -1,5 +1,5 @@
 import crypto from 'crypto';
-import { sharePointClient } from './sharepoint-client';
+import { listStore } from './list-store';
 import { safeParseLookupId } from './data-layer';
 
 // SharePoint Logins list — stores hashed auth tokens for self-service volunteer auth.
@@ -23,7 +23,7 @@ export async function createAuthToken(profileId: number, userAgent?: string): Pr
   const hash = hashToken(rawToken);
   const fields: Record<string, unknown> = { Title: hash, ProfileLookupId: profileId };
   if (userAgent) fields.Agent = userAgent.slice(0, 255); // single line of text — 255 char max
-  await sharePointClient.createListItem(loginsListGuid(), fields);
+  await listStore.createListItem(loginsListGuid(), fields);
   return rawToken;
 }
 
@@ -36,7 +36,7 @@ export async function validateAuthToken(rawToken: string): Promise<{ profileId:
     const ttlHours = parseInt(process.env.AUTH_BASIC_TTL_HOURS || '72', 10);
     const since = new Date(Date.now() - ttlHours * 60 * 60 * 1000).toISOString();
 
-    const items = await sharePointClient.getListItems(
+    const items = await listStore.getListItems(
       loginsListGuid(),
       'Title,ProfileLookupId,Created',
       `fields/Title eq '${hash}' and fields/Created ge '${since}'`
@@ -53,3 +53,24 @@ export async function validateAuthToken(rawToken: string): Promise<{ profileId:
     return null; // degrade gracefully — treat as unauthenticated
   }
 }
+
+// Logins issued for a profile — Created and Agent only; the token hash is never returned.
+// Used by the GDPR subject access export.
+export async function listLoginsForProfile(profileId: number): Promise<{ id: number; createdAt: string; agent?: string }[]> {
+  const items = await listStore.getListItems(
+    loginsListGuid(),
+    'ID,ProfileLookupId,Agent,Created',
+    `fields/ProfileLookupId eq ${profileId}`
+  );
+  return items.map(i => ({ id: i.ID as number, createdAt: i.Created as string, agent: (i.Agent as string) || undefined }));
+}
+
+// Delete every login token issued for a profile (signs the volunteer out on all devices).
+// Returns the number of tokens removed.
+export async function deleteLoginsForProfile(profileId: number): Promise<number> {
+  const logins = await listLoginsForProfile(profileId);
+  for (const login of logins) {
+    await listStore.deleteListItem(loginsListGuid(), login.id);
+  }
+  return logins.length;
+}
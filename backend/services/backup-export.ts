@@ -4,26 +4,47 @@
  * Exports all SharePoint data lists plus taxonomy and schema metadata to the Backups/
  * folder in the Shared Documents library. Uses SHA-256 diff checking to skip files
  * that haven't changed, keeping SharePoint version history clean.
+ *
+ * Each run also writes every file to a dated snapshot folder, Backups/snapshots/{YYYY-MM-DD}/
+ * (a second run on the same day replaces that day's snapshot), then prunes old snapshots:
+ *
+ *   BACKUP_RETENTION_DAYS    keep every snapshot from the last N days (default 30)
+ *   BACKUP_RETENTION_MONTHS  beyond that, keep the first snapshot of each of the last N months (default 12)
+ *
+ * Restoring from Backups/ or a snapshot is in backup-restore.ts.
  */
 
 import crypto from 'crypto';
-import { sharePointClient } from './sharepoint-client';
+import { sharePointClient, utcToLocalDate } from './sharepoint-client';
+import { listStore } from './list-store';
 import { taxonomyClient } from './taxonomy-client';
 import { documentsDriveId } from './documents-drive';
 
-const LISTS = [
-  { name: 'groups',   guid: process.env.GROUPS_LIST_GUID! },
-  { name: 'projects', guid: process.env.PROJECTS_LIST_GUID! },
-  { name: 'sessions', guid: process.env.SESSIONS_LIST_GUID! },
-  { name: 'entries',  guid: process.env.ENTRIES_LIST_GUID! },
-  { name: 'profiles', guid: process.env.PROFILES_LIST_GUID! },
-  { name: 'regulars', guid: process.env.REGULARS_LIST_GUID! },
-  { name: 'records',  guid: process.env.RECORDS_LIST_GUID! },
+export const SNAPSHOT_FOLDER = 'Backups/snapshots';
+
+/**
+ * Lists in the backup, in restore order — lookup targets before the lists that point at them.
+ * Organisations is optional: it's skipped when ORGANISATIONS_LIST_GUID isn't set, and snapshots
+ * taken before it was added simply don't have it.
+ */
+export const BACKUP_LISTS: Array<{ name: string; guid: string; optional?: boolean }> = [
+  { name: 'groups',        guid: process.env.GROUPS_LIST_GUID! },
+  { name: 'projects',      guid: process.env.PROJECTS_LIST_GUID! },
+  { name: 'profiles',      guid: process.env.PROFILES_LIST_GUID! },
+  { name: 'sessions',      guid: process.env.SESSIONS_LIST_GUID! },
+  { name: 'organisations', guid: process.env.ORGANISATIONS_LIST_GUID!, optional: true },
+  { name: 'entries',       guid: process.env.ENTRIES_LIST_GUID! },
+  { name: 'regulars',      guid: process.env.REGULARS_LIST_GUID! },
+  { name: 'records',       guid: process.env.RECORDS_LIST_GUID! },
 ];
 
 export interface BackupResult {
   updated: string[];
   skipped: string[];
+  /** Snapshot folder name written this run (YYYY-MM-DD) */
+  snapshot: string;
+  /** Snapshot folders deleted by the retention policy */
+  pruned: string[];
 }
 
 function sha256(content: string): string {
@@ -36,17 +57,75 @@ async function hasChanged(driveId: string, filePath: string, newContent: string)
   return sha256(existing.toString('utf8')) !== sha256(newContent);
 }
 
+/**
+ * Snapshot folder names (YYYY-MM-DD) that fall outside the retention policy: older than
+ * `days` days and not the first snapshot of one of the last `months` calendar months.
+ */
+export function snapshotsToPrune(names: string[], today: string, days: number, months: number): string[] {
+  const dated = names.filter(n => /^\d{4}-\d{2}-\d{2}$/.test(n)).sort();
+  const todayMs = Date.parse(`${today}T00:00:00Z`);
+  const dayCutoff = new Date(todayMs - days * 86_400_000).toISOString().slice(0, 10);
+  const monthCutoff = new Date(todayMs);
+  monthCutoff.setUTCDate(1);
+  monthCutoff.setUTCMonth(monthCutoff.getUTCMonth() - (months - 1));
+  const firstMonthKept = monthCutoff.toISOString().slice(0, 7);
+
+  const firstOfMonth = new Set<string>();
+  const seenMonths = new Set<string>();
+  for (const name of dated) {
+    const month = name.slice(0, 7);
+    if (!seenMonths.has(month)) {
+      seenMonths.add(month);
+      firstOfMonth.add(name);
+    }
+  }
+
+  return dated.filter(name =>
+    name < dayCutoff && !(months > 0 && firstOfMonth.has(name) && name.slice(0, 7) >= firstMonthKept)
+  );
+}
+
+/** BACKUP_RETENTION_DAYS / _MONTHS; a blank, non-numeric or negative value falls back to the default */
+export function backupRetention(): { days: number; months: number } {
+  const setting = (name: string, fallback: number) => {
+    const value = parseInt(process.env[name] || '', 10);
+    return Number.isFinite(value) && value >= 0 ? value : fallback;
+  };
+  return { days: setting('BACKUP_RETENTION_DAYS', 30), months: setting('BACKUP_RETENTION_MONTHS', 12) };
+}
+
+async function pruneSnapshots(driveId: string, today: string): Promise<string[]> {
+  const { days, months } = backupRetention();
+  const folders = await sharePointClient.listDriveSubfolders(driveId, SNAPSHOT_FOLDER);
+  const prune = new Set(snapshotsToPrune(folders.map(f => f.name), today, days, months));
+
+  const pruned: string[] = [];
+  for (const folder of folders.filter(f => prune.has(f.name))) {
+    try {
+      await sharePointClient.deleteDriveItem(driveId, folder.id);
+      pruned.push(folder.name);
+    } catch (err: any) {
+      console.error(`[Backup] Failed to prune snapshot ${folder.name}:`, err.message);
+    }
+  }
+  if (pruned.length) console.log(`[Backup] Pruned ${pruned.length} snapshot(s): ${pruned.join(', ')}`);
+  return pruned;
+}
+
 export async function runBackupExport(): Promise<BackupResult> {
   const driveId = documentsDriveId();
 
   const updated: string[] = [];
   const skipped: string[] = [];
+  const files: Array<{ name: string; json: string }> = [];
 
   // Data files — sorted by ID for stable ordering across runs
-  for (const list of LISTS) {
-    const items = await sharePointClient.getListItems(list.guid);
+  for (const list of BACKUP_LISTS) {
+    if (list.optional && !list.guid) continue;
+    const items = await listStore.getListItems(list.guid);
     const sorted = [...items].sort((a: any, b: any) => a.ID - b.ID);
     const json = JSON.stringify(sorted, null, 2);
+    files.push({ name: list.name, json });
     const path = `Backups/${list.name}.json`;
     if (await hasChanged(driveId, path, json)) {
       await sharePointClient.uploadFile(driveId, path, Buffer.from(json), 'application/json');
@@ -60,6 +139,7 @@ export async function runBackupExport(): Promise<BackupResult> {
   if (process.env.TAXONOMY_TERM_SET_ID) {
     const tree = await taxonomyClient.getTermSetTree(process.env.TAXONOMY_TERM_SET_ID);
     const json = JSON.stringify({ termSetId: process.env.TAXONOMY_TERM_SET_ID, tree }, null, 2);
+    files.push({ name: 'taxonomy', json });
     const path = 'Backups/taxonomy.json';
     if (await hasChanged(driveId, path, json)) {
       await sharePointClient.uploadFile(driveId, path, Buffer.from(json), 'application/json');
@@ -75,6 +155,7 @@ export async function runBackupExport(): Promise<BackupResult> {
   const lists = await sharePointClient.getAllListsWithColumns();
   const schemaJson = JSON.stringify({ lists }, (key, value) => VOLATILE_KEYS.has(key) ? undefined : value, 2);
   const schemaPath = 'Backups/schema.json';
+  files.push({ name: 'schema', json: schemaJson });
   if (await hasChanged(driveId, schemaPath, schemaJson)) {
     await sharePointClient.uploadFile(driveId, schemaPath, Buffer.from(schemaJson), 'application/json');
     updated.push('schema');
@@ -82,5 +163,12 @@ export async function runBackupExport(): Promise<BackupResult> {
     skipped.push('schema');
   }
 
-  return { updated, skipped };
+  // Point-in-time snapshot — every file, unchanged or not, so each folder is a complete restore source
+  const snapshot = utcToLocalDate(new Date().toISOString());
+  for (const file of files) {
+    await sharePointClient.uploadFile(driveId, `${SNAPSHOT_FOLDER}/${snapshot}/${file.name}.json`, Buffer.from(file.json), 'application/json');
+  }
+  const pruned = await pruneSnapshots(driveId, snapshot);
+
+  return { updated, skipped, snapshot, pruned };
 }
@@ -0,0 +1,254 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+
+const { files, holder } = vi.hoisted(() => {
+  for (const name of ['groups', 'projects', 'sessions', 'organisations', 'entries', 'profiles', 'regulars', 'records']) {
+    process.env[`${name.toUpperCase()}_LIST_GUID`] = name
+  }
+  process.env.DOCUMENTS_DRIVE_ID = 'drive-1'
+  return { files: {} as Record<string, unknown>, holder: { current: null as any } }
+})
+
+vi.mock('./sharepoint-client', async () => ({
+  ...await vi.importActual<typeof import('./sharepoint-client')>('./sharepoint-client'),
+  sharePointClient: {
+    downloadFile: vi.fn(async (_driveId: string, filePath: string) =>
+      filePath in files ? Buffer.from(JSON.stringify(files[filePath])) : null),
+    listDriveSubfolders: vi.fn(async () => []),
+    clearCache: vi.fn(),
+  },
+}))
+
+vi.mock('./list-store', () => ({
+  listStore: {
+    getListItems: (...args: any[]) => holder.current.getListItems(...args),
+    batchWrite: (...args: any[]) => holder.current.batchWrite(...args),
+  },
+}))
+
+vi.mock('./taxonomy-client', () => ({
+  taxonomyClient: {
+    updateManagedMetadataFields: vi.fn(async (_list: string, _field: string, updates: unknown[]) =>
+      updates.map(() => ({ ok: true, id: 0 }))),
+  },
+}))
+
+import { restoreBackup, BackupRestoreError } from './backup-restore'
+import { snapshotsToPrune, backupRetention } from './backup-export'
+import { taxonomyClient } from './taxonomy-client'
+import { LocalListStore } from './local-list-store'
+import { erasedProfileName } from './gdpr'
+
+const TERM = '3f2a1b4c-0000-4000-8000-000000000001'
+
+/** Backups as Graph returns them: system fields, etag, lookup display values */
+function seedBackup(prefix: string) {
+  const graph = (item: Record<string, unknown>) => ({ '@odata.etag': '"1"', Created: '2026-01-01T00:00:00Z', Modified: '2026-01-01T00:00:00Z', Author: 'Admin', ...item })
+  files[`${prefix}/groups.json`] = [graph({ ID: 1, Title: 'sat' })]
+  files[`${prefix}/projects.json`] = []
+  files[`${prefix}/profiles.json`] = [graph({ ID: 1, Title: 'Alex' }), graph({ ID: 2, Title: 'Sam', Email: 'sam@example.org' })]
+  files[`${prefix}/sessions.json`] = [graph({ ID: 1, Title: '2026-02-07 sat', GroupLookupId: '1', Group: 'sat', Metadata: [{ Label: 'Old name', TermGuid: TERM, WssId: 4 }] })]
+  files[`${prefix}/entries.json`] = [
+    graph({ ID: 1, Title: 'a', SessionLookupId: '1', Session: '2026-02-07 sat', ProfileLookupId: '1', Profile: 'Alex', Hours: 3 }),
+    graph({ ID: 2, Title: 'b', SessionLookupId: '1', Session: '2026-02-07 sat', ProfileLookupId: '2', Profile: 'Sam', Hours: 2 }),
+  ]
+  files[`${prefix}/regulars.json`] = []
+  files[`${prefix}/records.json`] = [graph({ ID: 1, ProfileLookupId: '2', Profile: 'Sam', Type: 'Privacy Consent', Status: 'Accepted' })]
+  files[`${prefix}/taxonomy.json`] = { termSetId: 'set', tree: [{ label: 'Hedge laying', id: TERM }] }
+  files[`${prefix}/schema.json`] = {
+    lists: [{ id: 'profiles', name: 'Profiles', columns: [{ name: 'Title' }, { name: 'Email' }, { name: 'Stats', readOnly: true }] }]
+  }
+}
+
+/** Current state: Sam (profile 2), Sam's entry and record deleted; Alex's hours edited; a profile added since */
+function seedCurrent(dir: string) {
+  const write = (name: string, items: unknown[]) => fs.writeFileSync(path.join(dir, `${name}.json`), JSON.stringify(items))
+  write('groups', [{ ID: 1, Title: 'sat' }])
+  write('profiles', [{ ID: 1, Title: 'Alex' }, { ID: 3, Title: 'New volunteer' }])
+  write('sessions', [{ ID: 1, Title: '2026-02-07 sat', GroupLookupId: '1', Metadata: [{ Label: 'Hedge laying', TermGuid: TERM }] }])
+  write('entries', [{ ID: 1, Title: 'a', SessionLookupId: '1', ProfileLookupId: '1', Hours: 5, Notes: 'added later' }])
+  write('records', [])
+}
+
+let dir: string
+let drillDir: string
+
+beforeEach(() => {
+  vi.clearAllMocks()
+  vi.spyOn(console, 'log').mockImplementation(() => {})
+  for (const key of Object.keys(files)) delete files[key]
+  dir = fs.mkdtempSync(path.join(os.tmpdir(), 'restore-'))
+  drillDir = fs.mkdtempSync(path.join(os.tmpdir(), 'restore-drill-'))
+  process.env.BACKUP_RESTORE_DIR = drillDir
+  seedCurrent(dir)
+  holder.current = new LocalListStore(dir)
+})
+
+afterEach(() => {
+  fs.rmSync(dir, { recursive: true, force: true })
+  fs.rmSync(drillDir, { recursive: true, force: true })
+})
+
+describe('restoreBackup', () => {
+  it('plans per list without writing on a dry run', async () => {
+    seedBackup('Backups')
+    const result = await restoreBackup()
+
+    expect(result).toMatchObject({ snapshot: 'latest', target: 'live', dryRun: true })
+    const byList = Object.fromEntries(result.lists.map(l => [l.list, l]))
+    expect(byList.profiles).toMatchObject({ create: 1, update: 0, unchanged: 1, extra: 1 })
+    expect(byList.entries).toMatchObject({ create: 1, update: 1 })
+    expect(byList.entries.changes).toContainEqual({ id: 1, action: 'update', fields: ['Hours', 'Notes'] })
+    expect(byList.sessions).toMatchObject({ unchanged: 1 })
+    expect((await holder.current.getListItems('profiles')).map((p: any) => p.Title)).toEqual(['Alex', 'New volunteer'])
+  })
+
+  it('recreates deleted items and points their lookups at the new IDs', async () => {
+    seedBackup('Backups/snapshots/2026-02-08')
+    const result = await restoreBackup({ snapshot: '2026-02-08', dryRun: false })
+
+    const profiles = await holder.current.getListItems('profiles')
+    const sam = profiles.find((p: any) => p.Title === 'Sam')
+    expect(sam.ID).toBe(4)
+    expect(sam.Email).toBe('sam@example.org')
+    expect(sam.Author).toBeUndefined()
+    expect(profiles.map((p: any) => p.Title)).toContain('New volunteer')
+    expect(result.lists.find(l => l.list === 'profiles')!.changes).toContainEqual(expect.objectContaining({ id: 2, newId: 4 }))
+
+    const entries = await holder.current.getListItems('entries')
+    expect(entries.find((e: any) => e.Title === 'b').ProfileLookupId).toBe('4')
+    const alex = entries.find((e: any) => e.ID === 1)
+    expect(alex.Hours).toBe(3)
+    expect(alex.Notes).toBeUndefined()
+    expect((await holder.current.getListItems('records'))[0].ProfileLookupId).toBe('4')
+  })
+
+  it('points a lookup within the same list at the recreated item', async () => {
+    seedBackup('Backups')
+    files['Backups/profiles.json'] = [
+      { ID: 1, Title: 'Alex', GuardianLookupId: '2', Guardian: 'Sam' },
+      { ID: 2, Title: 'Sam', Email: 'sam@example.org' },
+      { ID: 5, Title: 'Robin', GuardianLookupId: '2', Guardian: 'Sam' },
+    ]
+
+    const result = await restoreBackup({ lists: ['profiles'], dryRun: false })
+
+    const profiles = await holder.current.getListItems('profiles')
+    const sam = profiles.find((p: any) => p.Title === 'Sam')
+    expect(profiles.find((p: any) => p.Title === 'Alex').GuardianLookupId).toBe(String(sam.ID))
+    expect(profiles.find((p: any) => p.Title === 'Robin').GuardianLookupId).toBe(String(sam.ID))
+    expect(result.lists[0].warnings).toEqual([])
+  })
+
+  it('restores organisations before entries and remaps their Organisation lookup', async () => {
+    seedBackup('Backups')
+    files['Backups/organisations.json'] = [{ ID: 1, Title: 'Acme' }, { ID: 2, Title: 'Globex' }]
+    ;(files['Backups/entries.json'] as any[])[1].OrganisationLookupId = '2'
+    fs.writeFileSync(path.join(dir, 'organisations.json'), JSON.stringify([{ ID: 1, Title: 'Acme' }, { ID: 3, Title: 'Initech' }]))
+    holder.current = new LocalListStore(dir)
+
+    const result = await restoreBackup({ dryRun: false })
+
+    expect(result.lists.map(l => l.list)).toEqual(['groups', 'projects', 'profiles', 'sessions', 'organisations', 'entries', 'regulars', 'records'])
+    const globex = (await holder.current.getListItems('organisations')).find((o: any) => o.Title === 'Globex')
+    expect(globex.ID).toBe(4)
+    const entries = await holder.current.getListItems('entries')
+    expect(entries.find((e: any) => e.Title === 'b').OrganisationLookupId).toBe('4')
+  })
+
+  it('restores a snapshot taken before organisations were backed up', async () => {
+    seedBackup('Backups')
+    const result = await restoreBackup()
+
+    expect(result.lists.map(l => l.list)).not.toContain('organisations')
+  })
+
+  it('does not bring back the personal data of a volunteer erased since the snapshot', async () => {
+    seedBackup('Backups')
+    files['Backups/entries.json'] = [
+      { ID: 1, Title: 'a', SessionLookupId: '1', ProfileLookupId: '1', Hours: 3, BookedBy: 'sam@example.org' },
+      { ID: 2, Title: 'b', SessionLookupId: '1', ProfileLookupId: '2', Hours: 2, Notes: 'Allergic to wasps', BookedBy: 'sam@example.org' },
+    ]
+    files['Backups/regulars.json'] = [{ ID: 1, ProfileLookupId: '2', GroupLookupId: '1' }]
+    // As eraseProfile leaves it: renamed and emptied, entry kept without notes, record and regular deleted
+    const write = (name: string, items: unknown[]) => fs.writeFileSync(path.join(dir, `${name}.json`), JSON.stringify(items))
+    write('profiles', [{ ID: 1, Title: 'Alex' }, { ID: 2, Title: erasedProfileName(2), Email: '' }])
+    write('entries', [{ ID: 2, Title: 'b', SessionLookupId: '1', ProfileLookupId: '2', Hours: 2 }])
+    write('regulars', [])
+    holder.current = new LocalListStore(dir)
+
+    const result = await restoreBackup({ dryRun: false })
+
+    const profiles = await holder.current.getListItems('profiles')
+    expect(profiles.find((p: any) => p.ID === 2)).toMatchObject({ Title: 'Erased volunteer 2', Email: '' })
+    const entries = await holder.current.getListItems('entries')
+    expect(entries.find((e: any) => e.ID === 2).Notes).toBeUndefined()
+    expect(entries.find((e: any) => e.Title === 'a')).toMatchObject({ Hours: 3, BookedBy: '' })
+    expect(await holder.current.getListItems('records')).toEqual([])
+    expect(await holder.current.getListItems('regulars')).toEqual([])
+    expect(result.lists.find(l => l.list === 'profiles')!.warnings).toContain('1 item(s) of erased volunteers left as they are')
+  })
+
+  it('re-applies taxonomy terms with labels from taxonomy.json', async () => {
+    seedBackup('Backups')
+    fs.writeFileSync(path.join(dir, 'sessions.json'), JSON.stringify([{ ID: 1, Title: '2026-02-07 sat', GroupLookupId: '1' }]))
+    holder.current = new LocalListStore(dir)
+
+    await restoreBackup({ lists: ['sessions'], dryRun: false })
+    expect(taxonomyClient.updateManagedMetadataFields).toHaveBeenCalledWith(
+      'sessions', 'Metadata', [{ itemId: 1, tags: [{ label: 'Hedge laying', termGuid: TERM }] }]
+    )
+  })
+
+  it('restores into a separate local store for a drill, leaving the live lists alone', async () => {
+    seedBackup('Backups')
+    const result = await restoreBackup({ target: 'local', dryRun: false })
+
+    expect(result.target).toBe('local')
+    const drill = new LocalListStore(drillDir)
+    expect((await drill.getListItems('profiles')).map((p: any) => p.Title)).toEqual(['Alex', 'Sam'])
+    const sessions = await drill.getListItems('sessions')
+    expect(sessions[0].Metadata).toEqual([{ Label: 'Hedge laying', TermGuid: TERM }])
+    expect((await drill.getListItems('entries')).map((e: any) => e.ProfileLookupId)).toEqual(['1', '2'])
+    expect(taxonomyClient.updateManagedMetadataFields).not.toHaveBeenCalled()
+    expect(await holder.current.getListItems('records')).toEqual([])
+  })
+
+  it('rejects a bad snapshot name, unknown lists and a missing snapshot', async () => {
+    await expect(restoreBackup({ snapshot: '../etc' })).rejects.toMatchObject({ statusCode: 400 })
+    await expect(restoreBackup({ lists: ['nope'] })).rejects.toBeInstanceOf(BackupRestoreError)
+    await expect(restoreBackup({ snapshot: '2020-01-01' })).rejects.toMatchObject({ statusCode: 404 })
+  })
+})
+
+describe('snapshotsToPrune', () => {
+  const names = ['2025-01-03', '2025-01-20', '2025-11-01', '2025-11-02', '2026-01-05', '2026-01-06', '2026-02-01', 'notes']
+
+  it('keeps recent days and the first snapshot of each retained month', () => {
+    expect(snapshotsToPrune(names, '2026-02-10', 30, 12)).toEqual(['2025-01-03', '2025-01-20', '2025-11-02', '2026-01-06'])
+  })
+
+  it('keeps only the day window when months is 0', () => {
+    expect(snapshotsToPrune(names, '2026-02-10', 7, 0)).toEqual(names.slice(0, 7))
+  })
+})
+
+describe('backupRetention', () => {
+  afterEach(() => {
+    delete process.env.BACKUP_RETENTION_DAYS
+    delete process.env.BACKUP_RETENTION_MONTHS
+  })
+
+  it('reads the env settings and falls back to the defaults for blank, non-numeric or negative values', () => {
+    process.env.BACKUP_RETENTION_DAYS = '7'
+    process.env.BACKUP_RETENTION_MONTHS = '0'
+    expect(backupRetention()).toEqual({ days: 7, months: 0 })
+
+    process.env.BACKUP_RETENTION_DAYS = 'thirty'
+    process.env.BACKUP_RETENTION_MONTHS = '-1'
+    expect(backupRetention()).toEqual({ days: 30, months: 12 })
+    expect(() => snapshotsToPrune(['2026-01-01'], '2026-02-10', backupRetention().days, backupRetention().months)).not.toThrow()
+  })
+})
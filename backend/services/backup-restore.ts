@@ -0,0 +1,412 @@
+/**
+ * Backup restore — puts list data back from Backups/ (latest) or a dated snapshot.
+ *
+ * Per list, each backed-up item is matched to the current item with the same ID:
+ *   - missing now (deleted since)  → recreated; SharePoint gives it a new ID
+ *   - present with other values    → updated back to the backup values (fields added since are cleared)
+ *   - present and identical        → left alone
+ * Items created after the backup are reported as `extra` and never deleted.
+ *
+ * Lists are restored in BACKUP_LISTS order so a recreated profile/session already has its new ID
+ * when entries, regulars and records that point at it are written — lookup IDs are remapped.
+ * Lookups within one list (a child profile's Guardian) are remapped in a second pass once that
+ * list's recreated items have their IDs.
+ * Taxonomy fields are written separately (Graph can't PATCH them directly) with labels taken from
+ * the snapshot's taxonomy.json. Writable columns come from the snapshot's schema.json when it has
+ * the list, otherwise system and lookup display fields are skipped by name.
+ *
+ * Volunteers erased since the snapshot (gdpr.ts) stay erased: their profile, records and regulars
+ * are left as they are now, and their entries are only recreated if deleted — without Notes or
+ * BookedBy, which is also cleared on other entries booked with an email they had.
+ *
+ * dryRun (the default) plans without writing. target 'local' restores into a LocalListStore at
+ * BACKUP_RESTORE_DIR (default .restore-drill/) for disaster-recovery drills.
+ */
+
+import { sharePointClient } from './sharepoint-client';
+import { listStore, type ListStore, type BatchWriteOp } from './list-store';
+import { LocalListStore } from './local-list-store';
+import { taxonomyClient } from './taxonomy-client';
+import { documentsDriveId } from './documents-drive';
+import { BACKUP_LISTS, SNAPSHOT_FOLDER } from './backup-export';
+import { erasedProfileName } from './gdpr';
+import { parseEmails, safeParseLookupId } from './data-layer';
+import {
+  GROUP_LOOKUP, SESSION_LOOKUP, PROFILE_LOOKUP, PROJECT_LOOKUP, ACCOMPANYING_ADULT_LOOKUP, PROFILE_GUARDIAN_LOOKUP,
+  ENTRY_ORGANISATION_LOOKUP
+} from './field-names';
+
+export class BackupRestoreError extends Error {
+  constructor(message: string, readonly statusCode: number) {
+    super(message);
+    this.name = 'BackupRestoreError';
+  }
+}
+
+/** Lookup columns that point at another backed-up list, by list name */
+const LOOKUP_TARGETS: Record<string, Record<string, string>> = {
+  profiles: { [PROFILE_GUARDIAN_LOOKUP]: 'profiles' },
+  sessions: { [GROUP_LOOKUP]: 'groups', [PROJECT_LOOKUP]: 'projects' },
+  entries:  {
+    [SESSION_LOOKUP]: 'sessions', [PROFILE_LOOKUP]: 'profiles', [ACCOMPANYING_ADULT_LOOKUP]: 'profiles',
+    [ENTRY_ORGANISATION_LOOKUP]: 'organisations'
+  },
+  regulars: { [PROFILE_LOOKUP]: 'profiles', [GROUP_LOOKUP]: 'groups', [ACCOMPANYING_ADULT_LOOKUP]: 'profiles' },
+  records:  { [PROFILE_LOOKUP]: 'profiles' },
+};
+
+const SYSTEM_FIELDS = new Set([
+  'ID', 'id', 'Created', 'Modified', 'Author', 'Editor', 'AuthorLookupId', 'EditorLookupId',
+  'AppAuthorLookupId', 'AppEditorLookupId', 'ContentType', 'Attachments', 'Edit', 'LinkTitle',
+  'LinkTitleNoMenu', 'ItemChildCount', 'FolderChildCount', 'DocIcon',
+]);
+
+/** Sample of changes returned per list — counts are always complete */
+const MAX_CHANGES_LISTED = 100;
+
+export interface RestoreOptions {
+  /** 'latest' (Backups/ itself) or a snapshot folder name, YYYY-MM-DD */
+  snapshot?: string;
+  /** List names to restore; default all */
+  lists?: string[];
+  /** Plan only — default true */
+  dryRun?: boolean;
+  target?: 'live' | 'local';
+}
+
+export interface RestoreChange {
+  id: number;
+  action: 'create' | 'update';
+  fields: string[];
+  /** ID given to a recreated item */
+  newId?: number;
+  error?: string;
+}
+
+export interface ListRestoreResult {
+  list: string;
+  create: number;
+  update: number;
+  unchanged: number;
+  extra: number;
+  failed: number;
+  changes: RestoreChange[];
+  warnings: string[];
+}
+
+export interface RestoreResult {
+  snapshot: string;
+  target: 'live' | 'local';
+  dryRun: boolean;
+  lists: ListRestoreResult[];
+}
+
+interface TermNode { label: string; id: string; children?: TermNode[] }
+type TermTags = Array<{ label: string; termGuid: string }>;
+
+function snapshotPath(snapshot: string, file: string): string {
+  return snapshot === 'latest' ? `Backups/${file}.json` : `${SNAPSHOT_FOLDER}/${snapshot}/${file}.json`;
+}
+
+async function readSnapshotFile(driveId: string, snapshot: string, file: string): Promise<any | null> {
+  const buffer = await sharePointClient.downloadFile(driveId, snapshotPath(snapshot, file));
+  return buffer ? JSON.parse(buffer.toString('utf8')) : null;
+}
+
+/** Snapshot folder names, newest first */
+export async function listBackupSnapshots(): Promise<string[]> {
+  const folders = await sharePointClient.listDriveSubfolders(documentsDriveId(), SNAPSHOT_FOLDER);
+  return folders.map(f => f.name).filter(n => /^\d{4}-\d{2}-\d{2}$/.test(n)).sort().reverse();
+}
+
+/** Profiles erased since the snapshot, and the emails the snapshot still holds for them */
+async function erasedProfiles(store: ListStore, driveId: string, snapshot: string): Promise<{ ids: Set<number>; emails: Set<string> }> {
+  const profilesGuid = BACKUP_LISTS.find(l => l.name === 'profiles')!.guid;
+  const current = await store.getListItems(profilesGuid);
+  const ids = new Set<number>(current.filter(p => p.Title === erasedProfileName(p.ID)).map(p => p.ID));
+  const emails = new Set<string>();
+  if (ids.size) {
+    const backedUp: any[] = await readSnapshotFile(driveId, snapshot, 'profiles') ?? [];
+    for (const p of backedUp) {
+      if (ids.has(p.ID)) for (const email of parseEmails(p.Email)) emails.add(email);
+    }
+  }
+  return { ids, emails };
+}
+
+function flattenTerms(nodes: TermNode[], into = new Map<string, string>()): Map<string, string> {
+  for (const node of nodes) {
+    into.set(node.id.toLowerCase(), node.label);
+    if (node.children) flattenTerms(node.children, into);
+  }
+  return into;
+}
+
+function isTaxonomyValue(value: unknown): value is Array<{ Label?: string; TermGuid: string }> {
+  return Array.isArray(value) && value.length > 0 && value.every(v => v && typeof v === 'object' && 'TermGuid' in v);
+}
+
+/** Column names the restore may write for a list, from schema.json; null when the schema doesn't have it */
+function writableColumns(schema: any, guid: string, name: string): Set<string> | null {
+  const list = (schema?.lists ?? []).find((l: any) =>
+    l.id === guid || String(l.name ?? '').toLowerCase() === name || String(l.displayName ?? '').toLowerCase() === name
+  );
+  if (!list?.columns) return null;
+  const columns = new Set<string>();
+  for (const col of list.columns) {
+    if (col.readOnly || col.hidden) continue;
+    columns.add(col.lookup ? `${col.name}LookupId` : col.name);
+  }
+  return columns;
+}
+
+/**
+ * Split a backed-up item into plain writable fields and taxonomy fields, remapping lookups to
+ * recreated items. Exported for tests.
+ */
+export function restorableFields(
+  item: Record<string, any>,
+  listName: string,
+  columns: Set<string> | null,
+  idMaps: Map<string, Map<number, number>>
+): { fields: Record<string, any>; taxonomy: Record<string, TermTags> } {
+  const fields: Record<string, any> = {};
+  const taxonomy: Record<string, TermTags> = {};
+  const lookups = LOOKUP_TARGETS[listName] ?? {};
+
+  for (const [key, value] of Object.entries(item)) {
+    if (SYSTEM_FIELDS.has(key) || key.startsWith('_') || key.startsWith('@') || key.includes('@odata')) continue;
+    if (`${key}LookupId` in item) continue; // lookup display value — the LookupId is written instead
+    if (columns && !columns.has(key)) continue;
+
+    if (isTaxonomyValue(value)) {
+      taxonomy[key] = value.map(t => ({ label: t.Label ?? '', termGuid: t.TermGuid }));
+    } else if (lookups[key] && value !== null && value !== undefined && value !== '') {
+      const oldId = parseInt(String(value), 10);
+      fields[key] = String(idMaps.get(lookups[key])?.get(oldId) ?? oldId);
+    } else {
+      fields[key] = value;
+    }
+  }
+  return { fields, taxonomy };
+}
+
+function sameValue(a: unknown, b: unknown): boolean {
+  if ((a === undefined || a === null || a === '') && (b === undefined || b === null || b === '')) return true;
+  if (typeof a === 'number' || typeof b === 'number') return String(a) === String(b);
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+function sameTerms(a: TermTags = [], b: TermTags = []): boolean {
+  const guids = (tags: TermTags) => tags.map(t => t.termGuid.toLowerCase()).sort().join(',');
+  return guids(a) === guids(b);
+}
+
+async function writeTaxonomy(
+  store: ListStore,
+  target: 'live' | 'local',
+  guid: string,
+  field: string,
+  updates: Array<{ itemId: number; tags: TermTags }>
+): Promise<number> {
+  if (updates.length === 0) return 0;
+  // A local drill writes the offline shape straight into the drill store; live goes through the hidden note field
+  const results = target === 'local'
+    ? await store.batchWrite(guid, updates.map(u => ({
+        op: 'update' as const,
+        id: u.itemId,
+        fields: { [field]: u.tags.map(t => ({ Label: t.label, TermGuid: t.termGuid })) }
+      })))
+    : await taxonomyClient.updateManagedMetadataFields(guid, field, updates);
+  return results.filter(r => !r.ok).length;
+}
+
+export async function restoreBackup(options: RestoreOptions = {}): Promise<RestoreResult> {
+  const snapshot = options.snapshot || 'latest';
+  if (snapshot !== 'latest' && !/^\d{4}-\d{2}-\d{2}$/.test(snapshot)) {
+    throw new BackupRestoreError('snapshot must be "latest" or a date (YYYY-MM-DD)', 400);
+  }
+  const dryRun = options.dryRun !== false;
+  const target = options.target === 'local' ? 'local' : 'live';
+  const unknown = (options.lists ?? []).filter(name => !BACKUP_LISTS.some(l => l.name === name));
+  if (unknown.length) {
+    throw new BackupRestoreError(`Unknown list(s): ${unknown.join(', ')}`, 400);
+  }
+  const lists = (options.lists?.length ? BACKUP_LISTS.filter(l => options.lists!.includes(l.name)) : BACKUP_LISTS)
+    .filter(l => !l.optional || l.guid);
+
+  const driveId = documentsDriveId();
+  const store: ListStore = target === 'local'
+    ? new LocalListStore(process.env.BACKUP_RESTORE_DIR || '.restore-drill')
+    : listStore;
+
+  const [schema, taxonomy] = await Promise.all([
+    readSnapshotFile(driveId, snapshot, 'schema'),
+    readSnapshotFile(driveId, snapshot, 'taxonomy'),
+  ]);
+  const termLabels = flattenTerms(taxonomy?.tree ?? []);
+  const erased = await erasedProfiles(store, driveId, snapshot);
+
+  // Backup ID → new ID for recreated items, per list — filled as each list is written
+  const idMaps = new Map<string, Map<number, number>>();
+  const results: ListRestoreResult[] = [];
+
+  for (const list of lists) {
+    const backupItems: any[] | null = await readSnapshotFile(driveId, snapshot, list.name);
+    if (!backupItems) {
+      if (list.optional) continue; // snapshot predates the list
+      throw new BackupRestoreError(`${snapshotPath(snapshot, list.name)} not found`, 404);
+    }
+
+    const warnings: string[] = [];
+    if (!schema) warnings.push('schema.json missing — writable fields chosen by name');
+    const columns = writableColumns(schema, list.guid, list.name);
+    const current = await store.getListItems(list.guid);
+    const currentById = new Map<number, any>(current.map(item => [item.ID, item]));
+    const backupIds = new Set(backupItems.map(item => item.ID));
+
+    const creates: Array<{ oldId: number; fields: Record<string, any>; taxonomy: Record<string, TermTags> }> = [];
+    const updates: Array<{ id: number; fields: Record<string, any>; taxonomy: Record<string, TermTags> }> = [];
+    let unchanged = 0;
+    let erasedKept = 0;
+
+    for (const item of backupItems) {
+      const ownerId = list.name === 'profiles' ? item.ID : safeParseLookupId(item[PROFILE_LOOKUP]);
+      const erasedOwner = ownerId !== undefined && erased.ids.has(ownerId);
+      if (erasedOwner && (list.name !== 'entries' || currentById.has(item.ID))) {
+        erasedKept++;
+        continue;
+      }
+
+      const restored = restorableFields(item, list.name, columns, idMaps);
+      if (list.name === 'entries') {
+        if (erasedOwner && 'Notes' in restored.fields) restored.fields.Notes = '';
+        if (erasedOwner || erased.emails.has(String(restored.fields.BookedBy ?? '').trim().toLowerCase())) {
+          if ('BookedBy' in restored.fields) restored.fields.BookedBy = '';
+        }
+      }
+
+      // Re-apply terms with their labels from taxonomy.json; terms no longer in the set keep the backed-up label
+      for (const [field, tags] of Object.entries(restored.taxonomy)) {
+        restored.taxonomy[field] = tags.map(t => {
+          const label = termLabels.get(t.termGuid.toLowerCase());
+          if (!label && termLabels.size > 0) warnings.push(`Item ${item.ID}: term ${t.label} (${t.termGuid}) not in taxonomy.json`);
+          return { label: label ?? t.label, termGuid: t.termGuid };
+        });
+      }
+
+      const existing = currentById.get(item.ID);
+      if (!existing) {
+        creates.push({ oldId: item.ID, ...restored });
+        continue;
+      }
+
+      const now = restorableFields(existing, list.name, columns, new Map());
+      const changed: Record<string, any> = {};
+      for (const key of new Set([...Object.keys(restored.fields), ...Object.keys(now.fields)])) {
+        if (!sameValue(restored.fields[key], now.fields[key])) changed[key] = restored.fields[key] ?? null;
+      }
+      const taxonomyChanged: Record<string, TermTags> = {};
+      for (const key of new Set([...Object.keys(restored.taxonomy), ...Object.keys(now.taxonomy)])) {
+        if (!sameTerms(restored.taxonomy[key], now.taxonomy[key])) taxonomyChanged[key] = restored.taxonomy[key] ?? [];
+      }
+
+      if (Object.keys(changed).length || Object.keys(taxonomyChanged).length) {
+        updates.push({ id: item.ID, fields: changed, taxonomy: taxonomyChanged });
+      } else {
+        unchanged++;
+      }
+    }
+
+    if (erasedKept) warnings.push(`${erasedKept} item(s) of erased volunteers left as they are`);
+
+    const changes: RestoreChange[] = [
+      ...creates.map(c => ({ id: c.oldId, action: 'create' as const, fields: [...Object.keys(c.fields), ...Object.keys(c.taxonomy)] })),
+      ...updates.map(u => ({ id: u.id, action: 'update' as const, fields: [...Object.keys(u.fields), ...Object.keys(u.taxonomy)] })),
+    ];
+    let failed = 0;
+
+    if (!dryRun) {
+      const ops: BatchWriteOp[] = [
+        ...creates.map(c => ({ op: 'create' as const, fields: c.fields })),
+        ...updates.filter(u => Object.keys(u.fields).length).map(u => ({ op: 'update' as const, id: u.id, fields: u.fields })),
+      ];
+      const writeResults = await store.batchWrite(list.guid, ops);
+
+      const idMap = new Map<number, number>();
+      const taxonomyWrites = new Map<string, Array<{ itemId: number; tags: TermTags }>>();
+      const queueTaxonomy = (itemId: number, fields: Record<string, TermTags>) => {
+        for (const [field, tags] of Object.entries(fields)) {
+          taxonomyWrites.set(field, [...(taxonomyWrites.get(field) ?? []), { itemId, tags }]);
+        }
+      };
+
+      creates.forEach((c, i) => {
+        const result = writeResults[i];
+        const change = changes[i];
+        if (result.ok) {
+          idMap.set(c.oldId, result.id);
+          change.newId = result.id;
+          queueTaxonomy(result.id, c.taxonomy);
+        } else {
+          change.error = result.error;
+          failed++;
+        }
+      });
+      let next = creates.length;
+      updates.forEach((u, i) => {
+        const change = changes[creates.length + i];
+        if (Object.keys(u.fields).length) {
+          const result = writeResults[next++];
+          if (!result.ok) {
+            change.error = result.error;
+            failed++;
+            return;
+          }
+        }
+        queueTaxonomy(u.id, u.taxonomy);
+      });
+      idMaps.set(list.name, idMap);
+
+      // Lookups into this same list were written with backup IDs; point those at recreated items now
+      const selfLookups = Object.entries(LOOKUP_TARGETS[list.name] ?? {})
+        .filter(([, targetList]) => targetList === list.name)
+        .map(([field]) => field);
+      const relinkOps: BatchWriteOp[] = [];
+      for (const item of backupItems) {
+        const id = idMap.get(item.ID) ?? (currentById.has(item.ID) ? item.ID : undefined);
+        if (id === undefined) continue;
+        const fields: Record<string, string> = {};
+        for (const field of selfLookups) {
+          const newId = idMap.get(parseInt(String(item[field]), 10));
+          if (newId !== undefined) fields[field] = String(newId);
+        }
+        if (Object.keys(fields).length) relinkOps.push({ op: 'update', id, fields });
+      }
+      if (relinkOps.length) {
+        const relinkFailed = (await store.batchWrite(list.guid, relinkOps)).filter(r => !r.ok).length;
+        if (relinkFailed) warnings.push(`${relinkFailed} lookup(s) to recreated ${list.name} could not be remapped`);
+      }
+
+      for (const [field, writes] of taxonomyWrites) {
+        const taxonomyFailed = await writeTaxonomy(store, target, list.guid, field, writes);
+        if (taxonomyFailed) warnings.push(`${taxonomyFailed} ${field} taxonomy update(s) failed`);
+      }
+      console.log(`[Restore] ${list.name}: ${creates.length} recreated, ${updates.length} updated, ${failed} failed (${target})`);
+    }
+
+    results.push({
+      list: list.name,
+      create: creates.length,
+      update: updates.length,
+      unchanged,
+      extra: current.filter(item => !backupIds.has(item.ID)).length,
+      failed,
+      changes: changes.slice(0, MAX_CHANGES_LISTED),
+      warnings: [...new Set(warnings)],
+    });
+  }
+
+  if (!dryRun && target === 'live') sharePointClient.clearCache();
+  return { snapshot, target, dryRun, lists: results };
+}
@@ -0,0 +1,210 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import type { SharePointEntry } from '../../types/sharepoint'
+
+vi.mock('./repositories/profiles-repository', () => ({
+  profilesRepository: { getAll: vi.fn(), create: vi.fn(), updateFields: vi.fn() }
+}))
+
+vi.mock('./repositories/entries-repository', () => ({
+  entriesRepository: { getBySessionIds: vi.fn(), create: vi.fn(), createMany: vi.fn() }
+}))
+
+vi.mock('./repositories/regulars-repository', () => ({
+  regularsRepository: { getAll: vi.fn() }
+}))
+
+vi.mock('./repositories/records-repository', () => ({
+  recordsRepository: { getAll: vi.fn(), batchWrite: vi.fn() }
+}))
+
+vi.mock('./repositories/organisations-repository', () => ({
+  organisationsRepository: { configured: true, getAll: vi.fn(), create: vi.fn() }
+}))
+
+vi.mock('./waitlist', () => ({
+  bookingFits: vi.fn()
+}))
+
+import { bookFamily, bookingOptions, linkedChildren, parseBookingRequest, BookingError } from './booking'
+import { profilesRepository } from './repositories/profiles-repository'
+import { entriesRepository } from './repositories/entries-repository'
+import { regularsRepository } from './repositories/regulars-repository'
+import { recordsRepository } from './repositories/records-repository'
+import { organisationsRepository } from './repositories/organisations-repository'
+import { bookingFits } from './waitlist'
+
+const SESSION = { ID: 10, Title: '2099-06-14 Sat', Date: '2099-06-14', GroupLookupId: '1', Created: '', Modified: '' } as any
+
+const ADULT = { ID: 1, Title: 'Alex Davies', Email: 'alex@example.com', Created: '', Modified: '' }
+const SAM = { ID: 2, Title: 'Sam Davies', GuardianLookupId: 1, Created: '', Modified: '' }
+const ELLA = { ID: 3, Title: 'Ella Davies', Created: '', Modified: '' }
+const OTHER = { ID: 4, Title: 'Someone Else', GuardianLookupId: 9, Created: '', Modified: '' }
+
+function record(id: number, profileId: number, type: string, status: string) {
+  return { ID: id, ProfileLookupId: profileId, Type: type, Status: status, Date: '2099-01-01', Created: '', Modified: '' }
+}
+
+function entry(id: number, profileId: number, overrides: Partial<SharePointEntry> = {}): SharePointEntry {
+  return { ID: id, SessionLookupId: '10', ProfileLookupId: String(profileId), Created: '', Modified: '', ...overrides }
+}
+
+const ALL_ACKNOWLEDGED = { privacyAccepted: true, photoConsent: true, childPhotoConsent: false, guardianConfirmed: true, supervisionAcknowledged: true }
+
+beforeEach(() => {
+  vi.clearAllMocks()
+  vi.mocked(profilesRepository.getAll).mockResolvedValue([ADULT, SAM, ELLA, OTHER] as any)
+  vi.mocked(profilesRepository.create).mockResolvedValue(50)
+  vi.mocked(profilesRepository.updateFields).mockResolvedValue(undefined)
+  // Ella came through Eventbrite as a regular the adult accompanies — no Guardian link yet
+  vi.mocked(regularsRepository.getAll).mockResolvedValue([
+    { ID: 1, ProfileLookupId: '3', GroupLookupId: '1', AccompanyingAdultLookupId: 1, Created: '', Modified: '' },
+  ] as any)
+  vi.mocked(entriesRepository.getBySessionIds).mockResolvedValue([])
+  vi.mocked(entriesRepository.create).mockResolvedValue(100)
+  vi.mocked(entriesRepository.createMany).mockImplementation(async items => items.map((_, i) => ({ ok: true as const, id: 101 + i })))
+  vi.mocked(recordsRepository.getAll).mockResolvedValue([])
+  vi.mocked(recordsRepository.batchWrite).mockImplementation(async ops => ops.map((_, i) => ({ ok: true as const, id: 200 + i })))
+  vi.mocked(organisationsRepository.getAll).mockResolvedValue([{ ID: 3, Title: 'Acme Ltd', Created: '', Modified: '' }])
+  vi.mocked(bookingFits).mockResolvedValue(true)
+})
+
+describe('linkedChildren', () => {
+  it('finds children by Guardian link and by regulars the adult accompanies', () => {
+    const children = linkedChildren(1, [ADULT, SAM, ELLA, OTHER] as any, [
+      { ID: 1, ProfileLookupId: '3', AccompanyingAdultLookupId: 1, Created: '', Modified: '' },
+    ] as any)
+    expect(children.map(c => c.ID)).toEqual([3, 2])
+  })
+})
+
+describe('parseBookingRequest', () => {
+  it('defaults to booking the adult alone', () => {
+    expect(parseBookingRequest({})).toMatchObject({ includeSelf: true, childIds: [], newChildren: [], privacyAccepted: false, csr: false })
+    expect(parseBookingRequest({ organisation: 'Acme Ltd' }).organisation).toBeUndefined()
+  })
+
+  it('rejects bad child lists', () => {
+    expect(() => parseBookingRequest({ childIds: ['2'] })).toThrow(BookingError)
+    expect(() => parseBookingRequest({ newChildren: ['  '] })).toThrow('Each new child needs a name')
+  })
+})
+
+describe('bookingOptions', () => {
+  it('lists linked children and the acknowledgements still needed', async () => {
+    vi.mocked(entriesRepository.getBySessionIds).mockResolvedValue([entry(7, 2, { Waitlisted: '2099-01-01T00:00:00Z' })])
+    vi.mocked(recordsRepository.getAll).mockResolvedValue([record(1, 1, 'Privacy Consent', 'Accepted')] as any)
+
+    const options = await bookingOptions(SESSION, ADULT as any)
+
+    expect(options.children).toEqual([
+      { profileId: 3, name: 'Ella Davies', booked: false, waitlisted: false, photoConsent: undefined },
+      { profileId: 2, name: 'Sam Davies', booked: true, waitlisted: true, entryId: 7, photoConsent: undefined },
+    ])
+    expect(options.needsPrivacy).toBe(false)
+    expect(options.needsPhoto).toBe(true)
+  })
+})
+
+describe('bookFamily', () => {
+  it('books the adult, linked and new children, and records the acknowledgements', async () => {
+    const result = await bookFamily(SESSION, ADULT as any, parseBookingRequest({
+      ...ALL_ACKNOWLEDGED, childIds: [3], newChildren: ['Finn Davies'],
+    }))
+
+    expect(entriesRepository.create).toHaveBeenCalledWith({ SessionLookupId: '10', ProfileLookupId: '1' })
+    expect(profilesRepository.create).toHaveBeenCalledWith({ Title: 'Finn Davies', MatchName: 'finn davies', GuardianLookupId: '1' })
+    expect(profilesRepository.updateFields).toHaveBeenCalledWith(3, { GuardianLookupId: '1' })
+    expect(entriesRepository.createMany).toHaveBeenCalledWith([
+      { SessionLookupId: '10', ProfileLookupId: '3', AccompanyingAdultLookupId: '1' },
+      { SessionLookupId: '10', ProfileLookupId: '50', AccompanyingAdultLookupId: '1' },
+    ])
+    expect(bookingFits).toHaveBeenCalledWith(SESSION, 1, [], 1, 2)
+
+    const ops = vi.mocked(recordsRepository.batchWrite).mock.calls[0][0] as any[]
+    const written = ops.map(o => [o.fields.ProfileLookupId, o.fields.Type, o.fields.Status])
+    expect(written).toEqual([
+      [1, 'Privacy Consent', 'Accepted'],
+      [3, 'Privacy Consent', 'Accepted'],
+      [50, 'Privacy Consent', 'Accepted'],
+      [1, 'Photo Consent', 'Accepted'],
+      [3, 'Photo Consent', 'Declined'],
+      [50, 'Photo Consent', 'Declined'],
+      [1, 'Child Supervision', 'Accepted'],
+    ])
+    expect(result.entries.map(e => [e.id, e.profileId, e.child])).toEqual([[100, 1, false], [101, 3, true], [102, 50, true]])
+    expect(result.waitlisted).toBe(false)
+    expect(result.failed).toEqual([])
+  })
+
+  it('adds children to an adult already booked, waitlisting them when over the child limit', async () => {
+    vi.mocked(entriesRepository.getBySessionIds).mockResolvedValue([entry(7, 1)])
+    vi.mocked(recordsRepository.getAll).mockResolvedValue([
+      record(1, 1, 'Privacy Consent', 'Accepted'), record(2, 1, 'Photo Consent', 'Accepted'), record(3, 2, 'Photo Consent', 'Accepted'),
+    ] as any)
+    vi.mocked(bookingFits).mockResolvedValue(false)
+
+    const result = await bookFamily(SESSION, ADULT as any, parseBookingRequest({
+      includeSelf: false, childIds: [2], guardianConfirmed: true, supervisionAcknowledged: true,
+    }))
+
+    expect(entriesRepository.create).not.toHaveBeenCalled()
+    expect(bookingFits).toHaveBeenCalledWith(SESSION, 1, [entry(7, 1)], 0, 1)
+    expect(vi.mocked(entriesRepository.createMany).mock.calls[0][0][0]).toHaveProperty('Waitlisted')
+    expect(result.waitlisted).toBe(true)
+  })
+
+  it('waitlists children added to a waitlisted adult with the adult', async () => {
+    vi.mocked(entriesRepository.getBySessionIds).mockResolvedValue([entry(7, 1, { Waitlisted: '2099-06-01T09:00:00Z' })])
+    vi.mocked(recordsRepository.getAll).mockResolvedValue([
+      record(1, 1, 'Privacy Consent', 'Accepted'), record(2, 1, 'Photo Consent', 'Accepted'), record(3, 2, 'Photo Consent', 'Accepted'),
+    ] as any)
+
+    const result = await bookFamily(SESSION, ADULT as any, parseBookingRequest({
+      includeSelf: false, childIds: [2], guardianConfirmed: true, supervisionAcknowledged: true,
+    }))
+
+    expect(bookingFits).not.toHaveBeenCalled()
+    expect(entriesRepository.createMany).toHaveBeenCalledWith([
+      { SessionLookupId: '10', ProfileLookupId: '2', AccompanyingAdultLookupId: '1', Waitlisted: '2099-06-01T09:00:00Z' },
+    ])
+    expect(result.waitlisted).toBe(true)
+  })
+
+  it('does not check limits when staff book', async () => {
+    vi.mocked(bookingFits).mockResolvedValue(false)
+
+    const result = await bookFamily(SESSION, ADULT as any, parseBookingRequest({ ...ALL_ACKNOWLEDGED, childIds: [3] }), { enforceLimits: false })
+
+    expect(bookingFits).not.toHaveBeenCalled()
+    expect(entriesRepository.create).toHaveBeenCalledWith({ SessionLookupId: '10', ProfileLookupId: '1' })
+    expect(result.waitlisted).toBe(false)
+  })
+
+  it('refuses children who are not linked to the adult', async () => {
+    await expect(bookFamily(SESSION, ADULT as any, parseBookingRequest({ ...ALL_ACKNOWLEDGED, childIds: [4] })))
+      .rejects.toMatchObject({ statusCode: 403 })
+    expect(entriesRepository.create).not.toHaveBeenCalled()
+  })
+
+  it('asks for what is still needed before writing anything', async () => {
+    await expect(bookFamily(SESSION, ADULT as any, parseBookingRequest({ photoConsent: true })))
+      .rejects.toThrow('how DTV uses booking data')
+    await expect(bookFamily(SESSION, ADULT as any, parseBookingRequest({ ...ALL_ACKNOWLEDGED, childIds: [2], supervisionAcknowledged: false })))
+      .rejects.toThrow('supervision')
+    await expect(bookFamily(SESSION, ADULT as any, parseBookingRequest({ ...ALL_ACKNOWLEDGED, childIds: [2], childPhotoConsent: undefined })))
+      .rejects.toThrow('photos and video of the selected children')
+    expect(entriesRepository.create).not.toHaveBeenCalled()
+  })
+
+  it('marks a booking through work with the CSR label and the employer', async () => {
+    await bookFamily(SESSION, ADULT as any, parseBookingRequest({ ...ALL_ACKNOWLEDGED, csr: true, organisation: ' acme ltd ' }))
+
+    expect(entriesRepository.create).toHaveBeenCalledWith({ SessionLookupId: '10', ProfileLookupId: '1', Labels: ['CSR'], OrganisationLookupId: '3' })
+    expect(organisationsRepository.create).not.toHaveBeenCalled()
+  })
+
+  it('will not book children without their adult', async () => {
+    await expect(bookFamily(SESSION, ADULT as any, parseBookingRequest({ ...ALL_ACKNOWLEDGED, includeSelf: false, childIds: [2] })))
+      .rejects.toThrow('Children must be booked with you')
+  })
+})
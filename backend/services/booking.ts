@@ -0,0 +1,360 @@
+/**
+ * In-app booking — one request books the booker and any children coming with them
+ * (docs/design/booking-flow.md, "Who's coming?").
+ *
+ * The adult is the accountable booker: children are linked to them by the Profiles Guardian
+ * lookup (or, for children who came through Eventbrite, by a Regulars AccompanyingAdult), and
+ * every child entry gets AccompanyingAdult set to the adult, which is what counts it against the
+ * session's `child` limit. New children get a profile linked to the adult.
+ *
+ * Acknowledgements are stored as Records, asked for only when still needed:
+ *   Privacy Consent    booking-level, covers the adult and the children booked with them
+ *   Photo Consent      one choice for the adult, one for the selected children
+ *   Child Supervision  the adult's acknowledgement that children stay under their supervision,
+ *                      renewed on every booking that includes children
+ *
+ * A self-service booking over the session's limits is created on the waitlist as a whole (see waitlist.ts).
+ * Admin and check-in users can always add people, as with a single entry (routes/entries.ts).
+ *
+ * A booking through work / CSR puts the CSR label and the employer (organisations.ts) on the
+ * adult's entry — the children booked with them are there as family, not as part of the team.
+ */
+
+import { profilesRepository } from './repositories/profiles-repository';
+import { entriesRepository } from './repositories/entries-repository';
+import { regularsRepository } from './repositories/regulars-repository';
+import { recordsRepository } from './repositories/records-repository';
+import { isSessionCancelled, safeParseLookupId, toMatchName } from './data-layer';
+import { bookingFits } from './waitlist';
+import { csrEntryFields, findOrCreateOrganisation, parseOrganisationName } from './organisations';
+import { organisationsRepository } from './repositories/organisations-repository';
+import {
+  SESSION_LOOKUP, PROFILE_LOOKUP, ACCOMPANYING_ADULT_LOOKUP, PROFILE_GUARDIAN_LOOKUP,
+  ENTRY_CANCELLED, ENTRY_WAITLISTED
+} from './field-names';
+import type { BatchWriteOp } from './list-store';
+import type { SharePointEntry, SharePointProfile, SharePointRecord, SharePointRegular } from '../../types/sharepoint';
+import type { SharePointSession } from '../../types/session';
+import type { BookingOptionsResponse, BookingPersonResponse, BookingResponse } from '../../types/api-responses';
+
+export const PRIVACY_RECORD_TYPE = 'Privacy Consent';
+export const PHOTO_RECORD_TYPE = 'Photo Consent';
+export const SUPERVISION_RECORD_TYPE = 'Child Supervision';
+
+/** New children added in one booking — larger families are a group booking (email admin) */
+export const MAX_NEW_CHILDREN = 6;
+
+export class BookingError extends Error {
+  constructor(message: string, public readonly statusCode = 400) {
+    super(message);
+    this.name = 'BookingError';
+  }
+}
+
+/** A validated booking request body */
+export interface BookingRequest {
+  /** Book the adult too; false only when they are already booked and are adding children */
+  includeSelf: boolean;
+  childIds: number[];
+  newChildren: string[];
+  notes?: string;
+  privacyAccepted: boolean;
+  photoConsent?: boolean;
+  childPhotoConsent?: boolean;
+  guardianConfirmed: boolean;
+  supervisionAcknowledged: boolean;
+  /** Booking through work / CSR */
+  csr: boolean;
+  /** Employer name, for a CSR booking */
+  organisation?: string;
+}
+
+function optionalBoolean(value: unknown, name: string): boolean | undefined {
+  if (value === undefined || value === null) return undefined;
+  if (typeof value !== 'boolean') throw new BookingError(`${name} must be true or false`);
+  return value;
+}
+
+/** Validates a booking body; requirements that depend on existing records are checked by bookFamily */
+export function parseBookingRequest(body: any): BookingRequest {
+  const { includeSelf, childIds, newChildren, notes } = body ?? {};
+  const csr = optionalBoolean(body?.csr, 'csr') ?? false;
+  const organisation = csr ? parseOrganisationName(body?.organisation) : undefined;
+
+  if (childIds !== undefined && (!Array.isArray(childIds) || childIds.some(id => !Number.isInteger(id) || id <= 0))) {
+    throw new BookingError('childIds must be a list of profile IDs');
+  }
+  if (newChildren !== undefined && (!Array.isArray(newChildren) || newChildren.some(n => typeof n !== 'string'))) {
+    throw new BookingError('newChildren must be a list of names');
+  }
+  const names = ((newChildren ?? []) as string[]).map(n => n.trim().replace(/\s+/g, ' '));
+  if (names.some(n => !n)) throw new BookingError('Each new child needs a name');
+  if (names.some(n => n.length > 255)) throw new BookingError('Child names must be 255 characters or fewer');
+  if (names.length > MAX_NEW_CHILDREN) {
+    throw new BookingError(`Up to ${MAX_NEW_CHILDREN} children can be added in one booking — for a group booking email admin@dtv.org.uk`);
+  }
+
+  return {
+    includeSelf: optionalBoolean(includeSelf, 'includeSelf') ?? true,
+    childIds: [...new Set((childIds ?? []) as number[])],
+    newChildren: names,
+    notes: typeof notes === 'string' && notes.trim() ? notes.trim() : undefined,
+    privacyAccepted: optionalBoolean(body?.privacyAccepted, 'privacyAccepted') ?? false,
+    photoConsent: optionalBoolean(body?.photoConsent, 'photoConsent'),
+    childPhotoConsent: optionalBoolean(body?.childPhotoConsent, 'childPhotoConsent'),
+    guardianConfirmed: optionalBoolean(body?.guardianConfirmed, 'guardianConfirmed') ?? false,
+    supervisionAcknowledged: optionalBoolean(body?.supervisionAcknowledged, 'supervisionAcknowledged') ?? false,
+    csr,
+    organisation,
+  };
+}
+
+/**
+ * Children linked to an adult: profiles whose Guardian is the adult, then child regulars the adult
+ * accompanies (children who came through Eventbrite before the Guardian link existed).
+ */
+export function linkedChildren(
+  adultId: number,
+  profiles: SharePointProfile[],
+  regulars: SharePointRegular[]
+): SharePointProfile[] {
+  const ids = new Set<number>();
+  for (const p of profiles) {
+    if (safeParseLookupId(p[PROFILE_GUARDIAN_LOOKUP] as unknown as string) === adultId) ids.add(p.ID);
+  }
+  for (const r of regulars) {
+    const childId = safeParseLookupId(r[PROFILE_LOOKUP] as unknown as string);
+    if (childId !== undefined && safeParseLookupId(r[ACCOMPANYING_ADULT_LOOKUP] as unknown as string) === adultId) ids.add(childId);
+  }
+  ids.delete(adultId);
+  return profiles
+    .filter(p => ids.has(p.ID))
+    .sort((a, b) => (a.Title || '').localeCompare(b.Title || ''));
+}
+
+function latestRecord(records: SharePointRecord[], profileId: number, type: string): SharePointRecord | undefined {
+  return records
+    .filter(r => safeParseLookupId(r.ProfileLookupId as unknown as string) === profileId && r.Type === type)
+    .sort((a, b) => String(b.Date || b.Modified).localeCompare(String(a.Date || a.Modified)))[0];
+}
+
+function activeEntry(sessionEntries: SharePointEntry[], profileId: number): SharePointEntry | undefined {
+  return sessionEntries.find(e => safeParseLookupId(e[PROFILE_LOOKUP]) === profileId && !e[ENTRY_CANCELLED]);
+}
+
+function bookingPerson(
+  profile: SharePointProfile,
+  sessionEntries: SharePointEntry[],
+  records: SharePointRecord[],
+  cancellable: boolean
+): BookingPersonResponse {
+  const entry = activeEntry(sessionEntries, profile.ID);
+  return {
+    profileId: profile.ID,
+    name: profile.Title || '',
+    booked: !!entry,
+    waitlisted: !!entry?.[ENTRY_WAITLISTED],
+    entryId: cancellable ? entry?.ID : undefined,
+    photoConsent: latestRecord(records, profile.ID, PHOTO_RECORD_TYPE)?.Status,
+  };
+}
+
+/** What the "Who's coming?" step shows for an adult booking a session */
+export async function bookingOptions(spSession: SharePointSession, adult: SharePointProfile): Promise<BookingOptionsResponse> {
+  const [profiles, regulars, sessionEntries, records] = await Promise.all([
+    profilesRepository.getAll(),
+    regularsRepository.getAll(),
+    entriesRepository.getBySessionIds([spSession.ID]),
+    recordsRepository.getAll(),
+  ]);
+  return {
+    adult: bookingPerson(adult, sessionEntries, records, true),
+    // Only Guardian-linked children can be cancelled by the adult (see guardianship.ts) — regulars-derived
+    // children get the link the first time the adult books them here
+    children: linkedChildren(adult.ID, profiles, regulars).map(c =>
+      bookingPerson(c, sessionEntries, records, safeParseLookupId(c[PROFILE_GUARDIAN_LOOKUP]) === adult.ID)
+    ),
+    needsPrivacy: latestRecord(records, adult.ID, PRIVACY_RECORD_TYPE)?.Status !== 'Accepted',
+    needsPhoto: !latestRecord(records, adult.ID, PHOTO_RECORD_TYPE),
+    organisations: organisationsRepository.configured,
+  };
+}
+
+/** Upserts one record per profile+type — the same rule the consent route and Eventbrite sync follow */
+function recordOps(records: SharePointRecord[], profileIds: number[], type: string, status: string, date: string): BatchWriteOp[] {
+  return profileIds.map(profileId => {
+    const existing = latestRecord(records, profileId, type);
+    return existing
+      ? { op: 'update' as const, id: existing.ID, fields: { Status: status, Date: date } }
+      : { op: 'create' as const, fields: { ProfileLookupId: profileId, Type: type, Status: status, Date: date } };
+  });
+}
+
+/**
+ * Books the adult and the selected children onto a session in one go.
+ * Throws BookingError for anything the booker needs to fix; write failures after the adult's
+ * entry is created are reported in the result rather than undoing the booking.
+ * enforceLimits is off for admin and check-in bookings.
+ */
+export async function bookFamily(
+  spSession: SharePointSession,
+  adult: SharePointProfile,
+  request: BookingRequest,
+  options: { enforceLimits?: boolean } = {}
+): Promise<BookingResponse> {
+  if ((spSession.Date || '').slice(0, 10) < new Date().toISOString().slice(0, 10)) {
+    throw new BookingError('Session has already passed');
+  }
+  if (isSessionCancelled(spSession)) {
+    throw new BookingError('Session has been cancelled');
+  }
+
+  const [profiles, regulars, sessionEntries, records] = await Promise.all([
+    profilesRepository.getAll(),
+    regularsRepository.getAll(),
+    entriesRepository.getBySessionIds([spSession.ID]),
+    recordsRepository.getAll(),
+  ]);
+
+  const linked = linkedChildren(adult.ID, profiles, regulars);
+  const children = request.childIds.map(id => {
+    const child = linked.find(c => c.ID === id);
+    if (!child) throw new BookingError(`Profile ${id} is not a child linked to ${adult.Title || 'you'}`, 403);
+    return child;
+  });
+
+  // Adding a child who is already linked under the same name selects them instead of duplicating
+  const newNames: string[] = [];
+  for (const name of request.newChildren) {
+    const existing = linked.find(c => toMatchName(c.Title) === toMatchName(name));
+    if (existing) {
+      if (!children.includes(existing)) children.push(existing);
+    } else if (!newNames.some(n => toMatchName(n) === toMatchName(name))) {
+      newNames.push(name);
+    }
+  }
+  const hasChildren = children.length + newNames.length > 0;
+
+  const adultEntry = activeEntry(sessionEntries, adult.ID);
+  const bookAdult = request.includeSelf && !adultEntry;
+  if (!bookAdult && !hasChildren) {
+    throw new BookingError(adultEntry ? 'Already registered for this session' : 'Choose who is coming', adultEntry ? 409 : 400);
+  }
+  if (hasChildren && !request.includeSelf && !adultEntry) {
+    throw new BookingError('Children must be booked with you — you remain responsible for them on the day');
+  }
+  const alreadyBooked = children.filter(c => activeEntry(sessionEntries, c.ID));
+  if (alreadyBooked.length) {
+    throw new BookingError(`Already booked: ${alreadyBooked.map(c => c.Title).join(', ')}`, 409);
+  }
+
+  // What we still need — only asked for when it isn't already on record
+  if (latestRecord(records, adult.ID, PRIVACY_RECORD_TYPE)?.Status !== 'Accepted' && !request.privacyAccepted) {
+    throw new BookingError('Please confirm you have read how DTV uses booking data');
+  }
+  if (!latestRecord(records, adult.ID, PHOTO_RECORD_TYPE) && request.photoConsent === undefined) {
+    throw new BookingError('Please choose whether photos and video of you can be used');
+  }
+  if (hasChildren) {
+    if (!request.guardianConfirmed) {
+      throw new BookingError('Please confirm you are the parent, guardian or authorised adult for the selected children');
+    }
+    if (!request.supervisionAcknowledged) {
+      throw new BookingError('Please confirm children remain under your supervision during this activity');
+    }
+    const childPhotoNeeded = newNames.length > 0 || children.some(c => !latestRecord(records, c.ID, PHOTO_RECORD_TYPE));
+    if (childPhotoNeeded && request.childPhotoConsent === undefined) {
+      throw new BookingError('Please choose whether photos and video of the selected children can be used');
+    }
+  }
+
+  // Without the Organisations list a CSR booking still gets its label; the name is dropped
+  const organisation = bookAdult && request.organisation && organisationsRepository.configured
+    ? await findOrCreateOrganisation(request.organisation)
+    : undefined;
+
+  const childPlaces = children.length + newNames.length;
+  // Children added to a waitlisted adult wait with them, so they move up together (waitlist.ts)
+  const adultWaitlistedAt = adultEntry?.[ENTRY_WAITLISTED] || undefined;
+  const waitlisted = !!adultWaitlistedAt || ((options.enforceLimits ?? true)
+    && !(await bookingFits(spSession, adult.ID, sessionEntries, bookAdult ? 1 : 0, childPlaces)));
+  const waitlistedAt = adultWaitlistedAt ?? (waitlisted ? new Date().toISOString() : undefined);
+  const failed: string[] = [];
+
+  // Adult first, so children are never booked without the adult responsible for them
+  const entries: BookingResponse['entries'] = [];
+  if (bookAdult) {
+    const fields: Record<string, any> = { [SESSION_LOOKUP]: String(spSession.ID), [PROFILE_LOOKUP]: String(adult.ID) };
+    if (request.notes) fields.Notes = request.notes;
+    if (waitlistedAt) fields[ENTRY_WAITLISTED] = waitlistedAt;
+    if (request.csr) Object.assign(fields, csrEntryFields(organisation));
+    const id = await entriesRepository.create(fields);
+    entries.push({ id, profileId: adult.ID, name: adult.Title || '', child: false });
+  }
+
+  const createdProfiles: BookingResponse['createdProfiles'] = [];
+  for (const name of newNames) {
+    try {
+      const id = await profilesRepository.create({ Title: name, MatchName: toMatchName(name), GuardianLookupId: String(adult.ID) });
+      createdProfiles.push({ id, name });
+    } catch (err: any) {
+      console.error(`[Booking] Failed to create child profile "${name}":`, err.message);
+      failed.push(name);
+    }
+  }
+  // Children found through a regular get the persistent link the next booking will use
+  for (const child of children) {
+    if (safeParseLookupId(child[PROFILE_GUARDIAN_LOOKUP] as unknown as string) !== undefined) continue;
+    await profilesRepository.updateFields(child.ID, { GuardianLookupId: String(adult.ID) }).catch(err =>
+      console.error(`[Booking] Failed to link child profile ${child.ID} to ${adult.ID}:`, err.message)
+    );
+  }
+
+  const bookedChildren = [
+    ...children.map(c => ({ id: c.ID, name: c.Title || '' })),
+    ...createdProfiles,
+  ];
+  const childResults = await entriesRepository.createMany(bookedChildren.map(c => {
+    const fields: Record<string, any> = {
+      [SESSION_LOOKUP]: String(spSession.ID),
+      [PROFILE_LOOKUP]: String(c.id),
+      [ACCOMPANYING_ADULT_LOOKUP]: String(adult.ID),
+    };
+    if (waitlistedAt) fields[ENTRY_WAITLISTED] = waitlistedAt;
+    return fields;
+  }));
+  childResults.forEach((result, i) => {
+    const child = bookedChildren[i];
+    if (result.ok) {
+      entries.push({ id: result.id, profileId: child.id, name: child.name, child: true });
+    } else {
+      console.error(`[Booking] Failed to book child ${child.id} on session ${spSession.ID}: ${result.error}`);
+      failed.push(child.name);
+    }
+  });
+
+  const today = new Date().toISOString();
+  const childIds = bookedChildren.map(c => c.id);
+  const ops: BatchWriteOp[] = [];
+  // The adult's acknowledgement (given now or before) covers the children they book
+  if (request.privacyAccepted) ops.push(...recordOps(records, [adult.ID], PRIVACY_RECORD_TYPE, 'Accepted', today));
+  const childrenWithoutPrivacy = childIds.filter(id => latestRecord(records, id, PRIVACY_RECORD_TYPE)?.Status !== 'Accepted');
+  ops.push(...recordOps(records, childrenWithoutPrivacy, PRIVACY_RECORD_TYPE, 'Accepted', today));
+  if (request.photoConsent !== undefined) {
+    ops.push(...recordOps(records, [adult.ID], PHOTO_RECORD_TYPE, request.photoConsent ? 'Accepted' : 'Declined', today));
+  }
+  if (childIds.length && request.childPhotoConsent !== undefined) {
+    ops.push(...recordOps(records, childIds, PHOTO_RECORD_TYPE, request.childPhotoConsent ? 'Accepted' : 'Declined', today));
+  }
+  if (childIds.length) ops.push(...recordOps(records, [adult.ID], SUPERVISION_RECORD_TYPE, 'Accepted', today));
+  if (ops.length) {
+    const results = await recordsRepository.batchWrite(ops);
+    const recordFailures = results.filter(r => !r.ok).length;
+    if (recordFailures) {
+      console.error(`[Booking] ${recordFailures} of ${ops.length} record writes failed for profile ${adult.ID}`);
+      failed.push(`${recordFailures} acknowledgement record${recordFailures === 1 ? '' : 's'}`);
+    }
+  }
+
+  return { entries, createdProfiles, waitlisted, failed };
+}
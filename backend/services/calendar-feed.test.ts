@@ -0,0 +1,91 @@
+import { describe, it, expect } from 'vitest'
+import {
+  sessionEventTimes,
+  sessionToCalendarEvent,
+  buildCalendar,
+  calendarFeedToken,
+  verifyCalendarFeedToken,
+} from './calendar-feed'
+
+function session(overrides: Record<string, any> = {}): any {
+  return { ID: 42, Title: '2026-06-13 sat', Date: '2026-06-13', GroupLookupId: '1', Created: '', Modified: '', ...overrides }
+}
+
+describe('sessionEventTimes', () => {
+  it('uses the 09:30 / 3h defaults in UK local time', () => {
+    const { start, end } = sessionEventTimes(session())
+    expect(start.toISOString()).toBe('2026-06-13T08:30:00.000Z') // BST
+    expect(end.toISOString()).toBe('2026-06-13T11:30:00.000Z')
+  })
+
+  it('uses Time and Length when set', () => {
+    const { start, end } = sessionEventTimes(session({ Date: '2026-01-10', Time: '10:00', Length: 1.5 }))
+    expect(start.toISOString()).toBe('2026-01-10T10:00:00.000Z') // GMT
+    expect(end.toISOString()).toBe('2026-01-10T11:30:00.000Z')
+  })
+})
+
+describe('buildCalendar', () => {
+  const event = sessionToCalendarEvent(
+    session({ Name: 'Bike park, trail', Notes: 'Bring gloves; meet at the car park' }),
+    'sat', 'Saturday Dig', 'https://tracker.example.org', 'tracker.example.org'
+  )
+
+  it('builds a session event with a stable UID and link', () => {
+    expect(event.uid).toBe('session-42@tracker.example.org')
+    expect(event.summary).toBe('Saturday Dig: Bike park, trail')
+    expect(event.url).toBe('https://tracker.example.org/sessions/sat/2026-06-13')
+  })
+
+  it('writes UTC times, escapes text and uses CRLF line endings', () => {
+    const ics = buildCalendar('DTV Sessions', [event], new Date('2026-06-01T12:00:00Z'))
+    expect(ics.startsWith('BEGIN:VCALENDAR\r\n')).toBe(true)
+    expect(ics.endsWith('END:VCALENDAR\r\n')).toBe(true)
+    expect(ics).toContain('DTSTART:20260613T083000Z\r\n')
+    expect(ics).toContain('DTEND:20260613T113000Z\r\n')
+    expect(ics).toContain('DTSTAMP:20260601T120000Z\r\n')
+    expect(ics).toContain('SUMMARY:Saturday Dig: Bike park\\, trail\r\n')
+    expect(ics).toContain('DESCRIPTION:Bring gloves\\; meet at the car park\\n\\nhttps://')
+  })
+
+  it('folds lines longer than 75 octets', () => {
+    const long = { ...event, summary: 'x'.repeat(200) }
+    const ics = buildCalendar('DTV Sessions', [long])
+    for (const line of ics.split('\r\n')) {
+      expect(Buffer.byteLength(line, 'utf8')).toBeLessThanOrEqual(75)
+    }
+    expect(ics.replace(/\r\n /g, '')).toContain(`SUMMARY:${'x'.repeat(200)}`)
+  })
+
+  it('marks a cancelled session with its reason', () => {
+    const cancelled = sessionToCalendarEvent(
+      session({ Cancelled: '2026-06-10T08:00:00Z', CancelReason: 'Storm warning' }),
+      'sat', 'Saturday Dig', 'https://tracker.example.org', 'tracker.example.org'
+    )
+    expect(cancelled.uid).toBe(event.uid)
+    expect(cancelled.summary).toBe('Cancelled: Saturday Dig')
+    expect(cancelled.description).toBe('Cancelled: Storm warning\n\nhttps://tracker.example.org/sessions/sat/2026-06-13')
+    expect(buildCalendar('DTV Sessions', [cancelled])).toContain('STATUS:CANCELLED\r\n')
+  })
+
+  it('marks tentative events', () => {
+    const ics = buildCalendar('Mine', [{ ...event, status: 'TENTATIVE' }])
+    expect(ics).toContain('STATUS:TENTATIVE\r\n')
+  })
+})
+
+describe('calendar feed tokens', () => {
+  it('round-trips a profile ID', () => {
+    expect(verifyCalendarFeedToken(calendarFeedToken(123))).toBe(123)
+  })
+
+  it('rejects a token signed for another profile', () => {
+    const signature = calendarFeedToken(123).split('-')[1]
+    expect(verifyCalendarFeedToken(`124-${signature}`)).toBeUndefined()
+  })
+
+  it('rejects malformed tokens', () => {
+    expect(verifyCalendarFeedToken('123')).toBeUndefined()
+    expect(verifyCalendarFeedToken('abc-def')).toBeUndefined()
+  })
+})
@@ -0,0 +1,160 @@
+/**
+ * Calendar Feed — iCalendar (.ics) subscription feeds for sessions.
+ *
+ * Feeds are rebuilt on every request from the cached Sessions list, so calendar apps
+ * pick up new, moved and cancelled sessions on their next refresh. A called-off session stays in
+ * the feed as STATUS:CANCELLED with a "Cancelled:" summary, so subscribers see it struck through
+ * (or removed, depending on the app) rather than silently vanishing. Start/end times
+ * come from sessionScheduleFields() (Time/Length with the 09:30 / 3h defaults) and are
+ * written as UTC so no VTIMEZONE block is needed.
+ *
+ * Personal feeds are addressed by a token rather than a login — calendar apps can't
+ * hold a session cookie. The token is `{profileId}-{hmac}` signed with
+ * CALENDAR_FEED_SECRET (falls back to SESSION_SECRET); rotating the secret revokes
+ * every personal feed URL.
+ */
+
+import crypto from 'crypto';
+import { DateTime } from 'luxon';
+import { isSessionCancelled, sessionScheduleFields } from './data-layer';
+import { SESSION_NOTES, SESSION_CANCEL_REASON } from './field-names';
+import type { SharePointSession } from '../../types/session';
+
+const FEED_TIMEZONE = process.env.SHAREPOINT_TIMEZONE || 'Europe/London';
+const PRODUCT_ID = '-//Dean Trail Volunteers//DTV Tracker//EN';
+
+export interface CalendarEvent {
+  uid: string;
+  start: Date;
+  end: Date;
+  summary: string;
+  description?: string;
+  url?: string;
+  /** TENTATIVE for waitlisted bookings, CANCELLED for called-off sessions; omitted for normal sessions */
+  status?: 'CONFIRMED' | 'TENTATIVE' | 'CANCELLED';
+}
+
+/** Start and end instants for a session, from its Date plus Time/Length (with defaults). */
+export function sessionEventTimes(spSession: SharePointSession): { start: Date; end: Date } {
+  const { time, length } = sessionScheduleFields(spSession);
+  const start = DateTime.fromISO(`${spSession.Date}T${time}`, { zone: FEED_TIMEZONE });
+  const end = start.plus({ minutes: Math.round(length * 60) });
+  return { start: start.toJSDate(), end: end.toJSDate() };
+}
+
+/** Build a calendar event for a session; `host` keeps UIDs stable and unique per deployment. */
+export function sessionToCalendarEvent(
+  spSession: SharePointSession,
+  groupKey: string,
+  groupName: string,
+  baseUrl: string,
+  host: string
+): CalendarEvent {
+  const { start, end } = sessionEventTimes(spSession);
+  const url = `${baseUrl}/sessions/${groupKey}/${spSession.Date}`;
+  const notes = spSession[SESSION_NOTES]?.trim();
+  const event: CalendarEvent = {
+    uid: `session-${spSession.ID}@${host}`,
+    start,
+    end,
+    summary: spSession.Name ? `${groupName}: ${spSession.Name}` : groupName,
+    description: notes ? `${notes}\n\n${url}` : url,
+    url,
+  };
+  if (!isSessionCancelled(spSession)) return event;
+  const reason = spSession[SESSION_CANCEL_REASON]?.trim();
+  return {
+    ...event,
+    summary: `Cancelled: ${event.summary}`,
+    description: reason ? `Cancelled: ${reason}\n\n${url}` : url,
+    status: 'CANCELLED',
+  };
+}
+
+function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+function formatUtc(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+/** RFC 5545 line folding — content lines longer than 75 octets continue on a line starting with a space. */
+function foldLine(line: string): string {
+  const bytes = Buffer.from(line, 'utf8');
+  if (bytes.length <= 75) return line;
+  const parts: string[] = [];
+  let current = '';
+  let currentBytes = 0;
+  for (const ch of line) {
+    const size = Buffer.byteLength(ch, 'utf8');
+    const limit = parts.length === 0 ? 75 : 74;
+    if (currentBytes + size > limit) {
+      parts.push(current);
+      current = '';
+      currentBytes = 0;
+    }
+    current += ch;
+    currentBytes += size;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+}
+
+/** Serialise events as a VCALENDAR document (CRLF line endings, folded lines). */
+export function buildCalendar(name: string, events: CalendarEvent[], now = new Date()): string {
+  const stamp = formatUtc(now);
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODUCT_ID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(name)}`,
+    'X-PUBLISHED-TTL:PT6H',
+    'REFRESH-INTERVAL;VALUE=DURATION:PT6H',
+  ];
+  for (const event of events) {
+    lines.push(
+      'BEGIN:VEVENT',
+      `UID:${event.uid}`,
+      `DTSTAMP:${stamp}`,
+      `DTSTART:${formatUtc(event.start)}`,
+      `DTEND:${formatUtc(event.end)}`,
+      `SUMMARY:${escapeText(event.summary)}`,
+    );
+    if (event.description) lines.push(`DESCRIPTION:${escapeText(event.description)}`);
+    if (event.url) lines.push(`URL:${event.url}`);
+    if (event.status) lines.push(`STATUS:${event.status}`);
+    lines.push('END:VEVENT');
+  }
+  lines.push('END:VCALENDAR');
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
+
+function feedSecret(): string {
+  return process.env.CALENDAR_FEED_SECRET || process.env.SESSION_SECRET || 'dev-secret-change-in-production';
+}
+
+function tokenSignature(profileId: number): string {
+  return crypto.createHmac('sha256', feedSecret()).update(`calendar:${profileId}`).digest('hex').slice(0, 32);
+}
+
+/** Personal feed token for a profile — `{profileId}-{signature}`. */
+export function calendarFeedToken(profileId: number): string {
+  return `${profileId}-${tokenSignature(profileId)}`;
+}
+
+/** Returns the profile ID for a valid personal feed token, or undefined. */
+export function verifyCalendarFeedToken(token: string): number | undefined {
+  const match = /^(\d+)-([0-9a-f]{32})$/.exec(token);
+  if (!match) return undefined;
+  const profileId = parseInt(match[1], 10);
+  const expected = Buffer.from(tokenSignature(profileId));
+  const given = Buffer.from(match[2]);
+  return crypto.timingSafeEqual(expected, given) ? profileId : undefined;
+}
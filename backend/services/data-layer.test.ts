@@ -1,5 +1,5 @@
 import { describe, it, expect } from 'vitest'
-import { calculateFinancialYear, calculateCurrentFY, calculateSessionStats, toMatchName, extractMetadataTags, findTitleKeyClash, sessionScheduleFields, formatSessionTimeRangeProse, deriveMediaStatus, mediaStatsFromFolderItems } from './data-layer'
+import { calculateFinancialYear, calculateCurrentFY, calculateSessionStats, bookingFitsLimits, toMatchName, extractMetadataTags, findTitleKeyClash, sessionScheduleFields, formatSessionTimeRangeProse, deriveMediaStatus, mediaStatsFromFolderItems } from './data-layer'
 import { SESSION_TIME, SESSION_LENGTH } from './field-names'
 import type { SharePointEntry } from '../../types/sharepoint'
 import type { SharePointSession } from '../../types/session'
@@ -106,6 +106,14 @@ describe('calculateSessionStats', () => {
     expect(stats.get('1')?.hours).toBeCloseTo(3)
   })
 
+  it('excludes waitlisted entries from all counts', () => {
+    const stats = calculateSessionStats([
+      entry('1', { Hours: 3 }),
+      entry('1', { Waitlisted: '2024-06-01T10:00:00Z' }),
+    ])
+    expect(stats.get('1')?.registrations).toBe(1)
+  })
+
   it('counts newCount from profileFirstSessionMap', () => {
     const profileFirstSessionMap = new Map([[42, 1]])
     const stats = calculateSessionStats(
@@ -177,6 +185,43 @@ describe('calculateSessionStats', () => {
   })
 })
 
+describe('bookingFitsLimits', () => {
+  it('fits anything when no limits are set', () => {
+    expect(bookingFitsLimits({}, { count: 50, new: 10, regular: 10 }, 'new')).toBe(true)
+  })
+
+  it('applies total to every category, including regulars', () => {
+    const stats = { count: 16, new: 2, regular: 6 }
+    expect(bookingFitsLimits({ total: 16 }, stats, 'regular')).toBe(false)
+    expect(bookingFitsLimits({ total: 17 }, stats, 'regular')).toBe(true)
+  })
+
+  it('applies the new allocation only to new bookings', () => {
+    const stats = { count: 5, new: 4, regular: 0 }
+    expect(bookingFitsLimits({ new: 4 }, stats, 'new')).toBe(false)
+    expect(bookingFitsLimits({ new: 4 }, stats, 'repeat')).toBe(true)
+  })
+
+  it('counts repeat bookings as count - new - regular', () => {
+    const stats = { count: 10, new: 2, regular: 5 }
+    expect(bookingFitsLimits({ repeat: 3 }, stats, 'repeat')).toBe(false)
+    expect(bookingFitsLimits({ repeat: 4 }, stats, 'repeat')).toBe(true)
+    expect(bookingFitsLimits({ repeat: 3 }, stats, 'regular')).toBe(true)
+  })
+
+  it('takes the booking headcount into account', () => {
+    expect(bookingFitsLimits({ total: 10 }, { count: 8, new: 0, regular: 0 }, 'repeat', 3)).toBe(false)
+  })
+
+  it('counts children against total and child only', () => {
+    const stats = { count: 6, new: 4, regular: 0, child: 2 }
+    expect(bookingFitsLimits({ child: 3 }, stats, 'new', 0, 1)).toBe(true)
+    expect(bookingFitsLimits({ child: 3 }, stats, 'new', 0, 2)).toBe(false)
+    expect(bookingFitsLimits({ new: 4, total: 8 }, stats, 'new', 0, 2)).toBe(true)
+    expect(bookingFitsLimits({ total: 8 }, stats, 'repeat', 1, 2)).toBe(false)
+  })
+})
+
 describe('formatSessionTimeRangeProse', () => {
   it('formats default schedule in email prose', () => {
     expect(formatSessionTimeRangeProse('09:30', 3)).toBe('9:30 to 12:30 (about 3 hours)')
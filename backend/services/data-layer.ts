@@ -25,7 +25,7 @@ import {
   GROUP_LOOKUP, GROUP_DISPLAY,
   SESSION_LOOKUP, SESSION_DISPLAY,
   PROFILE_LOOKUP, PROFILE_DISPLAY,
-  SESSION_NOTES, SESSION_LIMITS, SESSION_TIME, SESSION_LENGTH,
+  SESSION_NOTES, SESSION_LIMITS, SESSION_TIME, SESSION_LENGTH, SESSION_CANCELLED, SESSION_CANCEL_REASON,
 } from './field-names';
 import type { MediaStatus, SessionStats } from '../../types/api-responses';
 
@@ -143,6 +143,17 @@ export function sessionScheduleFields(spSession: SharePointSession): { time: str
   };
 }
 
+/** A session called off as a whole — not bookable, and left out of session counts and hours */
+export function isSessionCancelled(spSession: SharePointSession): boolean {
+  return !!spSession[SESSION_CANCELLED];
+}
+
+/** Cancellation fields for session API responses; empty for a session that's going ahead. */
+export function sessionCancellationFields(spSession: SharePointSession): { cancelled?: string; cancelReason?: string } {
+  if (!isSessionCancelled(spSession)) return {};
+  return { cancelled: spSession[SESSION_CANCELLED], cancelReason: spSession[SESSION_CANCEL_REASON] || undefined };
+}
+
 function sessionTimeToMinutes(time: string): number | null {
   const match = time.trim().match(/^(\d{1,2}):(\d{2})$/);
   if (!match) return null;
@@ -191,6 +202,36 @@ export function deriveLimits(limits: SessionLimits, regularsCount?: number, canc
   return limits;
 }
 
+/** How a booking is counted against session limits: group regulars, first-timers, or returning volunteers */
+export type BookingCategory = 'regular' | 'new' | 'repeat';
+
+/**
+ * Whether a booking fits the session's (derived) limits, given the current stored Stats.
+ * Everyone counts against total; new and repeat bookings also against their own allocation.
+ * Repeat bookings are count - new - regular, the same split the session page uses.
+ * Children (entries with an accompanying adult) count against total and child only —
+ * headcount is the booker's own places, which may be 0 when only children are being added.
+ */
+export function bookingFitsLimits(
+  limits: SessionLimits,
+  stats: Pick<SessionStats, 'count' | 'new' | 'regular' | 'child'>,
+  category: BookingCategory,
+  headcount = 1,
+  children = 0
+): boolean {
+  const count = stats.count || 0;
+  const newCount = stats.new || 0;
+  const regularCount = stats.regular || 0;
+  const childCount = stats.child || 0;
+  if (limits.total !== undefined && count + headcount + children > limits.total) return false;
+  if (headcount > 0) {
+    if (category === 'new' && limits.new !== undefined && newCount + headcount > limits.new) return false;
+    if (category === 'repeat' && limits.repeat !== undefined && count - newCount - regularCount + headcount > limits.repeat) return false;
+  }
+  if (children > 0 && limits.child !== undefined && childCount + children > limits.child) return false;
+  return true;
+}
+
 // ============================================================================
 // Conversion Functions: SharePoint -> Domain Types
 // ============================================================================
@@ -350,7 +391,7 @@ interface EntryAggregateStats {
   eventbriteCount: number;
 }
 
-function entryHeadcount(entry: SharePointEntry): number {
+export function entryHeadcount(entry: SharePointEntry): number {
   const c = entry.Count;
   if (typeof c === 'number' && Number.isFinite(c) && c >= 1) return Math.floor(c);
   return 1;
@@ -369,7 +410,7 @@ export function calculateSessionStats(
   const statsMap = new Map<string, EntryAggregateStats>();
 
   entries.forEach(entry => {
-    if (entry.Cancelled) return;
+    if (entry.Cancelled || entry.Waitlisted) return;
     const sessionId = entry[SESSION_LOOKUP];
     if (!sessionId) return;
 
@@ -1,19 +1,33 @@
-const LIMIT = parseInt(process.env.EMAIL_RATE_LIMIT_PER_HOUR || '60', 10);
-let windowStart = Date.now();
-let count = 0;
+import { verificationStore, SEND_WINDOW_MS } from './verification-store';
 
-function resetIfExpired() {
-  if (Date.now() - windowStart > 3_600_000) { windowStart = Date.now(); count = 0; }
+/**
+ * Which hourly limits a send counts against.
+ * 'global' — all other email the app sends (EMAIL_RATE_LIMIT_PER_HOUR, default 60).
+ * { email, ip } — sign-in codes: per address (VERIFY_LIMIT_PER_EMAIL, default 5) and per
+ * client IP (VERIFY_LIMIT_PER_IP, default 20). Not counted against the global limit, so
+ * bulk sends or one abuser can't stop other volunteers signing in.
+ */
+export type EmailQuota = 'global' | { email: string; ip?: string };
+
+function quotaLimits(quota: EmailQuota): { key: string; limit: number }[] {
+  if (quota === 'global') {
+    return [{ key: 'all', limit: parseInt(process.env.EMAIL_RATE_LIMIT_PER_HOUR || '60', 10) }];
+  }
+  const limits = [{ key: `email:${quota.email}`, limit: parseInt(process.env.VERIFY_LIMIT_PER_EMAIL || '5', 10) }];
+  if (quota.ip) limits.push({ key: `ip:${quota.ip}`, limit: parseInt(process.env.VERIFY_LIMIT_PER_IP || '20', 10) });
+  return limits;
 }
 
-/** Returns false if the hourly limit has already been reached. Does not increment. */
-export function isEmailRateLimited(): boolean {
-  resetIfExpired();
-  return count >= LIMIT;
+/** True if any of the quota's hourly limits has already been reached. Does not increment. */
+export async function isEmailRateLimited(quota: EmailQuota = 'global'): Promise<boolean> {
+  const since = Date.now() - SEND_WINDOW_MS;
+  const reached = await Promise.all(
+    quotaLimits(quota).map(async ({ key, limit }) => (await verificationStore().countSends(key, since)) >= limit)
+  );
+  return reached.some(Boolean);
 }
 
 /** Record one successfully sent email against the quota. */
-export function recordEmailSent(): void {
-  resetIfExpired();
-  count++;
+export async function recordEmailSent(quota: EmailQuota = 'global'): Promise<void> {
+  await Promise.all(quotaLimits(quota).map(({ key }) => verificationStore().recordSend(key)));
 }
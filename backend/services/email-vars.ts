@@ -5,7 +5,7 @@ import { extractMetadataTags, safeParseLookupId, parseHours, sessionScheduleFiel
 import type { SharePointRecord } from '../../types/sharepoint';
 import {
   SESSION_NOTES, SESSION_METADATA, SESSION_STATS, SESSION_COVER_MEDIA,
-  GROUP_LOOKUP, PROFILE_DISPLAY, ENTRY_CANCELLED,
+  GROUP_LOOKUP, PROFILE_DISPLAY, ENTRY_CANCELLED, ENTRY_WAITLISTED,
 } from './field-names';
 
 // ============================================================================
@@ -42,7 +42,7 @@ function expandTagLabels(labels: string[]): string {
 }
 
 function findChildEntries(sessionEntries: SharePointEntry[], profileId: number | undefined) {
-  const active = sessionEntries.filter(e => !e[ENTRY_CANCELLED]);
+  const active = sessionEntries.filter(e => !e[ENTRY_CANCELLED] && !e[ENTRY_WAITLISTED]);
   return profileId !== undefined
     ? active.filter(e => safeParseLookupId(e.AccompanyingAdultLookupId) === profileId)
     : [];
@@ -219,6 +219,69 @@ export function buildPostSessionVars(
   };
 }
 
+// ============================================================================
+// Session cancelled
+// ============================================================================
+
+export interface SessionCancelledVars extends PreSessionVars {
+  groupUrl: string;
+  cancelReason: string | null;
+  nextSessions: Array<{ date: string; title: string | null; url: string }>;
+}
+
+/**
+ * Vars for the session-cancelled email. sessionEntries are the entries as they were before the
+ * cancellation, so the adult's children are still found; nextSessions are already chosen and sorted.
+ */
+export function buildSessionCancelledVars(
+  entry: SharePointEntry,
+  session: SharePointSession,
+  profile: SharePointProfile,
+  group: SharePointGroup,
+  sessionEntries: SharePointEntry[],
+  nextSessions: SharePointSession[],
+  cancelReason: string | null,
+  baseUrl: string,
+): SessionCancelledVars {
+  const groupKey = (group.Title || '').toLowerCase();
+  return {
+    ...buildPreSessionVars(entry, session, profile, group, sessionEntries, baseUrl),
+    groupUrl: `${baseUrl}/groups/${groupKey}`,
+    cancelReason: cancelReason || null,
+    nextSessions: nextSessions.map(s => ({
+      date: formatDate(s.Date).formattedDateLong,
+      title: s.Name || null,
+      url: `${baseUrl}/sessions/${groupKey}/${s.Date}`,
+    })),
+  };
+}
+
+// ============================================================================
+// Regular RSVP
+// ============================================================================
+
+export interface RegularRsvpVars extends PreSessionVars {
+  comingUrl: string;
+  decliningUrl: string;
+}
+
+/** Vars for the regular-rsvp email; the answer links are signed by regular-rsvp.ts */
+export function buildRegularRsvpVars(
+  entry: SharePointEntry,
+  session: SharePointSession,
+  profile: SharePointProfile,
+  group: SharePointGroup,
+  sessionEntries: SharePointEntry[],
+  rsvpUrls: { coming: string; declined: string },
+  baseUrl: string,
+): RegularRsvpVars {
+  return {
+    ...buildPreSessionVars(entry, session, profile, group, sessionEntries, baseUrl),
+    comingUrl: rsvpUrls.coming,
+    decliningUrl: rsvpUrls.declined,
+  };
+}
+
 // ============================================================================
 // Profile bulk email
 // ============================================================================
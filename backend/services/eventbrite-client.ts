@@ -5,6 +5,9 @@
  * Requires EVENTBRITE_API_KEY environment variable.
  */
 
+import { missingRequiredQuestions } from './eventbrite-questions';
+import type { EventbriteQuestionMappingResponse } from '../../types/api-responses';
+
 const BASE_URL = 'https://www.eventbriteapi.com/v3';
 
 export interface EventbriteAnswer {
@@ -31,16 +34,18 @@ export interface EventbriteAttendee {
   answers?: EventbriteAnswer[];
 }
 
-async function fetchEventbrite<T>(path: string): Promise<T> {
+async function fetchEventbrite<T>(path: string, body?: unknown): Promise<T> {
   const apiKey = process.env.EVENTBRITE_API_KEY;
   if (!apiKey) throw new Error('EVENTBRITE_API_KEY not configured');
 
   const url = `${BASE_URL}${path}`;
-  console.log(`[Eventbrite] GET ${url}`);
+  const method = body === undefined ? 'GET' : 'POST';
+  console.log(`[Eventbrite] ${method} ${url}`);
 
-  const res = await fetch(url, {
-    headers: { Authorization: `Bearer ${apiKey}` }
-  });
+  const res = await fetch(url, body === undefined
+    ? { headers: { Authorization: `Bearer ${apiKey}` } }
+    : { method, headers: { Authorization: `Bearer ${apiKey}`, 'Content-Type': 'application/json' }, body: JSON.stringify(body) }
+  );
 
   if (!res.ok) {
     const text = await res.text();
@@ -55,7 +60,10 @@ export interface EventbriteEvent {
   seriesId?: string;
   name: string;
   startDate: string;
+  /** Local end datetime, e.g. 2026-06-13T12:30:00 */
+  endDate?: string;
   description?: string;
+  capacity?: number;
 }
 
 export async function getOrgEvents(): Promise<EventbriteEvent[]> {
@@ -73,7 +81,9 @@ export async function getOrgEvents(): Promise<EventbriteEvent[]> {
         series_id?: string;
         name?: { text?: string };
         start?: { utc?: string; local?: string };
+        end?: { utc?: string; local?: string };
         description?: { text?: string };
+        capacity?: number;
       }>;
       pagination: { has_more_items: boolean };
     }>(`/organizations/${orgId}/events/?status=live&page_size=100&page=${page}`);
@@ -84,7 +94,9 @@ export async function getOrgEvents(): Promise<EventbriteEvent[]> {
         seriesId: e.series_id || undefined,
         name: e.name?.text || '',
         startDate: e.start?.local || e.start?.utc || '',
-        description: e.description?.text || undefined
+        endDate: e.end?.local || e.end?.utc || undefined,
+        description: e.description?.text || undefined,
+        capacity: typeof e.capacity === 'number' ? e.capacity : undefined
       });
     }
 
@@ -138,19 +150,85 @@ export async function getCancelledAttendees(eventId: string): Promise<Eventbrite
   return all;
 }
 
+/** Event an order belongs to — webhook payloads for orders only carry the order's API URL */
+export async function getOrderEventId(orderId: string): Promise<string> {
+  const order = await fetchEventbrite<{ id: string; event_id: string }>(`/orders/${orderId}/`);
+  return order.event_id;
+}
+
+
 export interface EventbriteConfigCheck {
   eventId: string;
   eventName: string;
   hasChildTicket: boolean;
-  hasPrivacyConsentQuestion: boolean;
-  hasPhotoConsentQuestion: boolean;
+  /** Titles of required question mappings the event doesn't ask */
+  missingQuestions: string[];
   consentQuestionsPerAttendee: boolean;
+  /** Events in this series whose details differ from their tracker session */
+  conflicts?: EventbriteSessionConflict[];
+}
+
+export interface EventbriteSessionConflict {
+  sessionId: number;
+  date: string;
+  eventId: string;
+  field: 'name' | 'start' | 'length' | 'capacity';
+  tracker: string;
+  eventbrite: string;
+}
+
+export interface EventbriteEventUpdate {
+  name?: string;
+  /** HTML */
+  description?: string;
+  start?: Date;
+  end?: Date;
+  capacity?: number;
+}
+
+const EVENT_TIMEZONE = process.env.SHAREPOINT_TIMEZONE || 'Europe/London';
+
+/** Eventbrite wants UTC without milliseconds: 2026-06-13T08:30:00Z */
+function eventbriteUtc(date: Date): string {
+  return date.toISOString().replace(/\.\d{3}Z$/, 'Z');
+}
+
+/** Update an event's name, description, times and/or capacity. Only the fields given are sent. */
+export async function updateEvent(eventId: string, update: EventbriteEventUpdate): Promise<void> {
+  const event: Record<string, unknown> = {};
+  if (update.name !== undefined) event.name = { html: update.name };
+  if (update.description !== undefined) event.description = { html: update.description };
+  if (update.start) event.start = { timezone: EVENT_TIMEZONE, utc: eventbriteUtc(update.start) };
+  if (update.end) event.end = { timezone: EVENT_TIMEZONE, utc: eventbriteUtc(update.end) };
+  if (update.capacity !== undefined) event.capacity = update.capacity;
+  await fetchEventbrite(`/events/${eventId}/`, { event });
+}
+
+/**
+ * Add one occurrence to a series (the series' tickets and questions are copied to it).
+ * Returns the new event's ID.
+ */
+export async function createSeriesOccurrence(seriesId: string, start: Date, end: Date): Promise<string> {
+  const dtstart = eventbriteUtc(start).replace(/[-:]/g, '');
+  const data = await fetchEventbrite<{ created_event_ids?: string[] }>(`/events/${seriesId}/schedules/`, {
+    schedule: {
+      occurrence_duration: Math.round((end.getTime() - start.getTime()) / 1000),
+      recurrence_rule: `DTSTART:${dtstart}\nRRULE:FREQ=DAILY;COUNT=1`,
+    }
+  });
+  const eventId = data.created_event_ids?.[0];
+  if (!eventId) throw new Error(`Eventbrite created no occurrence in series ${seriesId}`);
+  return eventId;
 }
 
-export async function getEventConfigCheck(eventId: string, eventName: string): Promise<EventbriteConfigCheck> {
+export async function getEventConfigCheck(
+  eventId: string,
+  eventName: string,
+  mappings: EventbriteQuestionMappingResponse[]
+): Promise<EventbriteConfigCheck> {
   const [ticketData, questionData] = await Promise.all([
     fetchEventbrite<{ ticket_classes: Array<{ name: string }> }>(`/events/${eventId}/ticket_classes/`),
-    fetchEventbrite<{ questions: Array<{ respondent: string; question: { text: string } }> }>(`/events/${eventId}/questions/`)
+    fetchEventbrite<{ questions: Array<{ id: string; respondent: string; question: { text: string } }> }>(`/events/${eventId}/questions/`)
   ]);
 
   const tickets = ticketData.ticket_classes || [];
@@ -160,8 +238,7 @@ export async function getEventConfigCheck(eventId: string, eventName: string): P
     eventId,
     eventName,
     hasChildTicket: tickets.some(t => t.name.toLowerCase().includes('child')),
-    hasPrivacyConsentQuestion: questions.some(q => q.question.text === 'Personal Data Consent'),
-    hasPhotoConsentQuestion: questions.some(q => q.question.text === 'Photo and Video Consent'),
+    missingQuestions: missingRequiredQuestions(questions.map(q => ({ id: q.id, text: q.question.text })), mappings),
     consentQuestionsPerAttendee: questions.some(q => q.respondent === 'attendee')
   };
 }
@@ -0,0 +1,108 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+
+vi.mock('./repositories/sessions-repository', () => ({
+  sessionsRepository: { getById: vi.fn(), updateFields: vi.fn() }
+}))
+
+vi.mock('./repositories/groups-repository', () => ({
+  groupsRepository: { getAll: vi.fn() }
+}))
+
+vi.mock('./eventbrite-client', () => ({
+  updateEvent: vi.fn(),
+  createSeriesOccurrence: vi.fn()
+}))
+
+import { eventUpdateForSession, sessionEventConflicts, pushSessionToEventbrite, EventbritePushError } from './eventbrite-push'
+import { sessionsRepository } from './repositories/sessions-repository'
+import { groupsRepository } from './repositories/groups-repository'
+import { updateEvent, createSeriesOccurrence } from './eventbrite-client'
+import type { SharePointSession } from '../../types/session'
+
+function session(overrides: Partial<SharePointSession> = {}): SharePointSession {
+  return { ID: 42, Title: '2026-06-13 sat', Date: '2026-06-13', GroupLookupId: '1', Created: '', Modified: '', ...overrides } as SharePointSession
+}
+
+const GROUP = { ID: 1, Title: 'sat', Name: 'Saturday Dig', EventbriteSeriesID: '9000' }
+
+beforeEach(() => {
+  vi.clearAllMocks()
+  vi.mocked(groupsRepository.getAll).mockResolvedValue([GROUP] as any)
+})
+
+describe('eventUpdateForSession', () => {
+  it('sends only start and end for a bare session', () => {
+    const update = eventUpdateForSession(session({ Time: '10:00', Length: 2 } as any), 'Saturday Dig')
+    expect(Object.keys(update).sort()).toEqual(['end', 'start'])
+    expect(update.start!.toISOString()).toBe('2026-06-13T09:00:00.000Z')
+    expect(update.end!.toISOString()).toBe('2026-06-13T11:00:00.000Z')
+  })
+
+  it('adds name, escaped description and capacity when the session has them', () => {
+    const update = eventUpdateForSession(session({
+      Name: 'Hedge laying', Notes: 'Bring gloves\n<sturdy> boots', Limits: '{"total":16}'
+    } as any), 'Saturday Dig')
+    expect(update.name).toBe('Saturday Dig: Hedge laying')
+    expect(update.description).toBe('<p>Bring gloves<br>&lt;sturdy&gt; boots</p>')
+    expect(update.capacity).toBe(16)
+  })
+})
+
+describe('sessionEventConflicts', () => {
+  const event = {
+    id: '555', name: 'Saturday Dig: Hedge laying', seriesId: '9000',
+    startDate: '2026-06-13T10:00:00', endDate: '2026-06-13T13:00:00', capacity: 16
+  } as any
+
+  it('reports nothing when the event matches its session', () => {
+    const matching = session({ Name: 'Hedge laying', Time: '10:00', Length: 3, Limits: '{"total":16}' } as any)
+    expect(sessionEventConflicts(matching, 'Saturday Dig', event)).toEqual([])
+  })
+
+  it('reports each field that has drifted', () => {
+    const drifted = session({ Name: 'Pond day', Time: '09:30', Length: 2, Limits: '{"total":20}' } as any)
+    const conflicts = sessionEventConflicts(drifted, 'Saturday Dig', event)
+    expect(conflicts.map(c => [c.field, c.tracker, c.eventbrite])).toEqual([
+      ['name', 'Saturday Dig: Pond day', 'Saturday Dig: Hedge laying'],
+      ['start', '2026-06-13T09:30', '2026-06-13T10:00'],
+      ['length', '2h', '3h'],
+      ['capacity', '20', '16'],
+    ])
+    expect(conflicts[0]).toMatchObject({ sessionId: 42, eventId: '555' })
+  })
+})
+
+describe('pushSessionToEventbrite', () => {
+  it('updates the linked event when the session already has one', async () => {
+    vi.mocked(sessionsRepository.getById).mockResolvedValue(session({ EventbriteEventID: '555' } as any))
+    expect(await pushSessionToEventbrite(42)).toEqual({ eventId: '555', created: false })
+    expect(updateEvent).toHaveBeenCalledWith('555', expect.objectContaining({ start: expect.any(Date) }))
+    expect(createSeriesOccurrence).not.toHaveBeenCalled()
+  })
+
+  it('creates an occurrence in the series and writes the event ID back', async () => {
+    vi.mocked(sessionsRepository.getById).mockResolvedValue(session())
+    vi.mocked(createSeriesOccurrence).mockResolvedValue('777')
+
+    expect(await pushSessionToEventbrite(42)).toEqual({ eventId: '777', created: true })
+    expect(vi.mocked(createSeriesOccurrence).mock.calls[0][0]).toBe('9000')
+    expect(updateEvent).toHaveBeenCalledWith('777', expect.any(Object))
+    expect(sessionsRepository.updateFields).toHaveBeenCalledWith(42, { EventbriteEventID: '777' })
+  })
+
+  it('names the created event when linking it fails', async () => {
+    vi.mocked(sessionsRepository.getById).mockResolvedValue(session())
+    vi.mocked(createSeriesOccurrence).mockResolvedValue('777')
+    vi.mocked(sessionsRepository.updateFields).mockRejectedValue(new Error('Graph 503'))
+
+    await expect(pushSessionToEventbrite(42)).rejects.toThrow('Created Eventbrite event 777')
+  })
+
+  it('refuses groups without an Eventbrite series', async () => {
+    vi.mocked(sessionsRepository.getById).mockResolvedValue(session())
+    vi.mocked(groupsRepository.getAll).mockResolvedValue([{ ...GROUP, EventbriteSeriesID: undefined }] as any)
+
+    await expect(pushSessionToEventbrite(42)).rejects.toBeInstanceOf(EventbritePushError)
+    expect(createSeriesOccurrence).not.toHaveBeenCalled()
+  })
+})
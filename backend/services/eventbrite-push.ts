@@ -0,0 +1,123 @@
+/**
+ * Eventbrite Push — tracker sessions → events in the group's Eventbrite series.
+ *
+ * The counterpart of runSyncSessions (which pulls events in by EventbriteSeriesID). A session
+ * without an EventbriteEventID gets a new occurrence in its group's series and the ID is written
+ * back; one with an ID has its event updated. What flows across:
+ *
+ *   Date + Time / Length → event start and end (site timezone)
+ *   Name                 → event name "{group}: {name}" (only when the session has a Name)
+ *   Notes                → event description (only when set — otherwise the series' description stays)
+ *   Limits.total         → event capacity (only when set)
+ *
+ * The same rules drive sessionEventConflicts(), which event-config-check uses to report events
+ * that have drifted from their session.
+ */
+
+import { DateTime } from 'luxon';
+import { sessionsRepository } from './repositories/sessions-repository';
+import { groupsRepository } from './repositories/groups-repository';
+import { parseSessionLimits, safeParseLookupId, sessionScheduleFields } from './data-layer';
+import { GROUP_LOOKUP, SESSION_NOTES } from './field-names';
+import { sessionEventTimes } from './calendar-feed';
+import {
+  updateEvent, createSeriesOccurrence,
+  type EventbriteEvent, type EventbriteEventUpdate, type EventbriteSessionConflict
+} from './eventbrite-client';
+import type { SharePointSession } from '../../types/session';
+
+export interface EventbritePushResult {
+  eventId: string;
+  /** true when a new occurrence was added to the series */
+  created: boolean;
+}
+
+export class EventbritePushError extends Error {
+  constructor(message: string, public readonly statusCode = 400) {
+    super(message);
+    this.name = 'EventbritePushError';
+  }
+}
+
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+function sessionEventName(spSession: SharePointSession, groupName: string): string | undefined {
+  return spSession.Name ? `${groupName}: ${spSession.Name}` : undefined;
+}
+
+/** The event fields a session pushes — see the header for which are optional */
+export function eventUpdateForSession(spSession: SharePointSession, groupName: string): EventbriteEventUpdate {
+  const { start, end } = sessionEventTimes(spSession);
+  const update: EventbriteEventUpdate = { start, end };
+  const name = sessionEventName(spSession, groupName);
+  if (name) update.name = name;
+  const notes = spSession[SESSION_NOTES]?.trim();
+  if (notes) update.description = `<p>${escapeHtml(notes).replace(/\r?\n/g, '<br>')}</p>`;
+  const { total } = parseSessionLimits(spSession);
+  if (total !== undefined) update.capacity = total;
+  return update;
+}
+
+/** Fields where an event no longer matches its session, using the push rules */
+export function sessionEventConflicts(
+  spSession: SharePointSession,
+  groupName: string,
+  event: EventbriteEvent
+): EventbriteSessionConflict[] {
+  const conflicts: EventbriteSessionConflict[] = [];
+  const add = (field: EventbriteSessionConflict['field'], tracker: string, eventbrite: string) =>
+    conflicts.push({ sessionId: spSession.ID, date: spSession.Date, eventId: event.id, field, tracker, eventbrite });
+
+  const name = sessionEventName(spSession, groupName);
+  if (name && name !== event.name) add('name', name, event.name);
+
+  const { time, length } = sessionScheduleFields(spSession);
+  const trackerStart = `${spSession.Date}T${time}`;
+  const eventStart = event.startDate.slice(0, 16);
+  if (eventStart && eventStart !== trackerStart) add('start', trackerStart, eventStart);
+
+  if (event.endDate && event.startDate) {
+    const hours = DateTime.fromISO(event.endDate).diff(DateTime.fromISO(event.startDate), 'hours').hours;
+    if (Math.abs(hours - length) > 0.01) add('length', `${length}h`, `${Math.round(hours * 100) / 100}h`);
+  }
+
+  const { total } = parseSessionLimits(spSession);
+  if (total !== undefined && event.capacity !== undefined && total !== event.capacity) {
+    add('capacity', String(total), String(event.capacity));
+  }
+  return conflicts;
+}
+
+/**
+ * Create or update the Eventbrite event for a session. Throws EventbritePushError when the
+ * session can't be pushed (unknown session, or its group has no Eventbrite series).
+ */
+export async function pushSessionToEventbrite(sessionId: number): Promise<EventbritePushResult> {
+  const [spSession, groups] = await Promise.all([sessionsRepository.getById(sessionId), groupsRepository.getAll()]);
+  if (!spSession) throw new EventbritePushError('Session not found', 404);
+  const groupId = safeParseLookupId(spSession[GROUP_LOOKUP] as unknown as string);
+  const group = groups.find(g => g.ID === groupId);
+  if (!group?.EventbriteSeriesID) {
+    throw new EventbritePushError(`${group?.Title || 'This group'} has no Eventbrite series ID`);
+  }
+
+  const update = eventUpdateForSession(spSession, group.Name || group.Title || '');
+  if (spSession.EventbriteEventID) {
+    await updateEvent(spSession.EventbriteEventID, update);
+    console.log(`[Eventbrite Push] Updated event ${spSession.EventbriteEventID} from session ${sessionId}`);
+    return { eventId: spSession.EventbriteEventID, created: false };
+  }
+
+  const eventId = await createSeriesOccurrence(group.EventbriteSeriesID, update.start!, update.end!);
+  try {
+    await updateEvent(eventId, update);
+    await sessionsRepository.updateFields(sessionId, { EventbriteEventID: eventId });
+  } catch (err: any) {
+    // The event exists now — say which one, so it can be linked by hand rather than duplicated
+    throw new Error(`Created Eventbrite event ${eventId} but failed to finish linking it to session ${sessionId}: ${err.message}`);
+  }
+  console.log(`[Eventbrite Push] Created event ${eventId} in series ${group.EventbriteSeriesID} for session ${sessionId}`);
+  return { eventId, created: true };
+}
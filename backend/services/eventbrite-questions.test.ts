@@ -0,0 +1,71 @@
+import { describe, it, expect, vi } from 'vitest'
+
+vi.mock('./repositories/eventbrite-questions-repository', () => ({
+  eventbriteQuestionsRepository: { configured: false, getAll: vi.fn() }
+}))
+
+import {
+  DEFAULT_QUESTION_MAPPINGS, answerLabels, answerProfileFields, missingRequiredQuestions, questionMappingFields, toQuestionMapping,
+  EventbriteQuestionError
+} from './eventbrite-questions'
+
+const FIRST_AIDER = toQuestionMapping({ ID: 1, Title: 'First aider?', Target: 'Entry label', Label: 'FirstAider', YesAnswers: 'Yes, Y', Created: '', Modified: '' })
+const EMPLOYER = toQuestionMapping({ ID: 2, Title: 'Employer', QuestionID: '777', Target: 'Entry label', Label: 'CSR', Required: true, Created: '', Modified: '' })
+const T_SHIRT = toQuestionMapping({ ID: 3, Title: 'T-shirt size', Target: 'Profile field', FieldName: 'TShirtSize', Created: '', Modified: '' })
+
+describe('answers', () => {
+  it('adds a label only for a yes answer when yes answers are set, and for any answer otherwise', () => {
+    const mappings = [FIRST_AIDER, EMPLOYER]
+    expect(answerLabels([
+      { question_id: '1', question: 'First aider?', answer: 'y' },
+      { question_id: '777', question: 'Who do you work for?', answer: 'Acme' },
+    ], mappings)).toEqual(['FirstAider', 'CSR'])
+    expect(answerLabels([{ question_id: '1', question: 'FIRST AIDER?', answer: 'No' }], mappings)).toEqual([])
+  })
+
+  it('matches by question ID when the mapping has one, ignoring the text', () => {
+    expect(answerLabels([{ question_id: '123', question: 'Employer', answer: 'Acme' }], [EMPLOYER])).toEqual([])
+  })
+
+  it('collects profile fields and skips unanswered questions', () => {
+    expect(answerProfileFields([{ question_id: '5', question: 't-shirt size', answer: 'M ' }], [T_SHIRT])).toEqual({ TShirtSize: 'M' })
+    expect(answerProfileFields([{ question_id: '5', question: 'T-shirt size', answer: '' }], [T_SHIRT])).toEqual({})
+  })
+
+  it('never writes a protected column from an answer, even for a mapping saved earlier', () => {
+    const parent = toQuestionMapping({ ID: 4, Title: 'Parent', Target: 'Profile field', FieldName: 'GuardianLookupId', Created: '', Modified: '' })
+    expect(answerProfileFields([{ question_id: '6', question: 'Parent', answer: '12' }], [parent])).toEqual({})
+  })
+})
+
+describe('missingRequiredQuestions', () => {
+  it('lists required mappings an event does not ask', () => {
+    expect(missingRequiredQuestions([{ id: '1', text: 'Personal Data Consent' }], DEFAULT_QUESTION_MAPPINGS)).toEqual(['Photo and Video Consent'])
+    expect(missingRequiredQuestions([{ id: '777', text: 'Company' }], [EMPLOYER, FIRST_AIDER])).toEqual([])
+  })
+})
+
+describe('questionMappingFields', () => {
+  it('builds list fields for a new mapping', () => {
+    expect(questionMappingFields({ title: ' Employer ', target: 'entry-label', label: 'CSR', yesAnswers: [] })).toEqual({
+      Title: 'Employer', Target: 'Entry label', Label: 'CSR', YesAnswers: '', Required: false
+    })
+  })
+
+  it('requires the field for the target', () => {
+    expect(() => questionMappingFields({ title: 'Consent', target: 'record' })).toThrow('recordType is required')
+    expect(() => questionMappingFields({ title: 'Size', target: 'profile-field', fieldName: 'T shirt' })).toThrow(EventbriteQuestionError)
+  })
+
+  it('refuses profile fields the sync manages', () => {
+    expect(() => questionMappingFields({ title: 'Email', target: 'profile-field', fieldName: 'Email' })).toThrow('managed by the sync')
+    expect(() => questionMappingFields({ title: 'Parent', target: 'profile-field', fieldName: 'GuardianLookupId' })).toThrow('managed by the sync')
+    expect(() => questionMappingFields({ title: 'Parent', target: 'profile-field', fieldName: 'Guardian' })).toThrow('managed by the sync')
+    expect(() => questionMappingFields({ title: 'Team', target: 'profile-field', fieldName: 'Placeholder' })).toThrow('managed by the sync')
+  })
+
+  it('checks an update against the existing mapping', () => {
+    expect(questionMappingFields({ yesAnswers: 'Yes,YES , y' }, FIRST_AIDER)).toEqual({ YesAnswers: 'yes,y' })
+    expect(() => questionMappingFields({ target: 'record' }, FIRST_AIDER)).toThrow('recordType is required')
+  })
+})
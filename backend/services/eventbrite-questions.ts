@@ -0,0 +1,196 @@
+/**
+ * Eventbrite Question Mapping
+ *
+ * Where each answer given at Eventbrite checkout goes, from the Eventbrite Questions list
+ * (EVENTBRITE_QUESTIONS_LIST_GUID, managed on the Tools page). A mapping matches an answer by
+ * question ID when it has one, otherwise by question text (case-insensitive), and sends it to:
+ *
+ *   record         a Records item of RecordType — Accepted for a yes answer, otherwise Declined
+ *   profile-field  the answer text, copied to a Profiles column (FieldName)
+ *   entry-label    Label, added to the booking for a yes answer (any answer when none are set)
+ *
+ * Records are kept up to date on every sync; profile fields and labels are written when a booking
+ * is first synced. Without the list, the two consent questions the sync has always handled are
+ * used (DEFAULT_QUESTION_MAPPINGS). Required mappings are checked by event-config-check.
+ */
+
+import { eventbriteQuestionsRepository } from './repositories/eventbrite-questions-repository';
+import { PROFILE_STATS, PROFILE_GUARDIAN_LOOKUP, PROFILE_GUARDIAN_DISPLAY, PROFILE_PLACEHOLDER } from './field-names';
+import type { EventbriteAnswer } from './eventbrite-client';
+import type { SharePointEventbriteQuestion } from '../../types/sharepoint';
+import type { EventbriteQuestionMappingResponse, EventbriteQuestionTarget } from '../../types/api-responses';
+
+export const QUESTION_TARGETS: EventbriteQuestionTarget[] = ['record', 'profile-field', 'entry-label'];
+
+const TARGET_VALUES: Record<EventbriteQuestionTarget, NonNullable<SharePointEventbriteQuestion['Target']>> = {
+  'record': 'Record',
+  'profile-field': 'Profile field',
+  'entry-label': 'Entry label',
+};
+
+/** Eventbrite's answer to a checkbox question that was ticked */
+const DEFAULT_YES_ANSWERS = ['accepted'];
+
+/**
+ * Profiles columns the sync or the app manages — never overwritten by an answer. The guardian link
+ * grants access to a child's data, so it must never come from free text typed at checkout.
+ */
+const PROTECTED_PROFILE_FIELDS = [
+  'ID', 'Title', 'Email', 'MatchName', 'User', 'IsGroup', PROFILE_STATS,
+  PROFILE_GUARDIAN_LOOKUP, PROFILE_GUARDIAN_DISPLAY, PROFILE_PLACEHOLDER, 'Created', 'Modified',
+];
+
+export const DEFAULT_QUESTION_MAPPINGS: EventbriteQuestionMappingResponse[] = [
+  { title: 'Personal Data Consent', target: 'record', recordType: 'Privacy Consent', yesAnswers: DEFAULT_YES_ANSWERS, required: true },
+  { title: 'Photo and Video Consent', target: 'record', recordType: 'Photo Consent', yesAnswers: DEFAULT_YES_ANSWERS, required: true },
+];
+
+export class EventbriteQuestionError extends Error {
+  constructor(message: string, public readonly statusCode = 400) {
+    super(message);
+    this.name = 'EventbriteQuestionError';
+  }
+}
+
+function splitAnswers(value: string | undefined): string[] {
+  return (value || '').split(',').map(a => a.trim().toLowerCase()).filter(Boolean);
+}
+
+export function toQuestionMapping(item: SharePointEventbriteQuestion): EventbriteQuestionMappingResponse {
+  const target = (Object.keys(TARGET_VALUES) as EventbriteQuestionTarget[]).find(k => TARGET_VALUES[k] === item.Target) ?? 'record';
+  return {
+    id: item.ID,
+    title: item.Title || '',
+    questionId: item.QuestionID || undefined,
+    target,
+    recordType: item.RecordType || undefined,
+    fieldName: item.FieldName || undefined,
+    label: item.Label || undefined,
+    yesAnswers: splitAnswers(item.YesAnswers),
+    required: !!item.Required,
+  };
+}
+
+/** The list's mappings, or the built-in consent questions when the list isn't configured */
+export async function loadQuestionMappings(): Promise<EventbriteQuestionMappingResponse[]> {
+  if (!eventbriteQuestionsRepository.configured) return DEFAULT_QUESTION_MAPPINGS;
+  return (await eventbriteQuestionsRepository.getAll()).map(toQuestionMapping);
+}
+
+function matchesQuestion(mapping: EventbriteQuestionMappingResponse, questionId: string | undefined, text: string): boolean {
+  if (mapping.questionId) return mapping.questionId === questionId;
+  return mapping.title.trim().toLowerCase() === text.trim().toLowerCase();
+}
+
+export function findQuestionMapping(
+  mappings: EventbriteQuestionMappingResponse[],
+  answer: Pick<EventbriteAnswer, 'question_id' | 'question'>
+): EventbriteQuestionMappingResponse | undefined {
+  return mappings.find(m => matchesQuestion(m, answer.question_id, answer.question));
+}
+
+export function isYesAnswer(mapping: EventbriteQuestionMappingResponse, answer: string): boolean {
+  const yes = mapping.yesAnswers.length ? mapping.yesAnswers
+    : mapping.target === 'record' ? DEFAULT_YES_ANSWERS
+    : null;
+  return yes ? yes.includes(answer.trim().toLowerCase()) : !!answer.trim();
+}
+
+/** Answered questions that map to a target, skipping attendees who registered before a question was added */
+export function mappedAnswers(
+  answers: EventbriteAnswer[] | undefined,
+  mappings: EventbriteQuestionMappingResponse[],
+  target: EventbriteQuestionTarget
+): { mapping: EventbriteQuestionMappingResponse; answer: string }[] {
+  return (answers ?? []).flatMap(ans => {
+    if (!ans.answer) return [];
+    const mapping = findQuestionMapping(mappings, ans);
+    return mapping && mapping.target === target ? [{ mapping, answer: ans.answer }] : [];
+  });
+}
+
+/** Profile columns to write from an attendee's answers */
+export function answerProfileFields(answers: EventbriteAnswer[] | undefined, mappings: EventbriteQuestionMappingResponse[]): Record<string, string> {
+  const fields: Record<string, string> = {};
+  for (const { mapping, answer } of mappedAnswers(answers, mappings, 'profile-field')) {
+    // Re-checked here for mappings saved before a column was protected
+    if (mapping.fieldName && !PROTECTED_PROFILE_FIELDS.includes(mapping.fieldName)) fields[mapping.fieldName] = answer.trim();
+  }
+  return fields;
+}
+
+/** Profiles columns that answers are copied into — personal data, so subject access and erase cover them */
+export function profileAnswerFieldNames(mappings: EventbriteQuestionMappingResponse[]): string[] {
+  return [...new Set(mappings.flatMap(m => m.target === 'profile-field' && m.fieldName ? [m.fieldName] : []))];
+}
+
+/** Entry labels earned by an attendee's answers */
+export function answerLabels(answers: EventbriteAnswer[] | undefined, mappings: EventbriteQuestionMappingResponse[]): string[] {
+  const labels = mappedAnswers(answers, mappings, 'entry-label')
+    .filter(({ mapping, answer }) => mapping.label && isYesAnswer(mapping, answer))
+    .map(({ mapping }) => mapping.label!);
+  return [...new Set(labels)];
+}
+
+/** Titles of required mappings that none of an event's questions match */
+export function missingRequiredQuestions(
+  questions: { id?: string; text: string }[],
+  mappings: EventbriteQuestionMappingResponse[]
+): string[] {
+  return mappings
+    .filter(m => m.required && !questions.some(q => matchesQuestion(m, q.id, q.text)))
+    .map(m => m.title);
+}
+
+/** Validates a create or update body into list fields */
+export function questionMappingFields(body: any, existing?: EventbriteQuestionMappingResponse): Record<string, any> {
+  const { title, questionId, target, recordType, fieldName, label, yesAnswers, required } = body ?? {};
+  const fields: Record<string, any> = {};
+  const text = (v: unknown) => typeof v === 'string' ? v.trim() : '';
+
+  if (title !== undefined || !existing) {
+    if (!text(title)) throw new EventbriteQuestionError('title is required');
+    fields.Title = text(title).slice(0, 255);
+  }
+  if (questionId !== undefined) fields.QuestionID = questionId === null ? '' : text(String(questionId));
+
+  const finalTarget: EventbriteQuestionTarget = target ?? existing?.target;
+  if (!QUESTION_TARGETS.includes(finalTarget)) {
+    throw new EventbriteQuestionError(`target must be one of ${QUESTION_TARGETS.join(', ')}`);
+  }
+  if (target !== undefined) fields.Target = TARGET_VALUES[finalTarget];
+
+  if (recordType !== undefined) fields.RecordType = text(recordType);
+  if (fieldName !== undefined) fields.FieldName = text(fieldName);
+  if (label !== undefined) fields.Label = text(label);
+  const finalValue = (key: string, current?: string) => key in fields ? fields[key] : current;
+
+  if (finalTarget === 'record' && !finalValue('RecordType', existing?.recordType)) {
+    throw new EventbriteQuestionError('recordType is required for a record mapping');
+  }
+  if (finalTarget === 'entry-label' && !finalValue('Label', existing?.label)) {
+    throw new EventbriteQuestionError('label is required for an entry-label mapping');
+  }
+  if (finalTarget === 'profile-field') {
+    const name = finalValue('FieldName', existing?.fieldName);
+    if (!name || !/^[A-Za-z_][A-Za-z0-9_]*$/.test(name)) {
+      throw new EventbriteQuestionError('fieldName must be the internal name of a Profiles column');
+    }
+    if (PROTECTED_PROFILE_FIELDS.includes(name)) {
+      throw new EventbriteQuestionError(`${name} is managed by the sync and can't be mapped`);
+    }
+  }
+
+  if (yesAnswers !== undefined) {
+    const list = Array.isArray(yesAnswers) ? yesAnswers : typeof yesAnswers === 'string' ? yesAnswers.split(',') : null;
+    if (!list || list.some(a => typeof a !== 'string')) throw new EventbriteQuestionError('yesAnswers must be a list of answers');
+    fields.YesAnswers = [...new Set(splitAnswers(list.join(',')))].join(',');
+  }
+  if (required !== undefined) {
+    if (typeof required !== 'boolean') throw new EventbriteQuestionError('required must be true or false');
+    fields.Required = required;
+  } else if (!existing) {
+    fields.Required = false;
+  }
+  return fields;
+}
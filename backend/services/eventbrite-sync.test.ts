@@ -1,4 +1,4 @@
-import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
 import type { SharePointProfile } from '../../types/sharepoint'
 
 vi.mock('./repositories/entries-repository', () => ({
@@ -8,7 +8,8 @@ vi.mock('./repositories/entries-repository', () => ({
 vi.mock('./repositories/profiles-repository', () => ({
   profilesRepository: {
     create: vi.fn().mockResolvedValue(999),
-    updateFields: vi.fn().mockResolvedValue(undefined)
+    updateFields: vi.fn().mockResolvedValue(undefined),
+    updateAnswerFields: vi.fn().mockResolvedValue(undefined)
   }
 }))
 
@@ -16,8 +17,21 @@ vi.mock('./repositories/records-repository', () => ({
   recordsRepository: { available: false, getAll: vi.fn(), create: vi.fn(), update: vi.fn() }
 }))
 
-import { findOrCreateProfile } from './eventbrite-sync'
+vi.mock('./repositories/eventbrite-questions-repository', () => ({
+  eventbriteQuestionsRepository: { configured: false, getAll: vi.fn() }
+}))
+
+vi.mock('./profile-reviews', () => ({
+  recordProfileReview: vi.fn().mockResolvedValue(true)
+}))
+
+import { findOrCreateProfile, syncAttendeesForSession, EventbriteSyncPlan } from './eventbrite-sync'
 import { profilesRepository } from './repositories/profiles-repository'
+import { entriesRepository } from './repositories/entries-repository'
+import { recordsRepository } from './repositories/records-repository'
+import { eventbriteQuestionsRepository } from './repositories/eventbrite-questions-repository'
+import { recordProfileReview } from './profile-reviews'
+import type { EventbriteAttendee } from './eventbrite-client'
 
 function profile(overrides: Partial<SharePointProfile> & { ID: number }): SharePointProfile {
   return { Title: 'Test User', Email: undefined, MatchName: undefined, Created: '', Modified: '', ...overrides }
@@ -26,6 +40,10 @@ function profile(overrides: Partial<SharePointProfile> & { ID: number }): ShareP
 beforeEach(() => {
   vi.mocked(profilesRepository.create).mockResolvedValue(999)
   vi.mocked(profilesRepository.updateFields).mockResolvedValue(undefined)
+  vi.mocked(recordProfileReview).mockClear()
+  vi.mocked(profilesRepository.create).mockClear()
+  vi.mocked(profilesRepository.updateFields).mockClear()
+  vi.mocked(profilesRepository.updateAnswerFields).mockClear()
 })
 
 describe('findOrCreateProfile — name + email match', () => {
@@ -75,6 +93,14 @@ describe('findOrCreateProfile — name-only match', () => {
     expect(result.isNew).toBe(false)
     expect(profilesRepository.updateFields).toHaveBeenCalledWith(6, { Email: 'john@example.com' })
   })
+
+  it('records the backfill as a name-only match for review', async () => {
+    const profiles = [profile({ ID: 6, Title: 'John Doe', MatchName: 'john doe' })]
+    await findOrCreateProfile('John Doe', 'john@example.com', profiles, 'Test', 31)
+    expect(recordProfileReview).toHaveBeenCalledWith({
+      kind: 'name-match', profileId: 6, attendeeName: 'John Doe', attendeeEmail: 'john@example.com', sessionId: 31
+    })
+  })
 })
 
 describe('findOrCreateProfile — email clash creates new profile', () => {
@@ -92,6 +118,14 @@ describe('findOrCreateProfile — email clash creates new profile', () => {
     expect(profiles).toHaveLength(2)
     expect(profiles[1].ID).toBe(999)
   })
+
+  it('records the clash for review with both profiles', async () => {
+    const profiles = [profile({ ID: 7, Title: 'Alex Jones', Email: 'alex1@example.com', MatchName: 'alex jones' })]
+    await findOrCreateProfile('Alex Jones', 'alex2@example.com', profiles, 'Test', 31)
+    expect(recordProfileReview).toHaveBeenCalledWith({
+      kind: 'clash', profileId: 7, otherProfileId: 999, attendeeName: 'Alex Jones', attendeeEmail: 'alex2@example.com', sessionId: 31
+    })
+  })
 })
 
 describe('findOrCreateProfile — no match creates new profile', () => {
@@ -105,6 +139,7 @@ describe('findOrCreateProfile — no match creates new profile', () => {
       Email: 'new@example.com',
       MatchName: 'new person'
     }))
+    expect(recordProfileReview).not.toHaveBeenCalled()
   })
 
   it('pushes new profile into the profiles array', async () => {
@@ -114,3 +149,119 @@ describe('findOrCreateProfile — no match creates new profile', () => {
     expect(profiles[0].Title).toBe('Brand New')
   })
 })
+
+function attendee(overrides: Partial<EventbriteAttendee> & { id: string; name: string; email?: string }): EventbriteAttendee {
+  const { name, email, ...rest } = overrides
+  return { created: '2026-05-01T09:00:00Z', status: 'Attending', checked_in: false, profile: { name, email: email ?? '' }, ...rest }
+}
+
+describe('dry run', () => {
+  it('plans a clash profile without creating it or recording a review', async () => {
+    const profiles = [profile({ ID: 7, Title: 'Alex Jones', Email: 'alex1@example.com', MatchName: 'alex jones' })]
+    const plan = new EventbriteSyncPlan()
+    const result = await findOrCreateProfile('Alex Jones', 'alex2@example.com', profiles, 'Test', 31, plan)
+
+    expect(result).toMatchObject({ isNew: true, clash: true, profile: { ID: -1 } })
+    expect(plan.changes).toEqual([
+      { action: 'create-profile', sessionId: 31, profileId: -1, name: 'Alex Jones', email: 'alex2@example.com', clashProfileId: 7 }
+    ])
+    expect(profilesRepository.create).not.toHaveBeenCalled()
+    expect(recordProfileReview).not.toHaveBeenCalled()
+  })
+
+  it('collects entries, accompanying adults, consent records and cancellations without writing', async () => {
+    const profiles = [
+      profile({ ID: 4, Title: 'Sam Lee', Email: 'sam@example.com', MatchName: 'sam lee' }),
+      profile({ ID: 5, Title: 'Kim Park', Email: 'kim@example.com', MatchName: 'kim park' }),
+    ]
+    const sessionEntries = [
+      { ID: 100, SessionLookupId: '31', ProfileLookupId: '4', Created: '', Modified: '' },
+      { ID: 101, SessionLookupId: '31', ProfileLookupId: '5', EventbriteAttendeeID: 'A9', Created: '', Modified: '' },
+    ] as any[]
+    const records = [{ ID: 50, ProfileLookupId: 4, Type: 'Photo Consent', Status: 'Accepted' }]
+    const attendees = [
+      attendee({ id: 'A1', name: 'Sam Lee', email: 'sam@example.com', order_id: 'O1', answers: [
+        { question: 'Photo and Video Consent', answer: 'declined' } as any
+      ] }),
+      attendee({ id: 'A2', name: 'New Parent', email: 'parent@example.com', order_id: 'O2', ticket_class_name: 'Adult' }),
+      attendee({ id: 'A3', name: 'New Child', order_id: 'O2', ticket_class_name: 'Child', answers: [
+        { question: 'Personal Data Consent', answer: 'accepted' } as any
+      ] }),
+    ]
+    const plan = new EventbriteSyncPlan()
+
+    const result = await syncAttendeesForSession(
+      31, attendees, sessionEntries, profiles, records, new Map([[31, '2026-06-13']]),
+      [attendee({ id: 'A9', name: 'Kim Park' })], plan
+    )
+
+    expect(result).toEqual({ newProfiles: 2, newEntries: 2, updatedEntries: 1, newRecords: 1, updatedRecords: 1, cancelledEntries: 1, clashProfiles: 0, updatedProfiles: 0 })
+    expect(plan.changes.map(c => [c.action, c.name])).toEqual([
+      ['stamp-attendee-id', 'Sam Lee'],
+      ['update-record', 'Sam Lee'],
+      ['create-profile', 'New Parent'],
+      ['create-entry', 'New Parent'],
+      ['create-profile', 'New Child'],
+      ['create-entry', 'New Child'],
+      ['create-record', 'New Child'],
+      ['cancel-entry', 'Kim Park'],
+    ])
+    expect(plan.changes[1]).toMatchObject({ recordType: 'Photo Consent', status: 'Declined', previousStatus: 'Accepted', date: '2026-06-13' })
+    expect(plan.changes[5].accompanyingAdult).toEqual({ profileId: -1, name: 'New Parent' })
+    expect(plan.changes[7]).toMatchObject({ entryId: 101, profileId: 5 })
+
+    expect(profilesRepository.create).not.toHaveBeenCalled()
+    expect(entriesRepository.create).not.toHaveBeenCalled()
+    expect(entriesRepository.updateFields).not.toHaveBeenCalled()
+    expect(recordsRepository.create).not.toHaveBeenCalled()
+    expect(recordsRepository.update).not.toHaveBeenCalled()
+  })
+})
+
+describe('mapped questions', () => {
+  beforeEach(() => {
+    Object.assign(eventbriteQuestionsRepository, { configured: true })
+    vi.mocked(eventbriteQuestionsRepository.getAll).mockResolvedValue([
+      { ID: 1, Title: 'Employer', Target: 'Entry label', Label: 'CSR', Created: '', Modified: '' },
+      { ID: 2, Title: 'Emergency contact', Target: 'Profile field', FieldName: 'EmergencyContact', Created: '', Modified: '' },
+      { ID: 3, Title: 'First aid', QuestionID: '555', Target: 'Record', RecordType: 'First Aid', YesAnswers: 'yes', Created: '', Modified: '' },
+    ] as any)
+    vi.mocked(entriesRepository.create).mockClear()
+    vi.mocked(recordsRepository.create).mockClear()
+  })
+
+  afterEach(() => {
+    Object.assign(eventbriteQuestionsRepository, { configured: false })
+  })
+
+  it('sends answers to entry labels, profile fields and records for a new booking', async () => {
+    vi.mocked(entriesRepository.create).mockResolvedValue(300)
+    vi.mocked(recordsRepository.create).mockResolvedValue(400)
+    const profiles = [profile({ ID: 4, Title: 'Sam Lee', Email: 'sam@example.com', MatchName: 'sam lee' })]
+    const answers = [
+      { question_id: '1', question: 'employer', answer: 'Acme Ltd' },
+      { question_id: '2', question: 'Emergency contact', answer: ' Jo Lee 07700 900000 ' },
+      { question_id: '555', question: 'Are you a first aider?', answer: 'Yes' },
+      { question_id: '9', question: 'Photo and Video Consent', answer: 'accepted' },
+    ]
+
+    const result = await syncAttendeesForSession(31, [attendee({ id: 'A1', name: 'Sam Lee', email: 'sam@example.com', answers })], [], profiles, [], new Map())
+
+    expect(entriesRepository.create).toHaveBeenCalledWith(expect.objectContaining({ Labels: ['CSR'] }))
+    expect(profilesRepository.updateAnswerFields).toHaveBeenCalledWith(4, { EmergencyContact: 'Jo Lee 07700 900000' })
+    expect(recordsRepository.create).toHaveBeenCalledTimes(1)
+    expect(recordsRepository.create).toHaveBeenCalledWith(expect.objectContaining({ ProfileLookupId: 4, Type: 'First Aid', Status: 'Accepted' }))
+    expect(result).toMatchObject({ newEntries: 1, newRecords: 1, updatedProfiles: 1 })
+  })
+
+  it('leaves profile fields alone for a booking that was already synced', async () => {
+    const profiles = [profile({ ID: 4, Title: 'Sam Lee', Email: 'sam@example.com', MatchName: 'sam lee' })]
+    const sessionEntries = [{ ID: 100, SessionLookupId: '31', ProfileLookupId: '4', EventbriteAttendeeID: 'A1', Created: '', Modified: '' }] as any[]
+    const answers = [{ question_id: '2', question: 'Emergency contact', answer: 'Someone new' }]
+
+    const result = await syncAttendeesForSession(31, [attendee({ id: 'A1', name: 'Sam Lee', email: 'sam@example.com', answers })], sessionEntries, profiles, [], new Map())
+
+    expect(profilesRepository.updateAnswerFields).not.toHaveBeenCalled()
+    expect(result.updatedProfiles).toBe(0)
+  })
+})
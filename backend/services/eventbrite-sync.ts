@@ -9,8 +9,32 @@ import { recordsRepository } from './repositories/records-repository';
 import { toMatchName, safeParseLookupId, parseEmails } from './data-layer';
 import type { EventbriteAttendee } from './eventbrite-client';
 import type { SharePointProfile, SharePointEntry } from '../../types/sharepoint';
-import { SESSION_LOOKUP, PROFILE_LOOKUP, ENTRY_EVENTBRITE_ATTENDEE_ID, ENTRY_CANCELLED } from './field-names';
+import type { EventbriteQuestionMappingResponse, EventbriteSyncChange } from '../../types/api-responses';
+import { SESSION_LOOKUP, PROFILE_LOOKUP, ENTRY_EVENTBRITE_ATTENDEE_ID, ENTRY_CANCELLED, ENTRY_LABELS } from './field-names';
 import { computeAndSaveProfileStats } from './profile-stats';
+import { emitEntryEvent } from './webhooks';
+import { recordProfileReview } from './profile-reviews';
+import { loadQuestionMappings, mappedAnswers, isYesAnswer, answerProfileFields, answerLabels } from './eventbrite-questions';
+
+/**
+ * Collects what a dry-run sync would write (?dryRun=true on sync-sessions / sync-attendees).
+ * When passed to the helpers below nothing is written: each intended write is recorded instead,
+ * and anything that would be created gets a negative placeholder ID so later attendees in the
+ * same batch still match against it. The helpers mutate the lists they are given, so callers
+ * pass copies rather than the cached arrays.
+ */
+export class EventbriteSyncPlan {
+  readonly changes: EventbriteSyncChange[] = [];
+  private nextPlaceholderId = -1;
+
+  placeholderId(): number {
+    return this.nextPlaceholderId--;
+  }
+
+  add(change: EventbriteSyncChange): void {
+    this.changes.push(change);
+  }
+}
 
 /**
  * Returns the booking email for an attendee — the order contact email (whoever
@@ -112,14 +136,18 @@ export function addSessionToProfileStats(
  * Finds or creates a profile for an Eventbrite attendee.
  * If name matches but emails differ, creates a new profile rather than risk
  * exposing data to the wrong person. Email is never matched alone.
+ * Clashes and email backfills are recorded in the profile review queue (profile-reviews.ts).
  * Mutates `profiles` by pushing any newly-created profile so subsequent
  * lookups within the same batch stay consistent.
+ * With a plan nothing is written and no review is recorded.
  */
 export async function findOrCreateProfile(
   attendeeName: string,
   attendeeEmail: string | undefined,
   profiles: SharePointProfile[],
-  logPrefix: string
+  logPrefix: string,
+  sessionId?: number,
+  plan?: EventbriteSyncPlan
 ): Promise<{ profile: SharePointProfile; isNew: boolean; clash?: boolean }> {
   const normalizedEmail = attendeeEmail?.toLowerCase();
   const nameKey = toMatchName(attendeeName);
@@ -152,8 +180,14 @@ export async function findOrCreateProfile(
       // Same name, emails match or one/both are absent — treat as the same person
       if (normalizedEmail && !profileEmail) {
         // Backfill email on the existing profile
-        await profilesRepository.updateFields(byName.ID, { Email: attendeeEmail });
-        byName.Email = attendeeEmail;
+        if (plan) {
+          plan.add({ action: 'backfill-email', sessionId, profileId: byName.ID, name: byName.Title || attendeeName, email: attendeeEmail });
+          byName.Email = attendeeEmail;
+        } else {
+          await profilesRepository.updateFields(byName.ID, { Email: attendeeEmail });
+          byName.Email = attendeeEmail;
+          await recordProfileReview({ kind: 'name-match', profileId: byName.ID, attendeeName, attendeeEmail, sessionId });
+        }
       }
       return { profile: byName, isNew: false };
     }
@@ -161,47 +195,53 @@ export async function findOrCreateProfile(
 
   // Step 3: No name+email or name-only match — create new profile
   const matchName = toMatchName(attendeeName);
-  const newId = await profilesRepository.create({
-    Title: attendeeName,
-    Email: attendeeEmail || undefined,
-    MatchName: matchName
-  });
   const clash = !!byName; // true if we found a name match but emails differed
-  console.log(`[${logPrefix}] Created profile: ${attendeeName} (ID: ${newId})${clash ? ' [duplicate warning]' : ''}`);
+  let newId: number;
+  if (plan) {
+    newId = plan.placeholderId();
+    plan.add({ action: 'create-profile', sessionId, profileId: newId, name: attendeeName, email: attendeeEmail, clashProfileId: byName?.ID });
+  } else {
+    newId = await profilesRepository.create({
+      Title: attendeeName,
+      Email: attendeeEmail || undefined,
+      MatchName: matchName
+    });
+    console.log(`[${logPrefix}] Created profile: ${attendeeName} (ID: ${newId})${clash ? ' [duplicate warning]' : ''}`);
+  }
   const newProfile = {
     ID: newId, Title: attendeeName, Email: attendeeEmail,
     MatchName: matchName, IsGroup: false
   } as SharePointProfile;
   profiles.push(newProfile);
+  if (clash && !plan) {
+    await recordProfileReview({ kind: 'clash', profileId: byName!.ID, otherProfileId: newId, attendeeName, attendeeEmail, sessionId });
+  }
   return { profile: newProfile, isNew: true, clash };
 }
 
-const CONSENT_MAP: Record<string, string> = {
-  'Personal Data Consent': 'Privacy Consent',
-  'Photo and Video Consent': 'Photo Consent'
-};
-
 /**
- * Upserts consent records for a profile from Eventbrite attendee answers.
- * Only writes to SharePoint if the status or date has changed.
+ * Upserts Records for a profile from the attendee's answers to questions mapped to a record
+ * (eventbrite-questions.ts) — the consent questions unless the mapping list says otherwise.
+ * Only writes to SharePoint if the status has changed.
  * Mutates `records` by pushing any newly-created record so subsequent
  * lookups within the same batch stay consistent.
+ * With a plan the writes are recorded there instead, labelled with `context`.
  */
-export async function upsertConsentRecords(
+export async function upsertAnswerRecords(
   profileId: number,
   attendee: EventbriteAttendee,
-  records: any[]
+  records: any[],
+  mappings: EventbriteQuestionMappingResponse[],
+  plan?: EventbriteSyncPlan,
+  context: Pick<EventbriteSyncChange, 'name' | 'sessionId' | 'date'> = { name: '' }
 ): Promise<{ created: number; updated: number }> {
-  if (!attendee.answers) return { created: 0, updated: 0 };
-
   let created = 0;
   let updated = 0;
 
-  for (const ans of attendee.answers) {
-    if (!ans.answer) continue; // skip attendees who registered before the form was added
-    const type = CONSENT_MAP[ans.question] ?? null;
+  for (const { mapping, answer } of mappedAnswers(attendee.answers, mappings, 'record')) {
+    const type = mapping.recordType;
     if (!type) continue;
-    const status = ans.answer === 'accepted' ? 'Accepted' : 'Declined';
+    const status = isYesAnswer(mapping, answer) ? 'Accepted' : 'Declined';
     const date = attendee.created || new Date().toISOString();
     const existing = records.find(r =>
       safeParseLookupId(r.ProfileLookupId as unknown as string) === profileId && r.Type === type
@@ -210,11 +250,21 @@ export async function upsertConsentRecords(
       // Only update if status changed — date comparison is unreliable because
       // SharePoint's date-only field strips the time component from attendee.created.
       if (existing.Status !== status) {
-        await recordsRepository.update(existing.ID, { Status: status });
+        if (plan) {
+          plan.add({ action: 'update-record', ...context, profileId, recordType: type, status, previousStatus: existing.Status });
+        } else {
+          await recordsRepository.update(existing.ID, { Status: status });
+        }
         updated++;
       }
     } else {
-      const newId = await recordsRepository.create({ ProfileLookupId: profileId, Type: type, Status: status, Date: date });
+      let newId: number;
+      if (plan) {
+        newId = plan.placeholderId();
+        plan.add({ action: 'create-record', ...context, profileId, recordType: type, status });
+      } else {
+        newId = await recordsRepository.create({ ProfileLookupId: profileId, Type: type, Status: status, Date: date });
+      }
       records.push({ ID: newId, ProfileLookupId: profileId, Type: type, Status: status, Date: date });
       created++;
     }
@@ -223,12 +273,44 @@ export async function upsertConsentRecords(
   return { created, updated };
 }
 
+/**
+ * Copies answers to questions mapped to a profile field onto the profile. Returns true when
+ * there was anything to write. Only called the first time a booking is synced, so an admin's
+ * later edit to the field isn't overwritten every night.
+ */
+async function applyAnswerProfileFields(
+  profile: SharePointProfile,
+  attendee: EventbriteAttendee,
+  mappings: EventbriteQuestionMappingResponse[],
+  plan?: EventbriteSyncPlan,
+  context: Pick<EventbriteSyncChange, 'sessionId' | 'date'> = {}
+): Promise<boolean> {
+  const fields = answerProfileFields(attendee.answers, mappings);
+  const changed = Object.entries(fields).filter(([field, value]) => profile[field] !== value);
+  if (!changed.length) return false;
+  if (plan) {
+    for (const [fieldName, value] of changed) {
+      plan.add({ action: 'update-profile-field', ...context, profileId: profile.ID, name: profile.Title || '', fieldName, value });
+    }
+  } else {
+    await profilesRepository.updateAnswerFields(profile.ID, Object.fromEntries(changed));
+  }
+  Object.assign(profile, Object.fromEntries(changed));
+  return true;
+}
+
 export interface SyncAttendeesForSessionResult {
   newProfiles: number;
   newEntries: number;
+  /** Existing entries stamped with their EventbriteAttendeeID */
+  updatedEntries: number;
   newRecords: number;
   updatedRecords: number;
   cancelledEntries: number;
+  /** New profiles created because the name matched an existing profile with a different email */
+  clashProfiles: number;
+  /** Profiles given answers to questions mapped to a profile field */
+  updatedProfiles: number;
 }
 
 /**
@@ -242,6 +324,12 @@ export interface SyncAttendeesForSessionResult {
  * No Notes tags are written — the presence of EventbriteAttendeeID is the source
  * of truth for the Eventbrite icon; child/new/etc. are handled by live fields and
  * profile.stats.
+ *
+ * Answers go where the question mappings send them (eventbrite-questions.ts): records on every
+ * sync, profile fields and entry labels when the booking is first synced (created or stamped).
+ *
+ * With a plan (dry run) nothing is written, no webhooks fire and no stats are refreshed;
+ * the intended writes are collected in the plan.
  */
 export async function syncAttendeesForSession(
   sessionId: number,
@@ -250,13 +338,20 @@ export async function syncAttendeesForSession(
   profiles: SharePointProfile[],
   records: any[],
   sessionDateMap: Map<number, string>,
-  cancelledAttendees: EventbriteAttendee[] = []
+  cancelledAttendees: EventbriteAttendee[] = [],
+  plan?: EventbriteSyncPlan
 ): Promise<SyncAttendeesForSessionResult> {
   let newProfiles = 0;
   let newEntries = 0;
+  let updatedEntries = 0;
   let newRecords = 0;
   let updatedRecords = 0;
   let cancelledEntries = 0;
+  let clashProfiles = 0;
+  let updatedProfiles = 0;
+  const mappings = await loadQuestionMappings();
+  const date = sessionDateMap.get(sessionId) || undefined;
+  const profileName = (id: number) => profiles.find(p => p.ID === id)?.Title || '';
 
   // Index existing entries by EventbriteAttendeeID and by profile ID for fast lookup
   const entryByAttendeeId = new Map<string, SharePointEntry>();
@@ -276,20 +371,23 @@ export async function syncAttendeesForSession(
     const attendeeEmail = attendee.profile?.email;
     if (!attendeeName) continue;
 
-    // If we already have an entry for this exact attendee ID, only update consent
+    // If we already have an entry for this exact attendee ID, only update records
     if (entryByAttendeeId.has(attendee.id)) {
       const profileId = safeParseLookupId(entryByAttendeeId.get(attendee.id)![PROFILE_LOOKUP]);
       if (profileId !== undefined) {
-        const { created, updated } = await upsertConsentRecords(profileId, attendee, records);
+        const { created, updated } = await upsertAnswerRecords(profileId, attendee, records, mappings, plan, { name: profileName(profileId), sessionId, date });
         newRecords += created;
         updatedRecords += updated;
       }
       continue;
     }
 
-    const { profile, isNew } = await findOrCreateProfile(attendeeName, attendeeEmail, profiles, `Sync:${sessionId}`);
+    const { profile, isNew, clash } = await findOrCreateProfile(attendeeName, attendeeEmail, profiles, `Sync:${sessionId}`, sessionId, plan);
     if (isNew) newProfiles++;
+    if (clash) clashProfiles++;
 
+    const labels = answerLabels(attendee.answers, mappings);
+    let firstSync = false;
     if (!existingProfileIds.has(profile.ID)) {
       const isChild = !!attendee.ticket_class_name?.toLowerCase().includes('child');
       const entryFields: Record<string, any> = {
@@ -298,24 +396,52 @@ export async function syncAttendeesForSession(
         [ENTRY_EVENTBRITE_ATTENDEE_ID]: attendee.id,
         BookedBy: bookingEmailFor(attendee)
       };
+      if (labels.length) entryFields[ENTRY_LABELS] = labels;
+      let adultProfile: SharePointProfile | undefined;
       if (isChild && attendee.order_id) {
-        const adultProfile = resolveAccompanyingAdult(attendees, attendee.order_id, profiles);
+        adultProfile = resolveAccompanyingAdult(attendees, attendee.order_id, profiles);
         if (adultProfile) entryFields.AccompanyingAdultLookupId = String(adultProfile.ID);
       }
-      await entriesRepository.create(entryFields);
+      if (plan) {
+        plan.add({
+          action: 'create-entry', sessionId, date, profileId: profile.ID, name: profile.Title || attendeeName,
+          email: entryFields.BookedBy, attendeeId: attendee.id,
+          accompanyingAdult: adultProfile ? { profileId: adultProfile.ID, name: adultProfile.Title || '' } : undefined,
+          labels: labels.length ? labels : undefined
+        });
+      } else {
+        const entryId = await entriesRepository.create(entryFields);
+        emitEntryEvent('entry.booked', { entryId, sessionId, profileId: profile.ID, source: 'eventbrite', waitlisted: false });
+      }
       existingProfileIds.add(profile.ID);
       addSessionToProfileStats(profile, sessionId, sessionDateMap);
       newEntries++;
+      firstSync = true;
     } else {
-      // Profile already has an entry — stamp the AttendeeID onto it if not already set
+      // Profile already has an entry — stamp the AttendeeID (and any answer labels) onto it if not already set
       const existingEntry = entryByProfileId.get(profile.ID);
       if (existingEntry && !existingEntry.EventbriteAttendeeID) {
-        await entriesRepository.updateFields(existingEntry.ID, { [ENTRY_EVENTBRITE_ATTENDEE_ID]: attendee.id });
+        const stampFields: Record<string, any> = { [ENTRY_EVENTBRITE_ATTENDEE_ID]: attendee.id };
+        const newLabels = labels.filter(l => !existingEntry[ENTRY_LABELS]?.includes(l));
+        if (newLabels.length) stampFields[ENTRY_LABELS] = [...(existingEntry[ENTRY_LABELS] || []), ...newLabels];
+        if (plan) {
+          plan.add({ action: 'stamp-attendee-id', sessionId, date, profileId: profile.ID, name: profile.Title || attendeeName, entryId: existingEntry.ID, attendeeId: attendee.id });
+          if (newLabels.length) {
+            plan.add({ action: 'add-entry-label', sessionId, date, profileId: profile.ID, name: profile.Title || attendeeName, entryId: existingEntry.ID, labels: newLabels });
+          }
+        } else {
+          await entriesRepository.updateFields(existingEntry.ID, stampFields);
+        }
         existingEntry.EventbriteAttendeeID = attendee.id;
+        if (stampFields[ENTRY_LABELS]) existingEntry[ENTRY_LABELS] = stampFields[ENTRY_LABELS];
+        updatedEntries++;
+        firstSync = true;
       }
     }
 
-    const { created, updated } = await upsertConsentRecords(profile.ID, attendee, records);
+    if (firstSync && await applyAnswerProfileFields(profile, attendee, mappings, plan, { sessionId, date })) updatedProfiles++;
+
+    const { created, updated } = await upsertAnswerRecords(profile.ID, attendee, records, mappings, plan, { name: profile.Title || attendeeName, sessionId, date });
     newRecords += created;
     updatedRecords += updated;
   }
@@ -331,12 +457,18 @@ export async function syncAttendeesForSession(
   for (const attendee of cancelledAttendees) {
     const entryInfo = entryByAttendeeIdForCancel.get(attendee.id);
     if (!entryInfo || entryInfo.alreadyCancelled) continue;
+    if (plan) {
+      plan.add({ action: 'cancel-entry', sessionId, date, profileId: entryInfo.profileId, name: profileName(entryInfo.profileId), entryId: entryInfo.id, attendeeId: attendee.id });
+      cancelledEntries++;
+      continue;
+    }
     await entriesRepository.updateFields(entryInfo.id, { [ENTRY_CANCELLED]: new Date().toISOString() });
+    emitEntryEvent('entry.cancelled', { entryId: entryInfo.id, sessionId, profileId: entryInfo.profileId, source: 'eventbrite' });
     computeAndSaveProfileStats(entryInfo.profileId).catch(err =>
       console.error('[Sync] computeAndSaveProfileStats failed for profile', entryInfo!.profileId, err)
     );
     cancelledEntries++;
   }
 
-  return { newProfiles, newEntries, newRecords, updatedRecords, cancelledEntries };
+  return { newProfiles, newEntries, updatedEntries, newRecords, updatedRecords, cancelledEntries, clashProfiles, updatedProfiles };
 }
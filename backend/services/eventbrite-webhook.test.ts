@@ -0,0 +1,188 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import fs from 'fs'
+import path from 'path'
+
+vi.mock('./repositories/sessions-repository', () => ({
+  sessionsRepository: { getAll: vi.fn() }
+}))
+
+vi.mock('./repositories/entries-repository', () => ({
+  entriesRepository: { getBySessionIds: vi.fn() }
+}))
+
+vi.mock('./repositories/profiles-repository', () => ({
+  profilesRepository: { getAll: vi.fn() }
+}))
+
+vi.mock('./repositories/records-repository', () => ({
+  recordsRepository: { getAll: vi.fn() }
+}))
+
+vi.mock('./eventbrite-client', () => ({
+  getAttendees: vi.fn(),
+  getCancelledAttendees: vi.fn(),
+  getOrderEventId: vi.fn()
+}))
+
+vi.mock('./eventbrite-sync', () => ({
+  syncAttendeesForSession: vi.fn()
+}))
+
+vi.mock('./session-stats', () => ({
+  computeAndSaveSessionStats: vi.fn(),
+  preservedMediaFromStats: vi.fn(() => ({}))
+}))
+
+import {
+  verifyWebhookRequest, signWebhookBody, resolveWebhookEventId, syncEventbriteEvent, EventSyncQueue
+} from './eventbrite-webhook'
+import { sessionsRepository } from './repositories/sessions-repository'
+import { entriesRepository } from './repositories/entries-repository'
+import { profilesRepository } from './repositories/profiles-repository'
+import { recordsRepository } from './repositories/records-repository'
+import { getAttendees, getCancelledAttendees, getOrderEventId } from './eventbrite-client'
+import { syncAttendeesForSession } from './eventbrite-sync'
+import { computeAndSaveSessionStats } from './session-stats'
+
+const FIXTURE_DIR = path.join(__dirname, '..', '..', 'tests', 'fixtures', 'eventbrite-webhooks')
+const SECRET = 'test-webhook-secret'
+
+/** A fixture body as Eventbrite would send it, placeholders filled in */
+function fixture(name: string, ids: { eventId?: string; orderId?: string; attendeeId?: string } = {}): string {
+  return fs.readFileSync(path.join(FIXTURE_DIR, `${name}.json`), 'utf8')
+    .replace('{eventId}', ids.eventId ?? '0')
+    .replace('{orderId}', ids.orderId ?? '0')
+    .replace('{attendeeId}', ids.attendeeId ?? '0')
+}
+
+const SYNC_RESULT = { newProfiles: 1, newEntries: 1, updatedEntries: 0, newRecords: 0, updatedRecords: 0, cancelledEntries: 0, clashProfiles: 0, updatedProfiles: 0 }
+
+beforeEach(() => {
+  vi.clearAllMocks()
+  process.env.EVENTBRITE_WEBHOOK_SECRET = SECRET
+})
+
+describe('verifyWebhookRequest', () => {
+  it('accepts a body signed with the secret and rejects a tampered one', () => {
+    const body = Buffer.from(fixture('order-placed', { orderId: '55' }))
+    const signature = signWebhookBody(body, SECRET)
+    expect(verifyWebhookRequest(body, signature, undefined)).toBe(true)
+    expect(verifyWebhookRequest(Buffer.from(fixture('order-placed', { orderId: '56' })), signature, undefined)).toBe(false)
+    expect(verifyWebhookRequest(body, 'abc', undefined)).toBe(false)
+  })
+
+  it('accepts the URL token when there is no signature header', () => {
+    expect(verifyWebhookRequest(undefined, undefined, SECRET)).toBe(true)
+    expect(verifyWebhookRequest(undefined, undefined, 'wrong')).toBe(false)
+    expect(verifyWebhookRequest(undefined, undefined, undefined)).toBe(false)
+  })
+
+  it('rejects everything when no secret is configured', () => {
+    delete process.env.EVENTBRITE_WEBHOOK_SECRET
+    expect(verifyWebhookRequest(undefined, undefined, SECRET)).toBe(false)
+  })
+})
+
+describe('resolveWebhookEventId — fixture replay', () => {
+  it('reads the event ID straight from an attendee.updated api_url', async () => {
+    const payload = JSON.parse(fixture('attendee-updated', { eventId: '123456', attendeeId: '789' }))
+    expect(await resolveWebhookEventId(payload.api_url)).toBe('123456')
+    expect(getOrderEventId).not.toHaveBeenCalled()
+  })
+
+  it.each(['order-placed', 'order-refunded'])('looks up the order for %s', async name => {
+    vi.mocked(getOrderEventId).mockResolvedValue('123456')
+    const payload = JSON.parse(fixture(name, { orderId: '4242' }))
+    expect(await resolveWebhookEventId(payload.api_url)).toBe('123456')
+    expect(getOrderEventId).toHaveBeenCalledWith('4242')
+  })
+
+  it('returns undefined for URLs that are not about an event', async () => {
+    const payload = JSON.parse(fixture('test-ping'))
+    expect(await resolveWebhookEventId(payload.api_url)).toBeUndefined()
+  })
+})
+
+describe('syncEventbriteEvent', () => {
+  beforeEach(() => {
+    vi.mocked(sessionsRepository.getAll).mockResolvedValue([
+      { ID: 7, Title: '2026-06-13 Sat', Date: '2026-06-13T12:00:00Z', EventbriteEventID: '123456', Stats: '{}', Created: '', Modified: '' } as any
+    ])
+    vi.mocked(profilesRepository.getAll).mockResolvedValue([])
+    vi.mocked(recordsRepository.getAll).mockResolvedValue([])
+    vi.mocked(entriesRepository.getBySessionIds).mockResolvedValue([])
+    vi.mocked(getAttendees).mockResolvedValue([])
+    vi.mocked(getCancelledAttendees).mockResolvedValue([])
+    vi.mocked(syncAttendeesForSession).mockResolvedValue(SYNC_RESULT)
+  })
+
+  it('syncs only the matching session and refreshes its stats when entries changed', async () => {
+    const result = await syncEventbriteEvent('123456')
+
+    expect(result).toEqual(SYNC_RESULT)
+    expect(getAttendees).toHaveBeenCalledWith('123456')
+    expect(entriesRepository.getBySessionIds).toHaveBeenCalledWith([7])
+    expect(vi.mocked(syncAttendeesForSession).mock.calls[0][0]).toBe(7)
+    expect(computeAndSaveSessionStats).toHaveBeenCalledWith(7, {})
+  })
+
+  it('skips the stats refresh when nothing was booked or cancelled', async () => {
+    vi.mocked(syncAttendeesForSession).mockResolvedValue({ ...SYNC_RESULT, newProfiles: 0, newEntries: 0 })
+    await syncEventbriteEvent('123456')
+    expect(computeAndSaveSessionStats).not.toHaveBeenCalled()
+  })
+
+  it('does nothing for an event with no session yet', async () => {
+    expect(await syncEventbriteEvent('999')).toBeNull()
+    expect(getAttendees).not.toHaveBeenCalled()
+  })
+})
+
+describe('EventSyncQueue', () => {
+  beforeEach(() => { vi.useFakeTimers() })
+  afterEach(() => { vi.useRealTimers() })
+
+  it('merges a burst of webhooks for one event into one sync', async () => {
+    const sync = vi.fn().mockResolvedValue(undefined)
+    const queue = new EventSyncQueue(sync, { delayMs: 1000 })
+
+    expect(queue.schedule('1')).toBe(true)
+    expect(queue.schedule('1')).toBe(false)
+    expect(queue.schedule('2')).toBe(true)
+    await vi.advanceTimersByTimeAsync(1000)
+
+    expect(sync.mock.calls).toEqual([['1'], ['2']])
+  })
+
+  it('runs once more when a webhook arrives mid-sync', async () => {
+    let finish!: () => void
+    const sync = vi.fn()
+      .mockImplementationOnce(() => new Promise<void>(resolve => { finish = resolve }))
+      .mockResolvedValue(undefined)
+    const queue = new EventSyncQueue(sync, { delayMs: 1000 })
+
+    queue.schedule('1')
+    await vi.advanceTimersByTimeAsync(1000)
+    expect(queue.schedule('1')).toBe(false)
+    expect(queue.schedule('1')).toBe(false)
+    finish()
+    await vi.advanceTimersByTimeAsync(1000)
+
+    expect(sync).toHaveBeenCalledTimes(2)
+  })
+
+  it('holds syncs while blocked and idle() waits for running ones', async () => {
+    let blocked = true
+    const sync = vi.fn().mockResolvedValue(undefined)
+    const queue = new EventSyncQueue(sync, { delayMs: 1000, isBlocked: () => blocked })
+
+    queue.schedule('1')
+    await vi.advanceTimersByTimeAsync(3000)
+    expect(sync).not.toHaveBeenCalled()
+
+    blocked = false
+    await vi.advanceTimersByTimeAsync(1000)
+    await queue.idle()
+    expect(sync).toHaveBeenCalledOnce()
+  })
+})
@@ -0,0 +1,168 @@
+/**
+ * Eventbrite Webhook Receiver
+ *
+ * Near-real-time attendee sync: Eventbrite calls POST /api/eventbrite/webhook on
+ * order.placed, attendee.updated and order.refunded, and only the affected event's
+ * session is re-synced through syncAttendeesForSession — the nightly run stays the backstop.
+ *
+ * Eventbrite's payload is just { config: { action, webhook_id, … }, api_url }. It carries no
+ * signature of its own, so requests are verified against EVENTBRITE_WEBHOOK_SECRET, either as
+ *
+ *   X-Eventbrite-Signature: {hex HMAC-SHA256 of the raw body}   (replay script, signing proxies)
+ *   ?token={secret} on the registered webhook URL               (what Eventbrite itself can send)
+ *
+ * Bookings often arrive as a burst (one order.placed plus an attendee.updated per ticket), so
+ * syncs are queued per event: requests within EVENTBRITE_WEBHOOK_DELAY_MS (default 5s) share one
+ * sync, and a request arriving mid-sync triggers exactly one more afterwards.
+ */
+
+import crypto from 'crypto';
+import { sessionsRepository } from './repositories/sessions-repository';
+import { entriesRepository } from './repositories/entries-repository';
+import { profilesRepository } from './repositories/profiles-repository';
+import { recordsRepository } from './repositories/records-repository';
+import { validateArray, validateSession, validateEntry, validateProfile, isSessionCancelled } from './data-layer';
+import { SESSION_STATS } from './field-names';
+import { getAttendees, getCancelledAttendees, getOrderEventId } from './eventbrite-client';
+import { syncAttendeesForSession, type SyncAttendeesForSessionResult } from './eventbrite-sync';
+import { computeAndSaveSessionStats, preservedMediaFromStats } from './session-stats';
+
+export const HANDLED_WEBHOOK_ACTIONS = ['order.placed', 'attendee.updated', 'order.refunded'] as const;
+export type EventbriteWebhookAction = typeof HANDLED_WEBHOOK_ACTIONS[number];
+
+export interface EventbriteWebhookPayload {
+  config?: { action?: string; webhook_id?: string; user_id?: string; endpoint_url?: string };
+  api_url?: string;
+}
+
+export function isWebhookConfigured(): boolean {
+  return !!process.env.EVENTBRITE_WEBHOOK_SECRET;
+}
+
+function safeEqual(a: string, b: string): boolean {
+  const left = Buffer.from(a);
+  const right = Buffer.from(b);
+  return left.length === right.length && crypto.timingSafeEqual(left, right);
+}
+
+export function signWebhookBody(rawBody: Buffer | string, secret: string): string {
+  return crypto.createHmac('sha256', secret).update(rawBody).digest('hex');
+}
+
+/** True when the signature header matches the raw body, or the URL token matches the secret */
+export function verifyWebhookRequest(rawBody: Buffer | undefined, signature: string | undefined, token: string | undefined): boolean {
+  const secret = process.env.EVENTBRITE_WEBHOOK_SECRET;
+  if (!secret) return false;
+  if (signature && rawBody) return safeEqual(signature.toLowerCase(), signWebhookBody(rawBody, secret));
+  if (token) return safeEqual(token, secret);
+  return false;
+}
+
+/**
+ * Eventbrite event ID the webhook is about. Attendee URLs include it
+ * (/v3/events/{eventId}/attendees/{id}/); order URLs need one lookup (/v3/orders/{id}/).
+ */
+export async function resolveWebhookEventId(apiUrl: string): Promise<string | undefined> {
+  const eventMatch = apiUrl.match(/\/events\/(\d+)\//);
+  if (eventMatch) return eventMatch[1];
+  const orderMatch = apiUrl.match(/\/orders\/(\d+)\/?/);
+  if (orderMatch) return getOrderEventId(orderMatch[1]);
+  return undefined;
+}
+
+/**
+ * Sync one Eventbrite event's attendees into its session. Returns null when no session
+ * has that EventbriteEventID (the nightly sessions sync creates it; its attendees follow),
+ * or when the session has been called off.
+ */
+export async function syncEventbriteEvent(eventId: string): Promise<SyncAttendeesForSessionResult | null> {
+  const [rawSessions, rawProfiles, records] = await Promise.all([
+    sessionsRepository.getAll(),
+    profilesRepository.getAll(),
+    recordsRepository.getAll(),
+  ]);
+  const session = validateArray(rawSessions, validateSession, 'Session').find(s => s.EventbriteEventID === eventId);
+  if (!session) {
+    console.log(`[Eventbrite Webhook] No session for event ${eventId} — left for the nightly sync`);
+    return null;
+  }
+  if (isSessionCancelled(session)) {
+    console.log(`[Eventbrite Webhook] Session ${session.ID} for event ${eventId} is cancelled — not synced`);
+    return null;
+  }
+
+  const [attendees, cancelledAttendees, rawEntries] = await Promise.all([
+    getAttendees(eventId),
+    getCancelledAttendees(eventId),
+    entriesRepository.getBySessionIds([session.ID]),
+  ]);
+  const result = await syncAttendeesForSession(
+    session.ID,
+    attendees,
+    validateArray(rawEntries, validateEntry, 'Entry'),
+    validateArray(rawProfiles, validateProfile, 'Profile'),
+    records,
+    new Map([[session.ID, (session.Date || '').substring(0, 10)]]),
+    cancelledAttendees
+  );
+
+  if (result.newEntries || result.cancelledEntries) {
+    await computeAndSaveSessionStats(session.ID, preservedMediaFromStats(session[SESSION_STATS]));
+  }
+  console.log(`[Eventbrite Webhook] Session ${session.ID} (${eventId}): ${result.newEntries} new entries, ${result.cancelledEntries} cancelled, ${result.newProfiles} new profiles`);
+  return result;
+}
+
+export interface EventSyncQueueOptions {
+  delayMs?: number;
+  /** While true, due syncs wait (re-checked every delayMs) — e.g. the nightly run is in progress */
+  isBlocked?: () => boolean;
+}
+
+/**
+ * Per-event coalescing queue. schedule() returns false when the request was folded into a
+ * sync that is already pending or running.
+ */
+export class EventSyncQueue {
+  private readonly pending = new Map<string, NodeJS.Timeout>();
+  private readonly running = new Map<string, Promise<void>>();
+  private readonly rerun = new Set<string>();
+  private readonly delayMs: number;
+  private readonly isBlocked: () => boolean;
+
+  constructor(private readonly sync: (eventId: string) => Promise<unknown>, options: EventSyncQueueOptions = {}) {
+    this.delayMs = options.delayMs ?? parseInt(process.env.EVENTBRITE_WEBHOOK_DELAY_MS || '5000', 10);
+    this.isBlocked = options.isBlocked ?? (() => false);
+  }
+
+  schedule(eventId: string): boolean {
+    if (this.pending.has(eventId)) return false;
+    if (this.running.has(eventId)) {
+      this.rerun.add(eventId);
+      return false;
+    }
+    this.pending.set(eventId, setTimeout(() => this.start(eventId), this.delayMs).unref());
+    return true;
+  }
+
+  /** Resolves once no sync is running (pending ones may still start later) */
+  async idle(): Promise<void> {
+    while (this.running.size) await Promise.all(this.running.values());
+  }
+
+  private start(eventId: string): void {
+    this.pending.delete(eventId);
+    if (this.isBlocked()) {
+      this.schedule(eventId);
+      return;
+    }
+    const run = this.sync(eventId)
+      .then(() => undefined)
+      .catch(err => console.error(`[Eventbrite Webhook] Sync of event ${eventId} failed:`, err.message))
+      .finally(() => {
+        this.running.delete(eventId);
+        if (this.rerun.delete(eventId)) this.schedule(eventId);
+      });
+    this.running.set(eventId, run);
+  }
+}
@@ -20,6 +20,14 @@ export const PROJECT_DISPLAY  = 'Project';
 export const ACCOMPANYING_ADULT_LOOKUP  = 'AccompanyingAdultLookupId';
 export const ACCOMPANYING_ADULT_DISPLAY = 'AccompanyingAdult';
 
+// Guardian lookup (Profiles list) — the parent or guardian a child profile is linked to
+export const PROFILE_GUARDIAN_LOOKUP  = 'GuardianLookupId';
+export const PROFILE_GUARDIAN_DISPLAY = 'Guardian';
+
+// Organisation lookup (Entries list) — the employer a CSR / work booking came through
+export const ENTRY_ORGANISATION_LOOKUP  = 'OrganisationLookupId';
+export const ENTRY_ORGANISATION_DISPLAY = 'Organisation';
+
 // Other fields
 export const SESSION_NOTES       = 'Notes';
 export const SESSION_METADATA    = 'Metadata';
@@ -30,7 +38,15 @@ export const SESSION_STATS       = 'Stats';  // Pre-computed JSON stats stored o
 export const SESSION_LIMITS      = 'Limits'; // Per-session capacity limits JSON: {"new": 4, "total": 16}
 export const SESSION_TIME        = 'Time';   // Start time HH:MM (24-hour clock)
 export const SESSION_LENGTH      = 'Length'; // Session duration in hours
+export const SESSION_CANCELLED   = 'Cancelled';    // Date/time when the whole session was called off; null = going ahead
+export const SESSION_CANCEL_REASON = 'CancelReason'; // Why the session was called off — shown on the session page and in the email
 export const PROFILE_STATS       = 'Stats';  // Same field name on Profiles list
+export const PROFILE_PLACEHOLDER = 'Placeholder'; // Yes/No — a team booking place whose volunteer hasn't been named yet
 export const ENTRY_CANCELLED             = 'Cancelled';         // Date/time when entry was cancelled; null = active booking
+export const ENTRY_WAITLISTED            = 'Waitlisted';        // Date/time when booking joined the waitlist; null = confirmed place
 export const ENTRY_LABELS                = 'Labels';            // Multi-select choice: Regular | CSR | Late | FirstAider | DigLead
 export const ENTRY_EVENTBRITE_ATTENDEE_ID = 'EventbriteAttendeeID'; // Eventbrite attendee ID — source of truth for the Eventbrite icon
+export const ENTRY_EMAILS_SENT           = 'EmailsSent';        // JSON {"pre-dig": iso, "post-session": iso} — session emails already sent
+export const ENTRY_RSVP                  = 'Rsvp';              // Choice: Coming | Declined — a regular's answer to the RSVP email; null = no answer
+export const GROUP_EMAIL_SCHEDULE        = 'EmailSchedule';     // JSON {"preTemplate": "pre-dig", "daysBefore": 2, "postSession": true, "rsvpDaysBefore": 5}; null = no scheduled emails
+export const GROUP_RECURRENCE            = 'Recurrence';        // JSON {"weekday": 6, "time": "09:30", "length": 3, ...}; null = no session series
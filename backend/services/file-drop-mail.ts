@@ -0,0 +1,25 @@
+import crypto from 'crypto';
+import fs from 'fs/promises';
+import path from 'path';
+import { buildMime, type SendEmailOptions } from './mail-mime';
+import type { MailTransport } from './mail-transport';
+
+/**
+ * Writes each message to `{dir}/{timestamp}-{id}-{to}.eml` instead of sending it — open the file
+ * in any mail client, or read the verification code straight out of it.
+ */
+export class FileDropMailTransport implements MailTransport {
+  readonly name = 'file';
+  readonly configured = true;
+
+  constructor(private readonly dir: string, private readonly from: string) {}
+
+  async send(options: SendEmailOptions): Promise<void> {
+    await fs.mkdir(this.dir, { recursive: true });
+    const stamp = new Date().toISOString().replace(/[:.]/g, '-');
+    const safeTo = options.to.replace(/[^a-z0-9@._-]/gi, '_').slice(0, 80);
+    const file = path.join(this.dir, `${stamp}-${crypto.randomBytes(3).toString('hex')}-${safeTo}.eml`);
+    await fs.writeFile(file, buildMime(options, this.from), 'utf8');
+    console.log(`[Mail] Wrote "${options.subject}" for ${options.to} to ${file}`);
+  }
+}
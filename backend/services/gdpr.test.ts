@@ -0,0 +1,271 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import type { SharePointEntry } from '../../types/sharepoint'
+
+vi.mock('./repositories/profiles-repository', () => ({
+  profilesRepository: { getById: vi.fn(), updateFields: vi.fn(), getAnswerFields: vi.fn(), updateAnswerFields: vi.fn() }
+}))
+
+vi.mock('./repositories/entries-repository', () => ({
+  entriesRepository: { getAll: vi.fn(), updateFields: vi.fn() }
+}))
+
+vi.mock('./repositories/sessions-repository', () => ({
+  sessionsRepository: { getAll: vi.fn() }
+}))
+
+vi.mock('./repositories/groups-repository', () => ({
+  groupsRepository: { getAll: vi.fn() }
+}))
+
+vi.mock('./repositories/records-repository', () => ({
+  recordsRepository: { getByProfile: vi.fn(), delete: vi.fn() }
+}))
+
+vi.mock('./repositories/regulars-repository', () => ({
+  regularsRepository: { getAll: vi.fn(), delete: vi.fn() }
+}))
+
+vi.mock('./repositories/profile-reviews-repository', () => ({
+  profileReviewsRepository: { getAll: vi.fn(), update: vi.fn() }
+}))
+
+vi.mock('./eventbrite-questions', async importOriginal => ({
+  ...(await importOriginal<typeof import('./eventbrite-questions')>()),
+  loadQuestionMappings: vi.fn()
+}))
+
+vi.mock('./sharepoint-client', () => ({
+  sharePointClient: { listFolderPhotos: vi.fn() }
+}))
+
+vi.mock('./auth-store', () => ({
+  listLoginsForProfile: vi.fn(),
+  deleteLoginsForProfile: vi.fn()
+}))
+
+const { auditQuery, auditRedact } = vi.hoisted(() => ({ auditQuery: vi.fn(), auditRedact: vi.fn() }))
+
+vi.mock('./audit-log', async importOriginal => ({
+  ...(await importOriginal<typeof import('./audit-log')>()),
+  auditSink: () => ({ query: auditQuery, redact: auditRedact })
+}))
+
+vi.mock('./profile-stats', () => ({
+  computeAndSaveProfileStats: vi.fn()
+}))
+
+vi.mock('./session-stats', () => ({
+  computeAndSaveSessionStats: vi.fn(),
+  preservedMediaFromStats: () => ({})
+}))
+
+vi.mock('./waitlist', () => ({
+  promoteFromWaitlist: vi.fn()
+}))
+
+import { buildSubjectAccessBundle, eraseProfile } from './gdpr'
+import { isMediaUploadedBy } from './media-upload'
+import { profilesRepository } from './repositories/profiles-repository'
+import { entriesRepository } from './repositories/entries-repository'
+import { sessionsRepository } from './repositories/sessions-repository'
+import { groupsRepository } from './repositories/groups-repository'
+import { recordsRepository } from './repositories/records-repository'
+import { regularsRepository } from './repositories/regulars-repository'
+import { profileReviewsRepository } from './repositories/profile-reviews-repository'
+import { sharePointClient } from './sharepoint-client'
+import { loadQuestionMappings } from './eventbrite-questions'
+import { listLoginsForProfile, deleteLoginsForProfile } from './auth-store'
+import { computeAndSaveProfileStats } from './profile-stats'
+import { computeAndSaveSessionStats } from './session-stats'
+import { promoteFromWaitlist } from './waitlist'
+
+const PAST = { ID: 10, Date: '2020-06-13', GroupLookupId: '1', Created: '', Modified: '' }
+const FUTURE = { ID: 11, Date: '2099-06-13', GroupLookupId: '1', Created: '', Modified: '' }
+
+function entry(id: number, sessionId: number, profileId: number, overrides: Partial<SharePointEntry> = {}): SharePointEntry {
+  return { ID: id, SessionLookupId: String(sessionId), ProfileLookupId: String(profileId), Created: '', Modified: '', ...overrides }
+}
+
+beforeEach(() => {
+  vi.clearAllMocks()
+  process.env.MEDIA_LIBRARY_DRIVE_ID = 'drive'
+  vi.mocked(profilesRepository.getById).mockResolvedValue(
+    { ID: 5, Title: 'Jane Smith', Email: 'jane@example.com, j.smith@example.com', MatchName: 'jane smith', Created: '', Modified: '' } as any
+  )
+  vi.mocked(entriesRepository.getAll).mockResolvedValue([
+    entry(100, 10, 5, { Hours: 3, Notes: 'Knee injury', BookedBy: 'jane@example.com', Checked: true }),
+    entry(101, 11, 5),
+    entry(102, 11, 6, { BookedBy: 'J.Smith@example.com' }),
+    entry(103, 11, 7, { BookedBy: 'someone@example.com' }),
+  ])
+  vi.mocked(sessionsRepository.getAll).mockResolvedValue([PAST, FUTURE] as any)
+  vi.mocked(groupsRepository.getAll).mockResolvedValue([{ ID: 1, Title: 'Sat', Name: 'Saturday Dig', Created: '', Modified: '' }] as any)
+  vi.mocked(recordsRepository.getByProfile).mockResolvedValue([{ ID: 20, Type: 'Privacy Consent', Status: 'Accepted', Date: '2024-01-01', Created: '', Modified: '' }])
+  vi.mocked(regularsRepository.getAll).mockResolvedValue([
+    { ID: 30, ProfileLookupId: '5', GroupLookupId: '1', Created: '', Modified: '' },
+    { ID: 31, ProfileLookupId: '6', GroupLookupId: '1', Created: '', Modified: '' },
+  ] as any)
+  vi.mocked(profileReviewsRepository.getAll).mockResolvedValue([
+    { ID: 40, Title: 'Jane Smith', Kind: 'Clash', Status: 'Pending', ProfileID: 8, OtherProfileID: 5, Email: 'jane@example.com', Created: '2026-02-01T00:00:00Z', Modified: '' },
+    { ID: 41, Title: 'Bob Jones', Kind: 'Name match', Status: 'Merged', ProfileID: 6, Email: 'bob@example.com', Created: '', Modified: '' },
+  ])
+  vi.mocked(sharePointClient.listFolderPhotos).mockImplementation(async (_drive, folder) =>
+    folder === 'sat/2020-06-13'
+      ? [
+          { name: '10-15-02-jane-smith-1234.jpg', webUrl: 'https://sp/1', isPublic: true },
+          { name: '10-16-00-bob-jones-5678.jpg', webUrl: 'https://sp/2', isPublic: true },
+        ] as any
+      : []
+  )
+  vi.mocked(listLoginsForProfile).mockResolvedValue([{ id: 1, createdAt: '2026-01-01T00:00:00Z', agent: 'Firefox' }])
+  vi.mocked(deleteLoginsForProfile).mockResolvedValue(1)
+  vi.mocked(computeAndSaveProfileStats).mockResolvedValue(undefined)
+  auditQuery.mockResolvedValue([])
+  auditRedact.mockResolvedValue(0)
+  vi.mocked(loadQuestionMappings).mockResolvedValue([])
+  vi.mocked(profilesRepository.getAnswerFields).mockResolvedValue({})
+})
+
+const ANSWER_MAPPINGS = [
+  { title: 'Emergency contact', target: 'profile-field' as const, fieldName: 'EmergencyContact', yesAnswers: [], required: false },
+  { title: 'Medical notes', target: 'profile-field' as const, fieldName: 'MedicalNotes', yesAnswers: [], required: false },
+  { title: 'Dietary needs', target: 'profile-field' as const, fieldName: 'Dietary', yesAnswers: [], required: false },
+  { title: 'First aider?', target: 'entry-label' as const, label: 'FirstAider', yesAnswers: ['yes'], required: false },
+]
+
+describe('isMediaUploadedBy', () => {
+  it('matches mediaFilename output for the uploader only', () => {
+    expect(isMediaUploadedBy('10-15-02-jane-smith-1234.jpg', 'Jane Smith')).toBe(true)
+    expect(isMediaUploadedBy('10-15-02-jane-smith-img.MP4', 'Jane  Smith')).toBe(true)
+    expect(isMediaUploadedBy('10-15-02-jane-smithson-1234.jpg', 'Jane Smith')).toBe(false)
+    expect(isMediaUploadedBy('IMG_1234.jpg', 'Jane Smith')).toBe(false)
+  })
+})
+
+describe('buildSubjectAccessBundle', () => {
+  it('returns null for an unknown profile', async () => {
+    vi.mocked(profilesRepository.getById).mockResolvedValue(null)
+    expect(await buildSubjectAccessBundle(99, 'admin@dtv.org.uk')).toBeNull()
+  })
+
+  it('collects the profile, entries, records, regulars, logins and media', async () => {
+    const bundle = (await buildSubjectAccessBundle(5, 'admin@dtv.org.uk'))!
+    expect(bundle.profile.emails).toEqual(['jane@example.com', 'j.smith@example.com'])
+    expect(bundle.entries.map(e => e.id)).toEqual([100, 101])
+    expect(bundle.entries[0]).toMatchObject({ date: '2020-06-13', group: 'Saturday Dig', hours: 3, notes: 'Knee injury' })
+    expect(bundle.bookingsMadeForOthers).toEqual([{ id: 102, date: '2099-06-13', group: 'Saturday Dig' }])
+    expect(bundle.records).toEqual([{ id: 20, type: 'Privacy Consent', status: 'Accepted', date: '2024-01-01' }])
+    expect(bundle.regulars).toEqual([{ id: 30, group: 'Saturday Dig' }])
+    expect(bundle.profileReviews).toEqual([
+      { id: 40, kind: 'clash', status: 'pending', name: 'Jane Smith', email: 'jane@example.com', created: '2026-02-01T00:00:00Z' },
+    ])
+    expect(bundle.logins).toEqual([{ createdAt: '2026-01-01T00:00:00Z', agent: 'Firefox' }])
+    expect(bundle.media.map(m => m.name)).toEqual(['10-15-02-jane-smith-1234.jpg'])
+    expect(bundle.warnings).toEqual([])
+  })
+
+  it('includes the Eventbrite answers copied into profile columns', async () => {
+    vi.mocked(loadQuestionMappings).mockResolvedValue(ANSWER_MAPPINGS)
+    vi.mocked(profilesRepository.getAnswerFields).mockResolvedValue({ EmergencyContact: 'John 07700 900000', MedicalNotes: 'Asthma', Dietary: null })
+    const bundle = (await buildSubjectAccessBundle(5, 'admin@dtv.org.uk'))!
+    expect(profilesRepository.getAnswerFields).toHaveBeenCalledWith(5, ['EmergencyContact', 'MedicalNotes', 'Dietary'])
+    expect(bundle.answerFields).toEqual({ EmergencyContact: 'John 07700 900000', MedicalNotes: 'Asthma' })
+  })
+
+  it('warns instead of failing when the media library is not configured', async () => {
+    delete process.env.MEDIA_LIBRARY_DRIVE_ID
+    const bundle = (await buildSubjectAccessBundle(5, 'admin@dtv.org.uk'))!
+    expect(bundle.media).toEqual([])
+    expect(bundle.warnings[0]).toMatch(/Media library not checked/)
+  })
+
+  it('includes audit events about their profile, entries, records and regulars and those they made', async () => {
+    const event = { timestamp: '2026-01-01T00:00:00Z', actor: 'jane@example.com', method: 'PATCH', route: '/entries/100', status: 200, entityType: 'entry', entityIds: [100] }
+    auditQuery.mockImplementation(async q => (q.entityType === 'entry' || q.actor === 'jane@example.com' ? [event] : []))
+
+    const bundle = (await buildSubjectAccessBundle(5, 'admin@dtv.org.uk'))!
+    expect(bundle.auditEvents).toEqual([event])
+    expect(auditQuery).toHaveBeenCalledWith({ entityType: 'profile', entityIds: [5], limit: 1000 })
+    expect(auditQuery).toHaveBeenCalledWith({ entityType: 'entry', entityIds: [100, 101], limit: 1000 })
+    expect(auditQuery).toHaveBeenCalledWith({ entityType: 'record', entityIds: [20], limit: 1000 })
+    expect(auditQuery).toHaveBeenCalledWith({ entityType: 'regular', entityIds: [30], limit: 1000 })
+    expect(auditQuery).toHaveBeenCalledWith({ actor: 'j.smith@example.com', limit: 1000 })
+  })
+})
+
+describe('eraseProfile', () => {
+  it('reports what would change without writing on a dry run', async () => {
+    const result = (await eraseProfile(5, { dryRun: true, baseUrl: 'https://app' }))!
+    expect(result).toMatchObject({
+      name: 'Erased volunteer 5',
+      dryRun: true,
+      entriesAnonymised: 1,
+      bookingsCancelled: 1,
+      bookedByCleared: 1,
+      recordsDeleted: 1,
+      regularsDeleted: 1,
+      profileReviewsAnonymised: 1,
+      loginsDeleted: 1,
+    })
+    expect(profilesRepository.updateFields).not.toHaveBeenCalled()
+    expect(entriesRepository.updateFields).not.toHaveBeenCalled()
+    expect(deleteLoginsForProfile).not.toHaveBeenCalled()
+    expect(profileReviewsRepository.update).not.toHaveBeenCalled()
+  })
+
+  it('anonymises the profile and keeps past hours', async () => {
+    await eraseProfile(5, { baseUrl: 'https://app' })
+
+    expect(profilesRepository.updateFields).toHaveBeenCalledWith(5, { Title: 'Erased volunteer 5', Email: '', MatchName: '', User: '' })
+    expect(entriesRepository.updateFields).toHaveBeenCalledWith(100, { Notes: '', BookedBy: '' })
+    expect(entriesRepository.updateFields).toHaveBeenCalledWith(101, { Cancelled: expect.any(String) })
+    expect(entriesRepository.updateFields).toHaveBeenCalledWith(102, { BookedBy: '' })
+    expect(entriesRepository.updateFields).not.toHaveBeenCalledWith(103, expect.anything())
+    expect(recordsRepository.delete).toHaveBeenCalledWith(20)
+    expect(regularsRepository.delete).toHaveBeenCalledWith(30)
+    expect(regularsRepository.delete).not.toHaveBeenCalledWith(31)
+    expect(profileReviewsRepository.update).toHaveBeenCalledTimes(1)
+    expect(profileReviewsRepository.update).toHaveBeenCalledWith(40, { Title: 'Erased volunteer 5', Email: '' })
+    expect(deleteLoginsForProfile).toHaveBeenCalledWith(5)
+  })
+
+  it('clears the profile columns that hold Eventbrite answers', async () => {
+    vi.mocked(loadQuestionMappings).mockResolvedValue(ANSWER_MAPPINGS)
+    vi.mocked(profilesRepository.getAnswerFields).mockResolvedValue({ EmergencyContact: 'John 07700 900000', MedicalNotes: 'Asthma', Dietary: '' })
+
+    const preview = (await eraseProfile(5, { dryRun: true, baseUrl: 'https://app' }))!
+    expect(preview.answerFieldsCleared).toBe(2)
+    expect(profilesRepository.updateAnswerFields).not.toHaveBeenCalled()
+
+    await eraseProfile(5, { baseUrl: 'https://app' })
+    expect(profilesRepository.updateAnswerFields).toHaveBeenCalledWith(5, { EmergencyContact: '', MedicalNotes: '' })
+  })
+
+  it('counts the audit events it would redact on a dry run', async () => {
+    auditQuery.mockImplementation(async q => q.entityType === 'entry' ? [
+      { timestamp: '2026-01-02T00:00:00Z', actor: 'admin@dtv.org.uk', method: 'PATCH', route: '/entries/100', status: 200, entityType: 'entry', entityIds: [100],
+        changes: { Notes: { before: '', after: 'Knee injury' } } },
+      { timestamp: '2026-01-01T00:00:00Z', actor: 'admin@dtv.org.uk', method: 'DELETE', route: '/entries/101', status: 200, entityType: 'entry', entityIds: [101] },
+    ] : [])
+    const result = (await eraseProfile(5, { dryRun: true, baseUrl: 'https://app' }))!
+    expect(result.auditEventsRedacted).toBe(1)
+    expect(auditRedact).not.toHaveBeenCalled()
+  })
+
+  it('redacts audit events about their profile, entries, records and regulars', async () => {
+    auditRedact.mockResolvedValue(3)
+    const result = (await eraseProfile(5, { baseUrl: 'https://app' }))!
+    expect(auditRedact).toHaveBeenCalledWith({
+      entities: { profile: [5], entry: [100, 101], record: [20], regular: [30] },
+      emails: ['jane@example.com', 'j.smith@example.com'],
+    })
+    expect(result.auditEventsRedacted).toBe(3)
+  })
+
+  it('refreshes stats and promotes the waitlist for cancelled future bookings', async () => {
+    await eraseProfile(5, { baseUrl: 'https://app' })
+    expect(computeAndSaveSessionStats).toHaveBeenCalledTimes(1)
+    expect(computeAndSaveSessionStats).toHaveBeenCalledWith(11, {})
+    expect(promoteFromWaitlist).toHaveBeenCalledWith(11, 'https://app')
+  })
+})
@@ -0,0 +1,374 @@
+/**
+ * GDPR — subject access export and right-to-be-forgotten erase for a volunteer profile.
+ *
+ * Subject access gathers everything held about one profile across Profiles, Entries,
+ * Records, Regulars, Profile Reviews, Logins, the Audit log and the Media library into one JSON bundle.
+ *
+ * Erase anonymises rather than deletes: the profile item stays (renamed "Erased volunteer {ID}")
+ * so past entries keep their hours and session Stats, FY totals and "new" counts are unchanged.
+ * Personal data is removed from every list that holds it; media files uploaded under the
+ * volunteer's name are only listed, for an admin to review in the Media library.
+ */
+
+import { profilesRepository } from './repositories/profiles-repository';
+import { entriesRepository } from './repositories/entries-repository';
+import { sessionsRepository } from './repositories/sessions-repository';
+import { groupsRepository } from './repositories/groups-repository';
+import { recordsRepository } from './repositories/records-repository';
+import { regularsRepository } from './repositories/regulars-repository';
+import { profileReviewsRepository } from './repositories/profile-reviews-repository';
+import { reviewKind, reviewStatus } from './profile-reviews';
+import { loadQuestionMappings, profileAnswerFieldNames } from './eventbrite-questions';
+import { sharePointClient } from './sharepoint-client';
+import { listLoginsForProfile, deleteLoginsForProfile } from './auth-store';
+import { auditSink, redactAuditEvent, type AuditEvent, type AuditQuery, type AuditRedaction } from './audit-log';
+import { mediaDriveId, isMediaUploadedBy } from './media-upload';
+import { computeAndSaveProfileStats } from './profile-stats';
+import { computeAndSaveSessionStats, preservedMediaFromStats } from './session-stats';
+import { promoteFromWaitlist } from './waitlist';
+import { safeParseLookupId, parseEmails, profileSlug } from './data-layer';
+import { GROUP_LOOKUP, SESSION_LOOKUP, PROFILE_LOOKUP, ENTRY_CANCELLED, ENTRY_WAITLISTED, ENTRY_LABELS } from './field-names';
+import type { SharePointProfile } from '../../types/sharepoint';
+import type { SharePointSession } from '../../types/session';
+import type { SharePointGroup } from '../../types/group';
+import type { ProfileEraseResponse, MediaFileResponse } from '../../types/api-responses';
+
+export interface SubjectAccessBundle {
+  generatedAt: string;
+  generatedBy: string;
+  profile: { id: number; name?: string; emails: string[]; matchName?: string; user?: string; isGroup: boolean; created?: string; modified?: string };
+  /** Eventbrite checkout answers copied into Profiles columns ('profile-field' question mappings), by column */
+  answerFields: Record<string, unknown>;
+  entries: {
+    id: number; date?: string; group?: string; count?: number; checkedIn: boolean; hours?: number; notes?: string;
+    bookedBy?: string; labels: string[]; cancelled?: string; waitlisted?: string; eventbriteAttendeeId?: string; created?: string;
+  }[];
+  /** Bookings this volunteer made for other people (their email is the entry's BookedBy) — other volunteers' details left out */
+  bookingsMadeForOthers: { id: number; date?: string; group?: string }[];
+  records: { id: number; type?: string; status?: string; date?: string }[];
+  regulars: { id: number; group?: string }[];
+  /** Eventbrite sync matches involving this profile, with the attendee name and email as booked */
+  profileReviews: { id: number; kind: string; status: string; name?: string; email?: string; created?: string }[];
+  logins: { createdAt: string; agent?: string }[];
+  auditEvents: AuditEvent[];
+  media: MediaFileResponse[];
+  /** Sources that could not be read, e.g. the Media library when it isn't configured */
+  warnings: string[];
+}
+
+interface ProfileData {
+  spProfile: SharePointProfile;
+  emails: string[];
+  /** Mapped answer columns that hold a value */
+  answerFields: Record<string, unknown>;
+  sessionsById: Map<number, SharePointSession>;
+  groupsById: Map<number, SharePointGroup>;
+  entries: Awaited<ReturnType<typeof entriesRepository.getAll>>;
+  bookedForOthers: Awaited<ReturnType<typeof entriesRepository.getAll>>;
+  records: Awaited<ReturnType<typeof recordsRepository.getByProfile>>;
+  regulars: Awaited<ReturnType<typeof regularsRepository.getAll>>;
+  profileReviews: Awaited<ReturnType<typeof profileReviewsRepository.getAll>>;
+}
+
+async function loadProfileData(profileId: number): Promise<ProfileData | null> {
+  const spProfile = await profilesRepository.getById(profileId);
+  if (!spProfile) return null;
+
+  const [allEntries, sessions, groups, records, allRegulars, allReviews] = await Promise.all([
+    entriesRepository.getAll(),
+    sessionsRepository.getAll(),
+    groupsRepository.getAll(),
+    recordsRepository.getByProfile(profileId),
+    regularsRepository.getAll(),
+    profileReviewsRepository.getAll()
+  ]);
+
+  const answerFieldNames = profileAnswerFieldNames(await loadQuestionMappings());
+  const answerFields = Object.fromEntries(
+    Object.entries(await profilesRepository.getAnswerFields(profileId, answerFieldNames))
+      .filter(([, value]) => value !== undefined && value !== null && value !== '')
+  );
+
+  const emails = parseEmails(spProfile.Email);
+  return {
+    spProfile,
+    emails,
+    answerFields,
+    sessionsById: new Map(sessions.map(s => [s.ID, s])),
+    groupsById: new Map(groups.map(g => [g.ID, g])),
+    entries: allEntries.filter(e => safeParseLookupId(e[PROFILE_LOOKUP]) === profileId),
+    bookedForOthers: allEntries.filter(e =>
+      safeParseLookupId(e[PROFILE_LOOKUP]) !== profileId && !!e.BookedBy && emails.includes(e.BookedBy.trim().toLowerCase())
+    ),
+    records,
+    regulars: allRegulars.filter(r => safeParseLookupId(r[PROFILE_LOOKUP]) === profileId),
+    profileReviews: allReviews.filter(r => r.ProfileID === profileId || r.OtherProfileID === profileId),
+  };
+}
+
+function sessionOf(data: ProfileData, entry: { [key: string]: any }): { session?: SharePointSession; date?: string; group?: SharePointGroup } {
+  const sessionId = safeParseLookupId(entry[SESSION_LOOKUP]);
+  const session = sessionId !== undefined ? data.sessionsById.get(sessionId) : undefined;
+  const groupId = safeParseLookupId(session?.[GROUP_LOOKUP] as unknown as string);
+  return {
+    session,
+    date: session?.Date?.substring(0, 10),
+    group: groupId !== undefined ? data.groupsById.get(groupId) : undefined,
+  };
+}
+
+// Media uploads land in {groupKey}/{date} named after the uploader (see mediaFilename),
+// so only the folders of sessions the volunteer attended need listing.
+async function findUploadedMedia(data: ProfileData, warnings: string[]): Promise<MediaFileResponse[]> {
+  const name = data.spProfile.Title;
+  if (!name) return [];
+
+  let driveId: string;
+  try {
+    driveId = mediaDriveId();
+  } catch (err: any) {
+    warnings.push(`Media library not checked: ${err.message}`);
+    return [];
+  }
+
+  const folders = new Set<string>();
+  for (const entry of data.entries) {
+    const { date, group } = sessionOf(data, entry);
+    if (date && group?.Title) folders.add(`${group.Title.toLowerCase()}/${date}`);
+  }
+
+  const media: MediaFileResponse[] = [];
+  for (const folder of folders) {
+    try {
+      const photos = await sharePointClient.listFolderPhotos(driveId, folder);
+      for (const photo of photos) {
+        if (isMediaUploadedBy(photo.name, name)) {
+          media.push({ name: photo.name, folder, webUrl: photo.webUrl, isPublic: photo.isPublic });
+        }
+      }
+    } catch (err: any) {
+      // A session without uploads has no folder — not worth a warning
+      if (err.response?.status !== 404) warnings.push(`Media folder ${folder} not checked: ${err.message}`);
+    }
+  }
+  return media;
+}
+
+function auditRedaction(profileId: number, data: ProfileData): AuditRedaction {
+  return {
+    entities: {
+      profile: [profileId],
+      entry: data.entries.map(e => e.ID),
+      record: data.records.map(r => r.ID),
+      regular: data.regulars.map(r => r.ID),
+    },
+    emails: data.emails,
+  };
+}
+
+/** Audit events about the profile, its entries, records and regulars, or made by them — newest first */
+async function findAuditEvents(profileId: number, data: ProfileData, warnings: string[]): Promise<AuditEvent[]> {
+  const { entities } = auditRedaction(profileId, data);
+  const queries: AuditQuery[] = [
+    ...Object.entries(entities)
+      .filter(([, ids]) => ids.length > 0)
+      .map(([entityType, entityIds]) => ({ entityType: entityType as AuditQuery['entityType'], entityIds })),
+    ...data.emails.map(actor => ({ actor })),
+  ];
+  try {
+    const results = await Promise.all(queries.map(q => auditSink().query({ ...q, limit: 1000 })));
+    // An event by them about their own entry matches two queries
+    const byKey = new Map(results.flat().map(event => [JSON.stringify(event), event]));
+    return [...byKey.values()].sort((a, b) => b.timestamp.localeCompare(a.timestamp));
+  } catch (err: any) {
+    warnings.push(`Audit log not checked: ${err.message}`);
+    return [];
+  }
+}
+
+/** Everything held about one profile. Returns null if the profile does not exist. */
+export async function buildSubjectAccessBundle(profileId: number, generatedBy: string): Promise<SubjectAccessBundle | null> {
+  const data = await loadProfileData(profileId);
+  if (!data) return null;
+  const { spProfile } = data;
+  const warnings: string[] = [];
+
+  const [logins, auditEvents, media] = await Promise.all([
+    listLoginsForProfile(profileId).catch((err: any) => {
+      warnings.push(`Logins not checked: ${err.message}`);
+      return [];
+    }),
+    findAuditEvents(profileId, data, warnings),
+    findUploadedMedia(data, warnings),
+  ]);
+
+  return {
+    generatedAt: new Date().toISOString(),
+    generatedBy,
+    profile: {
+      id: spProfile.ID,
+      name: spProfile.Title,
+      emails: data.emails,
+      matchName: spProfile.MatchName || undefined,
+      user: spProfile.User || undefined,
+      isGroup: !!spProfile.IsGroup,
+      created: spProfile.Created,
+      modified: spProfile.Modified,
+    },
+    answerFields: data.answerFields,
+    entries: data.entries.map(e => {
+      const { date, group } = sessionOf(data, e);
+      return {
+        id: e.ID,
+        date,
+        group: group?.Name || group?.Title,
+        count: e.Count,
+        checkedIn: !!e.Checked,
+        hours: e.Hours,
+        notes: e.Notes || undefined,
+        bookedBy: e.BookedBy || undefined,
+        labels: e[ENTRY_LABELS] || [],
+        cancelled: e[ENTRY_CANCELLED] || undefined,
+        waitlisted: e[ENTRY_WAITLISTED] || undefined,
+        eventbriteAttendeeId: e.EventbriteAttendeeID || undefined,
+        created: e.Created,
+      };
+    }),
+    bookingsMadeForOthers: data.bookedForOthers.map(e => {
+      const { date, group } = sessionOf(data, e);
+      return { id: e.ID, date, group: group?.Name || group?.Title };
+    }),
+    records: data.records.map(r => ({ id: r.ID, type: r.Type, status: r.Status, date: r.Date })),
+    regulars: data.regulars.map(r => {
+      const groupId = safeParseLookupId(r[GROUP_LOOKUP]);
+      const group = groupId !== undefined ? data.groupsById.get(groupId) : undefined;
+      return { id: r.ID, group: group?.Name || group?.Title };
+    }),
+    profileReviews: data.profileReviews.map(r => ({
+      id: r.ID,
+      kind: reviewKind(r),
+      status: reviewStatus(r),
+      name: r.Title || undefined,
+      email: r.Email || undefined,
+      created: r.Created,
+    })),
+    logins: logins.map(l => ({ createdAt: l.createdAt, agent: l.agent })),
+    auditEvents,
+    media,
+    warnings,
+  };
+}
+
+export function erasedProfileName(profileId: number): string {
+  return `Erased volunteer ${profileId}`;
+}
+
+/**
+ * Anonymise a profile. With dryRun nothing is written and the summary shows what would change.
+ * Returns null if the profile does not exist.
+ *
+ * - Profile: Title → "Erased volunteer {ID}"; Email, MatchName and User cleared, and every column
+ *   a 'profile-field' question mapping copies Eventbrite answers into (e.g. emergency contact)
+ * - Own entries: kept (hours stay in the totals); Notes and BookedBy cleared;
+ *   future active bookings cancelled and the waitlist promoted
+ * - Other people's entries booked with their email: BookedBy cleared
+ * - Records, regulars and login tokens deleted
+ * - Profile reviews naming them: attendee name and email blanked; kept so the pair isn't flagged again
+ * - Media uploaded under their name: listed, not touched
+ * - Audit events about the profile, own entries, records and regulars: field diffs dropped; their
+ *   email replaced as actor and in other diffs (e.g. BookedBy). Who changed what and when is kept
+ */
+export async function eraseProfile(
+  profileId: number,
+  options: { dryRun?: boolean; baseUrl: string }
+): Promise<ProfileEraseResponse | null> {
+  const data = await loadProfileData(profileId);
+  if (!data) return null;
+  const dryRun = !!options.dryRun;
+  const warnings: string[] = [];
+
+  // Listed before the rename — matching is by the uploader's name
+  const media = await findUploadedMedia(data, warnings);
+  const logins = await listLoginsForProfile(profileId).catch((err: any) => {
+    warnings.push(`Logins not checked: ${err.message}`);
+    return null;
+  });
+  const redaction = auditRedaction(profileId, data);
+  const auditEvents = await findAuditEvents(profileId, data, warnings);
+
+  const today = new Date().toISOString().substring(0, 10);
+  const futureBookings = data.entries.filter(e => {
+    const { date } = sessionOf(data, e);
+    return !e[ENTRY_CANCELLED] && !!date && date >= today;
+  });
+
+  const summary: ProfileEraseResponse = {
+    profileId,
+    name: erasedProfileName(profileId),
+    slug: profileSlug(erasedProfileName(profileId), profileId),
+    dryRun,
+    answerFieldsCleared: Object.keys(data.answerFields).length,
+    entriesAnonymised: data.entries.filter(e => e.Notes || e.BookedBy).length,
+    bookingsCancelled: futureBookings.length,
+    bookedByCleared: data.bookedForOthers.length,
+    recordsDeleted: data.records.length,
+    regularsDeleted: data.regulars.length,
+    profileReviewsAnonymised: data.profileReviews.length,
+    loginsDeleted: logins?.length ?? 0,
+    auditEventsRedacted: auditEvents.filter(event => redactAuditEvent(event, redaction)).length,
+    media,
+    warnings,
+  };
+  if (dryRun) return summary;
+
+  await profilesRepository.updateFields(profileId, {
+    Title: summary.name,
+    Email: '',
+    MatchName: '',
+    User: '',
+  });
+  if (summary.answerFieldsCleared > 0) {
+    await profilesRepository.updateAnswerFields(profileId, Object.fromEntries(Object.keys(data.answerFields).map(name => [name, ''])));
+  }
+
+  const cancelledAt = new Date().toISOString();
+  const futureIds = new Set(futureBookings.map(e => e.ID));
+  for (const entry of data.entries) {
+    const fields: Record<string, any> = {};
+    if (entry.Notes) fields.Notes = '';
+    if (entry.BookedBy) fields.BookedBy = '';
+    if (futureIds.has(entry.ID)) fields[ENTRY_CANCELLED] = cancelledAt;
+    if (Object.keys(fields).length > 0) await entriesRepository.updateFields(entry.ID, fields);
+  }
+  for (const entry of data.bookedForOthers) {
+    await entriesRepository.updateFields(entry.ID, { BookedBy: '' });
+  }
+
+  for (const record of data.records) await recordsRepository.delete(record.ID);
+  for (const regular of data.regulars) await regularsRepository.delete(regular.ID);
+  for (const review of data.profileReviews) {
+    await profileReviewsRepository.update(review.ID, { Title: summary.name, Email: '' });
+  }
+  if (logins) summary.loginsDeleted = await deleteLoginsForProfile(profileId);
+  try {
+    summary.auditEventsRedacted = await auditSink().redact(redaction);
+  } catch (err: any) {
+    warnings.push(`Audit log not redacted: ${err.message}`);
+  }
+
+  // Cancelled bookings change session counts and may free places for the waitlist
+  for (const entry of futureBookings) {
+    const { session } = sessionOf(data, entry);
+    if (!session) continue;
+    try {
+      await computeAndSaveSessionStats(session.ID, preservedMediaFromStats(session.Stats));
+      if (!entry[ENTRY_WAITLISTED]) await promoteFromWaitlist(session.ID, options.baseUrl);
+    } catch (err: any) {
+      warnings.push(`Session ${session.ID} not refreshed: ${err.message}`);
+    }
+  }
+
+  computeAndSaveProfileStats(profileId).catch(err => console.error('[Stats] Profile stats update failed:', err));
+  console.log(`[GDPR] Erased profile ${profileId}`);
+  return summary;
+}
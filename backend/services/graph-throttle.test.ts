@@ -0,0 +1,117 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { retryDelayMs, withGraphRetry, ConcurrencyLimiter, graphMaxRetries, graphMaxConcurrency } from './graph-throttle'
+
+function graphError(status: number, retryAfter?: string) {
+  return Object.assign(new Error(`Request failed with status code ${status}`), {
+    response: { status, headers: retryAfter ? { 'retry-after': retryAfter } : {} }
+  })
+}
+
+beforeEach(() => {
+  vi.spyOn(console, 'warn').mockImplementation(() => {})
+})
+
+describe('retryDelayMs', () => {
+  it('honours Retry-After in seconds or as an HTTP date', () => {
+    const now = Date.parse('2026-03-01T10:00:00Z')
+    expect(retryDelayMs(1, '7', now)).toBe(7000)
+    expect(retryDelayMs(1, 'Sun, 01 Mar 2026 10:00:30 GMT', now)).toBe(30_000)
+  })
+
+  it('backs off exponentially with jitter when there is no Retry-After', () => {
+    const first = retryDelayMs(1)
+    const third = retryDelayMs(3)
+    expect(first).toBeGreaterThanOrEqual(1000)
+    expect(first).toBeLessThan(1250)
+    expect(third).toBeGreaterThanOrEqual(4000)
+    expect(third).toBeLessThan(4250)
+    expect(retryDelayMs(20)).toBeLessThan(60_250)
+  })
+})
+
+describe('withGraphRetry', () => {
+  it('retries throttled calls after the Retry-After delay', async () => {
+    const sleep = vi.fn(async () => {})
+    const fn = vi.fn()
+      .mockRejectedValueOnce(graphError(429, '2'))
+      .mockRejectedValueOnce(graphError(503))
+      .mockResolvedValueOnce('done')
+
+    await expect(withGraphRetry(fn, { label: 'PATCH items/1', sleep })).resolves.toBe('done')
+    expect(fn).toHaveBeenCalledTimes(3)
+    expect(sleep).toHaveBeenNthCalledWith(1, 2000)
+  })
+
+  it('rethrows other errors straight away and gives up after maxRetries', async () => {
+    const sleep = vi.fn(async () => {})
+    const badRequest = graphError(400)
+    await expect(withGraphRetry(vi.fn().mockRejectedValue(badRequest), { label: 'x', sleep })).rejects.toBe(badRequest)
+    expect(sleep).not.toHaveBeenCalled()
+
+    const throttled = vi.fn().mockRejectedValue(graphError(429, '0'))
+    await expect(withGraphRetry(throttled, { label: 'x', sleep, maxRetries: 2 })).rejects.toThrow('429')
+    expect(throttled).toHaveBeenCalledTimes(3)
+  })
+
+  it('retries a create on 429 but not on 503, which may already have been applied', async () => {
+    const sleep = vi.fn(async () => {})
+    const busy = graphError(503)
+    const create = vi.fn().mockRejectedValueOnce(graphError(429, '0')).mockRejectedValueOnce(busy)
+
+    await expect(withGraphRetry(create, { label: 'POST items', sleep, idempotent: false })).rejects.toBe(busy)
+    expect(create).toHaveBeenCalledTimes(2)
+  })
+})
+
+describe('graphMaxRetries / graphMaxConcurrency', () => {
+  afterEach(() => {
+    delete process.env.GRAPH_MAX_RETRIES
+    delete process.env.GRAPH_MAX_CONCURRENCY
+  })
+
+  it('reads the env settings', () => {
+    process.env.GRAPH_MAX_RETRIES = '0'
+    process.env.GRAPH_MAX_CONCURRENCY = '8'
+    expect(graphMaxRetries()).toBe(0)
+    expect(graphMaxConcurrency()).toBe(8)
+  })
+
+  it('falls back to the defaults for missing, non-numeric or out-of-range values', () => {
+    expect(graphMaxRetries()).toBe(4)
+    expect(graphMaxConcurrency()).toBe(4)
+    process.env.GRAPH_MAX_RETRIES = 'lots'
+    process.env.GRAPH_MAX_CONCURRENCY = '0'
+    expect(graphMaxRetries()).toBe(4)
+    expect(graphMaxConcurrency()).toBe(4)
+    process.env.GRAPH_MAX_RETRIES = '-1'
+    process.env.GRAPH_MAX_CONCURRENCY = 'x'
+    expect(graphMaxRetries()).toBe(4)
+    expect(graphMaxConcurrency()).toBe(4)
+  })
+})
+
+describe('ConcurrencyLimiter', () => {
+  it('never runs more than max tasks at once and runs them all', async () => {
+    const limiter = new ConcurrencyLimiter(2)
+    let active = 0
+    let peak = 0
+    const task = async (n: number) => {
+      active++
+      peak = Math.max(peak, active)
+      await new Promise(r => setTimeout(r, 5))
+      active--
+      return n
+    }
+
+    const results = await Promise.all([1, 2, 3, 4, 5].map(n => limiter.run(() => task(n))))
+    expect(results).toEqual([1, 2, 3, 4, 5])
+    expect(peak).toBe(2)
+    expect(limiter.pending).toBe(0)
+  })
+
+  it('frees the slot when a task fails', async () => {
+    const limiter = new ConcurrencyLimiter(1)
+    await expect(limiter.run(async () => { throw new Error('boom') })).rejects.toThrow('boom')
+    await expect(limiter.run(async () => 'next')).resolves.toBe('next')
+  })
+})
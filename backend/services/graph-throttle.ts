@@ -0,0 +1,105 @@
+/**
+ * Graph Throttling
+ *
+ * Microsoft Graph answers 429 (throttled) or 503/504 (busy) under load — typically mid-way
+ * through the nightly sync or a bulk edit. SharePointClient sends every list call through
+ * withGraphRetry (backs off, honouring Retry-After) and a ConcurrencyLimiter (caps requests
+ * in flight so we throttle ourselves before Graph does). Creates are only retried on 429: a 503/504
+ * can arrive after Graph has already applied the request, and a second POST would duplicate the item.
+ *
+ *   GRAPH_MAX_RETRIES      retries after the first attempt (default 4)
+ *   GRAPH_MAX_CONCURRENCY  requests in flight per instance (default 4)
+ */
+
+const BASE_DELAY_MS = 1000;
+const MAX_DELAY_MS = 60_000;
+
+/** 429 is never applied, so it's always retryable; 503/504 only for idempotent requests (not creates) */
+export function isRetryableGraphStatus(status: number | undefined, idempotent = true): boolean {
+  return status === 429 || (idempotent && (status === 503 || status === 504));
+}
+
+/**
+ * Delay before retry number `attempt` (1-based): Retry-After when Graph sends one (seconds or an
+ * HTTP date), otherwise exponential from 1s with a little jitter so parallel callers spread out.
+ */
+export function retryDelayMs(attempt: number, retryAfter?: string | null, now = Date.now()): number {
+  if (retryAfter) {
+    const seconds = Number(retryAfter);
+    if (Number.isFinite(seconds) && seconds >= 0) return Math.min(seconds * 1000, MAX_DELAY_MS * 2);
+    const at = Date.parse(retryAfter);
+    if (!Number.isNaN(at)) return Math.min(Math.max(at - now, 0), MAX_DELAY_MS * 2);
+  }
+  const backoff = BASE_DELAY_MS * 2 ** (attempt - 1);
+  return Math.min(backoff, MAX_DELAY_MS) + Math.floor(Math.random() * 250);
+}
+
+/** Whole-number env setting; a blank, non-numeric or too-small value falls back to the default */
+function envCount(name: string, fallback: number, min: number): number {
+  const value = parseInt(process.env[name] || '', 10);
+  return Number.isFinite(value) && value >= min ? value : fallback;
+}
+
+export function graphMaxRetries(): number {
+  return envCount('GRAPH_MAX_RETRIES', 4, 0);
+}
+
+export function graphMaxConcurrency(): number {
+  return envCount('GRAPH_MAX_CONCURRENCY', 4, 1);
+}
+
+export interface GraphRetryOptions {
+  /** Log label, e.g. "PATCH items/12" */
+  label: string;
+  maxRetries?: number;
+  /** false for creates — only retried on 429 (default true) */
+  idempotent?: boolean;
+  sleep?: (ms: number) => Promise<void>;
+}
+
+const defaultSleep = (ms: number) => new Promise<void>(resolve => setTimeout(resolve, ms));
+
+/** Run an axios call, retrying throttled / busy responses; any other error is rethrown as-is. */
+export async function withGraphRetry<T>(fn: () => Promise<T>, options: GraphRetryOptions): Promise<T> {
+  const maxRetries = options.maxRetries ?? graphMaxRetries();
+  const sleep = options.sleep ?? defaultSleep;
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await fn();
+    } catch (error: any) {
+      const status = error.response?.status;
+      if (!isRetryableGraphStatus(status, options.idempotent ?? true) || attempt > maxRetries) throw error;
+      const delay = retryDelayMs(attempt, error.response?.headers?.['retry-after']);
+      console.warn(`[SharePoint] ${status} on ${options.label} — retry ${attempt}/${maxRetries} in ${Math.round(delay / 1000)}s`);
+      await sleep(delay);
+    }
+  }
+}
+
+/** Simple FIFO semaphore — run() waits for a free slot. */
+export class ConcurrencyLimiter {
+  private active = 0;
+  private queue: (() => void)[] = [];
+
+  constructor(private readonly max: number) {}
+
+  async run<T>(fn: () => Promise<T>): Promise<T> {
+    if (this.active >= this.max) {
+      // The finishing caller hands its slot straight over, so active isn't incremented here
+      await new Promise<void>(resolve => this.queue.push(resolve));
+    } else {
+      this.active++;
+    }
+    try {
+      return await fn();
+    } finally {
+      const next = this.queue.shift();
+      if (next) next();
+      else this.active--;
+    }
+  }
+
+  get pending(): number {
+    return this.queue.length;
+  }
+}
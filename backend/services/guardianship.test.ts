@@ -0,0 +1,48 @@
+import { describe, it, expect } from 'vitest'
+import { childProfileIds, hasFreshAuth, isGuardianOf, ownProfileIds } from './guardianship'
+
+const PARENT = {
+  id: 'auth:1', displayName: 'Alex Davies', email: 'alex@example.com', role: 'selfservice' as const,
+  profileId: 1, profileIds: [1, 5],
+}
+
+const PROFILES = [
+  { ID: 1, Title: 'Alex Davies', Created: '', Modified: '' },
+  { ID: 2, Title: 'Sam Davies', GuardianLookupId: 1, Created: '', Modified: '' },
+  { ID: 3, Title: 'Ella Davies', GuardianLookupId: 5, Created: '', Modified: '' },
+  { ID: 4, Title: 'Someone Else', GuardianLookupId: 9, Created: '', Modified: '' },
+]
+
+describe('ownProfileIds', () => {
+  it('falls back to the primary profile when the session has no profileIds', () => {
+    expect(ownProfileIds(PARENT)).toEqual([1, 5])
+    expect(ownProfileIds({ ...PARENT, profileIds: undefined })).toEqual([1])
+  })
+})
+
+describe('childProfileIds', () => {
+  it('finds children linked to any of the guardian profiles', () => {
+    expect(childProfileIds(PROFILES, [1, 5])).toEqual([2, 3])
+    expect(childProfileIds(PROFILES, [2])).toEqual([])
+  })
+})
+
+describe('isGuardianOf', () => {
+  it('reads the Guardian link on the profile itself', () => {
+    expect(isGuardianOf(PARENT, PROFILES[2])).toBe(true)
+    expect(isGuardianOf(PARENT, PROFILES[3])).toBe(false)
+    expect(isGuardianOf(PARENT, PROFILES[0])).toBe(false)
+    expect(isGuardianOf(PARENT, undefined)).toBe(false)
+  })
+})
+
+describe('hasFreshAuth', () => {
+  const now = new Date('2026-06-14T10:00:00Z').getTime()
+
+  it('accepts a sign-in within the step-up window only', () => {
+    expect(hasFreshAuth({ ...PARENT, freshAuthAt: '2026-06-14T09:50:00Z' }, now)).toBe(true)
+    expect(hasFreshAuth({ ...PARENT, freshAuthAt: '2026-06-14T09:30:00Z' }, now)).toBe(false)
+    expect(hasFreshAuth({ ...PARENT, freshAuthAt: undefined }, now)).toBe(false)
+    expect(hasFreshAuth({ ...PARENT, freshAuthAt: 'not a date' }, now)).toBe(false)
+  })
+})
@@ -0,0 +1,65 @@
+/**
+ * Guardian accounts — a self-service volunteer acting for the children linked to them.
+ *
+ * A child profile has no login of its own. Its Profiles Guardian lookup names the parent's profile,
+ * and a parent signed in through /auth/verify may see and manage that child as well as themselves:
+ * bookings and cancellations, photo uploads to the child's entries, and photo consent.
+ *
+ * Seeing the child's profile (records, contact details) or changing their consent is step-up
+ * protected: the parent must have verified their email within AUTH_STEP_UP_MINUTES (default 15).
+ * Re-verifying from the login page starts a fresh sign-in, so freshAuthAt moves forward.
+ */
+import { safeParseLookupId } from './data-layer';
+import { PROFILE_GUARDIAN_LOOKUP } from './field-names';
+import type { SharePointProfile } from '../../types/sharepoint';
+
+type SessionUser = NonNullable<import('express-session').SessionData['user']>;
+
+const STEP_UP_MS = parseInt(process.env.AUTH_STEP_UP_MINUTES || '15', 10) * 60 * 1000;
+
+/**
+ * 401 body for a request that needs a fresh sign-in first. The frontend sends the user back to the
+ * login page with their own email pre-filled.
+ */
+export function stepUpRequired(user: SessionUser) {
+  return {
+    success: false,
+    error: "For a child's details, confirm it's you with a new sign-in code",
+    stepUp: true,
+    email: user.email,
+  };
+}
+
+/** The user's own profiles — every profile sharing their login email, matched at sign-in */
+export function ownProfileIds(user: SessionUser): number[] {
+  if (user.profileIds?.length) return user.profileIds;
+  return user.profileId ? [user.profileId] : [];
+}
+
+function guardianId(profile: Pick<SharePointProfile, 'GuardianLookupId'>): number | undefined {
+  return safeParseLookupId(profile[PROFILE_GUARDIAN_LOOKUP]);
+}
+
+/** Profiles whose Guardian is one of guardianIds */
+export function childProfileIds(profiles: SharePointProfile[], guardianIds: number[]): number[] {
+  return profiles
+    .filter(p => { const id = guardianId(p); return id !== undefined && guardianIds.includes(id); })
+    .map(p => p.ID);
+}
+
+/**
+ * Whether a self-service user is the guardian of this profile. Reads the profile's own Guardian
+ * link rather than the session, so children added since sign-in (e.g. by the booking flow) count.
+ */
+export function isGuardianOf(user: SessionUser, profile: Pick<SharePointProfile, 'GuardianLookupId'> | undefined): boolean {
+  if (!profile) return false;
+  const id = guardianId(profile);
+  return id !== undefined && ownProfileIds(user).includes(id);
+}
+
+/** Whether the user signed in recently enough to see or change a child's personal data */
+export function hasFreshAuth(user: SessionUser, now = Date.now()): boolean {
+  if (!user.freshAuthAt) return false;
+  const at = new Date(user.freshAuthAt).getTime();
+  return !isNaN(at) && now - at <= STEP_UP_MS;
+}
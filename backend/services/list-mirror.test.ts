@@ -0,0 +1,73 @@
+import { describe, it, expect, vi, beforeEach, afterAll } from 'vitest'
+import fs from 'fs'
+
+const { dataDir, store } = vi.hoisted(() => ({
+  dataDir: require('path').join(require('os').tmpdir(), `list-mirror-${process.pid}-${Date.now()}`),
+  store: { current: null as any },
+}))
+
+vi.mock('./list-store', async () => {
+  const { LocalListStore } = await vi.importActual<typeof import('./local-list-store')>('./local-list-store')
+  store.current = new LocalListStore(dataDir)
+  return { listStore: store.current }
+})
+
+import { ListMirror } from './list-mirror'
+import type { LocalListStore } from './local-list-store'
+
+const local = () => store.current as LocalListStore
+
+beforeEach(() => {
+  vi.restoreAllMocks()
+  vi.spyOn(console, 'log').mockImplementation(() => {})
+})
+
+afterAll(() => {
+  fs.rmSync(dataDir, { recursive: true, force: true })
+})
+
+describe('ListMirror', () => {
+  it('loads the whole list once, then applies only changes and deletions', async () => {
+    const a = await local().createListItem('mirror-a', { Title: 'one' })
+    const b = await local().createListItem('mirror-a', { Title: 'two' })
+    const mirror = new ListMirror('a', 'mirror-a', 'Title')
+    expect((await mirror.getAll()).map(i => i.Title)).toEqual(['one', 'two'])
+
+    const delta = vi.spyOn(local(), 'getListItemsDelta')
+    await local().updateListItem('mirror-a', b, { Title: 'two (edited)' })
+    await local().deleteListItem('mirror-a', a)
+    await local().createListItem('mirror-a', { Title: 'three' })
+
+    expect((await mirror.getAll()).map(i => i.Title)).toEqual(['two (edited)', 'three'])
+    const result = await delta.mock.results[0].value
+    expect(result.reset).toBe(false)
+    expect(result.items.map((i: any) => i.Title)).toEqual(['two (edited)', 'three'])
+    expect(result.deletedIds).toEqual([a])
+  })
+
+  it('returns nothing new when the list is unchanged and shares one sync between concurrent callers', async () => {
+    await local().createListItem('mirror-b', { Title: 'only' })
+    const mirror = new ListMirror('b', 'mirror-b', 'Title')
+    await mirror.getAll()
+
+    const delta = vi.spyOn(local(), 'getListItemsDelta')
+    const [first, second] = await Promise.all([mirror.getAll(), mirror.getAll()])
+    expect(first).toBe(second)
+    expect(delta).toHaveBeenCalledTimes(1)
+    expect((await delta.mock.results[0].value).items).toEqual([])
+  })
+
+  it('reloads everything after reset or when the token is not recognised', async () => {
+    await local().createListItem('mirror-c', { Title: 'x' })
+    const full = await local().getListItemsDelta('mirror-c', 'Title', 'some-other-process:3')
+    expect(full.reset).toBe(true)
+    expect(full.items).toHaveLength(1)
+
+    const mirror = new ListMirror('c', 'mirror-c', 'Title')
+    await mirror.getAll()
+    mirror.reset()
+    const delta = vi.spyOn(local(), 'getListItemsDelta')
+    expect(await mirror.getAll()).toHaveLength(1)
+    expect(delta).toHaveBeenCalledWith('mirror-c', 'Title', null, [])
+  })
+})
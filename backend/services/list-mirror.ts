@@ -0,0 +1,56 @@
+/**
+ * List Mirror
+ *
+ * In-memory copy of a whole list kept current with delta queries, so a cache miss on
+ * sessions/profiles/entries costs one small "what changed?" request instead of re-paging
+ * thousands of items. The first sync (and any sync after the token expires) loads everything.
+ *
+ * The mirror sits under the repositories' NodeCache entries: writes still clear those keys, and
+ * the next getAll() asks the mirror, which applies just the changes since its last sync. It is
+ * separate from sharePointClient.cache, so clearCache() doesn't throw the mirror away.
+ */
+
+import { listStore } from './list-store';
+
+export class ListMirror {
+  private items = new Map<number, any>();
+  private deltaToken: string | null = null;
+  private inFlight: Promise<any[]> | null = null;
+
+  constructor(
+    private readonly name: string,
+    private readonly listGuid: string,
+    private readonly selectFields: string,
+    private readonly dateOnlyFields: string[] = []
+  ) {}
+
+  /** Sync with the list and return every item, ordered by ID. Concurrent callers share one sync. */
+  getAll(): Promise<any[]> {
+    if (!this.inFlight) {
+      this.inFlight = this.sync().finally(() => { this.inFlight = null; });
+    }
+    return this.inFlight;
+  }
+
+  /** Forget everything — the next getAll() reloads the whole list */
+  reset(): void {
+    this.items.clear();
+    this.deltaToken = null;
+  }
+
+  private async sync(): Promise<any[]> {
+    const delta = await listStore.getListItemsDelta(this.listGuid, this.selectFields, this.deltaToken, this.dateOnlyFields);
+
+    if (delta.reset) this.items.clear();
+    for (const item of delta.items) this.items.set(item.ID, item);
+    for (const id of delta.deletedIds) this.items.delete(id);
+    this.deltaToken = delta.deltaToken;
+
+    if (delta.reset) {
+      console.log(`[Mirror] ${this.name}: loaded ${this.items.size} items`);
+    } else {
+      console.log(`[Mirror] ${this.name}: ${delta.items.length} changed, ${delta.deletedIds.length} deleted (${this.items.size} items)`);
+    }
+    return [...this.items.values()].sort((a, b) => a.ID - b.ID);
+  }
+}
@@ -0,0 +1,78 @@
+/**
+ * List Store
+ *
+ * Storage-provider interface for list item CRUD. Repositories and other list
+ * callers go through `listStore` rather than `sharePointClient` directly, so the
+ * backing store can be swapped by env var:
+ *
+ *   DATA_STORE=sharepoint (default) — live SharePoint lists via Microsoft Graph
+ *   DATA_STORE=local                — JSON files on disk (see local-list-store.ts)
+ *
+ * Both implementations take the same field names and the same OData filter
+ * strings, and return items in the same flattened shape ({ ID, Title, ..., Created, Modified }).
+ * Caching is not part of the store — repositories keep using sharePointClient.cache.
+ */
+
+import { sharePointClient } from './sharepoint-client';
+import { LocalListStore, LIST_ENV_NAMES } from './local-list-store';
+
+/** One write in a batch — see ListStore.batchWrite */
+export type BatchWriteOp =
+  | { op: 'create'; fields: Record<string, any> }
+  | { op: 'update'; id: number; fields: Record<string, any> }
+  | { op: 'delete'; id: number };
+
+/** Outcome of one BatchWriteOp; id is the new item's ID for a create */
+export type BatchWriteResult = { ok: true; id: number } | { ok: false; error: string };
+
+/** Changes to a list since a delta token — see list-mirror.ts */
+export interface ListDelta {
+  /** True when `items` is the whole list (no token given, or the token had expired) */
+  reset: boolean;
+  /** Created or changed items, in the same shape as getListItems */
+  items: any[];
+  deletedIds: number[];
+  /** Pass back on the next call to get only what changed after this one */
+  deltaToken: string;
+}
+
+export interface ListStore {
+  getListItems(
+    listGuid: string,
+    selectFields?: string | null,
+    filter?: string | null,
+    orderBy?: string | null,
+    dateOnlyFields?: string[]
+  ): Promise<any[]>;
+  /** Items created, changed or deleted since `deltaToken`; null fetches everything and starts tracking */
+  getListItemsDelta(listGuid: string, selectFields?: string | null, deltaToken?: string | null, dateOnlyFields?: string[]): Promise<ListDelta>;
+  getListItem(listGuid: string, itemId: number, selectFields?: string | null, dateOnlyFields?: string[]): Promise<any | null>;
+  createListItem(listGuid: string, fields: Record<string, any>, dateOnlyFields?: string[]): Promise<number>;
+  updateListItem(listGuid: string, itemId: number, fields: Record<string, any>, dateOnlyFields?: string[]): Promise<void>;
+  deleteListItem(listGuid: string, itemId: number): Promise<void>;
+  /**
+   * Many writes to one list — Graph $batch, up to 20 per round trip. Results are in op order;
+   * a failed op is reported in its result and doesn't stop the others.
+   */
+  batchWrite(listGuid: string, ops: BatchWriteOp[], dateOnlyFields?: string[]): Promise<BatchWriteResult[]>;
+  getColumnChoices(listGuid: string, columnName: string): Promise<string[]>;
+}
+
+export function isLocalDataStore(): boolean {
+  return (process.env.DATA_STORE || 'sharepoint').toLowerCase() === 'local';
+}
+
+function createListStore(): ListStore {
+  if (!isLocalDataStore()) return sharePointClient;
+
+  // List GUIDs are optional offline — default each one to its list name so the
+  // repositories (which read the GUID env vars at construction) still get a distinct key.
+  for (const [envName, listName] of Object.entries(LIST_ENV_NAMES)) {
+    if (!process.env[envName]) process.env[envName] = listName;
+  }
+  const dataDir = process.env.LOCAL_DATA_DIR || '.local-data';
+  console.log(`[ListStore] Using local data store at ${dataDir}`);
+  return new LocalListStore(dataDir);
+}
+
+export const listStore: ListStore = createListStore();
@@ -0,0 +1,157 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+import { LocalListStore, parseFilter } from './local-list-store'
+
+describe('parseFilter', () => {
+  const item = { ID: 7, Title: '2025-06-14 Sat', SessionLookupId: '42', Created: '2026-01-10T09:00:00Z', Checked: true }
+
+  it('matches numeric eq against a string lookup ID', () => {
+    expect(parseFilter('fields/SessionLookupId eq 42')(item)).toBe(true)
+    expect(parseFilter('fields/SessionLookupId eq 43')(item)).toBe(false)
+  })
+
+  it('compares text case-insensitively', () => {
+    expect(parseFilter("fields/Title eq '2025-06-14 sat'")(item)).toBe(true)
+  })
+
+  it('compares ISO datetimes by instant', () => {
+    expect(parseFilter("fields/Created ge '2026-01-10T08:59:59.000Z'")(item)).toBe(true)
+    expect(parseFilter("fields/Created ge '2026-01-10T09:00:01.000Z'")(item)).toBe(false)
+  })
+
+  it('supports startswith joined with or', () => {
+    expect(parseFilter("startswith(fields/Title, '2025-05-') or startswith(fields/Title, '2025-06-')")(item)).toBe(true)
+    expect(parseFilter("startswith(fields/Title, '2025-05-')")(item)).toBe(false)
+  })
+
+  it('binds and tighter than or, with parentheses', () => {
+    expect(parseFilter('fields/ID eq 1 or fields/ID eq 7 and fields/Checked eq false')(item)).toBe(false)
+    expect(parseFilter('(fields/ID eq 1 or fields/ID eq 7) and fields/Checked eq true')(item)).toBe(true)
+  })
+
+  it('treats a missing field as null', () => {
+    expect(parseFilter("fields/Cancelled ge '2026-01-01T00:00:00Z'")(item)).toBe(false)
+    expect(parseFilter('fields/Cancelled eq null')(item)).toBe(true)
+  })
+
+  it('unescapes doubled quotes in string literals', () => {
+    expect(parseFilter("fields/Title eq 'O''Brien'")({ Title: "O'Brien" })).toBe(true)
+  })
+
+  it('throws on unsupported syntax', () => {
+    expect(() => parseFilter('fields/ID has 1')).toThrow()
+  })
+})
+
+describe('LocalListStore', () => {
+  let dir: string
+  let store: LocalListStore
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'list-store-'))
+    store = new LocalListStore(dir)
+    process.env.SESSIONS_LIST_GUID = 'sessions'
+    process.env.ENTRIES_LIST_GUID = 'entries'
+  })
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true })
+  })
+
+  it('creates items with sequential IDs and writes them to {name}.json', async () => {
+    const first = await store.createListItem('sessions', { Title: '2025-06-14 Sat' })
+    const second = await store.createListItem('sessions', { Title: '2025-06-21 Sat' })
+    expect([first, second]).toEqual([1, 2])
+
+    const onDisk = JSON.parse(fs.readFileSync(path.join(dir, 'sessions.json'), 'utf8'))
+    expect(onDisk.map((i: any) => i.Title)).toEqual(['2025-06-14 Sat', '2025-06-21 Sat'])
+    expect(onDisk[0].Created).toBeTruthy()
+  })
+
+  it('never reuses the ID of a deleted item, even in a new store on the same directory', async () => {
+    await store.createListItem('sessions', { Title: 'a' })
+    const second = await store.createListItem('sessions', { Title: 'b' })
+    await store.deleteListItem('sessions', second)
+
+    expect(await store.createListItem('sessions', { Title: 'c' })).toBe(3)
+    await store.deleteListItem('sessions', 3)
+    expect(await new LocalListStore(dir).createListItem('sessions', { Title: 'd' })).toBe(4)
+    expect(await store.createListItem('entries', { Title: 'e' })).toBe(1)
+  })
+
+  it('stores lookup IDs as strings and fills the display value from the target Title', async () => {
+    const sessionId = await store.createListItem('sessions', { Title: '2025-06-14 Sat' })
+    const entryId = await store.createListItem('entries', { SessionLookupId: sessionId })
+
+    const entry = await store.getListItem('entries', entryId, 'ID,Session,SessionLookupId')
+    expect(entry.SessionLookupId).toBe(String(sessionId))
+    expect(entry.Session).toBe('2025-06-14 Sat')
+  })
+
+  it('round-trips date-only fields through UTC like SharePoint', async () => {
+    const id = await store.createListItem('sessions', { Title: 'x', Date: '2025-06-14' }, ['Date'])
+    const raw = JSON.parse(fs.readFileSync(path.join(dir, 'sessions.json'), 'utf8'))[0]
+    expect(raw.Date).toMatch(/^2025-06-13T23:00:00/)
+
+    const item = await store.getListItem('sessions', id, null, ['Date'])
+    expect(item.Date).toBe('2025-06-14')
+  })
+
+  it('applies select, filter and orderBy', async () => {
+    await store.createListItem('sessions', { Title: 'b', Notes: 'keep' })
+    await store.createListItem('sessions', { Title: 'a', Notes: 'keep' })
+    await store.createListItem('sessions', { Title: 'c', Notes: 'drop' })
+
+    const items = await store.getListItems('sessions', 'Title', "fields/Notes eq 'keep'", 'Title asc')
+    expect(items.map(i => i.Title)).toEqual(['a', 'b'])
+    expect(items[0].Notes).toBeUndefined()
+    expect(items[0].ID).toBe(2)
+  })
+
+  it('clears a field when updated to null and bumps Modified', async () => {
+    const id = await store.createListItem('entries', { Cancelled: '2026-01-01T00:00:00Z' })
+    const before = (await store.getListItem('entries', id)).Modified
+    await new Promise(r => setTimeout(r, 5))
+    await store.updateListItem('entries', id, { Cancelled: null })
+
+    const item = await store.getListItem('entries', id)
+    expect(item.Cancelled).toBeUndefined()
+    expect(item.Modified > before).toBe(true)
+  })
+
+  it('throws not-found on update and delete of a missing item', async () => {
+    await expect(store.updateListItem('entries', 99, { Hours: 1 })).rejects.toThrow('not found')
+    await expect(store.deleteListItem('entries', 99)).rejects.toThrow('not found')
+  })
+
+  it('runs a batch in order and reports a failed op without stopping the rest', async () => {
+    const id = await store.createListItem('entries', { Hours: 1 })
+    const results = await store.batchWrite('entries', [
+      { op: 'create', fields: { Hours: 2 } },
+      { op: 'update', id: 99, fields: { Hours: 3 } },
+      { op: 'update', id, fields: { Hours: 4 } },
+      { op: 'delete', id },
+    ])
+
+    expect(results).toEqual([
+      { ok: true, id: 2 },
+      { ok: false, error: expect.stringContaining('not found') },
+      { ok: true, id },
+      { ok: true, id },
+    ])
+    expect((await store.getListItems('entries')).map(i => i.Hours)).toEqual([2])
+  })
+
+  it('reads column choices from schema.json, falling back to stored values', async () => {
+    fs.writeFileSync(path.join(dir, 'schema.json'), JSON.stringify({
+      lists: [{ id: 'entries', name: 'Entries', columns: [{ name: 'Labels', choice: { choices: ['Regular', 'CSR'] } }] }]
+    }))
+    expect(await store.getColumnChoices('entries', 'Labels')).toEqual(['Regular', 'CSR'])
+
+    await store.createListItem('sessions', { Status: 'Open' })
+    await store.createListItem('sessions', { Status: 'Closed' })
+    expect(await store.getColumnChoices('sessions', 'Status')).toEqual(['Closed', 'Open'])
+  })
+})
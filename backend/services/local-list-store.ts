@@ -0,0 +1,511 @@
+/**
+ * Local List Store
+ *
+ * File-backed implementation of ListStore for running the API without SharePoint
+ * (new developers, CI). Each list is one JSON array at {dataDir}/{name}.json — the
+ * same shape as the nightly Backups/{name}.json export, so a backup can be copied
+ * in as seed data.
+ *
+ * Supports the OData subset the repositories use: eq/ne/gt/ge/lt/le, startswith,
+ * endswith, and/or/not and parentheses, against `fields/X` paths. Like SharePoint,
+ * text comparison is case-insensitive and lookup IDs are stored as strings, with the
+ * display value (e.g. Session, Profile) filled in from the target list's Title on read.
+ *
+ * Like SharePoint, an ID is never reused: the highest ID each list has handed out is kept in
+ * {dataDir}/ids.json, so deleting the newest item doesn't free its ID for the next create.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import type { ListStore, ListDelta, BatchWriteOp, BatchWriteResult } from './list-store';
+import { utcToLocalDate, localDateToUtcIso } from './sharepoint-client';
+import {
+  GROUP_LOOKUP, GROUP_DISPLAY, SESSION_LOOKUP, SESSION_DISPLAY, PROFILE_LOOKUP, PROFILE_DISPLAY,
+  PROJECT_LOOKUP, PROJECT_DISPLAY, ACCOMPANYING_ADULT_LOOKUP, ACCOMPANYING_ADULT_DISPLAY,
+  PROFILE_GUARDIAN_LOOKUP, PROFILE_GUARDIAN_DISPLAY, ENTRY_ORGANISATION_LOOKUP, ENTRY_ORGANISATION_DISPLAY
+} from './field-names';
+
+/** List GUID env vars and the file name each list uses locally (matches Backups/{name}.json) */
+export const LIST_ENV_NAMES: Record<string, string> = {
+  GROUPS_LIST_GUID:        'groups',
+  PROJECTS_LIST_GUID:      'projects',
+  SESSIONS_LIST_GUID:      'sessions',
+  ENTRIES_LIST_GUID:       'entries',
+  PROFILES_LIST_GUID:      'profiles',
+  REGULARS_LIST_GUID:      'regulars',
+  RECORDS_LIST_GUID:       'records',
+  LOGINS_LIST_GUID:        'logins',
+  AUDIT_LIST_GUID:         'audit',
+  WEBHOOKS_LIST_GUID:      'webhooks',
+  VERIFICATIONS_LIST_GUID: 'verifications',
+  LOGS_LIST_GUID:          'logs',
+  PROFILE_REVIEWS_LIST_GUID: 'profile-reviews',
+  EVENTBRITE_QUESTIONS_LIST_GUID: 'eventbrite-questions',
+  ORGANISATIONS_LIST_GUID: 'organisations',
+};
+
+/** Lookup ID field → display field and the env var of the list it points at */
+const LOOKUPS: { lookup: string; display: string; listEnv: string }[] = [
+  { lookup: GROUP_LOOKUP,              display: GROUP_DISPLAY,              listEnv: 'GROUPS_LIST_GUID' },
+  { lookup: SESSION_LOOKUP,            display: SESSION_DISPLAY,            listEnv: 'SESSIONS_LIST_GUID' },
+  { lookup: PROFILE_LOOKUP,            display: PROFILE_DISPLAY,            listEnv: 'PROFILES_LIST_GUID' },
+  { lookup: PROJECT_LOOKUP,            display: PROJECT_DISPLAY,            listEnv: 'PROJECTS_LIST_GUID' },
+  { lookup: ACCOMPANYING_ADULT_LOOKUP, display: ACCOMPANYING_ADULT_DISPLAY, listEnv: 'PROFILES_LIST_GUID' },
+  { lookup: PROFILE_GUARDIAN_LOOKUP,   display: PROFILE_GUARDIAN_DISPLAY,   listEnv: 'PROFILES_LIST_GUID' },
+  { lookup: ENTRY_ORGANISATION_LOOKUP, display: ENTRY_ORGANISATION_DISPLAY, listEnv: 'ORGANISATIONS_LIST_GUID' },
+];
+
+const SYSTEM_FIELDS = ['ID', 'Created', 'Modified'];
+
+// ---------------------------------------------------------------------------
+// OData filter evaluation
+// ---------------------------------------------------------------------------
+
+type Token = { kind: 'punct' | 'string' | 'number' | 'word'; value: string };
+type Predicate = (item: Record<string, any>) => boolean;
+type Operand = (item: Record<string, any>) => any;
+
+function tokenize(filter: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+  while (i < filter.length) {
+    const ch = filter[i];
+    if (/\s/.test(ch)) { i++; continue; }
+    if (ch === '(' || ch === ')' || ch === ',') {
+      tokens.push({ kind: 'punct', value: ch });
+      i++;
+      continue;
+    }
+    if (ch === "'") {
+      // OData escapes a quote inside a string literal by doubling it
+      let value = '';
+      i++;
+      while (i < filter.length) {
+        if (filter[i] === "'" && filter[i + 1] === "'") { value += "'"; i += 2; continue; }
+        if (filter[i] === "'") break;
+        value += filter[i++];
+      }
+      if (i >= filter.length) throw new Error(`Unterminated string in filter: ${filter}`);
+      i++;
+      tokens.push({ kind: 'string', value });
+      continue;
+    }
+    const match = /^(-?\d+(\.\d+)?(?![\w/])|[\w/.]+)/.exec(filter.slice(i));
+    if (!match) throw new Error(`Unexpected character '${ch}' in filter: ${filter}`);
+    tokens.push({ kind: /^-?\d/.test(match[0]) && !isNaN(Number(match[0])) ? 'number' : 'word', value: match[0] });
+    i += match[0].length;
+  }
+  return tokens;
+}
+
+const ISO_DATETIME = /^\d{4}-\d{2}-\d{2}T/;
+
+/** SharePoint-style comparison: numbers numerically, ISO datetimes by instant, text case-insensitively */
+function compareValues(a: any, b: any): number | null {
+  if (a === null || a === undefined || b === null || b === undefined) return null;
+  if (typeof a === 'number' || typeof b === 'number') {
+    const na = Number(a), nb = Number(b);
+    if (isNaN(na) || isNaN(nb)) return null;
+    return na - nb;
+  }
+  if (typeof a === 'boolean' || typeof b === 'boolean') {
+    return String(a) === String(b) ? 0 : null;
+  }
+  const sa = String(a), sb = String(b);
+  if (ISO_DATETIME.test(sa) && ISO_DATETIME.test(sb)) {
+    return Date.parse(sa) - Date.parse(sb);
+  }
+  const la = sa.toLowerCase(), lb = sb.toLowerCase();
+  return la < lb ? -1 : la > lb ? 1 : 0;
+}
+
+const COMPARISONS: Record<string, (cmp: number) => boolean> = {
+  eq: cmp => cmp === 0,
+  ne: cmp => cmp !== 0,
+  gt: cmp => cmp > 0,
+  ge: cmp => cmp >= 0,
+  lt: cmp => cmp < 0,
+  le: cmp => cmp <= 0,
+};
+
+export function parseFilter(filter: string): Predicate {
+  const tokens = tokenize(filter);
+  let pos = 0;
+
+  const peek = (): Token | undefined => tokens[pos];
+  const isWord = (word: string) => peek()?.kind === 'word' && peek()!.value.toLowerCase() === word;
+  const expect = (value: string) => {
+    const token = tokens[pos++];
+    if (!token || token.value !== value) throw new Error(`Expected '${value}' in filter: ${filter}`);
+  };
+
+  function parseOperand(): Operand {
+    const token = tokens[pos++];
+    if (!token) throw new Error(`Unexpected end of filter: ${filter}`);
+    if (token.kind === 'string') return () => token.value;
+    if (token.kind === 'number') return () => Number(token.value);
+    if (token.kind === 'word') {
+      const lower = token.value.toLowerCase();
+      if (lower === 'null') return () => null;
+      if (lower === 'true' || lower === 'false') return () => lower === 'true';
+      const field = token.value.replace(/^fields\//, '');
+      return item => item[field];
+    }
+    throw new Error(`Unexpected '${token.value}' in filter: ${filter}`);
+  }
+
+  function parsePrimary(): Predicate {
+    if (peek()?.value === '(') {
+      pos++;
+      const inner = parseOr();
+      expect(')');
+      return inner;
+    }
+    if (isWord('not')) {
+      pos++;
+      const inner = parsePrimary();
+      return item => !inner(item);
+    }
+    if (isWord('startswith') || isWord('endswith')) {
+      const fn = tokens[pos++].value.toLowerCase();
+      expect('(');
+      const target = parseOperand();
+      expect(',');
+      const affix = parseOperand();
+      expect(')');
+      return item => {
+        const value = target(item), part = affix(item);
+        if (typeof value !== 'string' || typeof part !== 'string') return false;
+        const v = value.toLowerCase(), p = part.toLowerCase();
+        return fn === 'startswith' ? v.startsWith(p) : v.endsWith(p);
+      };
+    }
+
+    const left = parseOperand();
+    const opToken = tokens[pos++];
+    const op = opToken?.value.toLowerCase();
+    if (!op || !(op in COMPARISONS)) throw new Error(`Unsupported operator '${opToken?.value}' in filter: ${filter}`);
+    const right = parseOperand();
+    const test = COMPARISONS[op];
+    return item => {
+      const a = left(item), b = right(item);
+      // null only equals null (SharePoint treats a blank field as null)
+      if (a === null || a === undefined || b === null || b === undefined) {
+        const bothNull = (a === null || a === undefined) && (b === null || b === undefined);
+        return op === 'eq' ? bothNull : op === 'ne' ? !bothNull : false;
+      }
+      const cmp = compareValues(a, b);
+      if (cmp === null) return op === 'ne';
+      return test(cmp);
+    };
+  }
+
+  function parseAnd(): Predicate {
+    const parts = [parsePrimary()];
+    while (isWord('and')) { pos++; parts.push(parsePrimary()); }
+    return parts.length === 1 ? parts[0] : item => parts.every(p => p(item));
+  }
+
+  function parseOr(): Predicate {
+    const parts = [parseAnd()];
+    while (isWord('or')) { pos++; parts.push(parseAnd()); }
+    return parts.length === 1 ? parts[0] : item => parts.some(p => p(item));
+  }
+
+  const predicate = parseOr();
+  if (pos < tokens.length) throw new Error(`Unexpected '${tokens[pos].value}' in filter: ${filter}`);
+  return predicate;
+}
+
+function sortItems(items: any[], orderBy: string): any[] {
+  const keys = orderBy.split(',').map(part => {
+    const [field, dir] = part.trim().split(/\s+/);
+    return { field: field.replace(/^fields\//, ''), desc: dir?.toLowerCase() === 'desc' };
+  });
+  return [...items].sort((a, b) => {
+    for (const { field, desc } of keys) {
+      const cmp = compareValues(a[field], b[field]) ?? 0;
+      if (cmp !== 0) return desc ? -cmp : cmp;
+    }
+    return 0;
+  });
+}
+
+// ---------------------------------------------------------------------------
+// Store
+// ---------------------------------------------------------------------------
+
+export class LocalListStore implements ListStore {
+  private lists = new Map<string, any[]>();
+  private writes = new Map<string, Promise<void>>();
+  private schema: any[] | null = null;
+  // Highest ID each list has handed out (ids.json), by list name
+  private lastIds: Record<string, number> | null = null;
+  private idsWrite: Promise<void> = Promise.resolve();
+  // Delta tracking: a version counter per list and the version at which each item ID last changed.
+  // Tokens are only valid for this process — a fresh instance answers any token with a full reset.
+  private versions = new Map<string, { version: number; changed: Map<number, number> }>();
+  private readonly instanceId = Math.random().toString(36).slice(2, 10);
+
+  constructor(private dataDir: string) {}
+
+  private recordChange(listGuid: string, itemId: number): void {
+    const name = this.listName(listGuid);
+    const log = this.versions.get(name) ?? { version: 0, changed: new Map<number, number>() };
+    log.version++;
+    log.changed.set(itemId, log.version);
+    this.versions.set(name, log);
+  }
+
+  /** Resolve a list GUID to its file name — known lists use their Backups name, anything else the GUID itself */
+  private listName(listGuid: string): string {
+    const envName = Object.keys(LIST_ENV_NAMES).find(key => process.env[key] === listGuid);
+    if (envName) return LIST_ENV_NAMES[envName];
+    return listGuid.replace(/[^\w-]/g, '_');
+  }
+
+  private filePath(name: string): string {
+    return path.join(this.dataDir, `${name}.json`);
+  }
+
+  private async load(listGuid: string): Promise<any[]> {
+    const name = this.listName(listGuid);
+    let items = this.lists.get(name);
+    if (items) return items;
+
+    try {
+      const raw = await fs.promises.readFile(this.filePath(name), 'utf8');
+      items = JSON.parse(raw);
+      if (!Array.isArray(items)) throw new Error(`${this.filePath(name)} does not contain a JSON array`);
+    } catch (error: any) {
+      if (error.code !== 'ENOENT') throw error;
+      items = [];
+    }
+    this.lists.set(name, items);
+    return items;
+  }
+
+  private async loadLastIds(): Promise<Record<string, number>> {
+    if (this.lastIds) return this.lastIds;
+    let lastIds: Record<string, number> = {};
+    try {
+      lastIds = JSON.parse(await fs.promises.readFile(this.filePath('ids'), 'utf8'));
+    } catch (error: any) {
+      if (error.code !== 'ENOENT') throw error;
+    }
+    // Another create may have loaded it while this one was reading
+    this.lastIds ??= lastIds;
+    return this.lastIds;
+  }
+
+  /** Write ids.json — serialised, via temp file + rename like the lists */
+  private persistLastIds(): Promise<void> {
+    const next = this.idsWrite.then(async () => {
+      const target = this.filePath('ids');
+      await fs.promises.mkdir(this.dataDir, { recursive: true });
+      await fs.promises.writeFile(`${target}.tmp`, JSON.stringify(this.lastIds, null, 2));
+      await fs.promises.rename(`${target}.tmp`, target);
+    });
+    this.idsWrite = next.catch(() => {});
+    return next;
+  }
+
+  /** Write the list back to disk — serialised per list, via temp file + rename so a crash never leaves half a file */
+  private persist(listGuid: string): Promise<void> {
+    const name = this.listName(listGuid);
+    const previous = this.writes.get(name) ?? Promise.resolve();
+    const next = previous.then(async () => {
+      const items = this.lists.get(name) ?? [];
+      const target = this.filePath(name);
+      await fs.promises.mkdir(this.dataDir, { recursive: true });
+      await fs.promises.writeFile(`${target}.tmp`, JSON.stringify(items, null, 2));
+      await fs.promises.rename(`${target}.tmp`, target);
+    });
+    this.writes.set(name, next.catch(() => {}));
+    return next;
+  }
+
+  /** Normalise fields for storage: date-only values to UTC ISO, lookup IDs to strings, null clears the field */
+  private applyWrite(item: Record<string, any>, fields: Record<string, any>, dateOnlyFields: string[]): void {
+    for (const [key, value] of Object.entries(fields)) {
+      if (SYSTEM_FIELDS.includes(key)) continue;
+      if (value === null || value === undefined) {
+        delete item[key];
+      } else if (dateOnlyFields.includes(key) && typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value)) {
+        item[key] = localDateToUtcIso(value);
+      } else if (key.endsWith('LookupId') && typeof value === 'number') {
+        item[key] = String(value);
+      } else {
+        item[key] = value;
+      }
+    }
+  }
+
+  /** Copy an item for the caller: lookup display values, date-only conversion, then field selection */
+  private async project(item: Record<string, any>, selectFields: string | null, dateOnlyFields: string[]): Promise<any> {
+    const result: Record<string, any> = JSON.parse(JSON.stringify(item));
+
+    for (const { lookup, display, listEnv } of LOOKUPS) {
+      const id = parseInt(result[lookup], 10);
+      const targetGuid = process.env[listEnv];
+      if (isNaN(id) || !targetGuid) continue;
+      const target = (await this.load(targetGuid)).find(t => t.ID === id);
+      if (target) result[display] = target.Title;
+    }
+
+    for (const field of dateOnlyFields) {
+      if (typeof result[field] === 'string' && result[field]) {
+        result[field] = utcToLocalDate(result[field]);
+      }
+    }
+
+    if (!selectFields) return result;
+    const selected: Record<string, any> = {};
+    const wanted = new Set([...SYSTEM_FIELDS, ...selectFields.split(',').map(f => f.trim())]);
+    for (const key of Object.keys(result)) {
+      if (wanted.has(key)) selected[key] = result[key];
+    }
+    return selected;
+  }
+
+  async getListItems(
+    listGuid: string,
+    selectFields: string | null = null,
+    filter: string | null = null,
+    orderBy: string | null = null,
+    dateOnlyFields: string[] = []
+  ): Promise<any[]> {
+    let items = await this.load(listGuid);
+    if (filter) {
+      const predicate = parseFilter(filter);
+      items = items.filter(predicate);
+    }
+    if (orderBy) items = sortItems(items, orderBy);
+    return Promise.all(items.map(item => this.project(item, selectFields, dateOnlyFields)));
+  }
+
+  async getListItemsDelta(
+    listGuid: string,
+    selectFields: string | null = null,
+    deltaToken: string | null = null,
+    dateOnlyFields: string[] = []
+  ): Promise<ListDelta> {
+    const items = await this.load(listGuid);
+    const log = this.versions.get(this.listName(listGuid));
+    const version = log?.version ?? 0;
+    const token = `${this.instanceId}:${version}`;
+
+    const [instance, since] = (deltaToken ?? '').split(':');
+    const sinceVersion = parseInt(since, 10);
+    if (instance !== this.instanceId || isNaN(sinceVersion) || sinceVersion > version) {
+      const all = await Promise.all(items.map(item => this.project(item, selectFields, dateOnlyFields)));
+      return { reset: true, items: all, deletedIds: [], deltaToken: token };
+    }
+
+    const changed: any[] = [];
+    const deletedIds: number[] = [];
+    for (const [id, at] of log?.changed ?? []) {
+      if (at <= sinceVersion) continue;
+      const item = items.find(i => i.ID === id);
+      if (item) changed.push(await this.project(item, selectFields, dateOnlyFields));
+      else deletedIds.push(id);
+    }
+    return { reset: false, items: changed, deletedIds, deltaToken: token };
+  }
+
+  async getListItem(listGuid: string, itemId: number, selectFields: string | null = null, dateOnlyFields: string[] = []): Promise<any | null> {
+    const item = (await this.load(listGuid)).find(i => i.ID === itemId);
+    return item ? this.project(item, selectFields, dateOnlyFields) : null;
+  }
+
+  async createListItem(listGuid: string, fields: Record<string, any>, dateOnlyFields: string[] = []): Promise<number> {
+    const items = await this.load(listGuid);
+    const lastIds = await this.loadLastIds();
+    const name = this.listName(listGuid);
+    // Items copied in from a backup can be above the recorded mark
+    const id = items.reduce((max, i) => Math.max(max, i.ID), lastIds[name] ?? 0) + 1;
+    lastIds[name] = id;
+    const now = new Date().toISOString();
+    const item: Record<string, any> = { ID: id };
+    this.applyWrite(item, fields, dateOnlyFields);
+    item.Created = now;
+    item.Modified = now;
+    items.push(item);
+    this.recordChange(listGuid, id);
+    await Promise.all([this.persist(listGuid), this.persistLastIds()]);
+    return id;
+  }
+
+  async updateListItem(listGuid: string, itemId: number, fields: Record<string, any>, dateOnlyFields: string[] = []): Promise<void> {
+    const item = (await this.load(listGuid)).find(i => i.ID === itemId);
+    if (!item) throw new Error('SharePoint list item not found');
+    this.applyWrite(item, fields, dateOnlyFields);
+    item.Modified = new Date().toISOString();
+    this.recordChange(listGuid, itemId);
+    await this.persist(listGuid);
+  }
+
+  async deleteListItem(listGuid: string, itemId: number): Promise<void> {
+    const items = await this.load(listGuid);
+    const index = items.findIndex(i => i.ID === itemId);
+    if (index === -1) throw new Error('SharePoint list item not found');
+    items.splice(index, 1);
+    this.recordChange(listGuid, itemId);
+    await this.persist(listGuid);
+  }
+
+  async batchWrite(listGuid: string, ops: BatchWriteOp[], dateOnlyFields: string[] = []): Promise<BatchWriteResult[]> {
+    const results: BatchWriteResult[] = [];
+    for (const op of ops) {
+      try {
+        if (op.op === 'create') {
+          results.push({ ok: true, id: await this.createListItem(listGuid, op.fields, dateOnlyFields) });
+        } else if (op.op === 'update') {
+          await this.updateListItem(listGuid, op.id, op.fields, dateOnlyFields);
+          results.push({ ok: true, id: op.id });
+        } else {
+          await this.deleteListItem(listGuid, op.id);
+          results.push({ ok: true, id: op.id });
+        }
+      } catch (err: any) {
+        results.push({ ok: false, error: err.message });
+      }
+    }
+    return results;
+  }
+
+  /**
+   * Choice values come from {dataDir}/schema.json (the Backups/schema.json export) when it
+   * has the list — matched by GUID, or by name when the GUID env var is unset offline.
+   * Without a schema, the choices are the distinct values already stored in the column.
+   */
+  async getColumnChoices(listGuid: string, columnName: string): Promise<string[]> {
+    const name = this.listName(listGuid);
+    const schemaList = (await this.loadSchema()).find((l: any) =>
+      l.id === listGuid || String(l.name ?? '').toLowerCase() === name || String(l.displayName ?? '').toLowerCase() === name
+    );
+    const column = schemaList?.columns?.find((c: any) => c.name === columnName || c.displayName === columnName);
+    if (column?.choice?.choices) return column.choice.choices;
+
+    const values = new Set<string>();
+    for (const item of await this.load(listGuid)) {
+      const value = item[columnName];
+      for (const v of Array.isArray(value) ? value : [value]) {
+        if (typeof v === 'string' && v) values.add(v);
+      }
+    }
+    return [...values].sort();
+  }
+
+  private async loadSchema(): Promise<any[]> {
+    if (this.schema) return this.schema;
+    try {
+      const raw = await fs.promises.readFile(this.filePath('schema'), 'utf8');
+      this.schema = JSON.parse(raw).lists ?? [];
+    } catch (error: any) {
+      if (error.code !== 'ENOENT') throw error;
+      this.schema = [];
+    }
+    return this.schema!;
+  }
+}
@@ -0,0 +1,46 @@
+import crypto from 'crypto';
+
+export const REPLY_TO = 'admin@deantrailvolunteers.org.uk';
+const BOUNDARY = 'dtv-email-boundary';
+
+export interface SendEmailOptions {
+  to: string;
+  subject: string;
+  html: string;
+  text: string;
+}
+
+/**
+ * multipart/alternative message with text and HTML parts.
+ * Graph fills in From, Date and Message-ID itself; the SMTP and file-drop transports pass `from`
+ * so the message is complete on its own.
+ */
+export function buildMime({ to, subject, html, text }: SendEmailOptions, from?: string): string {
+  const envelope = from
+    ? [
+      `From: ${from}`,
+      `Date: ${new Date().toUTCString()}`,
+      `Message-ID: <${crypto.randomUUID()}@${from.split('@')[1] || 'localhost'}>`,
+    ]
+    : [];
+  return [
+    'MIME-Version: 1.0',
+    ...envelope,
+    `To: ${to}`,
+    `Reply-To: ${REPLY_TO}`,
+    `Subject: ${subject}`,
+    `Content-Type: multipart/alternative; boundary="${BOUNDARY}"`,
+    '',
+    `--${BOUNDARY}`,
+    'Content-Type: text/plain; charset=UTF-8',
+    '',
+    text,
+    '',
+    `--${BOUNDARY}`,
+    'Content-Type: text/html; charset=UTF-8',
+    '',
+    html,
+    '',
+    `--${BOUNDARY}--`,
+  ].join('\r\n');
+}
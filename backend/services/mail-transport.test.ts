@@ -0,0 +1,148 @@
+import { describe, it, expect, vi, beforeEach, afterAll } from 'vitest'
+import fs from 'fs'
+import net from 'net'
+import os from 'os'
+import path from 'path'
+
+const dropDir = vi.hoisted(() => {
+  const dir = require('path').join(require('os').tmpdir(), `mail-drop-${process.pid}-${Date.now()}`)
+  process.env.MAIL_TRANSPORT = 'file'
+  process.env.MAIL_DROP_DIR = dir
+  process.env.MAIL_SENDER = 'tracker@example.org'
+  return dir
+})
+
+vi.mock('./email-rate-limiter', () => ({
+  isEmailRateLimited: vi.fn(async () => false),
+  recordEmailSent: vi.fn(async () => {}),
+}))
+
+import { sendEmail, isMailConfigured, mailTransport, EmailRateLimitError } from './mail-transport'
+import { SmtpMailTransport } from './smtp-mail'
+import { isEmailRateLimited, recordEmailSent } from './email-rate-limiter'
+
+const MESSAGE = { to: 'alex@example.org', subject: 'Code 1234', html: '<p>1234</p>', text: 'Your code is 1234\n.\nThanks' }
+
+beforeEach(() => {
+  vi.clearAllMocks()
+  vi.spyOn(console, 'log').mockImplementation(() => {})
+})
+
+afterAll(() => {
+  fs.rmSync(dropDir, { recursive: true, force: true })
+})
+
+describe('sendEmail', () => {
+  it('uses the transport named by MAIL_TRANSPORT and counts the send', async () => {
+    expect(mailTransport.name).toBe('file')
+    expect(isMailConfigured()).toBe(true)
+
+    await sendEmail(MESSAGE)
+
+    const files = fs.readdirSync(dropDir)
+    expect(files).toHaveLength(1)
+    expect(files[0]).toMatch(/alex@example\.org\.eml$/)
+    const eml = fs.readFileSync(path.join(dropDir, files[0]), 'utf8')
+    expect(eml).toContain('From: tracker@example.org\r\n')
+    expect(eml).toContain('To: alex@example.org\r\n')
+    expect(eml).toContain('Subject: Code 1234\r\n')
+    expect(recordEmailSent).toHaveBeenCalledWith('global')
+  })
+
+  it('checks and records sign-in codes against their own quota', async () => {
+    const quota = { email: 'alex@example.org', ip: '203.0.113.9' }
+    await sendEmail(MESSAGE, quota)
+    expect(isEmailRateLimited).toHaveBeenCalledWith(quota)
+    expect(recordEmailSent).toHaveBeenCalledWith(quota)
+  })
+
+  it('refuses to send once the hourly limit is reached', async () => {
+    vi.mocked(isEmailRateLimited).mockResolvedValueOnce(true)
+    const send = vi.spyOn(mailTransport, 'send')
+
+    await expect(sendEmail(MESSAGE)).rejects.toBeInstanceOf(EmailRateLimitError)
+    expect(send).not.toHaveBeenCalled()
+    expect(recordEmailSent).not.toHaveBeenCalled()
+  })
+})
+
+/** Minimal SMTP server: records each command and replies from a script keyed by verb */
+function fakeSmtpServer(replies: Record<string, string> = {}) {
+  const commands: string[] = []
+  let data = ''
+  const server = net.createServer(socket => {
+    let buffer = ''
+    let inData = false
+    socket.write('220 test ESMTP\r\n')
+    socket.on('data', chunk => {
+      buffer += chunk.toString()
+      if (inData) {
+        const end = buffer.indexOf('\r\n.\r\n')
+        if (end < 0) return
+        data = buffer.slice(0, end)
+        buffer = buffer.slice(end + 5)
+        inData = false
+        socket.write('250 queued\r\n')
+      }
+      let eol: number
+      while (!inData && (eol = buffer.indexOf('\r\n')) >= 0) {
+        const line = buffer.slice(0, eol)
+        buffer = buffer.slice(eol + 2)
+        commands.push(line)
+        const verb = line.split(/[ :]/)[0]
+        if (replies[verb]) socket.write(`${replies[verb]}\r\n`)
+        else if (verb === 'EHLO') socket.write('250-test\r\n250 AUTH PLAIN\r\n')
+        else if (verb === 'AUTH') socket.write('235 ok\r\n')
+        else if (verb === 'DATA') { inData = true; socket.write('354 go ahead\r\n') }
+        else if (verb === 'QUIT') socket.end('221 bye\r\n')
+        else socket.write('250 ok\r\n')
+      }
+    })
+  })
+  return new Promise<{ port: number; commands: string[]; data: () => string; close: () => void }>(resolve => {
+    server.listen(0, '127.0.0.1', () => {
+      const { port } = server.address() as net.AddressInfo
+      resolve({ port, commands, data: () => data, close: () => server.close() })
+    })
+  })
+}
+
+describe('SmtpMailTransport', () => {
+  it('runs the SMTP dialogue with auth and a dot-stuffed body', async () => {
+    const server = await fakeSmtpServer()
+    try {
+      const transport = new SmtpMailTransport(
+        { host: '127.0.0.1', port: server.port, secure: false, user: 'dev', pass: 'pw' },
+        'DTV Tracker <tracker@example.org>'
+      )
+      await transport.send(MESSAGE)
+
+      expect(server.commands.map(c => c.split(' ')[0])).toEqual(['EHLO', 'AUTH', 'MAIL', 'RCPT', 'DATA', 'QUIT'])
+      expect(server.commands[1]).toBe(`AUTH PLAIN ${Buffer.from('\0dev\0pw').toString('base64')}`)
+      expect(server.commands[2]).toBe('MAIL FROM:<tracker@example.org>')
+      expect(server.commands[3]).toBe('RCPT TO:<alex@example.org>')
+      expect(server.data()).toContain('Subject: Code 1234\r\n')
+      expect(server.data()).toContain('Your code is 1234\r\n..\r\nThanks')
+    } finally {
+      server.close()
+    }
+  })
+
+  it('fails with the server reply when a recipient is rejected', async () => {
+    const server = await fakeSmtpServer({ RCPT: '550 no such user' })
+    try {
+      const transport = new SmtpMailTransport({ host: '127.0.0.1', port: server.port, secure: false }, 'tracker@example.org')
+      await expect(transport.send(MESSAGE)).rejects.toThrow('SMTP RCPT TO failed: 550 no such user')
+      expect(server.commands.map(c => c.split(' ')[0])).toEqual(['EHLO', 'MAIL', 'RCPT'])
+    } finally {
+      server.close()
+    }
+  })
+
+  it('fails when nothing is listening', async () => {
+    const server = await fakeSmtpServer()
+    server.close()
+    const transport = new SmtpMailTransport({ host: '127.0.0.1', port: server.port, secure: false }, os.hostname())
+    await expect(transport.send(MESSAGE)).rejects.toThrow()
+  })
+})
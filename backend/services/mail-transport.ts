@@ -0,0 +1,77 @@
+/**
+ * Mail Transport
+ *
+ * Everything that sends email (verification codes, session notifications, bulk invites, the
+ * nightly scheduler) calls `sendEmail()`, which goes through the transport chosen by env var:
+ *
+ *   MAIL_TRANSPORT=graph (default) — Microsoft Graph sendMail as MAIL_SENDER (see graph-mail.ts)
+ *   MAIL_TRANSPORT=smtp            — SMTP_HOST / SMTP_PORT, e.g. a local Mailpit (see smtp-mail.ts)
+ *   MAIL_TRANSPORT=file            — .eml files in MAIL_DROP_DIR (see file-drop-mail.ts)
+ *
+ * The hourly send limits (email-rate-limiter.ts) are applied here, so they cover every transport.
+ */
+
+import { GraphMailTransport } from './graph-mail';
+import { SmtpMailTransport } from './smtp-mail';
+import { FileDropMailTransport } from './file-drop-mail';
+import { isEmailRateLimited, recordEmailSent, type EmailQuota } from './email-rate-limiter';
+import type { SendEmailOptions } from './mail-mime';
+
+export type { SendEmailOptions } from './mail-mime';
+
+export interface MailTransport {
+  readonly name: string;
+  /** False when sending would fail for lack of config — hides self-service login and bulk email */
+  readonly configured: boolean;
+  send(options: SendEmailOptions): Promise<void>;
+}
+
+export class EmailRateLimitError extends Error {
+  constructor() {
+    super('Hourly email limit reached');
+    this.name = 'EmailRateLimitError';
+  }
+}
+
+function createMailTransport(): MailTransport {
+  const kind = (process.env.MAIL_TRANSPORT || 'graph').toLowerCase();
+  const from = process.env.MAIL_SENDER || 'dtv-tracker@localhost';
+
+  if (kind === 'smtp') {
+    const host = process.env.SMTP_HOST || 'localhost';
+    const port = parseInt(process.env.SMTP_PORT || '1025', 10);
+    console.log(`[Mail] Using SMTP transport at ${host}:${port}`);
+    return new SmtpMailTransport({
+      host,
+      port,
+      secure: process.env.SMTP_SECURE === 'true',
+      user: process.env.SMTP_USER || undefined,
+      pass: process.env.SMTP_PASS || undefined,
+    }, from);
+  }
+  if (kind === 'file') {
+    const dir = process.env.MAIL_DROP_DIR || 'logs/mail';
+    console.log(`[Mail] Using file-drop transport at ${dir}`);
+    return new FileDropMailTransport(dir, from);
+  }
+  if (kind !== 'graph') {
+    console.warn(`[Mail] Unknown MAIL_TRANSPORT "${kind}", using graph`);
+  }
+  return new GraphMailTransport();
+}
+
+export const mailTransport: MailTransport = createMailTransport();
+
+export function isMailConfigured(): boolean {
+  return mailTransport.configured;
+}
+
+/**
+ * Send one email through the configured transport; throws EmailRateLimitError once an hourly
+ * limit for the quota is reached. Sign-in codes pass { email, ip }; everything else is 'global'.
+ */
+export async function sendEmail(options: SendEmailOptions, quota: EmailQuota = 'global'): Promise<void> {
+  if (await isEmailRateLimited(quota)) throw new EmailRateLimitError();
+  await mailTransport.send(options);
+  await recordEmailSent(quota).catch(err => console.error('[Mail] Failed to record send:', err.message));
+}
@@ -40,13 +40,26 @@ export function exifDate(buffer: Buffer): Date | null {
 // Generates a filename from the uploader's name, photo timestamp, and original filename.
 // Format: {HH}-{MM}-{SS}-{uploader-name}-{4-char-suffix}.{ext}
 // e.g. 14-30-22-john-smith-img1.jpg
+function uploaderSlug(uploaderName: string): string {
+  return uploaderName.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+}
+
 export function mediaFilename(originalName: string, uploaderName: string, takenAt: Date): string {
   const hh = String(takenAt.getHours()).padStart(2, '0');
   const mm = String(takenAt.getMinutes()).padStart(2, '0');
   const ss = String(takenAt.getSeconds()).padStart(2, '0');
-  const name = uploaderName.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+  const name = uploaderSlug(uploaderName);
   const stem = path.basename(originalName, path.extname(originalName));
   const suffix = stem.replace(/[^a-z0-9]/gi, '').slice(-4).toLowerCase() || 'img';
   const ext = path.extname(originalName).toLowerCase() || '.jpg';
   return `${hh}-${mm}-${ss}-${name}-${suffix}${ext}`;
 }
+
+// True when a filename was produced by mediaFilename for this uploader — {HH}-{MM}-{SS}-{name}-{suffix}.{ext}.
+// Used by the GDPR export/erase to find media uploaded under a volunteer's name.
+export function isMediaUploadedBy(filename: string, uploaderName: string): boolean {
+  const name = uploaderSlug(uploaderName);
+  if (!name) return false;
+  // The slug is [a-z0-9-] only, so it is safe to embed in the pattern unescaped
+  return new RegExp(`^\\d{2}-\\d{2}-\\d{2}-${name}-[a-z0-9]{1,4}\\.[a-z0-9]+$`).test(filename.toLowerCase());
+}
@@ -0,0 +1,112 @@
+import { describe, it, expect, vi, beforeEach, afterAll } from 'vitest'
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+
+vi.mock('./mail-transport', () => ({
+  sendEmail: vi.fn(),
+  isMailConfigured: vi.fn(() => true)
+}))
+
+const logDir = fs.mkdtempSync(path.join(os.tmpdir(), 'nightly-runs-'))
+const logFile = path.join(logDir, 'runs.jsonl')
+process.env.NIGHTLY_LOG_FILE = logFile
+process.env.NIGHTLY_ALERT_EMAIL = 'ops@example.org'
+delete process.env.LOGS_LIST_GUID
+
+import { NightlyRunRecorder, recordNightlyRun, nightlyRunLog, checkForMissedRun } from './nightly-runs'
+import { sendEmail } from './mail-transport'
+
+beforeEach(() => {
+  fs.writeFileSync(logFile, '')
+  vi.mocked(sendEmail).mockReset()
+})
+
+afterAll(() => {
+  fs.rmSync(logDir, { recursive: true, force: true })
+})
+
+describe('NightlyRunRecorder', () => {
+  it('records each step with counts and sums them into the run totals', async () => {
+    const run = new NightlyRunRecorder()
+    await run.step('sync-attendees', async () => ({ newEntries: 3, cancelledEntries: 1 }), r => r)
+    await run.step('profile-stats', async () => ({ updated: 5, errors: ['x'] }), r => ({ profileStatsUpdated: r.updated, errors: r.errors.length }))
+    const record = run.finish('summary')
+
+    expect(record.status).toBe('ok')
+    expect(record.steps.map(s => [s.name, s.status])).toEqual([['sync-attendees', 'ok'], ['profile-stats', 'ok']])
+    expect(record.steps[0].durationMs).toBeGreaterThanOrEqual(0)
+    expect(record.counts).toEqual({ newEntries: 3, cancelledEntries: 1, profileStatsUpdated: 5, errors: 1 })
+    expect(record.summary).toBe('summary')
+  })
+
+  it('marks the run partial when an optional step fails and carries on', async () => {
+    const run = new NightlyRunRecorder()
+    const result = await run.optionalStep('session-emails', async () => { throw new Error('Graph down') })
+    await run.step('backup', async () => 'done')
+    const record = run.finish()
+
+    expect(result).toBeNull()
+    expect(record.status).toBe('partial')
+    expect(record.steps[0]).toMatchObject({ name: 'session-emails', status: 'failed', error: 'Graph down' })
+    expect(record.counts.errors).toBe(1)
+  })
+
+  it('rethrows a failed step and marks the run failed when finished with the error', async () => {
+    const run = new NightlyRunRecorder()
+    await expect(run.step('sync-sessions', async () => { throw new Error('Eventbrite 500') })).rejects.toThrow('Eventbrite 500')
+    const record = run.finish(undefined, 'Eventbrite 500')
+
+    expect(record.status).toBe('failed')
+    expect(record.error).toBe('Eventbrite 500')
+  })
+})
+
+describe('recordNightlyRun', () => {
+  it('appends runs to the log, newest first', async () => {
+    const first = new NightlyRunRecorder().finish('one')
+    const second = new NightlyRunRecorder().finish('two')
+    await recordNightlyRun(first)
+    await recordNightlyRun(second)
+
+    const runs = await nightlyRunLog().recent()
+    expect(runs.map(r => r.summary)).toEqual(['two', 'one'])
+    expect(await nightlyRunLog().recent(1)).toHaveLength(1)
+  })
+
+  it('emails an alert only when a step failed', async () => {
+    await recordNightlyRun(new NightlyRunRecorder().finish('fine'))
+    expect(sendEmail).not.toHaveBeenCalled()
+
+    const run = new NightlyRunRecorder()
+    await run.optionalStep('cache-warmup', async () => { throw new Error('timeout') })
+    await recordNightlyRun(run.finish())
+
+    expect(sendEmail).toHaveBeenCalledOnce()
+    const sent = vi.mocked(sendEmail).mock.calls[0][0]
+    expect(sent.to).toBe('ops@example.org')
+    expect(sent.subject).toBe('DTV Tracker nightly update finished with errors')
+    expect(sent.text).toContain('cache-warmup: failed')
+  })
+
+  it('survives a log write failure', async () => {
+    const write = vi.spyOn(nightlyRunLog(), 'write').mockRejectedValueOnce(new Error('disk full'))
+    await expect(recordNightlyRun(new NightlyRunRecorder().finish())).resolves.toBeUndefined()
+    write.mockRestore()
+  })
+})
+
+describe('checkForMissedRun', () => {
+  it('alerts once when the latest run is older than NIGHTLY_ALERT_AFTER_HOURS', async () => {
+    const record = new NightlyRunRecorder().finish('last night')
+    await recordNightlyRun(record)
+    const started = Date.parse(record.startedAt)
+
+    expect(await checkForMissedRun(new Date(started + 25 * 3_600_000))).toBe(false)
+    expect(await checkForMissedRun(new Date(started + 27 * 3_600_000))).toBe(true)
+    expect(await checkForMissedRun(new Date(started + 28 * 3_600_000))).toBe(false)
+
+    expect(sendEmail).toHaveBeenCalledOnce()
+    expect(vi.mocked(sendEmail).mock.calls[0][0].subject).toBe("DTV Tracker nightly update hasn't run for 26 hours")
+  })
+})
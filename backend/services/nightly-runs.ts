@@ -0,0 +1,263 @@
+/**
+ * Nightly Run History
+ *
+ * Records every nightly update (routes/eventbrite.ts) as a NightlyRunResponse: each step with its
+ * start time, duration, counts and error, plus headline totals for the Tools page timeline.
+ *
+ * Runs go to a pluggable log, chosen like the audit sink:
+ *
+ *   NIGHTLY_LOG=list — the Logs list via listStore (LOGS_LIST_GUID); default when LOGS_LIST_GUID is set
+ *   NIGHTLY_LOG=file — JSON lines appended to NIGHTLY_LOG_FILE (default logs/nightly-runs.jsonl)
+ *
+ * When NIGHTLY_ALERT_EMAIL is set, an alert goes out if a run has a failed step, and the watchdog
+ * (checked hourly) alerts once when no run has been recorded for NIGHTLY_ALERT_AFTER_HOURS (default 26).
+ *
+ * Logging and alerting are best-effort: a failure is logged and never fails the nightly run.
+ */
+
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { listStore } from './list-store';
+import { renderEmail } from './email-renderer';
+import { sendEmail, isMailConfigured } from './mail-transport';
+import type { NightlyRunResponse, NightlyStepResponse } from '../../types/api-responses';
+
+const DEFAULT_RECENT_LIMIT = 30;
+const WATCHDOG_INTERVAL_MS = 60 * 60 * 1000;
+
+export interface NightlyRunLog {
+  write(run: NightlyRunResponse): Promise<void>;
+  /** Newest first */
+  recent(limit?: number): Promise<NightlyRunResponse[]>;
+}
+
+// ---------------------------------------------------------------------------
+// Recording
+// ---------------------------------------------------------------------------
+
+/**
+ * Times the steps of one run. step() records a failure and rethrows (the run stops);
+ * optionalStep() records a failure and returns null (the run carries on, status 'partial').
+ */
+export class NightlyRunRecorder {
+  readonly id = crypto.randomUUID();
+  readonly startedAt = new Date();
+  private readonly steps: NightlyStepResponse[] = [];
+
+  async step<T>(name: string, fn: () => Promise<T>, counts?: (result: T) => Record<string, number>): Promise<T> {
+    const started = new Date();
+    try {
+      const result = await fn();
+      this.steps.push({ name, status: 'ok', startedAt: started.toISOString(), durationMs: Date.now() - started.getTime(), counts: counts?.(result) });
+      return result;
+    } catch (err: any) {
+      this.steps.push({ name, status: 'failed', startedAt: started.toISOString(), durationMs: Date.now() - started.getTime(), error: err?.message || String(err) });
+      throw err;
+    }
+  }
+
+  async optionalStep<T>(name: string, fn: () => Promise<T>, counts?: (result: T) => Record<string, number>): Promise<T | null> {
+    try {
+      return await this.step(name, fn, counts);
+    } catch (err: any) {
+      console.warn(`[Nightly Update] ${name} failed (non-fatal):`, err?.message);
+      return null;
+    }
+  }
+
+  /** Close the run; pass the error that stopped it, if any */
+  finish(summary?: string, error?: string): NightlyRunResponse {
+    const finished = new Date();
+    const failedSteps = this.steps.filter(s => s.status === 'failed').length;
+
+    const counts: Record<string, number> = {};
+    for (const step of this.steps) {
+      for (const [key, value] of Object.entries(step.counts ?? {})) counts[key] = (counts[key] ?? 0) + value;
+    }
+    counts.errors = (counts.errors ?? 0) + failedSteps;
+
+    return {
+      id: this.id,
+      startedAt: this.startedAt.toISOString(),
+      finishedAt: finished.toISOString(),
+      durationMs: finished.getTime() - this.startedAt.getTime(),
+      status: error ? 'failed' : failedSteps ? 'partial' : 'ok',
+      steps: [...this.steps],
+      counts,
+      summary,
+      error,
+    };
+  }
+}
+
+/** Persist a finished run and alert if any step failed. Never throws. */
+export async function recordNightlyRun(run: NightlyRunResponse): Promise<void> {
+  try {
+    await nightlyRunLog().write(run);
+  } catch (err: any) {
+    console.error(`[Nightly Update] Failed to record run ${run.id}:`, err.message);
+  }
+  if (run.status !== 'ok') {
+    await sendNightlyAlert('failed', run).catch(err =>
+      console.error(`[Nightly Update] Failed to send alert for run ${run.id}:`, err.message)
+    );
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Logs
+// ---------------------------------------------------------------------------
+
+export class FileNightlyRunLog implements NightlyRunLog {
+  private writing: Promise<void> = Promise.resolve();
+
+  constructor(private readonly filePath: string) {}
+
+  write(run: NightlyRunResponse): Promise<void> {
+    // Serialise appends so a manual run overlapping the scheduled one can't interleave lines
+    this.writing = this.writing.then(async () => {
+      await fs.promises.mkdir(path.dirname(this.filePath), { recursive: true });
+      await fs.promises.appendFile(this.filePath, JSON.stringify(run) + '\n', 'utf8');
+    });
+    return this.writing;
+  }
+
+  async recent(limit = DEFAULT_RECENT_LIMIT): Promise<NightlyRunResponse[]> {
+    let content: string;
+    try {
+      content = await fs.promises.readFile(this.filePath, 'utf8');
+    } catch (err: any) {
+      if (err.code === 'ENOENT') return [];
+      throw err;
+    }
+    const runs: NightlyRunResponse[] = [];
+    for (const line of content.split('\n')) {
+      if (!line.trim()) continue;
+      try {
+        runs.push(JSON.parse(line) as NightlyRunResponse);
+      } catch {
+        // Skip a torn line rather than failing the whole read
+      }
+    }
+    return runs.reverse().slice(0, limit);
+  }
+}
+
+// SharePoint Logs list — one item per run.
+// Title = "Nightly {startedAt}"; Details = the whole run as JSON (steps and counts).
+export class ListNightlyRunLog implements NightlyRunLog {
+  constructor(private readonly listGuid: string) {}
+
+  async write(run: NightlyRunResponse): Promise<void> {
+    await listStore.createListItem(this.listGuid, {
+      Title: `Nightly ${run.startedAt}`,
+      RunId: run.id,
+      Status: run.status,
+      StartedAt: run.startedAt,
+      DurationMs: run.durationMs,
+      Details: JSON.stringify(run),
+    });
+  }
+
+  async recent(limit = DEFAULT_RECENT_LIMIT): Promise<NightlyRunResponse[]> {
+    const items = await listStore.getListItems(this.listGuid, 'ID,Details,Created');
+    const runs: NightlyRunResponse[] = [];
+    for (const item of items) {
+      try {
+        runs.push(JSON.parse(item.Details));
+      } catch {
+        // Ignore items that aren't run records (e.g. added by hand)
+      }
+    }
+    return runs.sort((a, b) => b.startedAt.localeCompare(a.startedAt)).slice(0, limit);
+  }
+}
+
+function createNightlyRunLog(): NightlyRunLog {
+  const configured = (process.env.NIGHTLY_LOG || '').toLowerCase();
+  const listGuid = process.env.LOGS_LIST_GUID;
+  if (configured === 'list' || (!configured && listGuid)) {
+    if (!listGuid) throw new Error('NIGHTLY_LOG=list requires LOGS_LIST_GUID');
+    return new ListNightlyRunLog(listGuid);
+  }
+  return new FileNightlyRunLog(process.env.NIGHTLY_LOG_FILE || path.join('logs', 'nightly-runs.jsonl'));
+}
+
+let runLog: NightlyRunLog | undefined;
+
+/** Created on first use so NIGHTLY_* env vars can be set after import (tests, scripts) */
+export function nightlyRunLog(): NightlyRunLog {
+  if (!runLog) runLog = createNightlyRunLog();
+  return runLog;
+}
+
+// ---------------------------------------------------------------------------
+// Alerts
+// ---------------------------------------------------------------------------
+
+function alertRecipients(): string[] {
+  return (process.env.NIGHTLY_ALERT_EMAIL || '').split(',').map(s => s.trim()).filter(Boolean);
+}
+
+function formatDuration(ms: number): string {
+  return ms < 1000 ? `${ms}ms` : `${(ms / 1000).toFixed(1)}s`;
+}
+
+/** Email NIGHTLY_ALERT_EMAIL about a failed run, or a missing one (lastRun = the most recent run seen) */
+export async function sendNightlyAlert(kind: 'failed' | 'missed', run: NightlyRunResponse | null): Promise<void> {
+  const to = alertRecipients();
+  if (!to.length || !isMailConfigured()) return;
+
+  const vars = {
+    missed: kind === 'missed',
+    hours: alertAfterHours(),
+    runStatus: run?.status,
+    startedAt: run?.startedAt,
+    error: run?.error,
+    steps: (run?.steps ?? []).map(s => ({ ...s, failed: s.status === 'failed', duration: formatDuration(s.durationMs) })),
+    toolsUrl: `${(process.env.FRONTEND_URL || '').replace(/\/$/, '')}/tools`,
+  };
+  const { subject, html, text } = await renderEmail('nightly-alert', vars);
+  for (const recipient of to) {
+    await sendEmail({ to: recipient, subject, html, text });
+  }
+  console.log(`[Nightly Update] Sent ${kind} alert to ${to.join(', ')}`);
+}
+
+// ---------------------------------------------------------------------------
+// Missed-run watchdog
+// ---------------------------------------------------------------------------
+
+function alertAfterHours(): number {
+  return parseInt(process.env.NIGHTLY_ALERT_AFTER_HOURS || '26', 10);
+}
+
+const watchdogStartedAt = Date.now();
+/** ID of the latest run (or 'none') already alerted about — one alert per missed stretch */
+let alertedFor: string | null = null;
+
+/**
+ * Alert if the latest run started more than NIGHTLY_ALERT_AFTER_HOURS ago (or, with no runs
+ * recorded, the server has been up that long). Returns true when an alert was sent.
+ */
+export async function checkForMissedRun(now = new Date()): Promise<boolean> {
+  const [latest] = await nightlyRunLog().recent(1);
+  const lastMs = latest ? Date.parse(latest.startedAt) : watchdogStartedAt;
+  if (now.getTime() - lastMs < alertAfterHours() * 3_600_000) return false;
+
+  const key = latest?.id ?? 'none';
+  if (alertedFor === key) return false;
+  alertedFor = key;
+  console.warn(`[Nightly Update] No nightly run since ${latest?.startedAt ?? 'server start'}`);
+  await sendNightlyAlert('missed', latest ?? null);
+  return true;
+}
+
+/** Start the hourly missed-run check; a no-op without NIGHTLY_ALERT_EMAIL */
+export function startNightlyWatchdog(): void {
+  if (!alertRecipients().length) return;
+  setInterval(() => {
+    checkForMissedRun().catch(err => console.error('[Nightly Update] Missed-run check failed:', err.message));
+  }, WATCHDOG_INTERVAL_MS).unref();
+}
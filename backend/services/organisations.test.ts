@@ -0,0 +1,137 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import type { SharePointEntry } from '../../types/sharepoint'
+
+vi.mock('./repositories/organisations-repository', () => ({
+  organisationsRepository: { configured: true, getAll: vi.fn(), create: vi.fn() }
+}))
+
+vi.mock('./repositories/profiles-repository', () => ({
+  profilesRepository: { getAll: vi.fn(), create: vi.fn(), updateFields: vi.fn(), delete: vi.fn() }
+}))
+
+vi.mock('./repositories/entries-repository', () => ({
+  entriesRepository: { getBySessionIds: vi.fn(), createMany: vi.fn(), updateFields: vi.fn() }
+}))
+
+import { bookTeam, buildOrganisationReport, fillTeamPlace, findOrCreateOrganisation, parseOrganisationName, OrganisationError } from './organisations'
+import { organisationsRepository } from './repositories/organisations-repository'
+import { profilesRepository } from './repositories/profiles-repository'
+import { entriesRepository } from './repositories/entries-repository'
+
+const SESSION = { ID: 10, Title: '2099-06-14 Sat', Date: '2099-06-14', GroupLookupId: '1', Created: '', Modified: '' } as any
+const ACME = { ID: 3, Title: 'Acme Ltd', Created: '', Modified: '' }
+
+function entry(id: number, profileId: number, overrides: Partial<SharePointEntry> = {}): SharePointEntry {
+  return { ID: id, SessionLookupId: '10', ProfileLookupId: String(profileId), Created: '', Modified: '', ...overrides }
+}
+
+beforeEach(() => {
+  vi.clearAllMocks()
+  vi.mocked(organisationsRepository.getAll).mockResolvedValue([ACME])
+  vi.mocked(organisationsRepository.create).mockResolvedValue(4)
+  vi.mocked(profilesRepository.create).mockImplementation(async () => 60 + vi.mocked(profilesRepository.create).mock.calls.length)
+  vi.mocked(profilesRepository.delete).mockResolvedValue(undefined)
+  vi.mocked(entriesRepository.getBySessionIds).mockResolvedValue([])
+  vi.mocked(entriesRepository.createMany).mockImplementation(async items => items.map((_, i) => ({ ok: true as const, id: 100 + i })))
+})
+
+describe('parseOrganisationName', () => {
+  it('tidies whitespace and treats blank as no organisation', () => {
+    expect(parseOrganisationName('  Acme   Ltd ')).toBe('Acme Ltd')
+    expect(parseOrganisationName('   ')).toBeUndefined()
+    expect(() => parseOrganisationName(42)).toThrow(OrganisationError)
+  })
+})
+
+describe('findOrCreateOrganisation', () => {
+  it('matches an existing organisation ignoring case, else creates it', async () => {
+    expect((await findOrCreateOrganisation('ACME ltd')).ID).toBe(3)
+    expect(organisationsRepository.create).not.toHaveBeenCalled()
+
+    expect((await findOrCreateOrganisation('Initech')).ID).toBe(4)
+    expect(organisationsRepository.create).toHaveBeenCalledWith({ Title: 'Initech' })
+  })
+})
+
+describe('bookTeam', () => {
+  it('books numbered placeholder places carrying the organisation and CSR label', async () => {
+    vi.mocked(entriesRepository.getBySessionIds).mockResolvedValue([entry(7, 50, { OrganisationLookupId: 3 })])
+
+    const result = await bookTeam(SESSION, 'acme ltd', 2)
+
+    expect(profilesRepository.create).toHaveBeenCalledWith({ Title: 'Acme Ltd place 2', MatchName: 'acme ltd place 2', Placeholder: true })
+    expect(profilesRepository.create).toHaveBeenCalledWith({ Title: 'Acme Ltd place 3', MatchName: 'acme ltd place 3', Placeholder: true })
+    expect(entriesRepository.createMany).toHaveBeenCalledWith([
+      { SessionLookupId: '10', ProfileLookupId: '61', Labels: ['CSR'], OrganisationLookupId: '3' },
+      { SessionLookupId: '10', ProfileLookupId: '62', Labels: ['CSR'], OrganisationLookupId: '3' },
+    ])
+    expect(result.organisation).toEqual({ id: 3, name: 'Acme Ltd' })
+    expect(result.entries.map(e => e.name)).toEqual(['Acme Ltd place 2', 'Acme Ltd place 3'])
+  })
+
+  it('rejects team sizes out of range', async () => {
+    await expect(bookTeam(SESSION, 'Acme Ltd', 0)).rejects.toThrow('Team size')
+    await expect(bookTeam(SESSION, 'Acme Ltd', 31)).rejects.toThrow('Team size')
+  })
+})
+
+describe('fillTeamPlace', () => {
+  const PLACE = { ID: 61, Title: 'Acme Ltd place 1', Placeholder: true, Created: '', Modified: '' }
+  const JO = { ID: 5, Title: 'Jo Bloggs', Email: 'jo@acme.example', Created: '', Modified: '' }
+
+  beforeEach(() => {
+    vi.mocked(profilesRepository.getAll).mockResolvedValue([PLACE, JO] as any)
+  })
+
+  it('renames the placeholder for a new volunteer', async () => {
+    const result = await fillTeamPlace(entry(100, 61), { name: 'Sam Smith', email: 'sam@acme.example' })
+
+    expect(profilesRepository.updateFields).toHaveBeenCalledWith(61, { Title: 'Sam Smith', MatchName: 'sam smith', Placeholder: false, Email: 'sam@acme.example' })
+    expect(result).toEqual({ profileId: 61, name: 'Sam Smith', existing: false })
+  })
+
+  it('moves the place to an existing profile matched by email and removes the placeholder', async () => {
+    const result = await fillTeamPlace(entry(100, 61), { name: 'Joanne Bloggs', email: 'jo@acme.example' })
+
+    expect(entriesRepository.updateFields).toHaveBeenCalledWith(100, { ProfileLookupId: '5' })
+    expect(profilesRepository.delete).toHaveBeenCalledWith(61)
+    expect(result).toEqual({ profileId: 5, name: 'Jo Bloggs', existing: true })
+  })
+
+  it('refuses a volunteer already booked on the session, and entries that are not team places', async () => {
+    vi.mocked(entriesRepository.getBySessionIds).mockResolvedValue([entry(100, 61), entry(101, 5)])
+    await expect(fillTeamPlace(entry(100, 61), { profileId: 5 })).rejects.toMatchObject({ statusCode: 409 })
+    await expect(fillTeamPlace(entry(101, 5), { name: 'Sam Smith' })).rejects.toThrow('not an unnamed team place')
+    expect(entriesRepository.updateFields).not.toHaveBeenCalled()
+  })
+})
+
+describe('buildOrganisationReport', () => {
+  it('totals sessions, headcount and hours per organisation for sessions that have happened', () => {
+    const sessions = [
+      { ID: 10, Date: '2025-05-10', GroupLookupId: '1', Created: '', Modified: '' },
+      { ID: 11, Date: '2025-06-14', GroupLookupId: '1', Created: '', Modified: '' },
+      { ID: 12, Date: '2025-09-01', GroupLookupId: '1', Created: '', Modified: '' },
+    ] as any
+    const groups = [{ ID: 1, Title: 'sat', Name: 'Saturday Dig', Created: '', Modified: '' }]
+    const entries = [
+      entry(1, 5, { SessionLookupId: '10', OrganisationLookupId: 3, Hours: 3 }),
+      entry(2, 6, { SessionLookupId: '10', OrganisationLookupId: 3, Hours: 3, Count: 2 }),
+      entry(3, 7, { SessionLookupId: '11', OrganisationLookupId: 3, Hours: 2.5 }),
+      entry(4, 8, { SessionLookupId: '11', OrganisationLookupId: 3, Hours: 2.5, Cancelled: '2025-06-01T00:00:00Z' }),
+      entry(5, 9, { SessionLookupId: '11', Hours: 2.5 }),
+      entry(6, 5, { SessionLookupId: '12', OrganisationLookupId: 3 }),
+    ]
+
+    const report = buildOrganisationReport('FY2025', [ACME], sessions, groups, entries, '2025-07-01')
+
+    expect(report.financialYear).toBe('FY2025')
+    expect(report.organisations).toEqual([{
+      id: 3, name: 'Acme Ltd', sessions: 2, headcount: 4, hours: 8.5,
+      sessionRows: [
+        { sessionId: 10, date: '2025-05-10', groupName: 'Saturday Dig', groupKey: 'sat', headcount: 3, hours: 6 },
+        { sessionId: 11, date: '2025-06-14', groupName: 'Saturday Dig', groupKey: 'sat', headcount: 1, hours: 2.5 },
+      ],
+    }])
+  })
+})
@@ -0,0 +1,230 @@
+/**
+ * Organisations — CSR / work bookings (docs/design/booking-flow.md, "Corporate / CSR option").
+ *
+ * The employer is stored on the booking, not the profile: the same volunteer may come through
+ * different employers over time, and the report has to reflect the booking that actually happened.
+ * Entries link to the Organisations list by the Organisation lookup and carry the CSR label.
+ *
+ * A coordinator can book a team before the names are known. Each place gets a placeholder profile
+ * ("Acme Ltd place 3", Placeholder = Yes) so the entry behaves like any other on the day; naming
+ * the place later either renames the placeholder or, when the volunteer already has a profile,
+ * moves the entry to it and deletes the placeholder.
+ */
+
+import { organisationsRepository } from './repositories/organisations-repository';
+import { profilesRepository } from './repositories/profiles-repository';
+import { entriesRepository } from './repositories/entries-repository';
+import { entryHeadcount, isSessionCancelled, parseEmails, safeParseLookupId, toMatchName } from './data-layer';
+import {
+  SESSION_LOOKUP, PROFILE_LOOKUP, GROUP_LOOKUP, ENTRY_CANCELLED, ENTRY_WAITLISTED, ENTRY_LABELS,
+  ENTRY_ORGANISATION_LOOKUP, PROFILE_PLACEHOLDER
+} from './field-names';
+import type { SharePointEntry, SharePointOrganisation, SharePointProfile } from '../../types/sharepoint';
+import type { SharePointGroup } from '../../types/group';
+import type { SharePointSession } from '../../types/session';
+import type { OrganisationReportResponse, OrganisationReportRow, TeamBookingResponse, TeamPlaceResponse } from '../../types/api-responses';
+
+export const CSR_LABEL = 'CSR';
+
+/** Places in one team booking — larger groups are arranged with admin */
+export const MAX_TEAM_SIZE = 30;
+
+export class OrganisationError extends Error {
+  constructor(message: string, public readonly statusCode = 400) {
+    super(message);
+    this.name = 'OrganisationError';
+  }
+}
+
+/** Tidied organisation name from a request body; undefined when blank */
+export function parseOrganisationName(value: unknown): string | undefined {
+  if (value === undefined || value === null) return undefined;
+  if (typeof value !== 'string') throw new OrganisationError('organisation must be a name');
+  const name = value.trim().replace(/\s+/g, ' ');
+  if (name.length > 255) throw new OrganisationError('Organisation names must be 255 characters or fewer');
+  return name || undefined;
+}
+
+/** The organisation with this name (ignoring case and punctuation), created if it's new */
+export async function findOrCreateOrganisation(name: string): Promise<SharePointOrganisation> {
+  if (!organisationsRepository.configured) {
+    throw new OrganisationError('Organisations are not configured (ORGANISATIONS_LIST_GUID)', 503);
+  }
+  const organisations = await organisationsRepository.getAll();
+  const existing = organisations.find(o => toMatchName(o.Title) === toMatchName(name));
+  if (existing) return existing;
+  const id = await organisationsRepository.create({ Title: name });
+  return { ID: id, Title: name, Created: '', Modified: '' };
+}
+
+/** Entry fields that mark a booking as through work — the CSR label, plus the employer when known */
+export function csrEntryFields(organisation?: SharePointOrganisation): Record<string, any> {
+  const fields: Record<string, any> = { [ENTRY_LABELS]: [CSR_LABEL] };
+  if (organisation) fields[ENTRY_ORGANISATION_LOOKUP] = String(organisation.ID);
+  return fields;
+}
+
+/**
+ * Books `size` unnamed places on a session for an organisation's team.
+ * Team bookings are arranged by a coordinator, so like a manually added entry they aren't
+ * held to the session's limits.
+ */
+export async function bookTeam(spSession: SharePointSession, organisationName: string, size: number): Promise<TeamBookingResponse> {
+  if (!Number.isInteger(size) || size < 1 || size > MAX_TEAM_SIZE) {
+    throw new OrganisationError(`Team size must be between 1 and ${MAX_TEAM_SIZE}`);
+  }
+  if ((spSession.Date || '').slice(0, 10) < new Date().toISOString().slice(0, 10)) {
+    throw new OrganisationError('Session has already passed');
+  }
+  if (isSessionCancelled(spSession)) {
+    throw new OrganisationError('Session has been cancelled');
+  }
+
+  const organisation = await findOrCreateOrganisation(organisationName);
+  const orgName = organisation.Title || organisationName;
+
+  // Number on from places this organisation already has on the session
+  const sessionEntries = await entriesRepository.getBySessionIds([spSession.ID]);
+  const existingPlaces = sessionEntries.filter(e => safeParseLookupId(e[ENTRY_ORGANISATION_LOOKUP]) === organisation.ID).length;
+
+  const failed: string[] = [];
+  const places: Array<{ profileId: number; name: string }> = [];
+  for (let i = 1; i <= size; i++) {
+    const name = `${orgName} place ${existingPlaces + i}`;
+    try {
+      const profileId = await profilesRepository.create({ Title: name, MatchName: toMatchName(name), [PROFILE_PLACEHOLDER]: true });
+      places.push({ profileId, name });
+    } catch (err: any) {
+      console.error(`[Organisations] Failed to create placeholder "${name}":`, err.message);
+      failed.push(name);
+    }
+  }
+
+  const results = await entriesRepository.createMany(places.map(p => ({
+    [SESSION_LOOKUP]: String(spSession.ID),
+    [PROFILE_LOOKUP]: String(p.profileId),
+    ...csrEntryFields(organisation),
+  })));
+
+  const entries: TeamBookingResponse['entries'] = [];
+  results.forEach((result, i) => {
+    const place = places[i];
+    if (result.ok) {
+      entries.push({ id: result.id, profileId: place.profileId, name: place.name });
+    } else {
+      console.error(`[Organisations] Failed to book ${place.name} on session ${spSession.ID}: ${result.error}`);
+      failed.push(place.name);
+    }
+  });
+
+  return { organisation: { id: organisation.ID, name: orgName }, entries, failed };
+}
+
+/**
+ * The volunteer a team place is for: a profile with this email, else the only profile with this
+ * name. Two profiles sharing the name is ambiguous — the place is renamed instead, and any
+ * duplicate is left for a normal profile transfer.
+ */
+function matchVolunteer(profiles: SharePointProfile[], name: string, email?: string): SharePointProfile | undefined {
+  const named = profiles.filter(p => !p[PROFILE_PLACEHOLDER]);
+  if (email) {
+    const byEmail = named.find(p => parseEmails(p.Email).includes(email));
+    if (byEmail) return byEmail;
+  }
+  const byName = named.filter(p => toMatchName(p.MatchName || p.Title) === toMatchName(name));
+  return byName.length === 1 ? byName[0] : undefined;
+}
+
+/** Who a team place is for: a profile picked by the coordinator, or a name (and email) to match or create */
+export type TeamPlaceVolunteer = { profileId: number } | { name: string; email?: string };
+
+/** Names a team place — see the module comment */
+export async function fillTeamPlace(entry: SharePointEntry, volunteer: TeamPlaceVolunteer): Promise<TeamPlaceResponse> {
+  const placeholderId = safeParseLookupId(entry[PROFILE_LOOKUP]);
+  const profiles = await profilesRepository.getAll();
+  const placeholder = profiles.find(p => p.ID === placeholderId);
+  if (!placeholder?.[PROFILE_PLACEHOLDER]) {
+    throw new OrganisationError('This booking is not an unnamed team place', 409);
+  }
+
+  const existing = 'profileId' in volunteer
+    ? profiles.find(p => p.ID === volunteer.profileId && !p[PROFILE_PLACEHOLDER])
+    : matchVolunteer(profiles, volunteer.name, volunteer.email);
+  if ('profileId' in volunteer && !existing) throw new OrganisationError('Volunteer not found', 404);
+  if (existing) {
+    const sessionId = safeParseLookupId(entry[SESSION_LOOKUP]);
+    const sessionEntries = sessionId !== undefined ? await entriesRepository.getBySessionIds([sessionId]) : [];
+    const alreadyBooked = sessionEntries.some(e =>
+      e.ID !== entry.ID && safeParseLookupId(e[PROFILE_LOOKUP]) === existing.ID && !e[ENTRY_CANCELLED]
+    );
+    if (alreadyBooked) throw new OrganisationError(`${existing.Title} is already booked on this session`, 409);
+
+    await entriesRepository.updateFields(entry.ID, { [PROFILE_LOOKUP]: String(existing.ID) });
+    // A placeholder only ever holds the one place it was created for
+    await profilesRepository.delete(placeholder.ID).catch(err =>
+      console.error(`[Organisations] Failed to delete placeholder profile ${placeholder.ID}:`, err.message)
+    );
+    return { profileId: existing.ID, name: existing.Title || '', existing: true };
+  }
+
+  const { name, email } = volunteer as { name: string; email?: string };
+  await profilesRepository.updateFields(placeholder.ID, {
+    Title: name,
+    MatchName: toMatchName(name),
+    [PROFILE_PLACEHOLDER]: false,
+    ...(email ? { Email: email } : {}),
+  });
+  return { profileId: placeholder.ID, name, existing: false };
+}
+
+/**
+ * Sessions, headcount and hours per organisation for the sessions of one financial year that have
+ * taken place. Cancelled and waitlisted entries don't count; headcount follows each entry's Count.
+ */
+export function buildOrganisationReport(
+  fyKey: string,
+  organisations: SharePointOrganisation[],
+  fySessions: SharePointSession[],
+  groups: SharePointGroup[],
+  entries: SharePointEntry[],
+  today = new Date().toISOString().slice(0, 10)
+): OrganisationReportResponse {
+  const sessionMap = new Map(fySessions
+    .filter(s => (s.Date || '').slice(0, 10) <= today)
+    .map(s => [s.ID, s]));
+  const groupMap = new Map(groups.map(g => [g.ID, g]));
+
+  const rows = new Map<number, OrganisationReportRow>();
+  for (const entry of entries) {
+    if (entry[ENTRY_CANCELLED] || entry[ENTRY_WAITLISTED]) continue;
+    const organisationId = safeParseLookupId(entry[ENTRY_ORGANISATION_LOOKUP]);
+    const sessionId = safeParseLookupId(entry[SESSION_LOOKUP]);
+    const spSession = sessionId !== undefined ? sessionMap.get(sessionId) : undefined;
+    if (organisationId === undefined || !spSession) continue;
+
+    let row = rows.get(organisationId);
+    if (!row) {
+      const organisation = organisations.find(o => o.ID === organisationId);
+      row = { id: organisationId, name: organisation?.Title || entry.Organisation || '', sessions: 0, headcount: 0, hours: 0, sessionRows: [] };
+      rows.set(organisationId, row);
+    }
+
+    let sessionRow = row.sessionRows.find(r => r.sessionId === spSession.ID);
+    if (!sessionRow) {
+      const group = groupMap.get(safeParseLookupId(spSession[GROUP_LOOKUP]) ?? -1);
+      sessionRow = { sessionId: spSession.ID, date: (spSession.Date || '').slice(0, 10), groupName: group?.Name || group?.Title, groupKey: group?.Title, headcount: 0, hours: 0 };
+      row.sessionRows.push(sessionRow);
+      row.sessions++;
+    }
+    const headcount = entryHeadcount(entry);
+    const hours = parseFloat(String(entry.Hours)) || 0;
+    sessionRow.headcount += headcount;
+    sessionRow.hours += hours;
+    row.headcount += headcount;
+    row.hours += hours;
+  }
+
+  const organisationRows = [...rows.values()].sort((a, b) => a.name.localeCompare(b.name));
+  for (const row of organisationRows) row.sessionRows.sort((a, b) => a.date.localeCompare(b.date));
+  return { financialYear: fyKey, organisations: organisationRows };
+}
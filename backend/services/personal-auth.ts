@@ -1,6 +1,7 @@
 import { profilesRepository } from './repositories/profiles-repository';
 import { profileSlug, parseEmails } from './data-layer';
 import { PROFILE_STATS } from './field-names';
+import { childProfileIds } from './guardianship';
 
 // Resolves a personal account (Google/Facebook) OAuth login by matching the
 // OAuth email against Profile.Email. Used by all personal account providers.
@@ -15,6 +16,7 @@ export async function resolvePersonalSession(email: string, displayName: string,
   if (matchedProfiles.length === 0) return { ok: false };
 
   const primary = matchedProfiles[0];
+  const profileIds = matchedProfiles.map(p => p.ID);
 
   // Detect if this email also has a DTV Account login, and which role it would get.
   // Check the profile's linked User field (DTV username) as well as the OAuth email itself.
@@ -40,7 +42,8 @@ export async function resolvePersonalSession(email: string, displayName: string,
       role: 'selfservice',
       profileSlug: profileSlug(primary.Title, primary.ID),
       profileId: primary.ID,
-      profileIds: matchedProfiles.map(p => p.ID),
+      profileIds,
+      childProfileIds: childProfileIds(profiles, profileIds),
       trustedRole,
       profileStats,
     },
@@ -0,0 +1,126 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+
+vi.mock('./repositories/profile-reviews-repository', () => ({
+  profileReviewsRepository: { configured: true, getAll: vi.fn(), getById: vi.fn(), create: vi.fn(), update: vi.fn() }
+}))
+
+vi.mock('./repositories/profiles-repository', () => ({
+  profilesRepository: { getAll: vi.fn(), create: vi.fn(), updateFields: vi.fn() }
+}))
+
+vi.mock('./repositories/entries-repository', () => ({
+  entriesRepository: { getAll: vi.fn(), getBySessionIds: vi.fn(), updateFields: vi.fn() }
+}))
+
+vi.mock('./profile-transfer', () => ({
+  transferProfile: vi.fn()
+}))
+
+vi.mock('./profile-stats', () => ({
+  computeAndSaveProfileStats: vi.fn().mockResolvedValue(undefined)
+}))
+
+import { recordProfileReview, resolveProfileReview, aliasProfileIds, ProfileReviewError } from './profile-reviews'
+import { profileReviewsRepository } from './repositories/profile-reviews-repository'
+import { profilesRepository } from './repositories/profiles-repository'
+import { entriesRepository } from './repositories/entries-repository'
+import { transferProfile } from './profile-transfer'
+
+const ALEX = { ID: 7, Title: 'Alex Jones', Email: 'alex1@example.com', Created: '', Modified: '' }
+const ALEX_2 = { ID: 8, Title: 'Alex Jones', Email: 'alex2@example.com', Created: '', Modified: '' }
+const JOHN = { ID: 6, Title: 'John Doe', Email: 'john@example.com', Created: '', Modified: '' }
+
+const CLASH = { ID: 1, Title: 'Alex Jones', Kind: 'Clash', Status: 'Pending', ProfileID: 7, OtherProfileID: 8, Email: 'alex2@example.com', SessionID: 31, Created: '', Modified: '' }
+const NAME_MATCH = { ID: 2, Title: 'John Doe', Kind: 'Name match', Status: 'Pending', ProfileID: 6, Email: 'john@example.com', SessionID: 31, Created: '', Modified: '' }
+
+beforeEach(() => {
+  vi.clearAllMocks()
+  vi.mocked(profileReviewsRepository.getAll).mockResolvedValue([])
+  vi.mocked(profilesRepository.getAll).mockResolvedValue([ALEX, ALEX_2, JOHN] as any)
+  vi.mocked(entriesRepository.getAll).mockResolvedValue([])
+})
+
+describe('recordProfileReview', () => {
+  it('records a new clash as pending', async () => {
+    expect(await recordProfileReview({ kind: 'clash', profileId: 7, otherProfileId: 8, attendeeName: 'Alex Jones', attendeeEmail: 'alex2@example.com', sessionId: 31 })).toBe(true)
+    expect(profileReviewsRepository.create).toHaveBeenCalledWith({
+      Title: 'Alex Jones', Kind: 'Clash', Status: 'Pending', ProfileID: 7, OtherProfileID: 8, Email: 'alex2@example.com', SessionID: 31
+    })
+  })
+
+  it('never flags a pair again once it has been reviewed, whichever way round', async () => {
+    vi.mocked(profileReviewsRepository.getAll).mockResolvedValue([{ ...CLASH, Status: 'Separate' }] as any)
+    expect(await recordProfileReview({ kind: 'clash', profileId: 8, otherProfileId: 7, attendeeName: 'Alex Jones' })).toBe(false)
+    expect(profileReviewsRepository.create).not.toHaveBeenCalled()
+  })
+
+  it('skips a name match already recorded for the same profile and email', async () => {
+    vi.mocked(profileReviewsRepository.getAll).mockResolvedValue([NAME_MATCH] as any)
+    expect(await recordProfileReview({ kind: 'name-match', profileId: 6, attendeeName: 'John Doe', attendeeEmail: 'JOHN@example.com' })).toBe(false)
+  })
+
+  it('swallows a failed write so the sync carries on', async () => {
+    vi.mocked(profileReviewsRepository.create).mockRejectedValue(new Error('Graph 503'))
+    await expect(recordProfileReview({ kind: 'name-match', profileId: 6, attendeeName: 'John Doe' })).resolves.toBe(false)
+  })
+})
+
+describe('resolveProfileReview', () => {
+  it('merges a clash by transferring the new profile into the existing one', async () => {
+    vi.mocked(profileReviewsRepository.getById).mockResolvedValue(CLASH as any)
+    vi.mocked(transferProfile).mockResolvedValue({ entriesTransferred: 2 } as any)
+
+    const result = await resolveProfileReview(1, 'merge', 'admin@dtv.org.uk')
+
+    expect(transferProfile).toHaveBeenCalledWith(8, 7, { deleteAfter: true, addEmail: true })
+    expect(result.transfer).toEqual({ entriesTransferred: 2 })
+    expect(profileReviewsRepository.update).toHaveBeenCalledWith(1, expect.objectContaining({ Status: 'Merged', ResolvedBy: 'admin@dtv.org.uk', OtherProfileID: 8 }))
+  })
+
+  it('keeps a clash separate without touching either profile', async () => {
+    vi.mocked(profileReviewsRepository.getById).mockResolvedValue(CLASH as any)
+    await resolveProfileReview(1, 'separate', 'admin@dtv.org.uk')
+    expect(transferProfile).not.toHaveBeenCalled()
+    expect(profilesRepository.create).not.toHaveBeenCalled()
+    expect(profileReviewsRepository.update).toHaveBeenCalledWith(1, expect.objectContaining({ Status: 'Separate' }))
+  })
+
+  it('splits a name match off onto a new profile and removes the backfilled email', async () => {
+    vi.mocked(profileReviewsRepository.getById).mockResolvedValue(NAME_MATCH as any)
+    vi.mocked(profilesRepository.create).mockResolvedValue(50)
+    vi.mocked(entriesRepository.getBySessionIds).mockResolvedValue([
+      { ID: 900, SessionLookupId: '31', ProfileLookupId: '6', Created: '', Modified: '' }
+    ] as any)
+
+    await resolveProfileReview(2, 'alias', 'admin@dtv.org.uk')
+
+    expect(profilesRepository.create).toHaveBeenCalledWith({ Title: 'John Doe', Email: 'john@example.com', MatchName: 'john doe' })
+    expect(entriesRepository.updateFields).toHaveBeenCalledWith(900, { ProfileLookupId: '50' })
+    expect(profilesRepository.updateFields).toHaveBeenCalledWith(6, { Email: '' })
+    expect(profileReviewsRepository.update).toHaveBeenCalledWith(2, expect.objectContaining({ Status: 'Alias', OtherProfileID: 50 }))
+  })
+
+  it('confirms a name match as the same person without changes', async () => {
+    vi.mocked(profileReviewsRepository.getById).mockResolvedValue(NAME_MATCH as any)
+    await resolveProfileReview(2, 'merge', 'admin@dtv.org.uk')
+    expect(profilesRepository.create).not.toHaveBeenCalled()
+    expect(profileReviewsRepository.update).toHaveBeenCalledWith(2, expect.objectContaining({ Status: 'Merged' }))
+  })
+
+  it('refuses a review that is already resolved', async () => {
+    vi.mocked(profileReviewsRepository.getById).mockResolvedValue({ ...CLASH, Status: 'Merged' } as any)
+    await expect(resolveProfileReview(1, 'merge', 'admin@dtv.org.uk')).rejects.toMatchObject({ statusCode: 409 })
+    await expect(resolveProfileReview(1, 'merge', 'admin@dtv.org.uk')).rejects.toBeInstanceOf(ProfileReviewError)
+  })
+})
+
+describe('aliasProfileIds', () => {
+  it('links both profiles of an alias review to each other', async () => {
+    vi.mocked(profileReviewsRepository.getAll).mockResolvedValue([
+      { ...CLASH, Status: 'Alias' },
+      { ...CLASH, ID: 3, ProfileID: 7, OtherProfileID: 9, Status: 'Separate' },
+    ] as any)
+    expect(await aliasProfileIds(7)).toEqual([8])
+    expect(await aliasProfileIds(8)).toEqual([7])
+  })
+})
@@ -0,0 +1,256 @@
+/**
+ * Profile Review Queue
+ *
+ * The Eventbrite attendee sync (findOrCreateProfile) makes two judgement calls on its own:
+ *
+ *   Clash       same name, different email — it creates a second profile
+ *   Name match  same name, profile had no email — it reuses the profile and backfills the email
+ *
+ * Each is recorded here as a pending review (Profile Reviews list, PROFILE_REVIEWS_LIST_GUID)
+ * for an admin to resolve from the Tools page:
+ *
+ *   merge     one volunteer — a clash profile is transferred into the existing one (transferProfile,
+ *             with its email added) and deleted; a name match is simply confirmed
+ *   separate  different volunteers — a name match's booking is split off onto a new profile and
+ *             the backfilled email removed; the pair is never flagged again
+ *   alias     same volunteer, kept as two profiles — as separate, but the profiles link to each
+ *             other (aliasProfiles on the profile detail)
+ *
+ * A pair that has ever been reviewed (any status) is not recorded again.
+ */
+
+import { profileReviewsRepository } from './repositories/profile-reviews-repository';
+import { profilesRepository } from './repositories/profiles-repository';
+import { entriesRepository } from './repositories/entries-repository';
+import { validateArray, validateProfile, validateEntry, safeParseLookupId, profileSlug, parseEmails, toMatchName } from './data-layer';
+import { PROFILE_LOOKUP, SESSION_LOOKUP } from './field-names';
+import { transferProfile, type ProfileTransferResult } from './profile-transfer';
+import { computeAndSaveProfileStats } from './profile-stats';
+import type { SharePointProfile, SharePointProfileReview } from '../../types/sharepoint';
+import type {
+  ProfileReviewAction, ProfileReviewKind, ProfileReviewProfile, ProfileReviewResponse, ProfileReviewStatus
+} from '../../types/api-responses';
+
+export const PROFILE_REVIEW_ACTIONS: ProfileReviewAction[] = ['merge', 'separate', 'alias'];
+
+const KIND_VALUES: Record<ProfileReviewKind, NonNullable<SharePointProfileReview['Kind']>> = {
+  'clash': 'Clash',
+  'name-match': 'Name match',
+};
+
+const STATUS_VALUES: Record<ProfileReviewStatus, NonNullable<SharePointProfileReview['Status']>> = {
+  pending: 'Pending',
+  merged: 'Merged',
+  separate: 'Separate',
+  alias: 'Alias',
+};
+
+const ACTION_STATUS: Record<ProfileReviewAction, ProfileReviewStatus> = {
+  merge: 'merged',
+  separate: 'separate',
+  alias: 'alias',
+};
+
+export class ProfileReviewError extends Error {
+  constructor(message: string, public readonly statusCode = 400) {
+    super(message);
+    this.name = 'ProfileReviewError';
+  }
+}
+
+export interface ProfileReviewInput {
+  kind: ProfileReviewKind;
+  profileId: number;
+  /** Clash only — the profile the sync created */
+  otherProfileId?: number;
+  attendeeName: string;
+  attendeeEmail?: string;
+  sessionId?: number;
+}
+
+export function reviewKind(item: SharePointProfileReview): ProfileReviewKind {
+  return item.Kind === 'Clash' ? 'clash' : 'name-match';
+}
+
+export function reviewStatus(item: SharePointProfileReview): ProfileReviewStatus {
+  const match = (Object.keys(STATUS_VALUES) as ProfileReviewStatus[]).find(k => STATUS_VALUES[k] === item.Status);
+  return match ?? 'pending';
+}
+
+/** True when this review already covers the input — same two profiles, or same profile + email for a name match */
+export function reviewCovers(item: SharePointProfileReview, input: ProfileReviewInput): boolean {
+  const ids = [item.ProfileID, item.OtherProfileID];
+  if (input.otherProfileId !== undefined) {
+    return ids.includes(input.profileId) && ids.includes(input.otherProfileId);
+  }
+  return item.ProfileID === input.profileId
+    && !!input.attendeeEmail
+    && (item.Email || '').toLowerCase() === input.attendeeEmail.toLowerCase();
+}
+
+/**
+ * Record a sync match for review. Never throws — a review that can't be written is logged and
+ * the sync carries on.
+ */
+export async function recordProfileReview(input: ProfileReviewInput): Promise<boolean> {
+  if (!profileReviewsRepository.configured) return false;
+  try {
+    const existing = await profileReviewsRepository.getAll();
+    if (existing.some(item => reviewCovers(item, input))) return false;
+    const fields: Record<string, any> = {
+      Title: input.attendeeName,
+      Kind: KIND_VALUES[input.kind],
+      Status: STATUS_VALUES.pending,
+      ProfileID: input.profileId,
+    };
+    if (input.otherProfileId !== undefined) fields.OtherProfileID = input.otherProfileId;
+    if (input.attendeeEmail) fields.Email = input.attendeeEmail;
+    if (input.sessionId !== undefined) fields.SessionID = input.sessionId;
+    await profileReviewsRepository.create(fields);
+    return true;
+  } catch (err: any) {
+    console.error(`[Profile Review] Failed to record ${input.kind} for profile ${input.profileId}:`, err.message);
+    return false;
+  }
+}
+
+function toReviewProfile(profile: SharePointProfile | undefined, entryCounts: Map<number, number>): ProfileReviewProfile | undefined {
+  if (!profile) return undefined;
+  return {
+    id: profile.ID,
+    slug: profileSlug(profile.Title, profile.ID),
+    name: profile.Title || '',
+    emails: parseEmails(profile.Email),
+    created: profile.Created || undefined,
+    entryCount: entryCounts.get(profile.ID) ?? 0,
+  };
+}
+
+export function toProfileReviewResponse(
+  item: SharePointProfileReview,
+  profilesById: Map<number, SharePointProfile>,
+  entryCounts: Map<number, number>
+): ProfileReviewResponse {
+  return {
+    id: item.ID,
+    kind: reviewKind(item),
+    status: reviewStatus(item),
+    attendeeName: item.Title || '',
+    attendeeEmail: item.Email || undefined,
+    sessionId: item.SessionID ?? undefined,
+    profile: item.ProfileID ? toReviewProfile(profilesById.get(item.ProfileID), entryCounts) : undefined,
+    otherProfile: item.OtherProfileID ? toReviewProfile(profilesById.get(item.OtherProfileID), entryCounts) : undefined,
+    created: item.Created,
+    resolvedBy: item.ResolvedBy || undefined,
+    resolved: item.Resolved || undefined,
+  };
+}
+
+/** Reviews with both profiles filled in for side-by-side display; newest first */
+export async function listProfileReviews(status?: ProfileReviewStatus): Promise<ProfileReviewResponse[]> {
+  const [items, rawProfiles, rawEntries] = await Promise.all([
+    profileReviewsRepository.getAll(),
+    profilesRepository.getAll(),
+    entriesRepository.getAll(),
+  ]);
+  const profilesById = new Map(validateArray(rawProfiles, validateProfile, 'Profile').map(p => [p.ID, p]));
+  const entryCounts = new Map<number, number>();
+  for (const entry of validateArray(rawEntries, validateEntry, 'Entry')) {
+    const pid = safeParseLookupId(entry[PROFILE_LOOKUP]);
+    if (pid !== undefined) entryCounts.set(pid, (entryCounts.get(pid) ?? 0) + 1);
+  }
+  return items
+    .filter(item => !status || reviewStatus(item) === status)
+    .sort((a, b) => b.ID - a.ID)
+    .map(item => toProfileReviewResponse(item, profilesById, entryCounts));
+}
+
+/** Profiles linked to this one by a resolved 'alias' review */
+export async function aliasProfileIds(profileId: number): Promise<number[]> {
+  const items = await profileReviewsRepository.getAll();
+  return items
+    .filter(item => reviewStatus(item) === 'alias')
+    .flatMap(item =>
+      item.ProfileID === profileId && item.OtherProfileID ? [item.OtherProfileID]
+        : item.OtherProfileID === profileId && item.ProfileID ? [item.ProfileID]
+        : []
+    );
+}
+
+/**
+ * Undo a name match: a new profile for the attendee, their booking for the review's session
+ * moved onto it, and the backfilled email taken off the original profile.
+ */
+async function splitNameMatch(item: SharePointProfileReview, profile: SharePointProfile): Promise<number> {
+  const email = item.Email || undefined;
+  const attendeeName = item.Title || profile.Title || '';
+  const newId = await profilesRepository.create({ Title: attendeeName, Email: email, MatchName: toMatchName(attendeeName) });
+
+  if (item.SessionID) {
+    const entries = validateArray(await entriesRepository.getBySessionIds([item.SessionID]), validateEntry, 'Entry');
+    const entry = entries.find(e => safeParseLookupId(e[PROFILE_LOOKUP]) === profile.ID
+      && safeParseLookupId(e[SESSION_LOOKUP]) === item.SessionID);
+    if (entry) await entriesRepository.updateFields(entry.ID, { [PROFILE_LOOKUP]: String(newId) });
+  }
+
+  if (email) {
+    const remaining = parseEmails(profile.Email).filter(e => e !== email.toLowerCase());
+    await profilesRepository.updateFields(profile.ID, { Email: remaining.join(',') });
+  }
+
+  for (const id of [profile.ID, newId]) {
+    computeAndSaveProfileStats(id).catch(err =>
+      console.error(`[Profile Review] Stats refresh failed for profile ${id}:`, err.message)
+    );
+  }
+  return newId;
+}
+
+export interface ProfileReviewResolution {
+  review: ProfileReviewResponse;
+  /** Set when a clash was merged */
+  transfer?: ProfileTransferResult;
+}
+
+export async function resolveProfileReview(
+  id: number,
+  action: ProfileReviewAction,
+  resolvedBy: string
+): Promise<ProfileReviewResolution> {
+  if (!profileReviewsRepository.configured) {
+    throw new ProfileReviewError('Profile reviews are not configured (PROFILE_REVIEWS_LIST_GUID)', 503);
+  }
+  const item = await profileReviewsRepository.getById(id);
+  if (!item) throw new ProfileReviewError('Review not found', 404);
+  if (reviewStatus(item) !== 'pending') throw new ProfileReviewError('Review has already been resolved', 409);
+
+  const profiles = validateArray(await profilesRepository.getAll(), validateProfile, 'Profile');
+  const profile = profiles.find(p => p.ID === item.ProfileID);
+  if (!profile) throw new ProfileReviewError('The matched profile no longer exists', 409);
+
+  let transfer: ProfileTransferResult | undefined;
+  let otherProfileId = item.OtherProfileID ?? undefined;
+  if (reviewKind(item) === 'clash') {
+    if (!otherProfileId || !profiles.some(p => p.ID === otherProfileId)) {
+      throw new ProfileReviewError('The clashing profile no longer exists', 409);
+    }
+    if (action === 'merge') {
+      transfer = await transferProfile(otherProfileId, profile.ID, { deleteAfter: true, addEmail: true });
+    }
+  } else if (action !== 'merge') {
+    otherProfileId = await splitNameMatch(item, profile);
+  }
+
+  const status = ACTION_STATUS[action];
+  const fields: Record<string, any> = {
+    Status: STATUS_VALUES[status],
+    ResolvedBy: resolvedBy,
+    Resolved: new Date().toISOString(),
+  };
+  if (otherProfileId !== undefined) fields.OtherProfileID = otherProfileId;
+  await profileReviewsRepository.update(id, fields);
+  console.log(`[Profile Review] ${id} (${item.Title}) resolved as ${status} by ${resolvedBy}`);
+
+  const [review] = (await listProfileReviews()).filter(r => r.id === id);
+  return { review, transfer };
+}
@@ -0,0 +1,83 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+
+vi.hoisted(() => {
+  for (const name of ['entries', 'profiles', 'regulars', 'records']) {
+    process.env[`${name.toUpperCase()}_LIST_GUID`] = name
+  }
+})
+
+vi.mock('./sharepoint-client', () => ({ sharePointClient: { clearCache: vi.fn() } }))
+vi.mock('./list-store', () => ({ listStore: { batchWrite: vi.fn() } }))
+vi.mock('./profile-stats', () => ({ computeAndSaveProfileStats: vi.fn(async () => undefined) }))
+vi.mock('./repositories/profiles-repository', () => ({
+  profilesRepository: { getAll: vi.fn(), updateFields: vi.fn(), delete: vi.fn() },
+}))
+vi.mock('./repositories/entries-repository', () => ({ entriesRepository: { getAll: vi.fn() } }))
+vi.mock('./repositories/regulars-repository', () => ({ regularsRepository: { getAll: vi.fn() } }))
+vi.mock('./repositories/records-repository', () => ({ recordsRepository: { getAll: vi.fn() } }))
+
+import { transferProfile } from './profile-transfer'
+import { listStore, type BatchWriteOp } from './list-store'
+import { profilesRepository } from './repositories/profiles-repository'
+import { entriesRepository } from './repositories/entries-repository'
+import { regularsRepository } from './repositories/regulars-repository'
+import { recordsRepository } from './repositories/records-repository'
+
+const stamp = { Created: '2026-01-01T00:00:00Z', Modified: '2026-01-01T00:00:00Z' }
+
+/** Source 1 is a duplicate of target 2; profile 3 is the source's child */
+function seed() {
+  vi.mocked(profilesRepository.getAll).mockResolvedValue([
+    { ID: 1, Title: 'Alex Smith', ...stamp },
+    { ID: 2, Title: 'Alex Smith', ...stamp },
+    { ID: 3, Title: 'Robin Smith', GuardianLookupId: '1', ...stamp },
+  ] as any)
+  vi.mocked(entriesRepository.getAll).mockResolvedValue([
+    { ID: 10, ProfileLookupId: '1', SessionLookupId: '5', ...stamp },
+    { ID: 11, ProfileLookupId: '3', SessionLookupId: '5', AccompanyingAdultLookupId: '1', ...stamp },
+    { ID: 12, ProfileLookupId: '2', SessionLookupId: '6', AccompanyingAdultLookupId: '1', ...stamp },
+  ] as any)
+  vi.mocked(regularsRepository.getAll).mockResolvedValue([
+    { ID: 20, ProfileLookupId: '1', GroupLookupId: '7', ...stamp },
+    { ID: 21, ProfileLookupId: '3', GroupLookupId: '7', AccompanyingAdultLookupId: '1', ...stamp },
+  ] as any)
+  vi.mocked(recordsRepository.getAll).mockResolvedValue([])
+}
+
+function opsFor(listGuid: string): BatchWriteOp[] {
+  return vi.mocked(listStore.batchWrite).mock.calls
+    .filter(([guid]) => guid === listGuid)
+    .flatMap(([, ops]) => ops)
+}
+
+describe('transferProfile', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.mocked(listStore.batchWrite).mockImplementation(async (_guid, ops) => ops.map(op => ({ ok: true as const, id: op.op === 'create' ? 0 : op.id })))
+    seed()
+  })
+
+  it('repoints children and accompanied entries and regulars from the source to the target', async () => {
+    const result = await transferProfile(1, 2, { deleteAfter: true })
+
+    expect(opsFor('profiles')).toEqual([{ op: 'update', id: 3, fields: { GuardianLookupId: '2' } }])
+    expect(opsFor('entries')).toContainEqual({ op: 'update', id: 11, fields: { AccompanyingAdultLookupId: '2' } })
+    expect(opsFor('regulars')).toContainEqual({ op: 'update', id: 21, fields: { AccompanyingAdultLookupId: '2' } })
+    expect(result.guardianLinksTransferred).toBe(4)
+    expect(profilesRepository.delete).toHaveBeenCalledWith(1)
+  })
+
+  it('clears a link that would point the target at itself', async () => {
+    await transferProfile(1, 2)
+
+    expect(opsFor('entries')).toContainEqual({ op: 'update', id: 12, fields: { AccompanyingAdultLookupId: null } })
+  })
+
+  it('keeps the source when a link cannot be repointed', async () => {
+    vi.mocked(listStore.batchWrite).mockImplementation(async (guid, ops) => ops.map(op =>
+      guid === 'profiles' ? { ok: false as const, error: 'Locked' } : { ok: true as const, id: op.op === 'create' ? 0 : op.id }))
+
+    await expect(transferProfile(1, 2, { deleteAfter: true })).rejects.toThrow('1 item(s) could not be transferred: Locked')
+    expect(profilesRepository.delete).not.toHaveBeenCalled()
+  })
+})
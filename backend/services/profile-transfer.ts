@@ -0,0 +1,199 @@
+/**
+ * Profile Transfer — move one volunteer profile's entries, regulars and consent records onto
+ * another. Used by POST /api/profiles/:slug/transfer and by the profile review queue's merge.
+ *
+ * Regulars and records the target already has (same group / same type) are deleted rather than
+ * duplicated. Links to the source as a parent or carer — children's Guardian, and AccompanyingAdult
+ * on entries and regulars — are repointed to the target, so a merge doesn't leave children linked
+ * to a deleted profile. Writes go in $batch round trips; if any item fails the source profile is left in
+ * place, so re-running the transfer picks up whatever is left.
+ */
+
+import { sharePointClient } from './sharepoint-client';
+import { listStore, type BatchWriteOp, type BatchWriteResult } from './list-store';
+import { computeAndSaveProfileStats } from './profile-stats';
+import { entriesRepository } from './repositories/entries-repository';
+import { profilesRepository } from './repositories/profiles-repository';
+import { regularsRepository } from './repositories/regulars-repository';
+import { recordsRepository } from './repositories/records-repository';
+import { validateArray, validateEntry, validateProfile, safeParseLookupId, profileSlug } from './data-layer';
+import { GROUP_LOOKUP, PROFILE_LOOKUP, PROFILE_GUARDIAN_LOOKUP, ACCOMPANYING_ADULT_LOOKUP } from './field-names';
+
+export interface ProfileTransferOptions {
+  /** Delete the source profile once everything has moved */
+  deleteAfter?: boolean;
+  /** Add the source's primary email to the target's emails */
+  addEmail?: boolean;
+}
+
+export interface ProfileTransferResult {
+  entriesTransferred: number;
+  regularsTransferred: number;
+  recordsTransferred: number;
+  /** Children's Guardian and entries' / regulars' AccompanyingAdult links moved to the target */
+  guardianLinksTransferred: number;
+  emailAdded: string | null;
+  emailAddError: string | null;
+  deleted: boolean;
+  targetSlug: string;
+}
+
+export class ProfileTransferError extends Error {
+  constructor(message: string, public readonly statusCode = 400) {
+    super(message);
+    this.name = 'ProfileTransferError';
+  }
+}
+
+export async function transferProfile(
+  sourceProfileId: number,
+  targetProfileId: number,
+  options: ProfileTransferOptions = {}
+): Promise<ProfileTransferResult> {
+  const [rawProfiles, rawEntries, rawRegulars, rawRecords] = await Promise.all([
+    profilesRepository.getAll(),
+    entriesRepository.getAll(),
+    regularsRepository.getAll(),
+    recordsRepository.getAll()
+  ]);
+
+  const profiles = validateArray(rawProfiles, validateProfile, 'Profile');
+  const sourceProfile = profiles.find(p => p.ID === sourceProfileId);
+  if (!sourceProfile) throw new ProfileTransferError('Source profile not found', 404);
+  const targetProfile = profiles.find(p => p.ID === targetProfileId);
+  if (!targetProfile) throw new ProfileTransferError('Target profile not found', 404);
+  if (sourceProfile.ID === targetProfile.ID) {
+    throw new ProfileTransferError('Source and target profiles must be different');
+  }
+
+  const entries = validateArray(rawEntries, validateEntry, 'Entry');
+  const sourceEntries = entries.filter(e => safeParseLookupId(e[PROFILE_LOOKUP]) === sourceProfile.ID);
+  const entriesListGuid = process.env.ENTRIES_LIST_GUID!;
+
+  // Writes go in $batch round trips; a failed item is collected and reported after all three lists
+  const failures: string[] = [];
+  const countOk = (results: BatchWriteResult[]) => {
+    for (const r of results) if (!r.ok) failures.push(r.error);
+    return results.filter(r => r.ok).length;
+  };
+
+  // Transfer entries
+  const entriesTransferred = countOk(await listStore.batchWrite(entriesListGuid, sourceEntries.map(entry => ({
+    op: 'update' as const,
+    id: entry.ID,
+    fields: { [PROFILE_LOOKUP]: String(targetProfile.ID) }
+  }))));
+
+  // Transfer regulars (skip if target already has the same group)
+  const sourceRegulars = rawRegulars.filter(r => safeParseLookupId(r[PROFILE_LOOKUP]) === sourceProfile.ID);
+  const targetRegularGroups = new Set(
+    rawRegulars
+      .filter(r => safeParseLookupId(r[PROFILE_LOOKUP]) === targetProfile.ID)
+      .map(r => safeParseLookupId(r[GROUP_LOOKUP]))
+      .filter((id): id is number => id !== undefined)
+  );
+  const regularsListGuid = process.env.REGULARS_LIST_GUID!;
+
+  const regularOps: BatchWriteOp[] = sourceRegulars.map(regular => {
+    const groupId = safeParseLookupId(regular[GROUP_LOOKUP]);
+    return groupId !== undefined && !targetRegularGroups.has(groupId)
+      ? { op: 'update', id: regular.ID, fields: { [PROFILE_LOOKUP]: String(targetProfile.ID) } }
+      : { op: 'delete', id: regular.ID };
+  });
+  const regularResults = await listStore.batchWrite(regularsListGuid, regularOps);
+  countOk(regularResults);
+  const regularsTransferred = regularResults.filter((r, i) => r.ok && regularOps[i].op === 'update').length;
+
+  // Transfer records (skip if target already has the same type)
+  const sourceRecords = rawRecords.filter(r =>
+    safeParseLookupId(r.ProfileLookupId as unknown as string) === sourceProfile.ID
+  );
+  const targetRecordTypes = new Set(
+    rawRecords
+      .filter(r => safeParseLookupId(r.ProfileLookupId as unknown as string) === targetProfile.ID)
+      .map(r => r.Type)
+  );
+  const recordsListGuid = process.env.RECORDS_LIST_GUID!;
+
+  const recordOps: BatchWriteOp[] = sourceRecords.map(record =>
+    !targetRecordTypes.has(record.Type)
+      ? { op: 'update', id: record.ID, fields: { ProfileLookupId: String(targetProfile.ID) } }
+      : { op: 'delete', id: record.ID }
+  );
+  const recordResults = await listStore.batchWrite(recordsListGuid, recordOps);
+  countOk(recordResults);
+  const recordsTransferred = recordResults.filter((r, i) => r.ok && recordOps[i].op === 'update').length;
+
+  // Repoint guardian and accompanying-adult links. An item owned by the source or target would end up
+  // linked to its own profile, so its link is cleared instead; regulars deleted above are skipped.
+  const linkFields = (ownerId: number | undefined, field: string) => ({
+    [field]: ownerId === sourceProfile.ID || ownerId === targetProfile.ID ? null : String(targetProfile.ID)
+  });
+  const deletedRegularIds = new Set(regularOps.filter(op => op.op === 'delete').map(op => op.id));
+  const profileLinkOps: BatchWriteOp[] = rawProfiles
+    .filter(p => safeParseLookupId(p[PROFILE_GUARDIAN_LOOKUP]) === sourceProfile.ID)
+    .map(p => ({ op: 'update', id: p.ID, fields: linkFields(p.ID, PROFILE_GUARDIAN_LOOKUP) }));
+  const entryLinkOps: BatchWriteOp[] = entries
+    .filter(e => safeParseLookupId(e[ACCOMPANYING_ADULT_LOOKUP]) === sourceProfile.ID)
+    .map(e => ({ op: 'update', id: e.ID, fields: linkFields(safeParseLookupId(e[PROFILE_LOOKUP]), ACCOMPANYING_ADULT_LOOKUP) }));
+  const regularLinkOps: BatchWriteOp[] = rawRegulars
+    .filter(r => safeParseLookupId(r[ACCOMPANYING_ADULT_LOOKUP]) === sourceProfile.ID && !deletedRegularIds.has(r.ID))
+    .map(r => ({ op: 'update', id: r.ID, fields: linkFields(safeParseLookupId(r[PROFILE_LOOKUP]), ACCOMPANYING_ADULT_LOOKUP) }));
+  const guardianLinksTransferred =
+    countOk(await listStore.batchWrite(process.env.PROFILES_LIST_GUID!, profileLinkOps)) +
+    countOk(await listStore.batchWrite(entriesListGuid, entryLinkOps)) +
+    countOk(await listStore.batchWrite(regularsListGuid, regularLinkOps));
+
+  // Leave the source profile in place so nothing is orphaned — re-running the transfer picks up the rest
+  if (failures.length > 0) {
+    sharePointClient.clearCache();
+    throw new Error(`${failures.length} item(s) could not be transferred: ${failures[0]}`);
+  }
+
+  // Add source primary email to target if requested — non-fatal: transfer already committed above
+  let emailAdded: string | null = null;
+  let emailAddError: string | null = null;
+  if (options.addEmail) {
+    try {
+      const sourceEmails = (sourceProfile.Email ?? '').split(',').map((e: string) => e.trim()).filter(Boolean);
+      const sourceEmail = sourceEmails[0];
+      if (sourceEmail) {
+        const targetEmails = (targetProfile.Email ?? '').split(',').map((e: string) => e.trim()).filter(Boolean);
+        if (!targetEmails.includes(sourceEmail)) {
+          await profilesRepository.updateFields(targetProfile.ID, {
+            Email: [...targetEmails, sourceEmail].join(',')
+          });
+          emailAdded = sourceEmail;
+        }
+      }
+    } catch (err: any) {
+      console.error('[Transfer] addEmail step failed (transfer already committed):', err);
+      emailAddError = 'Email could not be added — please add it manually on the target profile';
+    }
+  }
+
+  sharePointClient.clearCache();
+
+  // Delete source profile if requested
+  const deleted = !!options.deleteAfter;
+  if (deleted) {
+    await profilesRepository.delete(sourceProfile.ID);
+  }
+
+  // Update stats for target (all entries now belong to it); also source if kept
+  computeAndSaveProfileStats(targetProfile.ID).catch(err =>
+    console.error(`[Stats] Failed targeted profile update for target profile ${targetProfile.ID}:`, err)
+  );
+  if (!deleted) {
+    computeAndSaveProfileStats(sourceProfile.ID).catch(err =>
+      console.error(`[Stats] Failed targeted profile update for source profile ${sourceProfile.ID}:`, err)
+    );
+  }
+
+  console.log(`[Transfer] ${sourceProfile.Title} → ${targetProfile.Title}: ${entriesTransferred} entries, ${regularsTransferred} regulars, ${recordsTransferred} records, ${guardianLinksTransferred} guardian links${emailAdded ? `, email ${emailAdded} added` : ''}${deleted ? ', deleted source' : ''}`);
+
+  return {
+    entriesTransferred, regularsTransferred, recordsTransferred, guardianLinksTransferred, emailAdded, emailAddError, deleted,
+    targetSlug: profileSlug(targetProfile.Title, targetProfile.ID)
+  };
+}
@@ -0,0 +1,279 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import type { SharePointEntry, SharePointProfile, SharePointRegular } from '../../types/sharepoint'
+import type { SharePointGroup } from '../../types/group'
+
+vi.mock('./repositories/groups-repository', () => ({
+  groupsRepository: { getAll: vi.fn() }
+}))
+
+vi.mock('./repositories/sessions-repository', () => ({
+  sessionsRepository: { getAll: vi.fn(), getById: vi.fn() }
+}))
+
+vi.mock('./repositories/entries-repository', () => ({
+  entriesRepository: { getById: vi.fn(), getBySessionIds: vi.fn(), updateMany: vi.fn(), updateFields: vi.fn(), create: vi.fn() }
+}))
+
+vi.mock('./repositories/profiles-repository', () => ({
+  profilesRepository: { getAll: vi.fn() }
+}))
+
+vi.mock('./repositories/regulars-repository', () => ({
+  regularsRepository: { getAll: vi.fn() }
+}))
+
+vi.mock('./mail-transport', async importOriginal => ({
+  ...(await importOriginal<typeof import('./mail-transport')>()),
+  sendEmail: vi.fn()
+}))
+
+vi.mock('./waitlist', () => ({
+  bookingFits: vi.fn(),
+  promoteFromWaitlist: vi.fn()
+}))
+
+vi.mock('./session-stats', () => ({
+  computeAndSaveSessionStats: vi.fn(),
+  preservedMediaFromStats: vi.fn()
+}))
+
+vi.mock('./profile-stats', () => ({
+  computeAndSaveProfileStats: vi.fn()
+}))
+
+vi.mock('./webhooks', () => ({
+  emitEntryEvent: vi.fn()
+}))
+
+import {
+  rsvpToken, verifyRsvpToken, rsvpState, dueRsvpEmails, groupSessionRsvps, answerRsvp, runRegularRsvpEmails, RsvpError
+} from './regular-rsvp'
+import { sessionsRepository } from './repositories/sessions-repository'
+import { entriesRepository } from './repositories/entries-repository'
+import { groupsRepository } from './repositories/groups-repository'
+import { profilesRepository } from './repositories/profiles-repository'
+import { regularsRepository } from './repositories/regulars-repository'
+import { sendEmail } from './mail-transport'
+import { utcToLocalDate } from './sharepoint-client'
+import { bookingFits, promoteFromWaitlist } from './waitlist'
+import { computeAndSaveSessionStats } from './session-stats'
+import { computeAndSaveProfileStats } from './profile-stats'
+import { emitEntryEvent } from './webhooks'
+
+const TODAY = '2026-06-10'
+
+function group(id: number, schedule: object | null): SharePointGroup {
+  return { ID: id, Title: `G${id}`, Name: `Group ${id}`, EmailSchedule: schedule ? JSON.stringify(schedule) : undefined, Created: '', Modified: '' }
+}
+
+function session(id: number, date: string, overrides: Record<string, any> = {}): any {
+  return { ID: id, Title: `${date} g1`, Date: date, GroupLookupId: '1', Created: '', Modified: '', ...overrides }
+}
+
+function entry(id: number, sessionId: number, profileId: number, overrides: Partial<SharePointEntry> = {}): SharePointEntry {
+  return { ID: id, SessionLookupId: String(sessionId), ProfileLookupId: String(profileId), Profile: `Person ${profileId}`, Created: '', Modified: '', ...overrides }
+}
+
+function regular(id: number, profileId: number, overrides: Partial<SharePointRegular> = {}): SharePointRegular {
+  return { ID: id, GroupLookupId: '1', ProfileLookupId: String(profileId), Created: '', Modified: '', ...overrides }
+}
+
+function profile(id: number, overrides: Partial<SharePointProfile> = {}): SharePointProfile {
+  return { ID: id, Title: `Person ${id}`, Email: `p${id}@example.org`, Created: '', Modified: '', ...overrides }
+}
+
+beforeEach(() => {
+  vi.clearAllMocks()
+  vi.mocked(computeAndSaveSessionStats).mockResolvedValue(undefined as any)
+  vi.mocked(computeAndSaveProfileStats).mockResolvedValue(undefined as any)
+  vi.mocked(entriesRepository.updateMany).mockImplementation(async updates => updates.map(u => ({ ok: true as const, id: u.id })))
+  vi.mocked(entriesRepository.updateFields).mockResolvedValue(undefined)
+  vi.mocked(groupsRepository.getAll).mockResolvedValue([group(1, { rsvpDaysBefore: 5 })])
+})
+
+describe('rsvp tokens', () => {
+  it('round-trips the entry ID and rejects tampered tokens', () => {
+    const token = rsvpToken(123)
+    expect(verifyRsvpToken(token)).toBe(123)
+    expect(verifyRsvpToken(token.replace(/^123/, '124'))).toBeUndefined()
+    expect(verifyRsvpToken('123-abc')).toBeUndefined()
+    expect(verifyRsvpToken('nonsense')).toBeUndefined()
+  })
+})
+
+describe('rsvpState', () => {
+  it('reads the answer, the cancellation and whether the email went', () => {
+    expect(rsvpState(undefined)).toBe('not-asked')
+    expect(rsvpState(entry(1, 10, 42))).toBe('not-asked')
+    expect(rsvpState(entry(1, 10, 42, { EmailsSent: '{"regular-rsvp":"2026-06-05T20:00:00Z"}' }))).toBe('awaiting')
+    expect(rsvpState(entry(1, 10, 42, { Rsvp: 'Coming' }))).toBe('coming')
+    expect(rsvpState(entry(1, 10, 42, { Rsvp: 'Declined' }))).toBe('declined')
+    expect(rsvpState(entry(1, 10, 42, { Cancelled: '2026-06-05T20:00:00Z' }))).toBe('declined')
+  })
+})
+
+describe('dueRsvpEmails', () => {
+  const groups = [group(1, { preTemplate: null, rsvpDaysBefore: 3 }), group(2, null)]
+
+  it('asks adult regulars about sessions inside the window, not on the day', () => {
+    const sessions = [session(10, '2026-06-13'), session(11, '2026-06-14'), session(12, '2026-06-10'), session(13, '2026-06-12', { GroupLookupId: '2' })]
+    const regulars = [regular(1, 42), regular(2, 43, { AccompanyingAdultLookupId: 42 }), regular(3, 44, { GroupLookupId: '2' })]
+    const due = dueRsvpEmails(TODAY, groups, sessions, [], regulars, [profile(42), profile(43), profile(44)])
+    expect(due.map(d => [d.session.ID, d.profile.ID, d.to, d.children.map(c => c.ID), d.entry])).toEqual([
+      [10, 42, 'p42@example.org', [2], undefined],
+    ])
+  })
+
+  it('skips regulars who were asked, answered, cancelled, are waitlisted or have no email', () => {
+    const sessions = [session(10, '2026-06-12'), session(11, '2026-06-13', { Cancelled: '2026-06-01T00:00:00Z' })]
+    const regulars = [1, 2, 3, 4, 5, 6].map(n => regular(n, 40 + n))
+    const entries = [
+      entry(1, 10, 41, { EmailsSent: '{"regular-rsvp":"2026-06-09T20:00:00Z"}' }),
+      entry(2, 10, 42, { Rsvp: 'Coming' }),
+      entry(3, 10, 43, { Cancelled: '2026-06-08T00:00:00Z' }),
+      entry(4, 10, 44, { Waitlisted: '2026-06-08T00:00:00Z' }),
+      entry(5, 10, 45),
+    ]
+    const profiles = [41, 42, 43, 44, 45].map(id => profile(id)).concat(profile(46, { Email: '' }))
+    const due = dueRsvpEmails(TODAY, groups, sessions, entries, regulars, profiles)
+    expect(due.map(d => [d.session.ID, d.entry?.ID])).toEqual([[10, 5]])
+  })
+})
+
+describe('groupSessionRsvps', () => {
+  it('lists every regular, children included, with their live state', () => {
+    const sessions = [session(11, '2026-06-13'), session(10, '2026-06-12'), session(9, '2026-06-30')]
+    const regulars = [regular(1, 42), regular(2, 43, { AccompanyingAdultLookupId: 42 })]
+    const entries = [entry(1, 10, 42, { Rsvp: 'Coming' }), entry(2, 10, 43, { Cancelled: '2026-06-09T00:00:00Z' })]
+    const rows = groupSessionRsvps(TODAY, group(1, { rsvpDaysBefore: 5 }), sessions, entries, regulars, [profile(42), profile(43)])
+    expect(rows.map(r => [r.sessionId, r.regulars.map(x => [x.profileId, x.state])])).toEqual([
+      [10, [[42, 'coming'], [43, 'declined']]],
+      [11, [[42, 'not-asked'], [43, 'not-asked']]],
+    ])
+  })
+})
+
+describe('runRegularRsvpEmails', () => {
+  it('books the regular and their child, then emails the adult with both links', async () => {
+    const today = utcToLocalDate(new Date().toISOString())
+    const date = new Date(Date.parse(today) + 2 * 24 * 60 * 60 * 1000).toISOString().slice(0, 10)
+    vi.mocked(sessionsRepository.getAll).mockResolvedValue([session(10, date)])
+    vi.mocked(profilesRepository.getAll).mockResolvedValue([profile(42), profile(43)])
+    vi.mocked(regularsRepository.getAll).mockResolvedValue([regular(1, 42), regular(2, 43, { AccompanyingAdultLookupId: 42 })])
+    vi.mocked(entriesRepository.getBySessionIds).mockResolvedValue([])
+    vi.mocked(entriesRepository.create).mockResolvedValueOnce(101).mockResolvedValueOnce(102)
+    vi.mocked(sendEmail).mockResolvedValue(undefined as any)
+
+    const result = await runRegularRsvpEmails('https://tracker.example.org')
+
+    expect(result).toEqual({ sent: 1, failed: 0, booked: 2, errors: [] })
+    expect(entriesRepository.create).toHaveBeenCalledWith({ SessionLookupId: '10', ProfileLookupId: '43', Labels: ['Regular'], AccompanyingAdultLookupId: '42' })
+    const email = vi.mocked(sendEmail).mock.calls[0][0]
+    expect(email.to).toBe('p42@example.org')
+    expect(email.text).toContain(`https://tracker.example.org/rsvp/${rsvpToken(101)}?answer=coming`)
+    expect(email.text).toContain(`https://tracker.example.org/rsvp/${rsvpToken(101)}?answer=declined`)
+    expect(entriesRepository.updateFields).toHaveBeenCalledWith(101, { EmailsSent: expect.stringContaining('regular-rsvp') })
+  })
+})
+
+describe('answerRsvp', () => {
+  const SESSION = session(10, '2099-06-14', { Stats: undefined })
+
+  beforeEach(() => {
+    vi.mocked(sessionsRepository.getById).mockResolvedValue(SESSION)
+  })
+
+  it('rejects a token that does not verify', async () => {
+    await expect(answerRsvp('1-00000000000000000000000000000000', 'coming', '')).rejects.toMatchObject({ statusCode: 404 })
+    expect(entriesRepository.getById).not.toHaveBeenCalled()
+  })
+
+  it('records a yes', async () => {
+    vi.mocked(entriesRepository.getById).mockResolvedValue(entry(1, 10, 42))
+
+    const result = await answerRsvp(rsvpToken(1), 'coming', '')
+
+    expect(entriesRepository.updateFields).toHaveBeenCalledWith(1, { Rsvp: 'Coming' })
+    expect(result).toMatchObject({ state: 'coming', open: true, groupKey: 'g1', groupName: 'Group 1', date: '2099-06-14' })
+  })
+
+  it('cancels the regular and their children on a no, and offers the place to the waitlist', async () => {
+    vi.mocked(entriesRepository.getById).mockResolvedValue(entry(1, 10, 42))
+    vi.mocked(entriesRepository.getBySessionIds).mockResolvedValue([
+      entry(1, 10, 42),
+      entry(2, 10, 43, { AccompanyingAdultLookupId: 42 }),
+      entry(3, 10, 44),
+    ])
+
+    const result = await answerRsvp(rsvpToken(1), 'declined', 'https://tracker.example.org')
+
+    expect(entriesRepository.updateMany).toHaveBeenCalledWith([
+      { id: 1, fields: { Cancelled: expect.any(String), Rsvp: 'Declined' } },
+      { id: 2, fields: { Cancelled: expect.any(String) } },
+    ])
+    expect(emitEntryEvent).toHaveBeenCalledTimes(2)
+    expect(promoteFromWaitlist).toHaveBeenCalledWith(10, 'https://tracker.example.org')
+    expect(computeAndSaveProfileStats).toHaveBeenCalledWith(43)
+    expect(result.state).toBe('declined')
+  })
+
+  it('gives the place back on a change of mind only while it still fits', async () => {
+    vi.mocked(entriesRepository.getById).mockResolvedValue(entry(1, 10, 42, { Cancelled: '2099-06-01T00:00:00Z', Rsvp: 'Declined' }))
+    vi.mocked(entriesRepository.getBySessionIds).mockResolvedValue([])
+    vi.mocked(bookingFits).mockResolvedValue(false)
+
+    await expect(answerRsvp(rsvpToken(1), 'coming', '')).rejects.toMatchObject({ statusCode: 409 })
+    expect(entriesRepository.updateMany).not.toHaveBeenCalled()
+
+    vi.mocked(bookingFits).mockResolvedValue(true)
+    const result = await answerRsvp(rsvpToken(1), 'coming', '')
+    expect(entriesRepository.updateMany).toHaveBeenCalledWith([{ id: 1, fields: { Cancelled: null, Rsvp: 'Coming' } }])
+    expect(result.state).toBe('coming')
+  })
+
+  it('brings back the children cancelled with the decline, checking their places fit too', async () => {
+    const declinedAt = '2099-06-01T00:00:00Z'
+    vi.mocked(entriesRepository.getById).mockResolvedValue(entry(1, 10, 42, { Cancelled: declinedAt, Rsvp: 'Declined' }))
+    const sessionEntries = [
+      entry(1, 10, 42, { Cancelled: declinedAt, Rsvp: 'Declined' }),
+      entry(2, 10, 43, { AccompanyingAdultLookupId: 42, Cancelled: declinedAt }),
+      entry(3, 10, 45, { AccompanyingAdultLookupId: 42, Cancelled: '2099-05-20T00:00:00Z' }),
+      entry(4, 10, 44, { Cancelled: declinedAt }),
+    ]
+    vi.mocked(entriesRepository.getBySessionIds).mockResolvedValue(sessionEntries)
+    vi.mocked(bookingFits).mockResolvedValue(true)
+
+    await answerRsvp(rsvpToken(1), 'coming', '')
+
+    expect(bookingFits).toHaveBeenCalledWith(SESSION, 42, sessionEntries, 1, 1)
+    expect(entriesRepository.updateMany).toHaveBeenCalledWith([
+      { id: 1, fields: { Cancelled: null, Rsvp: 'Coming' } },
+      { id: 2, fields: { Cancelled: null } },
+    ])
+    expect(emitEntryEvent).toHaveBeenCalledWith('entry.booked', expect.objectContaining({ entryId: 2, profileId: 43 }))
+    expect(computeAndSaveProfileStats).toHaveBeenCalledWith(43)
+  })
+
+  it('keeps promoting from the waitlist while a family decline leaves places free', async () => {
+    vi.mocked(entriesRepository.getById).mockResolvedValue(entry(1, 10, 42))
+    vi.mocked(entriesRepository.getBySessionIds).mockResolvedValue([
+      entry(1, 10, 42),
+      entry(2, 10, 43, { AccompanyingAdultLookupId: 42 }),
+      entry(3, 10, 44, { AccompanyingAdultLookupId: 42 }),
+    ])
+    vi.mocked(promoteFromWaitlist).mockResolvedValueOnce(7).mockResolvedValueOnce(8).mockResolvedValueOnce(undefined)
+
+    await answerRsvp(rsvpToken(1), 'declined', 'https://tracker.example.org')
+
+    expect(promoteFromWaitlist).toHaveBeenCalledTimes(3)
+  })
+
+  it('refuses cancelled and past sessions', async () => {
+    vi.mocked(entriesRepository.getById).mockResolvedValue(entry(1, 10, 42))
+    vi.mocked(sessionsRepository.getById).mockResolvedValueOnce({ ...SESSION, Cancelled: '2099-06-01T00:00:00Z' })
+    await expect(answerRsvp(rsvpToken(1), 'declined', '')).rejects.toThrow(RsvpError)
+    vi.mocked(sessionsRepository.getById).mockResolvedValueOnce(session(10, '2000-01-01'))
+    await expect(answerRsvp(rsvpToken(1), 'declined', '')).rejects.toThrow('Session has already passed')
+    expect(entriesRepository.updateMany).not.toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,459 @@
+/**
+ * Regulars RSVP — regulars are booked onto their group's sessions without being asked, so the only
+ * sign one wasn't coming used to be a cancellation after the fact (cancelledRegular), and their place
+ * was held from everyone else until then.
+ *
+ * A group opts in with rsvpDaysBefore in its EmailSchedule. The nightly run then books the group's
+ * regulars onto sessions within that many days (as the session refresh does) and sends each adult
+ * regular the regular-rsvp email with two links — "I'm coming" and "Can't make it". The links carry
+ * a signed token for the entry, `{entryId}-{hmac}` signed with SESSION_SECRET, so no login is needed.
+ * They open the RSVP page, which records the answer with POST /api/rsvp/:token — mail scanners
+ * follow links with GET, so opening a link never changes anything by itself.
+ *
+ * The answer is stored on the entry (ENTRY_RSVP). Declining cancels the entry and those of the
+ * children booked with the regular, which frees the place (cancelledRegular) and offers it to the
+ * waitlist, promoting as many as now fit. A regular who changes their mind gets their place back,
+ * and those of the children cancelled with it, while they all still fit.
+ */
+
+import crypto from 'crypto';
+import { groupsRepository } from './repositories/groups-repository';
+import { sessionsRepository } from './repositories/sessions-repository';
+import { entriesRepository } from './repositories/entries-repository';
+import { profilesRepository } from './repositories/profiles-repository';
+import { regularsRepository } from './repositories/regulars-repository';
+import { entryHeadcount, isSessionCancelled, parseEmails, profileSlug, safeParseLookupId } from './data-layer';
+import { utcToLocalDate } from './sharepoint-client';
+import { buildRegularRsvpVars } from './email-vars';
+import { renderEmail } from './email-renderer';
+import { sendEmail, EmailRateLimitError } from './mail-transport';
+import { MAX_DAYS_BEFORE, markSessionEmailSent, parseEmailSchedule, parseEmailsSent } from './session-email-scheduler';
+import { bookingFits, promoteFromWaitlist } from './waitlist';
+import { computeAndSaveSessionStats, preservedMediaFromStats } from './session-stats';
+import { computeAndSaveProfileStats } from './profile-stats';
+import { emitEntryEvent } from './webhooks';
+import {
+  GROUP_LOOKUP, SESSION_LOOKUP, PROFILE_LOOKUP, PROFILE_DISPLAY, ACCOMPANYING_ADULT_LOOKUP,
+  ENTRY_CANCELLED, ENTRY_WAITLISTED, ENTRY_LABELS, ENTRY_EMAILS_SENT, ENTRY_RSVP,
+  GROUP_EMAIL_SCHEDULE, SESSION_STATS
+} from './field-names';
+import type { SharePointEntry, SharePointProfile, SharePointRegular } from '../../types/sharepoint';
+import type { SharePointSession } from '../../types/session';
+import type { SharePointGroup } from '../../types/group';
+import type { GroupSessionRsvpResponse, RsvpResponse, RsvpState } from '../../types/api-responses';
+
+export const REGULAR_RSVP_TEMPLATE = 'regular-rsvp';
+
+/** ENTRY_RSVP choice values */
+export const RSVP_COMING = 'Coming';
+export const RSVP_DECLINED = 'Declined';
+
+export type RsvpAnswer = 'coming' | 'declined';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export class RsvpError extends Error {
+  constructor(message: string, public readonly statusCode = 400) {
+    super(message);
+    this.name = 'RsvpError';
+  }
+}
+
+function rsvpSecret(): string {
+  return process.env.SESSION_SECRET || 'dev-secret-change-in-production';
+}
+
+function tokenSignature(entryId: number): string {
+  return crypto.createHmac('sha256', rsvpSecret()).update(`rsvp:${entryId}`).digest('hex').slice(0, 32);
+}
+
+/** RSVP token for an entry — `{entryId}-{signature}`. */
+export function rsvpToken(entryId: number): string {
+  return `${entryId}-${tokenSignature(entryId)}`;
+}
+
+/** Returns the entry ID for a valid RSVP token, or undefined. */
+export function verifyRsvpToken(token: string): number | undefined {
+  const match = /^(\d+)-([0-9a-f]{32})$/.exec(token);
+  if (!match) return undefined;
+  const entryId = parseInt(match[1], 10);
+  const expected = Buffer.from(tokenSignature(entryId));
+  const given = Buffer.from(match[2]);
+  return crypto.timingSafeEqual(expected, given) ? entryId : undefined;
+}
+
+/** The RSVP page link for an answer, as used in the email */
+export function rsvpUrl(baseUrl: string, entryId: number, answer: RsvpAnswer): string {
+  return `${baseUrl}/rsvp/${rsvpToken(entryId)}?answer=${answer}`;
+}
+
+/** Validates a request body answer */
+export function parseRsvpAnswer(value: unknown): RsvpAnswer {
+  if (value !== 'coming' && value !== 'declined') throw new RsvpError('answer must be coming or declined');
+  return value;
+}
+
+/** A regular's RSVP state from their entry on the session (undefined = not booked) */
+export function rsvpState(entry: SharePointEntry | undefined): RsvpState {
+  if (!entry) return 'not-asked';
+  if (entry[ENTRY_CANCELLED] || entry[ENTRY_RSVP] === RSVP_DECLINED) return 'declined';
+  if (entry[ENTRY_RSVP] === RSVP_COMING) return 'coming';
+  return parseEmailsSent(entry[ENTRY_EMAILS_SENT])[REGULAR_RSVP_TEMPLATE] ? 'awaiting' : 'not-asked';
+}
+
+function daysBetween(fromDate: string, toDate: string): number {
+  return Math.round((Date.parse(toDate) - Date.parse(fromDate)) / DAY_MS);
+}
+
+/** The group's sessions inside its RSVP window — tomorrow up to rsvpDaysBefore days ahead, not cancelled */
+export function rsvpWindowSessions(today: string, group: SharePointGroup, sessions: SharePointSession[]): SharePointSession[] {
+  const rsvpDaysBefore = parseEmailSchedule(group[GROUP_EMAIL_SCHEDULE])?.rsvpDaysBefore;
+  if (rsvpDaysBefore === undefined) return [];
+  return sessions.filter(s => {
+    if (!s.Date || isSessionCancelled(s) || safeParseLookupId(s[GROUP_LOOKUP]) !== group.ID) return false;
+    const days = daysBetween(today, s.Date.slice(0, 10));
+    return days > 0 && days <= rsvpDaysBefore;
+  });
+}
+
+/** Live RSVP state of the group's regulars (children too) for each session in its RSVP window, soonest first */
+export function groupSessionRsvps(
+  today: string,
+  group: SharePointGroup,
+  sessions: SharePointSession[],
+  entries: SharePointEntry[],
+  regulars: SharePointRegular[],
+  profiles: SharePointProfile[]
+): GroupSessionRsvpResponse[] {
+  const profilesById = new Map(profiles.map(p => [p.ID, p]));
+  const groupRegulars = regulars.filter(r => safeParseLookupId(r[GROUP_LOOKUP]) === group.ID);
+  return rsvpWindowSessions(today, group, sessions)
+    .sort((a, b) => a.Date.localeCompare(b.Date))
+    .map(session => {
+      const sessionEntries = entries.filter(e => safeParseLookupId(e[SESSION_LOOKUP]) === session.ID);
+      const rows = groupRegulars.flatMap(r => {
+        const profile = profilesById.get(safeParseLookupId(r[PROFILE_LOOKUP]) ?? -1);
+        if (!profile) return [];
+        const entry = sessionEntries.find(e => safeParseLookupId(e[PROFILE_LOOKUP]) === profile.ID);
+        const name = profile.Title || '';
+        return [{ profileId: profile.ID, name, slug: profileSlug(name, profile.ID), state: rsvpState(entry) }];
+      });
+      return {
+        sessionId: session.ID,
+        date: session.Date.slice(0, 10),
+        displayName: session.Name || undefined,
+        regulars: rows.sort((a, b) => a.name.localeCompare(b.name)),
+      };
+    });
+}
+
+export interface DueRsvpEmail {
+  session: SharePointSession;
+  group: SharePointGroup;
+  regular: SharePointRegular;
+  /** Regulars who come with this one — booked alongside them if they aren't already */
+  children: SharePointRegular[];
+  profile: SharePointProfile;
+  to: string;
+  /** The regular's booking, when the session refresh has already made it */
+  entry?: SharePointEntry;
+}
+
+/**
+ * Which RSVP emails are due tonight. Pure — today is the site-local YYYY-MM-DD.
+ * Only adult regulars are asked; a regular who has cancelled, answered or been asked already is skipped.
+ */
+export function dueRsvpEmails(
+  today: string,
+  groups: SharePointGroup[],
+  sessions: SharePointSession[],
+  entries: SharePointEntry[],
+  regulars: SharePointRegular[],
+  profiles: SharePointProfile[]
+): DueRsvpEmail[] {
+  const profilesById = new Map(profiles.map(p => [p.ID, p]));
+  const due: DueRsvpEmail[] = [];
+  for (const group of groups) {
+    const windowSessions = rsvpWindowSessions(today, group, sessions);
+    if (windowSessions.length === 0) continue;
+    const groupRegulars = regulars.filter(r => safeParseLookupId(r[GROUP_LOOKUP]) === group.ID);
+
+    for (const session of windowSessions) {
+      const sessionEntries = entries.filter(e => safeParseLookupId(e[SESSION_LOOKUP]) === session.ID);
+      for (const regular of groupRegulars) {
+        if (safeParseLookupId(regular[ACCOMPANYING_ADULT_LOOKUP]) !== undefined) continue;
+        const profileId = safeParseLookupId(regular[PROFILE_LOOKUP]);
+        if (profileId === undefined) continue;
+        const entry = sessionEntries.find(e => safeParseLookupId(e[PROFILE_LOOKUP]) === profileId);
+        if (entry && (entry[ENTRY_WAITLISTED] || rsvpState(entry) !== 'not-asked')) continue;
+        const profile = profilesById.get(profileId);
+        const to = profile ? parseEmails(profile.Email)[0] : undefined;
+        if (!profile || !to) continue;
+        const children = groupRegulars.filter(r => safeParseLookupId(r[ACCOMPANYING_ADULT_LOOKUP]) === profileId);
+        due.push({ session, group, regular, children, profile, to, entry });
+      }
+    }
+  }
+  return due;
+}
+
+/**
+ * Book the regulars who aren't on the session yet, as the session refresh does. Created entries are
+ * added to sessionEntries so the email can name the children.
+ */
+async function bookRegulars(
+  session: SharePointSession,
+  regulars: SharePointRegular[],
+  sessionEntries: SharePointEntry[],
+  profilesById: Map<number, SharePointProfile>
+): Promise<SharePointEntry[]> {
+  const created: SharePointEntry[] = [];
+  for (const regular of regulars) {
+    const profileId = safeParseLookupId(regular[PROFILE_LOOKUP]);
+    if (profileId === undefined || sessionEntries.some(e => safeParseLookupId(e[PROFILE_LOOKUP]) === profileId)) continue;
+    const fields: Record<string, any> = {
+      [SESSION_LOOKUP]: String(session.ID),
+      [PROFILE_LOOKUP]: String(profileId),
+      [ENTRY_LABELS]: ['Regular'],
+    };
+    const adultId = safeParseLookupId(regular[ACCOMPANYING_ADULT_LOOKUP]);
+    if (adultId !== undefined) fields[ACCOMPANYING_ADULT_LOOKUP] = String(adultId);
+    const entryId = await entriesRepository.create(fields);
+    emitEntryEvent('entry.booked', { entryId, sessionId: session.ID, profileId, waitlisted: false });
+    const entry: SharePointEntry = {
+      ...fields,
+      ID: entryId,
+      [PROFILE_DISPLAY]: profilesById.get(profileId)?.Title,
+      Created: '',
+      Modified: '',
+    };
+    sessionEntries.push(entry);
+    created.push(entry);
+  }
+  return created;
+}
+
+export interface RsvpEmailResult {
+  sent: number;
+  failed: number;
+  /** Regular entries created for the emails */
+  booked: number;
+  errors: string[];
+}
+
+/** Nightly run step — book and email every regular due an RSVP, stamping each entry as it goes. */
+export async function runRegularRsvpEmails(baseUrl: string): Promise<RsvpEmailResult> {
+  const result: RsvpEmailResult = { sent: 0, failed: 0, booked: 0, errors: [] };
+  const groups = await groupsRepository.getAll();
+  if (!groups.some(g => parseEmailSchedule(g[GROUP_EMAIL_SCHEDULE])?.rsvpDaysBefore !== undefined)) return result;
+
+  const today = utcToLocalDate(new Date().toISOString());
+  const [sessions, profiles, regulars] = await Promise.all([
+    sessionsRepository.getAll(),
+    profilesRepository.getAll(),
+    regularsRepository.getAll(),
+  ]);
+
+  const candidateIds = sessions
+    .filter(s => {
+      if (!s.Date) return false;
+      const days = daysBetween(today, s.Date.slice(0, 10));
+      return days > 0 && days <= MAX_DAYS_BEFORE;
+    })
+    .map(s => s.ID);
+  if (candidateIds.length === 0) return result;
+
+  const entries = await entriesRepository.getBySessionIds(candidateIds);
+  const due = dueRsvpEmails(today, groups, sessions, entries, regulars, profiles);
+  const profilesById = new Map(profiles.map(p => [p.ID, p]));
+  const bookedSessions = new Map<number, SharePointSession>();
+  const bookedProfileIds = new Set<number>();
+
+  for (const item of due) {
+    try {
+      const sessionEntries = entries.filter(e => safeParseLookupId(e[SESSION_LOOKUP]) === item.session.ID);
+      const created = await bookRegulars(item.session, [item.regular, ...item.children], sessionEntries, profilesById);
+      entries.push(...created);
+      result.booked += created.length;
+      if (created.length) bookedSessions.set(item.session.ID, item.session);
+      for (const e of created) bookedProfileIds.add(safeParseLookupId(e[PROFILE_LOOKUP]) as number);
+
+      const entry = item.entry ?? sessionEntries.find(e => safeParseLookupId(e[PROFILE_LOOKUP]) === item.profile.ID)!;
+      const vars = buildRegularRsvpVars(entry, item.session, item.profile, item.group, sessionEntries, {
+        coming: rsvpUrl(baseUrl, entry.ID, 'coming'),
+        declined: rsvpUrl(baseUrl, entry.ID, 'declined'),
+      }, baseUrl);
+      const { subject, html, text } = await renderEmail(REGULAR_RSVP_TEMPLATE, vars);
+
+      // Stamped before sending, rolled back if the send fails — as the scheduled session emails
+      const previous = entry[ENTRY_EMAILS_SENT] ?? null;
+      await markSessionEmailSent(entry, REGULAR_RSVP_TEMPLATE);
+      try {
+        await sendEmail({ to: item.to, subject, html, text });
+      } catch (sendErr) {
+        await entriesRepository.updateFields(entry.ID, { [ENTRY_EMAILS_SENT]: previous }).catch(err =>
+          console.error(`[RSVP] Failed to roll back EmailsSent on entry ${entry.ID}:`, err.message)
+        );
+        entry[ENTRY_EMAILS_SENT] = previous ?? undefined;
+        throw sendErr;
+      }
+      result.sent++;
+    } catch (err: any) {
+      result.failed++;
+      result.errors.push(`session ${item.session.ID} profile ${item.profile.ID}: ${err.message}`);
+      console.error(`[RSVP] Failed for session ${item.session.ID} profile ${item.profile.ID}:`, err.message);
+      if (err instanceof EmailRateLimitError) break;
+    }
+  }
+
+  await Promise.all([...bookedProfileIds].map(id =>
+    computeAndSaveProfileStats(id).catch(err => console.error(`[Stats] Failed profile stats for profile ${id}:`, err))
+  ));
+  await Promise.all([...bookedSessions.values()].map(s =>
+    computeAndSaveSessionStats(s.ID, preservedMediaFromStats(s[SESSION_STATS])).catch(err =>
+      console.error(`[Stats] Failed session stats for session ${s.ID}:`, err)
+    )
+  ));
+
+  console.log(`[RSVP] ${result.sent} sent, ${result.failed} failed, ${result.booked} regulars booked`);
+  return result;
+}
+
+async function loadRsvp(token: string): Promise<{ entry: SharePointEntry; session: SharePointSession; group?: SharePointGroup }> {
+  const entryId = verifyRsvpToken(token);
+  if (entryId === undefined) throw new RsvpError('This link is not valid', 404);
+  const entry = await entriesRepository.getById(entryId);
+  if (!entry) throw new RsvpError('This booking no longer exists', 404);
+  const sessionId = safeParseLookupId(entry[SESSION_LOOKUP]);
+  const session = sessionId !== undefined ? await sessionsRepository.getById(sessionId) : null;
+  if (!session) throw new RsvpError('Session not found', 404);
+  const groups = await groupsRepository.getAll();
+  const group = groups.find(g => g.ID === safeParseLookupId(session[GROUP_LOOKUP]));
+  return { entry, session, group };
+}
+
+function toRsvpResponse(entry: SharePointEntry, session: SharePointSession, group: SharePointGroup | undefined): RsvpResponse {
+  const today = utcToLocalDate(new Date().toISOString());
+  const cancelled = isSessionCancelled(session) ? session.Cancelled : undefined;
+  return {
+    volunteerName: String(entry[PROFILE_DISPLAY] || '').trim(),
+    groupKey: (group?.Title || '').toLowerCase(),
+    groupName: group?.Name || group?.Title || '',
+    date: session.Date.slice(0, 10),
+    displayName: session.Name || undefined,
+    state: rsvpState(entry),
+    open: !cancelled && session.Date.slice(0, 10) >= today,
+    ...(cancelled && { cancelled }),
+  };
+}
+
+/** The booking an RSVP link points at */
+export async function getRsvp(token: string): Promise<RsvpResponse> {
+  const { entry, session, group } = await loadRsvp(token);
+  return toRsvpResponse(entry, session, group);
+}
+
+/**
+ * Record a regular's answer — see the module comment. Answering the same way twice changes nothing.
+ * A "coming" after a decline only gets the place back while it still fits.
+ */
+export async function answerRsvp(token: string, answer: RsvpAnswer, baseUrl: string): Promise<RsvpResponse> {
+  const { entry, session, group } = await loadRsvp(token);
+  if (isSessionCancelled(session)) throw new RsvpError('Session has been cancelled');
+  const today = utcToLocalDate(new Date().toISOString());
+  if (session.Date.slice(0, 10) < today) throw new RsvpError('Session has already passed');
+
+  const profileId = safeParseLookupId(entry[PROFILE_LOOKUP]);
+  if (answer === 'declined' && !entry[ENTRY_CANCELLED]) {
+    const sessionEntries = await entriesRepository.getBySessionIds([session.ID]);
+    const children = profileId === undefined ? [] : sessionEntries.filter(e =>
+      !e[ENTRY_CANCELLED] && safeParseLookupId(e[ACCOMPANYING_ADULT_LOOKUP]) === profileId
+    );
+    const cancelledAt = new Date().toISOString();
+    const results = await entriesRepository.updateMany([
+      { id: entry.ID, fields: { [ENTRY_CANCELLED]: cancelledAt, [ENTRY_RSVP]: RSVP_DECLINED } },
+      ...children.map(e => ({ id: e.ID, fields: { [ENTRY_CANCELLED]: cancelledAt } })),
+    ]);
+    const [own, ...childResults] = results;
+    if (!own.ok) throw new Error(own.error);
+    entry[ENTRY_CANCELLED] = cancelledAt;
+    entry[ENTRY_RSVP] = RSVP_DECLINED;
+
+    const cancelled = [entry, ...children.filter((_, i) => childResults[i].ok)];
+    childResults.forEach((r, i) => {
+      if (!r.ok) console.error(`[RSVP] Failed to cancel child entry ${children[i].ID} with entry ${entry.ID}: ${r.error}`);
+    });
+    for (const e of cancelled) {
+      emitEntryEvent('entry.cancelled', { entryId: e.ID, sessionId: session.ID, profileId: safeParseLookupId(e[PROFILE_LOOKUP]) });
+    }
+    if (!entry[ENTRY_WAITLISTED]) {
+      // A family's decline frees several places — keep promoting while the next in line fits
+      try {
+        const promoted = new Set<number>();
+        for (;;) {
+          const promotedId = await promoteFromWaitlist(session.ID, baseUrl);
+          if (promotedId === undefined || promoted.has(promotedId)) break;
+          promoted.add(promotedId);
+        }
+      } catch (err: any) {
+        console.error(`[Waitlist] Promotion failed for session ${session.ID}:`, err.message);
+      }
+    }
+    refreshStats(session, cancelled);
+  } else if (answer === 'declined' && entry[ENTRY_RSVP] !== RSVP_DECLINED) {
+    // Cancelled some other way already — just record the answer
+    await entriesRepository.updateFields(entry.ID, { [ENTRY_RSVP]: RSVP_DECLINED });
+    entry[ENTRY_RSVP] = RSVP_DECLINED;
+  } else if (answer === 'coming' && entry[ENTRY_CANCELLED]) {
+    if (entry[ENTRY_RSVP] !== RSVP_DECLINED || profileId === undefined) {
+      throw new RsvpError('This booking was cancelled — please book again from the session page', 409);
+    }
+    const sessionEntries = await entriesRepository.getBySessionIds([session.ID]);
+    // Children cancelled with the decline come back with the regular
+    const declinedAt = Date.parse(entry[ENTRY_CANCELLED]);
+    const children = sessionEntries.filter(e =>
+      e.ID !== entry.ID && e[ENTRY_CANCELLED] && Date.parse(e[ENTRY_CANCELLED]) === declinedAt &&
+      safeParseLookupId(e[ACCOMPANYING_ADULT_LOOKUP]) === profileId
+    );
+    const childPlaces = children.reduce((n, e) => n + entryHeadcount(e), 0);
+    if (!await bookingFits(session, profileId, sessionEntries, entryHeadcount(entry), childPlaces)) {
+      throw new RsvpError('Sorry, your place has gone to someone else — you can join the waitlist from the session page', 409);
+    }
+    const results = await entriesRepository.updateMany([
+      { id: entry.ID, fields: { [ENTRY_CANCELLED]: null, [ENTRY_RSVP]: RSVP_COMING } },
+      ...children.map(e => ({ id: e.ID, fields: { [ENTRY_CANCELLED]: null } })),
+    ]);
+    const [own, ...childResults] = results;
+    if (!own.ok) throw new Error(own.error);
+    entry[ENTRY_CANCELLED] = undefined;
+    entry[ENTRY_RSVP] = RSVP_COMING;
+
+    const restored = [entry, ...children.filter((_, i) => childResults[i].ok)];
+    childResults.forEach((r, i) => {
+      if (!r.ok) console.error(`[RSVP] Failed to reinstate child entry ${children[i].ID} with entry ${entry.ID}: ${r.error}`);
+    });
+    for (const e of restored) {
+      emitEntryEvent('entry.booked', { entryId: e.ID, sessionId: session.ID, profileId: safeParseLookupId(e[PROFILE_LOOKUP]), waitlisted: !!e[ENTRY_WAITLISTED] });
+    }
+    refreshStats(session, restored);
+  } else if (answer === 'coming' && entry[ENTRY_RSVP] !== RSVP_COMING) {
+    await entriesRepository.updateFields(entry.ID, { [ENTRY_RSVP]: RSVP_COMING });
+    entry[ENTRY_RSVP] = RSVP_COMING;
+  }
+
+  console.log(`[RSVP] Entry ${entry.ID} on session ${session.ID}: ${answer}`);
+  return toRsvpResponse(entry, session, group);
+}
+
+function refreshStats(session: SharePointSession, entries: SharePointEntry[]): void {
+  computeAndSaveSessionStats(session.ID, preservedMediaFromStats(session[SESSION_STATS])).catch(err =>
+    console.error(`[Stats] Failed session stats after RSVP on session ${session.ID}:`, err)
+  );
+  for (const e of entries) {
+    const profileId = safeParseLookupId(e[PROFILE_LOOKUP]);
+    if (profileId === undefined) continue;
+    computeAndSaveProfileStats(profileId).catch(err =>
+      console.error(`[Stats] Failed targeted profile update for profile ${profileId}:`, err)
+    );
+  }
+}
@@ -6,17 +6,21 @@
 
 import { SharePointEntry } from '../../../types/sharepoint';
 import { sharePointClient, CACHE_TTL } from '../sharepoint-client';
-import { SESSION_LOOKUP, SESSION_DISPLAY, PROFILE_LOOKUP, PROFILE_DISPLAY, ACCOMPANYING_ADULT_LOOKUP, ACCOMPANYING_ADULT_DISPLAY, ENTRY_CANCELLED, ENTRY_LABELS, ENTRY_EVENTBRITE_ATTENDEE_ID } from '../field-names';
+import { listStore, type BatchWriteResult } from '../list-store';
+import { ListMirror } from '../list-mirror';
+import { SESSION_LOOKUP, SESSION_DISPLAY, PROFILE_LOOKUP, PROFILE_DISPLAY, ACCOMPANYING_ADULT_LOOKUP, ACCOMPANYING_ADULT_DISPLAY, ENTRY_CANCELLED, ENTRY_WAITLISTED, ENTRY_LABELS, ENTRY_EVENTBRITE_ATTENDEE_ID, ENTRY_EMAILS_SENT, ENTRY_RSVP, ENTRY_ORGANISATION_LOOKUP, ENTRY_ORGANISATION_DISPLAY } from '../field-names';
 
 class EntriesRepository {
   private listGuid: string;
+  private mirror: ListMirror;
 
   constructor() {
     this.listGuid = process.env.ENTRIES_LIST_GUID!;
+    this.mirror = new ListMirror('entries', this.listGuid, this.selectFields);
   }
 
   private get selectFields(): string {
-    return `ID,Title,${SESSION_DISPLAY},${SESSION_LOOKUP},${PROFILE_DISPLAY},${PROFILE_LOOKUP},Count,Checked,Hours,Notes,BookedBy,${ACCOMPANYING_ADULT_DISPLAY},${ACCOMPANYING_ADULT_LOOKUP},${ENTRY_CANCELLED},${ENTRY_LABELS},${ENTRY_EVENTBRITE_ATTENDEE_ID},Created,Modified`;
+    return `ID,Title,${SESSION_DISPLAY},${SESSION_LOOKUP},${PROFILE_DISPLAY},${PROFILE_LOOKUP},Count,Checked,Hours,Notes,BookedBy,${ACCOMPANYING_ADULT_DISPLAY},${ACCOMPANYING_ADULT_LOOKUP},${ENTRY_CANCELLED},${ENTRY_WAITLISTED},${ENTRY_LABELS},${ENTRY_EVENTBRITE_ATTENDEE_ID},${ENTRY_EMAILS_SENT},${ENTRY_RSVP},${ENTRY_ORGANISATION_DISPLAY},${ENTRY_ORGANISATION_LOOKUP},Created,Modified`;
   }
 
   async getAll(): Promise<SharePointEntry[]> {
@@ -27,22 +31,19 @@ class EntriesRepository {
       return cached as SharePointEntry[];
     }
 
-    console.log(`[Cache] Miss: ${cacheKey} - fetching from SharePoint`);
-    const data = await sharePointClient.getListItems(
-      this.listGuid,
-      this.selectFields
-    );
+    console.log(`[Cache] Miss: ${cacheKey} - syncing mirror`);
+    const data = await this.mirror.getAll();
     sharePointClient.cache.set(cacheKey, data, CACHE_TTL.entries);
     return data as SharePointEntry[];
   }
 
   async getById(id: number): Promise<SharePointEntry | null> {
-    return await sharePointClient.getListItem(this.listGuid, id, this.selectFields) as SharePointEntry | null;
+    return await listStore.getListItem(this.listGuid, id, this.selectFields) as SharePointEntry | null;
   }
 
   async getByProfileId(profileId: number): Promise<SharePointEntry[]> {
     const filter = `fields/${PROFILE_LOOKUP} eq ${profileId}`;
-    return await sharePointClient.getListItems(
+    return await listStore.getListItems(
       this.listGuid,
       this.selectFields,
       filter
@@ -52,7 +53,7 @@ class EntriesRepository {
   async getRecent(cutoff: Date): Promise<SharePointEntry[]> {
     // Requires a Created index on the Entries list (List Settings → Indexed Columns)
     const filter = `fields/Created ge '${cutoff.toISOString()}'`;
-    return await sharePointClient.getListItems(
+    return await listStore.getListItems(
       this.listGuid,
       this.selectFields,
       filter
@@ -61,7 +62,7 @@ class EntriesRepository {
 
   async getRecentlyCancelled(cutoff: Date): Promise<SharePointEntry[]> {
     const filter = `fields/${ENTRY_CANCELLED} ge '${cutoff.toISOString()}'`;
-    return await sharePointClient.getListItems(
+    return await listStore.getListItems(
       this.listGuid,
       this.selectFields,
       filter
@@ -78,7 +79,7 @@ class EntriesRepository {
     const filterParts = idsToFetch.map(id => `fields/${SESSION_LOOKUP} eq ${id}`);
     const filter = filterParts.join(' or ');
 
-    return await sharePointClient.getListItems(
+    return await listStore.getListItems(
       this.listGuid,
       this.selectFields,
       filter
@@ -109,33 +110,49 @@ class EntriesRepository {
 
     const filter = filterParts.join(' or ');
 
-    return await sharePointClient.getListItems(
+    return await listStore.getListItems(
       this.listGuid,
       this.selectFields,
       filter
     ) as SharePointEntry[];
   }
 
-  async updateFields(entryId: number, fields: Partial<Pick<SharePointEntry, 'Checked' | 'Count' | 'Hours' | 'Notes' | 'AccompanyingAdultLookupId' | 'Cancelled'>> & Record<string, any>): Promise<void> {
-    await sharePointClient.updateListItem(this.listGuid, entryId, fields);
+  async updateFields(entryId: number, fields: Partial<Pick<SharePointEntry, 'Checked' | 'Count' | 'Hours' | 'Notes' | 'AccompanyingAdultLookupId' | 'Cancelled' | 'Waitlisted'>> & Record<string, any>): Promise<void> {
+    await listStore.updateListItem(this.listGuid, entryId, fields);
+    sharePointClient.clearCacheKey('entries');
+    sharePointClient.clearCacheByPrefix('sessions_FY');
+  }
+
+  /** Update many entries in batched round trips; results are in the order of `updates` */
+  async updateMany(updates: Array<{ id: number; fields: Record<string, any> }>): Promise<BatchWriteResult[]> {
+    const results = await listStore.batchWrite(this.listGuid, updates.map(({ id, fields }) => ({ op: 'update' as const, id, fields })));
     sharePointClient.clearCacheKey('entries');
     sharePointClient.clearCacheByPrefix('sessions_FY');
+    return results;
   }
 
   async create(fields: Record<string, any>): Promise<number> {
-    const id = await sharePointClient.createListItem(this.listGuid, fields);
+    const id = await listStore.createListItem(this.listGuid, fields);
     sharePointClient.clearCacheKey('entries');
     sharePointClient.clearCacheByPrefix('sessions_FY');
     return id;
   }
 
+  /** Create many entries in batched round trips; results are in the order of `items` */
+  async createMany(items: Record<string, any>[]): Promise<BatchWriteResult[]> {
+    const results = await listStore.batchWrite(this.listGuid, items.map(fields => ({ op: 'create' as const, fields })));
+    sharePointClient.clearCacheKey('entries');
+    sharePointClient.clearCacheByPrefix('sessions_FY');
+    return results;
+  }
+
   async updateLabels(entryId: number, labels: string[]): Promise<void> {
-    await sharePointClient.updateListItem(this.listGuid, entryId, { [ENTRY_LABELS]: labels });
+    await listStore.updateListItem(this.listGuid, entryId, { [ENTRY_LABELS]: labels });
     sharePointClient.clearCacheKey('entries');
   }
 
   async delete(entryId: number): Promise<void> {
-    await sharePointClient.deleteListItem(this.listGuid, entryId);
+    await listStore.deleteListItem(this.listGuid, entryId);
     sharePointClient.clearCacheKey('entries');
     sharePointClient.clearCacheByPrefix('sessions_FY');
   }
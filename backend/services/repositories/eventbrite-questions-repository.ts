@@ -0,0 +1,61 @@
+/**
+ * Eventbrite Questions Repository
+ *
+ * Admin-managed mappings from Eventbrite checkout questions to Records, profile fields and
+ * entry labels. Optional list — without EVENTBRITE_QUESTIONS_LIST_GUID the sync falls back to
+ * the two built-in consent questions (eventbrite-questions.ts).
+ */
+
+import { SharePointEventbriteQuestion } from '../../../types/sharepoint';
+import { sharePointClient, CACHE_TTL } from '../sharepoint-client';
+import { listStore } from '../list-store';
+
+class EventbriteQuestionsRepository {
+  private get listGuid(): string | undefined {
+    return process.env.EVENTBRITE_QUESTIONS_LIST_GUID;
+  }
+
+  private readonly selectFields = 'ID,Title,QuestionID,Target,RecordType,FieldName,Label,YesAnswers,Required,Created,Modified';
+
+  get configured(): boolean {
+    return !!this.listGuid;
+  }
+
+  private requireListGuid(): string {
+    if (!this.listGuid) throw new Error('EVENTBRITE_QUESTIONS_LIST_GUID is not configured');
+    return this.listGuid;
+  }
+
+  async getAll(): Promise<SharePointEventbriteQuestion[]> {
+    if (!this.listGuid) return [];
+    const cacheKey = 'eventbrite_questions';
+    const cached = sharePointClient.cache.get(cacheKey);
+    if (cached) return cached as SharePointEventbriteQuestion[];
+
+    const data = await listStore.getListItems(this.listGuid, this.selectFields);
+    sharePointClient.cache.set(cacheKey, data, CACHE_TTL.eventbriteQuestions);
+    return data as SharePointEventbriteQuestion[];
+  }
+
+  async getById(id: number): Promise<SharePointEventbriteQuestion | null> {
+    return await listStore.getListItem(this.requireListGuid(), id, this.selectFields) as SharePointEventbriteQuestion | null;
+  }
+
+  async create(fields: Record<string, any>): Promise<number> {
+    const id = await listStore.createListItem(this.requireListGuid(), fields);
+    sharePointClient.clearCacheKey('eventbrite_questions');
+    return id;
+  }
+
+  async update(id: number, fields: Record<string, any>): Promise<void> {
+    await listStore.updateListItem(this.requireListGuid(), id, fields);
+    sharePointClient.clearCacheKey('eventbrite_questions');
+  }
+
+  async delete(id: number): Promise<void> {
+    await listStore.deleteListItem(this.requireListGuid(), id);
+    sharePointClient.clearCacheKey('eventbrite_questions');
+  }
+}
+
+export const eventbriteQuestionsRepository = new EventbriteQuestionsRepository();
@@ -6,6 +6,7 @@
 
 import { SharePointGroup } from '../../../types/group';
 import { sharePointClient, CACHE_TTL } from '../sharepoint-client';
+import { listStore } from '../list-store';
 
 class GroupsRepository {
   private listGuid: string;
@@ -15,18 +16,18 @@ class GroupsRepository {
   }
 
   async create(fields: { Title: string; Name?: string; Description?: string }): Promise<number> {
-    const id = await sharePointClient.createListItem(this.listGuid, fields);
+    const id = await listStore.createListItem(this.listGuid, fields);
     sharePointClient.clearCacheKey('groups');
     return id;
   }
 
-  async updateFields(groupId: number, fields: Partial<Pick<SharePointGroup, 'Title' | 'Name' | 'Description' | 'EventbriteSeriesID'>>): Promise<void> {
-    await sharePointClient.updateListItem(this.listGuid, groupId, fields);
+  async updateFields(groupId: number, fields: Partial<Pick<SharePointGroup, 'Title' | 'Name' | 'Description' | 'EventbriteSeriesID'>> & { EmailSchedule?: string | null; Recurrence?: string | null }): Promise<void> {
+    await listStore.updateListItem(this.listGuid, groupId, fields);
     sharePointClient.clearCacheKey('groups');
   }
 
   async delete(groupId: number): Promise<void> {
-    await sharePointClient.deleteListItem(this.listGuid, groupId);
+    await listStore.deleteListItem(this.listGuid, groupId);
     sharePointClient.clearCacheKey('groups');
   }
 
@@ -39,9 +40,9 @@ class GroupsRepository {
     }
 
     console.log(`[Cache] Miss: ${cacheKey} - fetching from SharePoint`);
-    const data = await sharePointClient.getListItems(
+    const data = await listStore.getListItems(
       this.listGuid,
-      'ID,Title,Name,Description,EventbriteSeriesID,Created,Modified'
+      'ID,Title,Name,Description,EventbriteSeriesID,EmailSchedule,Recurrence,Created,Modified'
     );
     sharePointClient.cache.set(cacheKey, data, CACHE_TTL.groups);
     return data as SharePointGroup[];
@@ -0,0 +1,51 @@
+/**
+ * Organisations Repository
+ *
+ * Employers volunteers come through on CSR / work bookings. Optional list — without
+ * ORGANISATIONS_LIST_GUID bookings can't record an organisation and the CSR report is empty.
+ */
+
+import { SharePointOrganisation } from '../../../types/sharepoint';
+import { sharePointClient, CACHE_TTL } from '../sharepoint-client';
+import { listStore } from '../list-store';
+
+class OrganisationsRepository {
+  private get listGuid(): string | undefined {
+    return process.env.ORGANISATIONS_LIST_GUID;
+  }
+
+  private readonly selectFields = 'ID,Title,Created,Modified';
+
+  get configured(): boolean {
+    return !!this.listGuid;
+  }
+
+  private requireListGuid(): string {
+    if (!this.listGuid) throw new Error('ORGANISATIONS_LIST_GUID is not configured');
+    return this.listGuid;
+  }
+
+  async getAll(): Promise<SharePointOrganisation[]> {
+    if (!this.listGuid) return [];
+    const cacheKey = 'organisations';
+    const cached = sharePointClient.cache.get(cacheKey);
+    if (cached) return cached as SharePointOrganisation[];
+
+    const data = await listStore.getListItems(this.listGuid, this.selectFields);
+    sharePointClient.cache.set(cacheKey, data, CACHE_TTL.organisations);
+    return data as SharePointOrganisation[];
+  }
+
+  async create(fields: { Title: string }): Promise<number> {
+    const id = await listStore.createListItem(this.requireListGuid(), fields);
+    sharePointClient.clearCacheKey('organisations');
+    return id;
+  }
+
+  async update(id: number, fields: { Title: string }): Promise<void> {
+    await listStore.updateListItem(this.requireListGuid(), id, fields);
+    sharePointClient.clearCacheKey('organisations');
+  }
+}
+
+export const organisationsRepository = new OrganisationsRepository();
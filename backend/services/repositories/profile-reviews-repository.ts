@@ -0,0 +1,55 @@
+/**
+ * Profile Reviews Repository
+ *
+ * Eventbrite sync profile clashes and name-only matches awaiting review. Optional list —
+ * without PROFILE_REVIEWS_LIST_GUID nothing is recorded and the review queue is empty.
+ */
+
+import { SharePointProfileReview } from '../../../types/sharepoint';
+import { sharePointClient, CACHE_TTL } from '../sharepoint-client';
+import { listStore } from '../list-store';
+
+class ProfileReviewsRepository {
+  private get listGuid(): string | undefined {
+    return process.env.PROFILE_REVIEWS_LIST_GUID;
+  }
+
+  private readonly selectFields = 'ID,Title,Kind,Status,ProfileID,OtherProfileID,Email,SessionID,ResolvedBy,Resolved,Created,Modified';
+
+  get configured(): boolean {
+    return !!this.listGuid;
+  }
+
+  private requireListGuid(): string {
+    if (!this.listGuid) throw new Error('PROFILE_REVIEWS_LIST_GUID is not configured');
+    return this.listGuid;
+  }
+
+  async getAll(): Promise<SharePointProfileReview[]> {
+    if (!this.listGuid) return [];
+    const cacheKey = 'profile_reviews';
+    const cached = sharePointClient.cache.get(cacheKey);
+    if (cached) return cached as SharePointProfileReview[];
+
+    const data = await listStore.getListItems(this.listGuid, this.selectFields);
+    sharePointClient.cache.set(cacheKey, data, CACHE_TTL.profileReviews);
+    return data as SharePointProfileReview[];
+  }
+
+  async getById(id: number): Promise<SharePointProfileReview | null> {
+    return await listStore.getListItem(this.requireListGuid(), id, this.selectFields) as SharePointProfileReview | null;
+  }
+
+  async create(fields: Record<string, any>): Promise<number> {
+    const id = await listStore.createListItem(this.requireListGuid(), fields);
+    sharePointClient.clearCacheKey('profile_reviews');
+    return id;
+  }
+
+  async update(id: number, fields: Record<string, any>): Promise<void> {
+    await listStore.updateListItem(this.requireListGuid(), id, fields);
+    sharePointClient.clearCacheKey('profile_reviews');
+  }
+}
+
+export const profileReviewsRepository = new ProfileReviewsRepository();
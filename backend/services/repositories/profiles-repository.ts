@@ -6,13 +6,21 @@
 
 import { SharePointProfile } from '../../../types/sharepoint';
 import { sharePointClient, CACHE_TTL } from '../sharepoint-client';
-import { PROFILE_STATS } from '../field-names';
+import { listStore } from '../list-store';
+import { ListMirror } from '../list-mirror';
+import { PROFILE_STATS, PROFILE_GUARDIAN_LOOKUP, PROFILE_PLACEHOLDER } from '../field-names';
 
 class ProfilesRepository {
   private listGuid: string;
+  private mirror: ListMirror;
 
   constructor() {
     this.listGuid = process.env.PROFILES_LIST_GUID!;
+    this.mirror = new ListMirror('profiles', this.listGuid, this.selectFields);
+  }
+
+  private get selectFields(): string {
+    return `ID,Title,Email,MatchName,User,IsGroup,${PROFILE_GUARDIAN_LOOKUP},Guardian,${PROFILE_PLACEHOLDER},${PROFILE_STATS},Created,Modified`;
   }
 
   async getAll(): Promise<SharePointProfile[]> {
@@ -23,41 +31,47 @@ class ProfilesRepository {
       return cached as SharePointProfile[];
     }
 
-    const selectFields = `ID,Title,Email,MatchName,User,IsGroup,${PROFILE_STATS},Created,Modified`;
-
-    console.log(`[Cache] Miss: ${cacheKey} - fetching from SharePoint`);
-    const data = await sharePointClient.getListItems(
-      this.listGuid,
-      selectFields
-    );
+    console.log(`[Cache] Miss: ${cacheKey} - syncing mirror`);
+    const data = await this.mirror.getAll();
     sharePointClient.cache.set(cacheKey, data, CACHE_TTL.profiles);
     return data as SharePointProfile[];
   }
 
   async getById(id: number): Promise<SharePointProfile | null> {
-    const selectFields = `ID,Title,Email,MatchName,User,IsGroup,${PROFILE_STATS},Created,Modified`;
-    return await sharePointClient.getListItem(this.listGuid, id, selectFields) as SharePointProfile | null;
+    return await listStore.getListItem(this.listGuid, id, this.selectFields) as SharePointProfile | null;
   }
 
   // Updates only the Stats field — does NOT flush the full cache.
   // Bulk callers should call sharePointClient.clearCacheKey('profiles') once when done.
   async updateStats(profileId: number, stats: Record<string, any>): Promise<void> {
-    await sharePointClient.updateListItem(this.listGuid, profileId, { [PROFILE_STATS]: JSON.stringify(stats) });
+    await listStore.updateListItem(this.listGuid, profileId, { [PROFILE_STATS]: JSON.stringify(stats) });
   }
 
-  async create(fields: { Title: string; Email?: string; MatchName?: string }): Promise<number> {
-    const id = await sharePointClient.createListItem(this.listGuid, fields);
+  async create(fields: { Title: string; Email?: string; MatchName?: string; GuardianLookupId?: string; Placeholder?: boolean }): Promise<number> {
+    const id = await listStore.createListItem(this.listGuid, fields);
     sharePointClient.clearCacheKey('profiles');
     return id;
   }
 
   async delete(profileId: number): Promise<void> {
-    await sharePointClient.deleteListItem(this.listGuid, profileId);
+    await listStore.deleteListItem(this.listGuid, profileId);
+    sharePointClient.clearCacheKey('profiles');
+  }
+
+  async updateFields(profileId: number, fields: Partial<Pick<SharePointProfile, 'Title' | 'Email' | 'MatchName' | 'User' | 'IsGroup' | 'Placeholder'>> & { GuardianLookupId?: string | null }): Promise<void> {
+    await listStore.updateListItem(this.listGuid, profileId, fields);
     sharePointClient.clearCacheKey('profiles');
   }
 
-  async updateFields(profileId: number, fields: Partial<Pick<SharePointProfile, 'Title' | 'Email' | 'MatchName' | 'User' | 'IsGroup'>>): Promise<void> {
-    await sharePointClient.updateListItem(this.listGuid, profileId, fields);
+  // Columns added for mapped Eventbrite answers (eventbrite-questions.ts) — not in the mirror's select
+  async getAnswerFields(profileId: number, fieldNames: string[]): Promise<Record<string, unknown>> {
+    if (fieldNames.length === 0) return {};
+    const item = await listStore.getListItem(this.listGuid, profileId, ['ID', ...fieldNames].join(','));
+    return Object.fromEntries(fieldNames.map(name => [name, item?.[name]]));
+  }
+
+  async updateAnswerFields(profileId: number, fields: Record<string, string>): Promise<void> {
+    await listStore.updateListItem(this.listGuid, profileId, fields);
     sharePointClient.clearCacheKey('profiles');
   }
 }
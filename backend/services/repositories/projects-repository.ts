@@ -4,6 +4,7 @@
 
 import { SharePointProject } from '../../../types/project';
 import { sharePointClient, CACHE_TTL } from '../sharepoint-client';
+import { listStore } from '../list-store';
 import { PROJECT_DESCRIPTION, PROJECT_METADATA } from '../field-names';
 
 class ProjectsRepository {
@@ -18,7 +19,7 @@ class ProjectsRepository {
   }
 
   async create(fields: { Title: string; Name?: string; Description?: string }): Promise<number> {
-    const id = await sharePointClient.createListItem(this.listGuid, fields);
+    const id = await listStore.createListItem(this.listGuid, fields);
     sharePointClient.clearCacheKey('projects');
     return id;
   }
@@ -27,12 +28,12 @@ class ProjectsRepository {
     projectId: number,
     fields: Partial<Pick<SharePointProject, 'Title' | 'Name' | 'Description'>>
   ): Promise<void> {
-    await sharePointClient.updateListItem(this.listGuid, projectId, fields);
+    await listStore.updateListItem(this.listGuid, projectId, fields);
     sharePointClient.clearCacheKey('projects');
   }
 
   async delete(projectId: number): Promise<void> {
-    await sharePointClient.deleteListItem(this.listGuid, projectId);
+    await listStore.deleteListItem(this.listGuid, projectId);
     sharePointClient.clearCacheKey('projects');
   }
 
@@ -45,7 +46,7 @@ class ProjectsRepository {
     }
 
     console.log(`[Cache] Miss: ${cacheKey} - fetching from SharePoint`);
-    const data = await sharePointClient.getListItems(this.listGuid, this.selectFields);
+    const data = await listStore.getListItems(this.listGuid, this.selectFields);
     sharePointClient.cache.set(cacheKey, data, CACHE_TTL.projects);
     return data as SharePointProject[];
   }
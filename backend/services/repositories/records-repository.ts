@@ -7,6 +7,7 @@
 import { SharePointRecord } from '../../../types/sharepoint';
 import { safeParseLookupId } from '../data-layer';
 import { sharePointClient, CACHE_TTL } from '../sharepoint-client';
+import { listStore, type BatchWriteOp, type BatchWriteResult } from '../list-store';
 
 class RecordsRepository {
   private listGuid: string;
@@ -30,7 +31,7 @@ class RecordsRepository {
     }
 
     console.log(`[Cache] Miss: ${cacheKey} - fetching from SharePoint`);
-    const data = await sharePointClient.getListItems(
+    const data = await listStore.getListItems(
       this.listGuid,
       this.selectFields,
       null,
@@ -47,20 +48,27 @@ class RecordsRepository {
   }
 
   async create(fields: { ProfileLookupId: number; Type: string; Status: string; Date: string }): Promise<number> {
-    const id = await sharePointClient.createListItem(this.listGuid, fields, this.dateOnlyFields);
+    const id = await listStore.createListItem(this.listGuid, fields, this.dateOnlyFields);
     sharePointClient.clearCacheKey('records');
     return id;
   }
 
   async update(itemId: number, fields: { Status?: string; Date?: string }): Promise<void> {
-    await sharePointClient.updateListItem(this.listGuid, itemId, fields, this.dateOnlyFields);
+    await listStore.updateListItem(this.listGuid, itemId, fields, this.dateOnlyFields);
     sharePointClient.clearCacheKey('records');
   }
 
   async delete(itemId: number): Promise<void> {
-    await sharePointClient.deleteListItem(this.listGuid, itemId);
+    await listStore.deleteListItem(this.listGuid, itemId);
     sharePointClient.clearCacheKey('records');
   }
+
+  /** Mixed creates/updates in batched round trips; results are in op order */
+  async batchWrite(ops: BatchWriteOp[]): Promise<BatchWriteResult[]> {
+    const results = await listStore.batchWrite(this.listGuid, ops, this.dateOnlyFields);
+    sharePointClient.clearCacheKey('records');
+    return results;
+  }
 }
 
 export const recordsRepository = new RecordsRepository();
@@ -6,6 +6,7 @@
 
 import { SharePointRegular } from '../../../types/sharepoint';
 import { sharePointClient, CACHE_TTL } from '../sharepoint-client';
+import { listStore } from '../list-store';
 import { PROFILE_LOOKUP, PROFILE_DISPLAY, GROUP_LOOKUP, GROUP_DISPLAY } from '../field-names';
 
 class RegularsRepository {
@@ -20,18 +21,18 @@ class RegularsRepository {
   }
 
   async create(fields: Record<string, any>): Promise<number> {
-    const id = await sharePointClient.createListItem(this.listGuid, fields);
+    const id = await listStore.createListItem(this.listGuid, fields);
     sharePointClient.clearCacheKey('regulars');
     return id;
   }
 
   async update(regularId: number, fields: Record<string, any>): Promise<void> {
-    await sharePointClient.updateListItem(this.listGuid, regularId, fields);
+    await listStore.updateListItem(this.listGuid, regularId, fields);
     sharePointClient.clearCacheKey('regulars');
   }
 
   async delete(regularId: number): Promise<void> {
-    await sharePointClient.deleteListItem(this.listGuid, regularId);
+    await listStore.deleteListItem(this.listGuid, regularId);
     sharePointClient.clearCacheKey('regulars');
   }
 
@@ -44,7 +45,7 @@ class RegularsRepository {
     }
 
     console.log(`[Cache] Miss: ${cacheKey} - fetching from SharePoint`);
-    const data = await sharePointClient.getListItems(
+    const data = await listStore.getListItems(
       this.listGuid,
       this.selectFields
     );
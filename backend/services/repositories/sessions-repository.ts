@@ -6,18 +6,22 @@
 
 import { SharePointSession } from '../../../types/session';
 import { sharePointClient, CACHE_TTL } from '../sharepoint-client';
-import { GROUP_LOOKUP, GROUP_DISPLAY, PROJECT_LOOKUP, PROJECT_DISPLAY, SESSION_NOTES, SESSION_METADATA, SESSION_COVER_MEDIA, SESSION_STATS, SESSION_LIMITS, SESSION_TIME, SESSION_LENGTH } from '../field-names';
+import { listStore, type BatchWriteResult } from '../list-store';
+import { ListMirror } from '../list-mirror';
+import { GROUP_LOOKUP, GROUP_DISPLAY, PROJECT_LOOKUP, PROJECT_DISPLAY, SESSION_NOTES, SESSION_METADATA, SESSION_COVER_MEDIA, SESSION_STATS, SESSION_LIMITS, SESSION_TIME, SESSION_LENGTH, SESSION_CANCELLED, SESSION_CANCEL_REASON } from '../field-names';
 
 
 class SessionsRepository {
   private listGuid: string;
+  private mirror: ListMirror;
 
   constructor() {
     this.listGuid = process.env.SESSIONS_LIST_GUID!;
+    this.mirror = new ListMirror('sessions', this.listGuid, this.selectFields, this.dateOnlyFields);
   }
 
   private get selectFields(): string {
-    return `ID,Title,Name,Date,${SESSION_TIME},${SESSION_LENGTH},${SESSION_NOTES},${SESSION_METADATA},EventbriteEventID,${GROUP_DISPLAY},${GROUP_LOOKUP},${PROJECT_DISPLAY},${PROJECT_LOOKUP},${SESSION_COVER_MEDIA},${SESSION_STATS},${SESSION_LIMITS},Created,Modified`;
+    return `ID,Title,Name,Date,${SESSION_TIME},${SESSION_LENGTH},${SESSION_NOTES},${SESSION_METADATA},EventbriteEventID,${GROUP_DISPLAY},${GROUP_LOOKUP},${PROJECT_DISPLAY},${PROJECT_LOOKUP},${SESSION_COVER_MEDIA},${SESSION_STATS},${SESSION_LIMITS},${SESSION_CANCELLED},${SESSION_CANCEL_REASON},Created,Modified`;
   }
 
   private readonly dateOnlyFields = ['Date'];
@@ -30,14 +34,9 @@ class SessionsRepository {
       return cached as SharePointSession[];
     }
 
-    console.log(`[Cache] Miss: ${cacheKey} - fetching from SharePoint`);
-    const data = await sharePointClient.getListItems(
-      this.listGuid,
-      this.selectFields,
-      null,
-      null,  // TODO: Graph API orderby on this list returns 400 - sorting done in data layer instead
-      this.dateOnlyFields
-    );
+    // Sorting is done in the data layer (Graph orderby on this list returns 400)
+    console.log(`[Cache] Miss: ${cacheKey} - syncing mirror`);
+    const data = await this.mirror.getAll();
     sharePointClient.cache.set(cacheKey, data, CACHE_TTL.sessions);
     this.populateSlugCache(data as SharePointSession[]);
     return data as SharePointSession[];
@@ -70,7 +69,7 @@ class SessionsRepository {
 
     // Miss — exact title lookup: one Graph call, returns ≤1 session
     const filter = `fields/Title eq '${date} ${groupKey}'`;
-    const results = await sharePointClient.getListItems(
+    const results = await listStore.getListItems(
       this.listGuid, this.selectFields, filter, null, this.dateOnlyFields
     ) as SharePointSession[];
 
@@ -88,7 +87,7 @@ class SessionsRepository {
       console.log(`[Cache] Hit: ${cacheKey}`);
       return cached;
     }
-    const item = await sharePointClient.getListItem(
+    const item = await listStore.getListItem(
       this.listGuid, id, this.selectFields, this.dateOnlyFields
     ) as SharePointSession | null;
     if (item !== null) {
@@ -127,33 +126,70 @@ class SessionsRepository {
   }
 
   async create(fields: { Title: string; Date: string; [key: string]: any }): Promise<number> {
-    const id = await sharePointClient.createListItem(this.listGuid, fields, this.dateOnlyFields);
+    const id = await listStore.createListItem(this.listGuid, fields, this.dateOnlyFields);
     sharePointClient.clearCacheKey('sessions');
     sharePointClient.clearCacheByPrefix('sessions_FY');
     sharePointClient.clearCacheByPrefix('session_slug_');
     return id;
   }
 
+  /** Create many sessions in batched round trips; results are in the order of `items` */
+  async createMany(items: Array<{ Title: string; Date: string; [key: string]: any }>): Promise<BatchWriteResult[]> {
+    const results = await listStore.batchWrite(
+      this.listGuid,
+      items.map(fields => ({ op: 'create' as const, fields })),
+      this.dateOnlyFields
+    );
+    sharePointClient.clearCacheKey('sessions');
+    sharePointClient.clearCacheByPrefix('sessions_FY');
+    sharePointClient.clearCacheByPrefix('session_slug_');
+    return results;
+  }
+
   async updateFields(sessionId: number, fields: Record<string, any>): Promise<void> {
-    await sharePointClient.updateListItem(this.listGuid, sessionId, fields, this.dateOnlyFields);
+    await listStore.updateListItem(this.listGuid, sessionId, fields, this.dateOnlyFields);
     sharePointClient.clearCacheKey('sessions');
     sharePointClient.clearCacheKey(`session_item_${sessionId}`);
     sharePointClient.clearCacheByPrefix('sessions_FY');
     sharePointClient.clearCacheByPrefix('session_slug_');
   }
 
+  /** Update many sessions in batched round trips; results are in the order of `updates` */
+  async updateMany(updates: Array<{ id: number; fields: Record<string, any> }>): Promise<BatchWriteResult[]> {
+    const results = await listStore.batchWrite(
+      this.listGuid,
+      updates.map(({ id, fields }) => ({ op: 'update' as const, id, fields })),
+      this.dateOnlyFields
+    );
+    sharePointClient.clearCacheKey('sessions');
+    for (const { id } of updates) sharePointClient.clearCacheKey(`session_item_${id}`);
+    sharePointClient.clearCacheByPrefix('sessions_FY');
+    sharePointClient.clearCacheByPrefix('session_slug_');
+    return results;
+  }
+
   // Updates only the Stats field — keep list/item caches coherent without a full flush.
   // Bulk refresh callers (session-stats.ts) still clear the sessions list once after the loop.
   async updateStats(sessionId: number, stats: Record<string, any>): Promise<void> {
-    await sharePointClient.updateListItem(this.listGuid, sessionId, { [SESSION_STATS]: JSON.stringify(stats) });
+    await listStore.updateListItem(this.listGuid, sessionId, { [SESSION_STATS]: JSON.stringify(stats) });
     sharePointClient.clearCacheKey('sessions');
     sharePointClient.clearCacheKey(`session_item_${sessionId}`);
     sharePointClient.clearCacheByPrefix('sessions_FY');
     // Slug entries are not affected by stats-only updates — no slug clear needed here
   }
 
+  /** Delete many sessions in batched round trips; results are in the order of `ids` */
+  async deleteMany(ids: number[]): Promise<BatchWriteResult[]> {
+    const results = await listStore.batchWrite(this.listGuid, ids.map(id => ({ op: 'delete' as const, id })));
+    sharePointClient.clearCacheKey('sessions');
+    for (const id of ids) sharePointClient.clearCacheKey(`session_item_${id}`);
+    sharePointClient.clearCacheByPrefix('sessions_FY');
+    sharePointClient.clearCacheByPrefix('session_slug_');
+    return results;
+  }
+
   async delete(sessionId: number): Promise<void> {
-    await sharePointClient.deleteListItem(this.listGuid, sessionId);
+    await listStore.deleteListItem(this.listGuid, sessionId);
     sharePointClient.clearCacheKey('sessions');
     sharePointClient.clearCacheKey(`session_item_${sessionId}`);
     sharePointClient.clearCacheByPrefix('sessions_FY');
@@ -0,0 +1,60 @@
+/**
+ * Webhooks Repository
+ *
+ * Outbound webhook subscriptions (admin-managed). Optional list — without
+ * WEBHOOKS_LIST_GUID there are no subscriptions and no events are sent.
+ */
+
+import { SharePointWebhook } from '../../../types/sharepoint';
+import { sharePointClient, CACHE_TTL } from '../sharepoint-client';
+import { listStore } from '../list-store';
+
+class WebhooksRepository {
+  private get listGuid(): string | undefined {
+    return process.env.WEBHOOKS_LIST_GUID;
+  }
+
+  private readonly selectFields = 'ID,Title,Url,Events,Secret,Enabled,Created,Modified';
+
+  get configured(): boolean {
+    return !!this.listGuid;
+  }
+
+  private requireListGuid(): string {
+    if (!this.listGuid) throw new Error('WEBHOOKS_LIST_GUID is not configured');
+    return this.listGuid;
+  }
+
+  async getAll(): Promise<SharePointWebhook[]> {
+    if (!this.listGuid) return [];
+    const cacheKey = 'webhooks';
+    const cached = sharePointClient.cache.get(cacheKey);
+    if (cached) return cached as SharePointWebhook[];
+
+    const data = await listStore.getListItems(this.listGuid, this.selectFields);
+    sharePointClient.cache.set(cacheKey, data, CACHE_TTL.webhooks);
+    return data as SharePointWebhook[];
+  }
+
+  async getById(id: number): Promise<SharePointWebhook | null> {
+    return await listStore.getListItem(this.requireListGuid(), id, this.selectFields) as SharePointWebhook | null;
+  }
+
+  async create(fields: Record<string, any>): Promise<number> {
+    const id = await listStore.createListItem(this.requireListGuid(), fields);
+    sharePointClient.clearCacheKey('webhooks');
+    return id;
+  }
+
+  async update(id: number, fields: Record<string, any>): Promise<void> {
+    await listStore.updateListItem(this.requireListGuid(), id, fields);
+    sharePointClient.clearCacheKey('webhooks');
+  }
+
+  async delete(id: number): Promise<void> {
+    await listStore.deleteListItem(this.requireListGuid(), id);
+    sharePointClient.clearCacheKey('webhooks');
+  }
+}
+
+export const webhooksRepository = new WebhooksRepository();
@@ -0,0 +1,183 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import type { SharePointEntry } from '../../types/sharepoint'
+
+vi.mock('./repositories/sessions-repository', () => ({
+  sessionsRepository: { getAll: vi.fn(), updateFields: vi.fn() }
+}))
+
+vi.mock('./repositories/entries-repository', () => ({
+  entriesRepository: { getBySessionIds: vi.fn(), updateMany: vi.fn(), updateFields: vi.fn() }
+}))
+
+vi.mock('./repositories/profiles-repository', () => ({
+  profilesRepository: { getAll: vi.fn() }
+}))
+
+vi.mock('./repositories/groups-repository', () => ({
+  groupsRepository: { getAll: vi.fn() }
+}))
+
+vi.mock('./mail-transport', async importOriginal => ({
+  ...(await importOriginal<typeof import('./mail-transport')>()),
+  sendEmail: vi.fn()
+}))
+
+import { cancelSession, cancellationRecipients, nextGroupSessions, parseCancelReason, SessionCancellationError } from './session-cancellation'
+import { sessionsRepository } from './repositories/sessions-repository'
+import { entriesRepository } from './repositories/entries-repository'
+import { profilesRepository } from './repositories/profiles-repository'
+import { groupsRepository } from './repositories/groups-repository'
+import { sendEmail, EmailRateLimitError } from './mail-transport'
+
+const SESSION = { ID: 10, Title: '2099-06-14 sat', Date: '2099-06-14', GroupLookupId: '1', Created: '', Modified: '' } as any
+
+function session(id: number, date: string, overrides: Record<string, any> = {}): any {
+  return { ID: id, Title: `${date} sat`, Date: date, GroupLookupId: '1', Created: '', Modified: '', ...overrides }
+}
+
+function entry(id: number, profileId: number, overrides: Partial<SharePointEntry> = {}): SharePointEntry {
+  return { ID: id, SessionLookupId: '10', ProfileLookupId: String(profileId), Profile: `Person ${profileId}`, Created: '', Modified: '', ...overrides }
+}
+
+function profile(id: number, overrides: Record<string, any> = {}): any {
+  return { ID: id, Title: `Person ${id}`, Email: `p${id}@example.com`, Created: '', Modified: '', ...overrides }
+}
+
+beforeEach(() => {
+  vi.clearAllMocks()
+  vi.mocked(sessionsRepository.getAll).mockResolvedValue([SESSION, session(11, '2099-06-21'), session(12, '2099-06-28')])
+  vi.mocked(sessionsRepository.updateFields).mockResolvedValue(undefined)
+  vi.mocked(entriesRepository.updateMany).mockImplementation(async updates => updates.map(u => ({ ok: true as const, id: u.id })))
+  vi.mocked(entriesRepository.updateFields).mockResolvedValue(undefined)
+  vi.mocked(profilesRepository.getAll).mockResolvedValue([1, 2, 3].map(id => profile(id)))
+  vi.mocked(groupsRepository.getAll).mockResolvedValue([{ ID: 1, Title: 'Sat', Name: 'Saturday Dig', Created: '', Modified: '' }] as any)
+  vi.mocked(sendEmail).mockResolvedValue(undefined as any)
+})
+
+describe('parseCancelReason', () => {
+  it('requires a reason of at most 500 characters', () => {
+    expect(parseCancelReason('  Storm warning ')).toBe('Storm warning')
+    expect(() => parseCancelReason('  ')).toThrow(SessionCancellationError)
+    expect(() => parseCancelReason(undefined)).toThrow('reason is required')
+    expect(() => parseCancelReason('x'.repeat(501))).toThrow(SessionCancellationError)
+  })
+})
+
+describe('nextGroupSessions', () => {
+  it('offers the same group’s later sessions that are going ahead, soonest first', () => {
+    const all = [
+      session(14, '2099-07-12'),
+      session(13, '2099-07-05', { Cancelled: '2099-06-01T00:00:00Z' }),
+      session(12, '2099-06-28', { GroupLookupId: '2' }),
+      session(11, '2099-06-21'),
+      session(9, '2099-06-07'),
+      SESSION,
+    ]
+    expect(nextGroupSessions(SESSION, all, '2099-06-01').map(s => s.ID)).toEqual([11, 14])
+    expect(nextGroupSessions(SESSION, all, '2099-06-01', 1).map(s => s.ID)).toEqual([11])
+  })
+})
+
+describe('cancellationRecipients', () => {
+  it('emails each address once and covers a child through their booked adult', () => {
+    const profiles = [profile(1), profile(2), profile(3, { Email: 'p1@example.com' }), profile(4, { Email: '' })]
+    const entries = [
+      entry(1, 1),
+      entry(2, 2, { AccompanyingAdultLookupId: 1 }),
+      entry(3, 3),
+      entry(4, 4),
+    ]
+    expect(cancellationRecipients(entries, profiles).map(r => [r.entry.ID, r.to])).toEqual([[1, 'p1@example.com']])
+  })
+
+  it('emails a child whose adult is not booked', () => {
+    const entries = [entry(2, 2, { AccompanyingAdultLookupId: 9 })]
+    expect(cancellationRecipients(entries, [profile(2)]).map(r => r.to)).toEqual(['p2@example.com'])
+  })
+})
+
+describe('cancelSession', () => {
+  it('stamps the session and its active entries, then emails the booked volunteers', async () => {
+    vi.mocked(entriesRepository.getBySessionIds).mockResolvedValue([
+      entry(1, 1),
+      entry(2, 2, { Waitlisted: '2099-01-01T00:00:00Z' }),
+      entry(3, 3, { Cancelled: '2099-01-02T00:00:00Z' }),
+    ])
+
+    const { response, entries } = await cancelSession(SESSION, 'Storm warning', 'https://tracker.example.org')
+
+    expect(sessionsRepository.updateFields).toHaveBeenCalledWith(10, { Cancelled: response.cancelled, CancelReason: 'Storm warning' })
+    expect(entriesRepository.updateMany).toHaveBeenCalledWith([
+      { id: 1, fields: { Cancelled: response.cancelled } },
+      { id: 2, fields: { Cancelled: response.cancelled } },
+    ])
+    expect(entries.map(e => e.ID)).toEqual([1, 2])
+    expect(response).toMatchObject({ cancelReason: 'Storm warning', cancelledEntries: 2, emailed: 2, failed: [], resumed: false })
+
+    expect(sendEmail).toHaveBeenCalledTimes(2)
+    const email = vi.mocked(sendEmail).mock.calls[0][0]
+    expect(email.to).toBe('p1@example.com')
+    expect(email.subject).toContain('Cancelled')
+    expect(email.html).toContain('Storm warning')
+    expect(email.html).toContain('https://tracker.example.org/sessions/sat/2099-06-21')
+    expect(entriesRepository.updateFields).toHaveBeenCalledWith(1, { EmailsSent: expect.stringContaining('session-cancelled') })
+  })
+
+  it('skips the emails when notify is false', async () => {
+    vi.mocked(entriesRepository.getBySessionIds).mockResolvedValue([entry(1, 1)])
+
+    const { response } = await cancelSession(SESSION, 'Storm warning', 'https://tracker.example.org', { notify: false })
+
+    expect(response).toMatchObject({ cancelledEntries: 1, emailed: 0 })
+    expect(sendEmail).not.toHaveBeenCalled()
+  })
+
+  it('reports entries that could not be cancelled and stops emailing at the hourly limit', async () => {
+    vi.mocked(entriesRepository.getBySessionIds).mockResolvedValue([entry(1, 1), entry(2, 2), entry(3, 3)])
+    vi.mocked(entriesRepository.updateMany).mockResolvedValue([
+      { ok: true, id: 1 },
+      { ok: false, error: 'Throttled' },
+      { ok: true, id: 3 },
+    ])
+    vi.mocked(sendEmail).mockRejectedValue(new EmailRateLimitError())
+
+    const { response } = await cancelSession(SESSION, 'Storm warning', 'https://tracker.example.org')
+
+    expect(response.cancelledEntries).toBe(2)
+    expect(response.emailed).toBe(0)
+    expect(response.failed).toEqual(['Person 2: not cancelled', 'Hourly email limit reached — 2 not emailed'])
+    expect(sendEmail).toHaveBeenCalledTimes(1)
+  })
+
+  it('resumes a cancellation stopped at the hourly limit: leftover entries cancelled, unstamped ones emailed', async () => {
+    const cancelledAt = '2099-06-01T09:00:00Z'
+    vi.mocked(entriesRepository.getBySessionIds).mockResolvedValue([
+      entry(1, 1, { Cancelled: cancelledAt, EmailsSent: JSON.stringify({ 'session-cancelled': cancelledAt }) }),
+      entry(2, 2, { Cancelled: cancelledAt }),
+      entry(3, 3),
+      entry(4, 4, { Cancelled: '2099-05-20T10:00:00Z' }),
+    ])
+    vi.mocked(profilesRepository.getAll).mockResolvedValue([1, 2, 3, 4].map(id => profile(id)))
+
+    const { response, entries } = await cancelSession(
+      { ...SESSION, Cancelled: cancelledAt, CancelReason: 'Storm warning' }, '', 'https://tracker.example.org'
+    )
+
+    expect(sessionsRepository.updateFields).not.toHaveBeenCalled()
+    expect(entriesRepository.updateMany).toHaveBeenCalledWith([{ id: 3, fields: { Cancelled: cancelledAt } }])
+    expect(entries.map(e => e.ID)).toEqual([3])
+    expect(response).toMatchObject({ cancelled: cancelledAt, cancelReason: 'Storm warning', cancelledEntries: 1, emailed: 2, failed: [], resumed: true })
+    expect(vi.mocked(sendEmail).mock.calls.map(([email]) => email.to)).toEqual(['p2@example.com', 'p3@example.com'])
+    expect(vi.mocked(sendEmail).mock.calls[0][0].html).toContain('Storm warning')
+  })
+
+  it('refuses a session that is already cancelled with nothing left to do, or has passed', async () => {
+    vi.mocked(entriesRepository.getBySessionIds).mockResolvedValue([
+      entry(1, 1, { Cancelled: '2099-01-01T00:00:00Z', EmailsSent: JSON.stringify({ 'session-cancelled': '2099-01-01T00:00:00Z' }) }),
+    ])
+    await expect(cancelSession({ ...SESSION, Cancelled: '2099-01-01T00:00:00Z' }, 'x', '')).rejects.toMatchObject({ statusCode: 409 })
+    await expect(cancelSession(session(9, '2000-01-01'), 'x', '')).rejects.toThrow('Session has already passed')
+    expect(sessionsRepository.updateFields).not.toHaveBeenCalled()
+    expect(sendEmail).not.toHaveBeenCalled()
+  })
+})
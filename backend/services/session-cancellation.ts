@@ -0,0 +1,206 @@
+/**
+ * Whole-session cancellation — when a dig is called off for weather, access or lack of leaders.
+ *
+ * Nothing is deleted: Cancelled and CancelReason are stamped on the session item, and Cancelled on
+ * every active booking (confirmed and waitlisted), so who was booked stays on record and the
+ * session's stats drop to zero. A cancelled session isn't bookable, isn't counted in session
+ * totals and shows as cancelled in the calendar feeds.
+ *
+ * Everyone who was booked is sent the session-cancelled email, with the next sessions of the
+ * same group to rebook on. A child booked with their adult is covered by the adult's email.
+ * Sends are stamped on the entry (EmailsSent) like the other session emails.
+ *
+ * Cancelling again resumes a cancellation that didn't finish — entries whose write failed, or
+ * emails stopped at the hourly limit: leftover active entries are cancelled with the session's
+ * timestamp, and entries cancelled with the session that have no session-cancelled stamp are emailed.
+ */
+
+import { sessionsRepository } from './repositories/sessions-repository';
+import { entriesRepository } from './repositories/entries-repository';
+import { profilesRepository } from './repositories/profiles-repository';
+import { groupsRepository } from './repositories/groups-repository';
+import { isSessionCancelled, parseEmails, safeParseLookupId } from './data-layer';
+import {
+  GROUP_LOOKUP, PROFILE_LOOKUP, PROFILE_DISPLAY, ACCOMPANYING_ADULT_LOOKUP, ENTRY_CANCELLED, ENTRY_EMAILS_SENT,
+  SESSION_CANCELLED, SESSION_CANCEL_REASON
+} from './field-names';
+import { buildSessionCancelledVars } from './email-vars';
+import { renderEmail } from './email-renderer';
+import { sendEmail, EmailRateLimitError } from './mail-transport';
+import { markSessionEmailSent, parseEmailsSent } from './session-email-scheduler';
+import type { SharePointEntry, SharePointProfile } from '../../types/sharepoint';
+import type { SharePointSession } from '../../types/session';
+import type { SessionCancelResponse } from '../../types/api-responses';
+
+export const SESSION_CANCELLED_TEMPLATE = 'session-cancelled';
+
+/** Sessions of the same group offered in the email to rebook on */
+export const NEXT_SESSIONS_IN_EMAIL = 3;
+
+export const MAX_CANCEL_REASON_LENGTH = 500;
+
+export class SessionCancellationError extends Error {
+  constructor(message: string, public readonly statusCode = 400) {
+    super(message);
+    this.name = 'SessionCancellationError';
+  }
+}
+
+/** Reason from a request body — required, it's shown on the session page and in the email */
+export function parseCancelReason(value: unknown): string {
+  const reason = typeof value === 'string' ? value.trim() : '';
+  if (!reason) throw new SessionCancellationError('reason is required');
+  if (reason.length > MAX_CANCEL_REASON_LENGTH) {
+    throw new SessionCancellationError(`reason must be ${MAX_CANCEL_REASON_LENGTH} characters or fewer`);
+  }
+  return reason;
+}
+
+/** The group's next sessions after this one that are going ahead, soonest first */
+export function nextGroupSessions(
+  spSession: SharePointSession,
+  allSessions: SharePointSession[],
+  today: string,
+  limit = NEXT_SESSIONS_IN_EMAIL
+): SharePointSession[] {
+  const groupId = safeParseLookupId(spSession[GROUP_LOOKUP]);
+  if (groupId === undefined) return [];
+  return allSessions
+    .filter(s =>
+      s.ID !== spSession.ID &&
+      safeParseLookupId(s[GROUP_LOOKUP]) === groupId &&
+      !!s.Date && s.Date > spSession.Date && s.Date >= today &&
+      !isSessionCancelled(s)
+    )
+    .sort((a, b) => a.Date.localeCompare(b.Date))
+    .slice(0, limit);
+}
+
+export interface CancellationRecipient {
+  entry: SharePointEntry;
+  profile: SharePointProfile;
+  to: string;
+}
+
+/**
+ * Who to email about the cancelled bookings: one email per address, and none for a child whose
+ * adult is booked on the session too — the adult's email names them.
+ */
+export function cancellationRecipients(entries: SharePointEntry[], profiles: SharePointProfile[]): CancellationRecipient[] {
+  const profilesById = new Map(profiles.map(p => [p.ID, p]));
+  const bookedProfileIds = new Set(entries.map(e => safeParseLookupId(e[PROFILE_LOOKUP])));
+  const seen = new Set<string>();
+  const recipients: CancellationRecipient[] = [];
+  for (const entry of entries) {
+    const adultId = safeParseLookupId(entry[ACCOMPANYING_ADULT_LOOKUP]);
+    if (adultId !== undefined && bookedProfileIds.has(adultId)) continue;
+    const profile = profilesById.get(safeParseLookupId(entry[PROFILE_LOOKUP]) ?? -1);
+    const to = profile ? parseEmails(profile.Email)[0] : undefined;
+    if (!profile || !to || seen.has(to)) continue;
+    seen.add(to);
+    recipients.push({ entry, profile, to });
+  }
+  return recipients;
+}
+
+export interface SessionCancellation {
+  response: SessionCancelResponse;
+  /** Entries stamped Cancelled — for webhooks and stats */
+  entries: SharePointEntry[];
+}
+
+/**
+ * Calls off a session — see the module comment. notify: false skips the emails (e.g. when
+ * volunteers have already been told another way).
+ * Entry or email failures are reported in the result; the session stays cancelled. On a session
+ * that's already cancelled it resumes with the stored reason, and 409s when nothing is left to do.
+ */
+export async function cancelSession(
+  spSession: SharePointSession,
+  reason: string,
+  baseUrl: string,
+  options: { notify?: boolean } = {}
+): Promise<SessionCancellation> {
+  const resumed = isSessionCancelled(spSession);
+  const today = new Date().toISOString().slice(0, 10);
+  if ((spSession.Date || '').slice(0, 10) < today) {
+    throw new SessionCancellationError('Session has already passed');
+  }
+
+  const [sessionEntries, profiles, groups, allSessions] = await Promise.all([
+    entriesRepository.getBySessionIds([spSession.ID]),
+    profilesRepository.getAll(),
+    groupsRepository.getAll(),
+    sessionsRepository.getAll(),
+  ]);
+
+  const cancelledAt: string = resumed ? spSession[SESSION_CANCELLED] : new Date().toISOString();
+  const cancelReason: string = resumed ? spSession[SESSION_CANCEL_REASON] || reason : reason;
+  const active = sessionEntries.filter(e => !e[ENTRY_CANCELLED]);
+  // Entries cancelled by an earlier run — not ones the volunteer cancelled beforehand
+  const cancelledEarlier = resumed
+    ? sessionEntries.filter(e => e[ENTRY_CANCELLED] && Date.parse(e[ENTRY_CANCELLED]!) === Date.parse(cancelledAt))
+    : [];
+  const notEmailed = (entries: SharePointEntry[]) => cancellationRecipients(entries, profiles)
+    .filter(r => !parseEmailsSent(r.entry[ENTRY_EMAILS_SENT])[SESSION_CANCELLED_TEMPLATE]);
+
+  if (resumed) {
+    if (!active.length && (options.notify === false || !notEmailed(cancelledEarlier).length)) {
+      throw new SessionCancellationError('Session is already cancelled', 409);
+    }
+  } else {
+    await sessionsRepository.updateFields(spSession.ID, {
+      [SESSION_CANCELLED]: cancelledAt,
+      [SESSION_CANCEL_REASON]: cancelReason,
+    });
+  }
+
+  const failed: string[] = [];
+  const results = active.length
+    ? await entriesRepository.updateMany(active.map(e => ({ id: e.ID, fields: { [ENTRY_CANCELLED]: cancelledAt } })))
+    : [];
+  const cancelled: SharePointEntry[] = [];
+  results.forEach((result, i) => {
+    const entry = active[i];
+    if (result.ok) {
+      cancelled.push(entry);
+    } else {
+      console.error(`[Session Cancel] Failed to cancel entry ${entry.ID} on session ${spSession.ID}: ${result.error}`);
+      failed.push(`${entry[PROFILE_DISPLAY] || `Entry ${entry.ID}`}: not cancelled`);
+    }
+  });
+
+  let emailed = 0;
+  const group = groups.find(g => g.ID === safeParseLookupId(spSession[GROUP_LOOKUP]));
+  if (options.notify !== false && group) {
+    const nextSessions = nextGroupSessions(spSession, allSessions, today);
+    const recipients = notEmailed([...cancelledEarlier, ...cancelled]);
+    for (const [i, { entry, profile, to }] of recipients.entries()) {
+      try {
+        // sessionEntries still hold the bookings as they were, so the adult's children are named
+        const vars = buildSessionCancelledVars(entry, spSession, profile, group, sessionEntries, nextSessions, cancelReason, baseUrl);
+        const { subject, html, text } = await renderEmail(SESSION_CANCELLED_TEMPLATE, vars);
+        await sendEmail({ to, subject, html, text });
+        emailed++;
+        await markSessionEmailSent(entry, SESSION_CANCELLED_TEMPLATE).catch(err =>
+          console.error(`[Session Cancel] Failed to stamp EmailsSent on entry ${entry.ID}:`, err.message)
+        );
+      } catch (err: any) {
+        console.error(`[Session Cancel] Failed to email entry ${entry.ID}:`, err.message);
+        if (err instanceof EmailRateLimitError) {
+          failed.push(`Hourly email limit reached — ${recipients.length - i} not emailed`);
+          break;
+        }
+        failed.push(`${profile.Title || to}: not emailed`);
+      }
+    }
+  } else if (options.notify !== false) {
+    console.warn(`[Session Cancel] No emails sent for session ${spSession.ID} — group not found`);
+  }
+
+  console.log(`[Session Cancel] Session ${spSession.ID}${resumed ? ' (resumed)' : ''}: ${cancelled.length} entries cancelled, ${emailed} emailed, ${failed.length} failed`);
+  return {
+    response: { cancelled: cancelledAt, cancelReason, cancelledEntries: cancelled.length, emailed, failed, resumed },
+    entries: cancelled,
+  };
+}
@@ -0,0 +1,199 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import type { SharePointEntry, SharePointProfile } from '../../types/sharepoint'
+import type { SharePointGroup } from '../../types/group'
+
+vi.mock('./repositories/groups-repository', () => ({
+  groupsRepository: { getAll: vi.fn() }
+}))
+
+vi.mock('./repositories/sessions-repository', () => ({
+  sessionsRepository: { getAll: vi.fn() }
+}))
+
+vi.mock('./repositories/entries-repository', () => ({
+  entriesRepository: { getBySessionIds: vi.fn(), updateFields: vi.fn() }
+}))
+
+vi.mock('./repositories/profiles-repository', () => ({
+  profilesRepository: { getAll: vi.fn() }
+}))
+
+vi.mock('./repositories/records-repository', () => ({
+  recordsRepository: { getAll: vi.fn() }
+}))
+
+vi.mock('./email-renderer', () => ({
+  renderEmail: vi.fn()
+}))
+
+vi.mock('./mail-transport', () => ({
+  sendEmail: vi.fn(),
+  EmailRateLimitError: class EmailRateLimitError extends Error {}
+}))
+
+import {
+  parseEmailSchedule, emailScheduleField, dueSessionEmails, runScheduledSessionEmails
+} from './session-email-scheduler'
+import { groupsRepository } from './repositories/groups-repository'
+import { sessionsRepository } from './repositories/sessions-repository'
+import { entriesRepository } from './repositories/entries-repository'
+import { profilesRepository } from './repositories/profiles-repository'
+import { recordsRepository } from './repositories/records-repository'
+import { renderEmail } from './email-renderer'
+import { sendEmail, EmailRateLimitError } from './mail-transport'
+import { utcToLocalDate } from './sharepoint-client'
+
+const TODAY = '2026-06-10'
+
+function group(id: number, schedule: object | null): SharePointGroup {
+  return { ID: id, Title: `G${id}`, EmailSchedule: schedule ? JSON.stringify(schedule) : undefined, Created: '', Modified: '' }
+}
+
+function session(id: number, date: string, groupId = 1) {
+  return { ID: id, Title: `${date} g${groupId}`, Date: date, GroupLookupId: String(groupId), Created: '', Modified: '' } as any
+}
+
+function entry(id: number, sessionId: number, overrides: Partial<SharePointEntry> = {}): SharePointEntry {
+  return { ID: id, SessionLookupId: String(sessionId), ProfileLookupId: '42', Profile: 'Alex Smith', Created: '', Modified: '', ...overrides }
+}
+
+const PROFILES: SharePointProfile[] = [{ ID: 42, Title: 'Alex Smith', Email: 'alex@example.org', Created: '', Modified: '' }]
+
+describe('parseEmailSchedule', () => {
+  it('reads the group setting and clamps the lead time', () => {
+    expect(parseEmailSchedule('{"preTemplate":"pre-social","daysBefore":3,"postSession":true}'))
+      .toEqual({ preTemplate: 'pre-social', daysBefore: 3, postSession: true })
+    expect(parseEmailSchedule('{"preTemplate":"pre-dig","daysBefore":99}')?.daysBefore).toBe(14)
+  })
+
+  it('treats blank, broken or empty settings as off', () => {
+    expect(parseEmailSchedule(undefined)).toBeNull()
+    expect(parseEmailSchedule('not json')).toBeNull()
+    expect(parseEmailSchedule('{"preTemplate":null,"postSession":false}')).toBeNull()
+  })
+
+  it('turns the schedule on for the regulars RSVP alone', () => {
+    expect(parseEmailSchedule('{"preTemplate":null,"postSession":false,"rsvpDaysBefore":5}'))
+      .toEqual({ preTemplate: null, daysBefore: 2, postSession: false, rsvpDaysBefore: 5 })
+    expect(parseEmailSchedule('{"rsvpDaysBefore":30}')?.rsvpDaysBefore).toBe(14)
+    expect(parseEmailSchedule('{"preTemplate":"pre-dig"}')).not.toHaveProperty('rsvpDaysBefore')
+  })
+})
+
+describe('emailScheduleField', () => {
+  it('validates the PATCH value', () => {
+    expect(emailScheduleField({ preTemplate: 'pre-dig', daysBefore: 2 })).toEqual({
+      value: '{"preTemplate":"pre-dig","daysBefore":2,"postSession":false}',
+    })
+    expect(emailScheduleField(null)).toEqual({ value: null })
+    expect(emailScheduleField({ preTemplate: 'post-session' })).toHaveProperty('error')
+    expect(emailScheduleField({ preTemplate: 'pre-dig', daysBefore: 0 })).toHaveProperty('error')
+  })
+
+  it('validates rsvpDaysBefore', () => {
+    expect(emailScheduleField({ preTemplate: null, rsvpDaysBefore: 5 })).toEqual({
+      value: '{"preTemplate":null,"daysBefore":2,"postSession":false,"rsvpDaysBefore":5}',
+    })
+    expect(emailScheduleField({ preTemplate: null, rsvpDaysBefore: null })).toEqual({ value: null })
+    expect(emailScheduleField({ rsvpDaysBefore: 15 })).toHaveProperty('error')
+    expect(emailScheduleField({ rsvpDaysBefore: '5' })).toHaveProperty('error')
+  })
+})
+
+describe('dueSessionEmails', () => {
+  const groups = [group(1, { preTemplate: 'pre-dig', daysBefore: 2, postSession: true }), group(2, null)]
+
+  it('sends the reminder within the lead time, not before and not on the day', () => {
+    const sessions = [session(10, '2026-06-12'), session(11, '2026-06-13'), session(12, '2026-06-10'), session(13, '2026-06-11')]
+    const entries = [entry(1, 10), entry(2, 11), entry(3, 12), entry(4, 13)]
+    const due = dueSessionEmails(TODAY, groups, sessions, entries, PROFILES)
+    expect(due.map(d => [d.entry.ID, d.template, d.to])).toEqual([
+      [1, 'pre-dig', 'alex@example.org'],
+      [4, 'pre-dig', 'alex@example.org'],
+    ])
+  })
+
+  it('skips groups without a schedule, cancelled and waitlisted bookings and profiles with no email', () => {
+    const sessions = [session(10, '2026-06-12'), session(20, '2026-06-12', 2)]
+    const entries = [
+      entry(1, 20),
+      entry(2, 10, { Cancelled: '2026-06-01T10:00:00Z' }),
+      entry(3, 10, { Waitlisted: '2026-06-01T10:00:00Z' }),
+      entry(4, 10, { ProfileLookupId: '99' }),
+    ]
+    expect(dueSessionEmails(TODAY, groups, sessions, entries, PROFILES)).toEqual([])
+  })
+
+  it('never repeats a pre-session email, even after the template changes', () => {
+    const sessions = [session(10, '2026-06-12')]
+    const switched = [group(1, { preTemplate: 'pre-social', daysBefore: 2 })]
+    const entries = [entry(1, 10, { EmailsSent: '{"pre-dig":"2026-06-09T02:00:00Z"}' })]
+    expect(dueSessionEmails(TODAY, switched, sessions, entries, PROFILES)).toEqual([])
+  })
+
+  it('sends post-session once checked in with hours, within the window', () => {
+    const sessions = [session(10, '2026-06-07'), session(11, '2026-05-20')]
+    const entries = [
+      entry(1, 10, { Checked: true, Hours: 3 }),
+      entry(2, 10, { Checked: true, Hours: 0 }),
+      entry(3, 10, { Checked: false, Hours: 3 }),
+      entry(4, 10, { Checked: true, Hours: 3, EmailsSent: '{"post-session":"2026-06-08T02:00:00Z"}' }),
+      entry(5, 11, { Checked: true, Hours: 3 }),
+    ]
+    expect(dueSessionEmails(TODAY, groups, sessions, entries, PROFILES).map(d => [d.entry.ID, d.template])).toEqual([
+      [1, 'post-session'],
+    ])
+  })
+})
+
+describe('runScheduledSessionEmails', () => {
+  const today = utcToLocalDate(new Date().toISOString())
+  const tomorrow = new Date(Date.parse(today) + 86_400_000).toISOString().slice(0, 10)
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.spyOn(console, 'log').mockImplementation(() => {})
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+    vi.mocked(groupsRepository.getAll).mockResolvedValue([group(1, { preTemplate: 'pre-dig', daysBefore: 2 })])
+    vi.mocked(sessionsRepository.getAll).mockResolvedValue([session(10, tomorrow)])
+    vi.mocked(profilesRepository.getAll).mockResolvedValue(PROFILES)
+    vi.mocked(recordsRepository.getAll).mockResolvedValue([])
+    vi.mocked(entriesRepository.getBySessionIds).mockResolvedValue([entry(1, 10)])
+    vi.mocked(entriesRepository.updateFields).mockResolvedValue(undefined)
+    vi.mocked(renderEmail).mockResolvedValue({ subject: 'See you tomorrow', html: '<p>Hi</p>', text: 'Hi' })
+  })
+
+  it('stamps the entry and sends', async () => {
+    vi.mocked(sendEmail).mockResolvedValue(undefined)
+    const result = await runScheduledSessionEmails('https://tracker.example.org')
+
+    expect(result).toMatchObject({ sent: 1, failed: 0, byTemplate: { 'pre-dig': 1 } })
+    expect(sendEmail).toHaveBeenCalledWith(expect.objectContaining({ to: 'alex@example.org', subject: 'See you tomorrow' }))
+    const [entryId, fields] = vi.mocked(entriesRepository.updateFields).mock.calls[0]
+    expect(entryId).toBe(1)
+    expect(Object.keys(JSON.parse(fields.EmailsSent))).toEqual(['pre-dig'])
+  })
+
+  it('rolls the stamp back when the send fails so it is retried next run', async () => {
+    vi.mocked(sendEmail).mockRejectedValue(new Error('Graph sendMail failed: 503'))
+    const result = await runScheduledSessionEmails('https://tracker.example.org')
+
+    expect(result).toMatchObject({ sent: 0, failed: 1 })
+    expect(vi.mocked(entriesRepository.updateFields).mock.calls[1]).toEqual([1, { EmailsSent: null }])
+  })
+
+  it('stops at the hourly email limit', async () => {
+    vi.mocked(entriesRepository.getBySessionIds).mockResolvedValue([entry(1, 10), entry(2, 10)])
+    vi.mocked(sendEmail).mockRejectedValue(new EmailRateLimitError())
+    const result = await runScheduledSessionEmails('https://tracker.example.org')
+
+    expect(result).toMatchObject({ sent: 0, failed: 1 })
+    expect(sendEmail).toHaveBeenCalledTimes(1)
+  })
+
+  it('does nothing when no group has a schedule', async () => {
+    vi.mocked(groupsRepository.getAll).mockResolvedValue([group(1, null)])
+    expect(await runScheduledSessionEmails('https://tracker.example.org')).toMatchObject({ sent: 0, failed: 0 })
+    expect(sessionsRepository.getAll).not.toHaveBeenCalled()
+  })
+})
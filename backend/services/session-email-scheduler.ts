@@ -0,0 +1,227 @@
+/**
+ * Scheduled session emails — sent by the nightly run instead of a check-in user clicking
+ * Notify on each entry.
+ *
+ * Each group opts in through its EmailSchedule setting (GROUP_EMAIL_SCHEDULE):
+ *   - preTemplate (pre-dig | pre-social) is sent to confirmed bookings once the session is
+ *     within daysBefore days. A booking made later still gets it the next night, up to the day before.
+ *   - postSession is sent after the session, once the entry is checked in with hours set, for up
+ *     to POST_SESSION_WINDOW_DAYS — turning it on never emails people about old sessions.
+ *   - rsvpDaysBefore books the group's regulars and asks them to confirm — see regular-rsvp.ts.
+ *
+ * What was sent is stamped on the entry (ENTRY_EMAILS_SENT) — by this scheduler and by manual
+ * sends from POST /entries/:id/notify — so nobody gets the same email twice.
+ */
+
+import { groupsRepository } from './repositories/groups-repository';
+import { sessionsRepository } from './repositories/sessions-repository';
+import { entriesRepository } from './repositories/entries-repository';
+import { profilesRepository } from './repositories/profiles-repository';
+import { recordsRepository } from './repositories/records-repository';
+import { safeParseLookupId, parseHours, parseEmails } from './data-layer';
+import { utcToLocalDate } from './sharepoint-client';
+import { buildPreSessionVars, buildPostSessionVars } from './email-vars';
+import { renderEmail } from './email-renderer';
+import { sendEmail, EmailRateLimitError } from './mail-transport';
+import {
+  GROUP_LOOKUP, SESSION_LOOKUP, PROFILE_LOOKUP, ENTRY_CANCELLED, ENTRY_WAITLISTED,
+  ENTRY_EMAILS_SENT, GROUP_EMAIL_SCHEDULE
+} from './field-names';
+import type { SharePointEntry, SharePointProfile } from '../../types/sharepoint';
+import type { SharePointSession } from '../../types/session';
+import type { SharePointGroup } from '../../types/group';
+import type { GroupEmailSchedule } from '../../types/api-responses';
+
+export const PRE_SESSION_TEMPLATES = ['pre-dig', 'pre-social'] as const;
+export type PreSessionTemplate = typeof PRE_SESSION_TEMPLATES[number];
+export type SessionEmailTemplate = PreSessionTemplate | 'post-session';
+
+export const MAX_DAYS_BEFORE = 14;
+export const POST_SESSION_WINDOW_DAYS = 7;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** EmailSchedule column → settings; null when the group has no scheduled emails */
+export function parseEmailSchedule(raw: string | null | undefined): GroupEmailSchedule | null {
+  if (!raw) return null;
+  try {
+    const parsed = JSON.parse(raw);
+    const preTemplate = (PRE_SESSION_TEMPLATES as readonly string[]).includes(parsed?.preTemplate) ? parsed.preTemplate : null;
+    const daysBefore = Number.isInteger(parsed?.daysBefore) ? Math.min(Math.max(parsed.daysBefore, 1), MAX_DAYS_BEFORE) : 2;
+    const postSession = parsed?.postSession === true;
+    const rsvpDaysBefore = Number.isInteger(parsed?.rsvpDaysBefore) ? Math.min(Math.max(parsed.rsvpDaysBefore, 1), MAX_DAYS_BEFORE) : undefined;
+    if (!preTemplate && !postSession && rsvpDaysBefore === undefined) return null;
+    return { preTemplate, daysBefore, postSession, ...(rsvpDaysBefore !== undefined && { rsvpDaysBefore }) };
+  } catch {
+    return null;
+  }
+}
+
+/** Validates a PATCH body value; returns the column value (null clears) or an error message */
+export function emailScheduleField(value: unknown): { value: string | null } | { error: string } {
+  if (value === null) return { value: null };
+  if (typeof value !== 'object') return { error: 'emailSchedule must be an object or null' };
+  const { preTemplate, daysBefore, postSession, rsvpDaysBefore } = value as Record<string, unknown>;
+  if (preTemplate !== null && preTemplate !== undefined && !(PRE_SESSION_TEMPLATES as readonly unknown[]).includes(preTemplate)) {
+    return { error: `preTemplate must be one of ${PRE_SESSION_TEMPLATES.join(', ')} or null` };
+  }
+  if (daysBefore !== undefined && (!Number.isInteger(daysBefore) || (daysBefore as number) < 1 || (daysBefore as number) > MAX_DAYS_BEFORE)) {
+    return { error: `daysBefore must be a whole number from 1 to ${MAX_DAYS_BEFORE}` };
+  }
+  if (postSession !== undefined && typeof postSession !== 'boolean') {
+    return { error: 'postSession must be true or false' };
+  }
+  if (rsvpDaysBefore !== undefined && rsvpDaysBefore !== null &&
+      (!Number.isInteger(rsvpDaysBefore) || (rsvpDaysBefore as number) < 1 || (rsvpDaysBefore as number) > MAX_DAYS_BEFORE)) {
+    return { error: `rsvpDaysBefore must be a whole number from 1 to ${MAX_DAYS_BEFORE} or null` };
+  }
+  const rsvp = typeof rsvpDaysBefore === 'number' ? rsvpDaysBefore : undefined;
+  if (!preTemplate && !postSession && rsvp === undefined) return { value: null };
+  return { value: JSON.stringify({ preTemplate: preTemplate ?? null, daysBefore: daysBefore ?? 2, postSession: postSession === true, ...(rsvp !== undefined && { rsvpDaysBefore: rsvp }) }) };
+}
+
+/** EmailsSent column → template → ISO datetime sent */
+export function parseEmailsSent(raw: string | null | undefined): Record<string, string> {
+  if (!raw) return {};
+  try {
+    const parsed = JSON.parse(raw);
+    return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : {};
+  } catch {
+    return {};
+  }
+}
+
+/** Record that template was sent to this entry; updates the passed entry too. */
+export async function markSessionEmailSent(entry: SharePointEntry, template: string, sentAt = new Date().toISOString()): Promise<void> {
+  const sent = { ...parseEmailsSent(entry[ENTRY_EMAILS_SENT]), [template]: sentAt };
+  await entriesRepository.updateFields(entry.ID, { [ENTRY_EMAILS_SENT]: JSON.stringify(sent) });
+  entry[ENTRY_EMAILS_SENT] = JSON.stringify(sent);
+}
+
+function daysBetween(fromDate: string, toDate: string): number {
+  return Math.round((Date.parse(toDate) - Date.parse(fromDate)) / DAY_MS);
+}
+
+export interface DueSessionEmail {
+  template: SessionEmailTemplate;
+  entry: SharePointEntry;
+  session: SharePointSession;
+  group: SharePointGroup;
+  profile: SharePointProfile;
+  to: string;
+}
+
+/**
+ * Which emails are due tonight. Pure — today is the site-local YYYY-MM-DD.
+ * Any pre-session email already sent counts, so changing a group's template doesn't send a second reminder.
+ */
+export function dueSessionEmails(
+  today: string,
+  groups: SharePointGroup[],
+  sessions: SharePointSession[],
+  entries: SharePointEntry[],
+  profiles: SharePointProfile[]
+): DueSessionEmail[] {
+  const schedules = new Map<number, { group: SharePointGroup; schedule: GroupEmailSchedule }>();
+  for (const group of groups) {
+    const schedule = parseEmailSchedule(group[GROUP_EMAIL_SCHEDULE]);
+    if (schedule) schedules.set(group.ID, { group, schedule });
+  }
+  const sessionsById = new Map(sessions.map(s => [s.ID, s]));
+  const profilesById = new Map(profiles.map(p => [p.ID, p]));
+
+  const due: DueSessionEmail[] = [];
+  for (const entry of entries) {
+    if (entry[ENTRY_CANCELLED] || entry[ENTRY_WAITLISTED]) continue;
+    const session = sessionsById.get(safeParseLookupId(entry[SESSION_LOOKUP]) as number);
+    if (!session?.Date) continue;
+    const configured = schedules.get(safeParseLookupId(session[GROUP_LOOKUP] as unknown as string) as number);
+    if (!configured) continue;
+    const profile = profilesById.get(safeParseLookupId(entry[PROFILE_LOOKUP]) as number);
+    const to = profile ? parseEmails(profile.Email)[0] : undefined;
+    if (!profile || !to) continue;
+
+    const { group, schedule } = configured;
+    const sent = parseEmailsSent(entry[ENTRY_EMAILS_SENT]);
+    const daysUntil = daysBetween(today, session.Date.slice(0, 10));
+
+    if (schedule.preTemplate && daysUntil > 0 && daysUntil <= schedule.daysBefore &&
+        !PRE_SESSION_TEMPLATES.some(t => sent[t])) {
+      due.push({ template: schedule.preTemplate, entry, session, group, profile, to });
+    }
+    if (schedule.postSession && daysUntil < 0 && -daysUntil <= POST_SESSION_WINDOW_DAYS &&
+        entry.Checked && parseHours(entry.Hours) > 0 && !sent['post-session']) {
+      due.push({ template: 'post-session', entry, session, group, profile, to });
+    }
+  }
+  return due;
+}
+
+export interface ScheduledEmailResult {
+  sent: number;
+  failed: number;
+  byTemplate: Partial<Record<SessionEmailTemplate, number>>;
+  errors: string[];
+}
+
+/** Nightly run step — send every due email and stamp each entry as it goes. */
+export async function runScheduledSessionEmails(baseUrl: string): Promise<ScheduledEmailResult> {
+  const result: ScheduledEmailResult = { sent: 0, failed: 0, byTemplate: {}, errors: [] };
+  const groups = await groupsRepository.getAll();
+  if (!groups.some(g => parseEmailSchedule(g[GROUP_EMAIL_SCHEDULE]))) return result;
+
+  const today = utcToLocalDate(new Date().toISOString());
+  const [sessions, profiles, records] = await Promise.all([
+    sessionsRepository.getAll(),
+    profilesRepository.getAll(),
+    recordsRepository.getAll(),
+  ]);
+
+  // Only sessions inside either window can have anything due
+  const candidateIds = sessions
+    .filter(s => {
+      if (!s.Date) return false;
+      const days = daysBetween(today, s.Date.slice(0, 10));
+      return days >= -POST_SESSION_WINDOW_DAYS && days <= MAX_DAYS_BEFORE && days !== 0;
+    })
+    .map(s => s.ID);
+  if (candidateIds.length === 0) return result;
+
+  const entries = await entriesRepository.getBySessionIds(candidateIds);
+  const due = dueSessionEmails(today, groups, sessions, entries, profiles);
+
+  for (const item of due) {
+    try {
+      const sessionEntries = entries.filter(e => safeParseLookupId(e[SESSION_LOOKUP]) === item.session.ID);
+      const profileRecords = records.filter(r => safeParseLookupId(r[PROFILE_LOOKUP] as unknown as string) === item.profile.ID);
+      const vars = item.template === 'post-session'
+        ? buildPostSessionVars(item.entry, item.session, item.profile, item.group, sessionEntries, sessions, baseUrl, profileRecords)
+        : buildPreSessionVars(item.entry, item.session, item.profile, item.group, sessionEntries, baseUrl, profileRecords);
+      const { subject, html, text } = await renderEmail(item.template, vars);
+
+      // Stamp before sending: if the stamp can't be written we skip rather than risk a repeat
+      // tomorrow; if the send fails the stamp is rolled back so it's retried next run.
+      const previous = item.entry[ENTRY_EMAILS_SENT] ?? null;
+      await markSessionEmailSent(item.entry, item.template);
+      try {
+        await sendEmail({ to: item.to, subject, html, text });
+      } catch (sendErr) {
+        await entriesRepository.updateFields(item.entry.ID, { [ENTRY_EMAILS_SENT]: previous }).catch(err =>
+          console.error(`[Session Emails] Failed to roll back EmailsSent on entry ${item.entry.ID}:`, err.message)
+        );
+        throw sendErr;
+      }
+      result.sent++;
+      result.byTemplate[item.template] = (result.byTemplate[item.template] ?? 0) + 1;
+    } catch (err: any) {
+      result.failed++;
+      result.errors.push(`entry ${item.entry.ID} ${item.template}: ${err.message}`);
+      console.error(`[Session Emails] Failed ${item.template} for entry ${item.entry.ID}:`, err.message);
+      // The rest would fail the same way; they're still unstamped, so tomorrow's run picks them up
+      if (err instanceof EmailRateLimitError) break;
+    }
+  }
+
+  console.log(`[Session Emails] ${result.sent} sent, ${result.failed} failed`);
+  return result;
+}
@@ -3,7 +3,7 @@
  */
 
 import type { SharePointSession } from '../../types/session';
-import { calculateCurrentFY, calculateFinancialYear, parseSessionStats, safeParseLookupId } from './data-layer';
+import { calculateCurrentFY, calculateFinancialYear, isSessionCancelled, parseSessionStats, safeParseLookupId } from './data-layer';
 import { GROUP_LOOKUP, PROJECT_LOOKUP, SESSION_STATS } from './field-names';
 
 export type FyScope = 'current' | 'all';
@@ -37,7 +37,7 @@ function sessionInFyScope(s: SharePointSession, fyScope: FyScope): boolean {
   return d >= fyStart && d <= fyEnd;
 }
 
-/** Sum session count and hours for sessions matching scope (and optional current FY). */
+/** Sum session count and hours for sessions matching scope (and optional current FY); cancelled sessions are skipped. */
 export function aggregateSessionStatsForScope(
   sessions: SharePointSession[],
   scope: SessionScopeFilter,
@@ -48,7 +48,7 @@ export function aggregateSessionStatsForScope(
   let hours = 0;
 
   for (const s of sessions) {
-    if (!s.Date || !sessionInScope(s, scope)) continue;
+    if (!s.Date || !sessionInScope(s, scope) || isSessionCancelled(s)) continue;
     if (!sessionInFyScope(s, fyScope)) continue;
     const stats = parseSessionStats(s[SESSION_STATS] as string | undefined);
     sessionsCount += 1;
@@ -0,0 +1,129 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import type { SharePointGroup } from '../../types/group'
+
+vi.mock('./repositories/sessions-repository', () => ({
+  sessionsRepository: { getAll: vi.fn(), createMany: vi.fn(), deleteMany: vi.fn() }
+}))
+
+vi.mock('./repositories/entries-repository', () => ({
+  entriesRepository: { getAll: vi.fn() }
+}))
+
+vi.mock('./taxonomy-client', () => ({
+  taxonomyClient: { updateManagedMetadataFields: vi.fn() }
+}))
+
+import {
+  bankHolidays, seriesDates, parseRecurrence, recurrenceField, generateSeries, deleteUnbookedSeries, SessionSeriesError
+} from './session-series'
+import { sessionsRepository } from './repositories/sessions-repository'
+import { entriesRepository } from './repositories/entries-repository'
+import { taxonomyClient } from './taxonomy-client'
+
+const TAG = { label: 'Hedgelaying', termGuid: 'guid-1' }
+const RULE = { weekday: 6, time: '09:30', length: 3, skipBankHolidays: true, skipDates: [], tags: [] }
+
+function group(rule: object | null): SharePointGroup {
+  return { ID: 1, Title: 'Sat', Recurrence: rule ? JSON.stringify(rule) : undefined, Created: '', Modified: '' }
+}
+
+function session(id: number, date: string, extra: object = {}) {
+  return { ID: id, Title: `${date} Sat`, Date: date, GroupLookupId: '1', Created: '', Modified: '', ...extra } as any
+}
+
+beforeEach(() => {
+  vi.clearAllMocks()
+  vi.mocked(sessionsRepository.getAll).mockResolvedValue([])
+  vi.mocked(entriesRepository.getAll).mockResolvedValue([])
+})
+
+describe('bankHolidays', () => {
+  it('lists the standing England and Wales holidays', () => {
+    expect([...bankHolidays(2026)].sort()).toEqual([
+      '2026-01-01', '2026-04-03', '2026-04-06', '2026-05-04', '2026-05-25', '2026-08-31', '2026-12-25', '2026-12-26', '2026-12-28'
+    ])
+  })
+
+  it('keeps a weekend Christmas and adds both substitute days', () => {
+    const days = bankHolidays(2027)
+    expect(['2027-12-25', '2027-12-26', '2027-12-27', '2027-12-28'].every(d => days.has(d))).toBe(true)
+  })
+})
+
+describe('seriesDates', () => {
+  it('steps weekly from the first matching weekday and marks skipped dates', () => {
+    const rule = parseRecurrence(JSON.stringify({ ...RULE, skipDates: ['2026-12-19'] }))!
+    expect(seriesDates(rule, '2026-12-14', 3)).toEqual([
+      { date: '2026-12-19', skip: 'skip-date' },
+      { date: '2026-12-26', skip: 'bank-holiday' },
+      { date: '2027-01-02' },
+    ])
+  })
+})
+
+describe('recurrenceField', () => {
+  it('fills defaults and normalises skip dates', () => {
+    const parsed = recurrenceField({ weekday: 6, skipDates: ['2026-08-01', '2026-07-04', '2026-08-01'], limits: { total: 16 }, tags: [TAG] })
+    expect('value' in parsed && JSON.parse(parsed.value!)).toEqual({
+      weekday: 6, time: '09:30', length: 3, skipBankHolidays: false, skipDates: ['2026-07-04', '2026-08-01'], limits: { total: 16 }, tags: [TAG]
+    })
+  })
+
+  it('rejects a bad weekday or limit', () => {
+    expect(recurrenceField({ weekday: 7 })).toEqual({ error: 'weekday must be 0 (Sunday) to 6 (Saturday)' })
+    expect(recurrenceField({ weekday: 6, limits: { total: -1 } })).toHaveProperty('error')
+    expect(recurrenceField(null)).toEqual({ value: null })
+  })
+})
+
+describe('generateSeries', () => {
+  it('creates only the dates without a session, with the rule defaults', async () => {
+    vi.mocked(sessionsRepository.getAll).mockResolvedValue([session(10, '2026-07-11')])
+    vi.mocked(sessionsRepository.createMany).mockResolvedValue([{ ok: true, id: 20 }, { ok: true, id: 21 }])
+    vi.mocked(taxonomyClient.updateManagedMetadataFields).mockResolvedValue([{ ok: true, id: 20 }, { ok: false, error: '400' }])
+
+    const result = await generateSeries(group({ ...RULE, projectId: 5, limits: { total: 16 }, tags: [TAG] }), { from: '2026-07-04', weeks: 3 })
+
+    expect(sessionsRepository.createMany).toHaveBeenCalledWith([
+      { Title: '2026-07-04 Sat', Date: '2026-07-04', GroupLookupId: '1', Time: '09:30', Length: 3, Limits: '{"total":16}', ProjectLookupId: '5' },
+      expect.objectContaining({ Title: '2026-07-18 Sat' }),
+    ])
+    expect(result.created).toEqual([{ date: '2026-07-04', id: 20 }, { date: '2026-07-18', id: 21 }])
+    expect(result.existing).toEqual([{ date: '2026-07-11', id: 10 }])
+    expect(result.untagged).toEqual(['2026-07-18'])
+  })
+
+  it('previews without writing on a dry run', async () => {
+    const result = await generateSeries(group(RULE), { from: '2026-07-04', weeks: 2, skipDates: ['2026-07-11'], dryRun: true })
+    expect(result.created).toEqual([{ date: '2026-07-04' }])
+    expect(result.skipped).toEqual([{ date: '2026-07-11', reason: 'skip-date' }])
+    expect(sessionsRepository.createMany).not.toHaveBeenCalled()
+  })
+
+  it('refuses a group without a rule', async () => {
+    await expect(generateSeries(group(null))).rejects.toBeInstanceOf(SessionSeriesError)
+  })
+})
+
+describe('deleteUnbookedSeries', () => {
+  it('deletes future sessions with no entries and keeps booked or Eventbrite ones', async () => {
+    vi.mocked(sessionsRepository.getAll).mockResolvedValue([
+      session(1, '2020-01-04'),
+      session(2, '2099-01-03'),
+      session(3, '2099-01-10'),
+      session(4, '2099-01-17', { EventbriteEventID: '555' }),
+      { ...session(5, '2099-01-24'), Title: '2099-01-24 Sun', GroupLookupId: '2' },
+    ])
+    vi.mocked(entriesRepository.getAll).mockResolvedValue([{ ID: 9, SessionLookupId: '3', Cancelled: '2098-12-01' }] as any)
+    vi.mocked(sessionsRepository.deleteMany).mockResolvedValue([{ ok: true, id: 2 }])
+
+    const result = await deleteUnbookedSeries(group(RULE))
+
+    expect(sessionsRepository.deleteMany).toHaveBeenCalledWith([2])
+    expect(result.deleted).toEqual([{ date: '2099-01-03', id: 2 }])
+    expect(result.kept).toEqual([
+      { date: '2099-01-10', id: 3, reason: 'booked' },
+      { date: '2099-01-17', id: 4, reason: 'eventbrite' },
+    ])
+  })
+})
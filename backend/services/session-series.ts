@@ -0,0 +1,348 @@
+/**
+ * Session series — a group's weekly pattern turned into Sessions ahead of time.
+ *
+ * The rule lives on the group (GROUP_RECURRENCE): weekday, start time and length, default
+ * Limits, project and tags for each new session, plus dates to skip and an option to skip
+ * England and Wales bank holidays. generateSeries creates the next N weeks of sessions and is
+ * idempotent: a date that already has a session for the group ("{date} {group}" Title, or the
+ * group lookup and date) is left alone. deleteUnbookedSeries removes the group's future
+ * sessions nobody has booked, keeping any linked to Eventbrite.
+ *
+ * Both take dryRun to report what they would do without writing.
+ */
+
+import { sessionsRepository } from './repositories/sessions-repository';
+import { entriesRepository } from './repositories/entries-repository';
+import { taxonomyClient } from './taxonomy-client';
+import { utcToLocalDate } from './sharepoint-client';
+import {
+  safeParseLookupId, parseSessionTime, parseSessionLength, DEFAULT_SESSION_TIME, DEFAULT_SESSION_LENGTH,
+  type SessionLimits
+} from './data-layer';
+import {
+  GROUP_LOOKUP, PROJECT_LOOKUP, SESSION_LOOKUP, SESSION_LIMITS, SESSION_METADATA, SESSION_TIME, SESSION_LENGTH,
+  GROUP_RECURRENCE
+} from './field-names';
+import type { SharePointGroup } from '../../types/group';
+import type { SharePointSession } from '../../types/session';
+import type {
+  GroupRecurrence, SessionSeriesDeleteResponse, SessionSeriesResponse, SessionSeriesSkipReason
+} from '../../types/api-responses';
+
+export const MAX_SERIES_WEEKS = 52;
+export const DEFAULT_SERIES_WEEKS = 8;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DATE_RE = /^\d{4}-\d{2}-\d{2}$/;
+const LIMIT_KEYS: (keyof SessionLimits)[] = ['new', 'repeat', 'total', 'child'];
+
+export class SessionSeriesError extends Error {
+  constructor(message: string, public readonly statusCode = 400) {
+    super(message);
+    this.name = 'SessionSeriesError';
+  }
+}
+
+function isDate(value: unknown): value is string {
+  return typeof value === 'string' && DATE_RE.test(value) && !isNaN(Date.parse(value));
+}
+
+function addDays(date: string, days: number): string {
+  return new Date(Date.parse(date) + days * DAY_MS).toISOString().slice(0, 10);
+}
+
+function weekdayOf(date: string): number {
+  return new Date(Date.parse(date)).getUTCDay();
+}
+
+function ymd(year: number, month: number, day: number): string {
+  return new Date(Date.UTC(year, month - 1, day)).toISOString().slice(0, 10);
+}
+
+/** Easter Sunday (Gregorian, anonymous algorithm) */
+function easterSunday(year: number): string {
+  const a = year % 19, b = Math.floor(year / 100), c = year % 100;
+  const d = Math.floor(b / 4), e = b % 4, f = Math.floor((b + 8) / 25);
+  const g = Math.floor((b - f + 1) / 3);
+  const h = (19 * a + b - d - g + 15) % 30;
+  const i = Math.floor(c / 4), k = c % 4;
+  const l = (32 + 2 * e + 2 * i - h - k) % 7;
+  const m = Math.floor((a + 11 * h + 22 * l) / 451);
+  const month = Math.floor((h + l - 7 * m + 114) / 31);
+  const day = ((h + l - 7 * m + 114) % 31) + 1;
+  return ymd(year, month, day);
+}
+
+/** First (n = 1) or last (n = -1) Monday of a month */
+function monday(year: number, month: number, n: 1 | -1): string {
+  let date = n === 1 ? ymd(year, month, 1) : addDays(ymd(year, month + 1, 1), -1);
+  while (weekdayOf(date) !== 1) date = addDays(date, n);
+  return date;
+}
+
+/**
+ * England and Wales bank holidays for a year, from the standing rules. A fixed-date holiday on a
+ * weekend is listed on that day and on its substitute weekday, so a Saturday group skips
+ * Christmas Day itself. One-off holidays (coronations, jubilees) aren't included — add them as
+ * skip dates.
+ */
+export function bankHolidays(year: number): Set<string> {
+  const easter = easterSunday(year);
+  const days = new Set([
+    addDays(easter, -2),
+    addDays(easter, 1),
+    monday(year, 5, 1),
+    monday(year, 5, -1),
+    monday(year, 8, -1),
+  ]);
+  const fixedDays = [ymd(year, 1, 1), ymd(year, 12, 25), ymd(year, 12, 26)];
+  for (const fixed of fixedDays) days.add(fixed);
+  for (const fixed of fixedDays) {
+    if (weekdayOf(fixed) !== 0 && weekdayOf(fixed) !== 6) continue;
+    let substitute = addDays(fixed, 1);
+    while (weekdayOf(substitute) === 0 || weekdayOf(substitute) === 6 || days.has(substitute)) {
+      substitute = addDays(substitute, 1);
+    }
+    days.add(substitute);
+  }
+  return days;
+}
+
+function parseLimits(raw: unknown): SessionLimits | undefined {
+  if (!raw || typeof raw !== 'object') return undefined;
+  const limits: SessionLimits = {};
+  for (const key of LIMIT_KEYS) {
+    const value = (raw as Record<string, unknown>)[key];
+    if (Number.isInteger(value) && (value as number) >= 0) limits[key] = value as number;
+  }
+  return Object.keys(limits).length ? limits : undefined;
+}
+
+function parseTags(raw: unknown): GroupRecurrence['tags'] {
+  if (!Array.isArray(raw)) return [];
+  return raw
+    .filter(t => t && typeof t.label === 'string' && t.label)
+    .map(t => ({ label: t.label, termGuid: typeof t.termGuid === 'string' ? t.termGuid : '' }));
+}
+
+/** Recurrence column → rule; null when the group has no series */
+export function parseRecurrence(raw: string | null | undefined): GroupRecurrence | null {
+  if (!raw) return null;
+  try {
+    const parsed = JSON.parse(raw);
+    if (!Number.isInteger(parsed?.weekday) || parsed.weekday < 0 || parsed.weekday > 6) return null;
+    const limits = parseLimits(parsed.limits);
+    return {
+      weekday: parsed.weekday,
+      time: parseSessionTime(parsed.time) ?? DEFAULT_SESSION_TIME,
+      length: parseSessionLength(parsed.length) ?? DEFAULT_SESSION_LENGTH,
+      skipBankHolidays: parsed.skipBankHolidays === true,
+      skipDates: Array.isArray(parsed.skipDates) ? parsed.skipDates.filter(isDate) : [],
+      ...(limits && { limits }),
+      ...(Number.isInteger(parsed.projectId) && { projectId: parsed.projectId }),
+      tags: parseTags(parsed.tags),
+    };
+  } catch {
+    return null;
+  }
+}
+
+/** Validates a PATCH body value; returns the column value (null clears) or an error message */
+export function recurrenceField(value: unknown): { value: string | null } | { error: string } {
+  if (value === null) return { value: null };
+  if (typeof value !== 'object' || Array.isArray(value)) return { error: 'recurrence must be an object or null' };
+  const { weekday, time, length, skipBankHolidays, skipDates, limits, projectId, tags } = value as Record<string, unknown>;
+
+  if (!Number.isInteger(weekday) || (weekday as number) < 0 || (weekday as number) > 6) {
+    return { error: 'weekday must be 0 (Sunday) to 6 (Saturday)' };
+  }
+  if (time !== undefined && !parseSessionTime(time)) return { error: 'time must be HH:MM (24-hour clock)' };
+  if (length !== undefined && parseSessionLength(length) === undefined) return { error: 'length must be a positive number of hours' };
+  if (skipBankHolidays !== undefined && typeof skipBankHolidays !== 'boolean') return { error: 'skipBankHolidays must be true or false' };
+  if (skipDates !== undefined && (!Array.isArray(skipDates) || !skipDates.every(isDate))) {
+    return { error: 'skipDates must be a list of YYYY-MM-DD dates' };
+  }
+  if (limits !== undefined && limits !== null) {
+    if (typeof limits !== 'object' || Object.entries(limits).some(([k, v]) =>
+      !(LIMIT_KEYS as string[]).includes(k) || !Number.isInteger(v) || (v as number) < 0)) {
+      return { error: `limits may only set ${LIMIT_KEYS.join(', ')} as whole numbers` };
+    }
+  }
+  if (projectId !== undefined && projectId !== null && !Number.isInteger(projectId)) return { error: 'projectId must be a number or null' };
+  if (tags !== undefined && (!Array.isArray(tags) || tags.some(t => !t || typeof t.label !== 'string' || !t.label))) {
+    return { error: 'tags must be a list of { label, termGuid }' };
+  }
+
+  const ruleLimits = parseLimits(limits);
+  const rule: GroupRecurrence = {
+    weekday: weekday as number,
+    time: parseSessionTime(time) ?? DEFAULT_SESSION_TIME,
+    length: parseSessionLength(length) ?? DEFAULT_SESSION_LENGTH,
+    skipBankHolidays: skipBankHolidays === true,
+    skipDates: [...new Set((skipDates as string[] | undefined) ?? [])].sort(),
+    ...(ruleLimits && { limits: ruleLimits }),
+    ...(typeof projectId === 'number' && { projectId }),
+    tags: parseTags(tags),
+  };
+  return { value: JSON.stringify(rule) };
+}
+
+/**
+ * The rule's dates from `from` (inclusive) for `weeks` weeks, each with the reason it's skipped,
+ * if it is. Pure.
+ */
+export function seriesDates(
+  rule: GroupRecurrence,
+  from: string,
+  weeks: number,
+  extraSkipDates: string[] = []
+): { date: string; skip?: SessionSeriesSkipReason }[] {
+  const skipDates = new Set([...rule.skipDates, ...extraSkipDates]);
+  const holidays = new Map<number, Set<string>>();
+  const isBankHoliday = (date: string) => {
+    const year = parseInt(date.slice(0, 4), 10);
+    if (!holidays.has(year)) holidays.set(year, bankHolidays(year));
+    return holidays.get(year)!.has(date);
+  };
+
+  let date = from;
+  while (weekdayOf(date) !== rule.weekday) date = addDays(date, 1);
+  const end = addDays(from, weeks * 7);
+
+  const dates: { date: string; skip?: SessionSeriesSkipReason }[] = [];
+  for (; date < end; date = addDays(date, 7)) {
+    if (skipDates.has(date)) dates.push({ date, skip: 'skip-date' });
+    else if (rule.skipBankHolidays && isBankHoliday(date)) dates.push({ date, skip: 'bank-holiday' });
+    else dates.push({ date });
+  }
+  return dates;
+}
+
+/** The group's session on a date, by the "{date} {group}" Title convention or the group lookup */
+function findGroupSession(group: SharePointGroup, sessions: SharePointSession[], date: string): SharePointSession | undefined {
+  const title = `${date} ${group.Title || ''}`.trim().toLowerCase();
+  return sessions.find(s =>
+    (s.Title || '').toLowerCase() === title ||
+    (safeParseLookupId(s[GROUP_LOOKUP]) === group.ID && (s.Date || '').substring(0, 10) === date)
+  );
+}
+
+/** List fields for a new session in the series — the same shape POST /sessions writes */
+export function seriesSessionFields(group: SharePointGroup, rule: GroupRecurrence, date: string): { Title: string; Date: string; [key: string]: any } {
+  return {
+    Title: `${date} ${group.Title || ''}`.trim(),
+    Date: date,
+    [GROUP_LOOKUP]: String(group.ID),
+    [SESSION_TIME]: rule.time,
+    [SESSION_LENGTH]: rule.length,
+    ...(rule.limits && { [SESSION_LIMITS]: JSON.stringify(rule.limits) }),
+    ...(rule.projectId !== undefined && { [PROJECT_LOOKUP]: String(rule.projectId) }),
+  };
+}
+
+function requireRule(group: SharePointGroup): GroupRecurrence {
+  const rule = parseRecurrence(group[GROUP_RECURRENCE]);
+  if (!rule) throw new SessionSeriesError('Group has no recurrence rule');
+  return rule;
+}
+
+function today(): string {
+  return utcToLocalDate(new Date().toISOString());
+}
+
+export interface GenerateSeriesOptions {
+  /** YYYY-MM-DD first date to consider; default today */
+  from?: string;
+  weeks?: number;
+  /** One-off dates to leave out of this run, on top of the rule's */
+  skipDates?: string[];
+  dryRun?: boolean;
+}
+
+/** Create the group's sessions for the next `weeks` weeks that don't exist yet */
+export async function generateSeries(group: SharePointGroup, options: GenerateSeriesOptions = {}): Promise<SessionSeriesResponse> {
+  const rule = requireRule(group);
+  const from = options.from ?? today();
+  const weeks = options.weeks ?? DEFAULT_SERIES_WEEKS;
+  if (!isDate(from)) throw new SessionSeriesError('from must be YYYY-MM-DD');
+  if (!Number.isInteger(weeks) || weeks < 1 || weeks > MAX_SERIES_WEEKS) {
+    throw new SessionSeriesError(`weeks must be a whole number from 1 to ${MAX_SERIES_WEEKS}`);
+  }
+  if (options.skipDates && !options.skipDates.every(isDate)) throw new SessionSeriesError('skipDates must be a list of YYYY-MM-DD dates');
+
+  const sessions = await sessionsRepository.getAll();
+  const result: SessionSeriesResponse = { dryRun: options.dryRun === true, created: [], existing: [], skipped: [], failed: [], untagged: [] };
+  const toCreate: string[] = [];
+
+  for (const { date, skip } of seriesDates(rule, from, weeks, options.skipDates)) {
+    const existing = skip ? undefined : findGroupSession(group, sessions, date);
+    if (skip) result.skipped.push({ date, reason: skip });
+    else if (existing) result.existing.push({ date, id: existing.ID });
+    else toCreate.push(date);
+  }
+
+  if (result.dryRun) {
+    result.created = toCreate.map(date => ({ date }));
+    return result;
+  }
+
+  const results = await sessionsRepository.createMany(toCreate.map(date => seriesSessionFields(group, rule, date)));
+  results.forEach((r, i) => {
+    if (r.ok) result.created.push({ date: toCreate[i], id: r.id });
+    else result.failed.push({ date: toCreate[i], error: r.error });
+  });
+
+  if (rule.tags.length && result.created.length) {
+    const tagResults = await taxonomyClient.updateManagedMetadataFields(
+      process.env.SESSIONS_LIST_GUID!, SESSION_METADATA,
+      result.created.map(c => ({ itemId: c.id!, tags: rule.tags }))
+    );
+    tagResults.forEach((r, i) => {
+      if (!r.ok) result.untagged.push(result.created[i].date);
+    });
+  }
+
+  console.log(`[Series] ${group.Title}: ${result.created.length} created, ${result.existing.length} existing, ${result.skipped.length} skipped, ${result.failed.length} failed`);
+  return result;
+}
+
+/** Delete the group's sessions from `from` (default today) that have no entries at all */
+export async function deleteUnbookedSeries(
+  group: SharePointGroup,
+  options: { from?: string; dryRun?: boolean } = {}
+): Promise<SessionSeriesDeleteResponse> {
+  const from = options.from ?? today();
+  if (!isDate(from)) throw new SessionSeriesError('from must be YYYY-MM-DD');
+  const start = from < today() ? today() : from;
+
+  const [sessions, entries] = await Promise.all([sessionsRepository.getAll(), entriesRepository.getAll()]);
+  const bookedSessionIds = new Set(entries.map(e => safeParseLookupId(e[SESSION_LOOKUP])));
+
+  const result: SessionSeriesDeleteResponse = { dryRun: options.dryRun === true, deleted: [], kept: [], failed: [] };
+  const toDelete: { date: string; id: number }[] = [];
+  const future = sessions
+    .filter(s => s.Date && s.Date.substring(0, 10) >= start)
+    .filter(s => findGroupSession(group, [s], s.Date.substring(0, 10)))
+    .sort((a, b) => a.Date.localeCompare(b.Date));
+
+  for (const s of future) {
+    const date = s.Date.substring(0, 10);
+    if (bookedSessionIds.has(s.ID)) result.kept.push({ date, id: s.ID, reason: 'booked' });
+    else if (s.EventbriteEventID) result.kept.push({ date, id: s.ID, reason: 'eventbrite' });
+    else toDelete.push({ date, id: s.ID });
+  }
+
+  if (result.dryRun) {
+    result.deleted = toDelete;
+    return result;
+  }
+
+  const results = await sessionsRepository.deleteMany(toDelete.map(s => s.id));
+  results.forEach((r, i) => {
+    if (r.ok) result.deleted.push(toDelete[i]);
+    else result.failed.push({ date: toDelete[i].date, error: r.error });
+  });
+
+  console.log(`[Series] ${group.Title}: ${result.deleted.length} unbooked sessions deleted, ${result.kept.length} kept, ${result.failed.length} failed`);
+  return result;
+}
@@ -47,6 +47,48 @@ function buildProfileFirstSessionMap(profilesRaw: Awaited<ReturnType<typeof prof
   return profileFirstSessionMap;
 }
 
+// Recomputes and saves the Stats field for a single session after an entry change.
+// Called as fire-and-forget after entry writes so the response isn't delayed.
+// preservedMedia is extracted from cached session Stats before the write clears the cache.
+export async function computeAndSaveSessionStats(
+  sessionId: number,
+  preservedMedia: { media?: number; mediaStatus?: MediaStatus } = {},
+): Promise<void> {
+  const start = Date.now();
+  const [sessionEntries, profilesRaw] = await Promise.all([
+    entriesRepository.getBySessionIds([sessionId]),
+    profilesRepository.getAll()
+  ]);
+
+  const statsMap = calculateSessionStats(sessionEntries, buildProfileFirstSessionMap(profilesRaw));
+  const entryStats = statsMap.get(String(sessionId));
+  const cancelledRegular = sessionEntries.filter(e => e[ENTRY_CANCELLED] && e.Labels?.includes('Regular')).length;
+  const statsPayload: Record<string, number | MediaStatus | undefined> = {
+    count: entryStats?.registrations || 0,
+    hours: entryStats ? Math.round(entryStats.hours * 10) / 10 : 0,
+    media: preservedMedia.media ?? 0,
+    new: entryStats?.newCount || 0,
+    child: entryStats?.childCount || 0,
+    regular: entryStats?.regularCount || 0,
+    cancelledRegular,
+    eventbrite: entryStats?.eventbriteCount || 0,
+  };
+  if (preservedMedia.mediaStatus !== undefined) {
+    statsPayload.mediaStatus = preservedMedia.mediaStatus;
+  }
+  await sessionsRepository.updateStats(sessionId, statsPayload);
+  console.log(`[Stats] Session ${sessionId} targeted stats update in ${Date.now() - start}ms`);
+}
+
+export function preservedMediaFromStats(raw: string | undefined): { media?: number; mediaStatus?: MediaStatus } {
+  try {
+    const p = JSON.parse(raw || '{}');
+    return { media: p.media, mediaStatus: p.mediaStatus };
+  } catch {
+    return {};
+  }
+}
+
 async function liveMediaStats(
   mediaDriveId: string,
   groupKey: string,
@@ -0,0 +1,39 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import axios from 'axios'
+import { SharePointClient } from './sharepoint-client'
+
+vi.mock('axios', () => ({ default: { request: vi.fn() } }))
+
+function graphError(status: number) {
+  return Object.assign(new Error(`Request failed with status code ${status}`), { response: { status, headers: {} } })
+}
+
+let client: SharePointClient
+
+beforeEach(() => {
+  vi.clearAllMocks()
+  vi.mocked(axios.request).mockReset()
+  vi.spyOn(console, 'warn').mockImplementation(() => {})
+  vi.spyOn(console, 'error').mockImplementation(() => {})
+  client = new SharePointClient()
+  vi.spyOn(client, 'getAccessToken').mockResolvedValue('token')
+  vi.spyOn(client, 'getSiteId').mockResolvedValue('site')
+})
+
+describe('SharePointClient writes on 503', () => {
+  it('does not repeat a create that got a 503 — it may already exist', async () => {
+    vi.mocked(axios.request).mockRejectedValueOnce(graphError(503)).mockResolvedValueOnce({ data: { id: '7' } })
+
+    await expect(client.createListItem('entries', { Title: 'x' })).rejects.toThrow('503')
+    expect(axios.request).toHaveBeenCalledTimes(1)
+  })
+
+  it('reports a batched create that got a 503 as failed instead of sending it again', async () => {
+    vi.mocked(axios.request).mockResolvedValueOnce({ data: { responses: [{ id: '0', status: 503 }] } })
+
+    const results = await client.batchWrite('entries', [{ op: 'create', fields: { Title: 'x' } }])
+
+    expect(results).toEqual([{ ok: false, error: 'HTTP 503' }])
+    expect(axios.request).toHaveBeenCalledTimes(1)
+  })
+})
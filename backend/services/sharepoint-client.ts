@@ -5,10 +5,15 @@
  * Does not contain any list-specific logic.
  */
 
-import axios from 'axios';
+import axios, { type AxiosRequestConfig } from 'axios';
 import NodeCache from 'node-cache';
 import { DateTime } from 'luxon';
 import { FILE_PROXY_CACHE_TTL_SEC } from './file-proxy-cache-ttl';
+import { ConcurrencyLimiter, withGraphRetry, isRetryableGraphStatus, retryDelayMs, graphMaxRetries, graphMaxConcurrency } from './graph-throttle';
+import type { BatchWriteOp, BatchWriteResult, ListDelta } from './list-store';
+
+/** Graph's $batch limit — requests per round trip */
+const GRAPH_BATCH_SIZE = 20;
 
 // ---------------------------------------------------------------------------
 // Regional date helpers
@@ -21,12 +26,12 @@ import { FILE_PROXY_CACHE_TTL_SEC } from './file-proxy-cache-ttl';
 const SHAREPOINT_TIMEZONE = process.env.SHAREPOINT_TIMEZONE || 'Europe/London';
 
 /** UTC ISO datetime → YYYY-MM-DD in the site timezone (READ path) */
-function utcToLocalDate(utcIso: string): string {
+export function utcToLocalDate(utcIso: string): string {
   return DateTime.fromISO(utcIso, { zone: 'UTC' }).setZone(SHAREPOINT_TIMEZONE).toISODate()!;
 }
 
 /** YYYY-MM-DD → midnight site-timezone UTC ISO for Graph API writes (WRITE path) */
-function localDateToUtcIso(dateStr: string): string {
+export function localDateToUtcIso(dateStr: string): string {
   return DateTime.fromISO(dateStr, { zone: SHAREPOINT_TIMEZONE }).toUTC().toISO()!;
 }
 
@@ -74,6 +79,10 @@ export const CACHE_TTL = {
   stats:    86400,  // 24 hr  — recomputed after every entry/session write anyway
   fileProxy: FILE_PROXY_CACHE_TTL_SEC, //  6 hr — media/doc folder listings; see file-proxy-cache-ttl.ts
   slug:     86400,  // 24 hr  — group+date→ID mappings; cleared on session create/update/delete
+  webhooks: 21600,  //  6 hr  — outbound webhook subscriptions; invalidated on every write
+  profileReviews: 21600, // 6 hr — Eventbrite profile review queue; invalidated on every write
+  eventbriteQuestions: 21600, // 6 hr — Eventbrite question mappings; invalidated on every write
+  organisations: 21600, // 6 hr — CSR employers; invalidated on every write
 } as const;
 
 export class SharePointClient {
@@ -89,6 +98,8 @@ export class SharePointClient {
   // Keyed by listGuid; 1-hour TTL — column definitions never change during normal app operation.
   private columnCache = new Map<string, { columns: any[]; fetchedAt: number }>();
   private readonly COLUMN_CACHE_TTL_MS = 60 * 60 * 1000; // 1 hour
+  // Caps list requests in flight — see graph-throttle.ts
+  private limiter = new ConcurrencyLimiter(graphMaxConcurrency());
 
   constructor() {
     this.siteUrl = process.env.SHAREPOINT_SITE_URL!;
@@ -203,22 +214,33 @@ export class SharePointClient {
     }
   }
 
+  /**
+   * Send a Graph request through the concurrency limiter, retrying 429/503/504 with backoff —
+   * POSTs only on 429 unless the caller says it's idempotent (see graph-throttle.ts).
+   * The token is fetched per attempt so a long Retry-After can't leave it stale.
+   */
+  private async graphRequest<T = any>(
+    config: AxiosRequestConfig,
+    label: string,
+    idempotent = String(config.method).toUpperCase() !== 'POST'
+  ): Promise<T> {
+    const response = await withGraphRetry(async () => {
+      const token = await this.getAccessToken();
+      return this.limiter.run(() => axios.request<T>({
+        ...config,
+        headers: { 'Authorization': `Bearer ${token}`, ...config.headers }
+      }));
+    }, { label, idempotent });
+    return response.data;
+  }
+
   /**
    * Make a GET request to Microsoft Graph API
    */
   async get(endpoint: string): Promise<any> {
     try {
-      const token = await this.getAccessToken();
       const url = `https://graph.microsoft.com/v1.0/${endpoint}`;
-
-      const response = await axios.get(url, {
-        headers: {
-          'Authorization': `Bearer ${token}`,
-          'Accept': 'application/json'
-        }
-      });
-
-      return response.data;
+      return await this.graphRequest({ method: 'GET', url, headers: { 'Accept': 'application/json' } }, `GET ${endpoint.split('?')[0]}`);
     } catch (error: any) {
       const status = error.response?.status;
       const graphMessage = error.response?.data?.error?.message || error.response?.data?.error?.code || '';
@@ -280,6 +302,55 @@ export class SharePointClient {
     });
   }
 
+  /**
+   * Graph delta query for list items. With no token, pages through the whole list and returns
+   * a deltaLink; with one, returns only items changed or deleted since. The token is the full
+   * deltaLink URL. Graph answers 410 Gone once a token is too old — we then start again from scratch.
+   */
+  async getListItemsDelta(
+    listGuid: string,
+    selectFields: string | null = null,
+    deltaToken: string | null = null,
+    dateOnlyFields: string[] = []
+  ): Promise<ListDelta> {
+    const siteId = await this.getSiteId();
+    const expand = selectFields ? `expand=fields(select=${selectFields})` : 'expand=fields';
+    let url: string | undefined = deltaToken
+      ?? `https://graph.microsoft.com/v1.0/sites/${siteId}/lists/${listGuid}/items/delta?${expand}&$top=999`;
+
+    const items: any[] = [];
+    const deletedIds: number[] = [];
+    let deltaLink: string | undefined;
+
+    while (url) {
+      let data: GraphResponse & { '@odata.deltaLink'?: string };
+      try {
+        data = await this.graphRequest({ method: 'GET', url, headers: { 'Accept': 'application/json' } }, `GET ${listGuid} delta`);
+      } catch (error: any) {
+        const status = error.response?.status;
+        if (status === 410 && deltaToken) {
+          console.warn(`[Delta] Token for list ${listGuid} expired — resyncing the whole list`);
+          return this.getListItemsDelta(listGuid, selectFields, null, dateOnlyFields);
+        }
+        const graphMessage = error.response?.data?.error?.message;
+        console.error(`Error fetching delta for list ${listGuid}:`, graphMessage || error.message);
+        throw new Error(graphMessage || error.message);
+      }
+
+      const live = (data.value || []).filter(item => {
+        if (!(item as any).deleted) return true;
+        deletedIds.push(parseInt(item.id, 10));
+        return false;
+      });
+      items.push(...this.transformGraphResponse({ value: live }, dateOnlyFields));
+      url = data['@odata.nextLink'];
+      deltaLink = data['@odata.deltaLink'] ?? deltaLink;
+    }
+
+    if (!deltaLink) throw new Error(`Delta query for list ${listGuid} returned no deltaLink`);
+    return { reset: !deltaToken, items, deletedIds, deltaToken: deltaLink };
+  }
+
   /**
    * Get a single SharePoint list item by ID via Microsoft Graph API (no cache)
    */
@@ -382,52 +453,40 @@ export class SharePointClient {
    * Update fields on a single SharePoint list item via Microsoft Graph PATCH
    */
   async updateListItem(listGuid: string, itemId: number, fields: Record<string, any>, dateOnlyFields: string[] = []): Promise<void> {
-    // Retry once on 429 (SharePoint throttling) after the Retry-After delay (default 30s)
-    for (let attempt = 1; attempt <= 2; attempt++) {
-      try {
-        const token = await this.getAccessToken();
-        const siteId = await this.getSiteId();
-        const url = `https://graph.microsoft.com/v1.0/sites/${siteId}/lists/${listGuid}/items/${itemId}/fields`;
+    try {
+      const siteId = await this.getSiteId();
+      const url = `https://graph.microsoft.com/v1.0/sites/${siteId}/lists/${listGuid}/items/${itemId}/fields`;
+
+      await this.graphRequest({
+        method: 'PATCH',
+        url,
+        data: applyDateFields(fields, dateOnlyFields),
+        headers: { 'Content-Type': 'application/json' }
+      }, `PATCH items/${itemId}`);
+    } catch (error: any) {
+      const status = error.response?.status;
+      const spError = error.response?.data?.error?.message;
+      console.error(`Error updating list item ${itemId} in ${listGuid}:`, error.response?.data || error.message);
 
-        await axios.patch(url, applyDateFields(fields, dateOnlyFields), {
-          headers: {
-            'Authorization': `Bearer ${token}`,
-            'Content-Type': 'application/json'
-          }
-        });
-        return;
-      } catch (error: any) {
-        const status = error.response?.status;
-        const spError = error.response?.data?.error?.message;
-        console.error(`Error updating list item ${itemId} in ${listGuid} (attempt ${attempt}):`, error.response?.data || error.message);
-
-        if (status === 429 && attempt === 1) {
-          const retryAfter = parseInt(error.response?.headers?.['retry-after'] || '30', 10);
-          console.warn(`[SharePoint] Throttled — retrying after ${retryAfter}s`);
-          await new Promise(resolve => setTimeout(resolve, retryAfter * 1000));
-          continue;
-        }
-        if (status === 404) throw new Error('SharePoint list item not found');
-        if (status === 403) throw new Error('Access denied - check API permissions');
-        if (status === 401) throw new Error('Unauthorized - token may be invalid or expired');
-        throw new Error(spError || error.message);
-      }
+      if (status === 404) throw new Error('SharePoint list item not found');
+      if (status === 403) throw new Error('Access denied - check API permissions');
+      if (status === 401) throw new Error('Unauthorized - token may be invalid or expired');
+      throw new Error(spError || error.message);
     }
   }
 
   async createListItem(listGuid: string, fields: Record<string, any>, dateOnlyFields: string[] = []): Promise<number> {
     try {
-      const token = await this.getAccessToken();
       const siteId = await this.getSiteId();
       const url = `https://graph.microsoft.com/v1.0/sites/${siteId}/lists/${listGuid}/items`;
 
-      const response = await axios.post(url, { fields: applyDateFields(fields, dateOnlyFields) }, {
-        headers: {
-          'Authorization': `Bearer ${token}`,
-          'Content-Type': 'application/json'
-        }
-      });
-      return parseInt(response.data.id, 10);
+      const created = await this.graphRequest<{ id: string }>({
+        method: 'POST',
+        url,
+        data: { fields: applyDateFields(fields, dateOnlyFields) },
+        headers: { 'Content-Type': 'application/json' }
+      }, `POST ${listGuid} items`);
+      return parseInt(created.id, 10);
     } catch (error: any) {
       const status = error.response?.status;
       console.error(`Error creating list item in ${listGuid}:`, error.response?.data || error.message);
@@ -443,15 +502,10 @@ export class SharePointClient {
 
   async deleteListItem(listGuid: string, itemId: number): Promise<void> {
     try {
-      const token = await this.getAccessToken();
       const siteId = await this.getSiteId();
       const url = `https://graph.microsoft.com/v1.0/sites/${siteId}/lists/${listGuid}/items/${itemId}`;
 
-      await axios.delete(url, {
-        headers: {
-          'Authorization': `Bearer ${token}`
-        }
-      });
+      await this.graphRequest({ method: 'DELETE', url }, `DELETE items/${itemId}`);
     } catch (error: any) {
       const status = error.response?.status;
       console.error(`Error deleting list item ${itemId} in ${listGuid}:`, error.response?.data || error.message);
@@ -467,6 +521,83 @@ export class SharePointClient {
     }
   }
 
+  /**
+   * Many writes to one list via Graph JSON $batch, GRAPH_BATCH_SIZE per round trip.
+   * Graph throttles inside a batch per request, so 429/503/504 responses are resent
+   * (after the longest Retry-After in the batch) and everything else is reported per op.
+   * Creates are resent on 429 only — a 503/504 create may have gone through.
+   */
+  async batchWrite(listGuid: string, ops: BatchWriteOp[], dateOnlyFields: string[] = []): Promise<BatchWriteResult[]> {
+    const siteId = await this.getSiteId();
+    const itemsPath = `/sites/${siteId}/lists/${listGuid}/items`;
+    const results: BatchWriteResult[] = new Array(ops.length);
+
+    const toRequest = (op: BatchWriteOp, index: number) => {
+      const id = String(index);
+      if (op.op === 'create') {
+        return { id, method: 'POST', url: itemsPath, headers: { 'Content-Type': 'application/json' }, body: { fields: applyDateFields(op.fields, dateOnlyFields) } };
+      }
+      if (op.op === 'update') {
+        return { id, method: 'PATCH', url: `${itemsPath}/${op.id}/fields`, headers: { 'Content-Type': 'application/json' }, body: applyDateFields(op.fields, dateOnlyFields) };
+      }
+      return { id, method: 'DELETE', url: `${itemsPath}/${op.id}` };
+    };
+
+    for (let start = 0; start < ops.length; start += GRAPH_BATCH_SIZE) {
+      let pending = ops.slice(start, start + GRAPH_BATCH_SIZE).map((_, i) => start + i);
+
+      for (let attempt = 1; pending.length > 0; attempt++) {
+        let responses: { id: string; status: number; headers?: Record<string, string>; body?: any }[];
+        try {
+          const data = await this.graphRequest<{ responses: typeof responses }>({
+            method: 'POST',
+            url: 'https://graph.microsoft.com/v1.0/$batch',
+            data: { requests: pending.map(index => toRequest(ops[index], index)) },
+            headers: { 'Content-Type': 'application/json' }
+          }, `$batch ${listGuid} (${pending.length})`, !pending.some(index => ops[index].op === 'create'));
+          responses = data.responses || [];
+        } catch (error: any) {
+          const message = error.response?.data?.error?.message || error.message;
+          console.error(`Error in batch write to ${listGuid}:`, message);
+          for (const index of pending) results[index] = { ok: false, error: message };
+          break;
+        }
+
+        const throttled: number[] = [];
+        let retryAfter: string | undefined;
+        for (const response of responses) {
+          const index = parseInt(response.id, 10);
+          if (isRetryableGraphStatus(response.status, ops[index]?.op !== 'create') && attempt <= graphMaxRetries()) {
+            throttled.push(index);
+            const header = response.headers?.['Retry-After'] ?? response.headers?.['retry-after'];
+            if (header && (!retryAfter || Number(header) > Number(retryAfter))) retryAfter = header;
+          } else if (response.status >= 200 && response.status < 300) {
+            const op = ops[index];
+            results[index] = { ok: true, id: op.op === 'create' ? parseInt(response.body?.id, 10) : op.id };
+          } else {
+            const error = response.body?.error?.message || `HTTP ${response.status}`;
+            console.error(`Error in batch write to ${listGuid} (op ${index}):`, error);
+            results[index] = { ok: false, error };
+          }
+        }
+        for (const index of pending) {
+          if (!results[index] && !throttled.includes(index) && !responses.some(r => r.id === String(index))) {
+            results[index] = { ok: false, error: 'No response in batch' };
+          }
+        }
+
+        pending = throttled;
+        if (pending.length > 0) {
+          const delay = retryDelayMs(attempt, retryAfter);
+          console.warn(`[SharePoint] ${pending.length} throttled in $batch ${listGuid} — retry ${attempt}/${graphMaxRetries()} in ${Math.round(delay / 1000)}s`);
+          await new Promise(resolve => setTimeout(resolve, delay));
+        }
+      }
+    }
+
+    return results;
+  }
+
   /**
    * Get choice values for a column in a SharePoint list.
    * Fetches all columns for the list (cached), then finds the named column.
@@ -568,6 +699,31 @@ export class SharePointClient {
     }
   }
 
+  /** Immediate subfolders of a drive folder (uncached); [] when the folder doesn't exist */
+  async listDriveSubfolders(driveId: string, folderPath: string): Promise<Array<{ id: string; name: string }>> {
+    try {
+      const encodedPath = folderPath.split('/').map(encodeURIComponent).join('/');
+      const url = `https://graph.microsoft.com/v1.0/drives/${driveId}/root:/${encodedPath}:/children?$select=id,name,folder&$top=999`;
+      const data = await this.graphRequest<{ value: any[] }>({ method: 'GET', url }, `GET drive children ${folderPath}`);
+      return data.value
+        .filter(item => item.folder && item.name && item.id)
+        .map(item => ({ id: item.id as string, name: item.name as string }))
+        .sort((a, b) => a.name.localeCompare(b.name));
+    } catch (error: any) {
+      if (error.response?.status === 404) return [];
+      console.error(`Error listing subfolders of ${folderPath}:`, error.response?.data || error.message);
+      throw error;
+    }
+  }
+
+  /** Delete a drive file or folder (folders are deleted with their contents) */
+  async deleteDriveItem(driveId: string, itemId: string): Promise<void> {
+    await this.graphRequest({
+      method: 'DELETE',
+      url: `https://graph.microsoft.com/v1.0/drives/${driveId}/items/${itemId}`,
+    }, `DELETE drive item ${itemId}`);
+  }
+
   /** Rename a drive item in place (same parent folder). */
   async renameDriveItem(driveId: string, itemId: string, newName: string): Promise<void> {
     const token = await this.getAccessToken();
@@ -0,0 +1,142 @@
+import net from 'net';
+import os from 'os';
+import tls from 'tls';
+import { buildMime, type SendEmailOptions } from './mail-mime';
+import type { MailTransport } from './mail-transport';
+
+const TIMEOUT_MS = 30_000;
+
+export interface SmtpOptions {
+  host: string;
+  port: number;
+  /** Implicit TLS (port 465 style). STARTTLS is not supported. */
+  secure: boolean;
+  user?: string;
+  pass?: string;
+}
+
+interface SmtpReply {
+  code: number;
+  text: string;
+}
+
+/** One SMTP dialogue over a socket — read a reply, or send a command and check the reply code */
+class SmtpConnection {
+  private buffer = '';
+  private lines: string[] = [];
+  private replies: SmtpReply[] = [];
+  private waiting: { resolve: (r: SmtpReply) => void; reject: (e: Error) => void } | null = null;
+  private failure: Error | null = null;
+
+  constructor(private readonly socket: net.Socket) {
+    socket.setEncoding('utf8');
+    socket.setTimeout(TIMEOUT_MS, () => socket.destroy(new Error('SMTP connection timed out')));
+    socket.on('data', (chunk: string) => this.onData(chunk));
+    socket.on('error', err => this.fail(err));
+    socket.on('close', () => this.fail(new Error('SMTP connection closed')));
+  }
+
+  private onData(chunk: string): void {
+    this.buffer += chunk;
+    let eol: number;
+    while ((eol = this.buffer.indexOf('\r\n')) >= 0) {
+      const line = this.buffer.slice(0, eol);
+      this.buffer = this.buffer.slice(eol + 2);
+      this.lines.push(line);
+      // "250-..." continues a multi-line reply; "250 ..." ends it
+      if (line.charAt(3) === '-') continue;
+      const reply = { code: parseInt(line.slice(0, 3), 10), text: this.lines.map(l => l.slice(4)).join('\n') };
+      this.lines = [];
+      if (this.waiting) {
+        const { resolve } = this.waiting;
+        this.waiting = null;
+        resolve(reply);
+      } else {
+        this.replies.push(reply);
+      }
+    }
+  }
+
+  private fail(err: Error): void {
+    if (!this.failure) this.failure = err;
+    if (this.waiting) {
+      const { reject } = this.waiting;
+      this.waiting = null;
+      reject(err);
+    }
+  }
+
+  read(): Promise<SmtpReply> {
+    const queued = this.replies.shift();
+    if (queued) return Promise.resolve(queued);
+    if (this.failure) return Promise.reject(this.failure);
+    return new Promise((resolve, reject) => { this.waiting = { resolve, reject }; });
+  }
+
+  async expect(code: number, what: string): Promise<SmtpReply> {
+    const reply = await this.read();
+    if (reply.code !== code) throw new Error(`SMTP ${what} failed: ${reply.code} ${reply.text}`);
+    return reply;
+  }
+
+  async command(line: string, code: number, what = line.split(' ')[0]): Promise<SmtpReply> {
+    this.socket.write(`${line}\r\n`);
+    return this.expect(code, what);
+  }
+
+  write(data: string): void {
+    this.socket.write(data);
+  }
+
+  close(): void {
+    this.socket.end();
+  }
+}
+
+function connect({ host, port, secure }: SmtpOptions): Promise<net.Socket> {
+  return new Promise((resolve, reject) => {
+    const socket = secure
+      ? tls.connect({ host, port, servername: host }, () => resolve(socket))
+      : net.connect({ host, port }, () => resolve(socket));
+    socket.once('error', reject);
+  });
+}
+
+/** Bare address from "Name <addr>" or "addr" — for the MAIL FROM / RCPT TO envelope */
+function envelopeAddress(address: string): string {
+  const match = /<([^>]+)>/.exec(address);
+  return (match ? match[1] : address).trim();
+}
+
+/**
+ * Plain SMTP client for local catchers (Mailpit, MailHog, smtp4dev) or a relay.
+ * One connection per message; AUTH PLAIN when SMTP_USER is set.
+ */
+export class SmtpMailTransport implements MailTransport {
+  readonly name = 'smtp';
+  readonly configured = true;
+
+  constructor(private readonly options: SmtpOptions, private readonly from: string) {}
+
+  async send(message: SendEmailOptions): Promise<void> {
+    const smtp = new SmtpConnection(await connect(this.options));
+    try {
+      await smtp.expect(220, 'greeting');
+      await smtp.command(`EHLO ${os.hostname() || 'localhost'}`, 250);
+      if (this.options.user) {
+        const credentials = Buffer.from(`\0${this.options.user}\0${this.options.pass ?? ''}`).toString('base64');
+        await smtp.command(`AUTH PLAIN ${credentials}`, 235, 'AUTH');
+      }
+      await smtp.command(`MAIL FROM:<${envelopeAddress(this.from)}>`, 250, 'MAIL FROM');
+      await smtp.command(`RCPT TO:<${envelopeAddress(message.to)}>`, 250, 'RCPT TO');
+      await smtp.command('DATA', 354);
+      // CRLF line endings, and dot-stuffing: a line starting with "." gets another so it isn't read as the terminator
+      const body = buildMime(message, this.from).replace(/\r?\n/g, '\r\n').replace(/(^|\n)\./g, '$1..');
+      smtp.write(`${body}\r\n.\r\n`);
+      await smtp.expect(250, 'DATA');
+      await smtp.command('QUIT', 221).catch(() => {});
+    } finally {
+      smtp.close();
+    }
+  }
+}
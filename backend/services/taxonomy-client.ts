@@ -7,6 +7,7 @@
 
 import axios from 'axios';
 import { SharePointClient, sharePointClient } from './sharepoint-client';
+import { listStore, isLocalDataStore, type BatchWriteResult } from './list-store';
 
 // Term set trees must not be flushed by data writes (which call clearCache()).
 // This cache lives outside NodeCache entirely. 1-hour TTL is appropriate — term store
@@ -125,6 +126,15 @@ export class TaxonomyClient {
     fieldDisplayName: string,
     tags: Array<{ label: string; termGuid: string }>
   ): Promise<void> {
+    // Offline there is no hidden note field — store the terms in the shape Graph returns them
+    if (isLocalDataStore()) {
+      await listStore.updateListItem(listGuid, itemId, {
+        [fieldDisplayName]: tags.map(t => ({ Label: t.label, TermGuid: t.termGuid }))
+      });
+      this.sp.clearCache();
+      return;
+    }
+
     const hiddenFieldName = await this.getTaxonomyHiddenFieldName(listGuid, fieldDisplayName);
     const token = await this.sp.getAccessToken();
     const siteId = await this.sp.getSiteId();
@@ -144,6 +154,29 @@ export class TaxonomyClient {
       throw new Error(spError || error.message);
     }
   }
+
+  /**
+   * updateManagedMetadataField for many items at once — one $batch round trip per 20 items.
+   * Results are in the order of `updates`.
+   */
+  async updateManagedMetadataFields(
+    listGuid: string,
+    fieldDisplayName: string,
+    updates: Array<{ itemId: number; tags: Array<{ label: string; termGuid: string }> }>
+  ): Promise<BatchWriteResult[]> {
+    if (updates.length === 0) return [];
+    const hiddenFieldName = isLocalDataStore() ? null : await this.getTaxonomyHiddenFieldName(listGuid, fieldDisplayName);
+
+    const results = await listStore.batchWrite(listGuid, updates.map(({ itemId, tags }) => ({
+      op: 'update' as const,
+      id: itemId,
+      fields: hiddenFieldName
+        ? { [hiddenFieldName]: tags.map(t => `-1;#${t.label}|${t.termGuid}`).join(';') }
+        : { [fieldDisplayName]: tags.map(t => ({ Label: t.label, TermGuid: t.termGuid })) }
+    })));
+    this.sp.clearCache();
+    return results;
+  }
 }
 
 export const taxonomyClient = new TaxonomyClient(sharePointClient);
@@ -0,0 +1,101 @@
+import { describe, it, expect, vi, beforeEach, afterAll } from 'vitest'
+import fs from 'fs'
+import path from 'path'
+
+const dataDir = vi.hoisted(() => {
+  const dir = require('path').join(require('os').tmpdir(), `verifications-${process.pid}-${Date.now()}`)
+  process.env.VERIFICATIONS_LIST_GUID = 'verifications'
+  return dir
+})
+
+vi.mock('./list-store', async () => {
+  const { LocalListStore } = await vi.importActual<typeof import('./local-list-store')>('./local-list-store')
+  return { listStore: new LocalListStore(dataDir) }
+})
+
+import {
+  ListVerificationStore, MemoryVerificationStore, hashVerificationCode, verificationStore, type VerificationStore
+} from './verification-store'
+import { isEmailRateLimited, recordEmailSent } from './email-rate-limiter'
+
+afterAll(() => {
+  fs.rmSync(dataDir, { recursive: true, force: true })
+})
+
+describe.each([
+  ['list', () => new ListVerificationStore('verifications')],
+  ['memory', () => new MemoryVerificationStore()],
+] as [string, () => VerificationStore][])('%s store', (_name, create) => {
+  let store: VerificationStore
+  beforeEach(async () => {
+    store = create()
+    await store.prune(Date.now() + 60_000)
+  })
+
+  it('keeps one code per email, replacing the previous one', async () => {
+    await store.putCode('alex@example.org', hashVerificationCode('alex@example.org', '1111'), Date.now() + 60_000)
+    await store.putCode('alex@example.org', hashVerificationCode('alex@example.org', '2222'), Date.now() + 60_000)
+
+    const stored = await store.getCode('alex@example.org')
+    expect(stored).toMatchObject({ codeHash: hashVerificationCode('alex@example.org', '2222'), attempts: 0 })
+    expect(await store.getCode('sam@example.org')).toBeNull()
+  })
+
+  it('tracks attempts and deletes codes', async () => {
+    await store.putCode('alex@example.org', 'h', Date.now() + 60_000)
+    await store.setAttempts('alex@example.org', 3)
+    expect((await store.getCode('alex@example.org'))?.attempts).toBe(3)
+    await store.deleteCode('alex@example.org')
+    expect(await store.getCode('alex@example.org')).toBeNull()
+  })
+
+  it('counts sends per key within the window and prunes older records', async () => {
+    await store.recordSend('email:alex@example.org')
+    await store.recordSend('email:alex@example.org')
+    await store.recordSend('ip:203.0.113.9')
+
+    expect(await store.countSends('email:alex@example.org', Date.now() - 60_000)).toBe(2)
+    expect(await store.countSends('ip:203.0.113.9', Date.now() - 60_000)).toBe(1)
+    expect(await store.countSends('email:alex@example.org', Date.now() + 60_000)).toBe(0)
+
+    expect(await store.prune(Date.now() + 60_000)).toBe(3)
+    expect(await store.countSends('email:alex@example.org', 0)).toBe(0)
+  })
+})
+
+describe('ListVerificationStore', () => {
+  it('shares codes between instances and never stores the email or code', async () => {
+    await new ListVerificationStore('verifications').putCode('alex@example.org', hashVerificationCode('alex@example.org', '4821'), Date.now() + 60_000)
+
+    expect(await new ListVerificationStore('verifications').getCode('alex@example.org')).not.toBeNull()
+    const raw = fs.readFileSync(path.join(dataDir, 'verifications.json'), 'utf8')
+    expect(raw).not.toContain('alex@example.org')
+    expect(raw).not.toContain('4821')
+  })
+})
+
+describe('email rate limits', () => {
+  beforeEach(async () => {
+    await verificationStore().prune(Date.now() + 60_000)
+    vi.stubEnv('VERIFY_LIMIT_PER_EMAIL', '2')
+    vi.stubEnv('VERIFY_LIMIT_PER_IP', '3')
+  })
+
+  it('limits sign-in codes per email without affecting other addresses', async () => {
+    const alex = { email: 'alex@example.org', ip: '203.0.113.9' }
+    await recordEmailSent(alex)
+    await recordEmailSent(alex)
+
+    expect(await isEmailRateLimited(alex)).toBe(true)
+    expect(await isEmailRateLimited({ email: 'sam@example.org', ip: '198.51.100.4' })).toBe(false)
+    expect(await isEmailRateLimited('global')).toBe(false)
+  })
+
+  it('limits one IP across many addresses', async () => {
+    for (const email of ['a@example.org', 'b@example.org', 'c@example.org']) {
+      await recordEmailSent({ email, ip: '203.0.113.9' })
+    }
+    expect(await isEmailRateLimited({ email: 'd@example.org', ip: '203.0.113.9' })).toBe(true)
+    expect(await isEmailRateLimited({ email: 'd@example.org', ip: '198.51.100.4' })).toBe(false)
+  })
+})
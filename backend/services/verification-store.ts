@@ -0,0 +1,195 @@
+/**
+ * Verification Store
+ *
+ * Pending sign-in codes and email send counters, shared by every app instance so a restart
+ * or a second App Service instance doesn't lose codes or reset the limits:
+ *
+ *   VERIFICATIONS_LIST_GUID set — the Verifications list via listStore (and so also works
+ *                                 with DATA_STORE=local, which defaults the GUID)
+ *   unset                       — in-process memory; single instance only, lost on restart
+ *
+ * Emails and IP addresses are never stored — rows are keyed by a SHA-256 of the value, and
+ * codes are stored as a hash too.
+ */
+
+import crypto from 'crypto';
+import { listStore } from './list-store';
+
+/** The send limits are hourly; nothing in the store is needed for longer than that */
+export const SEND_WINDOW_MS = 60 * 60 * 1000;
+
+export interface StoredCode {
+  codeHash: string;
+  /** Epoch ms */
+  expires: number;
+  attempts: number;
+}
+
+export interface VerificationStore {
+  /** Store the code for an email, replacing any previous one */
+  putCode(email: string, codeHash: string, expires: number): Promise<void>;
+  getCode(email: string): Promise<StoredCode | null>;
+  setAttempts(email: string, attempts: number): Promise<void>;
+  deleteCode(email: string): Promise<void>;
+  /** Sends recorded against key at or after since (epoch ms) */
+  countSends(key: string, since: number): Promise<number>;
+  recordSend(key: string): Promise<void>;
+  /** Remove codes and send records created before the cutoff (epoch ms); returns how many */
+  prune(before: number): Promise<number>;
+}
+
+function hashValue(value: string): string {
+  return crypto.createHash('sha256').update(value.toLowerCase()).digest('hex');
+}
+
+function codeKey(email: string): string {
+  return `code:${hashValue(email)}`;
+}
+
+function sendKey(key: string): string {
+  return `send:${hashValue(key)}`;
+}
+
+/** Hash of a code bound to its email, so a stored hash is no use for any other address */
+export function hashVerificationCode(email: string, code: string): string {
+  return hashValue(`${email}:${code}`);
+}
+
+// ---------------------------------------------------------------------------
+// Stores
+// ---------------------------------------------------------------------------
+
+// SharePoint Verifications list — one item per pending code or per email sent.
+// Title = "code:{hash of email}" (Secret, Expires, Attempts set) or "send:{hash of quota key}".
+// Created is the list's own timestamp and drives the send windows and pruning.
+export class ListVerificationStore implements VerificationStore {
+  constructor(private readonly listGuid: string) {}
+
+  private async codeItems(email: string): Promise<Record<string, any>[]> {
+    const items = await listStore.getListItems(
+      this.listGuid,
+      'ID,Title,Secret,Expires,Attempts',
+      `fields/Title eq '${codeKey(email)}'`
+    );
+    // Two instances can race on a resend; the newest code wins
+    return items.sort((a, b) => b.ID - a.ID);
+  }
+
+  async putCode(email: string, codeHash: string, expires: number): Promise<void> {
+    await this.deleteCode(email);
+    await listStore.createListItem(this.listGuid, {
+      Title: codeKey(email),
+      Secret: codeHash,
+      Expires: new Date(expires).toISOString(),
+      Attempts: 0,
+    });
+  }
+
+  async getCode(email: string): Promise<StoredCode | null> {
+    const [item] = await this.codeItems(email);
+    if (!item) return null;
+    return { codeHash: item.Secret || '', expires: Date.parse(item.Expires) || 0, attempts: Number(item.Attempts) || 0 };
+  }
+
+  async setAttempts(email: string, attempts: number): Promise<void> {
+    const [item] = await this.codeItems(email);
+    if (item) await listStore.updateListItem(this.listGuid, item.ID, { Attempts: attempts });
+  }
+
+  async deleteCode(email: string): Promise<void> {
+    for (const item of await this.codeItems(email)) {
+      await listStore.deleteListItem(this.listGuid, item.ID);
+    }
+  }
+
+  async countSends(key: string, since: number): Promise<number> {
+    const items = await listStore.getListItems(
+      this.listGuid,
+      'ID,Title,Created',
+      `fields/Title eq '${sendKey(key)}' and fields/Created ge '${new Date(since).toISOString()}'`
+    );
+    return items.length;
+  }
+
+  async recordSend(key: string): Promise<void> {
+    await listStore.createListItem(this.listGuid, { Title: sendKey(key) });
+  }
+
+  async prune(before: number): Promise<number> {
+    const items = await listStore.getListItems(
+      this.listGuid,
+      'ID,Created',
+      `fields/Created lt '${new Date(before).toISOString()}'`
+    );
+    for (const item of items) {
+      await listStore.deleteListItem(this.listGuid, item.ID);
+    }
+    return items.length;
+  }
+}
+
+export class MemoryVerificationStore implements VerificationStore {
+  private codes = new Map<string, StoredCode & { created: number }>();
+  private sends = new Map<string, number[]>();
+
+  async putCode(email: string, codeHash: string, expires: number): Promise<void> {
+    this.codes.set(codeKey(email), { codeHash, expires, attempts: 0, created: Date.now() });
+  }
+
+  async getCode(email: string): Promise<StoredCode | null> {
+    const entry = this.codes.get(codeKey(email));
+    return entry ? { codeHash: entry.codeHash, expires: entry.expires, attempts: entry.attempts } : null;
+  }
+
+  async setAttempts(email: string, attempts: number): Promise<void> {
+    const entry = this.codes.get(codeKey(email));
+    if (entry) entry.attempts = attempts;
+  }
+
+  async deleteCode(email: string): Promise<void> {
+    this.codes.delete(codeKey(email));
+  }
+
+  async countSends(key: string, since: number): Promise<number> {
+    return (this.sends.get(sendKey(key)) ?? []).filter(t => t >= since).length;
+  }
+
+  async recordSend(key: string): Promise<void> {
+    const k = sendKey(key);
+    this.sends.set(k, [...(this.sends.get(k) ?? []), Date.now()]);
+  }
+
+  async prune(before: number): Promise<number> {
+    let removed = 0;
+    for (const [k, entry] of this.codes) {
+      if (entry.created < before) { this.codes.delete(k); removed++; }
+    }
+    for (const [k, times] of this.sends) {
+      const kept = times.filter(t => t >= before);
+      removed += times.length - kept.length;
+      if (kept.length) this.sends.set(k, kept);
+      else this.sends.delete(k);
+    }
+    return removed;
+  }
+}
+
+function createVerificationStore(): VerificationStore {
+  const listGuid = process.env.VERIFICATIONS_LIST_GUID;
+  if (listGuid) return new ListVerificationStore(listGuid);
+  console.warn('[Verify] VERIFICATIONS_LIST_GUID not set — sign-in codes and email limits are kept in memory (single instance only)');
+  return new MemoryVerificationStore();
+}
+
+let store: VerificationStore | undefined;
+
+/** Created on first use so VERIFICATIONS_LIST_GUID can be set after import (tests, scripts) */
+export function verificationStore(): VerificationStore {
+  if (!store) store = createVerificationStore();
+  return store;
+}
+
+/** Nightly housekeeping — expired codes and send records outside the window. */
+export async function pruneVerificationStore(): Promise<number> {
+  return verificationStore().prune(Date.now() - SEND_WINDOW_MS);
+}
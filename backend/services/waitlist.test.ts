@@ -0,0 +1,125 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import type { SharePointEntry } from '../../types/sharepoint'
+
+vi.mock('./repositories/sessions-repository', () => ({
+  sessionsRepository: { getById: vi.fn() }
+}))
+
+vi.mock('./repositories/entries-repository', () => ({
+  entriesRepository: { getBySessionIds: vi.fn(), updateFields: vi.fn() }
+}))
+
+vi.mock('./repositories/profiles-repository', () => ({
+  profilesRepository: { getAll: vi.fn() }
+}))
+
+vi.mock('./repositories/regulars-repository', () => ({
+  regularsRepository: { getAll: vi.fn() }
+}))
+
+vi.mock('./repositories/groups-repository', () => ({
+  groupsRepository: { getAll: vi.fn() }
+}))
+
+vi.mock('./mail-transport', () => ({
+  sendEmail: vi.fn()
+}))
+
+import { bookingCategory, bookingFits, promoteFromWaitlist } from './waitlist'
+import { sessionsRepository } from './repositories/sessions-repository'
+import { entriesRepository } from './repositories/entries-repository'
+import { profilesRepository } from './repositories/profiles-repository'
+import { regularsRepository } from './repositories/regulars-repository'
+import { groupsRepository } from './repositories/groups-repository'
+import { sendEmail } from './mail-transport'
+
+const SESSION = { ID: 10, Title: '2099-06-14 sat', Date: '2099-06-14', GroupLookupId: '1', Limits: '{"total": 2}', Created: '', Modified: '' }
+
+function entry(id: number, profileId: number, overrides: Partial<SharePointEntry> = {}): SharePointEntry {
+  return { ID: id, SessionLookupId: '10', ProfileLookupId: String(profileId), Profile: `Person ${profileId}`, Created: '', Modified: '', ...overrides }
+}
+
+function profile(id: number, sessionIds: number[] = [1]) {
+  return { ID: id, Title: `Person ${id}`, Email: `p${id}@example.com`, Stats: JSON.stringify({ sessionIds }), Created: '', Modified: '' }
+}
+
+beforeEach(() => {
+  vi.clearAllMocks()
+  vi.mocked(sessionsRepository.getById).mockResolvedValue(SESSION as any)
+  vi.mocked(profilesRepository.getAll).mockResolvedValue([1, 2, 3, 4].map(id => profile(id)) as any)
+  vi.mocked(regularsRepository.getAll).mockResolvedValue([])
+  vi.mocked(groupsRepository.getAll).mockResolvedValue([{ ID: 1, Title: 'Sat', Name: 'Saturday Dig', Created: '', Modified: '' }] as any)
+  vi.mocked(entriesRepository.updateFields).mockResolvedValue(undefined)
+  vi.mocked(sendEmail).mockResolvedValue(undefined as any)
+})
+
+describe('bookingCategory', () => {
+  const regulars = [{ ID: 1, ProfileLookupId: '5', GroupLookupId: '1', Created: '', Modified: '' }] as any
+
+  it('is regular when the profile is a regular of the group', () => {
+    expect(bookingCategory(profile(5) as any, 5, 1, 10, regulars)).toBe('regular')
+  })
+
+  it('is new when the profile has no other sessions', () => {
+    expect(bookingCategory(profile(6, []) as any, 6, 1, 10, regulars)).toBe('new')
+    expect(bookingCategory(profile(6, [10]) as any, 6, 1, 10, regulars)).toBe('new')
+  })
+
+  it('is repeat when the profile has been before', () => {
+    expect(bookingCategory(profile(7, [3]) as any, 7, 1, 10, regulars)).toBe('repeat')
+  })
+})
+
+describe('bookingFits', () => {
+  it('ignores cancelled and waitlisted entries when counting places', async () => {
+    const entries = [
+      entry(1, 1),
+      entry(2, 2, { Cancelled: '2099-01-01T00:00:00Z' }),
+      entry(3, 3, { Waitlisted: '2099-01-01T00:00:00Z' }),
+    ]
+    expect(await bookingFits(SESSION as any, 4, entries)).toBe(true)
+    expect(await bookingFits(SESSION as any, 4, [...entries, entry(4, 2)])).toBe(false)
+  })
+})
+
+describe('promoteFromWaitlist', () => {
+  it('promotes the longest-waiting entry and emails them', async () => {
+    vi.mocked(entriesRepository.getBySessionIds).mockResolvedValue([
+      entry(1, 1),
+      entry(2, 2, { Cancelled: '2099-01-02T00:00:00Z' }),
+      entry(3, 3, { Waitlisted: '2099-01-01T09:00:00Z' }),
+      entry(4, 4, { Waitlisted: '2099-01-01T08:00:00Z' }),
+    ])
+
+    const promoted = await promoteFromWaitlist(10, 'https://example.org')
+
+    expect(promoted).toBe(4)
+    expect(entriesRepository.updateFields).toHaveBeenCalledWith(4, { Waitlisted: null })
+    await vi.waitFor(() => expect(sendEmail).toHaveBeenCalledOnce())
+    expect(vi.mocked(sendEmail).mock.calls[0][0].to).toBe('p4@example.com')
+  })
+
+  it('promotes a waitlisted family together and never a child ahead of their adult', async () => {
+    vi.mocked(sessionsRepository.getById).mockResolvedValue({ ...SESSION, Limits: '{"total": 4}' } as any)
+    vi.mocked(entriesRepository.getBySessionIds).mockResolvedValue([
+      entry(1, 1),
+      entry(2, 2, { Waitlisted: '2099-01-01T08:00:00Z', AccompanyingAdultLookupId: 3 }),
+      entry(3, 3, { Waitlisted: '2099-01-01T08:00:00Z' }),
+      entry(4, 4, { Waitlisted: '2099-01-01T09:00:00Z' }),
+    ])
+
+    expect(await promoteFromWaitlist(10, 'https://example.org')).toBe(3)
+    expect(vi.mocked(entriesRepository.updateFields).mock.calls.map(c => c[0])).toEqual([3, 2])
+  })
+
+  it('does nothing when the session is still full', async () => {
+    vi.mocked(entriesRepository.getBySessionIds).mockResolvedValue([
+      entry(1, 1),
+      entry(2, 2),
+      entry(3, 3, { Waitlisted: '2099-01-01T09:00:00Z' }),
+    ])
+
+    expect(await promoteFromWaitlist(10, 'https://example.org')).toBeUndefined()
+    expect(entriesRepository.updateFields).not.toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,171 @@
+/**
+ * Session waitlist — capacity checks at booking time and promotion on cancellation.
+ *
+ * A booking that would exceed the session's derived Limits is created with Waitlisted set
+ * (an ISO datetime, so the queue is first-come first-served). Waitlisted entries are excluded
+ * from session and profile stats. When a confirmed booking is cancelled, the longest-waiting
+ * entry that now fits is promoted (Waitlisted cleared) and emailed. Children booked with an adult
+ * (AccompanyingAdult set) are promoted together with the adult's entry, never ahead of it.
+ */
+
+import { sessionsRepository } from './repositories/sessions-repository';
+import { entriesRepository } from './repositories/entries-repository';
+import { profilesRepository } from './repositories/profiles-repository';
+import { regularsRepository } from './repositories/regulars-repository';
+import { groupsRepository } from './repositories/groups-repository';
+import {
+  safeParseLookupId, parseSessionLimits, deriveLimits, calculateSessionStats, bookingFitsLimits,
+  entryHeadcount, parseEmails, type BookingCategory
+} from './data-layer';
+import { GROUP_LOOKUP, PROFILE_LOOKUP, ACCOMPANYING_ADULT_LOOKUP, ENTRY_CANCELLED, ENTRY_WAITLISTED } from './field-names';
+import { renderEmail } from './email-renderer';
+import { buildPreSessionVars } from './email-vars';
+import { sendEmail } from './mail-transport';
+import type { SharePointEntry, SharePointProfile, SharePointRegular } from '../../types/sharepoint';
+import type { SharePointSession } from '../../types/session';
+
+function profileSessionIds(profile: SharePointProfile | undefined): number[] {
+  try {
+    const ps = JSON.parse(profile?.Stats || '{}');
+    return Array.isArray(ps.sessionIds) ? ps.sessionIds : [];
+  } catch {
+    return [];
+  }
+}
+
+/** Regular of the session's group, first-timer (no other booked sessions), or returning volunteer */
+export function bookingCategory(
+  profile: SharePointProfile | undefined,
+  profileId: number,
+  groupId: number | undefined,
+  sessionId: number,
+  regulars: SharePointRegular[]
+): BookingCategory {
+  const isRegular = groupId !== undefined && regulars.some(r =>
+    safeParseLookupId(r[PROFILE_LOOKUP] as unknown as string) === profileId &&
+    safeParseLookupId(r[GROUP_LOOKUP] as unknown as string) === groupId
+  );
+  if (isRegular) return 'regular';
+  return profileSessionIds(profile).some(id => id !== sessionId) ? 'repeat' : 'new';
+}
+
+/**
+ * Whether a booking for profileId fits the session right now.
+ * Counts come from the live session entries (confirmed, not cancelled), not the stored Stats.
+ * children are places for children booked alongside profileId (see bookingFitsLimits).
+ */
+export async function bookingFits(
+  spSession: SharePointSession,
+  profileId: number,
+  sessionEntries: SharePointEntry[],
+  headcount = 1,
+  children = 0
+): Promise<boolean> {
+  const [profiles, regulars] = await Promise.all([
+    profilesRepository.getAll(),
+    regularsRepository.getAll()
+  ]);
+  const groupId = safeParseLookupId(spSession[GROUP_LOOKUP] as unknown as string);
+
+  const profileFirstSessionMap = new Map<number, number>();
+  for (const p of profiles) {
+    const ids = profileSessionIds(p);
+    if (ids.length > 0) profileFirstSessionMap.set(p.ID, ids[0]);
+  }
+  const entryStats = calculateSessionStats(sessionEntries, profileFirstSessionMap).get(String(spSession.ID));
+  const regularsCount = groupId !== undefined
+    ? regulars.filter(r => safeParseLookupId(r[GROUP_LOOKUP] as unknown as string) === groupId).length || undefined
+    : undefined;
+  const cancelledRegular = sessionEntries.filter(e => e[ENTRY_CANCELLED] && e.Labels?.includes('Regular')).length;
+  const limits = deriveLimits(parseSessionLimits(spSession), regularsCount, cancelledRegular);
+
+  const profile = profiles.find(p => p.ID === profileId);
+  const category = bookingCategory(profile, profileId, groupId, spSession.ID, regulars);
+  return bookingFitsLimits(
+    limits,
+    {
+      count: entryStats?.registrations ?? 0,
+      new: entryStats?.newCount ?? 0,
+      regular: entryStats?.regularCount ?? 0,
+      child: entryStats?.childCount ?? 0,
+    },
+    category,
+    headcount,
+    children
+  );
+}
+
+/**
+ * Promote the longest-waiting entry that fits into the place freed by a cancellation.
+ * Returns the promoted entry ID, or undefined when nobody is waiting or nobody fits.
+ * The promotion email is best-effort — a send failure is logged, not thrown.
+ */
+export async function promoteFromWaitlist(sessionId: number, baseUrl: string): Promise<number | undefined> {
+  const spSession = await sessionsRepository.getById(sessionId);
+  if (!spSession) return undefined;
+
+  const sessionEntries = await entriesRepository.getBySessionIds([sessionId]);
+  const waiting = sessionEntries
+    .filter(e => e[ENTRY_WAITLISTED] && !e[ENTRY_CANCELLED])
+    .sort((a, b) => String(a[ENTRY_WAITLISTED]).localeCompare(String(b[ENTRY_WAITLISTED])));
+
+  const waitingProfileIds = new Set(waiting.map(e => safeParseLookupId(e[PROFILE_LOOKUP])));
+
+  for (const entry of waiting) {
+    const profileId = safeParseLookupId(entry[PROFILE_LOOKUP]);
+    if (profileId === undefined) continue;
+    const adultId = safeParseLookupId(entry[ACCOMPANYING_ADULT_LOOKUP]);
+    // A child whose adult is also waiting moves up with the adult's entry
+    if (adultId !== undefined && waitingProfileIds.has(adultId)) continue;
+
+    const children = adultId === undefined
+      ? waiting.filter(e => safeParseLookupId(e[ACCOMPANYING_ADULT_LOOKUP]) === profileId)
+      : [];
+    const childPlaces = children.reduce((n, e) => n + entryHeadcount(e), 0);
+    const fits = adultId === undefined
+      ? await bookingFits(spSession, profileId, sessionEntries, entryHeadcount(entry), childPlaces)
+      : await bookingFits(spSession, adultId, sessionEntries, 0, entryHeadcount(entry));
+    if (!fits) continue;
+
+    for (const promoted of [entry, ...children]) {
+      const fields: Record<string, any> = { [ENTRY_WAITLISTED]: null };
+      await entriesRepository.updateFields(promoted.ID, fields);
+    }
+    console.log(`[Waitlist] Promoted entry ${entry.ID} (profile ${profileId}${children.length ? ` with ${children.length} children` : ''}) on session ${sessionId}`);
+
+    // A child promoted on their own is emailed to the adult they're booked with
+    const notifyProfileId = adultId ?? profileId;
+    const notifyEntry = adultId === undefined ? entry
+      : sessionEntries.find(e => safeParseLookupId(e[PROFILE_LOOKUP]) === adultId && !e[ENTRY_CANCELLED]) ?? entry;
+    sendPromotionEmail(notifyEntry, spSession, notifyProfileId, sessionEntries, baseUrl).catch(err =>
+      console.error(`[Waitlist] Failed to email promoted entry ${entry.ID}:`, err.message)
+    );
+    return entry.ID;
+  }
+  return undefined;
+}
+
+async function sendPromotionEmail(
+  entry: SharePointEntry,
+  spSession: SharePointSession,
+  profileId: number,
+  sessionEntries: SharePointEntry[],
+  baseUrl: string
+): Promise<void> {
+  const [profiles, groups] = await Promise.all([
+    profilesRepository.getAll(),
+    groupsRepository.getAll()
+  ]);
+  const profile = profiles.find(p => p.ID === profileId);
+  const to = profile ? parseEmails(profile.Email)[0] : undefined;
+  const groupId = safeParseLookupId(spSession[GROUP_LOOKUP] as unknown as string);
+  const group = groups.find(g => g.ID === groupId);
+  if (!profile || !to || !group) {
+    console.warn(`[Waitlist] No email sent for entry ${entry.ID} — missing profile email or group`);
+    return;
+  }
+
+  const vars = buildPreSessionVars(entry, spSession, profile, group, sessionEntries, baseUrl);
+  const { subject, html, text } = await renderEmail('waitlist-promoted', vars);
+  await sendEmail({ to, subject, html, text });
+}
@@ -0,0 +1,213 @@
+import { describe, it, expect, vi, beforeEach, afterEach, afterAll } from 'vitest'
+import crypto from 'crypto'
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+import type { SharePointWebhook } from '../../types/sharepoint'
+
+vi.mock('./repositories/webhooks-repository', () => ({
+  webhooksRepository: { configured: true, getAll: vi.fn() }
+}))
+
+vi.mock('./repositories/sessions-repository', () => ({
+  sessionsRepository: { getAll: vi.fn() }
+}))
+
+vi.mock('./repositories/groups-repository', () => ({
+  groupsRepository: { getAll: vi.fn() }
+}))
+
+vi.mock('./repositories/profiles-repository', () => ({
+  profilesRepository: { getAll: vi.fn() }
+}))
+
+import {
+  parseWebhookEvents, subscribesTo, signWebhookPayload, isRetryableStatus, toWebhookResponse,
+  deliverWebhook, buildWebhookEvent, emitEntryEvent, webhookDeliveryLog, WebhookDeliveryLog, RETRY_DELAYS_MS
+} from './webhooks'
+import { webhooksRepository } from './repositories/webhooks-repository'
+import { sessionsRepository } from './repositories/sessions-repository'
+import { groupsRepository } from './repositories/groups-repository'
+import { profilesRepository } from './repositories/profiles-repository'
+
+function webhook(overrides: Partial<SharePointWebhook> = {}): SharePointWebhook {
+  return {
+    ID: 1, Title: 'Website', Url: 'https://example.org/hooks/dtv', Events: '*', Secret: 'shh-secret-abcd', Enabled: true,
+    Created: '', Modified: '', ...overrides,
+  }
+}
+
+function response(status: number) {
+  return { ok: status >= 200 && status < 300, status } as Response
+}
+
+// The delivery log is a lazy singleton, so every test shares one file
+const logDir = fs.mkdtempSync(path.join(os.tmpdir(), 'webhooks-'))
+process.env.WEBHOOK_LOG_FILE = path.join(logDir, 'deliveries.jsonl')
+
+beforeEach(() => {
+  vi.clearAllMocks()
+  vi.spyOn(console, 'warn').mockImplementation(() => {})
+  vi.spyOn(console, 'log').mockImplementation(() => {})
+})
+
+afterEach(() => {
+  vi.useRealTimers()
+  vi.unstubAllGlobals()
+  vi.restoreAllMocks()
+})
+
+afterAll(() => {
+  fs.rmSync(logDir, { recursive: true, force: true })
+})
+
+describe('subscriptions', () => {
+  it('parses the Events column, treating blank as every event', () => {
+    expect(parseWebhookEvents('entry.booked, entry.cancelled')).toEqual(['entry.booked', 'entry.cancelled'])
+    expect(parseWebhookEvents('')).toEqual(['*'])
+    expect(parseWebhookEvents('entry.booked,*')).toEqual(['*'])
+    expect(parseWebhookEvents('entry.booked,nonsense')).toEqual(['entry.booked'])
+  })
+
+  it('only matches enabled subscriptions with a url and secret', () => {
+    expect(subscribesTo(webhook({ Events: 'entry.booked' }), 'entry.booked')).toBe(true)
+    expect(subscribesTo(webhook({ Events: 'entry.booked' }), 'entry.cancelled')).toBe(false)
+    expect(subscribesTo(webhook({ Enabled: false }), 'entry.booked')).toBe(false)
+    expect(subscribesTo(webhook({ Secret: '' }), 'entry.booked')).toBe(false)
+  })
+
+  it('hides the secret unless asked', () => {
+    expect(toWebhookResponse(webhook())).toEqual({
+      id: 1, name: 'Website', url: 'https://example.org/hooks/dtv', events: ['*'], enabled: true, secretHint: 'abcd',
+    })
+    expect(toWebhookResponse(webhook(), true).secret).toBe('shh-secret-abcd')
+  })
+})
+
+describe('signWebhookPayload', () => {
+  it('signs "{timestamp}.{body}" with HMAC-SHA256', () => {
+    const body = '{"type":"entry.booked"}'
+    const expected = crypto.createHmac('sha256', 'k').update(`1700000000.${body}`).digest('hex')
+    expect(signWebhookPayload('k', 1700000000, body)).toBe(`t=1700000000,v1=${expected}`)
+  })
+})
+
+describe('isRetryableStatus', () => {
+  it('retries network failures, timeouts, throttling and server errors only', () => {
+    expect(isRetryableStatus(undefined)).toBe(true)
+    expect(isRetryableStatus(408)).toBe(true)
+    expect(isRetryableStatus(429)).toBe(true)
+    expect(isRetryableStatus(502)).toBe(true)
+    expect(isRetryableStatus(400)).toBe(false)
+    expect(isRetryableStatus(410)).toBe(false)
+  })
+})
+
+describe('deliverWebhook', () => {
+  it('posts the signed event and logs the attempt', async () => {
+    const fetchMock = vi.fn().mockResolvedValue(response(204))
+    vi.stubGlobal('fetch', fetchMock)
+
+    const event = buildWebhookEvent('entry.checked_in', { entryId: 5 })
+    const record = await deliverWebhook(webhook(), event, 'd-1')
+
+    expect(record).toMatchObject({ deliveryId: 'd-1', subscriptionId: 1, attempt: 1, status: 204, ok: true })
+    expect(record.nextAttemptAt).toBeUndefined()
+
+    const [url, init] = fetchMock.mock.calls[0]
+    expect(url).toBe('https://example.org/hooks/dtv')
+    expect(init.headers['X-DTV-Event']).toBe('entry.checked_in')
+    expect(init.headers['X-DTV-Delivery']).toBe('d-1')
+    const [, t, v1] = /^t=(\d+),v1=([0-9a-f]+)$/.exec(init.headers['X-DTV-Signature'])!
+    expect(crypto.createHmac('sha256', 'shh-secret-abcd').update(`${t}.${init.body}`).digest('hex')).toBe(v1)
+
+    expect(await webhookDeliveryLog().query({ subscriptionId: 1 })).toEqual([record])
+  })
+
+  it('retries a server error with backoff under the same delivery ID', async () => {
+    vi.useFakeTimers()
+    const fetchMock = vi.fn()
+      .mockResolvedValueOnce(response(503))
+      .mockResolvedValueOnce(response(200))
+    vi.stubGlobal('fetch', fetchMock)
+    vi.mocked(webhooksRepository.getAll).mockResolvedValue([webhook()])
+
+    const first = await deliverWebhook(webhook(), buildWebhookEvent('entry.booked', { entryId: 5 }), 'd-2')
+    expect(first).toMatchObject({ ok: false, status: 503, error: 'HTTP 503' })
+    expect(first.nextAttemptAt).toBeDefined()
+
+    await vi.advanceTimersByTimeAsync(RETRY_DELAYS_MS[0])
+    expect(fetchMock).toHaveBeenCalledTimes(2)
+
+    // The retry's log append is real file I/O, which fake timers don't wait for
+    vi.useRealTimers()
+    await vi.waitFor(async () => {
+      const attempts = await webhookDeliveryLog().query({ deliveryId: 'd-2' })
+      expect(attempts.map(a => [a.attempt, a.ok])).toEqual([[2, true], [1, false]])
+    })
+  })
+
+  it('does not retry a client error', async () => {
+    vi.useFakeTimers()
+    const fetchMock = vi.fn().mockResolvedValue(response(404))
+    vi.stubGlobal('fetch', fetchMock)
+
+    const record = await deliverWebhook(webhook(), buildWebhookEvent('entry.booked', { entryId: 5 }))
+    expect(record.nextAttemptAt).toBeUndefined()
+    await vi.advanceTimersByTimeAsync(RETRY_DELAYS_MS[0])
+    expect(fetchMock).toHaveBeenCalledTimes(1)
+  })
+
+  it('stops retrying once the subscription is disabled', async () => {
+    vi.useFakeTimers()
+    const fetchMock = vi.fn().mockRejectedValue(new TypeError('fetch failed'))
+    vi.stubGlobal('fetch', fetchMock)
+    vi.mocked(webhooksRepository.getAll).mockResolvedValue([webhook({ Enabled: false })])
+
+    await deliverWebhook(webhook(), buildWebhookEvent('entry.booked', { entryId: 5 }))
+    await vi.advanceTimersByTimeAsync(RETRY_DELAYS_MS[0])
+    expect(fetchMock).toHaveBeenCalledTimes(1)
+  })
+})
+
+describe('emitEntryEvent', () => {
+  it('sends the session and volunteer summary to matching subscriptions only', async () => {
+    const fetchMock = vi.fn().mockResolvedValue(response(200))
+    vi.stubGlobal('fetch', fetchMock)
+    vi.mocked(webhooksRepository.getAll).mockResolvedValue([
+      webhook({ ID: 1, Events: 'entry.booked' }),
+      webhook({ ID: 2, Events: 'entry.cancelled', Url: 'https://example.org/other' }),
+    ])
+    vi.mocked(sessionsRepository.getAll).mockResolvedValue([
+      { ID: 10, Title: '2026-06-13 sat', Name: 'Hedge laying', Date: '2026-06-13', GroupLookupId: '3', Created: '', Modified: '' } as any,
+    ])
+    vi.mocked(groupsRepository.getAll).mockResolvedValue([{ ID: 3, Title: 'Sat', Name: 'Saturday Dig', Created: '', Modified: '' }])
+    vi.mocked(profilesRepository.getAll).mockResolvedValue([
+      { ID: 42, Title: 'Alex Smith', Email: 'alex@example.org', Created: '', Modified: '' },
+    ])
+
+    emitEntryEvent('entry.booked', { entryId: 7, sessionId: 10, profileId: 42, waitlisted: false })
+    await vi.waitFor(() => expect(fetchMock).toHaveBeenCalledTimes(1))
+
+    const [url, init] = fetchMock.mock.calls[0]
+    expect(url).toBe('https://example.org/hooks/dtv')
+    const body = JSON.parse(init.body)
+    expect(body).toMatchObject({
+      type: 'entry.booked',
+      source: 'api',
+      data: {
+        entryId: 7,
+        waitlisted: false,
+        session: { id: 10, title: 'Hedge laying', date: '2026-06-13', groupKey: 'sat', groupName: 'Saturday Dig' },
+        volunteer: { id: 42, name: 'Alex Smith', slug: 'alex-smith-42' },
+      },
+    })
+    expect(JSON.stringify(body)).not.toContain('alex@example.org')
+  })
+})
+
+describe('WebhookDeliveryLog', () => {
+  it('returns an empty list before anything is logged', async () => {
+    expect(await new WebhookDeliveryLog(path.join(logDir, 'missing.jsonl')).query({})).toEqual([])
+  })
+})
@@ -0,0 +1,305 @@
+/**
+ * Outbound Webhooks
+ *
+ * Lets other DTV systems (website, chat channels, newsletter tool) react to bookings,
+ * cancellations and check-ins. Subscriptions live in the Webhooks list (admin-managed,
+ * routes/webhooks.ts); events are fired from routes/entries.ts and the Eventbrite attendee sync.
+ *
+ * Each delivery is a JSON POST signed with the subscription's secret:
+ *
+ *   X-DTV-Event:     entry.checked_in
+ *   X-DTV-Delivery:  {uuid} — the same on every retry of one delivery
+ *   X-DTV-Signature: t={unix seconds},v1={hex HMAC-SHA256 of "{t}.{raw body}"}
+ *
+ * Network errors, timeouts, 408, 429 and 5xx are retried with backoff (RETRY_DELAYS_MS);
+ * other responses are final. Retries are in-process timers — a restart drops pending retries.
+ * Every attempt is appended to the delivery log (WEBHOOK_LOG_FILE, default logs/webhook-deliveries.jsonl).
+ *
+ * Emitting is fire-and-forget: a webhook failure never fails the request that caused it.
+ */
+
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { webhooksRepository } from './repositories/webhooks-repository';
+import { sessionsRepository } from './repositories/sessions-repository';
+import { groupsRepository } from './repositories/groups-repository';
+import { profilesRepository } from './repositories/profiles-repository';
+import { safeParseLookupId, profileSlug } from './data-layer';
+import { GROUP_LOOKUP } from './field-names';
+import type { SharePointWebhook } from '../../types/sharepoint';
+import type { WebhookEventType, WebhookSubscriptionResponse, WebhookDeliveryResponse } from '../../types/api-responses';
+
+/** Event types a subscription can ask for ('webhook.test' is only sent on demand) */
+export const WEBHOOK_EVENT_TYPES: WebhookEventType[] = ['entry.booked', 'entry.cancelled', 'entry.checked_in', 'entry.deleted'];
+
+/** Wait before attempt 2, 3, … — five attempts over roughly two and a half hours */
+export const RETRY_DELAYS_MS = [60_000, 5 * 60_000, 30 * 60_000, 2 * 60 * 60_000];
+
+const REQUEST_TIMEOUT_MS = 10_000;
+const DEFAULT_LOG_LIMIT = 200;
+
+export interface WebhookEvent {
+  id: string;
+  type: WebhookEventType;
+  occurredAt: string;
+  /** 'api' for tracker writes, 'eventbrite' for the attendee sync */
+  source: 'api' | 'eventbrite';
+  data: Record<string, unknown>;
+}
+
+export interface EntryEventInput {
+  entryId: number;
+  sessionId?: number;
+  profileId?: number;
+  source?: WebhookEvent['source'];
+  waitlisted?: boolean;
+}
+
+// ---------------------------------------------------------------------------
+// Subscriptions
+// ---------------------------------------------------------------------------
+
+/** Events column → event types; '*' (or empty) means every event */
+export function parseWebhookEvents(raw: string | undefined): WebhookEventType[] | ['*'] {
+  const parts = String(raw || '').split(',').map(s => s.trim()).filter(Boolean);
+  if (parts.length === 0 || parts.includes('*')) return ['*'];
+  return parts.filter((p): p is WebhookEventType => (WEBHOOK_EVENT_TYPES as string[]).includes(p));
+}
+
+export function subscribesTo(item: SharePointWebhook, type: WebhookEventType): boolean {
+  if (!item.Enabled || !item.Url || !item.Secret) return false;
+  const events = parseWebhookEvents(item.Events);
+  return events[0] === '*' || (events as WebhookEventType[]).includes(type);
+}
+
+export function generateWebhookSecret(): string {
+  return crypto.randomBytes(24).toString('hex');
+}
+
+export function toWebhookResponse(item: SharePointWebhook, includeSecret = false): WebhookSubscriptionResponse {
+  const secret = item.Secret || '';
+  const response: WebhookSubscriptionResponse = {
+    id: item.ID,
+    name: item.Title || '',
+    url: item.Url || '',
+    events: parseWebhookEvents(item.Events),
+    enabled: !!item.Enabled,
+    secretHint: secret.slice(-4),
+  };
+  if (includeSecret) response.secret = secret;
+  return response;
+}
+
+// ---------------------------------------------------------------------------
+// Signing and retry policy
+// ---------------------------------------------------------------------------
+
+export function signWebhookPayload(secret: string, timestamp: number, body: string): string {
+  const digest = crypto.createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+  return `t=${timestamp},v1=${digest}`;
+}
+
+/** No status means the request never got a response (network error or timeout) */
+export function isRetryableStatus(status: number | undefined): boolean {
+  return status === undefined || status === 408 || status === 429 || status >= 500;
+}
+
+// ---------------------------------------------------------------------------
+// Delivery log
+// ---------------------------------------------------------------------------
+
+export interface WebhookDeliveryQuery {
+  subscriptionId?: number;
+  deliveryId?: string;
+  limit?: number;
+}
+
+/** Append-only JSON lines, one per attempt */
+export class WebhookDeliveryLog {
+  private writing: Promise<void> = Promise.resolve();
+
+  constructor(private readonly filePath: string) {}
+
+  write(record: WebhookDeliveryResponse): Promise<void> {
+    // Serialise appends so concurrent deliveries can't interleave partial lines
+    this.writing = this.writing.then(async () => {
+      await fs.promises.mkdir(path.dirname(this.filePath), { recursive: true });
+      await fs.promises.appendFile(this.filePath, JSON.stringify(record) + '\n', 'utf8');
+    });
+    return this.writing;
+  }
+
+  /** Newest first */
+  async query(q: WebhookDeliveryQuery): Promise<WebhookDeliveryResponse[]> {
+    let content: string;
+    try {
+      content = await fs.promises.readFile(this.filePath, 'utf8');
+    } catch (err: any) {
+      if (err.code === 'ENOENT') return [];
+      throw err;
+    }
+    const records: WebhookDeliveryResponse[] = [];
+    for (const line of content.split('\n')) {
+      if (!line.trim()) continue;
+      try {
+        const record = JSON.parse(line) as WebhookDeliveryResponse;
+        if (q.subscriptionId !== undefined && record.subscriptionId !== q.subscriptionId) continue;
+        if (q.deliveryId && record.deliveryId !== q.deliveryId) continue;
+        records.push(record);
+      } catch {
+        // Skip a torn line rather than failing the whole query
+      }
+    }
+    return records.reverse().slice(0, q.limit ?? DEFAULT_LOG_LIMIT);
+  }
+}
+
+let deliveryLog: WebhookDeliveryLog | undefined;
+
+/** Created on first use so WEBHOOK_LOG_FILE can be set after import (tests, scripts) */
+export function webhookDeliveryLog(): WebhookDeliveryLog {
+  if (!deliveryLog) {
+    deliveryLog = new WebhookDeliveryLog(process.env.WEBHOOK_LOG_FILE || path.join('logs', 'webhook-deliveries.jsonl'));
+  }
+  return deliveryLog;
+}
+
+// ---------------------------------------------------------------------------
+// Delivery
+// ---------------------------------------------------------------------------
+
+/**
+ * POST one attempt and log it. When the attempt can be retried, the next one is scheduled
+ * (after re-reading the subscription, so a disabled or deleted subscription stops retrying).
+ */
+export async function deliverWebhook(
+  item: SharePointWebhook,
+  event: WebhookEvent,
+  deliveryId: string = crypto.randomUUID(),
+  attempt = 1
+): Promise<WebhookDeliveryResponse> {
+  const body = JSON.stringify(event);
+  const started = Date.now();
+  let status: number | undefined;
+  let error: string | undefined;
+
+  try {
+    const res = await fetch(item.Url!, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'User-Agent': 'DTV-Tracker-Webhooks',
+        'X-DTV-Event': event.type,
+        'X-DTV-Delivery': deliveryId,
+        'X-DTV-Signature': signWebhookPayload(item.Secret!, Math.floor(started / 1000), body),
+      },
+      body,
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+    });
+    status = res.status;
+    if (!res.ok) error = `HTTP ${res.status}`;
+  } catch (err: any) {
+    error = err.name === 'TimeoutError' ? `Timed out after ${REQUEST_TIMEOUT_MS / 1000}s` : err.message;
+  }
+
+  const ok = status !== undefined && status >= 200 && status < 300;
+  const delay = !ok && isRetryableStatus(status) ? RETRY_DELAYS_MS[attempt - 1] : undefined;
+  const record: WebhookDeliveryResponse = {
+    deliveryId,
+    subscriptionId: item.ID,
+    event: event.type,
+    url: item.Url!,
+    attempt,
+    timestamp: new Date().toISOString(),
+    status,
+    ok,
+    error,
+    durationMs: Date.now() - started,
+    nextAttemptAt: delay !== undefined ? new Date(Date.now() + delay).toISOString() : undefined,
+  };
+
+  await webhookDeliveryLog().write(record).catch(err =>
+    console.error(`[Webhooks] Failed to log delivery ${deliveryId}:`, err.message)
+  );
+  if (!ok) console.warn(`[Webhooks] ${event.type} to subscription ${item.ID} failed (attempt ${attempt}): ${error}`);
+
+  if (delay !== undefined) {
+    setTimeout(() => {
+      retryDelivery(item.ID, event, deliveryId, attempt + 1).catch(err =>
+        console.error(`[Webhooks] Retry of delivery ${deliveryId} failed:`, err.message)
+      );
+    }, delay).unref();
+  }
+  return record;
+}
+
+async function retryDelivery(subscriptionId: number, event: WebhookEvent, deliveryId: string, attempt: number): Promise<void> {
+  const current = (await webhooksRepository.getAll()).find(w => w.ID === subscriptionId);
+  if (!current || !(event.type === 'webhook.test' ? current.Enabled : subscribesTo(current, event.type))) {
+    console.log(`[Webhooks] Dropping retry of ${deliveryId} — subscription ${subscriptionId} removed or disabled`);
+    return;
+  }
+  await deliverWebhook(current, event, deliveryId, attempt);
+}
+
+export function buildWebhookEvent(type: WebhookEventType, data: Record<string, unknown>, source: WebhookEvent['source'] = 'api'): WebhookEvent {
+  return { id: crypto.randomUUID(), type, occurredAt: new Date().toISOString(), source, data };
+}
+
+/**
+ * Session and volunteer summary for an entry event, from the cached lists.
+ * Names only — no emails or notes leave the tracker.
+ */
+async function entryEventData(input: EntryEventInput): Promise<Record<string, unknown>> {
+  const data: Record<string, unknown> = { entryId: input.entryId };
+  if (input.waitlisted !== undefined) data.waitlisted = input.waitlisted;
+
+  const [sessions, groups, profiles] = await Promise.all([
+    input.sessionId !== undefined ? sessionsRepository.getAll() : Promise.resolve([]),
+    input.sessionId !== undefined ? groupsRepository.getAll() : Promise.resolve([]),
+    input.profileId !== undefined ? profilesRepository.getAll() : Promise.resolve([]),
+  ]);
+
+  const spSession = sessions.find(s => s.ID === input.sessionId);
+  if (spSession) {
+    const group = groups.find(g => g.ID === safeParseLookupId(spSession[GROUP_LOOKUP] as unknown as string));
+    const groupKey = group?.Title?.toLowerCase();
+    const date = (spSession.Date || '').slice(0, 10);
+    const frontendUrl = process.env.FRONTEND_URL;
+    data.session = {
+      id: spSession.ID,
+      title: spSession.Name || spSession.Title,
+      date,
+      groupKey,
+      groupName: group?.Name || group?.Title,
+      url: frontendUrl && groupKey ? `${frontendUrl}/sessions/${groupKey}/${date}` : undefined,
+    };
+  } else if (input.sessionId !== undefined) {
+    data.session = { id: input.sessionId };
+  }
+
+  const profile = profiles.find(p => p.ID === input.profileId);
+  if (profile) {
+    data.volunteer = { id: profile.ID, name: profile.Title, slug: profileSlug(profile.Title, profile.ID) };
+  } else if (input.profileId !== undefined) {
+    data.volunteer = { id: input.profileId };
+  }
+  return data;
+}
+
+async function dispatchEntryEvent(type: WebhookEventType, input: EntryEventInput): Promise<void> {
+  if (!webhooksRepository.configured) return;
+  const targets = (await webhooksRepository.getAll()).filter(w => subscribesTo(w, type));
+  if (targets.length === 0) return;
+
+  const event = buildWebhookEvent(type, await entryEventData(input), input.source);
+  await Promise.all(targets.map(t => deliverWebhook(t, event)));
+}
+
+/** Fire an entry event to every matching subscription. Never throws. */
+export function emitEntryEvent(type: WebhookEventType, input: EntryEventInput): void {
+  dispatchEntryEvent(type, input).catch(err =>
+    console.error(`[Webhooks] Failed to dispatch ${type} for entry ${input.entryId}:`, err.message)
+  );
+}
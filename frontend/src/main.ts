@@ -10,3 +10,13 @@ import App from './App.vue'
 
 const app = createApp(App).use(createPinia()).use(router)
 router.isReady().then(() => app.mount('#app'))
+
+// Offline check-in: caches the app shell and session pages (public/sw.js). Production only —
+// a worker in dev would serve stale modules over Vite's HMR.
+if (import.meta.env.PROD && 'serviceWorker' in navigator) {
+  window.addEventListener('load', () => {
+    navigator.serviceWorker.register(`${import.meta.env.BASE_URL}sw.js`).catch(err =>
+      console.error('[sw] Registration failed', err)
+    )
+  })
+}
@@ -77,6 +77,7 @@ export const router = createRouter({
     { path: '/profiles/:slug', component: ProfileDetailPage, meta: { requiresAuth: true } },
     { path: '/profiles/:slug/consent', component: () => import('../pages/ConsentPage.vue'), meta: { requiresAuth: true } },
     { path: '/upload', component: () => import('../pages/UploadPage.vue') },
+    { path: '/rsvp/:token', component: () => import('../pages/RsvpPage.vue') },
     { path: '/sandbox', component: () => import('../pages/sandbox/SandboxIndex.vue') },
     { path: '/sandbox/app-button', component: () => import('../pages/sandbox/SandboxAppButton.vue') },
     { path: '/sandbox/action-bars', component: () => import('../pages/sandbox/SandboxActionBars.vue') },
@@ -34,6 +34,13 @@ describe('profileDetail store', () => {
     expect(store.profile).toBeNull()
   })
 
+  it('asks a guardian to sign in again for a child profile', async () => {
+    mockFetch({ success: false, stepUp: true, email: 'alex@example.com' }, false, 401)
+    const store = useProfileDetailStore()
+    await store.fetch('sam-davies-2')
+    expect(mockPush).toHaveBeenCalledWith(expect.stringMatching(/reason=step-up&email=alex%40example\.com$/))
+  })
+
   it('sets httpStatus and error on 404', async () => {
     mockFetch({}, false, 404)
     const store = useProfileDetailStore()
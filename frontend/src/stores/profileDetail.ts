@@ -2,6 +2,7 @@ import { ref } from 'vue'
 import { defineStore } from 'pinia'
 import { useRouter } from 'vue-router'
 import type { ProfileDetailResponse } from '../../../types/api-responses'
+import { loginRedirect } from '../utils/loginRedirect'
 
 export const useProfileDetailStore = defineStore('profileDetail', () => {
   const profile = ref<ProfileDetailResponse | null>(null)
@@ -19,7 +20,7 @@ export const useProfileDetailStore = defineStore('profileDetail', () => {
       const res = await window.fetch(`/api/profiles/${slug}`)
       httpStatus.value = res.status
       if (res.status === 401) {
-        router.push(`/login?returnTo=${encodeURIComponent(window.location.pathname)}`)
+        router.push(loginRedirect(window.location.pathname, await res.json().catch(() => null)))
         return
       }
       if (!res.ok) throw new Error(`Failed to load profile (${res.status})`)
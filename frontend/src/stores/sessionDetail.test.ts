@@ -4,7 +4,7 @@ import { useSessionDetailStore } from './sessionDetail'
 
 function mockFetch(data: unknown, ok = true, status = 200) {
   vi.stubGlobal('fetch', vi.fn().mockResolvedValue({
-    ok, status, json: () => Promise.resolve(data),
+    ok, status, headers: new Headers(), json: () => Promise.resolve(data),
   }))
 }
 
@@ -57,4 +57,26 @@ describe('sessionDetail store', () => {
     await store.fetch('foo', '2024-01-15')
     expect(store.loading).toBe(false)
   })
+
+  it('sends the loaded Modified with entry patches and keeps the new one', async () => {
+    mockFetch({ data: { ...baseSession, entries: [{ id: 7, checkedIn: false, hours: 0, modified: 'm1' }] } })
+    const store = useSessionDetailStore()
+    await store.fetch('foo', '2024-01-15')
+
+    mockFetch({ success: true, data: { modified: 'm2', checkedIn: true, hours: 3, labels: [] } })
+    expect(await store.patchEntry(7, { checkedIn: true, hours: 3 })).toBe('saved')
+    const [, init] = vi.mocked(fetch).mock.calls[0]
+    expect(JSON.parse(init!.body as string)).toEqual({ checkedIn: true, hours: 3, expectedModified: 'm1' })
+    expect(store.session?.entries[0].modified).toBe('m2')
+  })
+
+  it('reports a conflict when the entry changed elsewhere', async () => {
+    mockFetch({ data: { ...baseSession, entries: [{ id: 7, checkedIn: false, hours: 0, modified: 'm1' }] } })
+    const store = useSessionDetailStore()
+    await store.fetch('foo', '2024-01-15')
+
+    mockFetch({ success: false, data: { modified: 'm3' } }, false, 409)
+    expect(await store.patchEntry(7, { checkedIn: true })).toBe('conflict')
+  })
 })
+
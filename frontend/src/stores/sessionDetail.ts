@@ -1,25 +1,59 @@
 import { ref } from 'vue'
 import { defineStore } from 'pinia'
 import type { SessionDetailResponse } from '../../../types/api-responses'
+import {
+  OFFLINE_FIELD_KEYS,
+  applyQueuedPatches,
+  isNetworkError,
+  listQueued,
+  offlineStorageAvailable,
+  overrideConflict,
+  queueEntryPatch,
+  removeQueued,
+  replayQueue,
+  type OfflineEntryFields,
+  type QueuedEntryPatch,
+  type ReplayResult,
+} from '../utils/offlineQueue'
+
+export type EntryPatchResult = 'saved' | 'queued' | 'conflict'
 
 export const useSessionDetailStore = defineStore('sessionDetail', () => {
   const session = ref<SessionDetailResponse | null>(null)
   const loading = ref(false)
   const error = ref<string | null>(null)
   const httpStatus = ref<number | null>(null)
+  /** Set when the service worker answered from its offline copy — when that copy was saved */
+  const offlineSavedAt = ref<string | null>(null)
+  /** Offline changes for this session still waiting to be sent (including conflicts) */
+  const queued = ref<QueuedEntryPatch[]>([])
+  const replaying = ref(false)
+  let loaded: { groupKey: string; date: string } | null = null
+  let sessionKey = ''
 
   async function fetch(groupKey: string, date: string) {
     loading.value = true
     error.value = null
     httpStatus.value = null
     session.value = null
+    offlineSavedAt.value = null
+    loaded = { groupKey, date }
+    sessionKey = `${groupKey}/${date}`
     try {
       const res = await window.fetch(`/api/sessions/${groupKey}/${date}`)
       httpStatus.value = res.status
       if (!res.ok) throw new Error(`Failed to load session (${res.status})`)
+      offlineSavedAt.value = res.headers.get('X-Offline-Saved-At')
       const json = await res.json()
       const d = json.data
-      session.value = { ...d, isRegistered: d.isRegistered ?? false, isAttended: d.isAttended ?? false, isRegular: d.isRegular ?? false }
+      queued.value = await listQueued(sessionKey)
+      session.value = {
+        ...d,
+        entries: applyQueuedPatches(d.entries ?? [], queued.value),
+        isRegistered: d.isRegistered ?? false,
+        isAttended: d.isAttended ?? false,
+        isRegular: d.isRegular ?? false,
+      }
     } catch (e) {
       error.value = e instanceof Error ? e.message : 'Unknown error'
       console.error('[sessionDetail store]', error.value)
@@ -28,5 +62,83 @@ export const useSessionDetailStore = defineStore('sessionDetail', () => {
     }
   }
 
-  return { session, loading, error, httpStatus, fetch }
+  /**
+   * PATCH an entry with conflict detection against the Modified it was loaded with.
+   * With no signal, check-in / hours / labels changes are queued for replay instead ('queued');
+   * anything else throws. 'conflict' means someone else changed the entry — reload and retry.
+   * Callers update the displayed entry themselves on 'saved' and 'queued', as before.
+   */
+  async function patchEntry(entryId: number, body: Record<string, unknown>): Promise<EntryPatchResult> {
+    const stored = session.value?.entries.find(e => e.id === entryId)
+    const queueable = offlineStorageAvailable() &&
+      Object.keys(body).every(k => (OFFLINE_FIELD_KEYS as readonly string[]).includes(k))
+
+    const enqueue = async (): Promise<EntryPatchResult> => {
+      await queueEntryPatch({ entryId, sessionKey, fields: body as OfflineEntryFields, expectedModified: stored?.modified })
+      queued.value = await listQueued(sessionKey)
+      return 'queued'
+    }
+
+    if (queueable && navigator.onLine === false) return enqueue()
+    // Still waiting to replay an earlier offline change to this entry — join it rather than
+    // overtake it, or the replay would conflict with our own newer write
+    if (queueable && queued.value.some(q => q.entryId === entryId && !q.conflict)) {
+      const result = await enqueue()
+      void replay()
+      return result
+    }
+
+    let res: Response
+    try {
+      res = await window.fetch(`/api/entries/${entryId}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ ...body, expectedModified: stored?.modified }),
+      })
+    } catch (e) {
+      if (queueable && isNetworkError(e)) return enqueue()
+      throw e
+    }
+    if (res.status === 409) return 'conflict'
+    if (!res.ok) throw new Error(`Update failed (${res.status})`)
+    const json = await res.json().catch(() => null)
+    if (stored && json?.data?.modified) stored.modified = json.data.modified
+    return 'saved'
+  }
+
+  /** Send queued offline changes; reloads the session if anything reached the server. */
+  async function replay(): Promise<ReplayResult | null> {
+    if (replaying.value || !offlineStorageAvailable()) return null
+    replaying.value = true
+    try {
+      const result = await replayQueue()
+      queued.value = await listQueued(sessionKey)
+      if ((result.sent || result.conflicts) && loaded) {
+        await fetch(loaded.groupKey, loaded.date)
+      }
+      return result
+    } catch (e) {
+      console.error('[sessionDetail store] replay failed', e)
+      return null
+    } finally {
+      replaying.value = false
+    }
+  }
+
+  /** Resolve a conflict by sending the offline change over the other edit */
+  async function keepQueued(item: QueuedEntryPatch) {
+    await overrideConflict(item)
+    await replay()
+  }
+
+  /** Resolve a conflict by dropping the offline change */
+  async function discardQueued(item: QueuedEntryPatch) {
+    if (item.id !== undefined) await removeQueued(item.id)
+    queued.value = await listQueued(sessionKey)
+  }
+
+  return {
+    session, loading, error, httpStatus, offlineSavedAt, queued, replaying,
+    fetch, patchEntry, replay, keepQueued, discardQueued,
+  }
 })
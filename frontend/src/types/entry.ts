@@ -25,9 +25,12 @@ export interface EntryItem {
   notes?: string
   accompanyingAdultId?: number
   cancelled?: string // ISO datetime if booking was cancelled
+  waitlisted?: string // ISO datetime the booking joined the waitlist; absent = confirmed place
   labels?: string[]
   isNew?: boolean
   eventbriteAttendeeId?: string
+  organisation?: string // employer for a CSR / work booking
+  placeholder?: boolean // unnamed team booking place
   profile: EntryProfileSummary
   session: EntrySessionSummary
 }
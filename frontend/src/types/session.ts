@@ -23,7 +23,9 @@ export interface Session {
   displayName?: string   // override title; falls back to groupName + date when absent
   description?: string
   financialYear: string
-  isBookable: boolean
+  isBookable: boolean    // today or future — check cancelled before offering booking
+  cancelled?: string     // ISO datetime the whole session was called off
+  cancelReason?: string
   limits: SessionLimits
   stats: SessionStats
   regularsCount?: number  // group-level total regulars (not in stats sub-object)
@@ -14,4 +14,13 @@ describe('bulkEntrySessionOptions', () => {
       { id: 3, label: '1 Dec 2026 — Far' },
     ])
   })
+
+  it('leaves out cancelled sessions', () => {
+    const result = bulkEntrySessionOptions([
+      { id: 1, date: '2026-06-01', groupName: 'Near', isBookable: true, cancelled: '2026-05-30T07:00:00Z' },
+      { id: 3, date: '2026-12-01', groupName: 'Far', isBookable: true },
+    ])
+
+    expect(result).toEqual([{ id: 3, label: '1 Dec 2026 — Far' }])
+  })
 })
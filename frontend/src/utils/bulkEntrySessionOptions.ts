@@ -10,6 +10,7 @@ interface SessionLike {
   groupName?: string
   groupKey?: string
   isBookable: boolean
+  cancelled?: string
 }
 
 function sessionLabel(s: SessionLike): string {
@@ -20,7 +21,7 @@ function sessionLabel(s: SessionLike): string {
 
 export function bulkEntrySessionOptions(sessions: SessionLike[]): BulkEntrySessionOption[] {
   return sessions
-    .filter(s => s.isBookable)
+    .filter(s => s.isBookable && !s.cancelled)
     .sort((a, b) => a.date.localeCompare(b.date))
     .map(s => ({ id: s.id, label: sessionLabel(s) }))
 }
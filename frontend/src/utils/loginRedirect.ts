@@ -0,0 +1,9 @@
+/**
+ * Login page URL that returns to returnTo. A 401 body with stepUp set (a guardian opening a child's
+ * details without a recent sign-in) adds the step-up reason and pre-fills the volunteer's email.
+ */
+export function loginRedirect(returnTo: string, body?: { stepUp?: boolean; email?: string } | null): string {
+  const path = `/login?returnTo=${encodeURIComponent(returnTo)}`
+  if (!body?.stepUp) return path
+  return `${path}&reason=step-up${body.email ? `&email=${encodeURIComponent(body.email)}` : ''}`
+}
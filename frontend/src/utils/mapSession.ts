@@ -21,6 +21,8 @@ export function mapSession(
     description: r.description,
     financialYear: r.financialYear,
     isBookable: r.isBookable,
+    cancelled: r.cancelled,
+    cancelReason: r.cancelReason,
     limits: r.limits,
     stats: r.stats,
     regularsCount: r.regularsCount,
@@ -0,0 +1,52 @@
+import { describe, it, expect } from 'vitest'
+import { applyQueuedPatches, mergeQueuedFields, replayOutcome, isNetworkError, type QueuedEntryPatch } from './offlineQueue'
+import type { EntryResponse } from '../../../types/api-responses'
+
+function entry(id: number, overrides: Partial<EntryResponse> = {}): EntryResponse {
+  return { id, isGroup: false, isMember: false, count: 1, hours: 0, checkedIn: false, modified: '2026-06-13T09:00:00Z', ...overrides }
+}
+
+function queued(entryId: number, fields: QueuedEntryPatch['fields'], overrides: Partial<QueuedEntryPatch> = {}): QueuedEntryPatch {
+  return { id: entryId * 10, entryId, sessionKey: 'sat/2026-06-13', fields, queuedAt: '2026-06-13T10:00:00Z', ...overrides }
+}
+
+describe('mergeQueuedFields', () => {
+  it('lets the later change win field by field', () => {
+    expect(mergeQueuedFields({ checkedIn: true, hours: 3 }, { hours: 2 })).toEqual({ checkedIn: true, hours: 2 })
+  })
+})
+
+describe('applyQueuedPatches', () => {
+  it('overlays pending changes on the matching entries', () => {
+    const result = applyQueuedPatches(
+      [entry(1), entry(2)],
+      [queued(1, { checkedIn: true }), queued(1, { hours: 3 })]
+    )
+    expect(result[0]).toMatchObject({ checkedIn: true, hours: 3 })
+    expect(result[1]).toEqual(entry(2))
+  })
+
+  it('ignores conflicted changes until they are resolved', () => {
+    const conflict = { modified: '2026-06-13T11:00:00Z', checkedIn: false, hours: 0, labels: [] }
+    const result = applyQueuedPatches([entry(1)], [queued(1, { checkedIn: true }, { conflict })])
+    expect(result[0].checkedIn).toBe(false)
+  })
+})
+
+describe('replayOutcome', () => {
+  it('classifies replay responses', () => {
+    expect(replayOutcome(200)).toBe('sent')
+    expect(replayOutcome(409)).toBe('conflict')
+    expect(replayOutcome(401)).toBe('retry')
+    expect(replayOutcome(503)).toBe('retry')
+    expect(replayOutcome(404)).toBe('dropped')
+    expect(replayOutcome(400)).toBe('dropped')
+  })
+})
+
+describe('isNetworkError', () => {
+  it('is true only for fetch failures that never reached the server', () => {
+    expect(isNetworkError(new TypeError('Failed to fetch'))).toBe(true)
+    expect(isNetworkError(new Error('Update failed (500)'))).toBe(false)
+  })
+})
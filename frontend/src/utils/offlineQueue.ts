@@ -0,0 +1,176 @@
+import type { EntryResponse, EntryVersionResponse } from '../../../types/api-responses'
+
+/**
+ * Offline check-in queue — entry PATCHes made with no signal, kept in IndexedDB until the
+ * device reconnects. Shares the `dtv-offline` database with the service worker (public/sw.js),
+ * which caches session detail responses; keep DB_NAME / DB_VERSION / store names in step.
+ */
+
+const DB_NAME = 'dtv-offline'
+const DB_VERSION = 1
+const SESSIONS_STORE = 'sessions'
+const QUEUE_STORE = 'queue'
+
+/** Fields the check-in page can change offline */
+export interface OfflineEntryFields {
+  checkedIn?: boolean
+  hours?: number
+  labels?: string[]
+}
+
+export interface QueuedEntryPatch {
+  id?: number
+  entryId: number
+  /** `{groupKey}/{date}` — which session page queued it */
+  sessionKey: string
+  fields: OfflineEntryFields
+  /** Modified of the entry when it was last loaded; the server rejects the replay with 409 if it has moved on */
+  expectedModified?: string
+  queuedAt: string
+  /** Set when a replay hit a 409: the server's current state, awaiting keep-mine / discard */
+  conflict?: EntryVersionResponse
+}
+
+export type ReplayOutcome = 'sent' | 'conflict' | 'dropped' | 'retry'
+
+export interface ReplayResult {
+  sent: number
+  conflicts: number
+  dropped: number
+}
+
+export const OFFLINE_FIELD_KEYS: readonly (keyof OfflineEntryFields)[] = ['checkedIn', 'hours', 'labels']
+
+export function mergeQueuedFields(earlier: OfflineEntryFields, later: OfflineEntryFields): OfflineEntryFields {
+  return { ...earlier, ...later }
+}
+
+/**
+ * Entries as they will be once the queue has replayed — for showing queued check-ins on a cached page.
+ * Conflicted items are left out: the page shows the server's value until the user picks one.
+ */
+export function applyQueuedPatches(entries: EntryResponse[], queued: QueuedEntryPatch[]): EntryResponse[] {
+  const byEntry = new Map<number, OfflineEntryFields>()
+  for (const q of queued) if (!q.conflict) byEntry.set(q.entryId, mergeQueuedFields(byEntry.get(q.entryId) ?? {}, q.fields))
+  return entries.map(e => {
+    const fields = byEntry.get(e.id)
+    return fields ? { ...e, ...fields } : e
+  })
+}
+
+/**
+ * What to do with a queued item after its PATCH came back:
+ * 2xx sent; 409 conflict (kept for the user to resolve); 401/403/5xx retry later
+ * (signed out, or server trouble); any other 4xx dropped — the entry is gone or the change is invalid.
+ */
+export function replayOutcome(status: number): ReplayOutcome {
+  if (status >= 200 && status < 300) return 'sent'
+  if (status === 409) return 'conflict'
+  if (status === 401 || status === 403 || status >= 500) return 'retry'
+  return 'dropped'
+}
+
+/** A fetch that failed without reaching the server (no signal), as opposed to an HTTP error */
+export function isNetworkError(err: unknown): boolean {
+  return err instanceof TypeError
+}
+
+export function offlineStorageAvailable(): boolean {
+  return typeof indexedDB !== 'undefined'
+}
+
+function openDb(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const open = indexedDB.open(DB_NAME, DB_VERSION)
+    open.onupgradeneeded = () => {
+      const db = open.result
+      if (!db.objectStoreNames.contains(SESSIONS_STORE)) db.createObjectStore(SESSIONS_STORE, { keyPath: 'url' })
+      if (!db.objectStoreNames.contains(QUEUE_STORE)) db.createObjectStore(QUEUE_STORE, { keyPath: 'id', autoIncrement: true })
+    }
+    open.onsuccess = () => resolve(open.result)
+    open.onerror = () => reject(open.error)
+  })
+}
+
+function request<T>(req: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result)
+    req.onerror = () => reject(req.error)
+  })
+}
+
+async function queueStore(mode: IDBTransactionMode): Promise<IDBObjectStore> {
+  const db = await openDb()
+  return db.transaction(QUEUE_STORE, mode).objectStore(QUEUE_STORE)
+}
+
+/** Queued patches, oldest first; optionally only those for one session page */
+export async function listQueued(sessionKey?: string): Promise<QueuedEntryPatch[]> {
+  if (!offlineStorageAvailable()) return []
+  const all = await request((await queueStore('readonly')).getAll() as IDBRequest<QueuedEntryPatch[]>)
+  return sessionKey ? all.filter(q => q.sessionKey === sessionKey) : all
+}
+
+/**
+ * Queue a change. A second offline change to the same entry is merged into the pending item,
+ * keeping the original expectedModified, so the replay is a single PATCH.
+ */
+export async function queueEntryPatch(item: Omit<QueuedEntryPatch, 'id' | 'queuedAt'>): Promise<void> {
+  const pending = (await listQueued()).find(q => q.entryId === item.entryId && !q.conflict)
+  const store = await queueStore('readwrite')
+  if (pending) {
+    await request(store.put({ ...pending, fields: mergeQueuedFields(pending.fields, item.fields) }))
+  } else {
+    await request(store.add({ ...item, queuedAt: new Date().toISOString() }))
+  }
+}
+
+export async function removeQueued(id: number): Promise<void> {
+  await request((await queueStore('readwrite')).delete(id))
+}
+
+/** Keep my change: retry against the server's current Modified, overwriting the other edit. */
+export async function overrideConflict(item: QueuedEntryPatch): Promise<void> {
+  if (!item.conflict) return
+  await request((await queueStore('readwrite')).put({ ...item, expectedModified: item.conflict.modified, conflict: undefined }))
+}
+
+/**
+ * Send queued patches in order. Stops at the first network failure (still offline);
+ * conflicts stay queued with the server's state attached.
+ */
+export async function replayQueue(): Promise<ReplayResult> {
+  const result: ReplayResult = { sent: 0, conflicts: 0, dropped: 0 }
+  for (const item of await listQueued()) {
+    if (item.conflict || item.id === undefined) continue
+    let res: Response
+    try {
+      res = await fetch(`/api/entries/${item.entryId}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ ...item.fields, expectedModified: item.expectedModified }),
+      })
+    } catch (e) {
+      if (isNetworkError(e)) break
+      throw e
+    }
+
+    const outcome = replayOutcome(res.status)
+    if (outcome === 'retry') break
+    if (outcome === 'conflict') {
+      const json = await res.json().catch(() => null)
+      if (json?.data) {
+        await request((await queueStore('readwrite')).put({ ...item, conflict: json.data }))
+        result.conflicts++
+        continue
+      }
+    }
+    await removeQueued(item.id)
+    if (outcome === 'sent') result.sent++
+    else {
+      console.warn(`[offlineQueue] Dropped queued change to entry ${item.entryId} (${res.status})`)
+      result.dropped++
+    }
+  }
+  return result
+}
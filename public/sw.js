@@ -0,0 +1,177 @@
+/*
+ * Service worker — offline check-in support.
+ *
+ * - App shell: the last SPA page and static assets (Vite's hashed /assets, icons, images) are
+ *   cached so the app opens with no signal.
+ * - Session detail: GET /api/sessions/:group/:date is network-first; every successful response is
+ *   saved to IndexedDB and served from there when the network is unavailable, with an
+ *   X-Offline-Saved-At header so the page can say how old the copy is.
+ * - /auth/me is cached too, so check-in users keep their role offline.
+ *
+ * Entry PATCHes made while offline are queued by the page (frontend/src/utils/offlineQueue.ts)
+ * in the same database — keep DB_NAME / DB_VERSION / store names in step with that file.
+ */
+
+const SHELL_CACHE = 'dtv-shell-v1';
+const SHELL_KEY = '/__shell';
+const AUTH_ME_KEY = '/auth/me';
+
+const DB_NAME = 'dtv-offline';
+const DB_VERSION = 1;
+const SESSIONS_STORE = 'sessions';
+const QUEUE_STORE = 'queue';
+const MAX_CACHED_SESSIONS = 20;
+
+const SESSION_API = /^\/api\/sessions\/[^/]+\/\d{4}-\d{2}-\d{2}$/;
+const STATIC_ASSET = /^\/(assets|icons|img|fonts)\//;
+
+// The frontend may be built under a base path (VITE_BASE_PATH); static assets sit below it,
+// while /api and /auth are always at the root.
+const BASE = new URL(self.registration.scope).pathname;
+const appPath = pathname => (pathname.startsWith(BASE) ? '/' + pathname.slice(BASE.length) : pathname);
+
+self.addEventListener('install', () => self.skipWaiting());
+
+self.addEventListener('activate', event => {
+  event.waitUntil((async () => {
+    const keys = await caches.keys();
+    await Promise.all(keys.filter(k => k.startsWith('dtv-shell-') && k !== SHELL_CACHE).map(k => caches.delete(k)));
+    await self.clients.claim();
+  })());
+});
+
+self.addEventListener('fetch', event => {
+  const req = event.request;
+  const url = new URL(req.url);
+  if (url.origin !== self.location.origin) return;
+
+  if (url.pathname === '/auth/logout') {
+    event.waitUntil(clearPersonalData());
+    return;
+  }
+  if (req.method !== 'GET') return;
+
+  if (req.mode === 'navigate') {
+    event.respondWith(shellFirstOffline(req));
+  } else if (SESSION_API.test(url.pathname)) {
+    event.respondWith(sessionNetworkFirst(req, url.pathname));
+  } else if (url.pathname === AUTH_ME_KEY) {
+    event.respondWith(networkFirst(req, AUTH_ME_KEY));
+  } else if (STATIC_ASSET.test(appPath(url.pathname)) || appPath(url.pathname) === '/favicon.ico') {
+    event.respondWith(cacheFirst(req));
+  }
+});
+
+// ---------------------------------------------------------------------------
+// Cache API — shell, static assets, /auth/me
+// ---------------------------------------------------------------------------
+
+async function shellFirstOffline(req) {
+  try {
+    const res = await fetch(req);
+    if (res.ok && (res.headers.get('Content-Type') || '').includes('text/html')) {
+      const cache = await caches.open(SHELL_CACHE);
+      await cache.put(SHELL_KEY, res.clone());
+    }
+    return res;
+  } catch (err) {
+    // Every SPA route renders from the same index.html
+    const cached = await caches.match(SHELL_KEY);
+    if (cached) return cached;
+    throw err;
+  }
+}
+
+async function networkFirst(req, key) {
+  try {
+    const res = await fetch(req);
+    if (res.ok) {
+      const cache = await caches.open(SHELL_CACHE);
+      await cache.put(key, res.clone());
+    }
+    return res;
+  } catch (err) {
+    const cached = await caches.match(key);
+    if (cached) return cached;
+    throw err;
+  }
+}
+
+async function cacheFirst(req) {
+  const cached = await caches.match(req);
+  if (cached) return cached;
+  const res = await fetch(req);
+  if (res.ok) {
+    const cache = await caches.open(SHELL_CACHE);
+    await cache.put(req, res.clone());
+  }
+  return res;
+}
+
+// ---------------------------------------------------------------------------
+// IndexedDB — session detail responses
+// ---------------------------------------------------------------------------
+
+function openDb() {
+  return new Promise((resolve, reject) => {
+    const open = indexedDB.open(DB_NAME, DB_VERSION);
+    open.onupgradeneeded = () => {
+      const db = open.result;
+      if (!db.objectStoreNames.contains(SESSIONS_STORE)) db.createObjectStore(SESSIONS_STORE, { keyPath: 'url' });
+      if (!db.objectStoreNames.contains(QUEUE_STORE)) db.createObjectStore(QUEUE_STORE, { keyPath: 'id', autoIncrement: true });
+    };
+    open.onsuccess = () => resolve(open.result);
+    open.onerror = () => reject(open.error);
+  });
+}
+
+function request(req) {
+  return new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+async function sessionNetworkFirst(req, path) {
+  try {
+    const res = await fetch(req);
+    if (res.ok) {
+      const body = await res.clone().text();
+      saveSession(path, body).catch(err => console.error('[sw] Failed to cache session', err));
+    }
+    return res;
+  } catch (err) {
+    const saved = await loadSession(path).catch(() => undefined);
+    if (!saved) throw err;
+    return new Response(saved.body, {
+      status: 200,
+      headers: { 'Content-Type': 'application/json', 'X-Offline-Saved-At': saved.savedAt },
+    });
+  }
+}
+
+async function saveSession(path, body) {
+  const db = await openDb();
+  const tx = db.transaction(SESSIONS_STORE, 'readwrite');
+  const store = tx.objectStore(SESSIONS_STORE);
+  store.put({ url: path, savedAt: new Date().toISOString(), body });
+
+  // Keep the most recently saved sessions only
+  const all = await request(store.getAll());
+  all.sort((a, b) => b.savedAt.localeCompare(a.savedAt));
+  for (const old of all.slice(MAX_CACHED_SESSIONS)) store.delete(old.url);
+}
+
+async function loadSession(path) {
+  const db = await openDb();
+  return request(db.transaction(SESSIONS_STORE).objectStore(SESSIONS_STORE).get(path));
+}
+
+// Signing out drops cached personal data (entries carry names and emails for check-in users).
+// Queued check-ins are kept and replay after the next sign-in.
+async function clearPersonalData() {
+  const cache = await caches.open(SHELL_CACHE);
+  await cache.delete(AUTH_ME_KEY);
+  const db = await openDb();
+  await request(db.transaction(SESSIONS_STORE, 'readwrite').objectStore(SESSIONS_STORE).clear());
+}
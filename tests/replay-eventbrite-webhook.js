@@ -0,0 +1,63 @@
+/**
+ * Replay an Eventbrite webhook fixture against a running server
+ *
+ * Fills the {eventId} / {orderId} / {attendeeId} placeholders in a fixture from
+ * tests/fixtures/eventbrite-webhooks/, signs the body with EVENTBRITE_WEBHOOK_SECRET and
+ * POSTs it to /api/eventbrite/webhook — the same request Eventbrite would make.
+ *
+ * Run: node tests/replay-eventbrite-webhook.js <fixture> [--event ID] [--order ID] [--attendee ID] [--url http://localhost:3000] [--repeat N]
+ *   e.g. node tests/replay-eventbrite-webhook.js attendee-updated --event 123456789 --attendee 987 --repeat 3
+ *
+ * --repeat sends the same webhook N times at once, to watch them merge into one sync.
+ */
+
+require('dotenv').config();
+const crypto = require('crypto');
+const fs = require('fs');
+const path = require('path');
+
+const FIXTURE_DIR = path.join(__dirname, 'fixtures', 'eventbrite-webhooks');
+
+function parseArgs(argv) {
+    const args = { fixture: argv[0], url: `http://localhost:${process.env.PORT || 3000}`, repeat: 1 };
+    for (let i = 1; i < argv.length; i += 2) {
+        const key = argv[i].replace(/^--/, '');
+        args[key] = key === 'repeat' ? parseInt(argv[i + 1], 10) : argv[i + 1];
+    }
+    return args;
+}
+
+async function main() {
+    const args = parseArgs(process.argv.slice(2));
+    const fixtures = fs.readdirSync(FIXTURE_DIR).map(f => f.replace(/\.json$/, ''));
+    if (!args.fixture || !fixtures.includes(args.fixture)) {
+        console.error(`Usage: node tests/replay-eventbrite-webhook.js <${fixtures.join('|')}> [--event ID] [--order ID] [--attendee ID]`);
+        process.exit(1);
+    }
+    const secret = process.env.EVENTBRITE_WEBHOOK_SECRET;
+    if (!secret) {
+        console.error('EVENTBRITE_WEBHOOK_SECRET is not set');
+        process.exit(1);
+    }
+
+    const template = fs.readFileSync(path.join(FIXTURE_DIR, `${args.fixture}.json`), 'utf8');
+    const body = template
+        .replace('{eventId}', args.event || '0')
+        .replace('{orderId}', args.order || '0')
+        .replace('{attendeeId}', args.attendee || '0');
+    const signature = crypto.createHmac('sha256', secret).update(body).digest('hex');
+
+    const send = () => fetch(`${args.url}/api/eventbrite/webhook`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', 'X-Eventbrite-Signature': signature },
+        body,
+    }).then(async res => `${res.status} ${await res.text()}`);
+
+    const results = await Promise.all(Array.from({ length: args.repeat }, send));
+    results.forEach(r => console.log(r));
+}
+
+main().catch(err => {
+    console.error('Fatal error:', err.message);
+    process.exit(1);
+});
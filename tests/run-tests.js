@@ -20,6 +20,10 @@ const tests = [
   'test-media-taxonomy.js',
 ];
 
+// With DATA_STORE=local only the list tests run — the rest need Graph/Eventbrite credentials
+const LOCAL_TESTS = ['test-records.js', 'test-data-contracts.js'];
+const isLocal = (process.env.DATA_STORE || '').toLowerCase() === 'local';
+
 // Lines worth keeping from test output (assertions, summaries, fatal errors)
 const KEEP = [
   /^\s+[✓✗]/,        // assertion results: "  ✓ ..." or "  ✗ ..."
@@ -40,6 +44,10 @@ let allPassed = true;
 console.log();
 
 for (const file of tests) {
+  if (isLocal && !LOCAL_TESTS.includes(file)) {
+    console.log(`  - ${file}  —  skipped (DATA_STORE=local)`);
+    continue;
+  }
   const result = spawnSync('node', [path.join(__dirname, file)], { encoding: 'utf8' });
   const ok = result.status === 0;
   const combined = result.stdout + (result.stderr || '');
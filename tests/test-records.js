@@ -10,7 +10,7 @@
  */
 
 require('dotenv').config();
-const { sharePointClient } = require('../dist/backend/services/sharepoint-client');
+const { listStore } = require('../dist/backend/services/list-store');
 const { recordsRepository } = require('../dist/backend/services/repositories/records-repository');
 
 const RECORDS_LIST_GUID = process.env.RECORDS_LIST_GUID;
@@ -42,13 +42,13 @@ async function main() {
     // --- Column choices (used by the volunteers page filter) ---
     console.log('Column choices (GET /api/records/options):');
 
-    const types = await sharePointClient.getColumnChoices(RECORDS_LIST_GUID, 'Type');
+    const types = await listStore.getColumnChoices(RECORDS_LIST_GUID, 'Type');
     assert('Type choices returned', types.length > 0, `got ${JSON.stringify(types)}`);
     for (const expected of EXPECTED_TYPES) {
         assert(`Type includes "${expected}"`, types.includes(expected));
     }
 
-    const statuses = await sharePointClient.getColumnChoices(RECORDS_LIST_GUID, 'Status');
+    const statuses = await listStore.getColumnChoices(RECORDS_LIST_GUID, 'Status');
     assert('Status choices returned', statuses.length > 0, `got ${JSON.stringify(statuses)}`);
     for (const expected of EXPECTED_STATUSES) {
         assert(`Status includes "${expected}"`, statuses.includes(expected));
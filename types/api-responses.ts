@@ -83,6 +83,8 @@ export interface SessionResponse {
   coverUrl?: string;
   financialYear: string;
   isBookable: boolean;
+  cancelled?: string;         // ISO datetime the whole session was called off
+  cancelReason?: string;
   eventbriteEventId?: string;
   metadata?: Array<{ label: string; termGuid: string }>;
   projectId?: number;
@@ -171,7 +173,93 @@ export interface ProfileDetailResponse {
   entries: ProfileEntryResponse[];
   records?: ConsentRecordResponse[];
   linkedProfiles?: Array<{ id: number; slug: string; name: string }>;
+  /** Child profiles whose Guardian is this profile */
+  children?: Array<{ id: number; slug: string; name: string }>;
+  /** The parent or guardian this child profile is linked to */
+  guardian?: { id: number; slug: string; name: string };
+  /** Profiles linked to this one as the same volunteer from the profile review queue */
+  aliasProfiles?: Array<{ id: number; slug: string; name: string }>;
   warnings?: Array<{ text: string; url?: string }>;
+  /** Personal .ics feed of this profile's bookings — the profile's own volunteer and admins only. */
+  calendarFeedUrl?: string;
+}
+
+/** Per-group scheduled session emails, sent by the nightly run */
+export interface GroupEmailSchedule {
+  /** Reminder sent daysBefore the session; null = no reminder */
+  preTemplate: 'pre-dig' | 'pre-social' | null;
+  daysBefore: number;
+  /** Send post-session once the volunteer is checked in with hours set */
+  postSession: boolean;
+  /** Regulars are booked and asked to confirm this many days before; absent = no RSVP emails */
+  rsvpDaysBefore?: number;
+}
+
+/** A regular's answer for a session — awaiting: emailed, no answer yet; not-asked: not emailed (or not booked) */
+export type RsvpState = 'coming' | 'declined' | 'awaiting' | 'not-asked';
+
+/** GET/POST /api/rsvp/:token — the booking an RSVP link points at */
+export interface RsvpResponse {
+  volunteerName: string;
+  groupKey: string;
+  groupName: string;
+  date: string;
+  displayName?: string;
+  state: RsvpState;
+  /** False once the session has passed or been cancelled — the answer can't change any more */
+  open: boolean;
+  /** Set when the whole session has been cancelled */
+  cancelled?: string;
+}
+
+/** Live RSVP state of a group's regulars for one upcoming session (group detail, trusted users) */
+export interface GroupSessionRsvpResponse {
+  sessionId: number;
+  date: string;
+  displayName?: string;
+  regulars: Array<{ profileId: number; name: string; slug: string; state: RsvpState }>;
+}
+
+/** Weekly pattern the session series generator materialises — see services/session-series.ts */
+export interface GroupRecurrence {
+  /** 0 = Sunday … 6 = Saturday */
+  weekday: number;
+  /** HH:MM 24-hour */
+  time: string;
+  /** Hours */
+  length: number;
+  /** Skip England and Wales bank holidays (and their substitute days) */
+  skipBankHolidays: boolean;
+  /** YYYY-MM-DD dates never generated */
+  skipDates: string[];
+  /** Limits JSON written to each new session */
+  limits?: SessionLimits;
+  projectId?: number;
+  /** Taxonomy tags written to each new session */
+  tags: { label: string; termGuid: string }[];
+}
+
+export type SessionSeriesSkipReason = 'bank-holiday' | 'skip-date';
+
+export interface SessionSeriesResponse {
+  dryRun: boolean;
+  /** Sessions created (or, on a dry run, that would be — no id) */
+  created: { date: string; id?: number }[];
+  /** Dates that already have a session for the group */
+  existing: { date: string; id: number }[];
+  skipped: { date: string; reason: SessionSeriesSkipReason }[];
+  failed: { date: string; error: string }[];
+  /** Created sessions whose tags couldn't be written */
+  untagged: string[];
+}
+
+export type SessionSeriesKeepReason = 'booked' | 'eventbrite';
+
+export interface SessionSeriesDeleteResponse {
+  dryRun: boolean;
+  deleted: { date: string; id: number }[];
+  kept: { date: string; id: number; reason: SessionSeriesKeepReason }[];
+  failed: { date: string; error: string }[];
 }
 
 export interface GroupDetailResponse {
@@ -180,7 +268,11 @@ export interface GroupDetailResponse {
   displayName?: string;
   description?: string;
   eventbriteSeriesId?: string;
+  emailSchedule?: GroupEmailSchedule;
+  recurrence?: GroupRecurrence;
   regulars: GroupRegularResponse[];
+  /** Upcoming sessions inside the RSVP window — trusted users, groups with rsvpDaysBefore set */
+  rsvps?: GroupSessionRsvpResponse[];
   isCurrentUserRegular?: boolean;
   financialYear: string;
   stats: {
@@ -208,6 +300,7 @@ export interface EntryResponse {
   notes?: string;
   accompanyingAdultId?: number;
   cancelled?: string;          // ISO datetime if booking was cancelled
+  waitlisted?: string;         // ISO datetime the booking joined the waitlist; absent = confirmed place
   email?: string;              // only present for check-in tier users (admin/check-in)
   /** Trusted Microsoft callers only. */
   trackerAccess?: TrackerAccess;
@@ -216,6 +309,9 @@ export interface EntryResponse {
   noPhoto?: boolean;           // profile.stats.noPhoto (current)
   isFirstAiderAvailable?: boolean; // profile.stats.isFirstAider
   eventbriteAttendeeId?: string; // present when entry originated from Eventbrite
+  organisation?: string;       // employer for a CSR / work booking
+  placeholder?: boolean;       // unnamed team booking place — see POST /entries/:id/place
+  modified?: string;           // SharePoint Modified — sent back as expectedModified for conflict detection
 }
 
 export interface SessionDetailResponse {
@@ -238,6 +334,8 @@ export interface SessionDetailResponse {
   stats: SessionStats;
   financialYear: string;
   isBookable: boolean;
+  cancelled?: string;         // ISO datetime the whole session was called off
+  cancelReason?: string;
   eventbriteEventId?: string;
   groupEventbriteSeriesId?: string;
   metadata?: Array<{ label: string; termGuid: string }>;
@@ -248,6 +346,7 @@ export interface SessionDetailResponse {
   nextSession?: string;
   // Per-user status — only present when request is authenticated and user has a profile
   isRegistered?: boolean;
+  isWaitlisted?: boolean;     // user's booking is on the waitlist (isRegistered is false until promoted)
   isAttended?: boolean;
   isRegular?: boolean;
   isRepeat?: boolean;         // has attended DTV before and is not a regular for this group
@@ -256,6 +355,99 @@ export interface SessionDetailResponse {
   userProfileId?: number;     // profile ID of the authenticated viewer (needed for self-service Book POST)
 }
 
+/** Someone the booker can bring — themselves or a child linked to them */
+export interface BookingPersonResponse {
+  profileId: number;
+  name: string;
+  /** Already has an active booking for this session (confirmed or waitlisted) */
+  booked: boolean;
+  waitlisted: boolean;
+  /** The active booking, when the booker may cancel it — the adult's own and Guardian-linked children's */
+  entryId?: number;
+  /** Latest Photo Consent record status; absent when never asked */
+  photoConsent?: string;
+}
+
+/** GET /sessions/:group/:date/booking — the "Who's coming?" step and what it still needs to ask */
+export interface BookingOptionsResponse {
+  adult: BookingPersonResponse;
+  children: BookingPersonResponse[];
+  /** No Accepted Privacy Consent record yet — the booking must acknowledge how DTV uses booking data */
+  needsPrivacy: boolean;
+  /** No Photo Consent record yet — the booking must give a photo / video choice for the booker */
+  needsPhoto: boolean;
+  /** Organisations list configured — a CSR / work booking can name the employer */
+  organisations: boolean;
+}
+
+/** POST /sessions/:group/:date/booking — the entries and child profiles one booking created */
+export interface BookingResponse {
+  entries: Array<{ id: number; profileId: number; name: string; child: boolean }>;
+  createdProfiles: Array<{ id: number; name: string }>;
+  /** Over the session's limits — every entry this booking created is on the waitlist */
+  waitlisted: boolean;
+  /** Children or acknowledgement records that couldn't be written; the rest of the booking stands */
+  failed: string[];
+}
+
+/** POST /sessions/:group/:date/team-booking — placeholder places booked for an organisation */
+export interface TeamBookingResponse {
+  organisation: { id: number; name: string };
+  entries: Array<{ id: number; profileId: number; name: string }>;
+  /** Places that couldn't be created; the rest of the team booking stands */
+  failed: string[];
+}
+
+/** POST /entries/:id/place — who now holds a team place */
+export interface TeamPlaceResponse {
+  profileId: number;
+  name: string;
+  /** The volunteer already had a profile: the entry moved to it and the placeholder was deleted */
+  existing: boolean;
+}
+
+/** POST /sessions/:group/:date/cancel — what calling off a whole session did */
+export interface SessionCancelResponse {
+  cancelled: string;
+  cancelReason: string;
+  /** Active bookings (confirmed and waitlisted) stamped Cancelled */
+  cancelledEntries: number;
+  /** Volunteers sent the session-cancelled email */
+  emailed: number;
+  /** Entries that couldn't be cancelled or emailed; the session stays cancelled */
+  failed: string[];
+  /** The session was already cancelled and this call finished what an earlier one left */
+  resumed: boolean;
+}
+
+export interface OrganisationResponse {
+  id: number;
+  name: string;
+}
+
+/** One session an organisation's volunteers attended, for the CSR report */
+export interface OrganisationSessionRow {
+  sessionId: number;
+  date: string;
+  groupName?: string;
+  groupKey?: string;
+  headcount: number;
+  hours: number;
+}
+
+export interface OrganisationReportRow extends OrganisationResponse {
+  sessions: number;
+  headcount: number;
+  hours: number;
+  sessionRows: OrganisationSessionRow[];
+}
+
+/** GET /organisations/report?fy= — sessions, headcount and hours per organisation */
+export interface OrganisationReportResponse {
+  financialYear: string;
+  organisations: OrganisationReportRow[];
+}
+
 export interface EntryDetailResponse {
   id: number;
   volunteerName?: string;
@@ -379,3 +571,180 @@ export interface EntryUploadContextResponse {
   /** True when this uploader's files are saved as public (admin/check-in). */
   uploadsPublicDefault: boolean;
 }
+
+export interface AuditEventResponse {
+  timestamp: string;   // ISO datetime
+  actor: string;       // signed-in email, or 'api-key'
+  role?: string;
+  method: string;
+  route: string;       // API path without /api, e.g. /entries/123
+  status: number;
+  entityType: 'entry' | 'profile' | 'record' | 'regular' | 'session';
+  entityIds: number[];
+  changes?: Record<string, { before: unknown; after: unknown }>;
+}
+
+export type WebhookEventType = 'entry.booked' | 'entry.cancelled' | 'entry.checked_in' | 'entry.deleted' | 'webhook.test';
+
+export interface WebhookSubscriptionResponse {
+  id: number;
+  name: string;
+  url: string;
+  events: WebhookEventType[] | ['*'];
+  enabled: boolean;
+  secretHint: string;  // last 4 characters; the full secret is only returned on create / rotate
+  secret?: string;
+}
+
+export interface WebhookDeliveryResponse {
+  deliveryId: string;
+  subscriptionId: number;
+  event: WebhookEventType;
+  url: string;
+  attempt: number;     // 1-based
+  timestamp: string;   // ISO datetime the attempt finished
+  status?: number;     // HTTP status; absent when the request never got a response
+  ok: boolean;
+  error?: string;
+  durationMs: number;
+  nextAttemptAt?: string; // set when a retry is scheduled
+}
+
+export interface NightlyStepResponse {
+  name: string;        // e.g. 'sync-attendees', 'backup'
+  status: 'ok' | 'failed';
+  startedAt: string;   // ISO datetime
+  durationMs: number;
+  counts?: Record<string, number>;
+  error?: string;
+}
+
+export interface NightlyRunResponse {
+  id: string;
+  startedAt: string;   // ISO datetime
+  finishedAt: string;
+  durationMs: number;
+  status: 'ok' | 'partial' | 'failed'; // partial = a non-fatal step failed; failed = the run stopped early
+  steps: NightlyStepResponse[];
+  /** Headline totals across steps: newSessions, newProfiles, newEntries, cancelledEntries, clashProfiles, updatedRecords, errors… */
+  counts: Record<string, number>;
+  summary?: string;
+  error?: string;
+}
+
+export interface MediaFileResponse {
+  name: string;
+  folder: string;      // {groupKey}/{date}
+  webUrl: string;
+  isPublic: boolean;
+}
+
+export interface ProfileEraseResponse {
+  profileId: number;
+  name: string;                // the anonymised name, e.g. "Erased volunteer 42"
+  slug: string;                // profile slug after the rename
+  dryRun: boolean;
+  answerFieldsCleared: number; // profile columns holding Eventbrite checkout answers (profile-field mappings)
+  entriesAnonymised: number;   // own entries with Notes or BookedBy cleared
+  bookingsCancelled: number;   // future active bookings
+  bookedByCleared: number;     // other people's entries booked with this volunteer's email
+  recordsDeleted: number;
+  regularsDeleted: number;
+  profileReviewsAnonymised: number; // Eventbrite sync reviews with the attendee name and email blanked
+  loginsDeleted: number;
+  auditEventsRedacted: number; // audit events with their name or email taken out — who changed what and when is kept
+  media: MediaFileResponse[];  // uploaded under the volunteer's name — for manual review
+  warnings: string[];
+}
+
+/** Current state of an entry — returned by PATCH /entries/:id when expectedModified is sent (200 or 409) */
+export interface EntryVersionResponse {
+  modified: string;
+  checkedIn: boolean;
+  hours: number;
+  labels: string[];
+}
+
+export type ProfileReviewKind = 'clash' | 'name-match';
+export type ProfileReviewStatus = 'pending' | 'merged' | 'separate' | 'alias';
+export type ProfileReviewAction = 'merge' | 'separate' | 'alias';
+
+export interface ProfileReviewProfile {
+  id: number;
+  slug: string;
+  name: string;
+  emails: string[];
+  created?: string;    // ISO datetime
+  entryCount: number;  // bookings, including cancelled
+}
+
+export interface ProfileReviewResponse {
+  id: number;
+  kind: ProfileReviewKind;
+  status: ProfileReviewStatus;
+  attendeeName: string;
+  attendeeEmail?: string;
+  sessionId?: number;
+  /** The existing profile the attendee was matched against; absent if it has since been deleted */
+  profile?: ProfileReviewProfile;
+  /** Clash: the profile the sync created. Name match: set once the booking is split off */
+  otherProfile?: ProfileReviewProfile;
+  created: string;     // ISO datetime
+  resolvedBy?: string;
+  resolved?: string;   // ISO datetime
+}
+
+export type EventbriteQuestionTarget = 'record' | 'profile-field' | 'entry-label';
+
+export interface EventbriteQuestionMappingResponse {
+  id?: number;           // absent for the built-in defaults used when the list isn't configured
+  title: string;
+  questionId?: string;
+  target: EventbriteQuestionTarget;
+  recordType?: string;
+  fieldName?: string;
+  label?: string;
+  yesAnswers: string[];  // lower-case
+  required: boolean;
+}
+
+/** A write the Eventbrite sync would make — ?dryRun=true on /eventbrite/sync-sessions and /sync-attendees */
+export type EventbriteSyncAction =
+  | 'create-session'
+  | 'create-profile'
+  | 'backfill-email'     // name-only match to a profile with no email
+  | 'create-entry'
+  | 'stamp-attendee-id'  // existing entry gains its EventbriteAttendeeID
+  | 'cancel-entry'
+  | 'create-record'      // mapped question → Records
+  | 'update-record'
+  | 'update-profile-field'
+  | 'add-entry-label';
+
+export interface EventbriteSyncChange {
+  action: EventbriteSyncAction;
+  eventId?: string;
+  sessionId?: number;
+  date?: string;         // session date, YYYY-MM-DD
+  profileId?: number;    // negative for a profile the same run would create
+  name: string;          // profile name, or session title for create-session
+  email?: string;
+  entryId?: number;
+  attendeeId?: string;
+  /** create-profile: the same-name profile whose email differs */
+  clashProfileId?: number;
+  /** create-entry for a child ticket: the adult ticket holder in the same order */
+  accompanyingAdult?: { profileId: number; name: string };
+  recordType?: string;   // create-record / update-record
+  status?: string;       // the record status to be written
+  previousStatus?: string; // update-record
+  fieldName?: string;    // update-profile-field
+  value?: string;        // update-profile-field: the answer
+  labels?: string[];     // create-entry / add-entry-label: labels from mapped answers
+}
+
+export interface EventbriteSyncDryRunResponse<T> {
+  dryRun: true;
+  result: T;             // the counts the real sync would report
+  changes: EventbriteSyncChange[];
+}
@@ -10,6 +10,7 @@ declare module 'express-session' {
       profileSlug?: string;
       profileId?: number;       // set for checkin and selfservice; used for ownership enforcement
       profileIds?: number[];    // all profiles for this email (selfservice with multiple linked profiles)
+      childProfileIds?: number[]; // selfservice: child profiles whose Guardian is one of profileIds
       trustedRole?: 'admin' | 'checkin'; // selfservice user whose email also matches a trusted account; indicates which role
       freshAuthAt?: string;             // ISO timestamp of last fresh authentication (Auth list Created date)
       profileStats?: {
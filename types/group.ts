@@ -26,6 +26,10 @@ export interface SharePointGroup extends SharePointBaseItem {
   Description?: string;
   /** Eventbrite Series identifier */
   EventbriteSeriesID?: string;
+  /** Scheduled session email settings JSON — see services/session-email-scheduler.ts */
+  EmailSchedule?: string;
+  /** Session series recurrence rule JSON — see services/session-series.ts */
+  Recurrence?: string;
 }
 
 /**
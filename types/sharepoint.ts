@@ -35,6 +35,11 @@ export interface SharePointProfile extends SharePointBaseItem {
   User?: string;
   /** Flag indicating if this is a group profile */
   IsGroup?: boolean;
+  /** Child profiles: the parent or guardian profile who books for them */
+  GuardianLookupId?: number;
+  Guardian?: string;
+  /** A team booking place, named "{Organisation} place N" until the volunteer is known */
+  Placeholder?: boolean;
   /** Allow bracket access for dynamic field names (Stats, etc.) */
   [key: string]: any;
 }
@@ -74,9 +79,14 @@ export interface SharePointEntry extends SharePointBaseItem {
   AccompanyingAdultLookupId?: number;
   AccompanyingAdult?: string;
   Cancelled?: string;              // ISO datetime when booking was cancelled; absent/null = active
+  Waitlisted?: string;             // ISO datetime when booking joined the waitlist; absent/null = confirmed place
   Stats?: string;                  // Legacy snapshot JSON — read-only historic data
   Labels?: string[];               // Multi-select choice: Regular | CSR | Late | FirstAider | DigLead
   EventbriteAttendeeID?: string;   // Eventbrite attendee ID; presence means this entry came via Eventbrite
+  EmailsSent?: string;             // JSON { template: ISO datetime } of session emails already sent
+  Rsvp?: string;                   // Choice: Coming | Declined — a regular's answer to the RSVP email
+  OrganisationLookupId?: number;   // Employer for a CSR / work booking (Organisations list)
+  Organisation?: string;
   /** Allow bracket access for dynamic field names (SessionLookupId, ProfileLookupId, etc.) */
   [key: string]: any;
 }
@@ -162,6 +172,73 @@ export interface ConsentRecord {
   modified: Date;
 }
 
+// ============================================================================
+// Webhooks List
+// ============================================================================
+
+/**
+ * Raw Webhook subscription from SharePoint
+ * Events is comma-separated event types, or * for all. Secret signs each delivery (HMAC-SHA256).
+ */
+export interface SharePointWebhook extends SharePointBaseItem {
+  Title?: string;
+  Url?: string;
+  Events?: string;
+  Secret?: string;
+  Enabled?: boolean;
+}
+
+/**
+ * Raw Profile Review from SharePoint — an Eventbrite sync profile match that needs a human look.
+ * Kind 'Clash': same name, different email, so OtherProfileID was created alongside ProfileID.
+ * Kind 'Name match': matched ProfileID by name only and backfilled Email onto it.
+ * ProfileID / OtherProfileID / SessionID are plain numbers (not lookups) so a merge that deletes
+ * a profile doesn't leave a dangling lookup.
+ */
+export interface SharePointProfileReview extends SharePointBaseItem {
+  /** Attendee name as booked on Eventbrite */
+  Title?: string;
+  Kind?: 'Clash' | 'Name match';
+  Status?: 'Pending' | 'Merged' | 'Separate' | 'Alias';
+  ProfileID?: number;
+  OtherProfileID?: number;
+  /** Attendee email as booked on Eventbrite */
+  Email?: string;
+  SessionID?: number;
+  ResolvedBy?: string;
+  Resolved?: string;
+}
+
+/**
+ * Raw Eventbrite Question mapping from SharePoint — where an answer given at checkout goes.
+ * Matched by QuestionID when set, otherwise by question Title (case-insensitive).
+ */
+export interface SharePointEventbriteQuestion extends SharePointBaseItem {
+  /** Question text as asked on Eventbrite */
+  Title?: string;
+  QuestionID?: string;
+  Target?: 'Record' | 'Profile field' | 'Entry label';
+  /** Record: the Records Type to create or update */
+  RecordType?: string;
+  /** Profile field: internal name of the Profiles column the answer is copied to */
+  FieldName?: string;
+  /** Entry label: the Labels choice added to the booking */
+  Label?: string;
+  /** Comma-separated answers that count as yes (Record → Accepted, Entry label → applied) */
+  YesAnswers?: string;
+  /** Flagged by the event config check when an event doesn't ask it */
+  Required?: boolean;
+}
+
+/**
+ * Raw Organisation from SharePoint — an employer volunteers come through on CSR / work bookings.
+ * Entries link to it with the Organisation lookup.
+ */
+export interface SharePointOrganisation extends SharePointBaseItem {
+  /** Organisation name as shown in reports */
+  Title?: string;
+}
+
 // ============================================================================
 // Lookup Maps (for efficient data enrichment)
 // ============================================================================